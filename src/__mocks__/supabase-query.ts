@@ -0,0 +1,78 @@
+/**
+ * Supabase client mocks for service tests
+ *
+ * `mockQuery` is a chainable query that resolves to a fixed result.
+ * `mockSupabaseClient` hands out one queued result per `from(table)` call
+ * and records each query under its table so tests can assert on it.
+ */
+
+type QueryResult = { data?: any; error?: any; count?: number | null };
+
+const CHAIN_METHODS = [
+  'select', 'eq', 'neq', 'in', 'is', 'not', 'or', 'gt', 'gte', 'lt', 'lte',
+  'order', 'limit', 'range', 'insert', 'update', 'upsert', 'delete'
+];
+
+export const mockQuery = (result: QueryResult = { data: null, error: null }) => {
+  const builder: any = {};
+  CHAIN_METHODS.forEach(method => {
+    builder[method] = jest.fn().mockReturnValue(builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.maybeSingle = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+  return builder;
+};
+
+export interface MockSupabaseClientOptions {
+  /** Resolves each rpc call; defaults to no data */
+  rpc?: (name: string, params?: any) => Promise<QueryResult>;
+  /** Signed-in user returned by auth.getUser */
+  userId?: string | null;
+}
+
+export const mockSupabaseClient = (
+  tables: Record<string, QueryResult[]> = {},
+  options: MockSupabaseClientOptions = {}
+) => {
+  const calls: Record<string, any[]> = {};
+  const userId = options.userId === undefined ? 'admin-1' : options.userId;
+  const client = {
+    from: jest.fn((table: string) => {
+      const builder = mockQuery(tables[table]?.shift() ?? { data: null, error: null });
+      (calls[table] = calls[table] || []).push(builder);
+      return builder;
+    }),
+    rpc: jest.fn(options.rpc ?? (() => Promise.resolve({ data: null, error: null }))),
+    auth: { getUser: jest.fn().mockResolvedValue({ data: { user: userId ? { id: userId } : null } }) }
+  };
+  return { client, calls };
+};
+
+/**
+ * Client that keeps upserted rows in memory, keyed on one column, so a
+ * service can read back what it wrote earlier in the test
+ */
+export const mockRowStoreClient = (key: string) => {
+  const rows = new Map<string, any>();
+  const client = {
+    rows,
+    from: jest.fn(() => {
+      const filters: Record<string, any> = {};
+      const builder: any = {
+        select: jest.fn(() => builder),
+        eq: jest.fn((column: string, value: any) => {
+          filters[column] = value;
+          return builder;
+        }),
+        maybeSingle: jest.fn(() => Promise.resolve({ data: rows.get(filters[key]) ?? null, error: null })),
+        upsert: jest.fn((row: any) => {
+          rows.set(row[key], { ...rows.get(row[key]), ...row });
+          return Promise.resolve({ data: null, error: null });
+        })
+      };
+      return builder;
+    })
+  };
+  return client;
+};
@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import { InterventionBoard } from '@/components/admin/attendance';
+
+export const metadata: Metadata = {
+  title: 'Attendance Interventions | HeyPeter Academy',
+  description: 'Follow up on students at risk of dropping out and track whether their attendance improves.',
+};
+
+export default function AttendanceInterventionsPage() {
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <InterventionBoard />
+    </div>
+  );
+}
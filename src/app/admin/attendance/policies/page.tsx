@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import { AttendancePolicyManager } from '@/components/admin/attendance';
+
+export const metadata: Metadata = {
+  title: 'Attendance Policies | HeyPeter Academy',
+  description: 'Configure versioned hour deduction rules for lateness, absences and excused absences.',
+};
+
+export default function AttendancePoliciesPage() {
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <AttendancePolicyManager />
+    </div>
+  );
+}
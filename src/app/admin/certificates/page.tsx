@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import { CertificateIssuer } from '@/components/admin/certificates';
+
+export const metadata: Metadata = {
+  title: 'Certificates | HeyPeter Academy',
+  description: 'Issue verifiable attendance letters and course completion certificates.',
+};
+
+export default function CertificatesPage() {
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <CertificateIssuer />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import { ClassSeriesManagement } from '@/components/admin/scheduling';
+
+export const metadata: Metadata = {
+  title: 'Class Series | HeyPeter Academy',
+  description: 'Manage recurring group classes, their sessions and enrolled students.',
+};
+
+export default function ClassSeriesPage() {
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <ClassSeriesManagement />
+    </div>
+  );
+}
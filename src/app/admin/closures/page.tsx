@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import { ClosureCalendarManagement } from '@/components/admin/scheduling';
+
+export const metadata: Metadata = {
+  title: 'Closure Calendar | HeyPeter Academy',
+  description: 'Manage public holidays and academy closures that scheduling works around.',
+};
+
+export default function ClosuresPage() {
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <ClosureCalendarManagement />
+    </div>
+  );
+}
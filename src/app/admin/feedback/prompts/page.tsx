@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import { FeedbackPromptDashboard } from '@/components/admin/feedback';
+
+export const metadata: Metadata = {
+  title: 'Feedback Prompts | HeyPeter Academy',
+  description: 'Post-class feedback prompt settings and response rates by teacher and course.',
+};
+
+export default function FeedbackPromptsPage() {
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <FeedbackPromptDashboard />
+    </div>
+  );
+}
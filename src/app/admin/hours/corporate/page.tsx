@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import { CorporateAccountsManagement } from '@/components/admin/hours';
+
+export const metadata: Metadata = {
+  title: 'Corporate Accounts | HeyPeter Academy',
+  description: 'Manage corporate hour pools, employee allocations and monthly statements.',
+};
+
+export default function CorporateAccountsPage() {
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <CorporateAccountsManagement />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import { FamilyAccountsManagement } from '@/components/admin/hours';
+
+export const metadata: Metadata = {
+  title: 'Family Accounts | HeyPeter Academy',
+  description: 'Manage family accounts, guardians and shared hour wallets.',
+};
+
+export default function FamilyAccountsPage() {
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <FamilyAccountsManagement />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import { PricingManagement } from '@/components/admin/hours';
+
+export const metadata: Metadata = {
+  title: 'Pricing & Promotions | HeyPeter Academy',
+  description: 'Manage promo codes, volume pricing tiers and referral credits for hour purchases.',
+};
+
+export default function HourPricingPage() {
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <PricingManagement />
+    </div>
+  );
+}
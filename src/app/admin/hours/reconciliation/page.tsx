@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import { LedgerReconciliationReport } from '@/components/admin/hours';
+
+export const metadata: Metadata = {
+  title: 'Hour Ledger Reconciliation | HeyPeter Academy',
+  description: 'Review hour balance discrepancies found by the nightly reconciliation job.',
+};
+
+export default function HourReconciliationPage() {
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <LedgerReconciliationReport />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import { RefundRequestsQueue } from '@/components/admin/hours';
+
+export const metadata: Metadata = {
+  title: 'Refund Requests | HeyPeter Academy',
+  description: 'Review student refund requests for unused hours and manage the refund policy.',
+};
+
+export default function HourRefundsPage() {
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <RefundRequestsQueue />
+    </div>
+  );
+}
@@ -9,7 +9,15 @@ import {
   Settings,
   UserCheck,
   FileText,
-  UserCog
+  UserCog,
+  CalendarOff,
+  Repeat,
+  DoorOpen,
+  UserX,
+  ClipboardCheck,
+  HeartHandshake,
+  Award,
+  MessageSquare
 } from "lucide-react";
 import { Toaster } from "@/components/ui/toaster";
 
@@ -22,6 +30,14 @@ const navItems = [
   { href: "/admin/courses", label: "Courses", icon: BookOpen },
   { href: "/admin/content", label: "Content", icon: FileText },
   { href: "/admin/classes", label: "Classes", icon: Calendar },
+  { href: "/admin/class-series", label: "Class Series", icon: Repeat },
+  { href: "/admin/closures", label: "Closures", icon: CalendarOff },
+  { href: "/admin/resources", label: "Resources", icon: DoorOpen },
+  { href: "/admin/substitutions", label: "Substitutions", icon: UserX },
+  { href: "/admin/attendance/policies", label: "Attendance Policies", icon: ClipboardCheck },
+  { href: "/admin/attendance/interventions", label: "Interventions", icon: HeartHandshake },
+  { href: "/admin/certificates", label: "Certificates", icon: Award },
+  { href: "/admin/feedback/prompts", label: "Feedback Prompts", icon: MessageSquare },
   { href: "/admin/analytics", label: "Analytics", icon: BarChart3 },
   { href: "/admin/settings", label: "Settings", icon: Settings },
 ];
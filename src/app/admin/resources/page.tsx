@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import { ResourceManagement } from '@/components/admin/scheduling';
+
+export const metadata: Metadata = {
+  title: 'Rooms & Meeting Accounts | HeyPeter Academy',
+  description: 'Manage rooms and virtual meeting accounts allocated to classes.',
+};
+
+export default function ResourcesPage() {
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <ResourceManagement />
+    </div>
+  );
+}
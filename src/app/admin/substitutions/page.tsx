@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import { SubstitutionQueue } from '@/components/admin/scheduling';
+
+export const metadata: Metadata = {
+  title: 'Substitutions | HeyPeter Academy',
+  description: 'Track cover for sessions of absent teachers.',
+};
+
+export default function SubstitutionsPage() {
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <SubstitutionQueue />
+    </div>
+  );
+}
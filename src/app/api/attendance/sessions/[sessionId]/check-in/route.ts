@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { AttendanceCheckInService } from '@/lib/services/attendance-check-in-service';
+
+import { logger } from '@/lib/services';
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const attendanceCheckInService = new AttendanceCheckInService(supabase);
+
+const statusForError = (code?: string) => {
+  if (code === 'SESSION_NOT_FOUND' || code === 'NOT_BOOKED') return 404;
+  if (code === 'SESSION_CLOSED' || code === 'NO_MEETING_LINK' || code === 'NOT_ONLINE') return 409;
+  if (code === 'INVALID_CODE') return 400;
+  return 500;
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const result = await attendanceCheckInService.getSession(sessionId);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error?.message, success: false },
+        { status: statusForError(result.error?.code) }
+      );
+    }
+
+    // Only what the check-in page needs; never the code secret
+    const { id, className, startTime, endTime, deliveryMode, status } = result.data;
+    return NextResponse.json({
+      data: { id, className, startTime, endTime, deliveryMode, status },
+      success: true
+    });
+  } catch (error) {
+    logger.error('Error fetching check-in session:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch check-in session', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+// Checks in the signed-in student, either with the class code or on joining online
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const { action, code, method } = await request.json();
+
+    if (action !== 'code' && action !== 'join') {
+      return NextResponse.json(
+        { error: 'Invalid action', success: false },
+        { status: 400 }
+      );
+    }
+
+    const auth = createRouteHandlerClient({ cookies });
+    const {
+      data: { session },
+    } = await auth.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Please log in to check in', success: false },
+        { status: 401 }
+      );
+    }
+
+    const { data: student } = await supabase
+      .from('students')
+      .select('id')
+      .eq('user_id', session.user.id)
+      .maybeSingle();
+
+    if (!student) {
+      return NextResponse.json(
+        { error: 'Student profile not found', success: false },
+        { status: 403 }
+      );
+    }
+
+    const result = action === 'join'
+      ? await attendanceCheckInService.recordJoin(sessionId, student.id)
+      : await attendanceCheckInService.checkIn({
+          sessionId,
+          studentId: student.id,
+          method: method === 'qr' ? 'qr' : 'code',
+          code: String(code || '')
+        });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message, code: result.error?.code, success: false },
+        { status: statusForError(result.error?.code) }
+      );
+    }
+
+    return NextResponse.json({ data: result.data, success: true });
+  } catch (error) {
+    logger.error('Error checking in:', error);
+    return NextResponse.json(
+      { error: 'Failed to check in', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import {
+  BillingDocumentService,
+  renderBillingDocumentHtml,
+  renderBillingDocumentPdf
+} from '@/lib/services/billing-document-service';
+
+import { logger } from '@/lib/services';
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const billingDocumentService = new BillingDocumentService(supabase);
+
+// The signed-in user and whether they are an admin
+const currentUser = async () => {
+  const auth = createRouteHandlerClient({ cookies });
+  const {
+    data: { session },
+  } = await auth.auth.getSession();
+
+  if (!session) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', session.user.id)
+    .maybeSingle();
+
+  return { userId: session.user.id, isAdmin: profile?.role === 'admin' };
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await currentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Please log in to view this billing document', success: false },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const format = new URL(request.url).searchParams.get('format') || 'json';
+
+    // Documents of other students are reported as missing
+    const result = await billingDocumentService.getDocument(id);
+    const canView = user.isAdmin ||
+      result.data?.studentId === user.userId ||
+      result.data?.corporateAccountId === user.userId;
+
+    if (!result.success || !result.data || !canView) {
+      return NextResponse.json(
+        { error: 'Billing document not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    const document = result.data;
+
+    switch (format) {
+      case 'pdf':
+        return new NextResponse(Buffer.from(renderBillingDocumentPdf(document)), {
+          headers: {
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `attachment; filename="${document.documentNumber}.pdf"`
+          }
+        });
+
+      case 'html':
+        return new NextResponse(renderBillingDocumentHtml(document), {
+          headers: { 'Content-Type': 'text/html; charset=utf-8' }
+        });
+
+      default:
+        return NextResponse.json({ data: document, success: true });
+    }
+  } catch (error) {
+    logger.error('Error rendering billing document:', error);
+    return NextResponse.json(
+      { error: 'Failed to render billing document', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { BillingDocumentService } from '@/lib/services/billing-document-service';
+import { sendPurchaseConfirmation } from '@/lib/services/billing-notification-service';
+
+import { logger } from '@/lib/services';
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const billingDocumentService = new BillingDocumentService(supabase);
+
+// The signed-in user and whether they are an admin
+const currentUser = async () => {
+  const auth = createRouteHandlerClient({ cookies });
+  const {
+    data: { session },
+  } = await auth.auth.getSession();
+
+  if (!session) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', session.user.id)
+    .maybeSingle();
+
+  return { userId: session.user.id, isAdmin: profile?.role === 'admin' };
+};
+
+// Students and corporate account holders list their own documents; admins list any
+export async function GET(request: NextRequest) {
+  try {
+    const user = await currentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Please log in to view billing documents', success: false },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const purchaseId = searchParams.get('purchase_id') || undefined;
+    const studentId = searchParams.get('student_id') || undefined;
+
+    if (!purchaseId && !studentId) {
+      return NextResponse.json(
+        { error: 'purchase_id or student_id is required', success: false },
+        { status: 400 }
+      );
+    }
+
+    if (!user.isAdmin && studentId && studentId !== user.userId) {
+      return NextResponse.json(
+        { error: 'You can only view your own billing documents', success: false },
+        { status: 403 }
+      );
+    }
+
+    const result = await billingDocumentService.listDocuments({ purchaseId, studentId });
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message, success: false },
+        { status: 500 }
+      );
+    }
+
+    const documents = user.isAdmin
+      ? result.data
+      : result.data?.filter(document =>
+        document.studentId === user.userId || document.corporateAccountId === user.userId
+      );
+
+    return NextResponse.json({ data: documents, success: true });
+  } catch (error) {
+    logger.error('Error fetching billing documents:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch billing documents', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+// Issuing documents and sending confirmations is for admins only
+export async function POST(request: NextRequest) {
+  try {
+    const user = await currentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Please log in to manage billing documents', success: false },
+        { status: 401 }
+      );
+    }
+
+    if (!user.isAdmin) {
+      return NextResponse.json(
+        { error: 'Only admins can manage billing documents', success: false },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, ...data } = body;
+
+    switch (action) {
+      case 'issue': {
+        if (!data.purchase_id) {
+          return NextResponse.json(
+            { error: 'purchase_id is required', success: false },
+            { status: 400 }
+          );
+        }
+        const result = await billingDocumentService.issuePurchaseDocuments(data.purchase_id);
+        if (!result.success) {
+          return NextResponse.json(
+            { error: result.error?.message, success: false },
+            { status: 500 }
+          );
+        }
+        return NextResponse.json({ data: result.data, success: true });
+      }
+
+      case 'send_purchase_confirmation': {
+        if (!data.purchase_id) {
+          return NextResponse.json(
+            { error: 'purchase_id is required', success: false },
+            { status: 400 }
+          );
+        }
+        const jobId = await sendPurchaseConfirmation(data.purchase_id, billingDocumentService);
+        return NextResponse.json({ data: { jobId }, success: true });
+      }
+
+      case 'generate_credit_notes': {
+        const summary = await billingDocumentService.generateMissingCreditNotes();
+        return NextResponse.json({ data: summary, success: true });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: 'Invalid action', success: false },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    logger.error('Error processing billing document action:', error);
+    return NextResponse.json(
+      { error: 'Failed to process billing document action', success: false },
+      { status: 500 }
+    );
+  }
+}
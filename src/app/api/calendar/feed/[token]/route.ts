@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { CalendarFeedService } from '@/lib/services/calendar-feed-service';
+
+import { logger } from '@/lib/services';
+// Calendar clients cannot sign in; the token in the URL is the credential
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const calendarFeedService = new CalendarFeedService(supabase);
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const result = await calendarFeedService.renderFeed(token.replace(/\.ics$/, ''));
+
+    if (!result.success || result.data === undefined) {
+      const status = result.error?.code === 'FEED_NOT_FOUND' ? 404 : 500;
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to render calendar feed', success: false },
+        { status }
+      );
+    }
+
+    return new NextResponse(result.data, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="heypeter-academy.ics"',
+        'Cache-Control': 'private, max-age=900'
+      }
+    });
+  } catch (error) {
+    logger.error('Error serving calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to render calendar feed', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { CertificateService, renderCertificatePdf } from '@/lib/services/certificate-service';
+
+import { logger } from '@/lib/services';
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const certificateService = new CertificateService(supabase);
+
+// The signed-in user's student record and whether they are an admin
+const currentUser = async () => {
+  const auth = createRouteHandlerClient({ cookies });
+  const {
+    data: { session },
+  } = await auth.auth.getSession();
+
+  if (!session) return null;
+
+  const [{ data: student }, { data: profile }] = await Promise.all([
+    supabase.from('students').select('id').eq('user_id', session.user.id).maybeSingle(),
+    supabase.from('profiles').select('role').eq('id', session.user.id).maybeSingle()
+  ]);
+
+  return { studentId: student?.id as string | undefined, isAdmin: profile?.role === 'admin' };
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await currentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Please log in to view this certificate', success: false },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const format = new URL(request.url).searchParams.get('format') || 'json';
+
+    // Students see only their own certificates; others are reported as missing
+    const result = await certificateService.getCertificate(id);
+    if (!result.success || !result.data || (!user.isAdmin && result.data.studentId !== user.studentId)) {
+      return NextResponse.json(
+        { error: 'Certificate not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    const certificate = result.data;
+
+    if (format === 'pdf') {
+      const verificationUrl = `${process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin}/verify/${certificate.verificationCode}`;
+      return new NextResponse(Buffer.from(renderCertificatePdf(certificate, verificationUrl)), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="certificate-${certificate.verificationCode}.pdf"`
+        }
+      });
+    }
+
+    return NextResponse.json({ data: certificate, success: true });
+  } catch (error) {
+    logger.error('Error rendering certificate:', error);
+    return NextResponse.json(
+      { error: 'Failed to render certificate', success: false },
+      { status: 500 }
+    );
+  }
+}
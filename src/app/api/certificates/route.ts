@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { CertificateService } from '@/lib/services/certificate-service';
+
+import { logger } from '@/lib/services';
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const certificateService = new CertificateService(supabase);
+
+const statusForError = (code?: string) => {
+  if (code === 'NOT_ELIGIBLE' || code === 'ALREADY_ISSUED') return 409;
+  if (code === 'COURSE_REQUIRED') return 400;
+  if (code === 'TEMPLATE_NOT_FOUND') return 404;
+  return 500;
+};
+
+// The signed-in student, looked up from the session cookie
+const currentStudent = async () => {
+  const auth = createRouteHandlerClient({ cookies });
+  const {
+    data: { session },
+  } = await auth.auth.getSession();
+
+  if (!session) return null;
+
+  const { data: student } = await supabase
+    .from('students')
+    .select('id')
+    .eq('user_id', session.user.id)
+    .maybeSingle();
+
+  return student;
+};
+
+export async function GET() {
+  try {
+    const student = await currentStudent();
+    if (!student) {
+      return NextResponse.json(
+        { error: 'Please log in to view your certificates', success: false },
+        { status: 401 }
+      );
+    }
+
+    const result = await certificateService.listCertificates({ studentId: student.id });
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message, success: false },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: result.data, success: true });
+  } catch (error) {
+    logger.error('Error fetching certificates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch certificates', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+// Students request their own attendance letter or completion certificate
+export async function POST(request: NextRequest) {
+  try {
+    const { certificateType, courseId, periodStart, periodEnd } = await request.json();
+
+    if (certificateType !== 'attendance' && certificateType !== 'completion') {
+      return NextResponse.json(
+        { error: 'Invalid certificate type', success: false },
+        { status: 400 }
+      );
+    }
+
+    const student = await currentStudent();
+    if (!student) {
+      return NextResponse.json(
+        { error: 'Please log in to request a certificate', success: false },
+        { status: 401 }
+      );
+    }
+
+    const result = await certificateService.issueCertificate({
+      studentId: student.id,
+      certificateType,
+      courseId: courseId || undefined,
+      periodStart: periodStart || undefined,
+      periodEnd: periodEnd || undefined
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message, code: result.error?.code, success: false },
+        { status: statusForError(result.error?.code) }
+      );
+    }
+
+    return NextResponse.json({ data: result.data, success: true });
+  } catch (error) {
+    logger.error('Error issuing certificate:', error);
+    return NextResponse.json(
+      { error: 'Failed to issue certificate', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { CertificateService } from '@/lib/services/certificate-service';
+
+import { logger } from '@/lib/services';
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const certificateService = new CertificateService(supabase);
+
+// Public: anyone holding a certificate can check it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const result = await certificateService.verifyCertificate(code);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error?.message, code: result.error?.code, success: false },
+        { status: result.error?.code === 'CERTIFICATE_NOT_FOUND' ? 404 : 500 }
+      );
+    }
+
+    return NextResponse.json({ data: result.data, success: true });
+  } catch (error) {
+    logger.error('Error verifying certificate:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify certificate', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { FeedbackPromptService } from '@/lib/services/feedback-prompt-service';
+
+import { logger } from '@/lib/services';
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Invoked every 15 minutes by the scheduler configured in vercel.json
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized', success: false },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await new FeedbackPromptService(supabase).sweep();
+    if (result.errors.length > 0) {
+      logger.warn('Feedback prompt sweep finished with errors', { errors: result.errors });
+    }
+
+    return NextResponse.json({ data: result, success: true });
+  } catch (error) {
+    logger.error('Error sweeping feedback prompts:', error);
+    return NextResponse.json(
+      { error: 'Failed to sweep feedback prompts', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { runHourExpiryJob } from '@/lib/services/hour-expiry-cron';
+
+import { logger } from '@/lib/services';
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Invoked nightly by the scheduler configured in vercel.json
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized', success: false },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await runHourExpiryJob(supabase);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.errors.join('; '), success: false },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: result, success: true });
+  } catch (error) {
+    logger.error('Error running hour expiry job:', error);
+    return NextResponse.json(
+      { error: 'Failed to run hour expiry', success: false },
+      { status: 500 }
+    );
+  }
+}
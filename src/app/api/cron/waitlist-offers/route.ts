@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { WaitlistOfferService } from '@/lib/services/waitlist-offer-service';
+
+import { logger } from '@/lib/services';
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Invoked every 15 minutes by the scheduler configured in vercel.json
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized', success: false },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await new WaitlistOfferService(supabase).expireOffers();
+    if (result.errors.length > 0) {
+      logger.warn('Waitlist offer sweep finished with errors', { errors: result.errors });
+    }
+
+    return NextResponse.json({ data: result, success: true });
+  } catch (error) {
+    logger.error('Error expiring waitlist offers:', error);
+    return NextResponse.json(
+      { error: 'Failed to expire waitlist offers', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { FeedbackPromptService } from '@/lib/services/feedback-prompt-service';
+
+import { logger } from '@/lib/services';
+// Rating links are opened from email without signing in; the token is the credential
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const feedbackPromptService = new FeedbackPromptService(supabase);
+
+const statusForError = (code?: string) => {
+  if (code === 'PROMPT_NOT_FOUND') return 404;
+  if (code === 'PROMPT_EXPIRED') return 409;
+  if (code === 'INVALID_RATING') return 400;
+  return 500;
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const result = await feedbackPromptService.getPrompt(token);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message, code: result.error?.code, success: false },
+        { status: statusForError(result.error?.code) }
+      );
+    }
+
+    return NextResponse.json({ data: result.data, success: true });
+  } catch (error) {
+    logger.error('Error fetching feedback prompt:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch feedback prompt', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const { rating, positive_feedback, improvement_suggestions } = await request.json();
+
+    const result = await feedbackPromptService.respond(token, {
+      rating: Number(rating),
+      positive_feedback: typeof positive_feedback === 'string' ? positive_feedback : undefined,
+      improvement_suggestions: typeof improvement_suggestions === 'string' ? improvement_suggestions : undefined
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message, code: result.error?.code, success: false },
+        { status: statusForError(result.error?.code) }
+      );
+    }
+
+    return NextResponse.json({ data: result.data, success: true });
+  } catch (error) {
+    logger.error('Error responding to feedback prompt:', error);
+    return NextResponse.json(
+      { error: 'Failed to record feedback', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { HourLedgerService } from '@/lib/services/hour-ledger-service';
+import type { LedgerDiscrepancyStatus } from '@/types/hours';
+
+import { logger } from '@/lib/services';
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const hourLedgerService = new HourLedgerService(supabase);
+
+// The signed-in user and whether they are an admin
+const currentUser = async () => {
+  const auth = createRouteHandlerClient({ cookies });
+  const {
+    data: { session },
+  } = await auth.auth.getSession();
+
+  if (!session) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', session.user.id)
+    .maybeSingle();
+
+  return { userId: session.user.id, isAdmin: profile?.role === 'admin' };
+};
+
+// Reconciliation covers every student's balance, so only admins may use it
+const denyUnlessAdmin = (user: Awaited<ReturnType<typeof currentUser>>) => {
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Please log in to use hour reconciliation', success: false },
+      { status: 401 }
+    );
+  }
+
+  if (!user.isAdmin) {
+    return NextResponse.json(
+      { error: 'Only admins can use hour reconciliation', success: false },
+      { status: 403 }
+    );
+  }
+
+  return null;
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await currentUser();
+    const denied = denyUnlessAdmin(user);
+    if (denied) return denied;
+
+    const { searchParams } = new URL(request.url);
+    const runId = searchParams.get('run_id') || undefined;
+    const status = (searchParams.get('status') || undefined) as LedgerDiscrepancyStatus | undefined;
+
+    const result = await hourLedgerService.getDiscrepancyReport({ runId, status });
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message, success: false },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: result.data, success: true });
+  } catch (error) {
+    logger.error('Error fetching reconciliation report:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch reconciliation report', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await currentUser();
+    const denied = denyUnlessAdmin(user);
+    if (denied || !user) return denied;
+
+    const body = await request.json();
+    const { action, ...data } = body;
+
+    switch (action) {
+      case 'run': {
+        const result = await hourLedgerService.runReconciliation();
+        if (!result.success) {
+          return NextResponse.json(
+            { error: result.error?.message, success: false },
+            { status: 500 }
+          );
+        }
+        return NextResponse.json({ data: result.data, success: true });
+      }
+
+      case 'resolve': {
+        if (!data.discrepancy_id || !['resolved', 'ignored'].includes(data.status)) {
+          return NextResponse.json(
+            { error: 'discrepancy_id and a status of resolved or ignored are required', success: false },
+            { status: 400 }
+          );
+        }
+        const result = await hourLedgerService.resolveDiscrepancy(
+          data.discrepancy_id,
+          data.status,
+          data.notes,
+          user.userId
+        );
+        if (!result.success) {
+          return NextResponse.json(
+            { error: result.error?.message, success: false },
+            { status: 500 }
+          );
+        }
+        return NextResponse.json({ data: result.data, success: true });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: 'Invalid action', success: false },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    logger.error('Error processing reconciliation action:', error);
+    return NextResponse.json(
+      { error: 'Failed to process reconciliation action', success: false },
+      { status: 500 }
+    );
+  }
+}
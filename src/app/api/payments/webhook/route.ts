@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import {
+  PaymentWebhookService,
+  PAYMENT_SIGNATURE_HEADER,
+  verifyPaymentSignature
+} from '@/lib/services/payment-webhook-service';
+import type { PaymentWebhookEvent } from '@/types/hours';
+
+import { logger } from '@/lib/services';
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const paymentWebhookService = new PaymentWebhookService(supabase);
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (!secret) {
+    logger.error('PAYMENT_WEBHOOK_SECRET is not configured');
+    return NextResponse.json(
+      { error: 'Webhook not configured', success: false },
+      { status: 500 }
+    );
+  }
+
+  // Signatures are computed over the raw body, so read it before parsing
+  const payload = await request.text();
+  const signature = request.headers.get(PAYMENT_SIGNATURE_HEADER);
+
+  if (!verifyPaymentSignature(payload, signature, secret)) {
+    return NextResponse.json(
+      { error: 'Invalid signature', success: false },
+      { status: 401 }
+    );
+  }
+
+  let event: PaymentWebhookEvent;
+  try {
+    event = JSON.parse(payload);
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid payload', success: false },
+      { status: 400 }
+    );
+  }
+
+  if (!event?.id || !event.type || !event.data?.purchaseId) {
+    return NextResponse.json(
+      { error: 'Missing event fields', success: false },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await paymentWebhookService.handleEvent(event);
+    return NextResponse.json({ data: result, success: true });
+  } catch (error) {
+    logger.error('Error processing payment webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to process payment webhook', success: false },
+      { status: 500 }
+    );
+  }
+}
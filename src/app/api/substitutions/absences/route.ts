@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { TeacherSubstitutionService } from '@/lib/services/teacher-substitution-service';
+
+import { logger } from '@/lib/services';
+// Reporting an absence updates other teachers' bookings, so it runs with the service role
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const teacherSubstitutionService = new TeacherSubstitutionService(supabase);
+
+// The signed-in user with their teacher record and whether they are an admin
+const currentUser = async () => {
+  const auth = createRouteHandlerClient({ cookies });
+  const {
+    data: { session },
+  } = await auth.auth.getSession();
+
+  if (!session) return null;
+
+  const [{ data: teacher }, { data: profile }] = await Promise.all([
+    supabase.from('teachers').select('id').eq('user_id', session.user.id).maybeSingle(),
+    supabase.from('profiles').select('role').eq('id', session.user.id).maybeSingle()
+  ]);
+
+  return { userId: session.user.id, teacherId: teacher?.id as string | undefined, isAdmin: profile?.role === 'admin' };
+};
+
+// Teachers report their own absence; admins report one for any teacher
+export async function POST(request: NextRequest) {
+  try {
+    const user = await currentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Please log in to report an absence', success: false },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const teacherId = user.isAdmin ? body.teacher_id || user.teacherId : user.teacherId;
+
+    if (!user.isAdmin && (!teacherId || (body.teacher_id && body.teacher_id !== teacherId))) {
+      return NextResponse.json(
+        { error: 'You can only report your own absence', success: false },
+        { status: 403 }
+      );
+    }
+
+    if (!teacherId || !body.start_time || !body.end_time) {
+      return NextResponse.json(
+        { error: 'teacher_id, start_time and end_time are required', success: false },
+        { status: 400 }
+      );
+    }
+
+    const result = await teacherSubstitutionService.reportAbsence({
+      teacherId,
+      startTime: body.start_time,
+      endTime: body.end_time,
+      reason: body.reason,
+      reportedBy: user.userId
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message, code: result.error?.code, success: false },
+        { status: result.error?.code === 'INVALID_ABSENCE' ? 400 : 500 }
+      );
+    }
+
+    return NextResponse.json({ data: result.data, success: true });
+  } catch (error) {
+    logger.error('Error reporting teacher absence:', error);
+    return NextResponse.json(
+      { error: 'Failed to report the absence', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { WaitlistOfferService } from '@/lib/services/waitlist-offer-service';
+
+import { logger } from '@/lib/services';
+// Offer links are opened from email without signing in; the token is the credential
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const waitlistOfferService = new WaitlistOfferService(supabase);
+
+const statusForError = (code?: string) => {
+  if (code === 'OFFER_NOT_FOUND') return 404;
+  if (code === 'OFFER_NOT_PENDING' || code === 'OFFER_EXPIRED') return 409;
+  return 500;
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const result = await waitlistOfferService.getOfferByToken(token);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message, success: false },
+        { status: statusForError(result.error?.code) }
+      );
+    }
+
+    return NextResponse.json({ data: result.data, success: true });
+  } catch (error) {
+    logger.error('Error fetching waitlist offer:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch waitlist offer', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const { action } = await request.json();
+
+    if (action !== 'accept' && action !== 'decline') {
+      return NextResponse.json(
+        { error: 'Invalid action', success: false },
+        { status: 400 }
+      );
+    }
+
+    const result = await waitlistOfferService.respondToOffer(token, action);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message, code: result.error?.code, success: false },
+        { status: statusForError(result.error?.code) }
+      );
+    }
+
+    return NextResponse.json({ data: result.data, success: true });
+  } catch (error) {
+    logger.error('Error responding to waitlist offer:', error);
+    return NextResponse.json(
+      { error: 'Failed to respond to waitlist offer', success: false },
+      { status: 500 }
+    );
+  }
+}
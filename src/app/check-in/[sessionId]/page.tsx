@@ -0,0 +1,21 @@
+import { AttendanceCheckIn } from "@/components/student/AttendanceCheckIn";
+
+export default async function CheckInPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ sessionId: string }>;
+  searchParams: Promise<{ code?: string }>;
+}) {
+  const { sessionId } = await params;
+  const { code } = await searchParams;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center">
+      <div className="w-full max-w-md">
+        <h1 className="mb-4 text-center text-2xl font-bold">Class Check-in</h1>
+        <AttendanceCheckIn sessionId={sessionId} scannedCode={code} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { FeedbackPromptResponse } from "@/components/student/feedback/FeedbackPrompts";
+
+export default async function FeedbackRatingPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ rating?: string }>;
+}) {
+  const { token } = await params;
+  const { rating } = await searchParams;
+  const initialRating = Number(rating);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center">
+      <div className="w-full max-w-md">
+        <h1 className="mb-4 text-center text-2xl font-bold">Class Feedback</h1>
+        <FeedbackPromptResponse
+          token={token}
+          initialRating={Number.isInteger(initialRating) && initialRating >= 1 && initialRating <= 5 ? initialRating : undefined}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+// Landing page for join links issued by the local meeting provider, which
+// stands in for a real video provider in development
+export default async function LocalMeetingPage({
+  params,
+}: {
+  params: Promise<{ meetingId: string }>;
+}) {
+  const { meetingId } = await params;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center">
+      <div className="w-full max-w-md text-center">
+        <h1 className="mb-2 text-2xl font-bold">Virtual Classroom</h1>
+        <p className="text-muted-foreground">
+          Meeting {meetingId} is hosted by the local meeting provider. Configure a video provider for
+          this meeting account to give students a live room.
+        </p>
+      </div>
+    </div>
+  );
+}
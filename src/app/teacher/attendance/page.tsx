@@ -0,0 +1,39 @@
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { LiveAttendance } from '@/components/teacher/LiveAttendance';
+
+export default async function TeacherAttendancePage() {
+  const supabase = createServerComponentClient({ cookies });
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    return <div>Please log in to take attendance.</div>;
+  }
+
+  // Get teacher data
+  const { data: teacherData } = await supabase
+    .from('teachers')
+    .select('id')
+    .eq('user_id', session.user.id)
+    .single();
+
+  if (!teacherData) {
+    return <div>Teacher profile not found. Please contact admin.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Live Attendance</h1>
+        <p className="text-muted-foreground mt-2">
+          Run check-in for your sessions and correct attendance afterwards
+        </p>
+      </div>
+
+      <LiveAttendance teacherId={teacherData.id} />
+    </div>
+  );
+}
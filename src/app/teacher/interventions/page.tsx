@@ -0,0 +1,39 @@
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { TeacherInterventions } from '@/components/teacher/TeacherInterventions';
+
+export default async function TeacherInterventionsPage() {
+  const supabase = createServerComponentClient({ cookies });
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    return <div>Please log in to view interventions.</div>;
+  }
+
+  // Get teacher data
+  const { data: teacherData } = await supabase
+    .from('teachers')
+    .select('id')
+    .eq('user_id', session.user.id)
+    .single();
+
+  if (!teacherData) {
+    return <div>Teacher profile not found. Please contact admin.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Attendance Interventions</h1>
+        <p className="text-muted-foreground mt-2">
+          Students whose attendance needs a follow-up from you
+        </p>
+      </div>
+
+      <TeacherInterventions teacherId={teacherData.id} />
+    </div>
+  );
+}
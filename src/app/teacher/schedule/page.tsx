@@ -1,6 +1,7 @@
 import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
 import { WeeklyTimetable } from '@/components/teacher/WeeklyTimetable';
+import { CalendarSubscription } from '@/components/shared/CalendarSubscription';
 
 export default async function TeacherSchedulePage() {
   const supabase = createServerComponentClient({ cookies });
@@ -79,6 +80,8 @@ export default async function TeacherSchedulePage() {
         availability={availability || []}
         availableSlots={availableSlots || []}
       />
+
+      <CalendarSubscription userId={session.user.id} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { TeacherSubstitutions } from '@/components/teacher/TeacherSubstitutions';
+
+export default async function TeacherSubstitutionsPage() {
+  const supabase = createServerComponentClient({ cookies });
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    return <div>Please log in to manage absences and cover.</div>;
+  }
+
+  // Get teacher data
+  const { data: teacherData } = await supabase
+    .from('teachers')
+    .select('id')
+    .eq('user_id', session.user.id)
+    .single();
+
+  if (!teacherData) {
+    return <div>Teacher profile not found. Please contact admin.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Cover &amp; Absences</h1>
+        <p className="text-muted-foreground mt-2">
+          Report when you can&apos;t teach and pick up sessions for absent colleagues
+        </p>
+      </div>
+
+      <TeacherSubstitutions teacherId={teacherData.id} />
+    </div>
+  );
+}
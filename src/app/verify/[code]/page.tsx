@@ -0,0 +1,24 @@
+import { Metadata } from 'next';
+import { CertificateVerifier } from '@/components/shared/CertificateVerifier';
+
+export const metadata: Metadata = {
+  title: 'Verify a Certificate | HeyPeter Academy',
+  description: 'Check that a HeyPeter Academy attendance letter or completion certificate is genuine.',
+};
+
+export default async function VerifyCertificatePage({
+  params,
+}: {
+  params: Promise<{ code: string }>;
+}) {
+  const { code } = await params;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center">
+      <div className="w-full max-w-lg">
+        <h1 className="mb-4 text-center text-2xl font-bold">Verify a Certificate</h1>
+        <CertificateVerifier code={decodeURIComponent(code)} />
+      </div>
+    </div>
+  );
+}
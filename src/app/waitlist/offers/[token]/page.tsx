@@ -0,0 +1,18 @@
+import { WaitlistOfferResponse } from "@/components/student/WaitlistOffers";
+
+export default async function WaitlistOfferPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center">
+      <div className="w-full max-w-md">
+        <h1 className="mb-4 text-center text-2xl font-bold">Waitlist Seat Offer</h1>
+        <WaitlistOfferResponse token={token} />
+      </div>
+    </div>
+  );
+}
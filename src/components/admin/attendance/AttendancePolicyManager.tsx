@@ -0,0 +1,305 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ClipboardCheck } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { attendancePolicyService } from '@/lib/services/attendance-policy-service';
+import type { AttendancePolicy, AttendanceStatus, PackageTier } from '@/types/attendance';
+import type { CourseType } from '@/types/scheduling';
+
+const COURSE_TYPES: CourseType[] = ['Basic', 'Everyday A', 'Everyday B', 'Speak Up', 'Business English', '1-on-1'];
+const PACKAGE_TIERS: PackageTier[] = ['standard', 'premium', 'corporate', 'trial', 'custom'];
+const STATUSES: AttendanceStatus[] = ['present', 'late', 'absent', 'excused'];
+const ANY = 'any';
+
+interface PolicyDraft {
+  courseType: string;
+  packageTier: string;
+  /** Percent of the class's hours per status */
+  rates: Record<AttendanceStatus, string>;
+  excuseNoticeHours: string;
+  maxExcusedPerMonth: string;
+  effectiveFrom: string;
+  notes: string;
+}
+
+const emptyDraft = (): PolicyDraft => ({
+  courseType: ANY,
+  packageTier: ANY,
+  rates: { present: '100', late: '100', absent: '100', excused: '0' },
+  excuseNoticeHours: '',
+  maxExcusedPerMonth: '',
+  effectiveFrom: '',
+  notes: '',
+});
+
+const toDraft = (policy: AttendancePolicy): PolicyDraft => ({
+  courseType: policy.courseType || ANY,
+  packageTier: policy.packageTier || ANY,
+  rates: {
+    present: String(Math.round(policy.rates.present * 100)),
+    late: String(Math.round(policy.rates.late * 100)),
+    absent: String(Math.round(policy.rates.absent * 100)),
+    excused: String(Math.round(policy.rates.excused * 100)),
+  },
+  excuseNoticeHours: policy.excuseNoticeHours?.toString() || '',
+  maxExcusedPerMonth: policy.maxExcusedPerMonth?.toString() || '',
+  effectiveFrom: '',
+  notes: '',
+});
+
+const scopeLabel = (policy: AttendancePolicy) =>
+  [policy.courseType || 'All courses', policy.packageTier ? `${policy.packageTier} tier` : 'all tiers'].join(' · ');
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+export function AttendancePolicyManager() {
+  const [policies, setPolicies] = useState<AttendancePolicy[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [draft, setDraft] = useState<PolicyDraft>(emptyDraft());
+  const [publishing, setPublishing] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadPolicies();
+  }, [showHistory]);
+
+  const loadPolicies = async () => {
+    const result = await attendancePolicyService.listPolicies({ includeHistory: showHistory });
+    if (result.success && result.data) {
+      setPolicies(result.data);
+    } else {
+      toast({
+        title: 'Error',
+        description: 'Failed to load attendance policies',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const publish = async () => {
+    setPublishing(true);
+    const result = await attendancePolicyService.publishPolicy({
+      courseType: draft.courseType === ANY ? undefined : draft.courseType,
+      packageTier: draft.packageTier === ANY ? undefined : draft.packageTier as PackageTier,
+      rates: {
+        present: Number(draft.rates.present) / 100,
+        late: Number(draft.rates.late) / 100,
+        absent: Number(draft.rates.absent) / 100,
+        excused: Number(draft.rates.excused) / 100,
+      },
+      excuseNoticeHours: draft.excuseNoticeHours ? Number(draft.excuseNoticeHours) : undefined,
+      maxExcusedPerMonth: draft.maxExcusedPerMonth ? Number(draft.maxExcusedPerMonth) : undefined,
+      effectiveFrom: draft.effectiveFrom ? new Date(draft.effectiveFrom).toISOString() : undefined,
+      notes: draft.notes || undefined,
+    });
+
+    if (result.success && result.data) {
+      toast({
+        title: 'Policy published',
+        description: `${scopeLabel(result.data)} is now on version ${result.data.version}`,
+      });
+      setDraft(emptyDraft());
+      await loadPolicies();
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error?.message || 'Failed to publish the policy',
+        variant: 'destructive',
+      });
+    }
+    setPublishing(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center">
+          <ClipboardCheck className="h-6 w-6 mr-2" />
+          Attendance Policies
+        </h1>
+        <p className="text-muted-foreground">
+          How many class hours each attendance status costs. The most specific policy for a student&apos;s course and package tier applies.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>{showHistory ? 'All Versions' : 'Current Policies'}</CardTitle>
+              <CardDescription>Published versions never change; every deduction records the version it was charged under.</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="policy-history" checked={showHistory} onCheckedChange={setShowHistory} />
+              <Label htmlFor="policy-history">Show history</Label>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applies to</TableHead>
+                <TableHead>Version</TableHead>
+                {STATUSES.map(status => (
+                  <TableHead key={status} className="capitalize">{status}</TableHead>
+                ))}
+                <TableHead>Notice excuses</TableHead>
+                <TableHead>Excused / month</TableHead>
+                <TableHead>In effect</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.map(policy => (
+                <TableRow key={policy.id}>
+                  <TableCell className="font-medium">{scopeLabel(policy)}</TableCell>
+                  <TableCell>
+                    <Badge variant={policy.supersededAt ? 'outline' : 'default'}>v{policy.version}</Badge>
+                  </TableCell>
+                  {STATUSES.map(status => (
+                    <TableCell key={status}>{percent(policy.rates[status])}</TableCell>
+                  ))}
+                  <TableCell>{policy.excuseNoticeHours !== undefined ? `${policy.excuseNoticeHours}h ahead` : '—'}</TableCell>
+                  <TableCell>{policy.maxExcusedPerMonth ?? 'No limit'}</TableCell>
+                  <TableCell className="text-sm">
+                    {new Date(policy.effectiveFrom).toLocaleDateString()}
+                    {policy.supersededAt && ` – ${new Date(policy.supersededAt).toLocaleDateString()}`}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {!policy.supersededAt && (
+                      <Button size="sm" variant="outline" onClick={() => setDraft(toDraft(policy))}>
+                        New version
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Publish a Policy Version</CardTitle>
+          <CardDescription>
+            Replaces the current policy for the same course and tier from its effective date. Earlier sessions keep the version they were charged under.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label>Course type</Label>
+              <Select value={draft.courseType} onValueChange={(value) => setDraft({ ...draft, courseType: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All courses</SelectItem>
+                  {COURSE_TYPES.map(courseType => (
+                    <SelectItem key={courseType} value={courseType}>{courseType}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Package tier</Label>
+              <Select value={draft.packageTier} onValueChange={(value) => setDraft({ ...draft, packageTier: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All tiers</SelectItem>
+                  {PACKAGE_TIERS.map(tier => (
+                    <SelectItem key={tier} value={tier} className="capitalize">{tier}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-4">
+            {STATUSES.map(status => (
+              <div key={status}>
+                <Label htmlFor={`rate-${status}`} className="capitalize">{status} (% of hours)</Label>
+                <Input
+                  id={`rate-${status}`}
+                  type="number"
+                  min={0}
+                  value={draft.rates[status]}
+                  onChange={(e) => setDraft({ ...draft, rates: { ...draft.rates, [status]: e.target.value } })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div>
+              <Label htmlFor="notice-hours">Absence notified this many hours ahead is excused</Label>
+              <Input
+                id="notice-hours"
+                type="number"
+                min={0}
+                placeholder="Never"
+                value={draft.excuseNoticeHours}
+                onChange={(e) => setDraft({ ...draft, excuseNoticeHours: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="max-excused">Excused absences allowed per month</Label>
+              <Input
+                id="max-excused"
+                type="number"
+                min={0}
+                placeholder="No limit"
+                value={draft.maxExcusedPerMonth}
+                onChange={(e) => setDraft({ ...draft, maxExcusedPerMonth: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="effective-from">Effective from</Label>
+              <Input
+                id="effective-from"
+                type="datetime-local"
+                value={draft.effectiveFrom}
+                onChange={(e) => setDraft({ ...draft, effectiveFrom: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="policy-notes">Notes</Label>
+            <Textarea
+              id="policy-notes"
+              placeholder="Why the policy changed"
+              value={draft.notes}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+            />
+          </div>
+
+          <Button onClick={publish} disabled={publishing}>
+            Publish version
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
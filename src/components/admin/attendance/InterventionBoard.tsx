@@ -0,0 +1,145 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { HeartHandshake } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { InterventionCaseCard } from '@/components/shared/InterventionCaseCard';
+import { attendanceInterventionService } from '@/lib/services/attendance-intervention-service';
+import type { InterventionCase, InterventionCaseStatus } from '@/types/intervention';
+
+const COLUMNS: Array<{ status: InterventionCaseStatus; title: string; description: string }> = [
+  { status: 'open', title: 'Outreach', description: 'Cases with outreach steps still to do' },
+  { status: 'monitoring', title: 'Monitoring', description: 'Outreach done, waiting to see whether attendance improves' },
+  { status: 'closed', title: 'Closed', description: 'Cases with a measured outcome' },
+];
+
+export function InterventionBoard() {
+  const [cases, setCases] = useState<InterventionCase[]>([]);
+  const [view, setView] = useState<InterventionCaseStatus>('open');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadCases();
+  }, []);
+
+  const loadCases = async () => {
+    const result = await attendanceInterventionService.listCases();
+    if (result.success && result.data) {
+      setCases(result.data);
+    } else {
+      toast({
+        title: 'Error',
+        description: 'Failed to load intervention cases',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const takeOver = async (interventionCase: InterventionCase) => {
+    const result = await attendanceInterventionService.takeOverCase(interventionCase.id);
+    if (result.success) {
+      await loadCases();
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error?.message || 'Failed to assign the case',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const close = async (interventionCase: InterventionCase) => {
+    const result = await attendanceInterventionService.closeCase(interventionCase.id);
+    if (result.success && result.data) {
+      toast({
+        title: 'Case closed',
+        description: `Outcome: ${result.data.outcome?.replace('_', ' ')}`,
+      });
+      await loadCases();
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error?.message || 'Failed to close the case',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const closed = cases.filter(c => c.status === 'closed');
+  const improved = closed.filter(c => c.outcome === 'improved').length;
+  const visible = cases.filter(c => c.status === view);
+  const column = COLUMNS.find(c => c.status === view)!;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center">
+          <HeartHandshake className="h-6 w-6 mr-2" />
+          Attendance Interventions
+        </h1>
+        <p className="text-muted-foreground">
+          Students whose attendance crossed a risk threshold, the outreach made and whether attendance improved afterwards.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        {COLUMNS.map(({ status, title }) => (
+          <Card
+            key={status}
+            className={`cursor-pointer ${view === status ? 'border-primary' : ''}`}
+            onClick={() => setView(status)}
+          >
+            <CardHeader className="pb-2">
+              <CardDescription>{title}</CardDescription>
+              <CardTitle className="text-3xl">{cases.filter(c => c.status === status).length}</CardTitle>
+            </CardHeader>
+          </Card>
+        ))}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Improved after intervention</CardDescription>
+            <CardTitle className="text-3xl">
+              {closed.length > 0 ? `${Math.round((improved / closed.length) * 100)}%` : '—'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {improved} of {closed.length} closed case(s)
+          </CardContent>
+        </Card>
+      </div>
+
+      <div>
+        <h2 className="text-lg font-semibold">{column.title}</h2>
+        <p className="text-sm text-muted-foreground">{column.description}</p>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No cases.</p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {visible.map(interventionCase => (
+            <InterventionCaseCard
+              key={interventionCase.id}
+              interventionCase={interventionCase}
+              onChanged={loadCases}
+              actions={interventionCase.status !== 'closed' && (
+                <div className="flex gap-2 border-t pt-4">
+                  {!interventionCase.assignedAdminId && (
+                    <Button size="sm" variant="outline" onClick={() => takeOver(interventionCase)}>
+                      Take over
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => close(interventionCase)}>
+                    Close with measured outcome
+                  </Button>
+                </div>
+              )}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
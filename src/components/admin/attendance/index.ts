@@ -9,4 +9,10 @@ export { AttendanceExportDialog } from './AttendanceExportDialog';
 // Enhanced Class Attendance Analytics
 export { ClassAttendanceAnalyticsDashboard } from './ClassAttendanceAnalyticsDashboard';
 export { AttendanceComparisonDashboard } from './AttendanceComparisonDashboard';
-export { AttendancePredictiveAnalytics } from './AttendancePredictiveAnalytics';
\ No newline at end of file
+export { AttendancePredictiveAnalytics } from './AttendancePredictiveAnalytics';
+
+// Attendance Policies
+export { AttendancePolicyManager } from './AttendancePolicyManager';
+
+// Attendance Interventions
+export { InterventionBoard } from './InterventionBoard';
@@ -0,0 +1,470 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Award, Download } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { certificateService } from '@/lib/services/certificate-service';
+import type {
+  Certificate,
+  CertificateEligibility,
+  CertificateTemplate,
+  CertificateType,
+} from '@/types/certificate';
+
+type ClassOption = { id: string; className: string; courseTitle?: string; courseType?: string; endDate?: string };
+
+const TYPE_LABELS: Record<CertificateType, string> = {
+  attendance: 'Attendance letter',
+  completion: 'Completion certificate',
+};
+
+const PLACEHOLDERS = [
+  'student_name', 'course_title', 'sessions_attended', 'sessions_total', 'attendance_rate',
+  'hours_attended', 'period_start', 'period_end', 'completion_date', 'assessment_score',
+];
+
+const percent = (rate?: number) => (rate === undefined ? '—' : `${Math.round(rate * 100)}%`);
+
+export function CertificateIssuer() {
+  const [classes, setClasses] = useState<ClassOption[]>([]);
+  const [classId, setClassId] = useState('');
+  const [certificateType, setCertificateType] = useState<CertificateType>('completion');
+  const [preview, setPreview] = useState<CertificateEligibility[] | null>(null);
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [templates, setTemplates] = useState<CertificateTemplate[]>([]);
+  const [revoking, setRevoking] = useState<{ id: string; reason: string } | null>(null);
+  const [completing, setCompleting] = useState<{ studentId: string; courseId: string; score: string; passed: boolean } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadClasses();
+    loadTemplates();
+  }, []);
+
+  useEffect(() => {
+    setPreview(null);
+    if (classId) loadCertificates(classId);
+  }, [classId, certificateType]);
+
+  const showError = (description: string) => toast({ title: 'Error', description, variant: 'destructive' });
+
+  const loadClasses = async () => {
+    const result = await certificateService.listClasses();
+    if (result.success && result.data) {
+      setClasses(result.data);
+    } else {
+      showError('Failed to load classes');
+    }
+  };
+
+  const loadTemplates = async () => {
+    const result = await certificateService.listTemplates();
+    if (result.success && result.data) {
+      setTemplates(result.data);
+    }
+  };
+
+  const loadCertificates = async (id: string) => {
+    const result = await certificateService.listCertificates({ classId: id });
+    if (result.success && result.data) {
+      setCertificates(result.data);
+    }
+  };
+
+  const checkClass = async () => {
+    setBusy(true);
+    const result = await certificateService.previewClassIssuance(classId, certificateType);
+    if (result.success && result.data) {
+      setPreview(result.data);
+    } else {
+      showError(result.error?.message || 'Failed to check the class');
+    }
+    setBusy(false);
+  };
+
+  const issueClass = async () => {
+    setBusy(true);
+    const result = await certificateService.issueForClass(classId, certificateType);
+    if (result.success && result.data) {
+      toast({
+        title: 'Certificates issued',
+        description: `${result.data.issued.length} issued, ${result.data.skipped.length} skipped`,
+      });
+      setPreview(null);
+      await loadCertificates(classId);
+    } else {
+      showError(result.error?.message || 'Failed to issue certificates');
+    }
+    setBusy(false);
+  };
+
+  const recordCompletion = async () => {
+    if (!completing) return;
+    const result = await certificateService.recordCompletion({
+      studentId: completing.studentId,
+      courseId: completing.courseId,
+      finalAssessmentScore: completing.score === '' ? undefined : Number(completing.score),
+      finalAssessmentPassed: completing.passed,
+    });
+    if (result.success) {
+      setCompleting(null);
+      await checkClass();
+    } else {
+      showError(result.error?.message || 'Failed to record the completion');
+    }
+  };
+
+  const revoke = async () => {
+    if (!revoking) return;
+    const result = await certificateService.revokeCertificate(revoking.id, revoking.reason);
+    if (result.success) {
+      setRevoking(null);
+      await loadCertificates(classId);
+    } else {
+      showError(result.error?.message || 'Failed to revoke the certificate');
+    }
+  };
+
+  const saveTemplate = async (template: CertificateTemplate) => {
+    const result = await certificateService.updateTemplate(template.id, {
+      title: template.title,
+      bodyText: template.bodyText,
+      signatoryName: template.signatoryName,
+      signatoryTitle: template.signatoryTitle,
+      minAttendanceRate: template.minAttendanceRate ?? null,
+      requiresCompletion: template.requiresCompletion,
+      requiresFinalAssessment: template.requiresFinalAssessment,
+    });
+
+    if (result.success) {
+      toast({ title: 'Template saved', description: 'New certificates use the updated wording and rules.' });
+      await loadTemplates();
+    } else {
+      showError(result.error?.message || 'Failed to save the template');
+    }
+  };
+
+  const editTemplate = (id: string, changes: Partial<CertificateTemplate>) =>
+    setTemplates(templates.map(template => (template.id === id ? { ...template, ...changes } : template)));
+
+  const eligibleCount = preview?.filter(entry => entry.eligible).length || 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center">
+          <Award className="h-6 w-6 mr-2" />
+          Certificates
+        </h1>
+        <p className="text-muted-foreground">
+          Issue attendance letters and completion certificates. Each carries a code anyone can check at /verify.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Issue for a Class</CardTitle>
+          <CardDescription>Check who qualifies, then issue to every eligible student at once.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="md:col-span-2">
+              <Label>Class</Label>
+              <Select value={classId} onValueChange={setClassId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a class" />
+                </SelectTrigger>
+                <SelectContent>
+                  {classes.map(option => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.className}
+                      {option.courseType && ` · ${option.courseType}`}
+                      {option.endDate && ` · ends ${new Date(option.endDate).toLocaleDateString()}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Certificate</Label>
+              <Select value={certificateType} onValueChange={(value) => setCertificateType(value as CertificateType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" disabled={!classId || busy} onClick={checkClass}>
+              Check eligibility
+            </Button>
+            {preview && (
+              <Button disabled={eligibleCount === 0 || busy} onClick={issueClass}>
+                Issue {eligibleCount} certificate(s)
+              </Button>
+            )}
+          </div>
+
+          {preview && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Attendance</TableHead>
+                  <TableHead>Hours</TableHead>
+                  <TableHead>Completed</TableHead>
+                  <TableHead>Final assessment</TableHead>
+                  <TableHead>Eligibility</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.map(({ record, eligible, reasons }) => (
+                  <TableRow key={record.studentId}>
+                    <TableCell className="font-medium">{record.studentName}</TableCell>
+                    <TableCell>{percent(record.attendanceRate)} ({record.sessionsAttended}/{record.sessionsTotal})</TableCell>
+                    <TableCell>{record.hoursAttended}</TableCell>
+                    <TableCell>{record.completedAt ? new Date(record.completedAt).toLocaleDateString() : '—'}</TableCell>
+                    <TableCell>
+                      {record.finalAssessmentPassed === undefined
+                        ? '—'
+                        : `${record.finalAssessmentPassed ? 'Passed' : 'Not passed'}${record.finalAssessmentScore !== undefined ? ` (${record.finalAssessmentScore}%)` : ''}`}
+                    </TableCell>
+                    <TableCell>
+                      {eligible ? (
+                        <Badge>Eligible</Badge>
+                      ) : (
+                        <div className="text-sm text-red-600">{reasons.join('; ')}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {completing?.studentId === record.studentId ? (
+                        <div className="flex items-center justify-end gap-2">
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            placeholder="Score (%)"
+                            aria-label="Assessment score"
+                            value={completing.score}
+                            onChange={(e) => setCompleting({ ...completing, score: e.target.value })}
+                            className="w-28"
+                          />
+                          <Switch
+                            id={`passed-${record.studentId}`}
+                            checked={completing.passed}
+                            onCheckedChange={(checked) => setCompleting({ ...completing, passed: checked })}
+                          />
+                          <Label htmlFor={`passed-${record.studentId}`}>Passed</Label>
+                          <Button size="sm" onClick={recordCompletion}>
+                            Save
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => setCompleting(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      ) : (
+                        record.courseId && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setCompleting({
+                              studentId: record.studentId,
+                              courseId: record.courseId!,
+                              score: record.finalAssessmentScore !== undefined ? String(record.finalAssessmentScore) : '',
+                              passed: record.finalAssessmentPassed ?? false,
+                            })}
+                          >
+                            Record completion
+                          </Button>
+                        )
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {classId && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Issued for this Class</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {certificates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No certificates issued yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Student</TableHead>
+                    <TableHead>Certificate</TableHead>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Issued</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {certificates.map(certificate => (
+                    <TableRow key={certificate.id}>
+                      <TableCell className="font-medium">{certificate.studentName}</TableCell>
+                      <TableCell>
+                        {TYPE_LABELS[certificate.certificateType]}
+                        {certificate.revokedAt && <Badge variant="destructive" className="ml-2">Revoked</Badge>}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{certificate.verificationCode}</TableCell>
+                      <TableCell>{new Date(certificate.issuedAt).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">
+                        {revoking?.id === certificate.id ? (
+                          <div className="flex justify-end gap-2">
+                            <Input
+                              placeholder="Reason"
+                              value={revoking.reason}
+                              onChange={(e) => setRevoking({ ...revoking, reason: e.target.value })}
+                              className="w-48"
+                            />
+                            <Button size="sm" variant="destructive" disabled={!revoking.reason.trim()} onClick={revoke}>
+                              Revoke
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => setRevoking(null)}>
+                              Cancel
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="outline" asChild>
+                              <a href={`/api/certificates/${certificate.id}?format=pdf`}>
+                                <Download className="h-4 w-4 mr-1" />
+                                PDF
+                              </a>
+                            </Button>
+                            {!certificate.revokedAt && (
+                              <Button size="sm" variant="outline" onClick={() => setRevoking({ id: certificate.id, reason: '' })}>
+                                Revoke
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Templates</CardTitle>
+          <CardDescription>
+            Placeholders: {PLACEHOLDERS.map(placeholder => `{{${placeholder}}}`).join(', ')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {templates.map(template => (
+            <div key={template.id} className="space-y-3 rounded-lg border p-4">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{TYPE_LABELS[template.certificateType]}</Badge>
+                <span className="text-sm text-muted-foreground">{template.courseType || 'All courses'}</span>
+              </div>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div>
+                  <Label htmlFor={`title-${template.id}`}>Title</Label>
+                  <Input
+                    id={`title-${template.id}`}
+                    value={template.title}
+                    onChange={(e) => editTemplate(template.id, { title: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`signatory-${template.id}`}>Signed by</Label>
+                  <Input
+                    id={`signatory-${template.id}`}
+                    value={template.signatoryName || ''}
+                    onChange={(e) => editTemplate(template.id, { signatoryName: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`signatory-title-${template.id}`}>Signatory title</Label>
+                  <Input
+                    id={`signatory-title-${template.id}`}
+                    value={template.signatoryTitle || ''}
+                    onChange={(e) => editTemplate(template.id, { signatoryTitle: e.target.value })}
+                  />
+                </div>
+              </div>
+              <Textarea
+                value={template.bodyText}
+                onChange={(e) => editTemplate(template.id, { bodyText: e.target.value })}
+              />
+              <div className="flex flex-wrap items-end gap-6">
+                <div>
+                  <Label htmlFor={`min-rate-${template.id}`}>Minimum attendance (%)</Label>
+                  <Input
+                    id={`min-rate-${template.id}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    placeholder="None"
+                    className="w-32"
+                    value={template.minAttendanceRate !== undefined ? Math.round(template.minAttendanceRate * 100) : ''}
+                    onChange={(e) => editTemplate(template.id, {
+                      minAttendanceRate: e.target.value === '' ? undefined : Number(e.target.value) / 100,
+                    })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`completion-${template.id}`}
+                    checked={template.requiresCompletion}
+                    onCheckedChange={(checked) => editTemplate(template.id, { requiresCompletion: checked })}
+                  />
+                  <Label htmlFor={`completion-${template.id}`}>Course completed</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`assessment-${template.id}`}
+                    checked={template.requiresFinalAssessment}
+                    onCheckedChange={(checked) => editTemplate(template.id, { requiresFinalAssessment: checked })}
+                  />
+                  <Label htmlFor={`assessment-${template.id}`}>Final assessment passed</Label>
+                </div>
+                <Button size="sm" onClick={() => saveTemplate(template)}>
+                  Save template
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { CertificateIssuer } from './CertificateIssuer';
@@ -262,6 +262,31 @@ const HourAnalyticsCard: React.FC = () => (
               Class Type Comparison
             </Button>
           </Link>
+          <Link href="/admin/hours/corporate">
+            <Button variant="outline" className="w-full justify-start">
+              Corporate Accounts
+            </Button>
+          </Link>
+          <Link href="/admin/hours/families">
+            <Button variant="outline" className="w-full justify-start">
+              Family Accounts
+            </Button>
+          </Link>
+          <Link href="/admin/hours/reconciliation">
+            <Button variant="outline" className="w-full justify-start">
+              Ledger Reconciliation
+            </Button>
+          </Link>
+          <Link href="/admin/hours/pricing">
+            <Button variant="outline" className="w-full justify-start">
+              Pricing &amp; Promotions
+            </Button>
+          </Link>
+          <Link href="/admin/hours/refunds">
+            <Button variant="outline" className="w-full justify-start">
+              Refund Requests
+            </Button>
+          </Link>
         </div>
       </div>
     </CardContent>
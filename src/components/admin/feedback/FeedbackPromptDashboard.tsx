@@ -0,0 +1,248 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { subDays } from 'date-fns';
+import { MessageSquare } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/components/ui/use-toast';
+import { feedbackPromptService } from '@/lib/services/feedback-prompt-service';
+import type { FeedbackPrompt, PromptResponseRate, PromptResponseRates } from '@/types/feedback';
+
+const PERIOD_DAYS = ['7', '30', '90'];
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const showError = (description: string) => toast({ title: 'Error', description, variant: 'destructive' });
+
+function ResponseRateTable({ title, rows }: { title: string; rows: PromptResponseRate[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-600">No prompts sent in this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Prompted</TableHead>
+                <TableHead className="text-right">Responded</TableHead>
+                <TableHead className="text-right">Response rate</TableHead>
+                <TableHead className="text-right">Avg rating</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.id}>
+                  <TableCell>{row.name}</TableCell>
+                  <TableCell className="text-right">{row.prompted}</TableCell>
+                  <TableCell className="text-right">{row.responded}</TableCell>
+                  <TableCell className="text-right">{percent(row.response_rate)}</TableCell>
+                  <TableCell className="text-right">
+                    {row.average_rating === undefined ? '—' : row.average_rating.toFixed(1)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const FeedbackPromptDashboard: React.FC = () => {
+  const [periodDays, setPeriodDays] = useState('30');
+  const [rates, setRates] = useState<PromptResponseRates | null>(null);
+  const [prompts, setPrompts] = useState<FeedbackPrompt[]>([]);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPrompts();
+  }, []);
+
+  useEffect(() => {
+    loadRates();
+  }, [periodDays]);
+
+  const loadRates = async () => {
+    const now = new Date();
+    const result = await feedbackPromptService.getResponseRates({
+      from: subDays(now, Number(periodDays)).toISOString(),
+      to: now.toISOString()
+    });
+    if (result.success && result.data) {
+      setRates(result.data);
+    } else {
+      showError('Failed to load response rates');
+    }
+  };
+
+  const loadPrompts = async () => {
+    const result = await feedbackPromptService.listPrompts();
+    if (result.success && result.data) {
+      setPrompts(result.data);
+    } else {
+      showError('Failed to load feedback prompts');
+    }
+  };
+
+  const editPrompt = (id: string, changes: Partial<FeedbackPrompt>) => {
+    setPrompts(current => current.map(prompt => (prompt.id === id ? { ...prompt, ...changes } : prompt)));
+  };
+
+  const savePrompt = async (prompt: FeedbackPrompt) => {
+    if (!prompt.id) return;
+    setSaving(prompt.id);
+    const result = await feedbackPromptService.updatePrompt(prompt.id, {
+      delay_minutes: prompt.delay_minutes,
+      expiry_days: prompt.expiry_days,
+      max_reminders: prompt.max_reminders,
+      reminder_interval_days: prompt.reminder_interval_days,
+      max_prompts_per_week: prompt.max_prompts_per_week ?? null,
+      group_class_sample_rate: prompt.group_class_sample_rate,
+      is_active: prompt.is_active
+    });
+    setSaving(null);
+
+    if (result.success && result.data) {
+      editPrompt(prompt.id, result.data);
+      toast({ title: 'Saved', description: `${prompt.prompt_name} settings updated` });
+    } else {
+      showError(result.error?.message || 'Failed to save the prompt');
+    }
+  };
+
+  const numberField = (prompt: FeedbackPrompt, field: keyof FeedbackPrompt, label: string) => (
+    <div>
+      <Label htmlFor={`${field}-${prompt.id}`}>{label}</Label>
+      <Input
+        id={`${field}-${prompt.id}`}
+        type="number"
+        min={0}
+        className="w-28"
+        value={(prompt[field] as number | null | undefined) ?? ''}
+        onChange={(e) => editPrompt(prompt.id!, { [field]: e.target.value === '' ? undefined : Number(e.target.value) })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <MessageSquare className="h-6 w-6" />
+            Feedback Prompts
+          </h1>
+          <p className="text-gray-600">Post-class rating prompts and how often students answer them.</p>
+        </div>
+        <Select value={periodDays} onValueChange={setPeriodDays}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_DAYS.map(days => (
+              <SelectItem key={days} value={days}>Last {days} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {rates && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-sm text-gray-600">Prompts sent</div>
+              <div className="text-2xl font-bold">{rates.overall.prompted}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-sm text-gray-600">Responses</div>
+              <div className="text-2xl font-bold">{rates.overall.responded}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-sm text-gray-600">Response rate</div>
+              <div className="text-2xl font-bold">{percent(rates.overall.response_rate)}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-sm text-gray-600">Average rating</div>
+              <div className="text-2xl font-bold">
+                {rates.overall.average_rating === undefined ? '—' : rates.overall.average_rating.toFixed(1)}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ResponseRateTable title="By Teacher" rows={rates?.by_teacher || []} />
+        <ResponseRateTable title="By Course" rows={rates?.by_course || []} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Prompt Settings</CardTitle>
+          <CardDescription>
+            Prompts go out after attendance is recorded. 1-on-1 classes are always prompted; group classes are sampled.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {prompts.map(prompt => (
+            <div key={prompt.id} className="space-y-4 rounded-lg border p-4">
+              <div className="flex items-center justify-between">
+                <div className="font-medium">{prompt.prompt_name}</div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`active-${prompt.id}`}
+                    checked={prompt.is_active ?? true}
+                    onCheckedChange={(checked) => editPrompt(prompt.id!, { is_active: checked })}
+                  />
+                  <Label htmlFor={`active-${prompt.id}`}>Active</Label>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-end gap-6">
+                {numberField(prompt, 'delay_minutes', 'Delay (minutes)')}
+                {numberField(prompt, 'max_prompts_per_week', 'Max per student per week')}
+                <div>
+                  <Label htmlFor={`sample-${prompt.id}`}>Group classes sampled (%)</Label>
+                  <Input
+                    id={`sample-${prompt.id}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    className="w-28"
+                    value={Math.round((prompt.group_class_sample_rate ?? 1) * 100)}
+                    onChange={(e) => editPrompt(prompt.id!, { group_class_sample_rate: Number(e.target.value) / 100 })}
+                  />
+                </div>
+                {numberField(prompt, 'expiry_days', 'Expires after (days)')}
+                {numberField(prompt, 'max_reminders', 'Reminders')}
+                {numberField(prompt, 'reminder_interval_days', 'Days between reminders')}
+                <Button size="sm" disabled={saving === prompt.id} onClick={() => savePrompt(prompt)}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default FeedbackPromptDashboard;
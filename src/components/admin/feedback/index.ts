@@ -1,2 +1,3 @@
 export { default as FeedbackManagementDashboard } from './FeedbackManagementDashboard';
-export { default as FeedbackAnalyticsDashboard } from './FeedbackAnalyticsDashboard';
\ No newline at end of file
+export { default as FeedbackAnalyticsDashboard } from './FeedbackAnalyticsDashboard';
+export { default as FeedbackPromptDashboard } from './FeedbackPromptDashboard';
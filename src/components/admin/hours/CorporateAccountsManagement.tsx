@@ -0,0 +1,420 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { Building2, Clock, DollarSign, Users, UserPlus, ArrowDownLeft, ArrowUpRight } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { corporateAccountService, getCurrentMonth } from '@/lib/services/corporate-account-service';
+import type {
+  CorporateAccount,
+  CorporateMember,
+  CorporateMonthlyStatement
+} from '@/types/hours';
+
+type MovementType = 'allocate' | 'revoke';
+
+export function CorporateAccountsManagement() {
+  const [accounts, setAccounts] = useState<CorporateAccount[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState<string>('');
+  const [members, setMembers] = useState<CorporateMember[]>([]);
+  const [statement, setStatement] = useState<CorporateMonthlyStatement | null>(null);
+  const [month, setMonth] = useState(getCurrentMonth());
+  const [loading, setLoading] = useState(true);
+
+  const [newEmployeeId, setNewEmployeeId] = useState('');
+  const [newEmployeeCap, setNewEmployeeCap] = useState('');
+
+  const [movement, setMovement] = useState<{ type: MovementType; member: CorporateMember } | null>(null);
+  const [movementHours, setMovementHours] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const { toast } = useToast();
+
+  const selectedAccount = accounts.find(account => account.id === selectedAccountId);
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  useEffect(() => {
+    if (selectedAccountId) {
+      loadAccountDetails(selectedAccountId);
+    }
+  }, [selectedAccountId, month]);
+
+  const showError = (description: string) => {
+    toast({ title: 'Error', description, variant: 'destructive' });
+  };
+
+  const loadAccounts = async () => {
+    try {
+      setLoading(true);
+      const result = await corporateAccountService.listAccounts();
+
+      if (result.success && result.data) {
+        setAccounts(result.data);
+        if (!selectedAccountId && result.data.length > 0) {
+          setSelectedAccountId(result.data[0].id);
+        }
+      } else {
+        throw new Error(result.error?.message || 'Failed to load accounts');
+      }
+    } catch (error) {
+      showError('Failed to load corporate accounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadAccountDetails = async (accountId: string) => {
+    const [membersResult, statementResult] = await Promise.all([
+      corporateAccountService.getMembers(accountId),
+      corporateAccountService.getMonthlyStatement(accountId, month)
+    ]);
+
+    if (membersResult.success && membersResult.data) {
+      setMembers(membersResult.data);
+    } else {
+      showError(membersResult.error?.message || 'Failed to load employees');
+    }
+
+    if (statementResult.success && statementResult.data) {
+      setStatement(statementResult.data);
+    } else {
+      showError(statementResult.error?.message || 'Failed to load statement');
+    }
+  };
+
+  const refresh = async () => {
+    await loadAccounts();
+    if (selectedAccountId) {
+      await loadAccountDetails(selectedAccountId);
+    }
+  };
+
+  const handleEnroll = async () => {
+    if (!selectedAccountId || !newEmployeeId) return;
+
+    const result = await corporateAccountService.enrollEmployee(
+      selectedAccountId,
+      newEmployeeId.trim(),
+      newEmployeeCap ? parseInt(newEmployeeCap) : undefined
+    );
+
+    if (result.success) {
+      toast({ title: 'Employee enrolled', description: 'The employee can now receive pool hours' });
+      setNewEmployeeId('');
+      setNewEmployeeCap('');
+      await refresh();
+    } else {
+      showError(result.error?.message || 'Failed to enroll employee');
+    }
+  };
+
+  const handleRemove = async (member: CorporateMember) => {
+    const result = await corporateAccountService.removeEmployee(
+      member.corporateAccountId,
+      member.studentId,
+      'Employee removed from corporate account'
+    );
+
+    if (result.success) {
+      toast({ title: 'Employee removed', description: 'Unused hours were returned to the pool' });
+      await refresh();
+    } else {
+      showError(result.error?.message || 'Failed to remove employee');
+    }
+  };
+
+  const handleMovement = async () => {
+    if (!movement) return;
+
+    const request = {
+      corporateAccountId: movement.member.corporateAccountId,
+      studentId: movement.member.studentId,
+      hours: parseInt(movementHours),
+      reason: movementReason || (movement.type === 'allocate' ? 'Corporate allocation' : 'Corporate revocation')
+    };
+
+    const result = movement.type === 'allocate'
+      ? await corporateAccountService.allocateHours(request)
+      : await corporateAccountService.revokeHours(request);
+
+    if (result.success) {
+      toast({
+        title: movement.type === 'allocate' ? 'Hours allocated' : 'Hours revoked',
+        description: `${request.hours} hours ${movement.type === 'allocate' ? 'allocated to' : 'returned from'} ${movement.member.studentName || 'employee'}`
+      });
+      setMovement(null);
+      setMovementHours('');
+      setMovementReason('');
+      await refresh();
+    } else {
+      showError(result.error?.message || 'Failed to move hours');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8 text-muted-foreground">Loading corporate accounts...</div>;
+  }
+
+  if (accounts.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-8 text-muted-foreground">
+          No corporate accounts found
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const spendCapUsed = statement?.monthlySpendCap
+    ? Math.round((statement.amountSpent / statement.monthlySpendCap) * 100)
+    : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Corporate Accounts</h2>
+          <p className="text-muted-foreground">Shared hour pools, employee allocations and monthly statements</p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={selectedAccountId} onValueChange={setSelectedAccountId}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Select account" />
+            </SelectTrigger>
+            <SelectContent>
+              {accounts.map(account => (
+                <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="month"
+            className="w-40"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {selectedAccount && (
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">Pool Balance</CardTitle>
+              <Clock className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{selectedAccount.poolBalance ?? 0}h</div>
+              <Badge variant={selectedAccount.status === 'active' ? 'default' : 'secondary'}>
+                {selectedAccount.status}
+              </Badge>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">Spent This Month</CardTitle>
+              <DollarSign className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {statement?.amountSpent.toFixed(2) ?? '0.00'} {selectedAccount.currency}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {spendCapUsed !== null
+                  ? `${spendCapUsed}% of ${statement?.monthlySpendCap?.toFixed(2)} cap`
+                  : 'No spending cap'}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">Allocated / Used</CardTitle>
+              <Building2 className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {statement?.hoursAllocated ?? 0}h / {statement?.hoursUsed ?? 0}h
+              </div>
+              <p className="text-xs text-muted-foreground">{statement?.hoursRevoked ?? 0}h revoked</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">Employees</CardTitle>
+              <Users className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {members.filter(member => member.status === 'active').length}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Default cap: {selectedAccount.defaultEmployeeCap ?? 'none'}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Employees</CardTitle>
+          <CardDescription>Allocate pool hours to employees or return unused hours to the pool</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Student ID"
+              className="w-72"
+              value={newEmployeeId}
+              onChange={(e) => setNewEmployeeId(e.target.value)}
+            />
+            <Input
+              type="number"
+              min="0"
+              placeholder="Monthly cap (optional)"
+              className="w-48"
+              value={newEmployeeCap}
+              onChange={(e) => setNewEmployeeCap(e.target.value)}
+            />
+            <Button onClick={handleEnroll} disabled={!newEmployeeId}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Enroll Employee
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Monthly Cap</TableHead>
+                <TableHead>Allocated</TableHead>
+                <TableHead>Used</TableHead>
+                <TableHead>Balance</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No employees enrolled
+                  </TableCell>
+                </TableRow>
+              ) : members.map(member => {
+                const line = statement?.employees.find(e => e.studentId === member.studentId);
+                return (
+                  <TableRow key={member.id}>
+                    <TableCell>
+                      <div className="font-medium">{member.studentName || member.studentId}</div>
+                      <div className="text-xs text-muted-foreground">{member.studentEmail}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={member.status === 'active' ? 'default' : 'secondary'}>{member.status}</Badge>
+                    </TableCell>
+                    <TableCell>{member.allocationCap ?? selectedAccount?.defaultEmployeeCap ?? '-'}</TableCell>
+                    <TableCell>{line?.hoursAllocated ?? 0}h</TableCell>
+                    <TableCell>{line?.hoursUsed ?? 0}h</TableCell>
+                    <TableCell>{member.hoursBalance ?? 0}h</TableCell>
+                    <TableCell>
+                      {member.status === 'active' && (
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => setMovement({ type: 'allocate', member })}>
+                            <ArrowUpRight className="h-4 w-4 mr-1" />
+                            Allocate
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={!member.hoursBalance}
+                            onClick={() => setMovement({ type: 'revoke', member })}
+                          >
+                            <ArrowDownLeft className="h-4 w-4 mr-1" />
+                            Revoke
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleRemove(member)}>
+                            Remove
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!movement} onOpenChange={(open) => !open && setMovement(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{movement?.type === 'allocate' ? 'Allocate Hours' : 'Revoke Hours'}</DialogTitle>
+            <DialogDescription>
+              {movement?.type === 'allocate'
+                ? `Move hours from the ${selectedAccount?.name} pool to ${movement?.member.studentName || 'this employee'}`
+                : `Return unused hours from ${movement?.member.studentName || 'this employee'} to the pool`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Hours</Label>
+              <Input
+                type="number"
+                min="1"
+                value={movementHours}
+                onChange={(e) => setMovementHours(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Textarea
+                rows={2}
+                value={movementReason}
+                onChange={(e) => setMovementReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMovement(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMovement} disabled={!movementHours || parseInt(movementHours) <= 0}>
+              {movement?.type === 'allocate' ? 'Allocate' : 'Revoke'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Home, UserPlus } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { familyAccountService } from '@/lib/services/family-account-service';
+import type { FamilyAccount, FamilyMember, FamilyMemberRole } from '@/types/hours';
+
+export function FamilyAccountsManagement() {
+  const [families, setFamilies] = useState<FamilyAccount[]>([]);
+  const [selectedFamilyId, setSelectedFamilyId] = useState<string>('');
+  const [members, setMembers] = useState<FamilyMember[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [newFamilyName, setNewFamilyName] = useState('');
+  const [newWalletProfileId, setNewWalletProfileId] = useState('');
+  const [newTransferCap, setNewTransferCap] = useState('');
+
+  const [newMemberId, setNewMemberId] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<FamilyMemberRole>('child');
+  const [newMemberRelationship, setNewMemberRelationship] = useState('');
+  const [transferCap, setTransferCap] = useState('');
+  const { toast } = useToast();
+
+  const selectedFamily = families.find(family => family.id === selectedFamilyId);
+
+  useEffect(() => {
+    loadFamilies();
+  }, []);
+
+  useEffect(() => {
+    if (selectedFamilyId) {
+      loadMembers(selectedFamilyId);
+    }
+    setTransferCap(selectedFamily?.monthlyTransferCap?.toString() ?? '');
+  }, [selectedFamilyId]);
+
+  const showError = (description: string) => {
+    toast({ title: 'Error', description, variant: 'destructive' });
+  };
+
+  const loadFamilies = async () => {
+    setLoading(true);
+    const result = await familyAccountService.listFamilies();
+
+    if (result.success && result.data) {
+      setFamilies(result.data);
+      if (!selectedFamilyId && result.data.length > 0) {
+        setSelectedFamilyId(result.data[0].id);
+      }
+    } else {
+      showError('Failed to load family accounts');
+    }
+    setLoading(false);
+  };
+
+  const loadMembers = async (familyId: string) => {
+    const result = await familyAccountService.getMembers(familyId);
+    if (result.success && result.data) {
+      setMembers(result.data);
+    } else {
+      showError(result.error?.message || 'Failed to load family members');
+    }
+  };
+
+  const handleCreate = async () => {
+    const result = await familyAccountService.createFamily({
+      name: newFamilyName.trim(),
+      walletProfileId: newWalletProfileId.trim(),
+      monthlyTransferCap: newTransferCap ? parseInt(newTransferCap) : undefined
+    });
+
+    if (result.success && result.data) {
+      toast({ title: 'Family created', description: 'Add the guardians and children next' });
+      setNewFamilyName('');
+      setNewWalletProfileId('');
+      setNewTransferCap('');
+      setSelectedFamilyId(result.data.id);
+      await loadFamilies();
+    } else {
+      showError(result.error?.message || 'Failed to create family account');
+    }
+  };
+
+  const handleSaveCap = async () => {
+    if (!selectedFamilyId) return;
+
+    const result = await familyAccountService.updateFamily(selectedFamilyId, {
+      monthlyTransferCap: transferCap ? parseInt(transferCap) : null
+    });
+
+    if (result.success) {
+      toast({ title: 'Saved', description: 'Monthly transfer cap updated' });
+      await loadFamilies();
+    } else {
+      showError(result.error?.message || 'Failed to update family account');
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!selectedFamilyId || !newMemberId) return;
+
+    const result = await familyAccountService.addMember(
+      selectedFamilyId,
+      newMemberId.trim(),
+      newMemberRole,
+      newMemberRelationship || undefined
+    );
+
+    if (result.success) {
+      toast({ title: 'Member added', description: 'The member can now share family hours' });
+      setNewMemberId('');
+      setNewMemberRelationship('');
+      await loadMembers(selectedFamilyId);
+    } else {
+      showError(result.error?.message || 'Failed to add family member');
+    }
+  };
+
+  const handleRemove = async (member: FamilyMember) => {
+    const result = await familyAccountService.removeMember(
+      member.familyAccountId,
+      member.profileId,
+      'Member removed from family account'
+    );
+
+    if (result.success) {
+      toast({ title: 'Member removed', description: 'Unused hours were returned to the family wallet' });
+      await loadFamilies();
+      await loadMembers(member.familyAccountId);
+    } else {
+      showError(result.error?.message || 'Failed to remove family member');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8 text-muted-foreground">Loading family accounts...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Family Accounts</h2>
+          <p className="text-muted-foreground">Households whose guardians share hours between siblings</p>
+        </div>
+        {families.length > 0 && (
+          <Select value={selectedFamilyId} onValueChange={setSelectedFamilyId}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Select family" />
+            </SelectTrigger>
+            <SelectContent>
+              {families.map(family => (
+                <SelectItem key={family.id} value={family.id}>{family.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Home className="h-5 w-5 mr-2" />
+            New Family
+          </CardTitle>
+          <CardDescription>The wallet profile holds the hours the family buys, usually the paying guardian</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Family name"
+              className="w-56"
+              value={newFamilyName}
+              onChange={(e) => setNewFamilyName(e.target.value)}
+            />
+            <Input
+              placeholder="Wallet profile ID"
+              className="w-72"
+              value={newWalletProfileId}
+              onChange={(e) => setNewWalletProfileId(e.target.value)}
+            />
+            <Input
+              type="number"
+              min="0"
+              placeholder="Monthly transfer cap"
+              className="w-48"
+              value={newTransferCap}
+              onChange={(e) => setNewTransferCap(e.target.value)}
+            />
+            <Button onClick={handleCreate} disabled={!newFamilyName.trim() || !newWalletProfileId.trim()}>
+              Create Family
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {selectedFamily && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{selectedFamily.name}</CardTitle>
+            <CardDescription>
+              Wallet balance {selectedFamily.walletBalance ?? 0}h
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="family-transfer-cap">Monthly transfer cap (hours)</Label>
+                <Input
+                  id="family-transfer-cap"
+                  type="number"
+                  min="0"
+                  placeholder="No cap"
+                  className="w-48"
+                  value={transferCap}
+                  onChange={(e) => setTransferCap(e.target.value)}
+                />
+              </div>
+              <Button variant="outline" onClick={handleSaveCap}>Save Cap</Button>
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="Profile ID"
+                className="w-72"
+                value={newMemberId}
+                onChange={(e) => setNewMemberId(e.target.value)}
+              />
+              <Select value={newMemberRole} onValueChange={(value) => setNewMemberRole(value as FamilyMemberRole)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="guardian">Guardian</SelectItem>
+                  <SelectItem value="child">Child</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Relationship (optional)"
+                className="w-48"
+                value={newMemberRelationship}
+                onChange={(e) => setNewMemberRelationship(e.target.value)}
+              />
+              <Button onClick={handleAddMember} disabled={!newMemberId}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Add Member
+              </Button>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Balance</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No members yet
+                    </TableCell>
+                  </TableRow>
+                ) : members.map(member => (
+                  <TableRow key={member.id}>
+                    <TableCell>
+                      <div className="font-medium">{member.profileName || member.profileId}</div>
+                      <div className="text-xs text-muted-foreground">{member.profileEmail}</div>
+                    </TableCell>
+                    <TableCell>
+                      {member.role}
+                      {member.relationship && (
+                        <span className="text-xs text-muted-foreground"> ({member.relationship})</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={member.status === 'active' ? 'default' : 'secondary'}>{member.status}</Badge>
+                    </TableCell>
+                    <TableCell>{member.hoursBalance !== undefined ? `${member.hoursBalance}h` : '-'}</TableCell>
+                    <TableCell>
+                      {member.status === 'active' && (
+                        <Button size="sm" variant="ghost" onClick={() => handleRemove(member)}>
+                          Remove
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
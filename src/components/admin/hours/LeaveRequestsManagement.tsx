@@ -54,6 +54,7 @@ import {
   RefreshCw
 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { leaveRulesService } from '@/lib/services/leave-rules-service';
 import type {
   LeaveRequest,
@@ -503,10 +504,27 @@ export function LeaveRequestsManagement() {
       });
       
       if (result.success) {
-        toast({
-          title: 'Success',
-          description: 'Leave request approved successfully',
-        });
+        const freeze = result.data?.hourFreeze;
+        const freezeError = result.data?.hourFreezeError;
+        if (freezeError) {
+          toast({
+            title: 'Leave approved, hours not frozen',
+            description: freezeError.message,
+            variant: 'destructive',
+            action: (
+              <ToastAction altText="Retry hour freeze" onClick={() => handleRetryFreeze(requestId)}>
+                Retry
+              </ToastAction>
+            ),
+          });
+        } else {
+          toast({
+            title: 'Success',
+            description: freeze
+              ? `Leave request approved. Hour expiry frozen for ${freeze.freezeDays} days on ${freeze.lotsExtended} purchase(s).`
+              : 'Leave request approved successfully',
+          });
+        }
         loadRequests();
       } else {
         throw new Error(result.error?.message || 'Failed to approve request');
@@ -520,6 +538,19 @@ export function LeaveRequestsManagement() {
     }
   };
 
+  const handleRetryFreeze = async (requestId: string) => {
+    const result = await leaveRulesService.retryHourFreeze(requestId);
+    const freeze = result.data?.hourFreeze;
+
+    toast({
+      title: result.success ? 'Success' : 'Error',
+      description: freeze
+        ? `Hour expiry frozen for ${freeze.freezeDays} days on ${freeze.lotsExtended} purchase(s).`
+        : result.error?.message || 'Failed to freeze hours',
+      variant: result.success ? 'default' : 'destructive',
+    });
+  };
+
   const handleRejectRequest = async (requestId: string, notes: string) => {
     try {
       const result = await leaveRulesService.rejectLeaveRequest(requestId, {
@@ -0,0 +1,247 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle, CheckCircle, PlayCircle, Scale } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import type {
+  HourReconciliationRun,
+  LedgerDiscrepancy,
+  LedgerDiscrepancyType
+} from '@/types/hours';
+
+const DISCREPANCY_LABELS: Record<LedgerDiscrepancyType, string> = {
+  ledger_purchase_mismatch: 'Ledger vs purchases',
+  cached_balance_mismatch: 'Cached balance',
+  unbalanced_journal: 'Unbalanced journal',
+  missing_journal: 'Missing journal',
+  open_transfer: 'Open transfer'
+};
+
+export function LedgerReconciliationReport() {
+  const [run, setRun] = useState<HourReconciliationRun | null>(null);
+  const [discrepancies, setDiscrepancies] = useState<LedgerDiscrepancy[]>([]);
+  const [statusFilter, setStatusFilter] = useState<string>('open');
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadReport();
+  }, [statusFilter]);
+
+  const loadReport = async () => {
+    try {
+      setLoading(true);
+      const params = statusFilter === 'all' ? '' : `?status=${statusFilter}`;
+      const response = await fetch(`/api/hours/reconciliation${params}`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load report');
+      }
+
+      setRun(result.data.run);
+      setDiscrepancies(result.data.discrepancies);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load reconciliation report',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runNow = async () => {
+    setRunning(true);
+    try {
+      const response = await fetch('/api/hours/reconciliation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'run' })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Reconciliation failed');
+      }
+
+      toast({
+        title: 'Reconciliation complete',
+        description: `${result.data.discrepanciesFound} discrepancies across ${result.data.studentsChecked} students`
+      });
+      await loadReport();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Reconciliation failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const resolve = async (discrepancy: LedgerDiscrepancy, status: 'resolved' | 'ignored') => {
+    const response = await fetch('/api/hours/reconciliation', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'resolve', discrepancy_id: discrepancy.id, status })
+    });
+    const result = await response.json();
+
+    if (result.success) {
+      await loadReport();
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error || 'Failed to update discrepancy',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Hour Ledger Reconciliation</h2>
+          <p className="text-muted-foreground">
+            Students whose ledger, purchase lots and cached balance disagree
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+              <SelectItem value="ignored">Ignored</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={runNow} disabled={running}>
+            <PlayCircle className="h-4 w-4 mr-2" />
+            {running ? 'Running...' : 'Run Now'}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Scale className="h-5 w-5 mr-2" />
+            Latest Run
+          </CardTitle>
+          <CardDescription>
+            {run
+              ? `Started ${new Date(run.startedAt).toLocaleString()}`
+              : 'No reconciliation has run yet'}
+          </CardDescription>
+        </CardHeader>
+        {run && (
+          <CardContent className="flex gap-6">
+            <div>
+              <div className="text-sm text-muted-foreground">Status</div>
+              <Badge variant={run.status === 'failed' ? 'destructive' : 'default'}>{run.status}</Badge>
+            </div>
+            <div>
+              <div className="text-sm text-muted-foreground">Students checked</div>
+              <div className="text-xl font-bold">{run.studentsChecked}</div>
+            </div>
+            <div>
+              <div className="text-sm text-muted-foreground">Discrepancies</div>
+              <div className="text-xl font-bold">{run.discrepanciesFound}</div>
+            </div>
+            {run.errorMessage && (
+              <div className="text-sm text-destructive">{run.errorMessage}</div>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Student</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Ledger</TableHead>
+                <TableHead>Purchases</TableHead>
+                <TableHead>Cached</TableHead>
+                <TableHead>Suggested Repair</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : discrepancies.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    <CheckCircle className="h-4 w-4 inline mr-2" />
+                    No discrepancies found
+                  </TableCell>
+                </TableRow>
+              ) : discrepancies.map(discrepancy => (
+                <TableRow key={discrepancy.id}>
+                  <TableCell>{discrepancy.studentName || discrepancy.studentId || '-'}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      <AlertTriangle className="h-3 w-3 mr-1" />
+                      {DISCREPANCY_LABELS[discrepancy.discrepancyType]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{discrepancy.ledgerBalance ?? '-'}</TableCell>
+                  <TableCell>{discrepancy.purchaseBalance ?? '-'}</TableCell>
+                  <TableCell>{discrepancy.cachedBalance ?? '-'}</TableCell>
+                  <TableCell className="max-w-md text-sm">{discrepancy.suggestedRepair.description}</TableCell>
+                  <TableCell>
+                    {discrepancy.status === 'open' ? (
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={() => resolve(discrepancy, 'resolved')}>
+                          Resolved
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => resolve(discrepancy, 'ignored')}>
+                          Ignore
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge variant="secondary">{discrepancy.status}</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
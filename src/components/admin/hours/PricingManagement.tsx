@@ -0,0 +1,339 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Gift, Layers, Tag, Trash2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { hourPricingService } from '@/lib/services/hour-pricing-service';
+import type { DiscountValueType, PromoCode, VolumePricingTier } from '@/types/hours';
+
+export function PricingManagement() {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [tiers, setTiers] = useState<VolumePricingTier[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [newCode, setNewCode] = useState('');
+  const [newDiscountType, setNewDiscountType] = useState<DiscountValueType>('percentage');
+  const [newDiscountValue, setNewDiscountValue] = useState('');
+  const [newMaxRedemptions, setNewMaxRedemptions] = useState('');
+  const [newMinHours, setNewMinHours] = useState('');
+  const [newValidUntil, setNewValidUntil] = useState('');
+
+  const [tierMinHours, setTierMinHours] = useState('');
+  const [tierPercentage, setTierPercentage] = useState('');
+
+  const [creditStudentId, setCreditStudentId] = useState('');
+  const [creditReferredId, setCreditReferredId] = useState('');
+  const [creditAmount, setCreditAmount] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadPricing();
+  }, []);
+
+  const loadPricing = async () => {
+    setLoading(true);
+    const [promoResult, tierResult] = await Promise.all([
+      hourPricingService.listPromoCodes(),
+      hourPricingService.listVolumeTiers()
+    ]);
+
+    if (promoResult.success && promoResult.data) {
+      setPromoCodes(promoResult.data);
+    }
+    if (tierResult.success && tierResult.data) {
+      setTiers(tierResult.data);
+    }
+    if (!promoResult.success || !tierResult.success) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load pricing settings',
+        variant: 'destructive',
+      });
+    }
+    setLoading(false);
+  };
+
+  const showResult = (result: { success: boolean; error?: { message: string } }, successMessage: string) => {
+    if (result.success) {
+      toast({ title: 'Saved', description: successMessage });
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error?.message || 'Request failed',
+        variant: 'destructive',
+      });
+    }
+    return result.success;
+  };
+
+  const createPromoCode = async () => {
+    const result = await hourPricingService.createPromoCode({
+      code: newCode,
+      discountType: newDiscountType,
+      discountValue: Number(newDiscountValue),
+      maxRedemptions: newMaxRedemptions ? Number(newMaxRedemptions) : undefined,
+      minHours: newMinHours ? Number(newMinHours) : undefined,
+      validUntil: newValidUntil ? new Date(newValidUntil).toISOString() : undefined
+    });
+
+    if (showResult(result, `Promo code ${newCode.toUpperCase()} created`)) {
+      setNewCode('');
+      setNewDiscountValue('');
+      setNewMaxRedemptions('');
+      setNewMinHours('');
+      setNewValidUntil('');
+      await loadPricing();
+    }
+  };
+
+  const togglePromoCode = async (promo: PromoCode) => {
+    const result = await hourPricingService.setPromoCodeActive(promo.id, !promo.isActive);
+    if (showResult(result, `${promo.code} ${promo.isActive ? 'deactivated' : 'activated'}`)) {
+      await loadPricing();
+    }
+  };
+
+  const saveTier = async () => {
+    const result = await hourPricingService.saveVolumeTier(Number(tierMinHours), Number(tierPercentage));
+    if (showResult(result, `Tier for ${tierMinHours}+ hours saved`)) {
+      setTierMinHours('');
+      setTierPercentage('');
+      await loadPricing();
+    }
+  };
+
+  const deleteTier = async (tier: VolumePricingTier) => {
+    const result = await hourPricingService.deleteVolumeTier(tier.id);
+    if (showResult(result, `Tier for ${tier.minHours}+ hours removed`)) {
+      await loadPricing();
+    }
+  };
+
+  const grantCredit = async () => {
+    const result = await hourPricingService.grantReferralCredit({
+      studentId: creditStudentId,
+      referredStudentId: creditReferredId || undefined,
+      amount: Number(creditAmount)
+    });
+
+    if (showResult(result, 'Referral credit granted')) {
+      setCreditStudentId('');
+      setCreditReferredId('');
+      setCreditAmount('');
+    }
+  };
+
+  const describeDiscount = (promo: PromoCode) =>
+    promo.discountType === 'percentage'
+      ? `${promo.discountValue}%`
+      : `${promo.discountValue} ${promo.currency}`;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Pricing &amp; Promotions</h2>
+        <p className="text-muted-foreground">
+          Promo codes, volume discounts and referral credits applied at checkout
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Tag className="h-5 w-5 mr-2" />
+            Promo Codes
+          </CardTitle>
+          <CardDescription>Codes stack after the volume discount and before referral credit</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="promo-code">Code</Label>
+              <Input id="promo-code" value={newCode} onChange={(e) => setNewCode(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={newDiscountType} onValueChange={(value) => setNewDiscountType(value as DiscountValueType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">Percentage</SelectItem>
+                  <SelectItem value="fixed">Fixed amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promo-value">Value</Label>
+              <Input id="promo-value" type="number" value={newDiscountValue} onChange={(e) => setNewDiscountValue(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promo-max">Max uses</Label>
+              <Input id="promo-max" type="number" value={newMaxRedemptions} onChange={(e) => setNewMaxRedemptions(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promo-until">Valid until</Label>
+              <Input id="promo-until" type="date" value={newValidUntil} onChange={(e) => setNewValidUntil(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promo-min-hours">Min hours</Label>
+              <div className="flex gap-2">
+                <Input id="promo-min-hours" type="number" value={newMinHours} onChange={(e) => setNewMinHours(e.target.value)} />
+                <Button onClick={createPromoCode} disabled={!newCode || !newDiscountValue}>
+                  Add
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Redemptions</TableHead>
+                <TableHead>Valid Until</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : promoCodes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No promo codes yet
+                  </TableCell>
+                </TableRow>
+              ) : promoCodes.map(promo => (
+                <TableRow key={promo.id}>
+                  <TableCell className="font-mono">{promo.code}</TableCell>
+                  <TableCell>{describeDiscount(promo)}</TableCell>
+                  <TableCell>
+                    {promo.redemptionsCount}
+                    {promo.maxRedemptions ? ` / ${promo.maxRedemptions}` : ''}
+                  </TableCell>
+                  <TableCell>
+                    {promo.validUntil ? new Date(promo.validUntil).toLocaleDateString() : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={promo.isActive ? 'default' : 'secondary'}>
+                      {promo.isActive ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Button size="sm" variant="outline" onClick={() => togglePromoCode(promo)}>
+                      {promo.isActive ? 'Deactivate' : 'Activate'}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Layers className="h-5 w-5 mr-2" />
+              Volume Tiers
+            </CardTitle>
+            <CardDescription>The highest tier a purchase qualifies for applies</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="tier-hours">Min hours</Label>
+                <Input id="tier-hours" type="number" value={tierMinHours} onChange={(e) => setTierMinHours(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="tier-percentage">Discount %</Label>
+                <Input id="tier-percentage" type="number" value={tierPercentage} onChange={(e) => setTierPercentage(e.target.value)} />
+              </div>
+              <Button onClick={saveTier} disabled={!tierMinHours || !tierPercentage}>
+                Save
+              </Button>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Min Hours</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tiers.map(tier => (
+                  <TableRow key={tier.id}>
+                    <TableCell>{tier.minHours}+</TableCell>
+                    <TableCell>{tier.discountPercentage}%</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="ghost" onClick={() => deleteTier(tier)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Gift className="h-5 w-5 mr-2" />
+              Referral Credit
+            </CardTitle>
+            <CardDescription>Credit is spent on the student&apos;s next purchases, oldest first</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="credit-student">Referrer student ID</Label>
+              <Input id="credit-student" value={creditStudentId} onChange={(e) => setCreditStudentId(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="credit-referred">Referred student ID (optional)</Label>
+              <Input id="credit-referred" value={creditReferredId} onChange={(e) => setCreditReferredId(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="credit-amount">Amount</Label>
+              <Input id="credit-amount" type="number" value={creditAmount} onChange={(e) => setCreditAmount(e.target.value)} />
+            </div>
+            <Button onClick={grantCredit} disabled={!creditStudentId || !creditAmount}>
+              Grant Credit
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RotateCcw, Settings } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { hourRefundService } from '@/lib/services/hour-refund-service';
+import type { HourRefundPolicy, HourRefundRequest } from '@/types/hours';
+import { HOUR_REFUND_STATUS_LABELS } from '@/types/hours';
+
+const formatCurrency = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+export function RefundRequestsQueue() {
+  const [requests, setRequests] = useState<HourRefundRequest[]>([]);
+  const [policy, setPolicy] = useState<HourRefundPolicy | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const loadQueue = async () => {
+    setLoading(true);
+    const [requestResult, policyResult] = await Promise.all([
+      hourRefundService.getPendingRefundRequests(),
+      hourRefundService.getActivePolicy()
+    ]);
+
+    if (requestResult.success && requestResult.data) {
+      setRequests(requestResult.data);
+    }
+    if (policyResult.success && policyResult.data) {
+      setPolicy(policyResult.data);
+    }
+    if (!requestResult.success) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load refund requests',
+        variant: 'destructive',
+      });
+    }
+    setLoading(false);
+  };
+
+  const runAction = async (
+    requestId: string,
+    action: () => Promise<{ success: boolean; error?: { message: string } }>,
+    successMessage: string
+  ) => {
+    setProcessingId(requestId);
+    const result = await action();
+    if (result.success) {
+      toast({ title: 'Saved', description: successMessage });
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error?.message || 'Request failed',
+        variant: 'destructive',
+      });
+    }
+    setProcessingId(null);
+    await loadQueue();
+  };
+
+  const approve = (request: HourRefundRequest) =>
+    runAction(
+      request.id,
+      () => hourRefundService.approveRefundRequest(request.id, { reviewNotes: notes[request.id] }),
+      `Refund of ${formatCurrency(request.refundAmount, request.currency)} approved`
+    );
+
+  const reject = (request: HourRefundRequest) =>
+    runAction(
+      request.id,
+      () => hourRefundService.rejectRefundRequest(request.id, { reviewNotes: notes[request.id] || '' }),
+      'Refund request rejected'
+    );
+
+  const retry = (request: HourRefundRequest) =>
+    runAction(
+      request.id,
+      () => hourRefundService.retryRefundPayment(request.id),
+      'Payment refund sent'
+    );
+
+  const savePolicy = async () => {
+    if (!policy) return;
+
+    const result = await hourRefundService.updatePolicy(policy.id, {
+      cutoffDays: policy.cutoffDays,
+      adminFeeFixed: policy.adminFeeFixed,
+      adminFeePercentage: policy.adminFeePercentage,
+      refundBonusHours: policy.refundBonusHours
+    });
+
+    if (result.success) {
+      toast({ title: 'Saved', description: 'Refund policy updated' });
+      await loadQueue();
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error?.message || 'Failed to update refund policy',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Refund Requests</h2>
+        <p className="text-muted-foreground">
+          Review student requests to refund unused hours
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <RotateCcw className="h-5 w-5 mr-2" />
+            Approval Queue
+          </CardTitle>
+          <CardDescription>
+            Approving re-quotes the refund against the hours left today, reverses them and refunds the payment
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Student</TableHead>
+                <TableHead>Package</TableHead>
+                <TableHead>Hours</TableHead>
+                <TableHead>Refund</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Review</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : requests.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No refund requests waiting
+                  </TableCell>
+                </TableRow>
+              ) : requests.map(request => (
+                <TableRow key={request.id}>
+                  <TableCell>
+                    <div className="font-medium">{request.studentName || request.studentId}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(request.createdAt).toLocaleDateString()}
+                    </div>
+                  </TableCell>
+                  <TableCell>{request.packageName || '-'}</TableCell>
+                  <TableCell>{request.hours}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{formatCurrency(request.refundAmount, request.currency)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatCurrency(request.grossAmount, request.currency)} less {formatCurrency(request.adminFee, request.currency)} fee
+                    </div>
+                  </TableCell>
+                  <TableCell className="max-w-xs text-sm">{request.reason}</TableCell>
+                  <TableCell>
+                    <Badge variant={request.status === 'payment_failed' ? 'destructive' : 'secondary'}>
+                      {HOUR_REFUND_STATUS_LABELS[request.status]}
+                    </Badge>
+                    {request.failureMessage && (
+                      <div className="text-xs text-red-600 mt-1">{request.failureMessage}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="space-y-2 min-w-[220px]">
+                    {request.status === 'payment_failed' ? (
+                      <Button size="sm" onClick={() => retry(request)} disabled={processingId === request.id}>
+                        Retry Refund
+                      </Button>
+                    ) : (
+                      <>
+                        <Textarea
+                          placeholder="Review notes (required to reject)"
+                          value={notes[request.id] || ''}
+                          onChange={(e) => setNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                          rows={2}
+                        />
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => approve(request)} disabled={processingId === request.id}>
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => reject(request)}
+                            disabled={processingId === request.id || !notes[request.id]}
+                          >
+                            Reject
+                          </Button>
+                        </div>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {policy && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Settings className="h-5 w-5 mr-2" />
+              Refund Policy
+            </CardTitle>
+            <CardDescription>
+              Unused paid hours are refunded at the price paid per hour, less the admin fee
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="refund-cutoff">Cutoff (days after purchase)</Label>
+                <Input
+                  id="refund-cutoff"
+                  type="number"
+                  value={policy.cutoffDays ?? ''}
+                  placeholder="No cutoff"
+                  onChange={(e) => setPolicy({ ...policy, cutoffDays: e.target.value ? Number(e.target.value) : undefined })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="refund-fee-fixed">Fixed admin fee</Label>
+                <Input
+                  id="refund-fee-fixed"
+                  type="number"
+                  value={policy.adminFeeFixed}
+                  onChange={(e) => setPolicy({ ...policy, adminFeeFixed: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="refund-fee-percentage">Admin fee %</Label>
+                <Input
+                  id="refund-fee-percentage"
+                  type="number"
+                  value={policy.adminFeePercentage}
+                  onChange={(e) => setPolicy({ ...policy, adminFeePercentage: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="refund-bonus"
+                checked={policy.refundBonusHours}
+                onCheckedChange={(checked) => setPolicy({ ...policy, refundBonusHours: checked })}
+              />
+              <Label htmlFor="refund-bonus">Refund unused bonus hours</Label>
+            </div>
+            <Button onClick={savePolicy}>Save Policy</Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,21 @@ export { HourConsumptionAnalyticsChart } from './HourConsumptionAnalyticsChart';
 export { HourConsumptionDashboard } from './HourConsumptionDashboard';
 export { HourConsumptionComparison } from './HourConsumptionComparison';
 
+// Corporate Accounts
+export { CorporateAccountsManagement } from './CorporateAccountsManagement';
+
+// Family Accounts
+export { FamilyAccountsManagement } from './FamilyAccountsManagement';
+
+// Ledger Reconciliation
+export { LedgerReconciliationReport } from './LedgerReconciliationReport';
+
+// Pricing & Promotions
+export { PricingManagement } from './PricingManagement';
+
+// Refund Requests
+export { RefundRequestsQueue } from './RefundRequestsQueue';
+
 // Legacy components (if they exist)
 export { HourUsageAnalytics } from './HourUsageAnalytics';
 export { BalanceTracker } from './BalanceTracker';
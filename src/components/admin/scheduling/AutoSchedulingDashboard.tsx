@@ -23,6 +23,7 @@ import {
   RefreshCw
 } from 'lucide-react';
 import { schedulingRulesEngine } from '@/lib/services/scheduling-rules-engine';
+import { SchedulingSandboxPanel } from './SchedulingSandboxPanel';
 import { 
   SchedulingRequest, 
   SchedulingResponse, 
@@ -261,6 +262,7 @@ export function AutoSchedulingDashboard({ className }: AutoSchedulingDashboardPr
           <TabsTrigger value="classes">Scheduled Classes</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
           <TabsTrigger value="recommendations">Recommendations</TabsTrigger>
+          <TabsTrigger value="sandbox">What-if</TabsTrigger>
           <TabsTrigger value="settings">Settings</TabsTrigger>
         </TabsList>
 
@@ -372,6 +374,10 @@ export function AutoSchedulingDashboard({ className }: AutoSchedulingDashboardPr
           </Card>
         </TabsContent>
 
+        <TabsContent value="sandbox" className="space-y-4">
+          <SchedulingSandboxPanel />
+        </TabsContent>
+
         <TabsContent value="settings" className="space-y-4">
           <Card>
             <CardHeader>
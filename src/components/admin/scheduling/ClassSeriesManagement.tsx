@@ -0,0 +1,528 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Repeat, SkipForward, UserCheck } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/lib/supabase';
+import { classSeriesService } from '@/lib/services/class-series-service';
+import { formatInTimeZone } from '@/lib/utils/timezone';
+import type { ClassSeries, ClassSeriesDetails, SeriesChangeResult, SeriesOccurrence } from '@/types/class-series';
+
+const WEEKDAYS = [
+  { code: 'MO', label: 'Mon' },
+  { code: 'TU', label: 'Tue' },
+  { code: 'WE', label: 'Wed' },
+  { code: 'TH', label: 'Thu' },
+  { code: 'FR', label: 'Fri' },
+  { code: 'SA', label: 'Sat' },
+  { code: 'SU', label: 'Sun' },
+];
+
+const STATUS_VARIANTS: Record<SeriesOccurrence['status'], 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  scheduled: 'default',
+  completed: 'secondary',
+  skipped: 'outline',
+  cancelled: 'destructive',
+};
+
+const toRRule = (days: string[], interval: string) =>
+  `FREQ=WEEKLY${interval !== '1' ? `;INTERVAL=${interval}` : ''};BYDAY=${days.join(',')}`;
+
+const emptySeries = {
+  name: '',
+  courseId: '',
+  teacherId: '',
+  startDate: '',
+  endDate: '',
+  startTime: '09:00',
+  durationMinutes: '60',
+  location: '',
+  capacity: '9',
+  days: ['MO'],
+  interval: '1',
+};
+
+interface Option {
+  id: string;
+  label: string;
+}
+
+export function ClassSeriesManagement() {
+  const [seriesList, setSeriesList] = useState<ClassSeries[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [details, setDetails] = useState<ClassSeriesDetails | null>(null);
+  const [courses, setCourses] = useState<Option[]>([]);
+  const [teachers, setTeachers] = useState<Option[]>([]);
+  const [newSeries, setNewSeries] = useState(emptySeries);
+  const [endDate, setEndDate] = useState('');
+  const [studentId, setStudentId] = useState('');
+  const [followingChanges, setFollowingChanges] = useState({ startTime: '', durationMinutes: '', teacherId: '' });
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSeries();
+    loadOptions();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) loadDetails(selectedId);
+  }, [selectedId]);
+
+  const loadOptions = async () => {
+    const [courseResult, teacherResult] = await Promise.all([
+      supabase.from('courses').select('id, title').order('title'),
+      supabase.from('teachers').select('id, full_name').order('full_name'),
+    ]);
+    setCourses((courseResult.data || []).map((course: any) => ({ id: course.id, label: course.title })));
+    setTeachers((teacherResult.data || []).map((teacher: any) => ({ id: teacher.id, label: teacher.full_name })));
+  };
+
+  const loadSeries = async () => {
+    const result = await classSeriesService.listSeries();
+    if (result.success && result.data) {
+      setSeriesList(result.data);
+    } else {
+      showError('Failed to load class series');
+    }
+  };
+
+  const loadDetails = async (seriesId: string) => {
+    const result = await classSeriesService.getSeriesDetails(seriesId);
+    if (result.success && result.data) {
+      setDetails(result.data);
+      setEndDate(result.data.series.endDate);
+    } else {
+      showError(result.error?.message);
+    }
+  };
+
+  const showError = (message?: string) =>
+    toast({
+      title: 'Error',
+      description: message || 'Request failed',
+      variant: 'destructive',
+    });
+
+  const describeChange = (result: SeriesChangeResult) =>
+    [
+      result.updatedOccurrences && `${result.updatedOccurrences} sessions moved`,
+      result.addedOccurrences && `${result.addedOccurrences} added`,
+      result.cancelledOccurrences && `${result.cancelledOccurrences} cancelled`,
+      `${result.affectedBookings} bookings updated`,
+    ].filter(Boolean).join(', ');
+
+  const runChange = async (
+    key: string,
+    action: () => Promise<{ success: boolean; data?: SeriesChangeResult; error?: { message: string } }>
+  ) => {
+    setProcessingId(key);
+    const result = await action();
+    if (result.success && result.data) {
+      toast({ title: 'Saved', description: describeChange(result.data) });
+    } else {
+      showError(result.error?.message);
+    }
+    setProcessingId(null);
+    await loadSeries();
+    if (selectedId) await loadDetails(selectedId);
+  };
+
+  const createSeries = async () => {
+    const result = await classSeriesService.createSeries({
+      name: newSeries.name,
+      courseId: newSeries.courseId,
+      teacherId: newSeries.teacherId || undefined,
+      rrule: toRRule(newSeries.days, newSeries.interval),
+      startDate: newSeries.startDate,
+      endDate: newSeries.endDate,
+      startTime: newSeries.startTime,
+      durationMinutes: Number(newSeries.durationMinutes),
+      location: newSeries.location || undefined,
+      capacity: Number(newSeries.capacity),
+    });
+
+    if (result.success && result.data) {
+      toast({
+        title: 'Saved',
+        description: `${result.data.series.name} created with ${result.data.occurrences.length} sessions`,
+      });
+      setNewSeries(emptySeries);
+      await loadSeries();
+      setSelectedId(result.data.series.id);
+    } else {
+      showError(result.error?.message);
+    }
+  };
+
+  const skipOccurrence = async (occurrence: SeriesOccurrence) => {
+    setProcessingId(occurrence.id);
+    const result = await classSeriesService.skipOccurrence(occurrence.id, { reason: 'Skipped by admin' });
+    if (result.success && result.data) {
+      toast({
+        title: 'Session skipped',
+        description: result.data.makeUp
+          ? `Make-up session added on ${result.data.makeUp.occurrenceDate}`
+          : 'No make-up date was available',
+      });
+    } else {
+      showError(result.error?.message);
+    }
+    setProcessingId(null);
+    if (selectedId) await loadDetails(selectedId);
+  };
+
+  const changeFollowing = (occurrence: SeriesOccurrence) =>
+    runChange(occurrence.id, () => classSeriesService.updateFollowing(occurrence.id, {
+      startTime: followingChanges.startTime || undefined,
+      durationMinutes: followingChanges.durationMinutes ? Number(followingChanges.durationMinutes) : undefined,
+    }));
+
+  const changeTeacher = (occurrence: SeriesOccurrence) =>
+    runChange(occurrence.id, () => classSeriesService.changeTeacherFrom(occurrence.id, followingChanges.teacherId));
+
+  const enrollStudent = async () => {
+    if (!details) return;
+    const result = await classSeriesService.enrollStudent(details.series.id, studentId);
+    if (result.success) {
+      toast({ title: 'Enrolled', description: 'Student booked into every upcoming session' });
+      setStudentId('');
+      await loadDetails(details.series.id);
+    } else {
+      showError(result.error?.message);
+    }
+  };
+
+  const withdrawStudent = async (withdrawId: string) => {
+    if (!details) return;
+    const result = await classSeriesService.withdrawStudent(details.series.id, withdrawId);
+    if (result.success && result.data) {
+      toast({ title: 'Withdrawn', description: `${result.data.cancelledBookings} upcoming bookings cancelled` });
+      await loadDetails(details.series.id);
+    } else {
+      showError(result.error?.message);
+    }
+  };
+
+  const toggleDay = (code: string, checked: boolean) =>
+    setNewSeries({
+      ...newSeries,
+      days: checked
+        ? WEEKDAYS.map(day => day.code).filter(day => day === code || newSeries.days.includes(day))
+        : newSeries.days.filter(day => day !== code),
+    });
+
+  const teacherName = (id?: string) => teachers.find(teacher => teacher.id === id)?.label || '—';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center">
+          <Repeat className="h-6 w-6 mr-2" />
+          Class Series
+        </h1>
+        <p className="text-muted-foreground">
+          Weekly group classes with enrolled students booked into every session.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Series</CardTitle>
+          <CardDescription>Sessions are created up to the end date, skipping academy closures.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid gap-3 md:grid-cols-3">
+            <div>
+              <Label htmlFor="series-name">Name</Label>
+              <Input
+                id="series-name"
+                placeholder="Everyday A - Monday evening"
+                value={newSeries.name}
+                onChange={(e) => setNewSeries({ ...newSeries, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Course</Label>
+              <Select value={newSeries.courseId} onValueChange={(value) => setNewSeries({ ...newSeries, courseId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select course" />
+                </SelectTrigger>
+                <SelectContent>
+                  {courses.map(course => (
+                    <SelectItem key={course.id} value={course.id}>{course.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Teacher</Label>
+              <Select value={newSeries.teacherId} onValueChange={(value) => setNewSeries({ ...newSeries, teacherId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select teacher" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teachers.map(teacher => (
+                    <SelectItem key={teacher.id} value={teacher.id}>{teacher.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid gap-3 md:grid-cols-6">
+            <div>
+              <Label htmlFor="series-start">First date</Label>
+              <Input
+                id="series-start"
+                type="date"
+                value={newSeries.startDate}
+                onChange={(e) => setNewSeries({ ...newSeries, startDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="series-end">Last date</Label>
+              <Input
+                id="series-end"
+                type="date"
+                value={newSeries.endDate}
+                onChange={(e) => setNewSeries({ ...newSeries, endDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="series-time">Start time</Label>
+              <Input
+                id="series-time"
+                type="time"
+                value={newSeries.startTime}
+                onChange={(e) => setNewSeries({ ...newSeries, startTime: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="series-duration">Minutes</Label>
+              <Input
+                id="series-duration"
+                type="number"
+                min={15}
+                value={newSeries.durationMinutes}
+                onChange={(e) => setNewSeries({ ...newSeries, durationMinutes: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="series-capacity">Capacity</Label>
+              <Input
+                id="series-capacity"
+                type="number"
+                min={1}
+                max={9}
+                value={newSeries.capacity}
+                onChange={(e) => setNewSeries({ ...newSeries, capacity: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="series-location">Location</Label>
+              <Input
+                id="series-location"
+                value={newSeries.location}
+                onChange={(e) => setNewSeries({ ...newSeries, location: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            {WEEKDAYS.map(day => (
+              <label key={day.code} className="flex items-center gap-1 text-sm">
+                <Checkbox
+                  checked={newSeries.days.includes(day.code)}
+                  onCheckedChange={(checked) => toggleDay(day.code, checked === true)}
+                />
+                {day.label}
+              </label>
+            ))}
+            <Select value={newSeries.interval} onValueChange={(value) => setNewSeries({ ...newSeries, interval: value })}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Every week</SelectItem>
+                <SelectItem value="2">Every 2 weeks</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={createSeries}
+              disabled={!newSeries.name || !newSeries.courseId || !newSeries.startDate || !newSeries.endDate || newSeries.days.length === 0}
+            >
+              Create Series
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Manage Series</CardTitle>
+          <CardDescription>
+            Changes to a session apply to it and every following session; enrolled students&apos; bookings move with them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Select value={selectedId} onValueChange={setSelectedId}>
+            <SelectTrigger className="md:w-96">
+              <SelectValue placeholder="Select a series" />
+            </SelectTrigger>
+            <SelectContent>
+              {seriesList.map(series => (
+                <SelectItem key={series.id} value={series.id}>
+                  {series.name} ({series.startDate} – {series.endDate})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {details && (
+            <>
+              <div className="grid gap-3 md:grid-cols-4 items-end">
+                <div>
+                  <Label htmlFor="series-new-end">End date</Label>
+                  <Input id="series-new-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+                </div>
+                <Button
+                  variant="outline"
+                  disabled={!endDate || endDate === details.series.endDate || processingId === 'end-date'}
+                  onClick={() => runChange('end-date', () => classSeriesService.setEndDate(details.series.id, endDate))}
+                >
+                  {endDate > details.series.endDate ? 'Extend series' : 'Shorten series'}
+                </Button>
+                <div>
+                  <Label htmlFor="series-student">Student ID</Label>
+                  <Input id="series-student" value={studentId} onChange={(e) => setStudentId(e.target.value)} />
+                </div>
+                <Button variant="outline" disabled={!studentId} onClick={enrollStudent}>
+                  <UserCheck className="h-4 w-4 mr-2" />
+                  Enroll student
+                </Button>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {details.enrollments.filter(enrollment => enrollment.status === 'active').map(enrollment => (
+                  <Badge key={enrollment.id} variant="secondary" className="gap-2">
+                    {enrollment.studentId}
+                    <button type="button" onClick={() => withdrawStudent(enrollment.studentId)} aria-label="Withdraw student">
+                      ×
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+
+              <div className="grid gap-3 md:grid-cols-3">
+                <div>
+                  <Label htmlFor="following-time">New start time</Label>
+                  <Input
+                    id="following-time"
+                    type="time"
+                    value={followingChanges.startTime}
+                    onChange={(e) => setFollowingChanges({ ...followingChanges, startTime: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="following-duration">New length (minutes)</Label>
+                  <Input
+                    id="following-duration"
+                    type="number"
+                    value={followingChanges.durationMinutes}
+                    onChange={(e) => setFollowingChanges({ ...followingChanges, durationMinutes: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>New teacher</Label>
+                  <Select
+                    value={followingChanges.teacherId}
+                    onValueChange={(value) => setFollowingChanges({ ...followingChanges, teacherId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select teacher" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {teachers.map(teacher => (
+                        <SelectItem key={teacher.id} value={teacher.id}>{teacher.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Session</TableHead>
+                    <TableHead>Teacher</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">This and following</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {details.occurrences.map(occurrence => (
+                    <TableRow key={occurrence.id}>
+                      <TableCell>
+                        {formatInTimeZone(occurrence.startTime, details.series.timeZone)}
+                        {occurrence.makeupForId && <Badge variant="outline" className="ml-2">Make-up</Badge>}
+                      </TableCell>
+                      <TableCell>{teacherName(occurrence.teacherId)}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[occurrence.status]}>{occurrence.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        {occurrence.status === 'scheduled' && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={processingId === occurrence.id || (!followingChanges.startTime && !followingChanges.durationMinutes)}
+                              onClick={() => changeFollowing(occurrence)}
+                            >
+                              Apply time
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={processingId === occurrence.id || !followingChanges.teacherId}
+                              onClick={() => changeTeacher(occurrence)}
+                            >
+                              Change teacher
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={processingId === occurrence.id}
+                              onClick={() => skipOccurrence(occurrence)}
+                            >
+                              <SkipForward className="h-4 w-4 mr-1" />
+                              Skip
+                            </Button>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,427 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CalendarOff, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { closureCalendarService } from '@/lib/services/closure-calendar-service';
+import { addDaysToDate } from '@/lib/utils/timezone';
+import type { AcademyClosure, ClosureType, HolidaySet } from '@/types/closures';
+
+const CLOSURE_TYPE_LABELS: Record<ClosureType, string> = {
+  public_holiday: 'Public holiday',
+  academy_closure: 'Academy closure',
+  location_closure: 'Location closure',
+};
+
+const NO_SET = 'none';
+
+const emptyClosure = {
+  title: '',
+  closureType: 'public_holiday' as ClosureType,
+  startDate: '',
+  endDate: '',
+  location: '',
+  holidaySetId: NO_SET,
+};
+
+export function ClosureCalendarManagement() {
+  const [holidaySets, setHolidaySets] = useState<HolidaySet[]>([]);
+  const [closures, setClosures] = useState<AcademyClosure[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newSet, setNewSet] = useState({ name: '', region: '', locations: '' });
+  const [newClosure, setNewClosure] = useState(emptyClosure);
+  const [importFormat, setImportFormat] = useState<'ics' | 'csv'>('ics');
+  const [importSetId, setImportSetId] = useState(NO_SET);
+  const [importContent, setImportContent] = useState('');
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadCalendar();
+  }, []);
+
+  const loadCalendar = async () => {
+    setLoading(true);
+    const today = new Date().toISOString().split('T')[0];
+    const [setResult, closureResult] = await Promise.all([
+      closureCalendarService.listHolidaySets(),
+      closureCalendarService.getClosures(today, addDaysToDate(today, 365)),
+    ]);
+
+    if (setResult.success && setResult.data) {
+      setHolidaySets(setResult.data);
+    }
+    if (closureResult.success && closureResult.data) {
+      setClosures(closureResult.data);
+    } else {
+      toast({
+        title: 'Error',
+        description: 'Failed to load closures',
+        variant: 'destructive',
+      });
+    }
+    setLoading(false);
+  };
+
+  const showError = (message?: string) =>
+    toast({
+      title: 'Error',
+      description: message || 'Request failed',
+      variant: 'destructive',
+    });
+
+  const flaggedMessage = (count: number) =>
+    count > 0 ? ` ${count} booked classes were flagged for postponement.` : '';
+
+  const createHolidaySet = async () => {
+    const result = await closureCalendarService.createHolidaySet({
+      name: newSet.name,
+      region: newSet.region,
+      locations: newSet.locations.split(',').map(location => location.trim()).filter(Boolean),
+    });
+
+    if (result.success) {
+      toast({ title: 'Saved', description: `Holiday set ${newSet.name} created` });
+      setNewSet({ name: '', region: '', locations: '' });
+      await loadCalendar();
+    } else {
+      showError(result.error?.message);
+    }
+  };
+
+  const createClosure = async () => {
+    const result = await closureCalendarService.createClosure({
+      title: newClosure.title,
+      closureType: newClosure.closureType,
+      startDate: newClosure.startDate,
+      endDate: newClosure.endDate || undefined,
+      location: newClosure.location || undefined,
+      holidaySetId: newClosure.holidaySetId === NO_SET ? undefined : newClosure.holidaySetId,
+    });
+
+    if (result.success && result.data) {
+      toast({
+        title: 'Saved',
+        description: `${result.data.closure.title} added.${flaggedMessage(result.data.flaggedBookings)}`,
+      });
+      setNewClosure(emptyClosure);
+      await loadCalendar();
+    } else {
+      showError(result.error?.message);
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setImportFormat(file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'ics');
+    setImportContent(await file.text());
+  };
+
+  const importClosures = async () => {
+    const result = await closureCalendarService.importClosures(importFormat, importContent, {
+      holidaySetId: importSetId === NO_SET ? undefined : importSetId,
+    });
+
+    if (result.success && result.data) {
+      const { imported, skipped, errors, flaggedBookings } = result.data;
+      toast({
+        title: 'Imported',
+        description: `${imported} closures imported, ${skipped} already in the calendar` +
+          `${errors.length > 0 ? `, ${errors.length} rows with errors` : ''}.${flaggedMessage(flaggedBookings)}`,
+      });
+      setImportContent('');
+      await loadCalendar();
+    } else {
+      showError(result.error?.message);
+    }
+  };
+
+  const recheckClosure = async (closure: AcademyClosure) => {
+    setProcessingId(closure.id);
+    const result = await closureCalendarService.flagAffectedClasses(closure.id);
+    if (result.success && result.data) {
+      toast({
+        title: 'Checked',
+        description: result.data.flaggedBookings > 0
+          ? flaggedMessage(result.data.flaggedBookings).trim()
+          : 'No new classes fall in this closure.',
+      });
+    } else {
+      showError(result.error?.message);
+    }
+    setProcessingId(null);
+  };
+
+  const deleteClosure = async (closure: AcademyClosure) => {
+    setProcessingId(closure.id);
+    const result = await closureCalendarService.deleteClosure(closure.id);
+    if (result.success) {
+      toast({ title: 'Deleted', description: `${closure.title} removed` });
+      await loadCalendar();
+    } else {
+      showError(result.error?.message);
+    }
+    setProcessingId(null);
+  };
+
+  const holidaySetName = (id?: string) =>
+    holidaySets.find(set => set.id === id)?.name || '—';
+
+  const holidaySetSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_SET}>No holiday set</SelectItem>
+        {holidaySets.map(set => (
+          <SelectItem key={set.id} value={set.id}>
+            {set.name} ({set.region})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center">
+          <CalendarOff className="h-6 w-6 mr-2" />
+          Closure Calendar
+        </h1>
+        <p className="text-muted-foreground">
+          Public holidays and closures are skipped when scheduling classes, 1-on-1 sessions and make-up classes.
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Closure</CardTitle>
+            <CardDescription>Classes already booked in the closure are flagged for postponement.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div>
+              <Label htmlFor="closure-title">Title</Label>
+              <Input
+                id="closure-title"
+                value={newClosure.title}
+                onChange={(e) => setNewClosure({ ...newClosure, title: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="closure-start">First day</Label>
+                <Input
+                  id="closure-start"
+                  type="date"
+                  value={newClosure.startDate}
+                  onChange={(e) => setNewClosure({ ...newClosure, startDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="closure-end">Last day</Label>
+                <Input
+                  id="closure-end"
+                  type="date"
+                  value={newClosure.endDate}
+                  onChange={(e) => setNewClosure({ ...newClosure, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Type</Label>
+                <Select
+                  value={newClosure.closureType}
+                  onValueChange={(value) => setNewClosure({ ...newClosure, closureType: value as ClosureType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CLOSURE_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="closure-location">Location</Label>
+                <Input
+                  id="closure-location"
+                  placeholder="All locations"
+                  value={newClosure.location}
+                  onChange={(e) => setNewClosure({ ...newClosure, location: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Holiday set</Label>
+              {holidaySetSelect(newClosure.holidaySetId, (value) => setNewClosure({ ...newClosure, holidaySetId: value }))}
+            </div>
+            <Button onClick={createClosure} disabled={!newClosure.title || !newClosure.startDate}>
+              Add Closure
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Closures</CardTitle>
+            <CardDescription>
+              Upload an ICS holiday calendar, or a CSV with title, start_date, end_date, type, location and notes columns.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Format</Label>
+                <Select value={importFormat} onValueChange={(value) => setImportFormat(value as 'ics' | 'csv')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ics">ICS</SelectItem>
+                    <SelectItem value="csv">CSV</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Holiday set</Label>
+                {holidaySetSelect(importSetId, setImportSetId)}
+              </div>
+            </div>
+            <Input type="file" accept=".ics,.csv,text/calendar,text/csv" onChange={handleFile} />
+            <Textarea
+              rows={5}
+              placeholder="Or paste the file contents here"
+              value={importContent}
+              onChange={(e) => setImportContent(e.target.value)}
+            />
+            <Button onClick={importClosures} disabled={!importContent.trim()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Holiday Sets</CardTitle>
+          <CardDescription>Regional holiday calendars and the locations that observe them.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-4">
+            <Input
+              placeholder="Name, e.g. Thai public holidays"
+              value={newSet.name}
+              onChange={(e) => setNewSet({ ...newSet, name: e.target.value })}
+            />
+            <Input
+              placeholder="Region, e.g. TH"
+              value={newSet.region}
+              onChange={(e) => setNewSet({ ...newSet, region: e.target.value })}
+            />
+            <Input
+              placeholder="Locations (comma separated, blank for all)"
+              value={newSet.locations}
+              onChange={(e) => setNewSet({ ...newSet, locations: e.target.value })}
+            />
+            <Button onClick={createHolidaySet} disabled={!newSet.name || !newSet.region}>
+              Add Holiday Set
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {holidaySets.map(set => (
+              <Badge key={set.id} variant={set.isActive ? 'default' : 'secondary'}>
+                {set.name} · {set.region} · {set.locations.length > 0 ? set.locations.join(', ') : 'All locations'}
+              </Badge>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Upcoming Closures</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading closures...</p>
+          ) : closures.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No closures in the next year.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Closure</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Locations</TableHead>
+                  <TableHead>Holiday set</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {closures.map(closure => (
+                  <TableRow key={closure.id}>
+                    <TableCell className="font-medium">{closure.title}</TableCell>
+                    <TableCell>
+                      {closure.startDate === closure.endDate
+                        ? closure.startDate
+                        : `${closure.startDate} – ${closure.endDate}`}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{CLOSURE_TYPE_LABELS[closure.closureType]}</Badge>
+                    </TableCell>
+                    <TableCell>{closure.locations.length > 0 ? closure.locations.join(', ') : 'All'}</TableCell>
+                    <TableCell>{holidaySetName(closure.holidaySetId)}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={processingId === closure.id}
+                        onClick={() => recheckClosure(closure)}
+                      >
+                        <RefreshCw className="h-4 w-4 mr-2" />
+                        Re-check classes
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={processingId === closure.id}
+                        onClick={() => deleteClosure(closure)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { DoorOpen, Video } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { scheduleResourceService } from '@/lib/services/schedule-resource-service';
+import type {
+  MeetingProviderName,
+  ResourceKind,
+  ResourceUtilization,
+  ScheduleResource,
+} from '@/types/resources';
+
+const PROVIDER_LABELS: Record<MeetingProviderName, string> = {
+  local: 'Built-in (local)',
+  zoom: 'Zoom',
+  google_meet: 'Google Meet',
+  teams: 'Microsoft Teams',
+};
+
+const RANGE_DAYS = [7, 28];
+
+const emptyResource = {
+  name: '',
+  kind: 'room' as ResourceKind,
+  capacity: '9',
+  equipment: '',
+  location: '',
+  provider: 'local' as MeetingProviderName,
+  accountEmail: '',
+};
+
+export function ResourceManagement() {
+  const [resources, setResources] = useState<ScheduleResource[]>([]);
+  const [utilization, setUtilization] = useState<ResourceUtilization[]>([]);
+  const [rangeDays, setRangeDays] = useState(RANGE_DAYS[0]);
+  const [newResource, setNewResource] = useState(emptyResource);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadResources();
+  }, [rangeDays]);
+
+  const loadResources = async () => {
+    const from = new Date();
+    const to = new Date(from.getTime() + rangeDays * 24 * 60 * 60 * 1000);
+    const [resourceResult, utilizationResult] = await Promise.all([
+      scheduleResourceService.listResources(true),
+      scheduleResourceService.getUtilization(from.toISOString(), to.toISOString()),
+    ]);
+
+    if (resourceResult.success && resourceResult.data) {
+      setResources(resourceResult.data);
+    } else {
+      showError('Failed to load resources');
+    }
+    if (utilizationResult.success && utilizationResult.data) {
+      setUtilization(utilizationResult.data);
+    }
+  };
+
+  const showError = (message?: string) =>
+    toast({
+      title: 'Error',
+      description: message || 'Request failed',
+      variant: 'destructive',
+    });
+
+  const createResource = async () => {
+    const result = await scheduleResourceService.createResource({
+      name: newResource.name,
+      kind: newResource.kind,
+      capacity: Number(newResource.capacity),
+      equipment: newResource.equipment.split(',').map(item => item.trim()).filter(Boolean),
+      location: newResource.location || undefined,
+      provider: newResource.kind === 'virtual' ? newResource.provider : undefined,
+      accountEmail: newResource.accountEmail || undefined,
+    });
+
+    if (result.success) {
+      toast({ title: 'Saved', description: `${newResource.name} added` });
+      setNewResource(emptyResource);
+      await loadResources();
+    } else {
+      showError(result.error?.message);
+    }
+  };
+
+  const toggleActive = async (resource: ScheduleResource) => {
+    setProcessingId(resource.id);
+    const result = await scheduleResourceService.setResourceActive(resource.id, !resource.isActive);
+    if (result.success) {
+      await loadResources();
+    } else {
+      showError(result.error?.message);
+    }
+    setProcessingId(null);
+  };
+
+  const utilizationFor = (resourceId: string) =>
+    utilization.find(item => item.resourceId === resourceId);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center">
+          <DoorOpen className="h-6 w-6 mr-2" />
+          Rooms and Meeting Accounts
+        </h1>
+        <p className="text-muted-foreground">
+          The scheduler gives each class the smallest free room or meeting account that fits, so none is double-booked.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Resource</CardTitle>
+          <CardDescription>Virtual sessions get a join link from the account&apos;s meeting provider.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid gap-3 md:grid-cols-4">
+            <div>
+              <Label htmlFor="resource-name">Name</Label>
+              <Input
+                id="resource-name"
+                value={newResource.name}
+                onChange={(e) => setNewResource({ ...newResource, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select
+                value={newResource.kind}
+                onValueChange={(value) => setNewResource({ ...newResource, kind: value as ResourceKind })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="room">Room</SelectItem>
+                  <SelectItem value="virtual">Virtual meeting account</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="resource-capacity">Capacity</Label>
+              <Input
+                id="resource-capacity"
+                type="number"
+                min={1}
+                value={newResource.capacity}
+                onChange={(e) => setNewResource({ ...newResource, capacity: e.target.value })}
+              />
+            </div>
+            {newResource.kind === 'room' ? (
+              <div>
+                <Label htmlFor="resource-location">Campus</Label>
+                <Input
+                  id="resource-location"
+                  placeholder="Main Campus"
+                  value={newResource.location}
+                  onChange={(e) => setNewResource({ ...newResource, location: e.target.value })}
+                />
+              </div>
+            ) : (
+              <div>
+                <Label>Provider</Label>
+                <Select
+                  value={newResource.provider}
+                  onValueChange={(value) => setNewResource({ ...newResource, provider: value as MeetingProviderName })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PROVIDER_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <div className="grid gap-3 md:grid-cols-2">
+            {newResource.kind === 'room' ? (
+              <div>
+                <Label htmlFor="resource-equipment">Equipment</Label>
+                <Input
+                  id="resource-equipment"
+                  placeholder="projector, whiteboard"
+                  value={newResource.equipment}
+                  onChange={(e) => setNewResource({ ...newResource, equipment: e.target.value })}
+                />
+              </div>
+            ) : (
+              <div>
+                <Label htmlFor="resource-account">Account email</Label>
+                <Input
+                  id="resource-account"
+                  type="email"
+                  value={newResource.accountEmail}
+                  onChange={(e) => setNewResource({ ...newResource, accountEmail: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+          <Button onClick={createResource} disabled={!newResource.name || !(Number(newResource.capacity) > 0)}>
+            Add Resource
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Utilisation</CardTitle>
+              <CardDescription>Share of opening hours each resource is held for classes</CardDescription>
+            </div>
+            <Select value={String(rangeDays)} onValueChange={(value) => setRangeDays(Number(value))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGE_DAYS.map(days => (
+                  <SelectItem key={days} value={String(days)}>Next {days} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {resources.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rooms or meeting accounts registered yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Resource</TableHead>
+                  <TableHead>Capacity</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead>Sessions</TableHead>
+                  <TableHead className="w-48">Utilisation</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {resources.map(resource => {
+                  const usage = utilizationFor(resource.id);
+                  return (
+                    <TableRow key={resource.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2 font-medium">
+                          {resource.kind === 'virtual' ? <Video className="h-4 w-4" /> : <DoorOpen className="h-4 w-4" />}
+                          {resource.name}
+                          {!resource.isActive && <Badge variant="secondary">Inactive</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{resource.capacity}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {resource.kind === 'virtual'
+                          ? [PROVIDER_LABELS[resource.provider || 'local'], resource.accountEmail].filter(Boolean).join(' · ')
+                          : [resource.location, resource.equipment.join(', ')].filter(Boolean).join(' · ') || '—'}
+                      </TableCell>
+                      <TableCell>{usage?.sessions ?? 0}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Progress value={usage?.utilizationRate ?? 0} className="h-2" />
+                          <span className="text-sm w-10 text-right">{usage?.utilizationRate ?? 0}%</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={processingId === resource.id}
+                          onClick={() => toggleActive(resource)}
+                        >
+                          {resource.isActive ? 'Deactivate' : 'Activate'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
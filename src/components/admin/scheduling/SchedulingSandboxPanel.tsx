@@ -0,0 +1,338 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { FlaskConical, Send, Trash2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { schedulingSandboxService } from '@/lib/services/scheduling-sandbox-service';
+import type { SchedulingOverride, SchedulingRequest } from '@/types/scheduling';
+import type { SandboxSession, SchedulingSandbox } from '@/types/scheduling-sandbox';
+
+const formatSession = (session: SandboxSession) =>
+  `${new Date(session.startTime).toLocaleString()} (${session.durationMinutes} min)`;
+
+const formatHours = (value: number) => `${value > 0 ? '+' : ''}${value}h`;
+
+interface SchedulingSandboxPanelProps {
+  /** Request to preview; without one the sandbox starts from the live timetable */
+  request?: SchedulingRequest;
+}
+
+export function SchedulingSandboxPanel({ request }: SchedulingSandboxPanelProps) {
+  const [sandboxes, setSandboxes] = useState<SchedulingSandbox[]>([]);
+  const [sandbox, setSandbox] = useState<SchedulingSandbox | null>(null);
+  const [form, setForm] = useState({ name: '', windowStart: '', windowEnd: '' });
+  const [override, setOverride] = useState({ sessionKey: '', type: 'preferred_time', value: '' });
+  const [processing, setProcessing] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSandboxes();
+  }, []);
+
+  const loadSandboxes = async () => {
+    const result = await schedulingSandboxService.listSandboxes();
+    if (result.success && result.data) {
+      setSandboxes(result.data);
+    } else {
+      showError('Failed to load sandboxes');
+    }
+  };
+
+  const showError = (message?: string) =>
+    toast({
+      title: 'Error',
+      description: message || 'Request failed',
+      variant: 'destructive',
+    });
+
+  const createSandbox = async () => {
+    setProcessing(true);
+    const result = await schedulingSandboxService.createSandbox({
+      name: form.name,
+      windowStart: form.windowStart,
+      windowEnd: form.windowEnd,
+      request,
+    });
+    setProcessing(false);
+
+    if (result.success && result.data) {
+      setSandbox(result.data);
+      setForm({ name: '', windowStart: '', windowEnd: '' });
+      await loadSandboxes();
+    } else {
+      showError(result.error?.message);
+    }
+  };
+
+  const addOverride = async () => {
+    if (!sandbox || !override.sessionKey) return;
+    const parameters: Record<string, any> = { sessionKey: override.sessionKey };
+    if (override.type === 'preferred_time') parameters.startTime = new Date(override.value).toISOString();
+    if (override.type === 'preferred_teacher') parameters.teacherId = override.value;
+    if (override.type === 'class_size') parameters.maxStudents = Number(override.value);
+
+    const next: SchedulingOverride = {
+      type: override.type as SchedulingOverride['type'],
+      parameters,
+      reason: 'What-if preview',
+      priority: 'medium',
+      appliedBy: 'admin',
+      appliedAt: new Date().toISOString(),
+    };
+
+    setProcessing(true);
+    const result = await schedulingSandboxService.updateOverrides(sandbox.id, [...sandbox.overrides, next]);
+    setProcessing(false);
+
+    if (result.success && result.data) {
+      setSandbox(result.data);
+      setOverride({ ...override, value: '' });
+    } else {
+      showError(result.error?.message);
+    }
+  };
+
+  const publish = async () => {
+    if (!sandbox) return;
+    setProcessing(true);
+    const result = await schedulingSandboxService.publishSandbox(sandbox.id);
+    setProcessing(false);
+
+    if (result.success && result.data) {
+      toast({
+        title: 'Published',
+        description: `${result.data.movedSessions} moved, ${result.data.cancelledSessions} cancelled, ${result.data.createdSessions} new; ${result.data.notificationsSent} notifications sent`,
+      });
+      setSandbox(null);
+      await loadSandboxes();
+    } else {
+      showError(result.error?.message);
+    }
+  };
+
+  const discard = async () => {
+    if (!sandbox) return;
+    const result = await schedulingSandboxService.discardSandbox(sandbox.id);
+    if (result.success) {
+      toast({ title: 'Discarded', description: `${sandbox.name} was discarded; no bookings changed` });
+      setSandbox(null);
+      await loadSandboxes();
+    } else {
+      showError(result.error?.message);
+    }
+  };
+
+  const diff = sandbox?.diff;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            What-if Sandbox
+          </CardTitle>
+          <CardDescription>
+            Preview a schedule against a snapshot of live bookings before publishing it
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="sandbox-name">Name</Label>
+              <Input
+                id="sandbox-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Move Friday evening classes"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sandbox-start">From</Label>
+              <Input
+                id="sandbox-start"
+                type="date"
+                value={form.windowStart}
+                onChange={(e) => setForm({ ...form, windowStart: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sandbox-end">To</Label>
+              <Input
+                id="sandbox-end"
+                type="date"
+                value={form.windowEnd}
+                onChange={(e) => setForm({ ...form, windowEnd: e.target.value })}
+              />
+            </div>
+            <Button onClick={createSandbox} disabled={processing || !form.name || !form.windowStart || !form.windowEnd}>
+              Create Sandbox
+            </Button>
+          </div>
+
+          {sandboxes.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {sandboxes.map((item) => (
+                <Button
+                  key={item.id}
+                  size="sm"
+                  variant={sandbox?.id === item.id ? 'default' : 'outline'}
+                  onClick={() => setSandbox(item)}
+                >
+                  {item.name}
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {sandbox && diff && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{sandbox.name}</CardTitle>
+            <CardDescription>
+              Snapshot taken {new Date(sandbox.snapshotTakenAt).toLocaleString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{diff.moved.length} changed</Badge>
+              <Badge variant="destructive">{diff.cancelled.length} cancelled</Badge>
+              <Badge>{diff.created.length} new</Badge>
+              <Badge variant="outline">{diff.affectedStudentIds.length} students affected</Badge>
+              <Badge variant="outline">{diff.affectedTeacherIds.length} teachers affected</Badge>
+              <Badge variant="outline">Student hours {formatHours(diff.hourImpact.totalStudentHours)}</Badge>
+              <Badge variant="outline">Teacher hours {formatHours(diff.hourImpact.totalTeacherHours)}</Badge>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead>After</TableHead>
+                  <TableHead>Students</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.moved.map((item) => (
+                  <TableRow key={item.before.key}>
+                    <TableCell>
+                      <Badge variant="secondary">{item.changes.join(', ')}</Badge>
+                    </TableCell>
+                    <TableCell>{formatSession(item.before)}</TableCell>
+                    <TableCell>{formatSession(item.after)}</TableCell>
+                    <TableCell>
+                      {item.after.studentIds.length}
+                      {item.addedStudentIds.length > 0 && ` (+${item.addedStudentIds.length})`}
+                      {item.removedStudentIds.length > 0 && ` (-${item.removedStudentIds.length})`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {diff.cancelled.map((session) => (
+                  <TableRow key={session.key}>
+                    <TableCell><Badge variant="destructive">cancelled</Badge></TableCell>
+                    <TableCell>{formatSession(session)}</TableCell>
+                    <TableCell>-</TableCell>
+                    <TableCell>{session.studentIds.length}</TableCell>
+                  </TableRow>
+                ))}
+                {diff.created.map((session) => (
+                  <TableRow key={session.key}>
+                    <TableCell><Badge>new</Badge></TableCell>
+                    <TableCell>-</TableCell>
+                    <TableCell>{formatSession(session)}</TableCell>
+                    <TableCell>{session.studentIds.length}</TableCell>
+                  </TableRow>
+                ))}
+                {diff.moved.length + diff.cancelled.length + diff.created.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      No differences from the live timetable yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div className="space-y-2">
+                <Label>Session</Label>
+                <Select value={override.sessionKey} onValueChange={(value) => setOverride({ ...override, sessionKey: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a session" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sandbox.proposal.map((session) => (
+                      <SelectItem key={session.key} value={session.key}>
+                        {formatSession(session)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Override</Label>
+                <Select value={override.type} onValueChange={(value) => setOverride({ ...override, type: value, value: '' })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="preferred_time">Move to time</SelectItem>
+                    <SelectItem value="preferred_teacher">Change teacher</SelectItem>
+                    <SelectItem value="class_size">Limit class size</SelectItem>
+                    <SelectItem value="prevent_schedule">Cancel session</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="override-value">Value</Label>
+                <Input
+                  id="override-value"
+                  type={override.type === 'preferred_time' ? 'datetime-local' : 'text'}
+                  value={override.value}
+                  disabled={override.type === 'prevent_schedule'}
+                  onChange={(e) => setOverride({ ...override, value: e.target.value })}
+                  placeholder={override.type === 'preferred_teacher' ? 'Teacher ID' : ''}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={addOverride}
+                disabled={processing || !override.sessionKey || (override.type !== 'prevent_schedule' && !override.value)}
+              >
+                Apply Override
+              </Button>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={discard} disabled={processing}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Discard
+              </Button>
+              <Button onClick={publish} disabled={processing}>
+                <Send className="h-4 w-4 mr-2" />
+                Publish
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { UserX } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { teacherSubstitutionService } from '@/lib/services/teacher-substitution-service';
+import type { SubstitutionRequest, SubstitutionRequestStatus } from '@/types/substitution';
+
+const STATUS_VARIANTS: Record<SubstitutionRequestStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  searching: 'secondary',
+  offered: 'secondary',
+  filled: 'default',
+  unfilled: 'destructive',
+  cancelled: 'outline',
+};
+
+const OPEN_STATUSES: SubstitutionRequestStatus[] = ['searching', 'offered', 'unfilled'];
+
+const formatSession = (request: SubstitutionRequest) =>
+  `${new Date(request.startTime).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })} – ${new Date(request.endTime).toLocaleTimeString(undefined, { timeStyle: 'short' })}`;
+
+export function SubstitutionQueue() {
+  const [requests, setRequests] = useState<SubstitutionRequest[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadRequests();
+  }, [showAll]);
+
+  const loadRequests = async () => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const result = await teacherSubstitutionService.listRequests({
+      status: showAll ? undefined : OPEN_STATUSES,
+      from: today.toISOString(),
+    });
+
+    if (result.success && result.data) {
+      setRequests(result.data);
+    } else {
+      showError('Failed to load substitution requests');
+    }
+  };
+
+  const showError = (message?: string) =>
+    toast({
+      title: 'Error',
+      description: message || 'Request failed',
+      variant: 'destructive',
+    });
+
+  const retry = async (request: SubstitutionRequest) => {
+    setProcessingId(request.id);
+    const result = await teacherSubstitutionService.retryRequest(request.id);
+    if (result.success && result.data) {
+      toast({
+        title: result.data.status === 'offered' ? 'Offer sent' : 'Still no substitute',
+        description: result.data.status === 'offered'
+          ? `Offered to ${result.data.candidates[0]?.name || 'the best match'}`
+          : 'No qualified teacher is free at this time',
+      });
+      await loadRequests();
+    } else {
+      showError(result.error?.message);
+    }
+    setProcessingId(null);
+  };
+
+  const candidateName = (request: SubstitutionRequest, teacherId?: string) =>
+    request.candidates.find(candidate => candidate.teacherId === teacherId)?.name || '—';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center">
+          <UserX className="h-6 w-6 mr-2" />
+          Substitutions
+        </h1>
+        <p className="text-muted-foreground">
+          Sessions of absent teachers are offered to the best-matched free teachers in turn until one accepts.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Sessions Needing Cover</CardTitle>
+              <CardDescription>Unfilled sessions need a decision: search again or postpone the class.</CardDescription>
+            </div>
+            <Select value={showAll ? 'all' : 'open'} onValueChange={(value) => setShowAll(value === 'all')}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {requests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No sessions need cover.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Session</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Ranked substitutes</TableHead>
+                  <TableHead>Covered by</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map(request => (
+                  <TableRow key={request.id}>
+                    <TableCell className="font-medium">{request.className || 'Class'}</TableCell>
+                    <TableCell className="text-sm">{formatSession(request)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[request.status]}>{request.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {request.candidates.length === 0
+                        ? 'None qualified and free'
+                        : request.candidates
+                            .slice(0, 3)
+                            .map(candidate => `${candidate.name || candidate.teacherId} (${Math.round(candidate.score * 100)}%)`)
+                            .join(', ')}
+                    </TableCell>
+                    <TableCell>{candidateName(request, request.substituteTeacherId)}</TableCell>
+                    <TableCell className="text-right">
+                      {request.status === 'unfilled' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={processingId === request.id}
+                          onClick={() => retry(request)}
+                        >
+                          Search again
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,4 +4,9 @@ export { ManualOverrideInterface } from './ManualOverrideInterface';
 export { AIRecommendationSystem } from './AIRecommendationSystem';
 export { BulkSchedulingOperations } from './BulkSchedulingOperations';
 export { SchedulingAnalytics } from './SchedulingAnalytics';
-export { SchedulingDashboard } from './SchedulingDashboard';
\ No newline at end of file
+export { SchedulingDashboard } from './SchedulingDashboard';
+export { ClosureCalendarManagement } from './ClosureCalendarManagement';
+export { ClassSeriesManagement } from './ClassSeriesManagement';
+export { SchedulingSandboxPanel } from './SchedulingSandboxPanel';
+export { ResourceManagement } from './ResourceManagement';
+export { SubstitutionQueue } from './SubstitutionQueue';
@@ -0,0 +1,94 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CalendarPlus, Copy, RefreshCw } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { calendarFeedService, getCalendarFeedUrl } from '@/lib/services/calendar-feed-service';
+
+interface CalendarSubscriptionProps {
+  userId: string;
+}
+
+export function CalendarSubscription({ userId }: CalendarSubscriptionProps) {
+  const [feedUrl, setFeedUrl] = useState('');
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadToken();
+  }, [userId]);
+
+  const feedUrlFor = (token: string) => getCalendarFeedUrl(token, window.location.origin);
+
+  const loadToken = async () => {
+    setLoading(true);
+    const result = await calendarFeedService.getFeedToken(userId);
+    if (result.success && result.data) {
+      setFeedUrl(feedUrlFor(result.data.token));
+    }
+    setLoading(false);
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    toast({ title: 'Copied', description: 'Paste the link into your calendar app to subscribe' });
+  };
+
+  const handleReset = async () => {
+    const result = await calendarFeedService.rotateFeedToken(userId);
+    if (result.success && result.data) {
+      setFeedUrl(feedUrlFor(result.data.token));
+      toast({ title: 'Link reset', description: 'Calendars using the old link will stop updating' });
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error?.message || 'Failed to reset calendar link',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarPlus className="h-5 w-5 mr-2" />
+          Calendar Subscription
+        </CardTitle>
+        <CardDescription>
+          Add your classes, 1-on-1 sessions and make-up classes to Google Calendar, Outlook or Apple Calendar.
+          Keep this link private.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading calendar link...</p>
+        ) : feedUrl ? (
+          <>
+            <div className="flex gap-2">
+              <Input readOnly value={feedUrl} aria-label="Calendar feed URL" />
+              <Button variant="outline" onClick={handleCopy}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={feedUrl.replace(/^https?:/, 'webcal:')}>Open in calendar app</a>
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleReset}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Reset link
+              </Button>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Calendar link is unavailable right now.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
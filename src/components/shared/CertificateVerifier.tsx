@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ShieldCheck, ShieldX } from 'lucide-react';
+import type { CertificateVerification } from '@/types/certificate';
+
+interface CertificateVerifierProps {
+  /** Code from the link printed on the certificate */
+  code?: string;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, { dateStyle: 'long' });
+
+/**
+ * Public check of a certificate's verification code
+ */
+export function CertificateVerifier({ code: initialCode }: CertificateVerifierProps) {
+  const [code, setCode] = useState(initialCode || '');
+  const [certificate, setCertificate] = useState<CertificateVerification | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (initialCode) verify(initialCode);
+  }, [initialCode]);
+
+  const verify = async (value: string) => {
+    setBusy(true);
+    setError(null);
+    setCertificate(null);
+
+    try {
+      const response = await fetch(`/api/certificates/verify/${encodeURIComponent(value.trim())}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to verify the certificate');
+      }
+      setCertificate(result.data);
+    } catch (verifyError) {
+      setError((verifyError as Error).message);
+    }
+    setBusy(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (code.trim()) verify(code);
+        }}
+      >
+        <Input
+          placeholder="XXXX-XXXX-XXXX"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="font-mono uppercase"
+        />
+        <Button type="submit" disabled={busy || !code.trim()}>
+          Verify
+        </Button>
+      </form>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {certificate && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                {certificate.status === 'valid'
+                  ? <ShieldCheck className="h-5 w-5 text-green-600" />
+                  : <ShieldX className="h-5 w-5 text-red-600" />}
+                {certificate.title}
+              </CardTitle>
+              <Badge variant={certificate.status === 'valid' ? 'default' : 'destructive'}>
+                {certificate.status === 'valid' ? 'Valid' : 'Revoked'}
+              </Badge>
+            </div>
+            <CardDescription className="font-mono">{certificate.verificationCode}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <p><span className="text-muted-foreground">Issued to:</span> <span className="font-medium">{certificate.studentName}</span></p>
+            {certificate.courseTitle && (
+              <p><span className="text-muted-foreground">Course:</span> {certificate.courseTitle}</p>
+            )}
+            {certificate.periodStart && certificate.periodEnd && (
+              <p><span className="text-muted-foreground">Period:</span> {formatDate(certificate.periodStart)} – {formatDate(certificate.periodEnd)}</p>
+            )}
+            <p>
+              <span className="text-muted-foreground">Attendance:</span>{' '}
+              {certificate.attendanceRate !== undefined ? `${Math.round(certificate.attendanceRate * 100)}%` : '—'} · {certificate.hoursAttended} hours
+            </p>
+            {certificate.completedAt && (
+              <p><span className="text-muted-foreground">Completed:</span> {formatDate(certificate.completedAt)}</p>
+            )}
+            <p><span className="text-muted-foreground">Issued:</span> {formatDate(certificate.issuedAt)}</p>
+            {certificate.revokedAt && (
+              <p className="text-red-600">Revoked on {formatDate(certificate.revokedAt)}. This certificate is no longer valid.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Mail, Phone, CalendarPlus, Check } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { attendanceInterventionService } from '@/lib/services/attendance-intervention-service';
+import type {
+  CallOutcome,
+  InterventionCase,
+  InterventionStep,
+  InterventionStepType,
+} from '@/types/intervention';
+
+interface InterventionCaseCardProps {
+  interventionCase: InterventionCase;
+  onChanged: () => void;
+  /** Extra actions, e.g. reassigning or closing the case */
+  actions?: React.ReactNode;
+}
+
+const STEP_LABELS: Record<InterventionStepType, string> = {
+  email: 'Check-in email',
+  call: 'Phone call',
+  makeup_offer: 'Make-up class offer',
+};
+
+const STEP_ICONS: Record<InterventionStepType, React.ElementType> = {
+  email: Mail,
+  call: Phone,
+  makeup_offer: CalendarPlus,
+};
+
+const CALL_OUTCOMES: Record<CallOutcome, string> = {
+  reached: 'Reached',
+  voicemail: 'Left voicemail',
+  no_answer: 'No answer',
+};
+
+const percent = (rate?: number) => (rate === undefined ? '—' : `${Math.round(rate * 100)}%`);
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+/**
+ * Attendance since the case opened compared with the rate at opening
+ */
+export function InterventionProgress({ interventionCase }: { interventionCase: InterventionCase }) {
+  const { baselineRate, currentRate } = interventionCase;
+  const change = baselineRate !== undefined && currentRate !== undefined ? currentRate - baselineRate : undefined;
+
+  return (
+    <div className="text-sm">
+      <span className="text-muted-foreground">Attendance </span>
+      {percent(baselineRate)} → {percent(currentRate)}
+      {change !== undefined && (
+        <span className={change > 0 ? 'ml-2 text-green-600' : change < 0 ? 'ml-2 text-red-600' : 'ml-2 text-muted-foreground'}>
+          {change > 0 ? '+' : ''}{Math.round(change * 100)} pts
+        </span>
+      )}
+    </div>
+  );
+}
+
+export function InterventionCaseCard({ interventionCase, onChanged, actions }: InterventionCaseCardProps) {
+  const [notes, setNotes] = useState('');
+  const [callOutcome, setCallOutcome] = useState<CallOutcome | ''>('');
+  const [makeUpClassId, setMakeUpClassId] = useState('');
+  const [makeUpClasses, setMakeUpClasses] = useState<Array<{ id: string; className: string }> | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const nextStep = interventionCase.steps.find(step => step.status === 'pending');
+
+  const loadMakeUpClasses = async () => {
+    if (makeUpClasses) return;
+    const result = await attendanceInterventionService.getMakeUpClasses(interventionCase.id);
+    setMakeUpClasses(result.success && result.data ? result.data : []);
+  };
+
+  const complete = async (step: InterventionStep) => {
+    setBusy(true);
+    const result = await attendanceInterventionService.completeStep(step.id, {
+      notes: notes || undefined,
+      callOutcome: callOutcome || undefined,
+      makeUpClassId: makeUpClassId || undefined,
+    });
+
+    if (result.success) {
+      setNotes('');
+      setCallOutcome('');
+      setMakeUpClassId('');
+      onChanged();
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error?.message || 'Failed to record the step',
+        variant: 'destructive',
+      });
+    }
+    setBusy(false);
+  };
+
+  const skip = async (step: InterventionStep) => {
+    setBusy(true);
+    const result = await attendanceInterventionService.skipStep(step.id, notes || undefined);
+
+    if (result.success) {
+      setNotes('');
+      onChanged();
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error?.message || 'Failed to skip the step',
+        variant: 'destructive',
+      });
+    }
+    setBusy(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">{interventionCase.studentName || 'Student'}</CardTitle>
+            <CardDescription>
+              {interventionCase.className && `${interventionCase.className} · `}
+              Opened {formatDate(interventionCase.openedAt)}
+              {interventionCase.assigneeName && ` · ${interventionCase.assigneeName}`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant={interventionCase.riskLevel === 'high' ? 'destructive' : 'secondary'}>
+              {interventionCase.riskLevel} risk
+            </Badge>
+            <Badge variant="outline" className="capitalize">{interventionCase.status}</Badge>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="list-disc pl-5 text-sm text-gray-700">
+          {interventionCase.triggers.map(trigger => (
+            <li key={trigger.type}>{trigger.detail}</li>
+          ))}
+        </ul>
+
+        <InterventionProgress interventionCase={interventionCase} />
+        {interventionCase.followUpAt && interventionCase.status === 'monitoring' && (
+          <p className="text-sm text-muted-foreground">Outcome measured on {formatDate(interventionCase.followUpAt)}</p>
+        )}
+        {interventionCase.outcome && (
+          <p className="text-sm">
+            Outcome: <span className="font-medium capitalize">{interventionCase.outcome.replace('_', ' ')}</span>
+            {interventionCase.outcomeNotes && ` · ${interventionCase.outcomeNotes}`}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          {interventionCase.steps.map(step => {
+            const Icon = STEP_ICONS[step.type];
+            return (
+              <div key={step.id} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <Icon className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <div className="font-medium">{STEP_LABELS[step.type]}</div>
+                    <div className="text-gray-600">
+                      {step.status === 'pending'
+                        ? `Due ${formatDate(step.dueAt)}`
+                        : `${step.status === 'done' ? 'Done' : 'Skipped'}${step.completedAt ? ` ${formatDate(step.completedAt)}` : ''}`}
+                      {step.callOutcome && ` · ${CALL_OUTCOMES[step.callOutcome]}`}
+                      {step.notes && ` · ${step.notes}`}
+                    </div>
+                  </div>
+                </div>
+                {step.status === 'done' && <Check className="h-4 w-4 text-green-600" />}
+              </div>
+            );
+          })}
+        </div>
+
+        {nextStep && interventionCase.status === 'open' && (
+          <div className="space-y-3 rounded-lg bg-gray-50 p-3">
+            <div className="text-sm font-medium">Next: {STEP_LABELS[nextStep.type]}</div>
+            {nextStep.type === 'call' && (
+              <Select value={callOutcome} onValueChange={(value) => setCallOutcome(value as CallOutcome)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Call outcome" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CALL_OUTCOMES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {nextStep.type === 'makeup_offer' && (
+              <Select
+                value={makeUpClassId}
+                onValueChange={setMakeUpClassId}
+                onOpenChange={(open) => open && loadMakeUpClasses()}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Class to offer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(makeUpClasses || []).map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.className}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Textarea placeholder="Notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                disabled={busy || (nextStep.type === 'call' && !callOutcome) || (nextStep.type === 'makeup_offer' && !makeUpClassId)}
+                onClick={() => complete(nextStep)}
+              >
+                {nextStep.type === 'call' ? 'Log call' : nextStep.type === 'makeup_offer' ? 'Send offer' : 'Send email'}
+              </Button>
+              <Button size="sm" variant="outline" disabled={busy} onClick={() => skip(nextStep)}>
+                Skip
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {actions}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { logger } from '@/lib/services';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CheckCircle, Video } from 'lucide-react';
+import type { AttendanceSession, SessionRosterEntry } from '@/types/attendance';
+
+interface AttendanceCheckInProps {
+  sessionId: string;
+  /** Present when the student scanned the code shown in class */
+  scannedCode?: string;
+}
+
+type SessionSummary = Pick<AttendanceSession, 'id' | 'className' | 'startTime' | 'deliveryMode' | 'status'>;
+
+const STATUS_MESSAGES: Record<string, string> = {
+  present: "You're checked in. Enjoy the class!",
+  late: "You're checked in, marked late.",
+  absent: 'You checked in too long after the start and are marked absent. Talk to your teacher if this is wrong.',
+  excused: 'Your teacher has excused you from this class.',
+};
+
+async function postCheckIn(sessionId: string, body: Record<string, string>) {
+  const response = await fetch(`/api/attendance/sessions/${sessionId}/check-in`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to check in');
+  }
+
+  return result.data;
+}
+
+/**
+ * Student check-in for a class session: enter (or scan) the code shown in
+ * class, or join an online session
+ */
+export function AttendanceCheckIn({ sessionId, scannedCode }: AttendanceCheckInProps) {
+  const [session, setSession] = useState<SessionSummary | null>(null);
+  const [code, setCode] = useState(scannedCode || '');
+  const [attendance, setAttendance] = useState<SessionRosterEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSession();
+  }, [sessionId]);
+
+  const loadSession = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/attendance/sessions/${sessionId}/check-in`);
+      const result = await response.json();
+
+      if (result.success) {
+        setSession(result.data);
+        if (scannedCode && result.data.status === 'open') {
+          await checkIn(scannedCode, 'qr');
+        }
+      } else {
+        setError(result.error || 'This check-in link is not valid');
+      }
+    } catch (err) {
+      setError('Failed to load the class');
+      logger.error('Error loading check-in session:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const checkIn = async (value: string, method: 'qr' | 'code' = 'code') => {
+    setBusy(true);
+    setError(null);
+    try {
+      setAttendance(await postCheckIn(sessionId, { action: 'code', code: value, method }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check in');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const join = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { attendance: checkedIn, joinUrl } = await postCheckIn(sessionId, { action: 'join' });
+      setAttendance(checkedIn);
+      window.location.href = joinUrl;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to join the class');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{session?.className || 'Class check-in'}</CardTitle>
+        {session && (
+          <CardDescription>
+            {new Date(session.startTime).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {attendance?.status ? (
+          <p className="flex items-center gap-2 text-green-700">
+            <CheckCircle className="h-5 w-5" />
+            {STATUS_MESSAGES[attendance.status]}
+          </p>
+        ) : session?.status === 'finalized' ? (
+          <p className="text-gray-600">Check-in for this class has closed.</p>
+        ) : session?.deliveryMode === 'online' ? (
+          <Button className="w-full" disabled={busy} onClick={join}>
+            <Video className="h-4 w-4 mr-2" />
+            Join class
+          </Button>
+        ) : session && (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              checkIn(code);
+            }}
+          >
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="Code on screen"
+              maxLength={6}
+              className="font-mono tracking-widest"
+              autoFocus
+            />
+            <Button type="submit" disabled={busy || code.trim().length === 0}>
+              Check in
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
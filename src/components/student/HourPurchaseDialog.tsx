@@ -19,6 +19,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
 import { 
   CreditCard, 
   Clock, 
@@ -27,10 +28,13 @@ import {
   Calendar,
   DollarSign,
   CheckCircle,
-  AlertTriangle
+  AlertTriangle,
+  Tag
 } from 'lucide-react';
 import { hourTrackingService } from '@/lib/services';
+import { hourPricingService } from '@/lib/services/hour-pricing-service';
 import { HourPurchaseForm, HourPackage } from '@/types/hour-management';
+import type { HourPriceQuote } from '@/types/hours';
 
 interface HourPurchaseDialogProps {
   open: boolean;
@@ -103,6 +107,11 @@ export function HourPurchaseDialog({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [promoCodeInput, setPromoCodeInput] = useState('');
+  const [appliedPromoCode, setAppliedPromoCode] = useState<string | undefined>();
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [useReferralCredits, setUseReferralCredits] = useState(false);
+  const [quote, setQuote] = useState<HourPriceQuote | null>(null);
 
   useEffect(() => {
     if (open) {
@@ -116,9 +125,67 @@ export function HourPurchaseDialog({
       });
       setError(null);
       setSuccess(false);
+      setPromoCodeInput('');
+      setAppliedPromoCode(undefined);
+      setPromoError(null);
+      setUseReferralCredits(false);
+      setQuote(null);
     }
   }, [open, studentId]);
 
+  // Re-price whenever the hours, total or discounts change
+  useEffect(() => {
+    if (!purchaseData.hours_purchased || !purchaseData.total_amount) {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchQuote(appliedPromoCode).then(result => {
+      if (cancelled) return;
+      if (result.success && result.data) {
+        setQuote(result.data);
+      } else {
+        // The applied code stopped applying (e.g. fewer hours than its minimum)
+        setPromoError(result.error?.message || 'Promo code could not be applied');
+        setAppliedPromoCode(undefined);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [purchaseData.hours_purchased, purchaseData.total_amount, appliedPromoCode, useReferralCredits]);
+
+  const fetchQuote = (promoCode?: string) => {
+    return hourPricingService.getQuote({
+      studentId,
+      hours: purchaseData.hours_purchased || 0,
+      listPrice: purchaseData.total_amount || 0,
+      promoCode,
+      applyReferralCredits: useReferralCredits
+    });
+  };
+
+  const handleApplyPromoCode = async () => {
+    if (!promoCodeInput.trim()) return;
+
+    const result = await fetchQuote(promoCodeInput);
+    if (result.success && result.data) {
+      setPromoError(null);
+      setAppliedPromoCode(promoCodeInput.trim());
+      setQuote(result.data);
+    } else {
+      setPromoError(result.error?.message || 'Promo code could not be applied');
+    }
+  };
+
+  const handleRemovePromoCode = () => {
+    setAppliedPromoCode(undefined);
+    setPromoCodeInput('');
+    setPromoError(null);
+  };
+
   const handlePackageSelect = (pkg: HourPackage) => {
     setSelectedPackage(pkg);
     setCustomPurchase(false);
@@ -185,9 +252,11 @@ export function HourPurchaseDialog({
       setLoading(true);
       setError(null);
       
-      const response = await hourTrackingService.purchaseHours(
-        purchaseData as HourPurchaseForm
-      );
+      const response = await hourTrackingService.purchaseHours({
+        ...(purchaseData as HourPurchaseForm),
+        promo_code: appliedPromoCode,
+        apply_referral_credits: useReferralCredits
+      });
       
       if (response.success) {
         setSuccess(true);
@@ -228,7 +297,7 @@ export function HourPurchaseDialog({
             <div className="bg-green-50 rounded-lg p-4 mb-4">
               <p className="text-sm text-green-800">
                 <strong>{purchaseData.hours_purchased} hours</strong> purchased for{' '}
-                <strong>{formatCurrency(purchaseData.total_amount || 0)}</strong>
+                <strong>{formatCurrency(quote?.finalPrice ?? purchaseData.total_amount ?? 0)}</strong>
               </p>
             </div>
           </div>
@@ -444,6 +513,40 @@ export function HourPurchaseDialog({
                   rows={3}
                 />
               </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo_code">Promo Code (Optional)</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="promo_code"
+                      value={promoCodeInput}
+                      onChange={(e) => setPromoCodeInput(e.target.value)}
+                      placeholder="Enter code"
+                      disabled={!!appliedPromoCode}
+                    />
+                    {appliedPromoCode ? (
+                      <Button variant="outline" onClick={handleRemovePromoCode}>
+                        Remove
+                      </Button>
+                    ) : (
+                      <Button variant="outline" onClick={handleApplyPromoCode} disabled={!promoCodeInput.trim()}>
+                        Apply
+                      </Button>
+                    )}
+                  </div>
+                  {promoError && <p className="text-sm text-red-600">{promoError}</p>}
+                </div>
+
+                <div className="flex items-center space-x-2 pt-8">
+                  <Checkbox
+                    id="use_referral_credits"
+                    checked={useReferralCredits}
+                    onCheckedChange={(checked) => setUseReferralCredits(checked === true)}
+                  />
+                  <Label htmlFor="use_referral_credits">Use my referral credit</Label>
+                </div>
+              </div>
             </div>
           )}
 
@@ -466,9 +569,25 @@ export function HourPurchaseDialog({
                   <span>Price per hour:</span>
                   <span>{formatCurrency(purchaseData.price_per_hour || 0)}</span>
                 </div>
+                {quote?.discounts.map((discount) => (
+                  <div key={`${discount.type}-${discount.sourceId}`} className="flex justify-between text-green-700">
+                    <span className="flex items-center">
+                      <Tag className="h-4 w-4 mr-1" />
+                      {discount.description}
+                    </span>
+                    <span>-{formatCurrency(discount.amount)}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between text-lg font-bold text-blue-900 pt-2 border-t">
                   <span>Total:</span>
-                  <span>{formatCurrency(purchaseData.total_amount || 0)}</span>
+                  <span>
+                    {quote && quote.totalDiscount > 0 && (
+                      <span className="text-sm font-normal text-gray-500 line-through mr-2">
+                        {formatCurrency(quote.listPrice)}
+                      </span>
+                    )}
+                    {formatCurrency(quote?.finalPrice ?? purchaseData.total_amount ?? 0)}
+                  </span>
                 </div>
                 {purchaseData.expiration_date && (
                   <div className="flex justify-between text-sm text-gray-600 pt-1">
@@ -25,6 +25,7 @@ import { DurationSelector } from './DurationSelector';
 import { LearningGoalsForm } from './LearningGoalsForm';
 import { BookingRecommendations } from './BookingRecommendations';
 import { oneOnOneBookingService } from '@/lib/services/one-on-one-booking-service';
+import { formatInTimeZone, getBrowserTimeZone, getSlotStart, resolveTimeZone } from '@/lib/utils/timezone';
 import type { 
   OneOnOneBookingRequest,
   OneOnOneBookingResult,
@@ -40,6 +41,8 @@ interface OneOnOneBookingProps {
   courseId: string;
   onBookingComplete?: (result: OneOnOneBookingResult) => void;
   onBookingCancel?: () => void;
+  /** Student's IANA time zone; defaults to the browser's */
+  timeZone?: string;
 }
 
 type BookingStep = 'goals' | 'duration' | 'teachers' | 'schedule' | 'confirmation';
@@ -48,8 +51,10 @@ export function OneOnOneBooking({
   studentId, 
   courseId, 
   onBookingComplete, 
-  onBookingCancel 
+  onBookingCancel,
+  timeZone
 }: OneOnOneBookingProps) {
+  const studentTimeZone = resolveTimeZone(timeZone, getBrowserTimeZone());
   const [currentStep, setCurrentStep] = useState<BookingStep>('goals');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -84,6 +89,7 @@ export function OneOnOneBooking({
         studentId,
         courseId,
         duration: selectedDuration,
+        timeZone: studentTimeZone,
         matchingCriteria: {
           studentId,
           preferredTimeSlots: [],
@@ -178,6 +184,7 @@ export function OneOnOneBooking({
         studentId,
         courseId,
         duration: selectedDuration,
+        timeZone: studentTimeZone,
         matchingCriteria: {
           studentId,
           preferredTimeSlots: selectedTimeSlots,
@@ -307,6 +314,7 @@ export function OneOnOneBooking({
         return (
           <div className="space-y-6">
             <h3 className="text-lg font-semibold">Select Your Preferred Time</h3>
+            <p className="text-sm text-muted-foreground">Times shown in {studentTimeZone}</p>
             {/* Time slot selection component would go here */}
             <div className="flex justify-between">
               <Button variant="outline" onClick={() => handleStepNavigation('teachers')}>
@@ -344,6 +352,16 @@ export function OneOnOneBooking({
                       {learningGoals?.primaryObjectives.slice(0, 2).join(', ')}
                     </p>
                   </div>
+                  {selectedTimeSlots.length > 0 && (
+                    <div className="col-span-2">
+                      <span className="text-sm text-muted-foreground">Preferred Times ({studentTimeZone})</span>
+                      {selectedTimeSlots.map(slot => (
+                        <p key={slot.id} className="font-medium">
+                          {formatInTimeZone(getSlotStart(slot), studentTimeZone)}
+                        </p>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
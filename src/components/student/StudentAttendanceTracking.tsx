@@ -368,9 +368,30 @@ export function StudentAttendanceTracking({ studentId }: StudentAttendanceTracki
     window.print();
   };
 
-  // Handle certificate generation
-  const handleGenerateCertificate = () => {
-    toast.success('Attendance certificate generated');
+  // Issue an attendance letter for the selected period and download it
+  const handleGenerateCertificate = async () => {
+    try {
+      const response = await fetch('/api/certificates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          certificateType: 'attendance',
+          periodStart: format(dateRange.start, 'yyyy-MM-dd'),
+          periodEnd: format(dateRange.end, 'yyyy-MM-dd'),
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to generate certificate');
+      }
+
+      window.open(`/api/certificates/${result.data.id}?format=pdf`, '_blank');
+      toast.success('Attendance certificate generated');
+    } catch (error) {
+      logger.error('Error generating certificate:', error);
+      toast.error((error as Error).message);
+    }
   };
 
   const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
@@ -280,6 +280,7 @@ export function StudentClassBooking({
         max_students: 6,
         price_per_student: 45.00,
         currency: 'USD',
+        timezone: 'UTC',
         teacher_id: 'teacher1',
         is_active: true,
         created_at: new Date().toISOString(),
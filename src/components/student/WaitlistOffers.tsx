@@ -0,0 +1,217 @@
+'use client';
+
+import { logger } from '@/lib/services';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CheckCircle, Clock, XCircle } from 'lucide-react';
+import { waitlistOfferService } from '@/lib/services/waitlist-offer-service';
+import type { WaitlistOffer, WaitlistOfferAction } from '@/types/waitlist';
+
+interface WaitlistOffersProps {
+  studentId: string;
+  onResponded?: (offer: WaitlistOffer) => void;
+}
+
+interface WaitlistOfferResponseProps {
+  token: string;
+}
+
+const formatDeadline = (expiresAt: string) =>
+  new Date(expiresAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+async function postOfferResponse(token: string, action: WaitlistOfferAction): Promise<WaitlistOffer> {
+  const response = await fetch(`/api/waitlist/offers/${token}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action })
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to record your response');
+  }
+
+  return result.data;
+}
+
+function OfferActions({
+  busy,
+  onRespond
+}: {
+  busy: boolean;
+  onRespond: (action: WaitlistOfferAction) => void;
+}) {
+  return (
+    <div className="flex gap-2">
+      <Button size="sm" disabled={busy} onClick={() => onRespond('accept')}>
+        <CheckCircle className="h-4 w-4 mr-2" />
+        Accept seat
+      </Button>
+      <Button size="sm" variant="outline" disabled={busy} onClick={() => onRespond('decline')}>
+        <XCircle className="h-4 w-4 mr-2" />
+        Decline
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Open seat offers on the student dashboard
+ */
+export function WaitlistOffers({ studentId, onResponded }: WaitlistOffersProps) {
+  const [offers, setOffers] = useState<WaitlistOffer[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadOffers();
+  }, [studentId]);
+
+  const loadOffers = async () => {
+    const response = await waitlistOfferService.getStudentOffers(studentId);
+    if (response.success && response.data) {
+      setOffers(response.data);
+    } else {
+      logger.error('Error loading waitlist offers:', response.error);
+    }
+  };
+
+  const handleRespond = async (offer: WaitlistOffer, action: WaitlistOfferAction) => {
+    setBusyId(offer.id);
+    setError(null);
+    try {
+      const updated = await postOfferResponse(offer.token, action);
+      setOffers(current => current.filter(item => item.id !== offer.id));
+      onResponded?.(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record your response');
+      await loadOffers();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (offers.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Seats Offered to You
+        </CardTitle>
+        <CardDescription>
+          A seat is being held for you. Accept before the deadline or it passes to the next student.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {offers.map(offer => (
+          <div key={offer.id} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+            <div>
+              <div className="font-medium">{offer.className || 'Class'}</div>
+              <div className="text-sm text-gray-600">
+                Respond by {formatDeadline(offer.expiresAt)} · {offer.reservedHours} hour(s) held
+              </div>
+            </div>
+            <OfferActions
+              busy={busyId === offer.id}
+              onRespond={action => handleRespond(offer, action)}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Single offer opened from the link in the offer email
+ */
+export function WaitlistOfferResponse({ token }: WaitlistOfferResponseProps) {
+  const [offer, setOffer] = useState<WaitlistOffer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadOffer();
+  }, [token]);
+
+  const loadOffer = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/waitlist/offers/${token}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setOffer(result.data);
+      } else {
+        setError(result.error || 'This offer link is not valid');
+      }
+    } catch (err) {
+      setError('Failed to load the offer');
+      logger.error('Error loading waitlist offer:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRespond = async (action: WaitlistOfferAction) => {
+    setBusy(true);
+    setError(null);
+    try {
+      setOffer(await postOfferResponse(token, action));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record your response');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{offer?.className || 'Waitlist offer'}</CardTitle>
+        {offer?.status === 'pending' && (
+          <CardDescription>
+            A seat has opened up and is held for you until {formatDeadline(offer.expiresAt)}.
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {offer?.status === 'pending' && (
+          <OfferActions busy={busy} onRespond={handleRespond} />
+        )}
+        {offer?.status === 'accepted' && (
+          <p className="text-green-700">You're enrolled. See you in class!</p>
+        )}
+        {offer && ['declined', 'expired', 'cancelled'].includes(offer.status) && (
+          <p className="text-gray-600">This offer is {offer.status}; the seat has been passed on.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import { logger } from '@/lib/services';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { MessageSquare, Star } from 'lucide-react';
+import { feedbackPromptService, getFeedbackRatingUrl } from '@/lib/services/feedback-prompt-service';
+import type { FeedbackPromptResponseRequest, FeedbackPromptSummary } from '@/types/feedback';
+
+interface PendingFeedbackPromptsProps {
+  studentId: string;
+}
+
+interface FeedbackPromptResponseProps {
+  token: string;
+  /** Rating chosen from the email link, recorded on load */
+  initialRating?: number;
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+const formatClassDate = (date?: string) =>
+  date ? new Date(date).toLocaleDateString(undefined, { dateStyle: 'medium' }) : undefined;
+
+async function postPromptResponse(token: string, request: FeedbackPromptResponseRequest): Promise<FeedbackPromptSummary> {
+  const response = await fetch(`/api/feedback/prompts/${token}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to record your feedback');
+  }
+
+  return result.data;
+}
+
+function StarRating({
+  value,
+  disabled,
+  onChange
+}: {
+  value?: number;
+  disabled?: boolean;
+  onChange: (rating: number) => void;
+}) {
+  return (
+    <div className="flex gap-1">
+      {RATINGS.map(rating => (
+        <button
+          key={rating}
+          type="button"
+          disabled={disabled}
+          aria-label={`${rating} star${rating > 1 ? 's' : ''}`}
+          onClick={() => onChange(rating)}
+        >
+          <Star
+            className={`h-7 w-7 ${value && rating <= value ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Classes awaiting a rating on the student dashboard
+ */
+export function PendingFeedbackPrompts({ studentId }: PendingFeedbackPromptsProps) {
+  const [prompts, setPrompts] = useState<FeedbackPromptSummary[]>([]);
+
+  useEffect(() => {
+    loadPrompts();
+  }, [studentId]);
+
+  const loadPrompts = async () => {
+    const response = await feedbackPromptService.listPendingPrompts(studentId);
+    if (response.success && response.data) {
+      setPrompts(response.data);
+    } else {
+      logger.error('Error loading feedback prompts:', response.error);
+    }
+  };
+
+  if (prompts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          How Were Your Classes?
+        </CardTitle>
+        <CardDescription>
+          Rate a recent class in one click. Your teachers read every response.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {prompts.map(prompt => (
+          <div key={prompt.token} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+            <div>
+              <div className="font-medium">{prompt.class_name || 'Class'}</div>
+              <div className="text-sm text-gray-600">
+                {[prompt.teacher_name, formatClassDate(prompt.class_date)].filter(Boolean).join(' · ')}
+              </div>
+            </div>
+            <StarRating
+              onChange={rating => window.location.assign(getFeedbackRatingUrl(prompt.token, rating))}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Rating page opened from a prompt email or notification. A rating in the
+ * link is saved straight away; comments can be added after.
+ */
+export function FeedbackPromptResponse({ token, initialRating }: FeedbackPromptResponseProps) {
+  const [prompt, setPrompt] = useState<FeedbackPromptSummary | null>(null);
+  const [rating, setRating] = useState<number | undefined>(undefined);
+  const [positiveFeedback, setPositiveFeedback] = useState('');
+  const [improvementSuggestions, setImprovementSuggestions] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [commentsSent, setCommentsSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPrompt();
+  }, [token]);
+
+  const loadPrompt = async () => {
+    try {
+      setLoading(true);
+      if (initialRating) {
+        try {
+          const saved = await postPromptResponse(token, { rating: initialRating });
+          setPrompt(saved);
+          setRating(saved.rating);
+          return;
+        } catch (err) {
+          // Show why the rating wasn't saved alongside the prompt's current state
+          setError(err instanceof Error ? err.message : 'Failed to record your feedback');
+        }
+      }
+
+      const response = await fetch(`/api/feedback/prompts/${token}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setPrompt(result.data);
+        setRating(result.data.rating);
+      } else {
+        setError(result.error || 'This feedback link is not valid');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the feedback prompt');
+      logger.error('Error loading feedback prompt:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRate = async (value: number) => {
+    setBusy(true);
+    setError(null);
+    try {
+      setPrompt(await postPromptResponse(token, { rating: value }));
+      setRating(value);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record your feedback');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSendComments = async () => {
+    if (!rating) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setPrompt(await postPromptResponse(token, {
+        rating,
+        positive_feedback: positiveFeedback,
+        improvement_suggestions: improvementSuggestions
+      }));
+      setCommentsSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record your feedback');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const open = prompt?.status === 'sent' || prompt?.status === 'responded';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{prompt?.class_name || 'Class feedback'}</CardTitle>
+        {prompt && (
+          <CardDescription>
+            {[prompt.teacher_name, formatClassDate(prompt.class_date)].filter(Boolean).join(' · ')}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {prompt?.status === 'expired' && (
+          <p className="text-gray-600">This feedback link has expired.</p>
+        )}
+        {open && (
+          <>
+            <div className="space-y-2">
+              <Label>How would you rate this class?</Label>
+              <StarRating value={rating} disabled={busy} onChange={handleRate} />
+              {prompt?.status === 'responded' && (
+                <p className="text-sm text-green-700">Thanks, your rating has been saved.</p>
+              )}
+            </div>
+            {prompt?.status === 'responded' && !commentsSent && (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="positive-feedback">What went well? (optional)</Label>
+                  <Textarea
+                    id="positive-feedback"
+                    value={positiveFeedback}
+                    onChange={event => setPositiveFeedback(event.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="improvement-suggestions">What could be better? (optional)</Label>
+                  <Textarea
+                    id="improvement-suggestions"
+                    value={improvementSuggestions}
+                    onChange={event => setImprovementSuggestions(event.target.value)}
+                  />
+                </div>
+                <Button
+                  disabled={busy || (!positiveFeedback.trim() && !improvementSuggestions.trim())}
+                  onClick={handleSendComments}
+                >
+                  Send comments
+                </Button>
+              </div>
+            )}
+            {commentsSent && (
+              <p className="text-sm text-green-700">Thanks for the extra detail.</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
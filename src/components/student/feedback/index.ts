@@ -1,2 +1,3 @@
 export { default as StudentFeedbackForm } from './StudentFeedbackForm';
-export { default as FeedbackHistoryList } from './FeedbackHistoryList';
\ No newline at end of file
+export { default as FeedbackHistoryList } from './FeedbackHistoryList';
+export { PendingFeedbackPrompts, FeedbackPromptResponse } from './FeedbackPrompts';
@@ -0,0 +1,304 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowRightLeft, FileText, Users } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { familyAccountService } from '@/lib/services/family-account-service';
+import { getCurrentMonth } from '@/lib/services/corporate-account-service';
+import type { FamilyAccount, FamilyMember, FamilyMonthlyStatement } from '@/types/hours';
+
+const formatCurrency = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+interface FamilyHourSharingProps {
+  guardianId: string;
+  onTransferComplete?: () => void;
+}
+
+export function FamilyHourSharing({ guardianId, onTransferComplete }: FamilyHourSharingProps) {
+  const [family, setFamily] = useState<FamilyAccount | null>(null);
+  const [members, setMembers] = useState<FamilyMember[]>([]);
+  const [statement, setStatement] = useState<FamilyMonthlyStatement | null>(null);
+  const [month, setMonth] = useState(getCurrentMonth());
+  const [loading, setLoading] = useState(true);
+
+  const [fromProfileId, setFromProfileId] = useState('');
+  const [toProfileId, setToProfileId] = useState('');
+  const [hours, setHours] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadFamily();
+  }, [guardianId]);
+
+  useEffect(() => {
+    if (family) loadStatement(family.id);
+  }, [family?.id, month]);
+
+  const loadFamily = async () => {
+    setLoading(true);
+    const result = await familyAccountService.getFamiliesForGuardian(guardianId);
+    const current = result.success && result.data ? result.data[0] || null : null;
+    setFamily(current);
+
+    if (current) {
+      const membersResult = await familyAccountService.getMembers(current.id);
+      if (membersResult.success && membersResult.data) {
+        setMembers(membersResult.data.filter(member => member.status === 'active'));
+      }
+    }
+    setLoading(false);
+  };
+
+  const loadStatement = async (familyId: string) => {
+    const result = await familyAccountService.getMonthlyStatement(familyId, month);
+    if (result.success && result.data) setStatement(result.data);
+  };
+
+  const submitTransfer = async () => {
+    if (!family) return;
+
+    setSaving(true);
+    const result = await familyAccountService.transferHours({
+      familyAccountId: family.id,
+      fromProfileId,
+      toProfileId,
+      hours: Number(hours),
+      reason
+    });
+    setSaving(false);
+
+    if (result.success) {
+      toast({ title: 'Hours moved', description: `${hours} hours moved within ${family.name}` });
+      setHours('');
+      setReason('');
+      await loadFamily();
+      onTransferComplete?.();
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error?.message || 'Failed to move hours',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading family...</p>;
+  }
+
+  if (!family) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-sm text-muted-foreground">
+          You are not a guardian of a family account. Contact us to link your children&apos;s accounts.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // The wallet may also be listed as a guardian; show it once
+  const holders = [
+    { profileId: family.walletProfileId, label: 'Family wallet', balance: family.walletBalance ?? 0 },
+    ...members
+      .filter(member => member.profileId !== family.walletProfileId)
+      .map(member => ({
+        profileId: member.profileId,
+        label: member.profileName || member.profileId,
+        balance: member.hoursBalance ?? 0
+      }))
+  ];
+  const remainingCap = family.monthlyTransferCap !== undefined && statement
+    ? Math.max(family.monthlyTransferCap - statement.hoursTransferred, 0)
+    : undefined;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Users className="h-5 w-5 mr-2" />
+            {family.name}
+          </CardTitle>
+          <CardDescription>Hours held by the family wallet and each member</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Holder</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Hours</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {holders.map(holder => {
+                const member = members.find(m => m.profileId === holder.profileId);
+                return (
+                  <TableRow key={holder.profileId}>
+                    <TableCell className="font-medium">{holder.label}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">
+                        {holder.profileId === family.walletProfileId ? 'Wallet' : member?.relationship || member?.role}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{holder.balance}h</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ArrowRightLeft className="h-5 w-5 mr-2" />
+            Move Hours
+          </CardTitle>
+          <CardDescription>
+            {remainingCap !== undefined
+              ? `${remainingCap} of ${family.monthlyTransferCap} hours can still be moved this month`
+              : 'Move hours between the wallet and your children'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label>From</Label>
+              <Select value={fromProfileId} onValueChange={setFromProfileId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select holder" />
+                </SelectTrigger>
+                <SelectContent>
+                  {holders.map(holder => (
+                    <SelectItem key={holder.profileId} value={holder.profileId}>
+                      {holder.label} ({holder.balance}h)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>To</Label>
+              <Select value={toProfileId} onValueChange={setToProfileId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select holder" />
+                </SelectTrigger>
+                <SelectContent>
+                  {holders.filter(holder => holder.profileId !== fromProfileId).map(holder => (
+                    <SelectItem key={holder.profileId} value={holder.profileId}>
+                      {holder.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="family-transfer-hours">Hours</Label>
+              <Input
+                id="family-transfer-hours"
+                type="number"
+                min={1}
+                value={hours}
+                onChange={(e) => setHours(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="family-transfer-reason">Reason</Label>
+            <Textarea id="family-transfer-reason" value={reason} onChange={(e) => setReason(e.target.value)} rows={2} />
+          </div>
+          <Button
+            onClick={submitTransfer}
+            disabled={saving || !fromProfileId || !toProfileId || !hours || !reason.trim()}
+          >
+            Move Hours
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <FileText className="h-5 w-5 mr-2" />
+              Family Statement
+            </CardTitle>
+            <Input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className="w-40" />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {statement && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Purchased</div>
+                  <div className="font-medium">{statement.hoursPurchased}h</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Spent</div>
+                  <div className="font-medium">{formatCurrency(statement.amountSpent, statement.currency)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Moved</div>
+                  <div className="font-medium">{statement.hoursTransferred}h</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Used in class</div>
+                  <div className="font-medium">{statement.hoursUsed}h</div>
+                </div>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Holder</TableHead>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Used</TableHead>
+                    <TableHead>Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statement.members.map(line => (
+                    <TableRow key={line.profileId}>
+                      <TableCell>{line.role === 'wallet' ? 'Family wallet' : line.profileName || line.profileId}</TableCell>
+                      <TableCell>{line.hoursReceived}h</TableCell>
+                      <TableCell>{line.hoursSent}h</TableCell>
+                      <TableCell>{line.hoursUsed}h</TableCell>
+                      <TableCell>{line.closingBalance}h</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
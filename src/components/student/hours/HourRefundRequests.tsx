@@ -0,0 +1,267 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Receipt, RotateCcw } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { hourRefundService } from '@/lib/services/hour-refund-service';
+import type { HourRefundQuote, HourRefundRequest } from '@/types/hours';
+import { HOUR_REFUND_STATUS_LABELS } from '@/types/hours';
+
+const formatCurrency = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+interface HourRefundRequestsProps {
+  studentId: string;
+  onRefundChange?: () => void;
+}
+
+export function HourRefundRequests({ studentId, onRefundChange }: HourRefundRequestsProps) {
+  const [quotes, setQuotes] = useState<HourRefundQuote[]>([]);
+  const [requests, setRequests] = useState<HourRefundRequest[]>([]);
+  const [selected, setSelected] = useState<HourRefundQuote | null>(null);
+  const [hours, setHours] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadRefunds();
+  }, [studentId]);
+
+  const loadRefunds = async () => {
+    const [quoteResult, requestResult] = await Promise.all([
+      hourRefundService.getRefundQuotes(studentId),
+      hourRefundService.getStudentRefundRequests(studentId)
+    ]);
+
+    if (quoteResult.success && quoteResult.data) setQuotes(quoteResult.data);
+    if (requestResult.success && requestResult.data) setRequests(requestResult.data);
+  };
+
+  const openRequest = (quote: HourRefundQuote) => {
+    setSelected(quote);
+    setHours(String(quote.refundableHours));
+    setReason('');
+  };
+
+  const submitRequest = async () => {
+    if (!selected) return;
+
+    setSaving(true);
+    const result = await hourRefundService.requestRefund({
+      studentId,
+      purchaseId: selected.purchaseId,
+      hours: Number(hours),
+      reason
+    });
+    setSaving(false);
+
+    if (result.success) {
+      toast({ title: 'Requested', description: 'Your refund request has been sent for review' });
+      setSelected(null);
+      await loadRefunds();
+      onRefundChange?.();
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error?.message || 'Failed to submit refund request',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const cancelRequest = async (request: HourRefundRequest) => {
+    const result = await hourRefundService.cancelRefundRequest(request.id, studentId);
+    if (result.success) {
+      toast({ title: 'Cancelled', description: 'Refund request withdrawn' });
+      await loadRefunds();
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error?.message || 'Failed to cancel refund request',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const pendingPurchaseIds = new Set(
+    requests.filter(r => ['pending', 'processing', 'payment_failed'].includes(r.status)).map(r => r.purchaseId)
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <RotateCcw className="h-5 w-5 mr-2" />
+            Refund Unused Hours
+          </CardTitle>
+          <CardDescription>
+            Unused paid hours are refunded at the price you paid per hour, less any admin fee
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {quotes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You have no unused hours to refund</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Package</TableHead>
+                  <TableHead>Unused</TableHead>
+                  <TableHead>Refundable</TableHead>
+                  <TableHead>Estimated Refund</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {quotes.map(quote => (
+                  <TableRow key={quote.purchaseId}>
+                    <TableCell>
+                      <div className="font-medium">{quote.packageName || 'Hour package'}</div>
+                      {quote.refundDeadline && (
+                        <div className="text-xs text-muted-foreground">
+                          Refundable until {formatDate(quote.refundDeadline)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{quote.hoursRemaining}h</TableCell>
+                    <TableCell>
+                      {quote.refundableHours}h
+                      {quote.bonusHoursExcluded > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {quote.bonusHoursExcluded}h bonus not refundable
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {quote.eligible ? (
+                        <>
+                          <div className="font-medium">{formatCurrency(quote.refundAmount, quote.currency)}</div>
+                          {quote.adminFee > 0 && (
+                            <div className="text-xs text-muted-foreground">
+                              after {formatCurrency(quote.adminFee, quote.currency)} fee
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">{quote.ineligibleReason}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!quote.eligible || pendingPurchaseIds.has(quote.purchaseId)}
+                        onClick={() => openRequest(quote)}
+                      >
+                        {pendingPurchaseIds.has(quote.purchaseId) ? 'Requested' : 'Request Refund'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {selected && (
+            <div className="border rounded-lg p-4 space-y-3">
+              <div className="font-medium">Refund {selected.packageName || 'hour package'}</div>
+              <div className="space-y-1">
+                <Label htmlFor="refund-hours">Hours to refund (max {selected.refundableHours})</Label>
+                <Input
+                  id="refund-hours"
+                  type="number"
+                  min={1}
+                  max={selected.refundableHours}
+                  value={hours}
+                  onChange={(e) => setHours(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="refund-reason">Reason</Label>
+                <Textarea id="refund-reason" value={reason} onChange={(e) => setReason(e.target.value)} rows={3} />
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={submitRequest} disabled={saving || !reason.trim() || !hours}>
+                  Submit Request
+                </Button>
+                <Button variant="ghost" onClick={() => setSelected(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Receipt className="h-5 w-5 mr-2" />
+            My Refund Requests
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {requests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No refund requests yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Package</TableHead>
+                  <TableHead>Hours</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map(request => (
+                  <TableRow key={request.id}>
+                    <TableCell>{formatDate(request.createdAt)}</TableCell>
+                    <TableCell>{request.packageName || '-'}</TableCell>
+                    <TableCell>{request.hours}h</TableCell>
+                    <TableCell>{formatCurrency(request.refundAmount, request.currency)}</TableCell>
+                    <TableCell>
+                      <Badge variant={request.status === 'completed' ? 'default' : 'secondary'}>
+                        {HOUR_REFUND_STATUS_LABELS[request.status]}
+                      </Badge>
+                      {request.reviewNotes && (
+                        <div className="text-xs text-muted-foreground mt-1">{request.reviewNotes}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {request.status === 'pending' && (
+                        <Button size="sm" variant="ghost" onClick={() => cancelRequest(request)}>
+                          Withdraw
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
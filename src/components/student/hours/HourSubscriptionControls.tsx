@@ -0,0 +1,393 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, Repeat, Zap } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { hourSubscriptionService } from '@/lib/services/hour-subscription-service';
+import type {
+  AutoTopUpSettings,
+  HourBillingCharge,
+  HourPackage,
+  HourSubscription,
+  PaymentMethod,
+  SubscriptionPlan
+} from '@/types/hours';
+import { BILLING_CHARGE_TYPE_LABELS, SUBSCRIPTION_STATUS_LABELS } from '@/types/hours';
+
+const RECURRING_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'credit_card', label: 'Credit Card' },
+  { value: 'debit_card', label: 'Debit Card' },
+  { value: 'paypal', label: 'PayPal' },
+  { value: 'stripe', label: 'Stripe' }
+];
+
+const formatCurrency = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+interface HourSubscriptionControlsProps {
+  studentId: string;
+  packages: HourPackage[];
+  onBillingChange?: () => void;
+}
+
+export function HourSubscriptionControls({ studentId, packages, onBillingChange }: HourSubscriptionControlsProps) {
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [subscription, setSubscription] = useState<HourSubscription | null>(null);
+  const [charges, setCharges] = useState<HourBillingCharge[]>([]);
+  const [topUp, setTopUp] = useState<AutoTopUpSettings | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('credit_card');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadBilling();
+  }, [studentId]);
+
+  const loadBilling = async () => {
+    const [planResult, subscriptionResult, chargeResult, topUpResult] = await Promise.all([
+      hourSubscriptionService.listPlans(),
+      hourSubscriptionService.getSubscription(studentId),
+      hourSubscriptionService.getBillingHistory(studentId),
+      hourSubscriptionService.getAutoTopUpSettings(studentId)
+    ]);
+
+    if (planResult.success && planResult.data) setPlans(planResult.data);
+    if (subscriptionResult.success) setSubscription(subscriptionResult.data || null);
+    if (chargeResult.success && chargeResult.data) setCharges(chargeResult.data);
+    if (topUpResult.success) {
+      setTopUp(topUpResult.data || {
+        studentId,
+        isEnabled: false,
+        thresholdHours: 2,
+        packageId: packages[0]?.id || '',
+        paymentMethod: 'credit_card',
+        maxTopUpsPerMonth: 2
+      });
+    }
+  };
+
+  const runAction = async (
+    action: () => Promise<{ success: boolean; error?: { message: string } }>,
+    successMessage: string
+  ) => {
+    setSaving(true);
+    try {
+      const result = await action();
+      if (!result.success) {
+        throw new Error(result.error?.message);
+      }
+      toast({ title: 'Saved', description: successMessage });
+      await loadBilling();
+      onBillingChange?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error && error.message ? error.message : 'Request failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const subscribe = (plan: SubscriptionPlan) =>
+    runAction(
+      () => hourSubscriptionService.subscribe({ studentId, planId: plan.id, paymentMethod }),
+      `Subscribed to ${plan.name}`
+    );
+
+  const changePlan = (plan: SubscriptionPlan) =>
+    runAction(async () => {
+      const result = await hourSubscriptionService.changePlan(subscription!.id, plan.id);
+      if (result.success && result.data?.effective === 'next_period') {
+        toast({ title: 'Plan change scheduled', description: `${plan.name} starts at your next renewal` });
+      }
+      return result;
+    }, `Plan changed to ${plan.name}`);
+
+  const saveTopUp = (settings: AutoTopUpSettings) =>
+    runAction(async () => {
+      const result = await hourSubscriptionService.saveAutoTopUpSettings(settings);
+      // Top up straight away if the balance is already below the new threshold
+      if (result.success && settings.isEnabled) {
+        await hourSubscriptionService.checkAutoTopUp(studentId);
+      }
+      return result;
+    }, settings.isEnabled ? 'Auto top-up enabled' : 'Auto top-up disabled');
+
+  const currentPlan = subscription?.plan;
+
+  return (
+    <div className="space-y-6">
+      {subscription?.status === 'past_due' && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Payment overdue</AlertTitle>
+          <AlertDescription>
+            Your last payment failed{subscription.lastFailureMessage ? `: ${subscription.lastFailureMessage}` : ''}.
+            {subscription.nextRetryAt && <> We will try again on {formatDate(subscription.nextRetryAt)}.</>}
+            {' '}Update your payment method to keep your subscription.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Repeat className="h-5 w-5 mr-2" />
+            Subscription
+          </CardTitle>
+          <CardDescription>
+            {subscription
+              ? `${currentPlan?.name || 'Current plan'} · renews ${formatDate(subscription.currentPeriodEnd)}`
+              : 'Get a fixed number of hours every billing period'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Label>Payment method</Label>
+            <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECURRING_METHODS.map(method => (
+                  <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {subscription && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={saving}
+                onClick={() => runAction(
+                  () => hourSubscriptionService.updatePaymentMethod(subscription.id, paymentMethod),
+                  'Payment method updated'
+                )}
+              >
+                Update
+              </Button>
+            )}
+          </div>
+
+          {subscription && (
+            <div className="flex items-center justify-between p-4 border rounded-lg">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{currentPlan?.name}</span>
+                  <Badge variant={subscription.status === 'active' ? 'default' : 'destructive'}>
+                    {SUBSCRIPTION_STATUS_LABELS[subscription.status]}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {currentPlan && `${currentPlan.hoursPerPeriod} hours per ${currentPlan.billingInterval === 'quarterly' ? 'quarter' : 'month'}, up to ${currentPlan.rolloverCap} unused hours roll over`}
+                </p>
+                {subscription.pendingPlanId && (
+                  <p className="text-sm text-muted-foreground">
+                    Switching to {plans.find(p => p.id === subscription.pendingPlanId)?.name || 'a new plan'} at renewal
+                  </p>
+                )}
+                {subscription.cancelAtPeriodEnd && (
+                  <p className="text-sm text-muted-foreground">
+                    Ends on {formatDate(subscription.currentPeriodEnd)}
+                  </p>
+                )}
+              </div>
+              {subscription.cancelAtPeriodEnd ? (
+                <Button
+                  variant="outline"
+                  disabled={saving}
+                  onClick={() => runAction(() => hourSubscriptionService.resumeSubscription(subscription.id), 'Subscription resumed')}
+                >
+                  Keep Subscription
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  disabled={saving}
+                  onClick={() => runAction(() => hourSubscriptionService.cancelSubscription(subscription.id), 'Subscription will end at the close of this period')}
+                >
+                  Cancel
+                </Button>
+              )}
+            </div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-3">
+            {plans.map(plan => (
+              <div key={plan.id} className="p-4 border rounded-lg space-y-2">
+                <div className="font-medium">{plan.name}</div>
+                <div className="text-2xl font-bold">
+                  {formatCurrency(plan.price, plan.currency)}
+                  <span className="text-sm font-normal text-muted-foreground">
+                    /{plan.billingInterval === 'quarterly' ? 'quarter' : 'month'}
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {plan.hoursPerPeriod} hours, {plan.rolloverCap} roll over
+                </p>
+                {subscription?.planId === plan.id ? (
+                  <Badge variant="secondary">Current plan</Badge>
+                ) : (
+                  <Button
+                    size="sm"
+                    className="w-full"
+                    disabled={saving || subscription?.status === 'past_due'}
+                    onClick={() => (subscription ? changePlan(plan) : subscribe(plan))}
+                  >
+                    {subscription ? 'Switch Plan' : 'Subscribe'}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {topUp && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Zap className="h-5 w-5 mr-2" />
+              Auto Top-Up
+            </CardTitle>
+            <CardDescription>Buy a package automatically when your balance runs low</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="auto-top-up"
+                checked={topUp.isEnabled}
+                onCheckedChange={(checked) => setTopUp({ ...topUp, isEnabled: checked })}
+              />
+              <Label htmlFor="auto-top-up">Enable auto top-up</Label>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-4">
+              <div className="space-y-1">
+                <Label htmlFor="top-up-threshold">When below (hours)</Label>
+                <Input
+                  id="top-up-threshold"
+                  type="number"
+                  min={0}
+                  value={topUp.thresholdHours}
+                  onChange={(e) => setTopUp({ ...topUp, thresholdHours: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Package</Label>
+                <Select value={topUp.packageId} onValueChange={(value) => setTopUp({ ...topUp, packageId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a package" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {packages.map(pkg => (
+                      <SelectItem key={pkg.id} value={pkg.id}>
+                        {pkg.name} ({formatCurrency(pkg.price, pkg.currency)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Payment method</Label>
+                <Select
+                  value={topUp.paymentMethod}
+                  onValueChange={(value) => setTopUp({ ...topUp, paymentMethod: value as PaymentMethod })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECURRING_METHODS.map(method => (
+                      <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="top-up-limit">Max per month</Label>
+                <Input
+                  id="top-up-limit"
+                  type="number"
+                  min={1}
+                  value={topUp.maxTopUpsPerMonth}
+                  onChange={(e) => setTopUp({ ...topUp, maxTopUpsPerMonth: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            <Button onClick={() => saveTopUp(topUp)} disabled={saving || !topUp.packageId}>
+              Save Auto Top-Up
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Billing History</CardTitle>
+          <CardDescription>Subscription and automatic charges</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Hours</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {charges.map(charge => (
+                <TableRow key={charge.id}>
+                  <TableCell>{formatDate(charge.createdAt)}</TableCell>
+                  <TableCell>{BILLING_CHARGE_TYPE_LABELS[charge.chargeType]}</TableCell>
+                  <TableCell className="text-right">{charge.hours}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(charge.amount, charge.currency)}</TableCell>
+                  <TableCell>
+                    <Badge variant={charge.status === 'failed' ? 'destructive' : 'outline'}>{charge.status}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {charges.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No charges yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
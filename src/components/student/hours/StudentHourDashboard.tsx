@@ -9,6 +9,9 @@ import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { LeaveRequestForm } from './LeaveRequestForm';
 import { LeaveRequestList } from './LeaveRequestList';
+import { HourSubscriptionControls } from './HourSubscriptionControls';
+import { HourRefundRequests } from './HourRefundRequests';
+import { FamilyHourSharing } from './FamilyHourSharing';
 import {
   Table,
   TableBody,
@@ -148,7 +151,13 @@ export function StudentHourDashboard({ studentId }: StudentHourDashboardProps) {
             <AlertTitle>{ALERT_TYPE_LABELS[alert.alertType]}</AlertTitle>
             <AlertDescription>
               {alert.alertType === 'low_balance' && (
-                <>You have only {alert.hoursRemaining} hours remaining. Consider purchasing more hours.</>
+                <>
+                  You have only {alert.hoursRemaining} hours remaining. Consider purchasing more hours
+                  or{' '}
+                  <button className="underline" onClick={() => setActiveTab('billing')}>
+                    turning on auto top-up
+                  </button>.
+                </>
               )}
               {alert.alertType === 'expiring_soon' && (
                 <>You have {alert.hoursRemaining} hours expiring on {formatDate(alert.expiryDate!)}.</>
@@ -461,9 +470,12 @@ export function StudentHourDashboard({ studentId }: StudentHourDashboardProps) {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="packages">Buy Hours</TabsTrigger>
+          <TabsTrigger value="billing">Subscription</TabsTrigger>
+          <TabsTrigger value="refunds">Refunds</TabsTrigger>
+          <TabsTrigger value="family">Family</TabsTrigger>
           <TabsTrigger value="leaves">Leave Requests</TabsTrigger>
           <TabsTrigger value="history">History</TabsTrigger>
         </TabsList>
@@ -476,6 +488,22 @@ export function StudentHourDashboard({ studentId }: StudentHourDashboardProps) {
           {renderPackagesTab()}
         </TabsContent>
 
+        <TabsContent value="billing" className="mt-6">
+          <HourSubscriptionControls
+            studentId={studentId}
+            packages={packages}
+            onBillingChange={loadData}
+          />
+        </TabsContent>
+
+        <TabsContent value="refunds" className="mt-6">
+          <HourRefundRequests studentId={studentId} onRefundChange={loadData} />
+        </TabsContent>
+
+        <TabsContent value="family" className="mt-6">
+          <FamilyHourSharing guardianId={studentId} onTransferComplete={loadData} />
+        </TabsContent>
+
         <TabsContent value="leaves" className="mt-6">
           <div className="space-y-6">
             <div className="flex justify-between items-center">
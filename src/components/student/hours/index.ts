@@ -1,3 +1,6 @@
 export { StudentHourDashboard } from './StudentHourDashboard';
 export { LeaveRequestForm } from './LeaveRequestForm';
-export { LeaveRequestList } from './LeaveRequestList';
\ No newline at end of file
+export { LeaveRequestList } from './LeaveRequestList';
+export { HourSubscriptionControls } from './HourSubscriptionControls';
+export { HourRefundRequests } from './HourRefundRequests';
+export { FamilyHourSharing } from './FamilyHourSharing';
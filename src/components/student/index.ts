@@ -25,4 +25,10 @@ export { StudentHourDashboard } from './hours';
 
 // Make-up Class Components
 export { MakeUpClassSelector } from './makeup-classes/MakeUpClassSelector';
-export { PostponementStatus } from './makeup-classes/PostponementStatus';
\ No newline at end of file
+export { PostponementStatus } from './makeup-classes/PostponementStatus';
+
+// Waitlist Components
+export { WaitlistOffers, WaitlistOfferResponse } from './WaitlistOffers';
+
+// Attendance Components
+export { AttendanceCheckIn } from './AttendanceCheckIn';
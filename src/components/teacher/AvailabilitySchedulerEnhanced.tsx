@@ -14,6 +14,8 @@ import { Skeleton } from '@/components/ui/skeleton';
 // Removed useToast import - using inline notifications for testing
 import { Plus, Trash2, Clock, Save, Copy, X, Calendar } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { addDaysToDate, getDayOfWeek, getZonedParts } from '@/lib/utils/timezone';
+import { formatRRule, parseRRule } from '@/lib/utils/recurrence';
 
 interface AvailabilitySlot {
   id: string;
@@ -22,8 +24,25 @@ interface AvailabilitySlot {
   end_time: string;
   is_available: boolean;
   timezone: string;
+  /** RRULE for slots that don't repeat every week */
+  rrule?: string;
+  /** Dates (YYYY-MM-DD) the slot is skipped on, e.g. public holidays */
+  exception_dates?: string[];
+  /** One-off dates the slot is also offered on */
+  additional_dates?: string[];
+  /** First date (YYYY-MM-DD) the slot runs on; fixes which weeks a fortnightly slot falls in */
+  effective_from?: string;
 }
 
+type RepeatOption = 'weekly' | 'biweekly' | 'first' | 'last';
+
+const REPEAT_OPTIONS: { value: RepeatOption; label: string }[] = [
+  { value: 'weekly', label: 'Every week' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'first', label: 'First of the month' },
+  { value: 'last', label: 'Last of the month' },
+];
+
 interface AvailabilitySchedulerProps {
   teacherId: string;
   availability: AvailabilitySlot[];
@@ -41,6 +60,34 @@ const DAYS_OF_WEEK = [
   { value: 7, label: 'Sunday' },
 ];
 
+// Days here run Monday=1 to Sunday=7
+function toRRule(repeat: RepeatOption, dayOfWeek: number): string | undefined {
+  const byDay = [{ dayOfWeek: dayOfWeek % 7 }];
+  switch (repeat) {
+    case 'biweekly':
+      return formatRRule({ frequency: 'WEEKLY', interval: 2, byDay, weekStart: 1 });
+    case 'first':
+      return formatRRule({ frequency: 'MONTHLY', interval: 1, byDay: [{ ...byDay[0], ordinal: 1 }], weekStart: 1 });
+    case 'last':
+      return formatRRule({ frequency: 'MONTHLY', interval: 1, byDay: [{ ...byDay[0], ordinal: -1 }], weekStart: 1 });
+    default:
+      return undefined;
+  }
+}
+
+// The next date on or after today falling on the slot's day (Monday=1 to Sunday=7)
+function nextDateForDay(dayOfWeek: number, timeZone: string): string {
+  const today = getZonedParts(new Date(), timeZone).date;
+  return addDaysToDate(today, (dayOfWeek % 7 - getDayOfWeek(today) + 7) % 7);
+}
+
+function getRepeatOption(rrule?: string): RepeatOption {
+  if (!rrule) return 'weekly';
+  const rule = parseRRule(rrule);
+  if (rule.frequency === 'MONTHLY') return rule.byDay?.[0]?.ordinal === -1 ? 'last' : 'first';
+  return rule.interval === 2 ? 'biweekly' : 'weekly';
+}
+
 const TIMEZONES = [
   'Asia/Singapore',
   'Asia/Jakarta',
@@ -70,6 +117,8 @@ export function AvailabilityScheduler({
   const [deleteSlotId, setDeleteSlotId] = useState<string | null>(null);
   const [isClearAllOpen, setIsClearAllOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [exceptionDate, setExceptionDate] = useState('');
+  const [additionalDate, setAdditionalDate] = useState('');
 
   // Group slots by day
   const slotsByDay = useMemo(() => {
@@ -142,6 +191,17 @@ export function AvailabilityScheduler({
     setIsEditModalOpen(true);
   };
 
+  const addDates = (field: 'exception_dates' | 'additional_dates', dates: string[]) => {
+    setEditingSlot(prev => prev ? {
+      ...prev,
+      [field]: Array.from(new Set([...(prev[field] || []), ...dates])).sort(),
+    } : null);
+  };
+
+  const removeDate = (field: 'exception_dates' | 'additional_dates', date: string) => {
+    setEditingSlot(prev => prev ? { ...prev, [field]: (prev[field] || []).filter(d => d !== date) } : null);
+  };
+
   const handleSaveSlot = () => {
     if (!editingSlot) return;
 
@@ -156,13 +216,21 @@ export function AvailabilityScheduler({
       return;
     }
 
-    if (editingSlot.id.startsWith('new-')) {
+    setExceptionDate('');
+    setAdditionalDate('');
+
+    // Fortnightly slots saved before the first session could be picked start this week
+    const slotToSave = getRepeatOption(editingSlot.rrule) === 'biweekly' && !editingSlot.effective_from
+      ? { ...editingSlot, effective_from: nextDateForDay(editingSlot.day_of_week, editingSlot.timezone) }
+      : editingSlot;
+
+    if (slotToSave.id.startsWith('new-')) {
       // Add new slot
-      setSlots([...slots, { ...editingSlot, id: Date.now().toString() }]);
+      setSlots([...slots, { ...slotToSave, id: Date.now().toString() }]);
     } else {
       // Update existing slot
       setSlots(slots.map(slot => 
-        slot.id === editingSlot.id ? editingSlot : slot
+        slot.id === slotToSave.id ? slotToSave : slot
       ));
     }
 
@@ -190,6 +258,9 @@ export function AvailabilityScheduler({
         ...slot,
         id: `${Date.now()}-${targetDay}-${slot.start_time}`,
         day_of_week: targetDay,
+        rrule: toRRule(getRepeatOption(slot.rrule), targetDay),
+        // Stay in the same fortnight as the source slot
+        effective_from: slot.effective_from && addDaysToDate(slot.effective_from, targetDay - slot.day_of_week),
       }));
 
       newSlots.push(...filteredSlots, ...copiedSlots);
@@ -346,6 +417,17 @@ export function AvailabilityScheduler({
                           <span className="font-medium">
                             {slot.start_time} - {slot.end_time}
                           </span>
+                          {slot.rrule && (
+                            <Badge variant="secondary">
+                              {REPEAT_OPTIONS.find(option => option.value === getRepeatOption(slot.rrule))?.label}
+                            </Badge>
+                          )}
+                          {!!slot.exception_dates?.length && (
+                            <Badge variant="outline">{slot.exception_dates.length} skipped</Badge>
+                          )}
+                          {!!slot.additional_dates?.length && (
+                            <Badge variant="outline">+{slot.additional_dates.length} extra</Badge>
+                          )}
                         </div>
                         <Button
                           variant="ghost"
@@ -414,6 +496,103 @@ export function AvailabilityScheduler({
                 onChange={(e) => setEditingSlot(prev => prev ? {...prev, end_time: e.target.value} : null)}
               />
             </div>
+            <div>
+              <Label htmlFor="repeat">Repeats</Label>
+              <select
+                id="repeat"
+                value={getRepeatOption(editingSlot?.rrule)}
+                onChange={(e) => setEditingSlot(prev => prev ? {
+                  ...prev,
+                  rrule: toRRule(e.target.value as RepeatOption, prev.day_of_week),
+                  effective_from: e.target.value === 'biweekly'
+                    ? prev.effective_from || nextDateForDay(prev.day_of_week, prev.timezone)
+                    : prev.effective_from,
+                } : null)}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                {REPEAT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            {getRepeatOption(editingSlot?.rrule) === 'biweekly' && (
+              <div>
+                <Label htmlFor="effective-from">First session</Label>
+                <Input
+                  id="effective-from"
+                  type="date"
+                  value={editingSlot?.effective_from || ''}
+                  onChange={(e) => setEditingSlot(prev => prev ? { ...prev, effective_from: e.target.value || undefined } : null)}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  The slot repeats every other week from this week.
+                </p>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="exception-date">Skipped dates</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="exception-date"
+                  type="date"
+                  value={exceptionDate}
+                  onChange={(e) => setExceptionDate(e.target.value)}
+                />
+                <Button
+                  variant="outline"
+                  disabled={!exceptionDate}
+                  onClick={() => addDates('exception_dates', [exceptionDate])}
+                >
+                  Skip date
+                </Button>
+                <Button
+                  variant="outline"
+                  disabled={!exceptionDate}
+                  onClick={() => addDates('exception_dates', [0, 1, 2, 3, 4, 5, 6].map(days => addDaysToDate(exceptionDate, days)))}
+                >
+                  Skip week
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {editingSlot?.exception_dates?.map(date => (
+                  <Badge key={date} variant="outline" className="gap-1">
+                    {date}
+                    <button type="button" onClick={() => removeDate('exception_dates', date)} aria-label={`Remove skipped date ${date}`}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="additional-date">Extra dates</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="additional-date"
+                  type="date"
+                  value={additionalDate}
+                  onChange={(e) => setAdditionalDate(e.target.value)}
+                />
+                <Button
+                  variant="outline"
+                  disabled={!additionalDate}
+                  onClick={() => addDates('additional_dates', [additionalDate])}
+                >
+                  <Calendar className="h-4 w-4 mr-1" />
+                  Add date
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {editingSlot?.additional_dates?.map(date => (
+                  <Badge key={date} variant="outline" className="gap-1">
+                    {date}
+                    <button type="button" onClick={() => removeDate('additional_dates', date)} aria-label={`Remove extra date ${date}`}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsEditModalOpen(false)}>
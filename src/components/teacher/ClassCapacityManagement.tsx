@@ -61,9 +61,10 @@ import {
 import { 
   classCapacityService, 
   ClassCapacityInfo, 
-  WaitingListEntry, 
   ClassSplitRecommendation 
 } from '@/lib/services/class-capacity-service';
+import { waitlistOfferService } from '@/lib/services/waitlist-offer-service';
+import type { WaitlistEntry, WaitlistMetrics } from '@/types/waitlist';
 import { 
   ENROLLMENT_STATUS_COLORS, 
   ENROLLMENT_STATUS_LABELS,
@@ -82,8 +83,9 @@ export default function ClassCapacityManagement({
   onCapacityChange 
 }: ClassCapacityManagementProps) {
   const [capacity, setCapacity] = useState<ClassCapacityInfo | null>(null);
-  const [waitingList, setWaitingList] = useState<WaitingListEntry[]>([]);
+  const [waitingList, setWaitingList] = useState<WaitlistEntry[]>([]);
   const [recommendations, setRecommendations] = useState<ClassSplitRecommendation[]>([]);
+  const [waitlistMetrics, setWaitlistMetrics] = useState<WaitlistMetrics | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isEnrolling, setIsEnrolling] = useState(false);
@@ -108,8 +110,15 @@ export default function ClassCapacityManagement({
 
   const loadWaitingList = async () => {
     try {
-      const list = await classCapacityService.getWaitingList(classId);
-      setWaitingList(list);
+      const [list, stats] = await Promise.all([
+        waitlistOfferService.getWaitingList(classId),
+        classCapacityService.getEnrollmentStats(classId)
+      ]);
+      if (!list.success) {
+        setError(list.error?.message || 'Failed to load waiting list');
+      }
+      setWaitingList(list.data || []);
+      setWaitlistMetrics(stats?.waitlist_metrics ?? null);
     } catch (err) {
       setError('Failed to load waiting list');
     }
@@ -175,6 +184,19 @@ export default function ClassCapacityManagement({
     }
   };
 
+  const handleOfferSeat = async () => {
+    try {
+      const offered = await classCapacityService.promoteFromWaitlist(classId);
+      await loadClassCapacity();
+      await loadWaitingList();
+      setError(offered
+        ? 'Seat offered to the next student on the waiting list'
+        : 'No waitlisted student could be offered the seat');
+    } catch (err) {
+      setError('Failed to offer seat');
+    }
+  };
+
   const handleCreateOverflowClass = async () => {
     try {
       const result = await classCapacityService.createOverflowClass(classId);
@@ -373,6 +395,17 @@ export default function ClassCapacityManagement({
             <CardDescription>
               Students waiting for enrollment
             </CardDescription>
+            {(capacity.held_offers > 0 || (waitlistMetrics && waitlistMetrics.offersMade > 0)) && (
+              <div className="text-sm text-gray-600">
+                {[
+                  `Seats held for open offers: ${capacity.held_offers}`,
+                  waitlistMetrics?.averageTimeToFillHours != null &&
+                    `Average time to fill: ${waitlistMetrics.averageTimeToFillHours}h`,
+                  waitlistMetrics && waitlistMetrics.offersMade > 0 &&
+                    `Decline rate: ${waitlistMetrics.declineRate}%`
+                ].filter(Boolean).join(' · ')}
+              </div>
+            )}
           </CardHeader>
           <CardContent>
             <Table>
@@ -382,33 +415,40 @@ export default function ClassCapacityManagement({
                   <TableHead>Student</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Added</TableHead>
+                  <TableHead>Offer</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {waitingList.map((entry) => (
-                  <TableRow key={entry.id}>
+                  <TableRow key={entry.enrollmentId}>
                     <TableCell className="font-medium">
                       #{entry.position}
                     </TableCell>
-                    <TableCell>{entry.student_name}</TableCell>
-                    <TableCell>{entry.student_email}</TableCell>
+                    <TableCell>{entry.studentName}</TableCell>
+                    <TableCell>{entry.studentEmail}</TableCell>
+                    <TableCell>
+                      {new Date(entry.waitlistedAt).toLocaleDateString()}
+                    </TableCell>
                     <TableCell>
-                      {new Date(entry.enrolled_at).toLocaleDateString()}
+                      {entry.offer
+                        ? `Seat held until ${new Date(entry.offer.expiresAt).toLocaleString()}`
+                        : '—'}
                     </TableCell>
                     <TableCell>
                       <div className="flex gap-2">
                         <Button 
                           size="sm" 
                           variant="outline"
-                          onClick={() => handleDropStudent(entry.student_id)}
+                          onClick={() => handleDropStudent(entry.studentId)}
                         >
                           <UserX className="h-4 w-4" />
                         </Button>
-                        {entry.position === 1 && capacity.available_spots > 0 && (
+                        {entry.position === 1 && !entry.offer && capacity.available_spots > 0 && (
                           <Button 
                             size="sm"
-                            onClick={() => classCapacityService.promoteFromWaitlist(classId)}
+                            title="Offer seat"
+                            onClick={handleOfferSeat}
                           >
                             <UserCheck className="h-4 w-4" />
                           </Button>
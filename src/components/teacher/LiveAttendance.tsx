@@ -0,0 +1,276 @@
+'use client';
+
+import { logger } from '@/lib/services';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardCheck, QrCode } from 'lucide-react';
+import { attendanceCheckInService } from '@/lib/services/attendance-check-in-service';
+import type {
+  AttendanceSession,
+  AttendanceStatus,
+  CheckInCode,
+  SessionRosterEntry,
+  TeachingSession,
+} from '@/types/attendance';
+
+interface LiveAttendanceProps {
+  teacherId: string;
+}
+
+// How often the roster refreshes while check-in is open
+const ROSTER_REFRESH_MS = 10 * 1000;
+
+const STATUS_OPTIONS: AttendanceStatus[] = ['present', 'late', 'absent', 'excused'];
+
+const METHOD_LABELS: Record<string, string> = {
+  qr: 'scanned',
+  code: 'code',
+  online_join: 'joined online',
+  teacher: 'by you',
+  auto: 'no check-in',
+};
+
+const formatTime = (value: string) => new Date(value).toLocaleTimeString(undefined, { timeStyle: 'short' });
+
+const canEdit = (session: AttendanceSession) =>
+  session.status === 'open' ||
+  (!!session.correctionDeadline && new Date(session.correctionDeadline).getTime() > Date.now());
+
+/**
+ * Run check-in for today's sessions: show the rotating code, follow the
+ * roster live, override statuses and finish the session
+ */
+export function LiveAttendance({ teacherId }: LiveAttendanceProps) {
+  const [sessions, setSessions] = useState<TeachingSession[]>([]);
+  const [active, setActive] = useState<AttendanceSession | null>(null);
+  const [checkInCode, setCheckInCode] = useState<CheckInCode | null>(null);
+  const [roster, setRoster] = useState<SessionRosterEntry[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSessions();
+  }, [teacherId]);
+
+  useEffect(() => {
+    if (!active) return;
+    loadRoster(active.id);
+    if (active.status !== 'open') return;
+
+    const rosterTimer = setInterval(() => loadRoster(active.id), ROSTER_REFRESH_MS);
+    return () => clearInterval(rosterTimer);
+  }, [active?.id, active?.status]);
+
+  // Fetch the next code as soon as the current one rotates
+  useEffect(() => {
+    if (!active || active.status !== 'open') {
+      setCheckInCode(null);
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout>;
+    const refreshCode = async () => {
+      const result = await attendanceCheckInService.getSessionCode(active.id);
+      if (result.success && result.data) {
+        setCheckInCode(result.data);
+        timer = setTimeout(refreshCode, Math.max(new Date(result.data.rotatesAt).getTime() - Date.now(), 1000));
+      }
+    };
+    refreshCode();
+    return () => clearTimeout(timer);
+  }, [active?.id, active?.status]);
+
+  const loadSessions = async () => {
+    const from = new Date();
+    from.setHours(0, 0, 0, 0);
+    const to = new Date(from.getTime() + 24 * 60 * 60 * 1000);
+    const result = await attendanceCheckInService.getTeacherSessions(teacherId, from.toISOString(), to.toISOString());
+
+    if (result.success && result.data) {
+      setSessions(result.data);
+    } else {
+      logger.error('Error loading teaching sessions:', result.error);
+    }
+  };
+
+  const loadRoster = async (sessionId: string) => {
+    const result = await attendanceCheckInService.getRoster(sessionId);
+    if (result.success && result.data) {
+      setRoster(result.data);
+    }
+  };
+
+  const startCheckIn = async (session: TeachingSession) => {
+    setBusy(true);
+    setError(null);
+    const result = await attendanceCheckInService.openSession({
+      classId: session.classId,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      openedBy: teacherId,
+    });
+
+    if (result.success && result.data) {
+      setActive({ ...result.data, className: result.data.className || session.className });
+      await loadSessions();
+    } else {
+      setError(result.error?.message || 'Failed to start check-in');
+    }
+    setBusy(false);
+  };
+
+  const mark = async (entry: SessionRosterEntry, status: AttendanceStatus) => {
+    if (!active) return;
+    setError(null);
+    const result = await attendanceCheckInService.markAttendance({
+      sessionId: active.id,
+      bookingId: entry.bookingId,
+      status,
+      teacherId,
+    });
+
+    if (!result.success) {
+      setError(result.error?.message || 'Failed to save attendance');
+    }
+    await loadRoster(active.id);
+  };
+
+  const finish = async () => {
+    if (!active) return;
+    setBusy(true);
+    setError(null);
+    const result = await attendanceCheckInService.finalizeSession(active.id);
+
+    if (result.success) {
+      const refreshed = await attendanceCheckInService.getSession(active.id);
+      if (refreshed.success && refreshed.data) setActive(refreshed.data);
+      await loadSessions();
+    } else {
+      setError(result.error?.message || 'Failed to finish check-in');
+    }
+    setBusy(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Today&apos;s Sessions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You have no sessions today.</p>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map(session => (
+                <div key={`${session.classId}-${session.startTime}`} className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <div className="font-medium">{session.className || 'Class'}</div>
+                    <div className="text-sm text-gray-600">
+                      {formatTime(session.startTime)} – {formatTime(session.endTime)} · {session.studentCount} student(s)
+                    </div>
+                  </div>
+                  {session.attendanceSession ? (
+                    <Button
+                      size="sm"
+                      variant={session.attendanceSession.id === active?.id ? 'default' : 'outline'}
+                      onClick={() => setActive({ ...session.attendanceSession!, className: session.className })}
+                    >
+                      {session.attendanceSession.status === 'open' ? 'Check-in open' : 'View attendance'}
+                    </Button>
+                  ) : (
+                    <Button size="sm" disabled={busy} onClick={() => startCheckIn(session)}>
+                      <ClipboardCheck className="h-4 w-4 mr-2" />
+                      Start check-in
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {active && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>{active.className || 'Class'} · {formatTime(active.startTime)}</CardTitle>
+                <CardDescription>
+                  {active.status === 'open'
+                    ? `On time within ${active.lateGraceMinutes} min, late until ${active.absentAfterMinutes} min after the start.`
+                    : active.correctionDeadline && canEdit(active)
+                      ? `Finished. You can correct attendance until ${new Date(active.correctionDeadline).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}.`
+                      : 'Finished. Attendance can no longer be corrected.'}
+                </CardDescription>
+              </div>
+              {active.status === 'open' && (
+                <Button variant="outline" disabled={busy} onClick={finish}>
+                  Finish &amp; mark no-shows
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {checkInCode && (
+              <div className="rounded-lg border bg-gray-50 p-6 text-center">
+                <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                  <QrCode className="h-4 w-4" />
+                  {active.deliveryMode === 'online'
+                    ? 'Online students are checked in when they join. Students in the room enter this code:'
+                    : 'Students enter this code, or open the link below:'}
+                </div>
+                <div className="my-3 font-mono text-6xl font-bold tracking-[0.3em]">{checkInCode.code}</div>
+                <div className="break-all text-xs text-muted-foreground">{checkInCode.checkInUrl}</div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {roster.map(entry => (
+                <div key={entry.bookingId} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div>
+                    <div className="font-medium">{entry.studentName}</div>
+                    <div className="text-sm text-gray-600">
+                      {entry.checkedInAt ? `Checked in ${formatTime(entry.checkedInAt)}` : 'Not checked in'}
+                      {entry.checkInMethod && ` · ${METHOD_LABELS[entry.checkInMethod]}`}
+                      {entry.hoursDeducted > 0 && ` · ${entry.hoursDeducted}h deducted`}
+                    </div>
+                    {entry.deductionReason && (
+                      <div className="text-xs text-muted-foreground">{entry.deductionReason}</div>
+                    )}
+                  </div>
+                  {canEdit(active) ? (
+                    <Select value={entry.status || ''} onValueChange={(value) => mark(entry, value as AttendanceStatus)}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue placeholder="Mark" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STATUS_OPTIONS.map(status => (
+                          <SelectItem key={status} value={status}>{status}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant={entry.status === 'absent' ? 'destructive' : 'secondary'}>{entry.status || '—'}</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -20,6 +20,9 @@ import {
   CheckCircle,
   AlertCircle,
   ChevronRight,
+  UserX,
+  ClipboardCheck,
+  HeartHandshake,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -55,6 +58,9 @@ const navigationItems = [
   { name: 'My Classes', href: '/teacher/classes', icon: Users },
   { name: 'Students', href: '/teacher/students', icon: GraduationCap },
   { name: 'Availability', href: '/teacher/availability', icon: Clock },
+  { name: 'Attendance', href: '/teacher/attendance', icon: ClipboardCheck },
+  { name: 'Interventions', href: '/teacher/interventions', icon: HeartHandshake },
+  { name: 'Cover & Absences', href: '/teacher/substitutions', icon: UserX },
   { name: 'Compensation', href: '/teacher/compensation', icon: DollarSign },
   { name: 'Analytics', href: '/teacher/analytics', icon: BarChart3 },
 ];
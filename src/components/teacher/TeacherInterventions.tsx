@@ -0,0 +1,48 @@
+'use client';
+
+import { logger } from '@/lib/services';
+
+import React, { useState, useEffect } from 'react';
+import { InterventionCaseCard } from '@/components/shared/InterventionCaseCard';
+import { attendanceInterventionService } from '@/lib/services/attendance-intervention-service';
+import type { InterventionCase } from '@/types/intervention';
+
+interface TeacherInterventionsProps {
+  teacherId: string;
+}
+
+/**
+ * Students assigned to the teacher for attendance outreach
+ */
+export function TeacherInterventions({ teacherId }: TeacherInterventionsProps) {
+  const [cases, setCases] = useState<InterventionCase[]>([]);
+
+  useEffect(() => {
+    loadCases();
+  }, [teacherId]);
+
+  const loadCases = async () => {
+    const result = await attendanceInterventionService.listCases({
+      status: ['open', 'monitoring'],
+      assignedTeacherId: teacherId,
+    });
+
+    if (result.success && result.data) {
+      setCases(result.data);
+    } else {
+      logger.error('Error loading intervention cases:', result.error);
+    }
+  };
+
+  if (cases.length === 0) {
+    return <p className="text-sm text-muted-foreground">None of your students need attendance follow-up right now.</p>;
+  }
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      {cases.map(interventionCase => (
+        <InterventionCaseCard key={interventionCase.id} interventionCase={interventionCase} onChanged={loadCases} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+'use client';
+
+import { logger } from '@/lib/services';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CheckCircle, UserX, XCircle } from 'lucide-react';
+import { teacherSubstitutionService } from '@/lib/services/teacher-substitution-service';
+import type {
+  ReportAbsenceResult,
+  SubstitutionOffer,
+  SubstitutionOfferAction,
+  SubstitutionRequest,
+} from '@/types/substitution';
+
+interface TeacherSubstitutionsProps {
+  teacherId: string;
+}
+
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : '';
+
+const REQUEST_LABELS: Record<SubstitutionRequest['status'], string> = {
+  searching: 'Finding cover',
+  offered: 'Offered to a substitute',
+  filled: 'Covered',
+  unfilled: 'No cover yet – the office will follow up',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Report an absence, follow cover for your sessions, and answer cover offers
+ */
+export function TeacherSubstitutions({ teacherId }: TeacherSubstitutionsProps) {
+  const [offers, setOffers] = useState<SubstitutionOffer[]>([]);
+  const [requests, setRequests] = useState<SubstitutionRequest[]>([]);
+  const [absence, setAbsence] = useState({ startTime: '', endTime: '', reason: '' });
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [reporting, setReporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [teacherId]);
+
+  const loadData = async () => {
+    const [offerResult, requestResult] = await Promise.all([
+      teacherSubstitutionService.getTeacherOffers(teacherId),
+      teacherSubstitutionService.listRequests({ originalTeacherId: teacherId, from: new Date().toISOString() }),
+    ]);
+
+    if (offerResult.success && offerResult.data) {
+      setOffers(offerResult.data);
+    } else {
+      logger.error('Error loading cover offers:', offerResult.error);
+    }
+    if (requestResult.success && requestResult.data) {
+      setRequests(requestResult.data);
+    }
+  };
+
+  const reportAbsence = async () => {
+    setReporting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/substitutions/absences', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          teacher_id: teacherId,
+          start_time: new Date(absence.startTime).toISOString(),
+          end_time: new Date(absence.endTime).toISOString(),
+          reason: absence.reason || undefined,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to report the absence');
+      }
+
+      const { requests: affected } = result.data as ReportAbsenceResult;
+      setMessage(
+        affected.length === 0
+          ? 'Absence recorded. You have no sessions in that time.'
+          : `Absence recorded. We are finding cover for ${affected.length} session(s).`
+      );
+      setAbsence({ startTime: '', endTime: '', reason: '' });
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to report the absence');
+    } finally {
+      setReporting(false);
+    }
+  };
+
+  const respond = async (offer: SubstitutionOffer, action: SubstitutionOfferAction) => {
+    setBusyId(offer.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/substitutions/offers/${offer.token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to record your response');
+      }
+
+      setMessage(action === 'accept' ? `You are teaching ${offer.className || 'the session'}. Thank you!` : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record your response');
+    } finally {
+      setBusyId(null);
+      await loadData();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {message && (
+        <Alert>
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      )}
+
+      {offers.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Cover Requests for You</CardTitle>
+            <CardDescription>
+              A colleague is absent and you are free at these times. Answer before the deadline or the session goes to the next teacher.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {offers.map(offer => (
+              <div key={offer.id} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                <div>
+                  <div className="font-medium">{offer.className || 'Class'}</div>
+                  <div className="text-sm text-gray-600">
+                    {formatTime(offer.startTime)} · respond by {formatTime(offer.expiresAt)}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" disabled={busyId === offer.id} onClick={() => respond(offer, 'accept')}>
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Accept
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={busyId === offer.id} onClick={() => respond(offer, 'decline')}>
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserX className="h-5 w-5" />
+            Report an Absence
+          </CardTitle>
+          <CardDescription>
+            Your sessions in this time are offered to qualified colleagues, and your students are told who will teach.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid gap-3 md:grid-cols-2">
+            <div>
+              <Label htmlFor="absence-start">From</Label>
+              <Input
+                id="absence-start"
+                type="datetime-local"
+                value={absence.startTime}
+                onChange={(e) => setAbsence({ ...absence, startTime: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="absence-end">Until</Label>
+              <Input
+                id="absence-end"
+                type="datetime-local"
+                value={absence.endTime}
+                onChange={(e) => setAbsence({ ...absence, endTime: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="absence-reason">Reason (optional)</Label>
+            <Textarea
+              id="absence-reason"
+              value={absence.reason}
+              onChange={(e) => setAbsence({ ...absence, reason: e.target.value })}
+            />
+          </div>
+          <Button onClick={reportAbsence} disabled={reporting || !absence.startTime || !absence.endTime}>
+            Report absence
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Cover for Your Sessions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {requests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">None of your upcoming sessions need cover.</p>
+          ) : (
+            <div className="space-y-2">
+              {requests.map(request => (
+                <div key={request.id} className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <div className="font-medium">{request.className || 'Class'}</div>
+                    <div className="text-sm text-gray-600">{formatTime(request.startTime)}</div>
+                  </div>
+                  <Badge variant={request.status === 'filled' ? 'default' : 'secondary'}>
+                    {REQUEST_LABELS[request.status]}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -14,12 +14,22 @@ import { Calendar, Clock, User, Edit3, Trash2, Plus, ArrowLeft, ArrowRight, Save
 import { useToast } from '@/components/ui/use-toast';
 import { createClient } from '@/lib/supabase';
 import { format, startOfWeek, addDays, addWeeks, subWeeks, parseISO, isSameDay } from 'date-fns';
+import {
+  addDaysToDate,
+  formatInTimeZone,
+  getBrowserTimeZone,
+  getZonedParts,
+  resolveTimeZone,
+  zonedTimeToUtc,
+} from '@/lib/utils/timezone';
 
 interface WeeklyTimetableProps {
   teacher: any;
   weeklyBookings: any[];
   availability: any[];
   availableSlots: any[];
+  /** Zone to render the grid in; defaults to the teacher's zone, then the browser's */
+  timeZone?: string;
 }
 
 const TIME_SLOTS = [
@@ -39,8 +49,13 @@ const DAYS_OF_WEEK = [
   { value: 6, label: 'Saturday', short: 'Sat' },
 ];
 
-export function WeeklyTimetable({ teacher, weeklyBookings, availability, availableSlots }: WeeklyTimetableProps) {
-  const [currentWeek, setCurrentWeek] = useState(() => startOfWeek(new Date()));
+export function WeeklyTimetable({ teacher, weeklyBookings, availability, availableSlots, timeZone }: WeeklyTimetableProps) {
+  const viewerTimeZone = resolveTimeZone(timeZone, teacher?.timezone, getBrowserTimeZone());
+  // Availability rows hold wall-clock times in the teacher's own zone
+  const teacherTimeZone = resolveTimeZone(teacher?.timezone, availability[0]?.timezone, viewerTimeZone);
+  // currentWeek only carries the calendar date of the week start in the viewer's zone
+  const getThisWeek = () => startOfWeek(parseISO(getZonedParts(new Date(), viewerTimeZone).date));
+  const [currentWeek, setCurrentWeek] = useState(getThisWeek);
   const [selectedBooking, setSelectedBooking] = useState<any>(null);
   const [editMode, setEditMode] = useState(false);
   const [draggedBooking, setDraggedBooking] = useState<any>(null);
@@ -57,25 +72,29 @@ export function WeeklyTimetable({ teacher, weeklyBookings, availability, availab
     ...day,
     date: addDays(currentWeek, day.value)
   }));
+  const weekStartDate = format(currentWeek, 'yyyy-MM-dd');
+
+  // The instant a grid cell starts at, in the viewer's zone
+  const getSlotInstant = (dayIndex: number, timeSlot: string) =>
+    zonedTimeToUtc(addDaysToDate(weekStartDate, dayIndex), timeSlot, viewerTimeZone);
 
   const getBookingForSlot = (dayIndex: number, timeSlot: string) => {
     return bookings.find(booking => {
-      const bookingDate = parseISO(booking.start_time);
-      const bookingDay = bookingDate.getDay();
-      const bookingTime = bookingDate.toTimeString().slice(0, 5);
+      const { dayOfWeek, time } = getZonedParts(booking.start_time, viewerTimeZone);
       
-      return bookingDay === dayIndex && bookingTime === timeSlot;
+      return dayOfWeek === dayIndex && time === timeSlot;
     });
   };
 
   const isSlotAvailable = (dayIndex: number, timeSlot: string) => {
-    const dayAvailability = availability.find(a => a.day_of_week === dayIndex);
+    const teacherTime = getZonedParts(getSlotInstant(dayIndex, timeSlot), teacherTimeZone);
+    const dayAvailability = availability.find(a => a.day_of_week === teacherTime.dayOfWeek);
     if (!dayAvailability || !dayAvailability.is_available) return false;
     
     return dayAvailability.time_slots?.some((slot: any) => 
       slot.is_available && 
-      timeSlot >= slot.start_time && 
-      timeSlot < slot.end_time
+      teacherTime.time >= slot.start_time && 
+      teacherTime.time < slot.end_time
     );
   };
 
@@ -103,9 +122,7 @@ export function WeeklyTimetable({ teacher, weeklyBookings, availability, availab
 
     try {
       // Calculate new start and end times
-      const targetDate = addDays(currentWeek, targetDay);
-      const [hours, minutes] = targetTime.split(':').map(Number);
-      targetDate.setHours(hours, minutes, 0, 0);
+      const targetDate = getSlotInstant(targetDay, targetTime);
       
       const duration = draggedBooking.class?.course?.duration_minutes || 60;
       const endTime = new Date(targetDate.getTime() + duration * 60000);
@@ -131,7 +148,7 @@ export function WeeklyTimetable({ teacher, weeklyBookings, availability, availab
 
       toast({
         title: 'Booking Rescheduled',
-        description: `Class moved to ${format(targetDate, 'EEEE, MMM dd')} at ${targetTime}`,
+        description: `Class moved to ${formatInTimeZone(targetDate, viewerTimeZone, { weekday: 'long', month: 'short', day: '2-digit' })} at ${targetTime}`,
       });
     } catch (error) {
       toast({
@@ -255,6 +272,7 @@ export function WeeklyTimetable({ teacher, weeklyBookings, availability, availab
               <CardTitle>Weekly Timetable</CardTitle>
               <CardDescription>
                 {format(currentWeek, 'MMM dd')} - {format(addDays(currentWeek, 6), 'MMM dd, yyyy')}
+                {' · '}Times shown in {viewerTimeZone}
               </CardDescription>
             </div>
             <div className="flex items-center gap-2">
@@ -269,7 +287,7 @@ export function WeeklyTimetable({ teacher, weeklyBookings, availability, availab
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setCurrentWeek(startOfWeek(new Date()))}
+                onClick={() => setCurrentWeek(getThisWeek())}
               >
                 This Week
               </Button>
@@ -365,7 +383,15 @@ export function WeeklyTimetable({ teacher, weeklyBookings, availability, availab
           <DialogHeader>
             <DialogTitle>Class Details</DialogTitle>
             <DialogDescription>
-              {selectedBooking && format(parseISO(selectedBooking.start_time), 'EEEE, MMMM dd, yyyy at h:mm a')}
+              {selectedBooking && formatInTimeZone(selectedBooking.start_time, viewerTimeZone, {
+                weekday: 'long',
+                month: 'long',
+                day: '2-digit',
+                year: 'numeric',
+                hour: 'numeric',
+                minute: '2-digit',
+                timeZoneName: 'short',
+              })}
             </DialogDescription>
           </DialogHeader>
           
@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen, within, waitFor } from '@testing-library/react';
+import { render, screen, within, waitFor, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { AvailabilityScheduler } from '../AvailabilitySchedulerEnhanced';
 import { format, addDays, setHours, setMinutes } from 'date-fns';
@@ -379,6 +379,31 @@ describe('AvailabilityScheduler', () => {
       ]));
     });
 
+    it('should save the first session of a fortnightly slot', async () => {
+      const user = userEvent.setup();
+      const mockOnSave = jest.fn().mockResolvedValue(undefined);
+      render(<AvailabilityScheduler {...defaultProps} onSave={mockOnSave} />);
+
+      const tuesdaySection = screen.getByTestId('day-2');
+      await user.click(within(tuesdaySection).getByRole('button', { name: /add time slot/i }));
+      await user.selectOptions(screen.getByLabelText(/repeats/i), 'biweekly');
+
+      const firstSession = screen.getByLabelText(/first session/i);
+      expect(firstSession).not.toHaveValue('');
+      fireEvent.change(firstSession, { target: { value: '2030-03-12' } });
+
+      await user.click(screen.getByRole('button', { name: /save/i }));
+      await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+      expect(mockOnSave).toHaveBeenCalledWith(expect.arrayContaining([
+        expect.objectContaining({
+          day_of_week: 2,
+          rrule: expect.stringContaining('INTERVAL=2'),
+          effective_from: '2030-03-12',
+        }),
+      ]));
+    });
+
     it('should show loading state while saving', async () => {
       const user = userEvent.setup();
       const mockOnSave = jest.fn(() => new Promise(resolve => setTimeout(resolve, 100)));
@@ -3,22 +3,30 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import ClassCapacityManagement from '../ClassCapacityManagement';
 import { classCapacityService } from '@/lib/services/class-capacity-service';
+import { waitlistOfferService } from '@/lib/services/waitlist-offer-service';
 import { ENROLLMENT_STATUS } from '@/lib/constants';
 
 // Mock the service
 jest.mock('@/lib/services/class-capacity-service', () => ({
   classCapacityService: {
     getClassCapacity: jest.fn(),
-    getWaitingList: jest.fn(),
     getClassesThatNeedAttention: jest.fn(),
     enrollStudent: jest.fn(),
     dropStudent: jest.fn(),
     promoteFromWaitlist: jest.fn(),
+    getEnrollmentStats: jest.fn(),
     createOverflowClass: jest.fn(),
   },
 }));
 
+jest.mock('@/lib/services/waitlist-offer-service', () => ({
+  waitlistOfferService: {
+    getWaitingList: jest.fn(),
+  },
+}));
+
 const mockClassCapacityService = classCapacityService as jest.Mocked<typeof classCapacityService>;
+const mockWaitlistOfferService = waitlistOfferService as jest.Mocked<typeof waitlistOfferService>;
 
 describe('ClassCapacityManagement', () => {
   const mockCapacity = {
@@ -26,6 +34,7 @@ describe('ClassCapacityManagement', () => {
     current_enrolled: 6,
     max_capacity: 9,
     waiting_list_count: 2,
+    held_offers: 0,
     available_spots: 3,
     is_full: false,
     can_accept_waitlist: true,
@@ -35,22 +44,22 @@ describe('ClassCapacityManagement', () => {
 
   const mockWaitingList = [
     {
-      id: 'enrollment-1',
-      student_id: 'student-1',
-      class_id: 'class-1',
+      enrollmentId: 'enrollment-1',
+      studentId: 'student-1',
+      classId: 'class-1',
       position: 1,
-      enrolled_at: '2023-12-01T10:00:00Z',
-      student_name: 'John Doe',
-      student_email: 'john@example.com',
+      waitlistedAt: '2023-12-01T10:00:00Z',
+      studentName: 'John Doe',
+      studentEmail: 'john@example.com',
     },
     {
-      id: 'enrollment-2',
-      student_id: 'student-2',
-      class_id: 'class-1',
+      enrollmentId: 'enrollment-2',
+      studentId: 'student-2',
+      classId: 'class-1',
       position: 2,
-      enrolled_at: '2023-12-01T11:00:00Z',
-      student_name: 'Jane Smith',
-      student_email: 'jane@example.com',
+      waitlistedAt: '2023-12-01T11:00:00Z',
+      studentName: 'Jane Smith',
+      studentEmail: 'jane@example.com',
     },
   ];
 
@@ -68,8 +77,17 @@ describe('ClassCapacityManagement', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockClassCapacityService.getClassCapacity.mockResolvedValue(mockCapacity);
-    mockClassCapacityService.getWaitingList.mockResolvedValue(mockWaitingList);
+    mockWaitlistOfferService.getWaitingList.mockResolvedValue({ success: true, data: mockWaitingList });
     mockClassCapacityService.getClassesThatNeedAttention.mockResolvedValue(mockRecommendations);
+    mockClassCapacityService.getEnrollmentStats.mockResolvedValue({
+      total_enrolled: 6,
+      total_waitlisted: 2,
+      total_dropped: 0,
+      total_completed: 0,
+      capacity_utilization: 67,
+      waitlist_conversion_rate: 75,
+      waitlist_metrics: null,
+    });
   });
 
   it('renders capacity overview correctly', async () => {
@@ -330,4 +348,34 @@ describe('ClassCapacityManagement', () => {
       expect(onCapacityChange).toHaveBeenCalledWith('class-1', mockCapacity);
     });
   });
-});
\ No newline at end of file
+
+  it('shows held offers and waitlist offer metrics', async () => {
+    mockClassCapacityService.getClassCapacity.mockResolvedValue({ ...mockCapacity, held_offers: 1 });
+    mockClassCapacityService.getEnrollmentStats.mockResolvedValue({
+      total_enrolled: 6,
+      total_waitlisted: 2,
+      total_dropped: 1,
+      total_completed: 0,
+      capacity_utilization: 67,
+      waitlist_conversion_rate: 75,
+      waitlist_metrics: {
+        offersMade: 4,
+        accepted: 2,
+        declined: 1,
+        expired: 0,
+        pending: 1,
+        declineRate: 33,
+        expiryRate: 0,
+        averageTimeToFillHours: 5.5,
+      },
+    });
+
+    render(<ClassCapacityManagement classId="class-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText(
+        'Seats held for open offers: 1 · Average time to fill: 5.5h · Decline rate: 33%'
+      )).toBeInTheDocument();
+    });
+  });
+});
@@ -12,4 +12,11 @@ export { ClassHourTrackerLegacy } from './ClassHourTracker';
 export { WeeklyTimetable as WeeklyTimetableLegacy } from './WeeklyTimetable';
 
 // Hour Management Components
-export { TeacherHourDashboard } from './TeacherHourDashboard';
\ No newline at end of file
+export { TeacherHourDashboard } from './TeacherHourDashboard';
+
+// Substitution Components
+export { TeacherSubstitutions } from './TeacherSubstitutions';
+
+// Attendance Components
+export { LiveAttendance } from './LiveAttendance';
+export { TeacherInterventions } from './TeacherInterventions';
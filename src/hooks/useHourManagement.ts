@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { hourManagementService } from '@/lib/services/hour-management-service';
+import { logger } from '@/lib/services';
 import { toast } from 'sonner';
 import type {
   HourPackage,
@@ -277,6 +278,15 @@ export const useHourManagement = (initialStudentId?: string): UseHourManagementR
       queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.purchases] });
       queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.balance, variables.studentId] });
       toast.success('Hours purchased successfully');
+
+      // Deferred payments are confirmed by the payment webhook instead
+      if (data?.paymentStatus === 'completed') {
+        fetch('/api/billing/documents', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'send_purchase_confirmation', purchase_id: data.id })
+        }).catch(error => logger.error('Failed to send purchase confirmation:', error));
+      }
     },
     onError: (error: Error) => {
       toast.error(error.message);
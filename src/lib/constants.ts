@@ -342,6 +342,74 @@ export const COURSE_TYPE_CAPACITY = {
   '1-on-1': { min: 1, max: 1, optimal: 1 },
 } as const
 
+export const WAITLIST_OFFER = {
+  DEFAULT_WINDOW_HOURS: 24,
+  MIN_WINDOW_HOURS: 1,
+  MAX_WINDOW_HOURS: 72,
+  RESERVED_HOURS: 1, // Hours held from the student's balance while an offer is open
+} as const
+
+export const WAITLIST_OFFER_STATUS = {
+  PENDING: 'pending',
+  ACCEPTED: 'accepted',
+  DECLINED: 'declined',
+  EXPIRED: 'expired',
+  CANCELLED: 'cancelled',
+} as const
+
+export const SUBSTITUTION_OFFER = {
+  WINDOW_MINUTES: 30,
+  MIN_LEAD_MINUTES: 10, // Offers close this long before the session starts
+} as const
+
+export const SUBSTITUTION_REQUEST_STATUS = {
+  SEARCHING: 'searching',
+  OFFERED: 'offered',
+  FILLED: 'filled',
+  UNFILLED: 'unfilled',
+  CANCELLED: 'cancelled',
+} as const
+
+export const SUBSTITUTION_OFFER_STATUS = {
+  PENDING: 'pending',
+  ACCEPTED: 'accepted',
+  DECLINED: 'declined',
+  EXPIRED: 'expired',
+  CANCELLED: 'cancelled',
+} as const
+
+export const ATTENDANCE_CHECK_IN = {
+  CODE_ROTATION_SECONDS: 30,
+  LATE_GRACE_MINUTES: 10,
+  ABSENT_AFTER_MINUTES: 30,
+  CORRECTION_WINDOW_HOURS: 48,
+  SWEEP_DELAY_MINUTES: 15, // Sessions are finalized this long after they end
+} as const
+
+export const ATTENDANCE_INTERVENTION = {
+  CONSECUTIVE_ABSENCES: 3,
+  MIN_ATTENDANCE_RATE: 0.6, // Matches the analytics definition of chronically absent
+  RATE_DROP: 0.25, // Fall from the previous window to the recent one
+  PREDICTED_DROPOUT_RATE: 0.4, // Projected rate four weeks ahead
+  WINDOW_DAYS: 28,
+  MIN_SESSIONS: 3, // Sessions needed in a window before its rate counts
+  CALL_AFTER_DAYS: 2,
+  MAKEUP_OFFER_AFTER_DAYS: 5,
+  FOLLOW_UP_DAYS: 28, // Monitoring period before the outcome is measured
+  IMPROVEMENT_MARGIN: 0.1,
+} as const
+
+export const INTERVENTION_CASE_STATUS = {
+  OPEN: 'open',
+  MONITORING: 'monitoring',
+  CLOSED: 'closed',
+} as const
+
+export const FEEDBACK_PROMPT = {
+  LOOKBACK_HOURS: 48, // Attendance recorded this recently is considered for a prompt
+  THROTTLE_WINDOW_DAYS: 7,
+} as const
+
 export const ENROLLMENT_STATUS = {
   ENROLLED: 'enrolled',
   WAITLISTED: 'waitlisted',
@@ -0,0 +1,250 @@
+import {
+  AttendanceCheckInService,
+  getCheckInCode,
+  inferAttendanceStatus,
+  isValidCheckInCode
+} from '../attendance-check-in-service';
+import { mockSupabaseClient } from '@/__mocks__/supabase-query';
+
+const mockClient = (tables: Record<string, any[]>, rpcResults: Record<string, any> = {}) =>
+  mockSupabaseClient(tables, { rpc: (name: string) => Promise.resolve(rpcResults[name] ?? { data: null, error: null }) });
+
+// Decides with a flat policy: absent costs half, excused nothing
+const mockPolicies = () => ({
+  decideDeduction: jest.fn(async ({ status }: { status: string }) => {
+    const rate = ({ present: 1, late: 1, absent: 0.5, excused: 0 } as Record<string, number>)[status];
+    return { success: true, data: { policyId: 'policy-1', policyVersion: 2, status, rate, reason: `${status} under policy v2` } };
+  })
+});
+
+const SECRET = '5f0e2a8c-1c1d-4a8e-9a57-3e1f9d7c2b10';
+const START = '2030-03-04T09:00:00.000Z';
+const at = (minutes: number) => new Date(new Date(START).getTime() + minutes * 60 * 1000);
+
+const sessionRow = (overrides: Record<string, any> = {}) => ({
+  id: 'session-1',
+  class_id: 'class-1',
+  start_time: START,
+  end_time: '2030-03-04T10:00:00.000Z',
+  delivery_mode: 'in_person',
+  code_secret: SECRET,
+  late_grace_minutes: 10,
+  absent_after_minutes: 30,
+  status: 'open',
+  ...overrides
+});
+
+const bookingRow = (id: string, studentId: string) => ({
+  id,
+  student_id: studentId,
+  class_id: 'class-1',
+  start_time: START,
+  duration_minutes: 60,
+  student: { full_name: studentId },
+  class: { course: { course_type: 'Everyday A' } }
+});
+
+describe('check-in codes', () => {
+  it('should rotate and accept the current and previous code only', () => {
+    const code = getCheckInCode(SECRET, at(0));
+
+    expect(code).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+    expect(getCheckInCode(SECRET, at(0.25))).toBe(code);
+    expect(isValidCheckInCode(SECRET, ` ${code.toLowerCase()} `, at(0))).toBe(true);
+    expect(isValidCheckInCode(SECRET, code, at(0.5))).toBe(true);
+    expect(isValidCheckInCode(SECRET, code, at(1.5))).toBe(false);
+    expect(isValidCheckInCode('another-secret', code, at(0))).toBe(false);
+  });
+});
+
+describe('inferAttendanceStatus', () => {
+  it('should apply the grace periods', () => {
+    const grace = { lateGraceMinutes: 10, absentAfterMinutes: 30 };
+
+    expect(inferAttendanceStatus(at(-5), START, grace)).toBe('present');
+    expect(inferAttendanceStatus(at(10), START, grace)).toBe('present');
+    expect(inferAttendanceStatus(at(12), START, grace)).toBe('late');
+    expect(inferAttendanceStatus(at(30), START, grace)).toBe('absent');
+  });
+});
+
+describe('AttendanceCheckInService', () => {
+  it('should check a booked student in as late with a valid code', async () => {
+    const { client, calls } = mockClient({
+      attendance_sessions: [{ data: sessionRow(), error: null }],
+      bookings: [{ data: bookingRow('booking-1', 'student-1'), error: null }],
+      attendance: [
+        { data: null, error: null },
+        { data: { id: 'attendance-1', status: 'late', check_in_method: 'code', checked_in_at: at(15).toISOString() }, error: null }
+      ]
+    });
+    const service = new AttendanceCheckInService(client);
+
+    const result = await service.checkIn({
+      sessionId: 'session-1',
+      studentId: 'student-1',
+      method: 'code',
+      code: getCheckInCode(SECRET, at(15)),
+      at: at(15)
+    });
+
+    expect(result.data?.status).toBe('late');
+    expect(calls.attendance[1].insert).toHaveBeenCalledWith(expect.objectContaining({
+      booking_id: 'booking-1',
+      session_id: 'session-1',
+      status: 'late',
+      check_in_method: 'code',
+      hours_deducted: 0
+    }));
+  });
+
+  it('should reject a wrong code and check-in after the session is finalized', async () => {
+    const { client } = mockClient({
+      attendance_sessions: [
+        { data: sessionRow(), error: null },
+        { data: sessionRow({ status: 'finalized' }), error: null }
+      ]
+    });
+    const service = new AttendanceCheckInService(client);
+    const request = { sessionId: 'session-1', studentId: 'student-1', method: 'code' as const, code: 'ZZZZZZ', at: at(0) };
+
+    expect((await service.checkIn(request)).error?.code).toBe('INVALID_CODE');
+    expect((await service.checkIn(request)).error?.code).toBe('SESSION_CLOSED');
+  });
+
+  it('should only accept joining online as a check-in for online classes', async () => {
+    const { client, calls } = mockClient({
+      attendance_sessions: [{ data: sessionRow(), error: null }]
+    });
+    const service = new AttendanceCheckInService(client);
+
+    const result = await service.checkIn({ sessionId: 'session-1', studentId: 'student-1', method: 'online_join', at: at(0) });
+
+    expect(result.error?.code).toBe('NOT_ONLINE');
+    expect(calls.attendance).toBeUndefined();
+  });
+
+  it('should record an online join only when the class has a meeting link', async () => {
+    const { client, calls } = mockClient({
+      attendance_sessions: [
+        { data: { class: { meeting_link: null } }, error: null },
+        { data: { class: { meeting_link: 'https://app.test/meet/1' } }, error: null },
+        { data: sessionRow({ delivery_mode: 'online' }), error: null }
+      ],
+      bookings: [{ data: bookingRow('booking-1', 'student-1'), error: null }],
+      attendance: [
+        { data: null, error: null },
+        { data: { id: 'attendance-1', status: 'present', check_in_method: 'online_join', checked_in_at: at(2).toISOString() }, error: null }
+      ]
+    });
+    const service = new AttendanceCheckInService(client);
+
+    expect((await service.recordJoin('session-1', 'student-1', at(2))).error?.code).toBe('NO_MEETING_LINK');
+    expect(calls.attendance).toBeUndefined();
+
+    const joined = await service.recordJoin('session-1', 'student-1', at(2));
+
+    expect(joined.data?.joinUrl).toBe('https://app.test/meet/1');
+    expect(calls.attendance[1].insert).toHaveBeenCalledWith(expect.objectContaining({ check_in_method: 'online_join', status: 'present' }));
+  });
+
+  it('should mark students who never checked in absent and deduct hours under their policy', async () => {
+    const { client, calls } = mockClient(
+      {
+        attendance_sessions: [
+          { data: [sessionRow()], error: null },
+          { data: [{ id: 'session-1' }], error: null }
+        ],
+        bookings: [{ data: [bookingRow('booking-1', 'student-1'), bookingRow('booking-2', 'student-2')], error: null }],
+        attendance: [
+          { data: [{ id: 'attendance-1', booking_id: 'booking-1', status: 'present', policy_id: null }], error: null },
+          { data: null, error: null },
+          { data: { id: 'attendance-2', booking_id: 'booking-2', status: 'absent' }, error: null },
+          { data: null, error: null }
+        ]
+      },
+      { deduct_class_hours: { data: 'transaction-1', error: null } }
+    );
+    const policies = mockPolicies();
+    const service = new AttendanceCheckInService(client, policies as any);
+
+    const result = await service.sweepNoShows(at(90));
+
+    expect(result).toEqual({ sessionsFinalized: 1, absencesMarked: 1, deductions: 2, errors: [] });
+    expect(calls.attendance_sessions[0].lte).toHaveBeenCalledWith('end_time', at(75).toISOString());
+    expect(calls.attendance_sessions[1].update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'finalized',
+      correction_deadline: '2030-03-06T10:30:00.000Z'
+    }));
+    expect(calls.attendance[2].insert).toHaveBeenCalledWith(expect.objectContaining({
+      booking_id: 'booking-2',
+      status: 'absent',
+      check_in_method: 'auto'
+    }));
+    expect(client.rpc).toHaveBeenCalledWith('deduct_class_hours', expect.objectContaining({
+      p_booking_id: 'booking-1',
+      p_hours_to_deduct: 1,
+      p_deduction_rate: 1
+    }));
+    expect(client.rpc).toHaveBeenCalledWith('deduct_class_hours', expect.objectContaining({
+      p_booking_id: 'booking-2',
+      p_class_type: 'Everyday A',
+      p_deduction_rate: 0.5
+    }));
+    expect(policies.decideDeduction).toHaveBeenCalledWith(expect.objectContaining({
+      studentId: 'student-2',
+      courseType: 'Everyday A',
+      status: 'absent',
+      sessionStart: START
+    }));
+    expect(calls.attendance[1].update).toHaveBeenCalledWith(expect.objectContaining({
+      hours_deducted: 1,
+      hour_transaction_id: 'transaction-1',
+      policy_id: 'policy-1',
+      policy_version: 2
+    }));
+  });
+
+  it('should reverse the deduction when a finalized status is corrected to excused', async () => {
+    const { client, calls } = mockClient({
+      attendance_sessions: [{ data: sessionRow({ status: 'finalized', correction_deadline: at(60 * 24).toISOString() }), error: null }],
+      bookings: [{ data: bookingRow('booking-1', 'student-1'), error: null }],
+      attendance: [
+        { data: { id: 'attendance-1', status: 'absent', hour_transaction_id: 'transaction-1', hours_deducted: 1 }, error: null },
+        { data: { id: 'attendance-1', status: 'excused', hour_transaction_id: 'transaction-1' }, error: null },
+        { data: null, error: null }
+      ]
+    });
+    const service = new AttendanceCheckInService(client, mockPolicies() as any);
+
+    const result = await service.markAttendance({
+      sessionId: 'session-1',
+      bookingId: 'booking-1',
+      status: 'excused',
+      teacherId: 'teacher-1',
+      now: at(120)
+    });
+
+    expect(result.data).toEqual(expect.objectContaining({ status: 'excused', hoursDeducted: 0 }));
+    expect(client.rpc).toHaveBeenCalledTimes(1);
+    expect(client.rpc).toHaveBeenCalledWith('reverse_class_deduction', expect.objectContaining({ p_transaction_id: 'transaction-1' }));
+    expect(calls.attendance[1].update).toHaveBeenCalledWith(expect.objectContaining({ status: 'excused', corrected_by: 'teacher-1' }));
+    expect(calls.attendance[2].update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'excused',
+      hours_deducted: 0,
+      hour_transaction_id: null,
+      policy_version: 2
+    }));
+  });
+
+  it('should refuse corrections after the correction window', async () => {
+    const { client } = mockClient({
+      attendance_sessions: [{ data: sessionRow({ status: 'finalized', correction_deadline: at(60).toISOString() }), error: null }]
+    });
+    const service = new AttendanceCheckInService(client);
+
+    const result = await service.markAttendance({ sessionId: 'session-1', bookingId: 'booking-1', status: 'present', now: at(120) });
+
+    expect(result.error?.code).toBe('CORRECTION_WINDOW_CLOSED');
+  });
+});
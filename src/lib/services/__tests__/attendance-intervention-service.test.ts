@@ -0,0 +1,257 @@
+import {
+  AttendanceInterventionService,
+  assessAttendanceRisk,
+  buildOutreachPlan,
+  getInterventionOutcome
+} from '../attendance-intervention-service';
+import type { StudentAttendanceHistory } from '@/types/intervention';
+import { mockSupabaseClient } from '@/__mocks__/supabase-query';
+
+const mockMailer = () => ({ addToQueue: jest.fn().mockResolvedValue('email-1') });
+
+const NOW = new Date('2030-03-14T09:00:00.000Z');
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const sessions = (entries: Array<[number, StudentAttendanceHistory['sessions'][number]['status']]>) =>
+  entries.map(([days, status]) => ({ status, startTime: daysAgo(days), classId: 'class-1', teacherId: 'teacher-1' }));
+
+const caseRow = (overrides: Record<string, any> = {}) => ({
+  id: 'case-1',
+  student_id: 'student-1',
+  class_id: 'class-1',
+  status: 'open',
+  risk_level: 'medium',
+  triggers: [],
+  baseline_rate: '0.6250',
+  current_rate: null,
+  assigned_teacher_id: 'teacher-1',
+  opened_at: NOW.toISOString(),
+  steps: [],
+  ...overrides
+});
+
+describe('assessAttendanceRisk', () => {
+  it('should flag absences in a row as medium risk', () => {
+    const result = assessAttendanceRisk(sessions([
+      [27, 'present'], [26, 'present'], [25, 'present'], [24, 'present'], [23, 'present'],
+      [3, 'absent'], [2, 'absent'], [1, 'absent']
+    ]), NOW);
+
+    expect(result.triggers).toEqual([{ type: 'consecutive_absences', value: 3, detail: '3 absences in a row' }]);
+    expect(result.riskLevel).toBe('medium');
+    expect(result.recentRate).toBeCloseTo(0.625);
+  });
+
+  it('should flag a falling rate and a projected dropout as high risk', () => {
+    const result = assessAttendanceRisk(sessions([
+      [50, 'present'], [43, 'present'], [36, 'present'], [29, 'present'],
+      [22, 'present'], [15, 'absent'], [8, 'absent'], [1, 'present']
+    ]), NOW);
+
+    expect(result.triggers.map(trigger => trigger.type)).toEqual(['low_attendance_rate', 'falling_attendance_rate', 'predicted_dropout']);
+    expect(result.triggers[1].detail).toBe('Attendance fell from 100% to 50%');
+    expect(result.riskLevel).toBe('high');
+  });
+
+  it('should ignore excused sessions', () => {
+    const result = assessAttendanceRisk(sessions([
+      [20, 'present'], [10, 'absent'], [8, 'excused'], [5, 'absent'], [3, 'excused'], [1, 'absent']
+    ]), NOW);
+
+    expect(result.triggers[0]).toEqual(expect.objectContaining({ type: 'consecutive_absences', value: 3 }));
+    expect(result.recentRate).toBeCloseTo(0.25);
+  });
+
+  it('should leave steady attendance alone', () => {
+    const result = assessAttendanceRisk(sessions([
+      [22, 'present'], [15, 'absent'], [8, 'late'], [1, 'present']
+    ]), NOW);
+
+    expect(result.triggers).toEqual([]);
+    expect(result.riskLevel).toBeUndefined();
+  });
+});
+
+describe('getInterventionOutcome', () => {
+  it('should compare against the rate at opening', () => {
+    expect(getInterventionOutcome(0.4, 0.75)).toBe('improved');
+    expect(getInterventionOutcome(0.5, 0.55)).toBe('no_change');
+    expect(getInterventionOutcome(0.5, 0.2)).toBe('worsened');
+    expect(getInterventionOutcome(0.5, undefined)).toBe('withdrawn');
+  });
+});
+
+describe('buildOutreachPlan', () => {
+  it('should schedule the email, call and make-up offer', () => {
+    expect(buildOutreachPlan(NOW)).toEqual([
+      { type: 'email', sequence: 1, dueAt: NOW.toISOString() },
+      { type: 'call', sequence: 2, dueAt: '2030-03-16T09:00:00.000Z' },
+      { type: 'makeup_offer', sequence: 3, dueAt: '2030-03-19T09:00:00.000Z' }
+    ]);
+  });
+});
+
+describe('AttendanceInterventionService', () => {
+  const attendanceRow = (days: number, status: string, studentId = 'student-1') => ({
+    status,
+    booking: { student_id: studentId, class_id: 'class-1', start_time: daysAgo(days), class: { teacher_id: 'teacher-1' } }
+  });
+
+  it('should open a case for the class teacher and send the first email', async () => {
+    const { client, calls } = mockSupabaseClient({
+      attendance: [{
+        data: [
+          attendanceRow(27, 'present'), attendanceRow(26, 'present'), attendanceRow(25, 'present'),
+          attendanceRow(24, 'present'), attendanceRow(23, 'present'),
+          attendanceRow(3, 'absent'), attendanceRow(2, 'absent'), attendanceRow(1, 'absent')
+        ],
+        error: null
+      }],
+      intervention_cases: [
+        { data: [], error: null },
+        { data: [], error: null },
+        { data: { id: 'case-1' }, error: null },
+        { data: caseRow(), error: null }
+      ],
+      intervention_steps: [{ data: null, error: null }, { data: null, error: null }],
+      students: [{ data: { email: 'student@example.com', full_name: 'Ana' }, error: null }]
+    });
+    const mailer = mockMailer();
+    const service = new AttendanceInterventionService(client, mailer);
+
+    const result = await service.sweep(NOW);
+
+    expect(result).toEqual({ studentsAssessed: 1, casesOpened: 1, casesClosed: 0, errors: [] });
+    expect(calls.attendance[0].range).toHaveBeenCalledWith(0, 999);
+    expect(calls.intervention_cases[2].insert).toHaveBeenCalledWith(expect.objectContaining({
+      student_id: 'student-1',
+      class_id: 'class-1',
+      assigned_teacher_id: 'teacher-1',
+      risk_level: 'medium',
+      baseline_rate: 0.625
+    }));
+    expect(calls.intervention_steps[0].insert).toHaveBeenCalledWith(expect.arrayContaining([
+      expect.objectContaining({ step_type: 'call', sequence: 2 })
+    ]));
+    expect(mailer.addToQueue).toHaveBeenCalledWith(
+      expect.objectContaining({ to: [{ email: 'student@example.com', name: 'Ana' }] }),
+      expect.anything()
+    );
+    expect(calls.intervention_steps[1].update).toHaveBeenCalledWith(expect.objectContaining({ status: 'done' }));
+    expect(calls.intervention_steps[1].eq).toHaveBeenCalledWith('sequence', 1);
+  });
+
+  it('should close a monitored case with the measured outcome once follow-up is due', async () => {
+    const { client, calls } = mockSupabaseClient({
+      attendance: [{
+        data: [attendanceRow(30, 'absent'), attendanceRow(20, 'present'), attendanceRow(13, 'late'), attendanceRow(6, 'present'), attendanceRow(1, 'absent')],
+        error: null
+      }],
+      intervention_cases: [
+        {
+          data: [{ id: 'case-1', student_id: 'student-1', status: 'monitoring', opened_at: daysAgo(25), follow_up_at: daysAgo(1), baseline_rate: '0.4000' }],
+          error: null
+        },
+        { data: [], error: null },
+        { data: null, error: null },
+        { data: caseRow({ status: 'closed', outcome: 'improved' }), error: null }
+      ]
+    });
+    const service = new AttendanceInterventionService(client, mockMailer());
+
+    const result = await service.sweep(NOW);
+
+    expect(result).toEqual({ studentsAssessed: 0, casesOpened: 0, casesClosed: 1, errors: [] });
+    expect(calls.intervention_cases[2].update).toHaveBeenCalledWith(expect.objectContaining({ status: 'closed', outcome: 'improved' }));
+    expect(calls.intervention_steps[0].update).toHaveBeenCalledWith(expect.objectContaining({ status: 'skipped' }));
+  });
+
+  it('should read attendance a page at a time', async () => {
+    const fullPage = Array.from({ length: 1000 }, () => attendanceRow(20, 'present', 'student-2'));
+    const { client, calls } = mockSupabaseClient({
+      attendance: [
+        { data: fullPage, error: null },
+        { data: [attendanceRow(3, 'absent'), attendanceRow(2, 'absent'), attendanceRow(1, 'absent')], error: null }
+      ],
+      intervention_cases: [{ data: [], error: null }, { data: [], error: null }, { data: null, error: { code: '23505' } }]
+    });
+    const service = new AttendanceInterventionService(client, mockMailer());
+
+    const result = await service.sweep(NOW);
+
+    expect(calls.attendance[1].range).toHaveBeenCalledWith(1000, 1999);
+    expect(result.studentsAssessed).toBe(2);
+    expect(calls.intervention_cases[2].insert).toHaveBeenCalledWith(expect.objectContaining({ student_id: 'student-1' }));
+  });
+
+  it('should not reopen a case from attendance weighed before it closed', async () => {
+    const { client, calls } = mockSupabaseClient({
+      attendance: [{
+        data: [attendanceRow(6, 'absent'), attendanceRow(5, 'absent'), attendanceRow(4, 'absent'), attendanceRow(1, 'present')],
+        error: null
+      }],
+      intervention_cases: [
+        { data: [], error: null },
+        { data: [{ student_id: 'student-1', closed_at: daysAgo(2) }], error: null }
+      ]
+    });
+    const service = new AttendanceInterventionService(client, mockMailer());
+
+    const result = await service.sweep(NOW);
+
+    expect(result).toEqual({ studentsAssessed: 1, casesOpened: 0, casesClosed: 0, errors: [] });
+    expect(calls.intervention_cases[1].eq).toHaveBeenCalledWith('status', 'closed');
+    expect(calls.intervention_cases).toHaveLength(2);
+  });
+
+  it('should require a class for a make-up offer', async () => {
+    const { client } = mockSupabaseClient({
+      intervention_steps: [{ data: { id: 'step-3', case_id: 'case-1', step_type: 'makeup_offer', status: 'pending', case: { id: 'case-1', student_id: 'student-1', status: 'open' } }, error: null }]
+    });
+    const service = new AttendanceInterventionService(client, mockMailer());
+
+    const result = await service.completeStep('step-3', {}, NOW);
+
+    expect(result.error?.code).toBe('MAKEUP_CLASS_REQUIRED');
+  });
+
+  it('should log the call and move the case to monitoring after the last step', async () => {
+    const { client, calls } = mockSupabaseClient({
+      intervention_steps: [
+        { data: { id: 'step-2', case_id: 'case-1', step_type: 'call', status: 'pending', case: { id: 'case-1', student_id: 'student-1', status: 'open' } }, error: null },
+        { data: null, error: null },
+        { data: [], error: null }
+      ],
+      intervention_cases: [
+        { data: null, error: null },
+        { data: caseRow({ status: 'monitoring' }), error: null }
+      ]
+    });
+    const service = new AttendanceInterventionService(client, mockMailer());
+
+    const result = await service.completeStep('step-2', { callOutcome: 'reached', notes: 'Back next week' }, NOW);
+
+    expect(result.data?.status).toBe('monitoring');
+    expect(calls.intervention_steps[1].update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'done',
+      call_outcome: 'reached',
+      completed_by: 'admin-1'
+    }));
+    expect(calls.intervention_cases[0].update).toHaveBeenCalledWith({
+      status: 'monitoring',
+      follow_up_at: '2030-04-11T09:00:00.000Z'
+    });
+  });
+
+  it('should not record a step twice', async () => {
+    const { client } = mockSupabaseClient({
+      intervention_steps: [{ data: { id: 'step-2', case_id: 'case-1', step_type: 'call', status: 'done', case: { status: 'open' } }, error: null }]
+    });
+    const service = new AttendanceInterventionService(client, mockMailer());
+
+    const result = await service.completeStep('step-2', { callOutcome: 'reached' }, NOW);
+
+    expect(result.error?.code).toBe('STEP_NOT_PENDING');
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  AttendancePolicyService,
+  decideAttendanceDeduction,
+  getPackageTier,
+  selectAttendancePolicy
+} from '../attendance-policy-service';
+import type { AttendancePolicy } from '@/types/attendance';
+import { mockSupabaseClient } from '@/__mocks__/supabase-query';
+
+const SESSION_START = '2030-03-14T09:00:00.000Z';
+
+const policy = (overrides: Partial<AttendancePolicy> = {}): AttendancePolicy => ({
+  id: 'policy-default',
+  version: 1,
+  rates: { present: 1, late: 1, absent: 1, excused: 0 },
+  effectiveFrom: '2030-01-01T00:00:00.000Z',
+  createdAt: '2030-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const policyRow = (overrides: Record<string, any> = {}) => ({
+  id: 'policy-row',
+  course_type: null,
+  package_tier: null,
+  version: 1,
+  present_rate: '1.00',
+  late_rate: '1.00',
+  absent_rate: '1.00',
+  excused_rate: '0.00',
+  excuse_notice_hours: null,
+  max_excused_per_month: null,
+  effective_from: '2030-01-01T00:00:00.000Z',
+  superseded_at: null,
+  created_at: '2030-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('getPackageTier', () => {
+  it('should read the tier from the package type', () => {
+    expect(getPackageTier('premium_20')).toBe('premium');
+    expect(getPackageTier('trial_2')).toBe('trial');
+    expect(getPackageTier('custom')).toBe('custom');
+    expect(getPackageTier(undefined)).toBeUndefined();
+  });
+});
+
+describe('selectAttendancePolicy', () => {
+  const at = new Date(SESSION_START);
+  const policies = [
+    policy(),
+    policy({ id: 'premium', packageTier: 'premium' }),
+    policy({ id: 'speak-up', courseType: 'Speak Up' }),
+    policy({ id: 'speak-up-premium', courseType: 'Speak Up', packageTier: 'premium' }),
+    policy({ id: 'speak-up-old', courseType: 'Speak Up', version: 0, supersededAt: '2030-02-01T00:00:00.000Z' })
+  ];
+
+  it('should prefer the most specific policy in effect', () => {
+    expect(selectAttendancePolicy(policies, 'Speak Up', 'premium', at)?.id).toBe('speak-up-premium');
+    expect(selectAttendancePolicy(policies, 'Speak Up', 'standard', at)?.id).toBe('speak-up');
+    expect(selectAttendancePolicy(policies, 'Basic', 'premium', at)?.id).toBe('premium');
+    expect(selectAttendancePolicy(policies, 'Basic', undefined, at)?.id).toBe('policy-default');
+  });
+
+  it('should use the version in effect when the session started', () => {
+    const history = [
+      policy({ id: 'v1', supersededAt: '2030-03-10T00:00:00.000Z' }),
+      policy({ id: 'v2', version: 2, effectiveFrom: '2030-03-10T00:00:00.000Z' })
+    ];
+
+    expect(selectAttendancePolicy(history, 'Basic', undefined, new Date('2030-03-09T09:00:00.000Z'))?.id).toBe('v1');
+    expect(selectAttendancePolicy(history, 'Basic', undefined, at)?.id).toBe('v2');
+  });
+});
+
+describe('decideAttendanceDeduction', () => {
+  const rules = policy({ version: 3, rates: { present: 1, late: 0.5, absent: 1, excused: 0 }, excuseNoticeHours: 24, maxExcusedPerMonth: 2 });
+
+  it('should charge the rate for the status', () => {
+    expect(decideAttendanceDeduction(rules, { status: 'late' })).toEqual({
+      policyId: 'policy-default',
+      policyVersion: 3,
+      status: 'late',
+      rate: 0.5,
+      reason: 'Late: 50% of class hours under policy v3'
+    });
+  });
+
+  it('should excuse an absence notified far enough ahead', () => {
+    expect(decideAttendanceDeduction(rules, { status: 'absent', noticeHours: 30 })).toEqual(expect.objectContaining({ status: 'excused', rate: 0 }));
+    expect(decideAttendanceDeduction(rules, { status: 'absent', noticeHours: 12 })).toEqual(expect.objectContaining({ status: 'absent', rate: 1 }));
+  });
+
+  it('should charge excused absences past the monthly limit as absent', () => {
+    const decision = decideAttendanceDeduction(rules, { status: 'excused', excusedThisMonth: 2 });
+
+    expect(decision).toEqual(expect.objectContaining({ status: 'excused', rate: 1 }));
+    expect(decision.reason).toContain('over the limit of 2 excused absences a month');
+  });
+});
+
+describe('AttendancePolicyService', () => {
+  it('should publish a new version and supersede the current one', async () => {
+    const { client, calls } = mockSupabaseClient({
+      attendance_policies: [
+        { data: { id: 'policy-1', version: 2 }, error: null },
+        { data: policyRow({ id: 'policy-2', course_type: 'Speak Up', version: 3, late_rate: '0.50' }), error: null },
+        { data: null, error: null }
+      ]
+    });
+    const service = new AttendancePolicyService(client);
+
+    const result = await service.publishPolicy({
+      courseType: 'Speak Up',
+      rates: { present: 1, late: 0.5, absent: 1, excused: 0 },
+      effectiveFrom: '2030-04-01T00:00:00.000Z'
+    });
+
+    expect(result.data).toEqual(expect.objectContaining({ version: 3, courseType: 'Speak Up' }));
+    expect(calls.attendance_policies[0].eq).toHaveBeenCalledWith('course_type', 'Speak Up');
+    expect(calls.attendance_policies[0].is).toHaveBeenCalledWith('package_tier', null);
+    expect(calls.attendance_policies[1].insert).toHaveBeenCalledWith(expect.objectContaining({ version: 3, late_rate: 0.5, created_by: 'admin-1' }));
+    expect(calls.attendance_policies[2].update).toHaveBeenCalledWith({ superseded_at: '2030-04-01T00:00:00.000Z' });
+  });
+
+  it('should reject negative rates', async () => {
+    const service = new AttendancePolicyService(mockSupabaseClient({}).client);
+
+    const result = await service.publishPolicy({ rates: { present: 1, late: -1, absent: 1, excused: 0 } });
+
+    expect(result.error?.code).toBe('INVALID_POLICY');
+  });
+
+  it("should decide under the student's tier and turn a notified absence into an excused one", async () => {
+    const { client, calls } = mockSupabaseClient({
+      attendance_policies: [{
+        data: [
+          policyRow(),
+          policyRow({ id: 'premium', package_tier: 'premium', version: 4, excuse_notice_hours: 24, max_excused_per_month: 3 })
+        ],
+        error: null
+      }],
+      hour_purchases: [{ data: [{ package: { package_type: 'premium_20' } }], error: null }],
+      leave_requests: [{ data: [{ created_at: '2030-03-12T09:00:00.000Z' }], error: null }],
+      attendance: [{ data: [{ id: 'attendance-9' }], error: null }]
+    });
+    const service = new AttendancePolicyService(client);
+
+    const result = await service.decideDeduction({
+      studentId: 'student-1',
+      courseType: 'Basic',
+      status: 'absent',
+      sessionStart: SESSION_START,
+      attendanceId: 'attendance-1'
+    });
+
+    expect(result.data).toEqual(expect.objectContaining({ policyId: 'premium', policyVersion: 4, status: 'excused', rate: 0 }));
+    expect(calls.leave_requests[0].lte).toHaveBeenCalledWith('start_date', '2030-03-14');
+    expect(calls.attendance[0].neq).toHaveBeenCalledWith('id', 'attendance-1');
+  });
+});
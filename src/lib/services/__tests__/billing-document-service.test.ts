@@ -0,0 +1,216 @@
+import {
+  BillingDocumentService,
+  calculateBillingTotals,
+  renderBillingDocumentHtml,
+  renderBillingDocumentPdf
+} from '../billing-document-service';
+import type { BillingDocument } from '@/types/billing';
+import { mockSupabaseClient } from '@/__mocks__/supabase-query';
+
+const baseDocument: BillingDocument = {
+  id: 'doc-1',
+  documentNumber: 'INV-2025-000001',
+  documentType: 'invoice',
+  status: 'paid',
+  purchaseId: 'purchase-1',
+  studentId: 'student-1',
+  issueDate: '2025-07-21T00:00:00.000Z',
+  seller: { name: 'HeyPeter Academy', email: 'billing@heypeter.academy', addressLines: [] },
+  buyer: { name: '<script>alert(1)</script>', addressLines: ['1 Main St'] },
+  currency: 'USD',
+  lineItems: [{ description: 'Standard Package (10 hours)', quantity: 1, unitPrice: 150, amount: 150 }],
+  taxLines: [],
+  subtotal: 150,
+  taxTotal: 0,
+  total: 150,
+  createdAt: '2025-07-21T00:00:00.000Z'
+};
+
+describe('calculateBillingTotals', () => {
+  const lineItems = [{ description: 'Hours', quantity: 1, unitPrice: 107, amount: 107 }];
+
+  it('should return the line total when no taxes apply', () => {
+    expect(calculateBillingTotals(lineItems, [])).toEqual({
+      subtotal: 107,
+      taxTotal: 0,
+      total: 107,
+      taxLines: []
+    });
+  });
+
+  it('should extract inclusive taxes from the line amounts', () => {
+    const totals = calculateBillingTotals(lineItems, [{ name: 'VAT', rate: 7, inclusive: true }]);
+
+    expect(totals.subtotal).toBe(100);
+    expect(totals.taxTotal).toBe(7);
+    expect(totals.total).toBe(107);
+  });
+
+  it('should add exclusive taxes on top of the net amount', () => {
+    const totals = calculateBillingTotals(lineItems, [{ name: 'Sales tax', rate: 10, inclusive: false }]);
+
+    expect(totals.subtotal).toBe(107);
+    expect(totals.taxTotal).toBe(10.7);
+    expect(totals.total).toBe(117.7);
+  });
+});
+
+describe('billing document rendering', () => {
+  it('should escape buyer details in HTML', () => {
+    const html = renderBillingDocumentHtml(baseDocument);
+
+    expect(html).toContain('INV-2025-000001');
+    expect(html).not.toContain('<script>alert(1)</script>');
+  });
+
+  it('should render a PDF document', () => {
+    const bytes = renderBillingDocumentPdf(baseDocument);
+    const text = String.fromCharCode(...Array.from(bytes));
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain('INV-2025-000001');
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+});
+
+describe('BillingDocumentService', () => {
+  it('should return the existing credit note for a refund transaction', async () => {
+    const existing = {
+      id: 'credit-1',
+      document_number: 'CN-2025-000001',
+      document_type: 'credit_note',
+      status: 'issued',
+      purchase_id: 'purchase-1',
+      transaction_id: 'transaction-1',
+      student_id: 'student-1',
+      subtotal: '50.00',
+      tax_total: '0',
+      total: '50.00'
+    };
+    const client = {
+      from: jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          eq: jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({
+              maybeSingle: jest.fn().mockResolvedValue({ data: existing, error: null })
+            })
+          })
+        })
+      }),
+      rpc: jest.fn()
+    };
+
+    const result = await new BillingDocumentService(client).createCreditNoteForRefund('transaction-1');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.documentNumber).toBe('CN-2025-000001');
+    expect(result.data?.total).toBe(50);
+    expect(client.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to credit transactions that are not refunds', async () => {
+    const client = {
+      from: jest.fn()
+        .mockReturnValueOnce({
+          select: jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({
+              eq: jest.fn().mockReturnValue({
+                maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null })
+              })
+            })
+          })
+        })
+        .mockReturnValueOnce({
+          select: jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({
+              single: jest.fn().mockResolvedValue({
+                data: { id: 'transaction-2', transaction_type: 'deduction', purchase_id: 'purchase-1' },
+                error: null
+              })
+            })
+          })
+        }),
+      rpc: jest.fn()
+    };
+
+    const result = await new BillingDocumentService(client).createCreditNoteForRefund('transaction-2');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('CREDIT_NOTE_ERROR');
+  });
+
+  it('should credit an approved refund at its net amount', async () => {
+    const { client } = mockSupabaseClient({
+      billing_documents: [{ data: null, error: null }, { data: [], error: null }],
+      hour_transactions: [{
+        data: {
+          id: 'transaction-1',
+          transaction_type: 'refund',
+          purchase_id: 'purchase-1',
+          hours_amount: -4,
+          metadata: { refundRequestId: 'refund-1', refundAmount: 67 }
+        },
+        error: null
+      }],
+      hour_purchases: [{ data: { id: 'purchase-1', student_id: 'student-1', hours_purchased: 10, price_paid: 200 }, error: null }]
+    }, {
+      rpc: (_name, params) => Promise.resolve({ data: { ...params.p_document, id: 'credit-1' }, error: null })
+    });
+
+    const result = await new BillingDocumentService(client).createCreditNoteForRefund('transaction-1');
+
+    expect(result.data?.total).toBe(67);
+    expect(result.data?.lineItems[0]).toEqual(expect.objectContaining({ quantity: 4, amount: 67 }));
+  });
+
+  it('should cancel the unpaid invoice of a cancelled purchase with a numbered credit note', async () => {
+    const invoice = {
+      id: 'invoice-1',
+      document_number: 'INV-2025-000007',
+      document_type: 'invoice',
+      status: 'issued',
+      purchase_id: 'purchase-1',
+      student_id: 'student-1',
+      line_items: baseDocument.lineItems,
+      subtotal: '150.00',
+      tax_total: '0',
+      total: '150.00'
+    };
+    const { client, calls } = mockSupabaseClient({
+      billing_documents: [{ data: [invoice], error: null }, { data: null, error: null }],
+      hour_purchases: [{ data: { id: 'purchase-1', student_id: 'student-1', price_paid: 150, currency: 'USD' }, error: null }],
+      billing_settings: [{ data: null, error: null }],
+      profiles: [{ data: { full_name: 'Ana Lima', email: 'ana@example.com' }, error: null }]
+    }, {
+      rpc: (_name, params) => Promise.resolve({
+        data: { ...params.p_document, id: 'credit-1', document_number: 'CN-2025-000003' },
+        error: null
+      })
+    });
+
+    const result = await new BillingDocumentService(client).creditCancelledPurchase('purchase-1');
+
+    expect(result.data?.documentNumber).toBe('CN-2025-000003');
+    expect(result.data?.total).toBe(150);
+    expect(client.rpc).toHaveBeenCalledTimes(1);
+    expect(client.rpc).toHaveBeenCalledWith('issue_billing_document', {
+      p_document: expect.objectContaining({
+        document_type: 'credit_note',
+        related_document_id: 'invoice-1',
+        notes: 'Cancels invoice INV-2025-000007'
+      })
+    });
+    expect(calls.billing_documents[1].update).toHaveBeenCalledWith({ status: 'void' });
+  });
+
+  it('should leave paid invoices to the refund flow', async () => {
+    const { client } = mockSupabaseClient({
+      billing_documents: [{ data: [{ id: 'invoice-1', document_type: 'invoice', status: 'paid' }], error: null }]
+    });
+
+    const result = await new BillingDocumentService(client).creditCancelledPurchase('purchase-1');
+
+    expect(result).toEqual({ success: true, data: null });
+    expect(client.rpc).not.toHaveBeenCalled();
+  });
+});
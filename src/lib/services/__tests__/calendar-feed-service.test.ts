@@ -0,0 +1,118 @@
+import {
+  CalendarFeedService,
+  createBookingCalendarEvent,
+  groupTeacherSessions
+} from '../calendar-feed-service';
+import { buildIcsCalendar, createCalendarInviteAttachment, foldIcsLine } from '@/lib/utils/ical';
+import { mockQuery } from '@/__mocks__/supabase-query';
+
+const booking = createBookingCalendarEvent({
+  bookingId: 'booking-1',
+  courseName: 'Business English; Level 2',
+  teacherName: 'Peter',
+  startTime: '2025-08-04T09:00:00Z',
+  endTime: '2025-08-04T10:00:00Z',
+  joinLink: 'https://meet.example.com/abc',
+  sequence: 3
+});
+
+describe('ICS building', () => {
+  it('should write UTC times, escaped text and CRLF lines', () => {
+    const ics = buildIcsCalendar([booking], { name: 'HeyPeter Academy', stamp: new Date('2025-08-01T00:00:00Z') });
+
+    expect(ics).toContain('METHOD:PUBLISH\r\n');
+    expect(ics).toContain('UID:booking-booking-1@heypeter.academy\r\n');
+    expect(ics).toContain('DTSTART:20250804T090000Z\r\n');
+    expect(ics).toContain('SUMMARY:Class: Business English\\; Level 2\r\n');
+    expect(ics).toContain('DESCRIPTION:Teacher: Peter\\nJoin: https://meet.example.com/abc');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('should fold long lines at 75 octets', () => {
+    const folded = foldIcsLine(`DESCRIPTION:${'é'.repeat(60)}`).split('\r\n');
+
+    expect(folded.length).toBeGreaterThan(1);
+    folded.forEach(line => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+    expect(folded[1].startsWith(' ')).toBe(true);
+  });
+
+  it('should send updates as REQUEST and cancellations as CANCEL', () => {
+    const update = createCalendarInviteAttachment(booking, 'update');
+    const cancel = createCalendarInviteAttachment(booking, 'cancel');
+
+    expect(update.contentType).toBe('text/calendar; charset=utf-8; method=REQUEST');
+    expect(update.data).toContain('SEQUENCE:3');
+    expect(cancel.filename).toBe('cancel.ics');
+    expect(cancel.data).toContain('METHOD:CANCEL');
+    expect(cancel.data).toContain('STATUS:CANCELLED');
+  });
+});
+
+describe('groupTeacherSessions', () => {
+  it('should merge student bookings into one event per session', () => {
+    const cancelled = { ...booking, status: 'cancelled' as const, sequence: 5 };
+    const sessions = groupTeacherSessions([
+      { ...cancelled, classId: 'class-1', studentName: 'Ana' },
+      { ...booking, uid: 'b-2', classId: 'class-1', studentName: 'Ben' },
+      { ...booking, uid: 'b-3', startTime: '2025-08-05T09:00:00Z', classId: 'class-1', studentName: 'Ana' }
+    ]);
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0].description).toBe('Students: Ana, Ben');
+    expect(sessions[0].status).toBe('confirmed');
+    expect(sessions[0].sequence).toBe(5);
+    expect(sessions[0].uid).toMatch(/^class-class-1-/);
+  });
+});
+
+describe('CalendarFeedService', () => {
+  it('should return FEED_NOT_FOUND for unknown or revoked tokens', async () => {
+    const client = { from: jest.fn(() => mockQuery({ data: null, error: null })) };
+    const service = new CalendarFeedService(client);
+
+    const result = await service.renderFeed('missing');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('FEED_NOT_FOUND');
+  });
+
+  it('should render a student feed with bookings and make-up classes', async () => {
+    const results: Record<string, any[]> = {
+      calendar_feed_tokens: [
+        { data: { id: 'token-1', user_id: 'user-1', users: { timezone: 'Asia/Bangkok' } }, error: null },
+        { data: null, error: null }
+      ],
+      students: [{ data: { id: 'student-1' }, error: null }],
+      teachers: [{ data: null, error: null }],
+      bookings: [{
+        data: [{
+          id: 'booking-1',
+          start_time: '2025-08-04T09:00:00Z',
+          end_time: '2025-08-04T10:00:00Z',
+          status: 'confirmed',
+          classes: { class_name: 'Morning Group', courses: { title: 'Basic', course_type: 'Basic' } }
+        }],
+        error: null
+      }],
+      make_up_classes: [{
+        data: [{
+          id: 'makeup-1',
+          suggested_start_time: '2025-08-03T09:00:00Z',
+          suggested_end_time: '2025-08-03T10:00:00Z',
+          original_class: { class_name: 'Evening Group' }
+        }],
+        error: null
+      }]
+    };
+    const client = { from: jest.fn((table: string) => mockQuery(results[table].shift())) };
+    const service = new CalendarFeedService(client);
+
+    const result = await service.renderFeed('token');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toContain('X-WR-TIMEZONE:Asia/Bangkok');
+    expect(result.data!.indexOf('Make-up class: Evening Group')).toBeLessThan(
+      result.data!.indexOf('Class: Morning Group')
+    );
+  });
+});
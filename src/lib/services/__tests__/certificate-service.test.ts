@@ -0,0 +1,322 @@
+import {
+  CertificateService,
+  checkCertificateEligibility,
+  fillCertificateTemplate,
+  generateVerificationCode,
+  normalizeVerificationCode,
+  renderCertificatePdf
+} from '../certificate-service';
+import type { Certificate, CertificateRecord, CertificateTemplate } from '@/types/certificate';
+import { mockSupabaseClient } from '@/__mocks__/supabase-query';
+
+const template = (overrides: Partial<CertificateTemplate> = {}): CertificateTemplate => ({
+  id: 'template-1',
+  certificateType: 'completion',
+  courseType: 'Business English',
+  title: 'Certificate of Completion',
+  bodyText: '{{student_name}} completed {{course_title}} with {{attendance_rate}} attendance.',
+  minAttendanceRate: 0.8,
+  requiresCompletion: true,
+  requiresFinalAssessment: true,
+  isActive: true,
+  ...overrides
+});
+
+const record = (overrides: Partial<CertificateRecord> = {}): CertificateRecord => ({
+  studentId: 'student-1',
+  studentName: 'Ana Lima',
+  courseId: 'course-1',
+  courseTitle: 'Business English',
+  courseType: 'Business English',
+  periodStart: '2030-01-06',
+  periodEnd: '2030-03-28',
+  sessionsAttended: 9,
+  sessionsTotal: 10,
+  attendanceRate: 0.9,
+  hoursAttended: 13.5,
+  completedAt: '2030-03-28T12:00:00.000Z',
+  finalAssessmentScore: 82,
+  finalAssessmentPassed: true,
+  ...overrides
+});
+
+const templateRow = (overrides: Record<string, any> = {}) => ({
+  id: 'template-1',
+  certificate_type: 'completion',
+  course_type: 'Business English',
+  title: 'Certificate of Completion',
+  body_text: '{{student_name}} completed {{course_title}}.',
+  signatory_name: 'Peter Smith',
+  signatory_title: 'Academic Director',
+  min_attendance_rate: '0.8000',
+  requires_completion: true,
+  requires_final_assessment: true,
+  is_active: true,
+  ...overrides
+});
+
+const attendanceRows = (statuses: string[]) => statuses.map((status, index) => ({
+  status,
+  booking: {
+    student_id: 'student-1',
+    class_id: 'class-1',
+    start_time: `2030-02-${String(index + 10).padStart(2, '0')}T09:00:00.000Z`,
+    duration_minutes: 90,
+    class: { course_id: 'course-1' }
+  }
+}));
+
+// Table results for building a completion record for student-1 in course-1
+const completionTables = (statuses: string[], completion: Record<string, any>) => ({
+  students: [{ data: { id: 'student-1', full_name: 'Ana Lima' }, error: null }],
+  courses: [{ data: { id: 'course-1', title: 'Business English', course_type: 'Business English' }, error: null }],
+  student_courses: [{ data: completion, error: null }],
+  attendance: [{ data: attendanceRows(statuses), error: null }],
+  certificate_templates: [{ data: [templateRow({ course_type: null, min_attendance_rate: null }), templateRow()], error: null }]
+});
+
+describe('verification codes', () => {
+  it('should generate grouped codes without ambiguous characters', () => {
+    const code = generateVerificationCode();
+
+    expect(code).toMatch(/^[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/);
+    expect(generateVerificationCode()).not.toBe(code);
+  });
+
+  it('should normalize a code as typed', () => {
+    expect(normalizeVerificationCode('abcd efgh-jk lm')).toBe('ABCD-EFGH-JKLM');
+  });
+});
+
+describe('checkCertificateEligibility', () => {
+  it('should accept a student who meets every rule', () => {
+    expect(checkCertificateEligibility(template(), record())).toEqual(expect.objectContaining({ eligible: true, reasons: [] }));
+  });
+
+  it('should list every rule a student misses', () => {
+    const result = checkCertificateEligibility(template(), record({
+      attendanceRate: 0.7,
+      completedAt: undefined,
+      finalAssessmentPassed: false
+    }));
+
+    expect(result.eligible).toBe(false);
+    expect(result.reasons).toEqual([
+      'Attendance of 70% is below the required 80%',
+      'The course has not been completed',
+      'The final assessment was not passed'
+    ]);
+  });
+});
+
+describe('fillCertificateTemplate', () => {
+  it('should fill known placeholders and leave unknown ones', () => {
+    expect(fillCertificateTemplate('{{ student_name }} attended {{hours_attended}} hours from {{period_start}} {{unknown}}', record()))
+      .toBe('Ana Lima attended 13.5 hours from 6 January 2030 {{unknown}}');
+  });
+});
+
+describe('renderCertificatePdf', () => {
+  it('should print the verification code and link', () => {
+    const certificate = {
+      id: 'certificate-1',
+      verificationCode: 'ABCD-EFGH-JKLM',
+      certificateType: 'completion',
+      title: 'Certificate of Completion',
+      bodyText: 'Ana Lima completed Business English.',
+      studentName: 'Ana Lima',
+      sessionsAttended: 9,
+      sessionsTotal: 10,
+      attendanceRate: 0.9,
+      hoursAttended: 13.5,
+      issuedAt: '2030-03-29T09:00:00.000Z'
+    } as Certificate;
+
+    const text = Buffer.from(renderCertificatePdf(certificate, 'https://example.com/verify/ABCD-EFGH-JKLM')).toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain('Verification code: ABCD-EFGH-JKLM');
+    expect(text).toContain('https://example.com/verify/ABCD-EFGH-JKLM');
+  });
+});
+
+describe('CertificateService', () => {
+  it('should issue a completion certificate with a snapshot of the figures', async () => {
+    const { client, calls } = mockSupabaseClient({
+      ...completionTables(['present', 'present', 'late', 'present', 'excused'], {
+        completed_at: '2030-03-28T12:00:00.000Z',
+        final_assessment_score: '82.00',
+        final_assessment_passed: true
+      }),
+      certificates: [{ data: { id: 'certificate-1', verification_code: 'ABCD-EFGH-JKLM', hours_attended: '6.00' }, error: null }]
+    });
+    const service = new CertificateService(client);
+
+    const result = await service.issueCertificate({ studentId: 'student-1', certificateType: 'completion', courseId: 'course-1' });
+
+    expect(result.success).toBe(true);
+    expect(calls.attendance[0].eq).toHaveBeenCalledWith('booking.class.course_id', 'course-1');
+    expect(calls.certificates[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+      template_id: 'template-1',
+      body_text: 'Ana Lima completed Business English.',
+      sessions_attended: 4,
+      sessions_total: 4,
+      attendance_rate: 1,
+      hours_attended: 6,
+      period_start: '2030-02-10',
+      period_end: '2030-02-14',
+      final_assessment_score: 82,
+      signatory_name: 'Peter Smith',
+      issued_by: 'admin-1',
+      verification_code: expect.stringMatching(/^\w{4}-\w{4}-\w{4}$/)
+    }));
+  });
+
+  it('should issue a completion certificate from a recorded completion and assessment', async () => {
+    const completion = { completed_at: '2030-03-28T12:00:00.000Z', final_assessment_score: '82.00', final_assessment_passed: true };
+    const { client, calls } = mockSupabaseClient({
+      ...completionTables(['present', 'present', 'present'], completion),
+      student_courses: [
+        { data: { student_id: 'student-1', course_id: 'course-1', ...completion }, error: null },
+        { data: completion, error: null }
+      ],
+      certificates: [{ data: { id: 'certificate-1', verification_code: 'ABCD-EFGH-JKLM', completed_at: completion.completed_at }, error: null }]
+    });
+    const service = new CertificateService(client);
+
+    expect((await service.recordCompletion({ studentId: 'student-1', courseId: 'course-1', finalAssessmentScore: 120 })).error?.code)
+      .toBe('INVALID_ASSESSMENT');
+
+    const recorded = await service.recordCompletion({
+      studentId: 'student-1',
+      courseId: 'course-1',
+      completedAt: '2030-03-28T12:00:00.000Z',
+      finalAssessmentScore: 82,
+      finalAssessmentPassed: true
+    });
+    const issued = await service.issueCertificate({ studentId: 'student-1', certificateType: 'completion', courseId: 'course-1' });
+
+    expect(recorded.data).toEqual({
+      studentId: 'student-1',
+      courseId: 'course-1',
+      completedAt: '2030-03-28T12:00:00.000Z',
+      finalAssessmentScore: 82,
+      finalAssessmentPassed: true
+    });
+    expect(calls.student_courses[0].upsert).toHaveBeenCalledWith({
+      student_id: 'student-1',
+      course_id: 'course-1',
+      completed_at: '2030-03-28T12:00:00.000Z',
+      final_assessment_score: 82,
+      final_assessment_passed: true
+    }, { onConflict: 'student_id,course_id' });
+    expect(issued.success).toBe(true);
+    expect(calls.certificates[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+      completed_at: '2030-03-28T12:00:00.000Z',
+      final_assessment_score: 82
+    }));
+  });
+
+  it('should refuse a student who did not pass the final assessment', async () => {
+    const { client, calls } = mockSupabaseClient(completionTables(['present', 'present'], {
+      completed_at: '2030-03-28T12:00:00.000Z',
+      final_assessment_passed: false
+    }));
+    const service = new CertificateService(client);
+
+    const result = await service.issueCertificate({ studentId: 'student-1', certificateType: 'completion', courseId: 'course-1' });
+
+    expect(result.error?.code).toBe('NOT_ELIGIBLE');
+    expect(result.error?.details.reasons).toEqual(['The final assessment was not passed']);
+    expect(calls.certificates).toBeUndefined();
+  });
+
+  it('should not certify a course twice', async () => {
+    const { client } = mockSupabaseClient({
+      ...completionTables(['present'], { completed_at: '2030-03-28T12:00:00.000Z', final_assessment_passed: true }),
+      certificates: [{
+        data: null,
+        error: { code: '23505', message: 'duplicate key value violates unique constraint "idx_certificates_completion"' }
+      }]
+    });
+    const service = new CertificateService(client);
+
+    const result = await service.issueCertificate({ studentId: 'student-1', certificateType: 'completion', courseId: 'course-1' });
+
+    expect(result.error?.code).toBe('ALREADY_ISSUED');
+  });
+
+  it('should draw a new code when one collides', async () => {
+    const { client, calls } = mockSupabaseClient({
+      ...completionTables(['present'], { completed_at: '2030-03-28T12:00:00.000Z', final_assessment_passed: true }),
+      certificates: [
+        { data: null, error: { code: '23505', message: 'duplicate key value violates unique constraint "certificates_verification_code_key"' } },
+        { data: { id: 'certificate-1', verification_code: 'ABCD-EFGH-JKLM', hours_attended: '1.50' }, error: null }
+      ]
+    });
+    const service = new CertificateService(client);
+
+    const result = await service.issueCertificate({ studentId: 'student-1', certificateType: 'completion', courseId: 'course-1' });
+
+    expect(result.success).toBe(true);
+    expect(calls.certificates).toHaveLength(2);
+  });
+
+  it('should issue to eligible students in a class and report the rest', async () => {
+    const { client } = mockSupabaseClient({
+      bookings: [{ data: [{ student_id: 'student-1' }, { student_id: 'student-2' }, { student_id: 'student-1' }], error: null }],
+      students: [
+        { data: { id: 'student-1', full_name: 'Ana Lima' }, error: null },
+        { data: { id: 'student-2', full_name: 'Ben Okafor' }, error: null }
+      ],
+      classes: [
+        { data: { course: { id: 'course-1', title: 'Business English', course_type: 'Business English' } }, error: null },
+        { data: { course: { id: 'course-1', title: 'Business English', course_type: 'Business English' } }, error: null }
+      ],
+      student_courses: [
+        { data: { completed_at: '2030-03-28T12:00:00.000Z', final_assessment_passed: true }, error: null },
+        { data: { completed_at: '2030-03-28T12:00:00.000Z', final_assessment_passed: true }, error: null }
+      ],
+      attendance: [
+        { data: attendanceRows(['present', 'present']), error: null },
+        { data: attendanceRows(['present', 'absent', 'absent']), error: null }
+      ],
+      certificate_templates: [{ data: [templateRow()], error: null }, { data: [templateRow()], error: null }],
+      certificates: [{ data: { id: 'certificate-1', verification_code: 'ABCD-EFGH-JKLM', hours_attended: '3.00' }, error: null }]
+    });
+    const service = new CertificateService(client);
+
+    const result = await service.issueForClass('class-1', 'completion');
+
+    expect(result.data?.issued).toHaveLength(1);
+    expect(result.data?.skipped).toEqual([{
+      studentId: 'student-2',
+      studentName: 'Ben Okafor',
+      reasons: ['Attendance of 33% is below the required 80%']
+    }]);
+  });
+
+  it('should verify a typed code and report revocation', async () => {
+    const { client, calls } = mockSupabaseClient({
+      certificates: [{
+        data: {
+          id: 'certificate-1',
+          verification_code: 'ABCD-EFGH-JKLM',
+          certificate_type: 'attendance',
+          title: 'Certificate of Attendance',
+          student_name: 'Ana Lima',
+          hours_attended: '12.00',
+          issued_at: '2030-03-29T09:00:00.000Z',
+          revoked_at: '2030-04-01T09:00:00.000Z'
+        },
+        error: null
+      }]
+    });
+    const service = new CertificateService(client);
+
+    const result = await service.verifyCertificate('abcd-efgh-jklm');
+
+    expect(calls.certificates[0].eq).toHaveBeenCalledWith('verification_code', 'ABCD-EFGH-JKLM');
+    expect(result.data).toEqual(expect.objectContaining({ status: 'revoked', studentName: 'Ana Lima', hoursAttended: 12 }));
+  });
+});
@@ -1,5 +1,6 @@
 import { classCapacityService, ClassCapacityService } from '../class-capacity-service';
 import { supabase } from '@/lib/supabase';
+import { waitlistOfferService } from '../waitlist-offer-service';
 import { 
   CLASS_CAPACITY, 
   COURSE_TYPE_CAPACITY, 
@@ -13,6 +14,25 @@ jest.mock('@/lib/supabase', () => ({
   },
 }));
 
+// The service container builds its own client and starts background jobs
+// when it loads; the service only needs its logger
+jest.mock('@/lib/services', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('../waitlist-offer-service', () => ({
+  waitlistOfferService: {
+    countHeldSeats: jest.fn().mockResolvedValue(0),
+    offerNextSeat: jest.fn(),
+    getClassMetrics: jest.fn(),
+  },
+}));
+
 const mockSupabase = supabase as jest.Mocked<typeof supabase>;
 
 describe('ClassCapacityService', () => {
@@ -69,6 +89,7 @@ describe('ClassCapacityService', () => {
         current_enrolled: 3,
         max_capacity: 9,
         waiting_list_count: 1,
+        held_offers: 0,
         available_spots: 6,
         is_full: false,
         can_accept_waitlist: true,
@@ -117,6 +138,7 @@ describe('ClassCapacityService', () => {
         current_enrolled: 9,
         max_capacity: 9,
         waiting_list_count: 0,
+        held_offers: 0,
         available_spots: 0,
         is_full: true,
         can_accept_waitlist: true,
@@ -125,6 +147,43 @@ describe('ClassCapacityService', () => {
       });
     });
 
+    it('should count seats held for pending waitlist offers as taken', async () => {
+      mockSupabase.from.mockReturnValueOnce({
+        select: jest.fn().mockReturnValue({
+          eq: jest.fn().mockReturnValue({
+            single: jest.fn().mockResolvedValue({
+              data: { id: 'class-3', type: 'group', max_students: 9, title: 'Held Class', metadata: {} },
+              error: null,
+            }),
+          }),
+        }),
+      } as any);
+
+      mockSupabase.from.mockReturnValueOnce({
+        select: jest.fn().mockReturnValue({
+          eq: jest.fn().mockReturnValue({
+            in: jest.fn().mockResolvedValue({
+              data: [
+                ...Array(7).fill({ status: ENROLLMENT_STATUS.ENROLLED }),
+                { status: ENROLLMENT_STATUS.WAITLISTED },
+              ],
+              error: null,
+            }),
+          }),
+        }),
+      } as any);
+      (waitlistOfferService.countHeldSeats as jest.Mock).mockResolvedValueOnce(2);
+
+      const result = await service.getClassCapacity('class-3');
+
+      expect(waitlistOfferService.countHeldSeats).toHaveBeenCalledWith('class-3');
+      expect(result).toEqual(expect.objectContaining({
+        current_enrolled: 7,
+        held_offers: 2,
+        available_spots: 0,
+      }));
+    });
+
     it('should return null for non-existent class', async () => {
       mockSupabase.from.mockReturnValueOnce({
         select: jest.fn().mockReturnValue({
@@ -150,6 +209,7 @@ describe('ClassCapacityService', () => {
         current_enrolled: 3,
         max_capacity: 9,
         waiting_list_count: 0,
+        held_offers: 0,
         available_spots: 6,
         is_full: false,
         can_accept_waitlist: true,
@@ -209,6 +269,7 @@ describe('ClassCapacityService', () => {
         current_enrolled: 9,
         max_capacity: 9,
         waiting_list_count: 2,
+        held_offers: 0,
         available_spots: 0,
         is_full: true,
         can_accept_waitlist: true,
@@ -270,6 +331,7 @@ describe('ClassCapacityService', () => {
         current_enrolled: 3,
         max_capacity: 9,
         waiting_list_count: 0,
+        held_offers: 0,
         available_spots: 6,
         is_full: false,
         can_accept_waitlist: true,
@@ -352,12 +414,13 @@ describe('ClassCapacityService', () => {
   });
 
   describe('promoteFromWaitlist', () => {
-    it('should promote next student from waitlist', async () => {
+    it('should offer the free seat to the waiting list', async () => {
       const mockCapacity = {
         class_id: 'class-1',
         current_enrolled: 8,
         max_capacity: 9,
         waiting_list_count: 2,
+        held_offers: 0,
         available_spots: 1,
         is_full: false,
         can_accept_waitlist: true,
@@ -365,50 +428,57 @@ describe('ClassCapacityService', () => {
         capacity_utilization: 89,
       };
 
-      const mockNextStudent = {
-        id: 'enrollment-waitlist-1',
-        class_id: 'class-1',
-        student_id: 'student-waitlist-1',
-        status: ENROLLMENT_STATUS.WAITLISTED,
-        position_in_waitlist: 1,
-      };
-
       // Mock getClassCapacity
       jest.spyOn(service, 'getClassCapacity').mockResolvedValue(mockCapacity);
+      (waitlistOfferService.offerNextSeat as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { id: 'offer-1', enrollmentId: 'enrollment-waitlist-1', status: 'pending' },
+      });
 
-      // Mock next student query
-      mockSupabase.from.mockReturnValueOnce({
-        select: jest.fn().mockReturnValue({
-          eq: jest.fn().mockReturnValue({
-            eq: jest.fn().mockReturnValue({
-              order: jest.fn().mockReturnValue({
-                limit: jest.fn().mockReturnValue({
-                  single: jest.fn().mockResolvedValue({
-                    data: mockNextStudent,
-                    error: null,
-                  }),
-                }),
-              }),
-            }),
-          }),
-        }),
-      } as any);
+      const result = await service.promoteFromWaitlist('class-1', 12);
 
-      // Mock promotion update
-      mockSupabase.from.mockReturnValueOnce({
-        update: jest.fn().mockReturnValue({
-          eq: jest.fn().mockResolvedValue({
-            error: null,
-          }),
-        }),
-      } as any);
+      expect(result).toBe(true);
+      expect(waitlistOfferService.offerNextSeat).toHaveBeenCalledWith('class-1', { windowHours: 12 });
+    });
 
-      // Mock updateWaitlistPositions
-      jest.spyOn(service as any, 'updateWaitlistPositions').mockResolvedValue(undefined);
+    it('should return false when nobody on the waiting list can take the seat', async () => {
+      jest.spyOn(service, 'getClassCapacity').mockResolvedValue({
+        class_id: 'class-1',
+        current_enrolled: 8,
+        max_capacity: 9,
+        waiting_list_count: 1,
+        held_offers: 0,
+        available_spots: 1,
+        is_full: false,
+        can_accept_waitlist: true,
+        course_type: 'group',
+        capacity_utilization: 89,
+      });
+      (waitlistOfferService.offerNextSeat as jest.Mock).mockResolvedValue({ success: true, data: null });
 
       const result = await service.promoteFromWaitlist('class-1');
 
-      expect(result).toBe(true);
+      expect(result).toBe(false);
+    });
+
+    it('should not offer a seat already held for an earlier offer', async () => {
+      jest.spyOn(service, 'getClassCapacity').mockResolvedValue({
+        class_id: 'class-1',
+        current_enrolled: 8,
+        max_capacity: 9,
+        waiting_list_count: 2,
+        held_offers: 1,
+        available_spots: 0,
+        is_full: false,
+        can_accept_waitlist: true,
+        course_type: 'group',
+        capacity_utilization: 89,
+      });
+
+      const result = await service.promoteFromWaitlist('class-1');
+
+      expect(result).toBe(false);
+      expect(waitlistOfferService.offerNextSeat).not.toHaveBeenCalled();
     });
 
     it('should return false when no spots available', async () => {
@@ -417,6 +487,7 @@ describe('ClassCapacityService', () => {
         current_enrolled: 9,
         max_capacity: 9,
         waiting_list_count: 2,
+        held_offers: 0,
         available_spots: 0,
         is_full: true,
         can_accept_waitlist: true,
@@ -574,6 +645,7 @@ describe('ClassCapacityService', () => {
         current_enrolled: 3,
         max_capacity: 9,
         waiting_list_count: 1,
+        held_offers: 0,
         available_spots: 6,
         is_full: false,
         can_accept_waitlist: true,
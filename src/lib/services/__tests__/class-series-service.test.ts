@@ -0,0 +1,179 @@
+import { ClassSeriesService, planSeriesOccurrences, validateSeriesPattern } from '../class-series-service';
+import type { AcademyClosure } from '@/types/closures';
+import { mockSupabaseClient } from '@/__mocks__/supabase-query';
+
+const seriesRow = {
+  id: 'series-1',
+  course_id: 'course-1',
+  teacher_id: 'teacher-1',
+  name: 'Everyday A - Evening',
+  rrule: 'FREQ=WEEKLY;BYDAY=MO,WE',
+  start_date: '2030-03-04',
+  end_date: '2030-03-27',
+  start_time: '18:00:00',
+  duration_minutes: 60,
+  timezone: 'Asia/Bangkok',
+  location: 'Silom',
+  capacity: 9,
+  status: 'active'
+};
+
+const occurrenceRow = (id: string, date: string, hour = '11') => ({
+  id,
+  series_id: 'series-1',
+  class_id: 'class-1',
+  teacher_id: 'teacher-1',
+  occurrence_date: date,
+  start_time: `${date}T${hour}:00:00.000Z`,
+  end_time: `${date}T${Number(hour) + 1}:00:00.000Z`,
+  location: 'Silom',
+  status: 'scheduled'
+});
+
+const noClosures = { getActiveClosures: jest.fn().mockResolvedValue([]) };
+
+describe('planSeriesOccurrences', () => {
+  const pattern = {
+    rrule: 'FREQ=WEEKLY;BYDAY=MO,WE',
+    startTime: '18:00',
+    durationMinutes: 90,
+    timeZone: 'Asia/Bangkok',
+    location: 'Silom'
+  };
+
+  it('should place sessions at the local start time and skip closures', () => {
+    const closure: AcademyClosure = {
+      id: 'closure-1',
+      title: 'Makha Bucha',
+      closureType: 'public_holiday',
+      startDate: '2030-03-06',
+      endDate: '2030-03-06',
+      locations: [],
+      timeZone: 'Asia/Bangkok',
+      source: 'manual',
+      createdAt: '2030-01-01T00:00:00Z'
+    };
+
+    const planned = planSeriesOccurrences(pattern, '2030-03-04', '2030-03-04', '2030-03-13', [closure]);
+
+    expect(planned.map(item => item.occurrenceDate)).toEqual(['2030-03-04', '2030-03-11', '2030-03-13']);
+    expect(planned[0]).toEqual({
+      occurrenceDate: '2030-03-04',
+      startTime: '2030-03-04T11:00:00.000Z',
+      endTime: '2030-03-04T12:30:00.000Z'
+    });
+  });
+
+  it('should reject rules that end by COUNT or UNTIL', () => {
+    expect(validateSeriesPattern({ rrule: 'FREQ=WEEKLY;COUNT=10' })).toMatch(/end date/);
+    expect(validateSeriesPattern({ rrule: 'FREQ=WEEKLY;BYDAY=MO', startTime: '18:00' })).toBeNull();
+    expect(validateSeriesPattern({ startTime: '6pm' })).toBe('Start time must be HH:mm');
+  });
+});
+
+describe('ClassSeriesService', () => {
+  it('should skip a session and add a make-up after the series ends in one call', async () => {
+    const makeUp = { ...occurrenceRow('occ-9', '2030-04-01'), makeup_for_id: 'occ-1' };
+    const { client, calls } = mockSupabaseClient({
+      class_series_occurrences: [
+        { data: occurrenceRow('occ-1', '2030-03-18'), error: null },
+        { data: { occurrence_date: '2030-03-27' }, error: null }
+      ],
+      class_series: [{ data: seriesRow, error: null }]
+    }, {
+      rpc: () => Promise.resolve({ data: { cancelled_bookings: 2, make_up: makeUp }, error: null })
+    });
+    const service = new ClassSeriesService(client, noClosures);
+
+    const result = await service.skipOccurrence('occ-1', { reason: 'Teacher training' });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.cancelledBookings).toBe(2);
+    expect(result.data?.makeUp?.occurrenceDate).toBe('2030-04-01');
+    expect(client.rpc).toHaveBeenCalledWith('skip_class_series_occurrence', {
+      p_occurrence_id: 'occ-1',
+      p_reason: 'Teacher training',
+      p_make_up: { occurrence_date: '2030-04-01', start_time: '2030-04-01T11:00:00.000Z', end_time: '2030-04-01T12:00:00.000Z' }
+    });
+    expect(calls.bookings).toBeUndefined();
+  });
+
+  it('should move following sessions and their bookings to a new pattern in one call', async () => {
+    const { client, calls } = mockSupabaseClient({
+      class_series_occurrences: [
+        { data: occurrenceRow('occ-1', '2030-03-25'), error: null },
+        { data: [occurrenceRow('occ-1', '2030-03-25'), occurrenceRow('occ-2', '2030-03-27')], error: null }
+      ],
+      class_series: [{ data: { ...seriesRow, end_date: '2030-03-29' }, error: null }]
+    }, {
+      rpc: () => Promise.resolve({
+        data: { updated_occurrences: 2, added_occurrences: 0, cancelled_occurrences: 0, affected_bookings: 2 },
+        error: null
+      })
+    });
+    const service = new ClassSeriesService(client, noClosures);
+
+    const result = await service.updateFollowing('occ-1', { rrule: 'FREQ=WEEKLY;BYDAY=TU,TH' });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ updatedOccurrences: 2, addedOccurrences: 0, cancelledOccurrences: 0, affectedBookings: 2 });
+    expect(client.rpc).toHaveBeenCalledWith('apply_class_series_plan', expect.objectContaining({
+      p_series_id: 'series-1',
+      p_series: expect.objectContaining({ rrule: 'FREQ=WEEKLY;BYDAY=TU,TH' }),
+      p_moves: [
+        { id: 'occ-1', occurrence_date: '2030-03-26', start_time: '2030-03-26T11:00:00.000Z', end_time: '2030-03-26T12:00:00.000Z' },
+        { id: 'occ-2', occurrence_date: '2030-03-28', start_time: '2030-03-28T11:00:00.000Z', end_time: '2030-03-28T12:00:00.000Z' }
+      ],
+      p_cancelled_ids: [],
+      p_added: []
+    }));
+    expect(calls.class_series).toHaveLength(1);
+  });
+
+  it('should shorten a series by cancelling later sessions with the end date change', async () => {
+    const { client } = mockSupabaseClient({
+      class_series: [{ data: seriesRow, error: null }]
+    }, {
+      rpc: () => Promise.resolve({
+        data: { updated_occurrences: 0, added_occurrences: 0, cancelled_occurrences: 2, affected_bookings: 4 },
+        error: null
+      })
+    });
+    const service = new ClassSeriesService(client, noClosures);
+
+    const result = await service.setEndDate('series-1', '2030-03-20');
+
+    expect(result.data).toEqual({ updatedOccurrences: 0, addedOccurrences: 0, cancelledOccurrences: 2, affectedBookings: 4 });
+    expect(client.rpc).toHaveBeenCalledWith('apply_class_series_plan', expect.objectContaining({
+      p_series: { end_date: '2030-03-20' },
+      p_moves: [],
+      p_added: []
+    }));
+  });
+
+  it('should report a failed teacher change without partial writes', async () => {
+    const { client, calls } = mockSupabaseClient({}, {
+      rpc: () => Promise.resolve({ data: null, error: { message: 'Series session occ-1 not found' } })
+    });
+    const service = new ClassSeriesService(client, noClosures);
+
+    const result = await service.changeTeacherFrom('occ-1', 'teacher-2');
+
+    expect(result.error?.code).toBe('CHANGE_TEACHER_ERROR');
+    expect(client.rpc).toHaveBeenCalledWith('change_class_series_teacher', { p_occurrence_id: 'occ-1', p_teacher_id: 'teacher-2' });
+    expect(calls.classes).toBeUndefined();
+  });
+
+  it('should refuse enrollment when the series is full', async () => {
+    const { client } = mockSupabaseClient({
+      class_series: [{ data: { ...seriesRow, capacity: 1 }, error: null }],
+      class_series_enrollments: [{ data: [{ student_id: 'student-2', status: 'active' }], error: null }]
+    });
+    const service = new ClassSeriesService(client, noClosures);
+
+    const result = await service.enrollStudent('series-1', 'student-1', '2030-03-10');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('SERIES_FULL');
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  ClosureCalendarService,
+  findClosure,
+  parseClosureCsv,
+  parseClosureIcs
+} from '../closure-calendar-service';
+import type { AcademyClosure } from '@/types/closures';
+import { mockQuery } from '@/__mocks__/supabase-query';
+
+const closure = (overrides: Partial<AcademyClosure> = {}): AcademyClosure => ({
+  id: 'closure-1',
+  title: 'Songkran',
+  closureType: 'public_holiday',
+  startDate: '2030-04-13',
+  endDate: '2030-04-15',
+  locations: [],
+  timeZone: 'Asia/Bangkok',
+  source: 'manual',
+  createdAt: '2030-01-01T00:00:00Z',
+  ...overrides
+});
+
+describe('findClosure', () => {
+  it('should cover whole local days in the closure time zone', () => {
+    const closures = [closure()];
+
+    // 2030-04-12 23:30 in Bangkok is still open
+    expect(findClosure(closures, '2030-04-12T16:30:00Z', '2030-04-12T17:00:00Z')).toBeUndefined();
+    expect(findClosure(closures, '2030-04-12T17:00:00Z', '2030-04-12T18:00:00Z')?.id).toBe('closure-1');
+    // The last day is inclusive and ends at local midnight
+    expect(findClosure(closures, '2030-04-15T16:00:00Z', '2030-04-15T17:00:00Z')?.id).toBe('closure-1');
+    expect(findClosure(closures, '2030-04-15T17:00:00Z', '2030-04-15T18:00:00Z')).toBeUndefined();
+  });
+
+  it('should only apply location closures to their locations', () => {
+    const closures = [closure({ closureType: 'location_closure', location: 'Silom', locations: ['Silom'] })];
+
+    expect(findClosure(closures, '2030-04-14T03:00:00Z', '2030-04-14T04:00:00Z', 'Silom')).toBeDefined();
+    expect(findClosure(closures, '2030-04-14T03:00:00Z', '2030-04-14T04:00:00Z', 'Online')).toBeUndefined();
+    expect(findClosure(closures, '2030-04-14T03:00:00Z', '2030-04-14T04:00:00Z')).toBeUndefined();
+  });
+});
+
+describe('closure import parsing', () => {
+  it('should read CSV rows and report invalid lines', () => {
+    const csv = [
+      'Title,Date,End Date,Type,Location',
+      'Songkran,2030-04-13,2030-04-15,,',
+      'Branch renovation,2030-05-01,,location_closure,Silom',
+      'Broken,2030-13-01,,,'
+    ].join('\n');
+
+    const { rows, errors } = parseClosureCsv(csv, { holidaySetId: 'set-1' });
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ title: 'Songkran', closureType: 'public_holiday', endDate: '2030-04-15', holidaySetId: 'set-1' });
+    expect(rows[1]).toMatchObject({ closureType: 'location_closure', location: 'Silom' });
+    expect(errors).toEqual([{ line: 4, message: 'Start date must be YYYY-MM-DD' }]);
+  });
+
+  it('should read all-day ICS events with exclusive end dates', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:songkran-2030@example.com',
+      'DTSTART;VALUE=DATE:20300413',
+      'DTEND;VALUE=DATE:20300416',
+      'SUMMARY:Songkran\\, Thai New Year',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+
+    const { rows, errors } = parseClosureIcs(ics);
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([expect.objectContaining({
+      title: 'Songkran, Thai New Year',
+      startDate: '2030-04-13',
+      endDate: '2030-04-15',
+      externalUid: 'songkran-2030@example.com'
+    })]);
+  });
+});
+
+describe('ClosureCalendarService', () => {
+  const closureRow = {
+    id: 'closure-1',
+    title: 'Songkran',
+    closure_type: 'public_holiday',
+    start_date: '2030-04-13',
+    end_date: '2030-04-15',
+    location: null,
+    timezone: 'Asia/Bangkok',
+    source: 'manual',
+    holiday_sets: { locations: ['Silom'], is_active: true }
+  };
+
+  it('should reject location closures without a location', async () => {
+    const service = new ClosureCalendarService({ from: jest.fn() }, { flagClassesForClosure: jest.fn() });
+
+    const result = await service.createClosure({ title: 'Renovation', closureType: 'location_closure', startDate: '2030-05-01' });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('INVALID_CLOSURE');
+  });
+
+  it('should flag booked classes when a closure is added', async () => {
+    const client = {
+      from: jest.fn(() => mockQuery({ data: closureRow, error: null })),
+      rpc: jest.fn().mockResolvedValue({ data: 0, error: null })
+    };
+    const postponements = { flagClassesForClosure: jest.fn().mockResolvedValue([{ id: 'p-1' }, { id: 'p-2' }]) };
+    const service = new ClosureCalendarService(client, postponements);
+
+    const result = await service.createClosure({ title: 'Songkran', closureType: 'public_holiday', startDate: '2030-04-13', endDate: '2030-04-15' });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.flaggedBookings).toBe(2);
+    expect(postponements.flagClassesForClosure).toHaveBeenCalledWith({
+      closure_id: 'closure-1',
+      title: 'Songkran',
+      starts_at: '2030-04-12T17:00:00.000Z',
+      ends_at: '2030-04-15T17:00:00.000Z',
+      locations: ['Silom']
+    });
+  });
+
+  it('should skip imported closures already in the calendar', async () => {
+    const tables: any[] = [
+      { data: [{ title: 'Songkran', start_date: '2030-04-13', location: null, external_uid: null }], error: null },
+      { data: [{ ...closureRow, id: 'closure-2', title: 'Labour Day', start_date: '2030-05-01', end_date: '2030-05-01' }], error: null }
+    ];
+    const client = {
+      from: jest.fn(() => mockQuery(tables.shift())),
+      rpc: jest.fn().mockResolvedValue({ data: 0, error: null })
+    };
+    const postponements = { flagClassesForClosure: jest.fn().mockResolvedValue([]) };
+    const service = new ClosureCalendarService(client, postponements);
+
+    const result = await service.importClosures('csv', 'title,date\nSongkran,2030-04-13\nLabour Day,2030-05-01');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ imported: 1, skipped: 1, flaggedBookings: 0 });
+  });
+
+  it('should extend hour lots valid during an academy-wide closure', async () => {
+    const client = {
+      from: jest.fn(() => mockQuery({ data: { ...closureRow, holiday_sets: null }, error: null })),
+      rpc: jest.fn().mockResolvedValue({ data: 3, error: null })
+    };
+    const postponements = { flagClassesForClosure: jest.fn().mockResolvedValue([]) };
+    const service = new ClosureCalendarService(client, postponements);
+
+    const result = await service.createClosure({ title: 'Songkran', closureType: 'academy_closure', startDate: '2030-04-13', endDate: '2030-04-15' });
+
+    expect(result.data?.extendedLots).toBe(3);
+    expect(client.rpc).toHaveBeenCalledWith('apply_closure_extensions', { p_closure_id: 'closure-1' });
+  });
+
+  it('should leave hour expiry alone for a single location closure', async () => {
+    const client = {
+      from: jest.fn(() => mockQuery({ data: { ...closureRow, closure_type: 'location_closure', location: 'Silom' }, error: null })),
+      rpc: jest.fn()
+    };
+    const service = new ClosureCalendarService(client, { flagClassesForClosure: jest.fn().mockResolvedValue([]) });
+
+    const result = await service.createClosure({ title: 'Renovation', closureType: 'location_closure', startDate: '2030-04-13', location: 'Silom' });
+
+    expect(result.data?.extendedLots).toBe(0);
+    expect(client.rpc).not.toHaveBeenCalled();
+  });
+});
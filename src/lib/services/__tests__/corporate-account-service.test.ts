@@ -0,0 +1,128 @@
+import {
+  CorporateAccountService,
+  getMonthRange,
+  getNetAllocatedHours
+} from '../corporate-account-service';
+import { mockQuery } from '@/__mocks__/supabase-query';
+
+const account = {
+  id: 'corp-1',
+  name: 'Acme Corp',
+  pool_profile_id: 'pool-1',
+  status: 'active',
+  monthly_spend_cap: '1000.00',
+  default_employee_cap: 20,
+  currency: 'USD'
+};
+
+describe('corporate account helpers', () => {
+  it('should return UTC month boundaries', () => {
+    expect(getMonthRange('2025-12')).toEqual({
+      start: '2025-12-01T00:00:00.000Z',
+      end: '2026-01-01T00:00:00.000Z'
+    });
+    expect(() => getMonthRange('2025-13')).toThrow('Invalid month');
+  });
+
+  it('should net allocations against revocations', () => {
+    const logs = [
+      { from_student_id: 'pool-1', to_student_id: 'emp-1', hours_transferred: 10 },
+      { from_student_id: 'emp-1', to_student_id: 'pool-1', hours_transferred: 4 },
+      { from_student_id: 'pool-1', to_student_id: 'emp-2', hours_transferred: 8 }
+    ];
+
+    expect(getNetAllocatedHours(logs, 'emp-1')).toBe(6);
+    expect(getNetAllocatedHours(logs, 'emp-2')).toBe(8);
+  });
+});
+
+describe('CorporateAccountService', () => {
+  const createService = (tables: Record<string, any[]>) => {
+    const client = {
+      from: jest.fn((table: string) => mockQuery(tables[table].shift()))
+    };
+    const hours = {
+      purchaseHours: jest.fn().mockResolvedValue({ success: true, data: { id: 'purchase-1' } }),
+      transferHours: jest.fn().mockResolvedValue({ success: true, data: { id: 'transfer-1' } })
+    };
+    return { service: new CorporateAccountService(client, hours as any), hours };
+  };
+
+  it('should allocate pool hours through an attributed transfer', async () => {
+    const { service, hours } = createService({
+      corporate_accounts: [{ data: account, error: null }],
+      corporate_account_members: [{ data: { student_id: 'emp-1', status: 'active', allocation_cap: null }, error: null }],
+      hour_transfer_logs: [{ data: [{ from_student_id: 'pool-1', to_student_id: 'emp-1', hours_transferred: 5 }], error: null }],
+      hour_purchases: [{ data: [{ hours_remaining: 50 }], error: null }]
+    });
+
+    const result = await service.allocateHours({
+      corporateAccountId: 'corp-1',
+      studentId: 'emp-1',
+      hours: 10,
+      reason: 'Q3 training'
+    });
+
+    expect(result.success).toBe(true);
+    expect(hours.transferHours).toHaveBeenCalledWith(expect.objectContaining({
+      fromStudentId: 'pool-1',
+      toStudentId: 'emp-1',
+      hoursToTransfer: 10,
+      corporateAccountId: 'corp-1',
+      corporatePoolId: 'pool-1'
+    }));
+  });
+
+  it('should reject allocations above the employee monthly cap', async () => {
+    const { service, hours } = createService({
+      corporate_accounts: [{ data: account, error: null }],
+      corporate_account_members: [{ data: { student_id: 'emp-1', status: 'active', allocation_cap: 12 }, error: null }],
+      hour_transfer_logs: [{ data: [{ from_student_id: 'pool-1', to_student_id: 'emp-1', hours_transferred: 10 }], error: null }]
+    });
+
+    const result = await service.allocateHours({
+      corporateAccountId: 'corp-1',
+      studentId: 'emp-1',
+      hours: 5,
+      reason: 'Extra hours'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('ALLOCATION_CAP_EXCEEDED');
+    expect(hours.transferHours).not.toHaveBeenCalled();
+  });
+
+  it('should report a pool purchase the spending cap rejected', async () => {
+    const { service, hours } = createService({
+      corporate_accounts: [{ data: account, error: null }]
+    });
+    hours.purchaseHours.mockResolvedValueOnce({
+      success: false,
+      error: {
+        code: 'PURCHASE_ERROR',
+        message: 'Failed to purchase hours',
+        details: { message: 'SPEND_CAP_EXCEEDED: purchase of 360.00 would take spend this month to 1060.00 of the 1000.00 cap' }
+      }
+    });
+
+    const result = await service.purchasePoolHours('corp-1', 'package-1', 'corporate_invoice');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('SPEND_CAP_EXCEEDED');
+  });
+
+  it('should buy into the pool through a corporate purchase', async () => {
+    const { service, hours } = createService({
+      corporate_accounts: [{ data: account, error: null }]
+    });
+
+    const result = await service.purchasePoolHours('corp-1', 'package-1', 'corporate_invoice');
+
+    expect(result.success).toBe(true);
+    expect(hours.purchaseHours).toHaveBeenCalledWith(expect.objectContaining({
+      studentId: 'pool-1',
+      isCorporatePurchase: true,
+      corporateAccountId: 'pool-1'
+    }));
+  });
+});
@@ -0,0 +1,122 @@
+import { FamilyAccountService } from '../family-account-service';
+import { mockQuery } from '@/__mocks__/supabase-query';
+
+const family = {
+  id: 'family-1',
+  name: 'The Parks',
+  wallet_profile_id: 'parent-1',
+  status: 'active',
+  monthly_transfer_cap: 20,
+  currency: 'USD'
+};
+
+const members = [
+  { id: 'm-1', family_account_id: 'family-1', profile_id: 'parent-1', role: 'guardian', relationship: 'parent', status: 'active' },
+  { id: 'm-2', family_account_id: 'family-1', profile_id: 'child-1', role: 'child', relationship: 'daughter', status: 'active' },
+  { id: 'm-3', family_account_id: 'family-1', profile_id: 'child-2', role: 'child', relationship: 'son', status: 'active' }
+];
+
+describe('FamilyAccountService', () => {
+  const createService = (tables: Record<string, any[]>, balance = 30, transferResult: any = { success: true, data: { id: 'transfer-1' } }) => {
+    const client = {
+      from: jest.fn((table: string) => mockQuery(tables[table].shift())),
+      rpc: jest.fn().mockResolvedValue({ data: balance, error: null })
+    };
+    const hours = {
+      transferHours: jest.fn().mockResolvedValue({ success: true, data: { id: 'transfer-1' } }),
+      transferFamilyHours: jest.fn().mockResolvedValue(transferResult),
+      getFamilyTransferLogs: jest.fn()
+    };
+    return { service: new FamilyAccountService(client, hours as any), hours };
+  };
+
+  it('should move hours between siblings as the signed-in guardian', async () => {
+    const { service, hours } = createService({});
+    const request = {
+      familyAccountId: 'family-1',
+      fromProfileId: 'child-1',
+      toProfileId: 'child-2',
+      hours: 4,
+      reason: 'Extra lessons before exams'
+    };
+
+    const result = await service.transferHours(request);
+
+    expect(result.success).toBe(true);
+    expect(hours.transferFamilyHours).toHaveBeenCalledWith(request);
+    expect(hours.transferHours).not.toHaveBeenCalled();
+  });
+
+  it('should report the family rule the database refused the transfer under', async () => {
+    const { service } = createService({}, 30, {
+      success: false,
+      error: {
+        code: 'TRANSFER_ERROR',
+        message: 'Failed to transfer hours',
+        details: { message: 'FAMILY_TRANSFER_CAP_EXCEEDED: Only 2 more hours can be moved this month' }
+      }
+    });
+
+    const result = await service.transferHours({
+      familyAccountId: 'family-1',
+      fromProfileId: 'parent-1',
+      toProfileId: 'child-1',
+      hours: 5,
+      reason: 'Term top-up'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('FAMILY_TRANSFER_CAP_EXCEEDED');
+    expect(result.error?.message).toBe('Only 2 more hours can be moved this month');
+  });
+
+  it('should not confuse a same-member transfer with invalid hours', async () => {
+    const { service } = createService({}, 30, {
+      success: false,
+      error: {
+        code: 'TRANSFER_ERROR',
+        message: 'Failed to transfer hours',
+        details: { message: 'INVALID_TRANSFER_HOURS: Hours to transfer must be a positive whole number' }
+      }
+    });
+
+    const result = await service.transferHours({
+      familyAccountId: 'family-1',
+      fromProfileId: 'parent-1',
+      toProfileId: 'child-1',
+      hours: 0,
+      reason: 'Term top-up'
+    });
+
+    expect(result.error?.code).toBe('INVALID_TRANSFER_HOURS');
+  });
+
+  it('should consolidate wallet purchases, transfers and usage per member', async () => {
+    const { service, hours } = createService({
+      family_accounts: [{ data: family, error: null }],
+      hour_purchases: [{ data: [{ hours_purchased: 20, price_paid: '400.00' }], error: null }],
+      family_members: [{ data: members, error: null }],
+      hour_transactions: [{ data: [{ student_id: 'child-1', hours_amount: -3 }], error: null }]
+    }, 7);
+    hours.getFamilyTransferLogs.mockResolvedValue({
+      success: true,
+      data: [
+        { id: 't-1', fromStudentId: 'parent-1', toStudentId: 'child-1', hoursTransferred: 10 },
+        { id: 't-2', fromStudentId: 'child-1', toStudentId: 'child-2', hoursTransferred: 2 }
+      ]
+    });
+
+    const result = await service.getMonthlyStatement('family-1', '2025-07');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.amountSpent).toBe(400);
+    expect(result.data?.hoursTransferred).toBe(12);
+    expect(result.data?.members.map(m => m.role)).toEqual(['wallet', 'child', 'child']);
+    expect(result.data?.members[1]).toEqual(expect.objectContaining({
+      profileId: 'child-1',
+      hoursReceived: 10,
+      hoursSent: 2,
+      hoursUsed: 3
+    }));
+  });
+});
@@ -0,0 +1,297 @@
+import { FeedbackPromptService, getFeedbackRatingUrl, getPromptSkipReason } from '../feedback-prompt-service';
+import { mockSupabaseClient } from '@/__mocks__/supabase-query';
+
+const mockMailer = () => ({ addToQueue: jest.fn().mockResolvedValue('email-1') });
+
+const NOW = new Date('2030-03-04T12:00:00.000Z');
+
+const prompt = (overrides: Record<string, any> = {}) => ({
+  id: 'prompt-1',
+  prompt_name: 'Post-Class Feedback',
+  trigger_event: 'class_completed',
+  delay_minutes: 30,
+  expiry_days: 7,
+  max_reminders: 2,
+  reminder_interval_days: 2,
+  target_user_role: 'student',
+  max_prompts_per_week: 1,
+  group_class_sample_rate: '1.00',
+  is_active: true,
+  ...overrides
+});
+
+const attendanceRow = (id: string, studentId: string, courseType: string = '1-on-1') => ({
+  id,
+  attendance_time: '2030-03-04T10:00:00.000Z',
+  booking: {
+    id: `booking-${id}`,
+    student_id: studentId,
+    class_id: 'class-1',
+    start_time: '2030-03-04T10:00:00.000Z',
+    end_time: '2030-03-04T11:00:00.000Z',
+    substitute_teacher_id: null,
+    class: { teacher_id: 'teacher-1', course: { id: 'course-1', course_type: courseType } }
+  }
+});
+
+const delivery = (overrides: Record<string, any> = {}) => ({
+  id: 'delivery-1',
+  token: 'token-1',
+  status: 'sent',
+  student_id: 'student-1',
+  class_id: 'class-1',
+  teacher_id: 'teacher-1',
+  booking_id: 'booking-1',
+  reminder_count: 0,
+  expires_at: '2030-03-11T12:00:00.000Z',
+  prompt: { expiry_days: 7, max_reminders: 2, reminder_interval_days: 2 },
+  student: { user_id: 'user-1', email: 'ana@example.com', full_name: 'Ana Lima' },
+  class: { class_name: 'Business English B1' },
+  teacher: { full_name: 'Peter Smith' },
+  booking: { start_time: '2030-03-04T09:30:00.000Z' },
+  ...overrides
+});
+
+describe('getPromptSkipReason', () => {
+  it('should always prompt 1-on-1 classes', () => {
+    expect(getPromptSkipReason(
+      { group_class_sample_rate: 0 },
+      { classId: 'class-1', startTime: '2030-03-04T10:00:00.000Z', courseType: '1-on-1', promptsThisWeek: 0 }
+    )).toBeNull();
+  });
+
+  it('should sample roughly the configured share of group classes', () => {
+    const sampled = Array.from({ length: 1000 }, (_, index) => getPromptSkipReason(
+      { group_class_sample_rate: 0.3 },
+      { classId: `class-${index}`, startTime: '2030-03-04T10:00:00.000Z', courseType: 'Everyday A', promptsThisWeek: 0 }
+    )).filter(reason => reason === null).length;
+
+    expect(sampled).toBeGreaterThan(250);
+    expect(sampled).toBeLessThan(350);
+  });
+
+  it('should hold back prompts over the weekly cap', () => {
+    expect(getPromptSkipReason(
+      { max_prompts_per_week: 1, group_class_sample_rate: 1 },
+      { classId: 'class-1', startTime: '2030-03-04T10:00:00.000Z', courseType: 'Speak Up', promptsThisWeek: 1 }
+    )).toBe('throttled');
+  });
+});
+
+describe('getFeedbackRatingUrl', () => {
+  it('should carry the rating in the link', () => {
+    expect(getFeedbackRatingUrl('abc', 4, 'https://example.com')).toBe('https://example.com/feedback/rate/abc?rating=4');
+  });
+});
+
+describe('FeedbackPromptService', () => {
+  it('should schedule one prompt per student per week after the class ends', async () => {
+    const { client, calls } = mockSupabaseClient({
+      feedback_prompts: [{ data: [prompt()], error: null }],
+      attendance: [{
+        data: [
+          attendanceRow('attendance-1', 'student-1'),
+          attendanceRow('attendance-2', 'student-1'),
+          attendanceRow('attendance-3', 'student-2')
+        ],
+        error: null
+      }],
+      feedback_prompt_deliveries: [
+        { data: [{ prompt_id: 'prompt-1', attendance_id: 'attendance-3' }], error: null },
+        { data: [], error: null },
+        { data: null, error: null },
+        { data: null, error: null }
+      ]
+    });
+    const service = new FeedbackPromptService(client, mockMailer());
+
+    const result = await service.sweep(NOW);
+
+    expect(result).toEqual(expect.objectContaining({ scheduled: 1, skipped: 1, errors: [] }));
+    expect(calls.feedback_prompt_deliveries[2].insert).toHaveBeenCalledWith(expect.objectContaining({
+      attendance_id: 'attendance-1',
+      teacher_id: 'teacher-1',
+      course_id: 'course-1',
+      status: 'scheduled',
+      skip_reason: null,
+      scheduled_for: '2030-03-04T11:30:00.000Z'
+    }));
+    expect(calls.feedback_prompt_deliveries[3].insert).toHaveBeenCalledWith(expect.objectContaining({
+      attendance_id: 'attendance-2',
+      status: 'skipped',
+      skip_reason: 'throttled'
+    }));
+  });
+
+  it('should give every student of a group session the same sampling decision', async () => {
+    const students = ['student-1', 'student-2', 'student-3', 'student-4'];
+    const { client, calls } = mockSupabaseClient({
+      feedback_prompts: [{ data: [prompt({ group_class_sample_rate: '0.50', max_prompts_per_week: null })], error: null }],
+      attendance: [{
+        data: students.map((studentId, index) => attendanceRow(`attendance-${index + 1}`, studentId, 'Everyday A')),
+        error: null
+      }],
+      feedback_prompt_deliveries: [
+        { data: [], error: null },
+        { data: [], error: null },
+        ...students.map(() => ({ data: null, error: null }))
+      ]
+    });
+    const service = new FeedbackPromptService(client, mockMailer());
+
+    await service.sweep(NOW);
+
+    const statuses = calls.feedback_prompt_deliveries
+      .filter(call => call.insert.mock.calls.length > 0)
+      .map(call => call.insert.mock.calls[0][0].status);
+    expect(statuses).toHaveLength(students.length);
+    expect(new Set(statuses).size).toBe(1);
+  });
+
+  it('should send due prompts in-app and by email with a link per rating', async () => {
+    const { client, calls } = mockSupabaseClient({
+      feedback_prompts: [{ data: [], error: null }],
+      feedback_prompt_deliveries: [
+        { data: [delivery({ status: 'scheduled', expires_at: null })], error: null },
+        { data: [{ id: 'delivery-1' }], error: null }
+      ],
+      notifications: [{ data: null, error: null }]
+    });
+    const mailer = mockMailer();
+    const service = new FeedbackPromptService(client, mailer);
+
+    const result = await service.sweep(NOW);
+
+    expect(result.sent).toBe(1);
+    expect(calls.feedback_prompt_deliveries[1].update).toHaveBeenCalledWith({
+      status: 'sent',
+      sent_at: NOW.toISOString(),
+      expires_at: '2030-03-11T12:00:00.000Z',
+      next_reminder_at: '2030-03-06T12:00:00.000Z'
+    });
+    expect(calls.feedback_prompt_deliveries[1].eq).toHaveBeenCalledWith('status', 'scheduled');
+    expect(calls.notifications[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+      user_id: 'user-1',
+      title: 'How was your class?',
+      notification_type: 'system'
+    }));
+
+    const email = mailer.addToQueue.mock.calls[0][0];
+    expect(email.to).toEqual([{ email: 'ana@example.com', name: 'Ana Lima' }]);
+    expect(email.text).toContain('/feedback/rate/token-1?rating=1');
+    expect(email.text).toContain('/feedback/rate/token-1?rating=5');
+  });
+
+  it('should stop reminding after the last reminder', async () => {
+    const { client, calls } = mockSupabaseClient({
+      feedback_prompts: [{ data: [], error: null }],
+      feedback_prompt_deliveries: [
+        { data: [], error: null },
+        { data: [delivery({ reminder_count: 1 })], error: null },
+        { data: [{ id: 'delivery-1' }], error: null },
+        { data: [{ id: 'delivery-2' }], error: null }
+      ],
+      notifications: [{ data: null, error: null }]
+    });
+    const mailer = mockMailer();
+    const service = new FeedbackPromptService(client, mailer);
+
+    const result = await service.sweep(NOW);
+
+    expect(result).toEqual(expect.objectContaining({ reminded: 1, expired: 1 }));
+    expect(calls.feedback_prompt_deliveries[2].update).toHaveBeenCalledWith({ reminder_count: 2, next_reminder_at: null });
+    expect(calls.feedback_prompt_deliveries[2].eq).toHaveBeenCalledWith('reminder_count', 1);
+    expect(mailer.addToQueue.mock.calls[0][0].subject).toBe('Reminder: how was your class?');
+  });
+
+  it('should save a one-click rating as prompted feedback', async () => {
+    const { client, calls } = mockSupabaseClient({
+      feedback_prompt_deliveries: [{ data: delivery(), error: null }, { data: null, error: null }],
+      student_feedback: [{ data: { id: 'feedback-1' }, error: null }]
+    });
+    const service = new FeedbackPromptService(client);
+
+    const result = await service.respond('token-1', { rating: 4 }, NOW);
+
+    expect(result.data).toEqual(expect.objectContaining({ status: 'responded', rating: 4, class_name: 'Business English B1' }));
+    expect(calls.student_feedback[0].insert).toHaveBeenCalledWith({
+      student_id: 'student-1',
+      class_id: 'class-1',
+      teacher_id: 'teacher-1',
+      booking_id: 'booking-1',
+      overall_rating: 4,
+      feedback_type: 'class_feedback',
+      submission_method: 'prompted'
+    });
+    expect(calls.feedback_prompt_deliveries[1].update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'responded',
+      feedback_id: 'feedback-1',
+      next_reminder_at: null
+    }));
+  });
+
+  it('should add comments to feedback already given', async () => {
+    const { client, calls } = mockSupabaseClient({
+      feedback_prompt_deliveries: [
+        { data: delivery({ status: 'responded', feedback_id: 'feedback-1', responded_at: '2030-03-04T12:00:00.000Z' }), error: null },
+        { data: null, error: null }
+      ],
+      student_feedback: [{ data: null, error: null }]
+    });
+    const service = new FeedbackPromptService(client);
+
+    await service.respond('token-1', { rating: 5, positive_feedback: ' Great role-plays ', improvement_suggestions: '' }, NOW);
+
+    expect(calls.student_feedback[0].update).toHaveBeenCalledWith({
+      overall_rating: 5,
+      positive_feedback: 'Great role-plays',
+      improvement_suggestions: null
+    });
+    expect(calls.student_feedback[0].eq).toHaveBeenCalledWith('id', 'feedback-1');
+  });
+
+  it('should refuse a rating once the prompt has expired', async () => {
+    const { client, calls } = mockSupabaseClient({
+      feedback_prompt_deliveries: [{ data: delivery({ expires_at: '2030-03-01T00:00:00.000Z' }), error: null }]
+    });
+    const service = new FeedbackPromptService(client);
+
+    expect((await service.respond('token-1', { rating: 3 }, NOW)).error?.code).toBe('PROMPT_EXPIRED');
+    expect((await service.respond('token-1', { rating: 6 }, NOW)).error?.code).toBe('INVALID_RATING');
+    expect(calls.student_feedback).toBeUndefined();
+  });
+
+  it('should report response rates per teacher and per course', async () => {
+    const row = (status: string, teacher: string, rating?: number) => ({
+      status,
+      rating: rating ?? null,
+      teacher_id: teacher,
+      course_id: 'course-1',
+      teacher: { full_name: teacher === 'teacher-1' ? 'Peter Smith' : 'Mia Chen' },
+      course: { title: 'Business English' }
+    });
+    const { client } = mockSupabaseClient({
+      feedback_prompt_deliveries: [{
+        data: [
+          row('responded', 'teacher-1', 5),
+          row('responded', 'teacher-1', 4),
+          row('expired', 'teacher-1'),
+          row('sent', 'teacher-2')
+        ],
+        error: null
+      }]
+    });
+    const service = new FeedbackPromptService(client);
+
+    const result = await service.getResponseRates({ from: '2030-02-01T00:00:00.000Z', to: NOW.toISOString() });
+
+    expect(result.data?.overall).toEqual({ prompted: 4, responded: 2, response_rate: 0.5, average_rating: 4.5 });
+    expect(result.data?.by_teacher).toEqual([
+      { id: 'teacher-1', name: 'Peter Smith', prompted: 3, responded: 2, response_rate: 2 / 3, average_rating: 4.5 },
+      { id: 'teacher-2', name: 'Mia Chen', prompted: 1, responded: 0, response_rate: 0, average_rating: undefined }
+    ]);
+    expect(result.data?.by_course).toEqual([
+      expect.objectContaining({ id: 'course-1', prompted: 4, responded: 2 })
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+import { HourExpiryCronService } from '../hour-expiry-cron';
+import { mockQuery } from '@/__mocks__/supabase-query';
+
+describe('HourExpiryCronService', () => {
+  it('should report the unused remainder expired from each lot', async () => {
+    const client = {
+      rpc: jest.fn().mockResolvedValue({
+        data: [
+          { lot_id: 'purchase-1', lot_student_id: 'student-1', expired_hours: 3, expiry_transaction_id: 'tx-1' },
+          { lot_id: 'purchase-2', lot_student_id: 'student-1', expired_hours: 2, expiry_transaction_id: 'tx-2' }
+        ],
+        error: null
+      }),
+      from: jest.fn(() => mockQuery({ data: [], error: null }))
+    };
+
+    const result = await new HourExpiryCronService(client).runExpiryProcess();
+
+    expect(client.rpc).toHaveBeenCalledWith('expire_hour_lots');
+    expect(result.success).toBe(true);
+    expect(result.expired).toBe(2);
+    expect(result.hoursExpired).toBe(5);
+    expect(result.lots[0]).toEqual({
+      purchaseId: 'purchase-1',
+      studentId: 'student-1',
+      hoursExpired: 3,
+      transactionId: 'tx-1'
+    });
+  });
+
+  it('should report failures from the expiry function', async () => {
+    const client = {
+      rpc: jest.fn().mockResolvedValue({ data: null, error: new Error('lock timeout') }),
+      from: jest.fn(() => mockQuery({ data: [], error: null }))
+    };
+
+    const result = await new HourExpiryCronService(client).runExpiryProcess();
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['lock timeout']);
+  });
+});
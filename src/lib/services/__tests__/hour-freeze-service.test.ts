@@ -0,0 +1,91 @@
+import {
+  HourFreezeService,
+  calculateFreezeDays,
+  countLeaveDays,
+  isFreezeEligible
+} from '../hour-freeze-service';
+import { mockQuery } from '@/__mocks__/supabase-query';
+
+describe('countLeaveDays', () => {
+  it('should count both ends of the leave', () => {
+    expect(countLeaveDays('2025-03-01', '2025-03-01')).toBe(1);
+    expect(countLeaveDays('2025-02-20', '2025-03-05')).toBe(14);
+    expect(countLeaveDays('2025-03-05', '2025-03-01')).toBe(0);
+  });
+});
+
+describe('isFreezeEligible', () => {
+  it('should only freeze long medical or travel leave', () => {
+    expect(isFreezeEligible('medical', '2025-03-01', '2025-03-07')).toBe(true);
+    expect(isFreezeEligible('vacation', '2025-03-01', '2025-03-06')).toBe(false);
+    expect(isFreezeEligible('emergency', '2025-03-01', '2025-03-31')).toBe(false);
+  });
+});
+
+describe('calculateFreezeDays', () => {
+  it('should cap the freeze at what is left of the yearly allowance', () => {
+    expect(calculateFreezeDays({
+      startDate: '2025-06-01',
+      endDate: '2025-06-30',
+      maxDaysPerYear: 60,
+      usedDays: 45
+    })).toEqual({ requestedDays: 30, freezeDays: 15 });
+
+    expect(calculateFreezeDays({
+      startDate: '2025-06-01',
+      endDate: '2025-06-10',
+      maxDaysPerYear: 60,
+      usedDays: 70
+    }).freezeDays).toBe(0);
+  });
+});
+
+describe('HourFreezeService', () => {
+  it('should apply the freeze for the leave request in SQL', async () => {
+    const tables: Record<string, any[]> = {
+      hour_freezes: [
+        mockQuery({
+          data: {
+            id: 'freeze-1',
+            student_id: 'student-1',
+            leave_request_id: 'leave-1',
+            start_date: '2025-06-01',
+            end_date: '2025-06-21',
+            requested_days: 21,
+            freeze_days: 10,
+            lots_extended: 2,
+            status: 'active'
+          },
+          error: null
+        })
+      ]
+    };
+    const client = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest.fn().mockResolvedValue({ data: 'freeze-1', error: null })
+    };
+
+    const result = await new HourFreezeService(client).freezeForLeave('leave-1');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.freezeDays).toBe(10);
+    expect(client.rpc).toHaveBeenCalledWith('apply_hour_freeze', { p_leave_request_id: 'leave-1' });
+  });
+
+  it('should report a freeze refused once the yearly cap is used up', async () => {
+    const client = {
+      from: jest.fn(),
+      rpc: jest.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'FREEZE_CAP_REACHED: all 60 freeze days for 2025 are used' }
+      })
+    };
+
+    const result = await new HourFreezeService(client).freezeForLeave('leave-1');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('FREEZE_CAP_REACHED');
+    expect(result.error?.message).toBe('all 60 freeze days for 2025 are used');
+    expect(client.from).not.toHaveBeenCalled();
+  });
+});
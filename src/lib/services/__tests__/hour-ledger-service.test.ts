@@ -0,0 +1,117 @@
+import {
+  HourLedgerService,
+  describeIntegrityIssue,
+  reconcileBalances
+} from '../hour-ledger-service';
+
+describe('reconcileBalances', () => {
+  it('should not flag students whose balances agree', () => {
+    expect(reconcileBalances([
+      { studentId: 'student-1', ledgerBalance: 10, purchaseBalance: 10, cachedBalance: 10 },
+      { studentId: 'student-2', ledgerBalance: 0, purchaseBalance: 0 }
+    ])).toEqual([]);
+  });
+
+  it('should suggest an adjustment when purchase lots and the ledger disagree', () => {
+    const [discrepancy] = reconcileBalances([
+      { studentId: 'student-1', ledgerBalance: 10, purchaseBalance: 7, cachedBalance: 10 }
+    ]);
+
+    expect(discrepancy.discrepancyType).toBe('ledger_purchase_mismatch');
+    expect(discrepancy.difference).toBe(-3);
+    expect(discrepancy.suggestedRepair).toEqual(expect.objectContaining({ action: 'post_adjustment', hours: -3 }));
+  });
+
+  it('should flag a stale cached balance against the ledger', () => {
+    const discrepancies = reconcileBalances([
+      { studentId: 'student-1', ledgerBalance: 8, purchaseBalance: 8, cachedBalance: 10, lastTransactionId: 'tx-9' }
+    ]);
+
+    expect(discrepancies).toHaveLength(1);
+    expect(discrepancies[0]).toEqual(expect.objectContaining({
+      discrepancyType: 'cached_balance_mismatch',
+      difference: -2,
+      referenceId: 'tx-9'
+    }));
+    expect(discrepancies[0].suggestedRepair.action).toBe('refresh_cached_balance');
+  });
+});
+
+describe('describeIntegrityIssue', () => {
+  it('should suggest completing transfers left in clearing', () => {
+    const discrepancy = describeIntegrityIssue({
+      issue_type: 'open_transfer',
+      student_id: 'student-1',
+      counterparty_student_id: 'student-2',
+      reference_id: null,
+      amount: 5
+    });
+
+    expect(discrepancy.discrepancyType).toBe('open_transfer');
+    expect(discrepancy.suggestedRepair.action).toBe('complete_transfer');
+  });
+
+  it('should suggest backfilling transactions without a journal', () => {
+    const discrepancy = describeIntegrityIssue({
+      issue_type: 'missing_journal',
+      student_id: 'student-1',
+      counterparty_student_id: null,
+      reference_id: 'tx-1',
+      amount: -2
+    });
+
+    expect(discrepancy.referenceId).toBe('tx-1');
+    expect(discrepancy.suggestedRepair.action).toBe('backfill_journal');
+  });
+});
+
+describe('HourLedgerService', () => {
+  it('should record discrepancies found during a run', async () => {
+    const discrepancyInsert = jest.fn().mockResolvedValue({ error: null });
+    const runUpdate = jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          single: jest.fn().mockResolvedValue({
+            data: { id: 'run-1', status: 'completed', students_checked: 2, discrepancies_found: 1 },
+            error: null
+          })
+        })
+      })
+    });
+
+    const client = {
+      from: jest.fn()
+        .mockReturnValueOnce({
+          insert: jest.fn().mockReturnValue({
+            select: jest.fn().mockReturnValue({
+              single: jest.fn().mockResolvedValue({ data: { id: 'run-1' }, error: null })
+            })
+          })
+        })
+        .mockReturnValueOnce({ insert: discrepancyInsert })
+        .mockReturnValueOnce({ update: runUpdate }),
+      rpc: jest.fn()
+        .mockResolvedValueOnce({
+          data: [
+            { student_id: 'student-1', ledger_balance: 5, purchase_balance: 5, cached_balance: 5 },
+            { student_id: 'student-2', ledger_balance: 4, purchase_balance: 6, cached_balance: 4 }
+          ],
+          error: null
+        })
+        .mockResolvedValueOnce({ data: [], error: null })
+    };
+
+    const result = await new HourLedgerService(client).runReconciliation();
+
+    expect(result.success).toBe(true);
+    expect(result.data?.discrepanciesFound).toBe(1);
+    expect(discrepancyInsert).toHaveBeenCalledWith([
+      expect.objectContaining({
+        run_id: 'run-1',
+        student_id: 'student-2',
+        discrepancy_type: 'ledger_purchase_mismatch',
+        difference: 2
+      })
+    ]);
+  });
+});
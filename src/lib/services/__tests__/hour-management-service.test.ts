@@ -1,5 +1,7 @@
 import { supabase } from '@/lib/supabase';
 import { HourManagementService } from '../hour-management-service';
+import { SandboxPaymentProvider } from '../payment-gateway-service';
+import { mockRowStoreClient } from '@/__mocks__/supabase-query';
 import type { 
   HourPackage, 
   HourPurchaseRequest,
@@ -13,9 +15,26 @@ describe('HourManagementService', () => {
   let service: HourManagementService;
   let mockSupabase: any;
 
+  let mockPricing: any;
+
   beforeEach(() => {
     jest.clearAllMocks();
-    service = new HourManagementService();
+    // Price purchases at list price unless a test sets up discounts
+    mockPricing = {
+      getQuote: jest.fn().mockImplementation(async (request: any) => ({
+        success: true,
+        data: {
+          hours: request.hours,
+          listPrice: request.listPrice,
+          discounts: [],
+          totalDiscount: 0,
+          finalPrice: request.listPrice,
+          currency: request.currency
+        }
+      })),
+      applyDiscounts: jest.fn().mockResolvedValue({ success: true, data: 0 })
+    };
+    service = new HourManagementService(new SandboxPaymentProvider(mockRowStoreClient('reference')), mockPricing);
     mockSupabase = supabase;
   });
 
@@ -129,6 +148,20 @@ describe('HourManagementService', () => {
         })
       });
 
+      // Mock processing update after authorization
+      mockSupabase.from.mockReturnValueOnce({
+        update: jest.fn().mockReturnValue({
+          eq: jest.fn().mockReturnValue({
+            select: jest.fn().mockReturnValue({
+              single: jest.fn().mockResolvedValue({
+                data: { ...mockPurchase, payment_status: 'processing' },
+                error: null
+              })
+            })
+          })
+        })
+      });
+
       // Mock payment update
       mockSupabase.from.mockReturnValueOnce({
         update: jest.fn().mockReturnValue({
@@ -157,6 +190,197 @@ describe('HourManagementService', () => {
       expect(result.data?.paymentStatus).toBe('completed');
     });
 
+    it('should mark the purchase as failed when the payment is declined', async () => {
+      const failedUpdate = jest.fn().mockReturnValue({
+        eq: jest.fn().mockResolvedValue({ error: null })
+      });
+
+      mockSupabase.from.mockReturnValueOnce({
+        select: jest.fn().mockReturnValue({
+          eq: jest.fn().mockReturnValue({
+            single: jest.fn().mockResolvedValue({
+              data: { id: 'pkg-1', hours_included: 10, validity_days: 90, price: 149.99, currency: 'USD' },
+              error: null
+            })
+          })
+        })
+      });
+
+      mockSupabase.from.mockReturnValueOnce({
+        insert: jest.fn().mockReturnValue({
+          select: jest.fn().mockReturnValue({
+            single: jest.fn().mockResolvedValue({
+              data: { id: 'purchase-declined', price_paid: 149.99, currency: 'USD', payment_status: 'pending' },
+              error: null
+            })
+          })
+        })
+      });
+
+      mockSupabase.from.mockReturnValueOnce({ update: failedUpdate });
+
+      const result = await service.purchaseHours({
+        studentId: 'student-1',
+        packageId: 'pkg-1',
+        paymentMethod: 'credit_card',
+        paymentDetails: { sandboxToken: 'tok_decline' }
+      });
+
+      expect(result.success).toBe(false);
+      expect(failedUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        payment_status: 'failed',
+        payment_reference: 'sbx_purchase-declined'
+      }));
+    });
+
+    it('should charge the discounted price and record the discounts', async () => {
+      const discountQuote = {
+        hours: 10,
+        listPrice: 149.99,
+        discounts: [{ type: 'promo_code', sourceId: 'promo-1', code: 'SPRING', description: 'Spring sale', amount: 29.99, percentage: 20 }],
+        totalDiscount: 29.99,
+        finalPrice: 120,
+        currency: 'USD'
+      };
+      mockPricing.getQuote.mockResolvedValueOnce({ success: true, data: discountQuote });
+
+      const purchaseInsert = jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          single: jest.fn().mockResolvedValue({
+            data: { id: 'purchase-discounted', price_paid: 120, currency: 'USD', payment_status: 'pending' },
+            error: null
+          })
+        })
+      });
+
+      mockSupabase.from
+        .mockReturnValueOnce({
+          select: jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({
+              single: jest.fn().mockResolvedValue({
+                data: { id: 'pkg-1', hours_included: 10, validity_days: 90, price: 149.99, currency: 'USD' },
+                error: null
+              })
+            })
+          })
+        })
+        .mockReturnValueOnce({ insert: purchaseInsert })
+        .mockReturnValueOnce({
+          update: jest.fn().mockReturnValue({ eq: jest.fn().mockResolvedValue({ error: null }) })
+        });
+
+      await service.purchaseHours({
+        studentId: 'student-1',
+        packageId: 'pkg-1',
+        paymentMethod: 'credit_card',
+        promoCode: 'spring',
+        paymentDetails: { sandboxToken: 'tok_decline' }
+      });
+
+      expect(mockPricing.getQuote).toHaveBeenCalledWith(expect.objectContaining({
+        studentId: 'student-1',
+        hours: 10,
+        listPrice: 149.99,
+        promoCode: 'spring'
+      }));
+      expect(purchaseInsert).toHaveBeenCalledWith(expect.objectContaining({
+        price_paid: 120,
+        list_price: 149.99,
+        discount_total: 29.99
+      }));
+      expect(mockPricing.applyDiscounts).toHaveBeenCalledWith('purchase-discounted', 'student-1', discountQuote);
+    });
+
+    it('should complete a fully discounted purchase without charging the provider', async () => {
+      const provider = { name: 'sandbox', authorize: jest.fn(), capture: jest.fn() };
+      const freeService = new HourManagementService(provider as any, mockPricing);
+      mockPricing.getQuote.mockResolvedValueOnce({
+        success: true,
+        data: { hours: 10, listPrice: 149.99, discounts: [], totalDiscount: 149.99, finalPrice: 0, currency: 'USD' }
+      });
+
+      const completedUpdate = jest.fn().mockReturnValue({
+        eq: jest.fn().mockReturnValue({
+          select: jest.fn().mockReturnValue({
+            single: jest.fn().mockResolvedValue({
+              data: { id: 'purchase-free', price_paid: 0, currency: 'USD', payment_status: 'completed' },
+              error: null
+            })
+          })
+        })
+      });
+
+      mockSupabase.from
+        .mockReturnValueOnce({
+          select: jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({
+              single: jest.fn().mockResolvedValue({
+                data: { id: 'pkg-1', name: 'Starter', hours_included: 10, validity_days: 90, price: 149.99, currency: 'USD' },
+                error: null
+              })
+            })
+          })
+        })
+        .mockReturnValueOnce({
+          insert: jest.fn().mockReturnValue({
+            select: jest.fn().mockReturnValue({
+              single: jest.fn().mockResolvedValue({
+                data: { id: 'purchase-free', price_paid: 0, currency: 'USD', payment_status: 'pending' },
+                error: null
+              })
+            })
+          })
+        })
+        .mockReturnValueOnce({ update: completedUpdate })
+        .mockReturnValueOnce({ insert: jest.fn().mockResolvedValue({ error: null }) });
+      mockSupabase.rpc.mockResolvedValue({ data: 0, error: null });
+
+      const result = await freeService.purchaseHours({
+        studentId: 'student-1',
+        packageId: 'pkg-1',
+        paymentMethod: 'credit_card',
+        promoCode: 'FREE'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.paymentStatus).toBe('completed');
+      expect(provider.authorize).not.toHaveBeenCalled();
+      expect(provider.capture).not.toHaveBeenCalled();
+      expect(completedUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        payment_status: 'completed',
+        payment_reference: 'free_purchase-free'
+      }));
+    });
+
+    it('should reject a purchase when the promo code is not valid', async () => {
+      mockPricing.getQuote.mockResolvedValueOnce({
+        success: false,
+        error: { code: 'PROMO_EXPIRED', message: 'This promo code has expired' }
+      });
+
+      mockSupabase.from.mockReturnValueOnce({
+        select: jest.fn().mockReturnValue({
+          eq: jest.fn().mockReturnValue({
+            single: jest.fn().mockResolvedValue({
+              data: { id: 'pkg-1', hours_included: 10, validity_days: 90, price: 149.99, currency: 'USD' },
+              error: null
+            })
+          })
+        })
+      });
+
+      const result = await service.purchaseHours({
+        studentId: 'student-1',
+        packageId: 'pkg-1',
+        paymentMethod: 'credit_card',
+        promoCode: 'OLD'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('PROMO_EXPIRED');
+      expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+    });
+
     it('should handle invalid package ID', async () => {
       const purchaseRequest: HourPurchaseRequest = {
         studentId: 'student-1',
@@ -270,7 +494,7 @@ describe('HourManagementService', () => {
         studentId: 'student-1',
         classId: 'class-1',
         bookingId: 'booking-1',
-        hours: 1,
+        hours: 2,
         classType: 'individual',
         deductionRate: 1.0
       };
@@ -280,9 +504,13 @@ describe('HourManagementService', () => {
         id: mockTransactionId,
         student_id: params.studentId,
         transaction_type: 'deduction',
-        hours_amount: -1,
+        hours_amount: -2,
         balance_before: 10,
-        balance_after: 9
+        balance_after: 8,
+        hour_transaction_lots: [
+          { id: 'lot-draw-1', transaction_id: mockTransactionId, purchase_id: 'purchase-1', hours: 1, lot_valid_until: '2025-02-01T00:00:00Z' },
+          { id: 'lot-draw-2', transaction_id: mockTransactionId, purchase_id: 'purchase-2', hours: 1, lot_valid_until: '2025-03-01T00:00:00Z' }
+        ]
       };
 
       mockSupabase.rpc.mockResolvedValueOnce({
@@ -304,8 +532,9 @@ describe('HourManagementService', () => {
       const result = await service.deductClassHours(params);
 
       expect(result.success).toBe(true);
-      expect(result.data?.hoursAmount).toBe(-1);
+      expect(result.data?.hoursAmount).toBe(-2);
       expect(result.data?.transactionType).toBe('deduction');
+      expect(result.data?.lotsConsumed?.map(l => l.purchaseId)).toEqual(['purchase-1', 'purchase-2']);
       expect(mockSupabase.rpc).toHaveBeenCalledWith('deduct_class_hours', {
         p_student_id: params.studentId,
         p_class_id: params.classId,
@@ -348,82 +577,52 @@ describe('HourManagementService', () => {
         familyRelationship: 'siblings'
       };
 
-      // Mock balance checks
-      mockSupabase.rpc
-        .mockResolvedValueOnce({ data: 10, error: null }) // From student balance
-        .mockResolvedValueOnce({ data: 5, error: null })  // To student balance
-        .mockResolvedValueOnce({ data: 10, error: null }); // Repeated call
-
-      // Mock oldest purchase
-      mockSupabase.from.mockReturnValueOnce({
-        select: jest.fn().mockReturnValue({
-          eq: jest.fn().mockReturnValue({
-            eq: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                gt: jest.fn().mockReturnValue({
-                  order: jest.fn().mockReturnValue({
-                    limit: jest.fn().mockReturnValue({
-                      single: jest.fn().mockResolvedValue({
-                        data: { id: 'purchase-1' },
-                        error: null
-                      })
-                    })
-                  })
-                })
-              })
-            })
-          })
-        })
-      });
-
-      // Mock transaction inserts
-      mockSupabase.from
-        .mockReturnValueOnce({
-          insert: jest.fn().mockReturnValue({
-            select: jest.fn().mockReturnValue({
-              single: jest.fn().mockResolvedValue({
-                data: { id: 'trans-from' },
-                error: null
-              })
-            })
-          })
-        })
-        .mockReturnValueOnce({
-          insert: jest.fn().mockReturnValue({
-            select: jest.fn().mockReturnValue({
-              single: jest.fn().mockResolvedValue({
-                data: { id: 'trans-to' },
-                error: null
-              })
-            })
-          })
-        });
-
-      // Mock transfer log insert
       const mockTransferLog = {
         id: 'transfer-1',
         from_student_id: transferRequest.fromStudentId,
         to_student_id: transferRequest.toStudentId,
         hours_transferred: transferRequest.hoursToTransfer,
-        transfer_reason: transferRequest.reason
+        transfer_reason: transferRequest.reason,
+        is_family_transfer: true
       };
 
-      mockSupabase.from.mockReturnValueOnce({
-        insert: jest.fn().mockReturnValue({
-          select: jest.fn().mockReturnValue({
-            single: jest.fn().mockResolvedValue({
-              data: mockTransferLog,
-              error: null
-            })
-          })
-        })
-      });
+      mockSupabase.rpc
+        .mockResolvedValueOnce({ data: 10, error: null }) // From student balance less waitlist holds
+        .mockResolvedValueOnce({ data: mockTransferLog, error: null }); // Transfer written in one transaction
 
       const result = await service.transferHours(transferRequest);
 
       expect(result.success).toBe(true);
       expect(result.data?.hoursTransferred).toBe(5);
       expect(result.data?.isFamilyTransfer).toBe(true);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('calculate_available_student_hours', { p_student_id: 'student-1' });
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('transfer_hours', expect.objectContaining({
+        p_from_student_id: 'student-1',
+        p_to_student_id: 'student-2',
+        p_hours: 5,
+        p_reason: 'Family transfer',
+        p_pool_account_id: null,
+        p_is_family_transfer: true,
+        p_family_relationship: 'siblings'
+      }));
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('hour_transactions');
+    });
+
+    it('should report a transfer the database rolled back', async () => {
+      mockSupabase.rpc
+        .mockResolvedValueOnce({ data: 10, error: null })
+        .mockResolvedValueOnce({ data: null, error: { message: 'Insufficient hours in active lots' } });
+
+      const result = await service.transferHours({
+        fromStudentId: 'student-1',
+        toStudentId: 'student-2',
+        hoursToTransfer: 5,
+        reason: 'Transfer',
+        isFamilyTransfer: false
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('TRANSFER_ERROR');
     });
 
     it('should prevent transfer with insufficient hours', async () => {
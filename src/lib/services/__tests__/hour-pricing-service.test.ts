@@ -0,0 +1,152 @@
+import {
+  HourPricingService,
+  calculateHourPrice,
+  validatePromoCode
+} from '../hour-pricing-service';
+import type { PromoCode, ReferralCredit, VolumePricingTier } from '@/types/hours';
+
+const tiers: VolumePricingTier[] = [
+  { id: 'tier-10', minHours: 10, discountPercentage: 5, isActive: true },
+  { id: 'tier-20', minHours: 20, discountPercentage: 10, isActive: true },
+  { id: 'tier-50', minHours: 50, discountPercentage: 20, isActive: false }
+];
+
+const basePromo: PromoCode = {
+  id: 'promo-1',
+  code: 'SPRING',
+  discountType: 'percentage',
+  discountValue: 10,
+  currency: 'USD',
+  redemptionsCount: 0,
+  isActive: true,
+  createdAt: '2025-01-01T00:00:00Z'
+};
+
+const credit = (id: string, remainingAmount: number, createdAt: string): ReferralCredit => ({
+  id,
+  studentId: 'student-1',
+  amount: remainingAmount,
+  remainingAmount,
+  currency: 'USD',
+  status: 'available',
+  createdAt
+});
+
+describe('calculateHourPrice', () => {
+  it('should stack the best active volume tier before a percentage promo code', () => {
+    const quote = calculateHourPrice({
+      hours: 60,
+      listPrice: 1000,
+      currency: 'USD',
+      tiers,
+      promo: basePromo
+    });
+
+    expect(quote.discounts.map(d => d.type)).toEqual(['volume_tier', 'promo_code']);
+    expect(quote.discounts[0]).toEqual(expect.objectContaining({ sourceId: 'tier-20', amount: 100 }));
+    expect(quote.discounts[1].amount).toBe(90);
+    expect(quote.finalPrice).toBe(810);
+  });
+
+  it('should cap a fixed promo discount at the remaining price', () => {
+    const quote = calculateHourPrice({
+      hours: 5,
+      listPrice: 40,
+      currency: 'USD',
+      tiers,
+      promo: { ...basePromo, discountType: 'fixed', discountValue: 50 }
+    });
+
+    expect(quote.totalDiscount).toBe(40);
+    expect(quote.finalPrice).toBe(0);
+  });
+
+  it('should spend referral credits oldest first and skip expired credit', () => {
+    const quote = calculateHourPrice({
+      hours: 5,
+      listPrice: 100,
+      currency: 'USD',
+      tiers: [],
+      referralCredits: [
+        credit('credit-new', 80, '2025-03-01T00:00:00Z'),
+        credit('credit-old', 30, '2025-01-01T00:00:00Z'),
+        { ...credit('credit-expired', 50, '2024-01-01T00:00:00Z'), expiresAt: '2025-01-01T00:00:00Z' }
+      ],
+      now: new Date('2025-06-01T00:00:00Z')
+    });
+
+    expect(quote.discounts).toEqual([
+      expect.objectContaining({ sourceId: 'credit-old', amount: 30 }),
+      expect.objectContaining({ sourceId: 'credit-new', amount: 70 })
+    ]);
+    expect(quote.finalPrice).toBe(0);
+  });
+});
+
+describe('validatePromoCode', () => {
+  const context = { hours: 10, currency: 'USD', studentRedemptions: 0, now: new Date('2025-06-01T00:00:00Z') };
+
+  it('should accept a code within its limits', () => {
+    expect(validatePromoCode(basePromo, context)).toBeNull();
+  });
+
+  it('should reject expired codes', () => {
+    const result = validatePromoCode({ ...basePromo, validUntil: '2025-05-31T00:00:00Z' }, context);
+    expect(result?.code).toBe('PROMO_EXPIRED');
+  });
+
+  it('should enforce overall and per-student redemption limits', () => {
+    expect(validatePromoCode({ ...basePromo, maxRedemptions: 3, redemptionsCount: 3 }, context)?.code)
+      .toBe('PROMO_USAGE_LIMIT');
+    expect(validatePromoCode({ ...basePromo, maxRedemptionsPerStudent: 1 }, { ...context, studentRedemptions: 1 })?.code)
+      .toBe('PROMO_STUDENT_LIMIT');
+  });
+
+  it('should enforce the minimum hours', () => {
+    const result = validatePromoCode({ ...basePromo, minHours: 20 }, context);
+    expect(result?.code).toBe('PROMO_MIN_HOURS');
+  });
+});
+
+describe('HourPricingService', () => {
+  const tierQuery = () => ({
+    select: jest.fn().mockReturnValue({
+      eq: jest.fn().mockResolvedValue({ data: [], error: null })
+    })
+  });
+
+  it('should fail the quote when the promo code does not exist', async () => {
+    const promoEq = jest.fn().mockReturnValue({
+      maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null })
+    });
+    const client = {
+      from: jest.fn()
+        .mockReturnValueOnce(tierQuery())
+        .mockReturnValueOnce({ select: jest.fn().mockReturnValue({ eq: promoEq }) })
+    };
+
+    const result = await new HourPricingService(client).getQuote({
+      studentId: 'student-1',
+      hours: 10,
+      listPrice: 200,
+      promoCode: ' spring '
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('PROMO_NOT_FOUND');
+    expect(promoEq).toHaveBeenCalledWith('code', 'SPRING');
+  });
+
+  it('should quote the list price when no discounts apply', async () => {
+    const client = { from: jest.fn().mockReturnValueOnce(tierQuery()) };
+
+    const result = await new HourPricingService(client).getQuote({
+      studentId: 'student-1',
+      hours: 10,
+      listPrice: 200
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(expect.objectContaining({ finalPrice: 200, totalDiscount: 0, discounts: [] }));
+  });
+});
@@ -0,0 +1,153 @@
+import { HourRefundService, calculateRefundQuote } from '../hour-refund-service';
+import type { RefundableLot } from '../hour-refund-service';
+import { SandboxPaymentProvider } from '../payment-gateway-service';
+import type { HourRefundPolicy } from '@/types/hours';
+import { mockQuery, mockRowStoreClient } from '@/__mocks__/supabase-query';
+
+const policy: HourRefundPolicy = {
+  id: 'policy-1',
+  name: 'Standard',
+  cutoffDays: 30,
+  adminFeeFixed: 5,
+  adminFeePercentage: 10,
+  refundBonusHours: false,
+  isActive: true
+};
+
+const lot: RefundableLot = {
+  purchaseId: 'purchase-1',
+  hoursPurchased: 12,
+  hoursRemaining: 6,
+  bonusHours: 2,
+  pricePaid: 200,
+  currency: 'USD',
+  paymentStatus: 'completed',
+  paidAt: '2025-06-01T00:00:00Z',
+  validUntil: '2025-09-01T00:00:00Z',
+  isExpired: false
+};
+
+const now = new Date('2025-06-10T00:00:00Z');
+
+describe('calculateRefundQuote', () => {
+  it('should pro-rate paid hours and keep unused bonus hours', () => {
+    const quote = calculateRefundQuote(lot, policy, { now });
+
+    expect(quote.eligible).toBe(true);
+    expect(quote.bonusHoursExcluded).toBe(2);
+    expect(quote.refundableHours).toBe(4);
+    expect(quote.pricePerHour).toBe(20);
+    expect(quote.grossAmount).toBe(80);
+    expect(quote.adminFee).toBe(13);
+    expect(quote.refundAmount).toBe(67);
+  });
+
+  it('should refund bonus hours at the blended rate when the policy allows it', () => {
+    const quote = calculateRefundQuote(lot, { ...policy, refundBonusHours: true, adminFeeFixed: 0, adminFeePercentage: 0 }, { now });
+
+    expect(quote.refundableHours).toBe(6);
+    expect(quote.refundAmount).toBe(100);
+  });
+
+  it('should refuse refunds after the cutoff window', () => {
+    const quote = calculateRefundQuote(lot, policy, { now: new Date('2025-07-02T00:00:00Z') });
+
+    expect(quote.eligible).toBe(false);
+    expect(quote.ineligibleReason).toContain('30 days');
+  });
+
+  it('should treat free lots as bonus hours', () => {
+    const quote = calculateRefundQuote({ ...lot, pricePaid: 0, bonusHours: 0 }, policy, { now });
+
+    expect(quote.eligible).toBe(false);
+    expect(quote.refundableHours).toBe(0);
+  });
+});
+
+describe('HourRefundService', () => {
+  const lotRow = {
+    id: 'purchase-1',
+    student_id: 'student-1',
+    hours_purchased: 12,
+    hours_remaining: 6,
+    bonus_hours: 2,
+    price_paid: '200.00',
+    currency: 'USD',
+    payment_status: 'completed',
+    payment_reference: 'sbx_purchase-1',
+    paid_at: new Date().toISOString(),
+    valid_until: new Date(Date.now() + 60 * 24 * 60 * 60 * 1000).toISOString(),
+    is_expired: false
+  };
+  const policyRow = {
+    id: 'policy-1',
+    name: 'Standard',
+    cutoff_days: 30,
+    admin_fee_fixed: '0',
+    admin_fee_percentage: '0',
+    refund_bonus_hours: false,
+    is_active: true
+  };
+
+  it('should reject a request for more hours than are refundable', async () => {
+    const tables: Record<string, any[]> = {
+      hour_refund_policies: [mockQuery({ data: policyRow, error: null })],
+      hour_purchases: [mockQuery({ data: lotRow, error: null })]
+    };
+    const client = { from: jest.fn((table: string) => tables[table].shift()) };
+
+    const result = await new HourRefundService(client, new SandboxPaymentProvider(mockRowStoreClient('reference'))).requestRefund({
+      studentId: 'student-1',
+      purchaseId: 'purchase-1',
+      hours: 5,
+      reason: 'Moving abroad'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('REFUND_NOT_ELIGIBLE');
+  });
+
+  it('should reverse the hours and refund the payment on approval', async () => {
+    const provider = new SandboxPaymentProvider(mockRowStoreClient('reference'));
+    await provider.authorize({
+      purchaseId: 'purchase-1',
+      amount: 200,
+      currency: 'USD',
+      paymentMethod: 'credit_card',
+      studentId: 'student-1'
+    });
+    await provider.capture('sbx_purchase-1');
+
+    const completedUpdate = mockQuery({
+      data: { id: 'refund-1', status: 'completed', hours: 4, refund_amount: 80 },
+      error: null
+    });
+    const tables: Record<string, any[]> = {
+      hour_refund_requests: [
+        mockQuery({ data: { id: 'refund-1', purchase_id: 'purchase-1', status: 'pending', hours: 4, reason: 'Moving abroad' }, error: null }),
+        mockQuery({ error: null }),
+        completedUpdate
+      ],
+      hour_refund_policies: [mockQuery({ data: policyRow, error: null })],
+      hour_purchases: [mockQuery({ data: lotRow, error: null })]
+    };
+    const client = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest.fn().mockResolvedValue({ data: 'transaction-1', error: null }),
+      auth: { getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'admin-1' } } }) }
+    };
+
+    const billingDocuments = { createCreditNoteForRefund: jest.fn().mockResolvedValue({ success: true, data: {} }) };
+
+    const result = await new HourRefundService(client, provider, billingDocuments as any).approveRefundRequest('refund-1');
+
+    expect(result.success).toBe(true);
+    expect(billingDocuments.createCreditNoteForRefund).toHaveBeenCalledWith('transaction-1');
+    expect(client.rpc).toHaveBeenCalledWith('reverse_refunded_hours', {
+      p_refund_request_id: 'refund-1',
+      p_hours: 4
+    });
+    expect(completedUpdate.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'completed' }));
+    expect((await provider.getStatus('sbx_purchase-1')).raw?.amountRefunded).toBe(80);
+  });
+});
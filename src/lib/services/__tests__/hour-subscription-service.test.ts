@@ -0,0 +1,339 @@
+import {
+  HourSubscriptionService,
+  addBillingInterval,
+  calculateProration,
+  getNextDunningRetry,
+  shouldTriggerAutoTopUp
+} from '../hour-subscription-service';
+import { SandboxPaymentProvider, SANDBOX_PAYMENT_TOKENS } from '../payment-gateway-service';
+import type { AutoTopUpSettings, SubscriptionPlan } from '@/types/hours';
+import { mockQuery, mockRowStoreClient } from '@/__mocks__/supabase-query';
+
+const plan = (id: string, hoursPerPeriod: number, price: number): SubscriptionPlan => ({
+  id,
+  name: `${hoursPerPeriod} hours`,
+  packageId: 'package-1',
+  hoursPerPeriod,
+  billingInterval: 'monthly',
+  price,
+  currency: 'USD',
+  rolloverCap: 4,
+  isActive: true,
+  createdAt: '2025-01-01T00:00:00Z'
+});
+
+describe('addBillingInterval', () => {
+  it('should clamp to the last day of shorter months', () => {
+    expect(addBillingInterval(new Date('2025-01-31T10:00:00Z'), 'monthly').toISOString())
+      .toBe('2025-02-28T10:00:00.000Z');
+    expect(addBillingInterval(new Date('2025-11-30T10:00:00Z'), 'quarterly').toISOString())
+      .toBe('2026-02-28T10:00:00.000Z');
+  });
+});
+
+describe('calculateProration', () => {
+  const periodStart = new Date('2025-06-01T00:00:00Z');
+  const periodEnd = new Date('2025-07-01T00:00:00Z');
+
+  it('should charge the difference for the rest of the period on upgrade', () => {
+    const proration = calculateProration({
+      currentPlan: plan('small', 8, 160),
+      newPlan: plan('large', 16, 280),
+      periodStart,
+      periodEnd,
+      now: new Date('2025-06-16T00:00:00Z')
+    });
+
+    expect(proration.effective).toBe('immediate');
+    expect(proration.remainingFraction).toBe(0.5);
+    expect(proration.amountDue).toBe(60);
+    expect(proration.hoursAdjustment).toBe(4);
+  });
+
+  it('should defer downgrades to the next period without charging', () => {
+    const proration = calculateProration({
+      currentPlan: plan('large', 16, 280),
+      newPlan: plan('small', 8, 160),
+      periodStart,
+      periodEnd,
+      now: new Date('2025-06-16T00:00:00Z')
+    });
+
+    expect(proration.effective).toBe('next_period');
+    expect(proration.amountDue).toBe(0);
+    expect(proration.hoursAdjustment).toBe(0);
+  });
+});
+
+describe('getNextDunningRetry', () => {
+  it('should follow the retry schedule and stop when it is exhausted', () => {
+    const from = new Date('2025-06-01T00:00:00Z');
+
+    expect(getNextDunningRetry(1, from)?.toISOString()).toBe('2025-06-02T00:00:00.000Z');
+    expect(getNextDunningRetry(3, from)?.toISOString()).toBe('2025-06-08T00:00:00.000Z');
+    expect(getNextDunningRetry(4, from)).toBeNull();
+  });
+});
+
+describe('shouldTriggerAutoTopUp', () => {
+  const settings: AutoTopUpSettings = {
+    studentId: 'student-1',
+    isEnabled: true,
+    thresholdHours: 3,
+    packageId: 'package-1',
+    paymentMethod: 'credit_card',
+    maxTopUpsPerMonth: 2
+  };
+
+  it('should top up below the threshold within the monthly limit', () => {
+    expect(shouldTriggerAutoTopUp(settings, 2, 0)).toBe(true);
+    expect(shouldTriggerAutoTopUp(settings, 3, 0)).toBe(false);
+    expect(shouldTriggerAutoTopUp(settings, 2, 2)).toBe(false);
+    expect(shouldTriggerAutoTopUp({ ...settings, isEnabled: false }, 0, 0)).toBe(false);
+  });
+});
+
+describe('HourSubscriptionService', () => {
+  it('should reject payment methods that cannot be charged automatically', async () => {
+    const client = { from: jest.fn() };
+
+    const result = await new HourSubscriptionService(client, new SandboxPaymentProvider(mockRowStoreClient('reference'))).subscribe({
+      studentId: 'student-1',
+      planId: 'plan-1',
+      paymentMethod: 'bank_transfer'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('INVALID_PAYMENT_METHOD');
+    expect(client.from).not.toHaveBeenCalled();
+  });
+
+  it('should cancel a past-due subscription when the last retry fails', async () => {
+    const subscriptionUpdate = mockQuery({ error: null });
+    const tables: Record<string, any[]> = {
+      hour_subscriptions: [
+        mockQuery({
+          data: [{
+            id: 'sub-1',
+            student_id: 'student-1',
+            plan_id: 'plan-1',
+            status: 'past_due',
+            current_period_start: '2025-06-01T00:00:00Z',
+            current_period_end: '2025-07-01T00:00:00Z',
+            payment_method: 'credit_card',
+            payment_details: { sandboxToken: SANDBOX_PAYMENT_TOKENS.DECLINE },
+            failed_attempts: 3
+          }],
+          error: null
+        }),
+        mockQuery({ data: [{ id: 'sub-1' }], error: null }),
+        subscriptionUpdate
+      ],
+      subscription_plans: [
+        mockQuery({
+          data: {
+            id: 'plan-1',
+            name: 'Monthly 8',
+            package_id: 'package-1',
+            hours_per_period: 8,
+            billing_interval: 'monthly',
+            price: 160,
+            currency: 'USD',
+            rollover_cap: 4,
+            hour_packages: { name: 'Custom', validity_days: 90 }
+          },
+          error: null
+        })
+      ],
+      hour_purchases: [
+        mockQuery({ data: { id: 'purchase-1' }, error: null }),
+        mockQuery({ error: null })
+      ],
+      hour_billing_charges: [
+        mockQuery({
+          data: {
+            id: 'charge-1',
+            student_id: 'student-1',
+            subscription_id: 'sub-1',
+            charge_type: 'subscription_renewal',
+            amount: 160,
+            currency: 'USD',
+            hours: 8,
+            status: 'failed',
+            attempt: 4,
+            failure_message: 'The card was declined'
+          },
+          error: null
+        })
+      ]
+    };
+    const client = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest.fn()
+    };
+
+    const result = await new HourSubscriptionService(client, new SandboxPaymentProvider(mockRowStoreClient('reference')))
+      .processDunning(new Date('2025-06-09T00:00:00Z'));
+
+    expect(result.success).toBe(true);
+    expect(result.data?.failed).toBe(1);
+    expect(result.data?.events[0]).toEqual(expect.objectContaining({
+      type: 'subscription_cancelled',
+      studentId: 'student-1'
+    }));
+    expect(subscriptionUpdate.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'cancelled',
+      failed_attempts: 4,
+      cancellation_reason: 'payment_failed'
+    }));
+    // Retries do not trim rollover again
+    expect(client.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should skip a renewal another run already claimed without charging it', async () => {
+    const claim = mockQuery({ data: [], error: null });
+    const tables: Record<string, any[]> = {
+      hour_subscriptions: [
+        mockQuery({
+          data: [{
+            id: 'sub-1',
+            student_id: 'student-1',
+            plan_id: 'plan-1',
+            status: 'active',
+            current_period_start: '2025-06-01T00:00:00Z',
+            current_period_end: '2025-07-01T00:00:00Z',
+            payment_method: 'credit_card',
+            failed_attempts: 0
+          }],
+          error: null
+        }),
+        claim
+      ],
+      subscription_plans: [
+        mockQuery({
+          data: {
+            id: 'plan-1',
+            name: 'Monthly 8',
+            package_id: 'package-1',
+            hours_per_period: 8,
+            billing_interval: 'monthly',
+            price: 160,
+            currency: 'USD',
+            rollover_cap: 4,
+            hour_packages: { name: 'Custom', validity_days: 90 }
+          },
+          error: null
+        })
+      ]
+    };
+    const client = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest.fn()
+    };
+
+    const result = await new HourSubscriptionService(client, new SandboxPaymentProvider(mockRowStoreClient('reference')))
+      .processRenewals(new Date('2025-07-01T01:00:00Z'));
+
+    expect(result.success).toBe(true);
+    expect(result.data?.processed).toBe(0);
+    expect(claim.eq).toHaveBeenCalledWith('current_period_end', '2025-07-01T00:00:00Z');
+    expect(client.rpc).not.toHaveBeenCalled();
+    expect(client.from).not.toHaveBeenCalledWith('hour_purchases');
+  });
+
+  it('should keep renewing other subscriptions when one fails', async () => {
+    const due = (id: string, planId: string) => ({
+      id,
+      student_id: `student-${id}`,
+      plan_id: planId,
+      status: 'active',
+      current_period_start: '2025-06-01T00:00:00Z',
+      current_period_end: '2025-07-01T00:00:00Z',
+      payment_method: 'credit_card',
+      failed_attempts: 0
+    });
+    const tables: Record<string, any[]> = {
+      hour_subscriptions: [
+        mockQuery({ data: [due('sub-1', 'missing-plan'), due('sub-2', 'missing-plan')], error: null })
+      ],
+      subscription_plans: [
+        mockQuery({ data: null, error: { message: 'connection reset' } }),
+        mockQuery({ data: null, error: null })
+      ]
+    };
+    const client = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest.fn()
+    };
+
+    const result = await new HourSubscriptionService(client, new SandboxPaymentProvider(mockRowStoreClient('reference')))
+      .processRenewals(new Date('2025-07-01T01:00:00Z'));
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(expect.objectContaining({ processed: 2, failed: 2 }));
+    expect(client.from).toHaveBeenCalledTimes(3);
+  });
+
+  it('should move a renewal into dunning when its processing charge fails', async () => {
+    const subscriptionUpdate = mockQuery({ error: null });
+    const chargeUpdate = mockQuery({ error: null });
+    const tables: Record<string, any[]> = {
+      hour_billing_charges: [
+        mockQuery({
+          data: {
+            id: 'charge-1',
+            student_id: 'student-1',
+            subscription_id: 'sub-1',
+            purchase_id: 'purchase-1',
+            charge_type: 'subscription_renewal',
+            amount: 160,
+            currency: 'USD',
+            hours: 8,
+            status: 'processing',
+            attempt: 1,
+            period_start: '2025-07-01T00:00:00+00:00',
+            period_end: '2025-08-01T00:00:00+00:00'
+          },
+          error: null
+        }),
+        chargeUpdate
+      ],
+      hour_subscriptions: [
+        mockQuery({
+          data: {
+            id: 'sub-1',
+            status: 'active',
+            current_period_start: '2025-07-01T00:00:00Z',
+            current_period_end: '2025-08-01T00:00:00Z'
+          },
+          error: null
+        }),
+        subscriptionUpdate
+      ]
+    };
+    const client = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest.fn()
+    };
+
+    const result = await new HourSubscriptionService(client, new SandboxPaymentProvider(mockRowStoreClient('reference')))
+      .settleProcessingCharge('purchase-1', 'failed', {
+        failureCode: 'settlement_failed',
+        failureMessage: 'The payment could not be settled'
+      }, new Date('2025-07-02T00:00:00Z'));
+
+    expect(result.success).toBe(true);
+    expect(result.data?.type).toBe('payment_failed');
+    expect(subscriptionUpdate.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'past_due',
+      failed_attempts: 1,
+      next_retry_at: '2025-07-03T00:00:00.000Z'
+    }));
+    expect(chargeUpdate.update).toHaveBeenCalledWith({
+      status: 'failed',
+      failure_code: 'settlement_failed',
+      failure_message: 'The payment could not be settled'
+    });
+    expect(chargeUpdate.eq).toHaveBeenCalledWith('status', 'processing');
+  });
+});
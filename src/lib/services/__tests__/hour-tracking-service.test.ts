@@ -5,6 +5,24 @@ import { supabase } from '@/lib/supabase';
 jest.mock('@/lib/supabase');
 const mockSupabase = supabase as jest.Mocked<typeof supabase>;
 
+// Price purchases at the submitted total
+jest.mock('../hour-pricing-service', () => ({
+  hourPricingService: {
+    getQuote: jest.fn(async (request: any) => ({
+      success: true,
+      data: {
+        hours: request.hours,
+        listPrice: request.listPrice,
+        discounts: [],
+        totalDiscount: 0,
+        finalPrice: request.listPrice,
+        currency: 'USD'
+      }
+    })),
+    applyDiscounts: jest.fn(async () => ({ success: true, data: 0 }))
+  }
+}));
+
 describe('HourTrackingService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
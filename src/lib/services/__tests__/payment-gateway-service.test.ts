@@ -0,0 +1,153 @@
+import {
+  SandboxPaymentProvider,
+  SANDBOX_PAYMENT_TOKENS,
+  canTransitionPaymentStatus,
+  getPaymentProvider
+} from '../payment-gateway-service';
+import type { PaymentAuthorizationRequest } from '@/types/hours';
+import { mockRowStoreClient } from '@/__mocks__/supabase-query';
+
+describe('SandboxPaymentProvider', () => {
+  let provider: SandboxPaymentProvider;
+  let store: ReturnType<typeof mockRowStoreClient>;
+
+  const baseRequest: PaymentAuthorizationRequest = {
+    purchaseId: 'purchase-1',
+    studentId: 'student-1',
+    amount: 149.99,
+    currency: 'USD',
+    paymentMethod: 'credit_card'
+  };
+
+  beforeEach(() => {
+    store = mockRowStoreClient('reference');
+    provider = new SandboxPaymentProvider(store);
+  });
+
+  describe('authorize', () => {
+    it('should authorize card payments with a deterministic reference', async () => {
+      const result = await provider.authorize(baseRequest);
+
+      expect(result.success).toBe(true);
+      expect(result.status).toBe('processing');
+      expect(result.reference).toBe('sbx_purchase-1');
+    });
+
+    it('should decline the decline token', async () => {
+      const result = await provider.authorize({
+        ...baseRequest,
+        paymentDetails: { sandboxToken: SANDBOX_PAYMENT_TOKENS.DECLINE }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.status).toBe('failed');
+      expect(result.failureCode).toBe('card_declined');
+    });
+
+    it('should reject non-positive amounts', async () => {
+      const result = await provider.authorize({ ...baseRequest, amount: 0 });
+
+      expect(result.success).toBe(false);
+      expect(result.failureCode).toBe('invalid_amount');
+    });
+  });
+
+  describe('capture', () => {
+    it('should complete card payments', async () => {
+      const auth = await provider.authorize(baseRequest);
+      const result = await provider.capture(auth.reference);
+
+      expect(result.success).toBe(true);
+      expect(result.status).toBe('completed');
+    });
+
+    it('should leave bank transfers processing until settled', async () => {
+      const auth = await provider.authorize({ ...baseRequest, paymentMethod: 'bank_transfer' });
+      const captured = await provider.capture(auth.reference);
+
+      expect(captured.status).toBe('processing');
+
+      const event = await provider.settle(auth.reference);
+      expect(event?.type).toBe('payment.captured');
+      expect(event?.data.purchaseId).toBe('purchase-1');
+      expect((await provider.getStatus(auth.reference)).status).toBe('completed');
+    });
+
+    it('should read payments back from storage in a new provider instance', async () => {
+      const auth = await provider.authorize(baseRequest);
+      await provider.capture(auth.reference);
+
+      const restarted = new SandboxPaymentProvider(store);
+      const refund = await restarted.refund(auth.reference, 50);
+
+      expect(refund.success).toBe(true);
+      expect(store.rows.get(auth.reference)).toEqual(expect.objectContaining({
+        status: 'completed',
+        amount_refunded: 50
+      }));
+    });
+
+    it('should not capture more than was authorized', async () => {
+      const auth = await provider.authorize(baseRequest);
+      const result = await provider.capture(auth.reference, 500);
+
+      expect(result.success).toBe(false);
+      expect(result.failureCode).toBe('amount_exceeds_authorization');
+    });
+
+    it('should fail for unknown references', async () => {
+      const result = await provider.capture('sbx_unknown');
+
+      expect(result.success).toBe(false);
+      expect(result.failureCode).toBe('payment_not_found');
+    });
+  });
+
+  describe('refund', () => {
+    it('should refund partially and then fully', async () => {
+      const auth = await provider.authorize({ ...baseRequest, amount: 100 });
+      await provider.capture(auth.reference);
+
+      const partial = await provider.refund(auth.reference, 40);
+      expect(partial.success).toBe(true);
+      expect(partial.amount).toBe(40);
+      expect(partial.status).toBe('completed');
+
+      const rest = await provider.refund(auth.reference);
+      expect(rest.amount).toBe(60);
+      expect(rest.status).toBe('refunded');
+    });
+
+    it('should not refund uncaptured payments', async () => {
+      const auth = await provider.authorize(baseRequest);
+      const result = await provider.refund(auth.reference);
+
+      expect(result.success).toBe(false);
+      expect(result.failureCode).toBe('invalid_state');
+    });
+  });
+});
+
+describe('canTransitionPaymentStatus', () => {
+  it('should follow pending -> processing -> completed -> refunded', () => {
+    expect(canTransitionPaymentStatus('pending', 'processing')).toBe(true);
+    expect(canTransitionPaymentStatus('processing', 'completed')).toBe(true);
+    expect(canTransitionPaymentStatus('completed', 'refunded')).toBe(true);
+  });
+
+  it('should reject moving a settled payment backwards', () => {
+    expect(canTransitionPaymentStatus('completed', 'failed')).toBe(false);
+    expect(canTransitionPaymentStatus('completed', 'completed')).toBe(false);
+    expect(canTransitionPaymentStatus('refunded', 'completed')).toBe(false);
+  });
+});
+
+describe('getPaymentProvider', () => {
+  it('should default to the sandbox provider', () => {
+    expect(getPaymentProvider().name).toBe('sandbox');
+  });
+
+  it('should throw for unregistered providers', () => {
+    expect(() => getPaymentProvider('stripe')).toThrow('not registered');
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  PaymentWebhookService,
+  signPaymentPayload,
+  verifyPaymentSignature
+} from '../payment-webhook-service';
+import type { PaymentWebhookEvent } from '@/types/hours';
+import { mockSupabaseClient } from '@/__mocks__/supabase-query';
+import { sendPurchaseConfirmation } from '../billing-notification-service';
+
+jest.mock('../billing-notification-service', () => ({
+  sendPurchaseConfirmation: jest.fn().mockResolvedValue('job-1')
+}));
+
+describe('payment webhook signatures', () => {
+  const secret = 'whsec_test';
+  const payload = JSON.stringify({ id: 'evt_1' });
+
+  it('should verify a freshly signed payload', () => {
+    const header = signPaymentPayload(payload, secret, 1_700_000_000);
+    expect(verifyPaymentSignature(payload, header, secret, 1_700_000_010)).toBe(true);
+  });
+
+  it('should reject a tampered payload', () => {
+    const header = signPaymentPayload(payload, secret, 1_700_000_000);
+    expect(verifyPaymentSignature('{"id":"evt_2"}', header, secret, 1_700_000_000)).toBe(false);
+  });
+
+  it('should reject stale signatures', () => {
+    const header = signPaymentPayload(payload, secret, 1_700_000_000);
+    expect(verifyPaymentSignature(payload, header, secret, 1_700_001_000)).toBe(false);
+  });
+
+  it('should reject missing or malformed headers', () => {
+    expect(verifyPaymentSignature(payload, null, secret)).toBe(false);
+    expect(verifyPaymentSignature(payload, 'garbage', secret)).toBe(false);
+  });
+});
+
+describe('PaymentWebhookService', () => {
+  const event: PaymentWebhookEvent = {
+    id: 'evt_sbx_purchase-1_captured',
+    type: 'payment.captured',
+    provider: 'sandbox',
+    createdAt: '2025-07-20T00:00:00.000Z',
+    data: {
+      purchaseId: 'purchase-1',
+      reference: 'sbx_purchase-1',
+      amount: 149.99,
+      currency: 'USD'
+    }
+  };
+
+  const recordedEvent = (overrides: Record<string, any> = {}) => ({
+    event_id: event.id,
+    purchase_id: 'purchase-1',
+    applied: true,
+    payment_status: 'completed',
+    result_reason: null,
+    transaction_id: 'transaction-1',
+    follow_up_completed_at: null,
+    duplicate: false,
+    ...overrides
+  });
+
+  const createClient = (recorded: any, rpcError: any = null) =>
+    mockSupabaseClient({
+      payment_webhook_events: [{ data: null, error: null }]
+    }, { rpc: () => Promise.resolve({ data: rpcError ? null : recorded, error: rpcError }) });
+
+  beforeEach(() => {
+    (sendPurchaseConfirmation as jest.Mock).mockClear();
+  });
+
+  it('should apply the event in one RPC and send the billing documents', async () => {
+    const { client, calls } = createClient(recordedEvent());
+
+    const result = await new PaymentWebhookService(client).handleEvent(event);
+
+    expect(result.applied).toBe(true);
+    expect(result.paymentStatus).toBe('completed');
+    expect(client.rpc).toHaveBeenCalledWith('apply_payment_webhook_event', { p_event: event });
+    expect(sendPurchaseConfirmation).toHaveBeenCalledWith('purchase-1', expect.anything());
+    expect(calls.payment_webhook_events[0].update).toHaveBeenCalledWith(expect.objectContaining({
+      follow_up_completed_at: expect.any(String)
+    }));
+  });
+
+  it('should acknowledge redelivered events without applying them', async () => {
+    const { client, calls } = createClient(recordedEvent({
+      duplicate: true,
+      follow_up_completed_at: '2025-07-20T00:00:05.000Z'
+    }));
+
+    const result = await new PaymentWebhookService(client).handleEvent(event);
+
+    expect(result.duplicate).toBe(true);
+    expect(result.applied).toBe(false);
+    expect(sendPurchaseConfirmation).not.toHaveBeenCalled();
+    expect(calls.payment_webhook_events).toBeUndefined();
+  });
+
+  it('should retry the billing documents when a redelivered event was applied without them', async () => {
+    const { client, calls } = createClient(recordedEvent({ duplicate: true }));
+
+    const result = await new PaymentWebhookService(client).handleEvent(event);
+
+    expect(result.duplicate).toBe(true);
+    expect(sendPurchaseConfirmation).toHaveBeenCalledWith('purchase-1', expect.anything());
+    expect(calls.payment_webhook_events[0].update).toHaveBeenCalled();
+  });
+
+  it('should fail the delivery when the billing documents cannot be sent so it is redelivered', async () => {
+    const { client, calls } = createClient(recordedEvent());
+    (sendPurchaseConfirmation as jest.Mock).mockRejectedValueOnce(new Error('mail unavailable'));
+
+    await expect(new PaymentWebhookService(client).handleEvent(event)).rejects.toThrow('mail unavailable');
+    expect(calls.payment_webhook_events).toBeUndefined();
+  });
+
+  it('should surface errors from applying the event', async () => {
+    const { client } = createClient(null, new Error('PURCHASE_NOT_FOUND: purchase purchase-1 not found'));
+
+    await expect(new PaymentWebhookService(client).handleEvent(event)).rejects.toThrow('PURCHASE_NOT_FOUND');
+    expect(sendPurchaseConfirmation).not.toHaveBeenCalled();
+  });
+
+  it('should report events the purchase status did not allow', async () => {
+    const { client } = createClient(recordedEvent({
+      event_id: 'evt_2',
+      applied: false,
+      transaction_id: null,
+      result_reason: 'Ignored transition completed -> failed',
+      follow_up_completed_at: '2025-07-20T00:00:05.000Z'
+    }));
+
+    const result = await new PaymentWebhookService(client).handleEvent({ ...event, id: 'evt_2', type: 'payment.failed' });
+
+    expect(result.applied).toBe(false);
+    expect(result.reason).toContain('completed -> failed');
+    expect(sendPurchaseConfirmation).not.toHaveBeenCalled();
+  });
+});
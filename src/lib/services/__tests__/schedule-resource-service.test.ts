@@ -0,0 +1,186 @@
+import {
+  ScheduleResourceService,
+  selectResource,
+  summarizeResourceUtilization
+} from '../schedule-resource-service';
+import { getMeetingProvider } from '../meeting-provider';
+import { ConflictDetector } from '../scheduling-algorithms';
+import type { ScheduledClass, SchedulingConstraints } from '@/types/scheduling';
+import type { ScheduleResource } from '@/types/resources';
+import { mockSupabaseClient } from '@/__mocks__/supabase-query';
+
+const room = (id: string, capacity: number, equipment: string[] = []): ScheduleResource => ({
+  id,
+  name: id,
+  kind: 'room',
+  capacity,
+  equipment,
+  location: 'Silom',
+  isActive: true
+});
+
+const zoom: ScheduleResource = {
+  id: 'zoom-1',
+  name: 'Zoom licence 1',
+  kind: 'virtual',
+  capacity: 100,
+  equipment: [],
+  provider: 'zoom',
+  accountEmail: 'zoom1@heypeter.academy',
+  isActive: true
+};
+
+const resourceRow = (resource: ScheduleResource) => ({
+  id: resource.id,
+  name: resource.name,
+  kind: resource.kind,
+  capacity: resource.capacity,
+  equipment: resource.equipment,
+  location: resource.location,
+  provider: resource.provider,
+  account_email: resource.accountEmail,
+  is_active: resource.isActive
+});
+
+const start = '2030-03-04T03:00:00.000Z';
+const end = '2030-03-04T04:00:00.000Z';
+
+describe('selectResource', () => {
+  const resources = [room('Room B', 12, ['projector']), room('Room A', 6, ['projector']), room('Room C', 4), zoom];
+
+  it('should pick the smallest free room with the required equipment', () => {
+    const requirements = { deliveryMode: 'in_person' as const, equipment: ['projector'] };
+
+    expect(selectResource(resources, [], requirements, start, end, 5)?.id).toBe('Room A');
+    expect(selectResource(resources, [{ resourceId: 'Room A', startTime: '2030-03-04T03:30:00.000Z', endTime: end }], requirements, start, end, 5)?.id).toBe('Room B');
+    expect(selectResource(resources, [], requirements, start, end, 20)).toBeNull();
+    expect(selectResource(resources, [], { deliveryMode: 'virtual' }, start, end, 5)?.id).toBe('zoom-1');
+  });
+});
+
+describe('summarizeResourceUtilization', () => {
+  it('should report held minutes against opening hours within the range', () => {
+    const [usage] = summarizeResourceUtilization(
+      [room('Room A', 6)],
+      [
+        { resourceId: 'Room A', startTime: start, endTime: end },
+        { resourceId: 'Room A', startTime: '2030-03-04T23:30:00.000Z', endTime: '2030-03-05T01:00:00.000Z' }
+      ],
+      '2030-03-04T00:00:00.000Z',
+      '2030-03-05T00:00:00.000Z',
+      9
+    );
+
+    expect(usage).toEqual({ resourceId: 'Room A', name: 'Room A', kind: 'room', sessions: 2, bookedMinutes: 90, utilizationRate: 17 });
+  });
+});
+
+describe('ScheduleResourceService', () => {
+  const mockProvider = () => ({
+    name: 'local' as const,
+    createMeeting: jest.fn().mockResolvedValue({ meetingId: 'meet-1', joinUrl: 'https://app.test/meet/meet-1' }),
+    cancelMeeting: jest.fn().mockResolvedValue(undefined)
+  });
+
+  it('should allocate a virtual account with a generated join link saved on the class', async () => {
+    const provider = mockProvider();
+    const { client, calls } = mockSupabaseClient({
+      schedule_resources: [{ data: [resourceRow(zoom)], error: null }],
+      resource_allocations: [
+        { data: [], error: null },
+        { data: { id: 'alloc-1', resource_id: 'zoom-1', class_id: 'class-1', start_time: start, end_time: end, status: 'active', join_url: 'https://app.test/meet/meet-1', meeting_id: 'meet-1' }, error: null }
+      ],
+      classes: [{ data: null, error: null }]
+    });
+    const service = new ScheduleResourceService(client, () => provider);
+
+    const result = await service.allocateResource({
+      classId: 'class-1',
+      startTime: start,
+      endTime: end,
+      requirements: { deliveryMode: 'virtual', minCapacity: 6 }
+    });
+
+    expect(result.data).toEqual(expect.objectContaining({ resourceId: 'zoom-1', joinUrl: 'https://app.test/meet/meet-1' }));
+    expect(provider.createMeeting).toHaveBeenCalledWith(expect.objectContaining({ resource: expect.objectContaining({ id: 'zoom-1' }) }));
+    expect(calls.classes[0].update).toHaveBeenCalledWith({ resource_id: 'zoom-1', location: null, meeting_link: 'https://app.test/meet/meet-1' });
+  });
+
+  it('should report a resource taken by a concurrent allocation and cancel its meeting', async () => {
+    const provider = mockProvider();
+    const { client, calls } = mockSupabaseClient({
+      schedule_resources: [{ data: [resourceRow(zoom)], error: null }],
+      resource_allocations: [
+        { data: [], error: null },
+        { data: null, error: { code: '23P01', message: 'conflicting key value violates exclusion constraint' } }
+      ]
+    });
+    const service = new ScheduleResourceService(client, () => provider);
+
+    const result = await service.allocateResource({ startTime: start, endTime: end, requirements: { deliveryMode: 'virtual' } });
+
+    expect(result.error?.code).toBe('RESOURCE_UNAVAILABLE');
+    expect(provider.cancelMeeting).toHaveBeenCalledWith('meet-1');
+    expect(calls.classes).toBeUndefined();
+  });
+
+  it('should refuse a virtual account whose provider has no adapter instead of issuing a local link', async () => {
+    const { client, calls } = mockSupabaseClient({
+      schedule_resources: [{ data: [resourceRow(zoom)], error: null }],
+      resource_allocations: [{ data: [], error: null }]
+    });
+    const service = new ScheduleResourceService(client, getMeetingProvider);
+
+    const result = await service.allocateResource({ classId: 'class-1', startTime: start, endTime: end, requirements: { deliveryMode: 'virtual' } });
+
+    expect(result.error?.code).toBe('MEETING_PROVIDER_UNAVAILABLE');
+    expect(calls.resource_allocations).toHaveLength(1);
+    expect(calls.classes).toBeUndefined();
+    expect(getMeetingProvider('local').name).toBe('local');
+  });
+});
+
+describe('ConflictDetector resource conflicts', () => {
+  const scheduled = (id: string, studentCount: number, resourceId: string, startTime: string, endTime: string): ScheduledClass => ({
+    id,
+    courseId: 'course-1',
+    teacherId: `teacher-${id}`,
+    studentIds: Array.from({ length: studentCount }, (_, index) => `${id}-student-${index}`),
+    timeSlot: {
+      id: `slot-${id}`,
+      startTime,
+      endTime,
+      duration: 60,
+      dayOfWeek: 1,
+      isAvailable: true,
+      capacity: { maxStudents: 9, minStudents: 1, currentEnrollment: 0, availableSpots: 9 },
+      resourceId
+    },
+    content: [],
+    classType: 'group',
+    status: 'scheduled',
+    confidenceScore: 1,
+    rationale: '',
+    alternatives: []
+  });
+
+  it('should flag double-booked, already held and undersized resources', () => {
+    const detector = new ConflictDetector({} as SchedulingConstraints, [room('Room C', 4), zoom]);
+
+    const conflicts = detector.detectResourceConflicts(
+      [
+        scheduled('class-1', 3, 'zoom-1', start, end),
+        scheduled('class-2', 3, 'zoom-1', '2030-03-04T03:30:00.000Z', '2030-03-04T04:30:00.000Z'),
+        scheduled('class-3', 6, 'Room C', '2030-03-05T03:00:00.000Z', '2030-03-05T04:00:00.000Z')
+      ],
+      [{ resourceId: 'Room C', classId: 'class-9', startTime: '2030-03-05T02:30:00.000Z', endTime: '2030-03-05T03:30:00.000Z' }]
+    );
+
+    expect(conflicts.map(conflict => conflict.description)).toEqual([
+      'Meeting account Zoom licence 1 is double-booked',
+      'Room Room C is already booked at this time',
+      'Room C holds 4 but class class-3 has 6 students'
+    ]);
+    expect(conflicts[1].entityIds).toEqual(['class-3', 'class-9']);
+  });
+});
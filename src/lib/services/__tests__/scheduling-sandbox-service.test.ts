@@ -0,0 +1,183 @@
+import {
+  SchedulingSandboxService,
+  applySchedulingOverrides,
+  diffTimetables,
+  toSandboxSessions
+} from '../scheduling-sandbox-service';
+import type { SchedulingOverride } from '@/types/scheduling';
+import { mockSupabaseClient } from '@/__mocks__/supabase-query';
+
+jest.mock('../scheduling-service', () => ({ schedulingService: {} }));
+jest.mock('../scheduling-email-integration', () => ({ schedulingEmailHooks: {} }));
+
+const mockClient = (tables: Record<string, any[]>, rpcResult: any = { data: [], error: null }) =>
+  mockSupabaseClient(tables, { rpc: () => Promise.resolve(rpcResult) });
+
+const mockHooks = () => ({
+  onBookingCreated: jest.fn().mockResolvedValue(undefined),
+  onBookingCancelled: jest.fn().mockResolvedValue(undefined),
+  onScheduleChange: jest.fn().mockResolvedValue(undefined)
+});
+
+const booking = (id: string, classId: string, studentId: string, startTime: string, teacherId = 'teacher-1') => ({
+  id,
+  class_id: classId,
+  student_id: studentId,
+  booking_date: startTime.slice(0, 10),
+  start_time: startTime,
+  end_time: new Date(new Date(startTime).getTime() + 60 * 60 * 1000).toISOString(),
+  duration_minutes: 60,
+  classes: { course_id: 'course-1', teacher_id: teacherId, location: 'Silom' }
+});
+
+const liveBookings = [
+  booking('b1', 'class-1', 'student-1', '2030-03-04T11:00:00.000Z'),
+  booking('b2', 'class-1', 'student-2', '2030-03-04T11:00:00.000Z'),
+  booking('b3', 'class-2', 'student-3', '2030-03-05T11:00:00.000Z', 'teacher-2'),
+  booking('b4', 'class-3', 'student-4', '2030-03-06T11:00:00.000Z'),
+  booking('b5', 'class-3', 'student-5', '2030-03-06T11:00:00.000Z')
+];
+
+const override = (type: SchedulingOverride['type'], parameters: Record<string, any>): SchedulingOverride => ({
+  type,
+  parameters,
+  reason: 'What-if',
+  priority: 'medium',
+  appliedBy: 'admin-1',
+  appliedAt: '2030-03-01T00:00:00Z'
+});
+
+const overrides = [
+  override('preferred_time', { sessionKey: 'class-1@2030-03-04T11:00:00.000Z', startTime: '2030-03-04T12:30:00.000Z' }),
+  override('prevent_schedule', { classId: 'class-2' }),
+  override('class_size', { classId: 'class-3', maxStudents: 1 }),
+  override('force_schedule', {
+    courseId: 'course-1',
+    teacherId: 'teacher-2',
+    startTime: '2030-03-07T11:00:00.000Z',
+    durationMinutes: 90,
+    studentIds: ['student-3']
+  })
+];
+
+describe('toSandboxSessions', () => {
+  it('should prefer a session\'s own teacher and location over its class', () => {
+    const [covered, regular] = toSandboxSessions([
+      { ...booking('b1', 'class-1', 'student-1', '2030-03-04T11:00:00.000Z'), substitute_teacher_id: 'teacher-3', session_location: 'Online' },
+      booking('b2', 'class-1', 'student-1', '2030-03-11T11:00:00.000Z')
+    ]);
+
+    expect(covered).toEqual(expect.objectContaining({ teacherId: 'teacher-3', location: 'Online' }));
+    expect(regular).toEqual(expect.objectContaining({ teacherId: 'teacher-1', location: 'Silom' }));
+  });
+});
+
+describe('diffTimetables', () => {
+  it('should report moved, cancelled and new sessions with their hour impact', () => {
+    const snapshot = toSandboxSessions(liveBookings);
+    const diff = diffTimetables(snapshot, applySchedulingOverrides(snapshot, overrides));
+
+    expect(diff.moved.map(item => [item.before.classId, item.changes])).toEqual([
+      ['class-1', ['time']],
+      ['class-3', ['students']]
+    ]);
+    expect(diff.moved[1].removedStudentIds).toEqual(['student-5']);
+    expect(diff.cancelled.map(session => session.classId)).toEqual(['class-2']);
+    expect(diff.created).toEqual([expect.objectContaining({ key: 'forced-1', bookingDate: '2030-03-07', durationMinutes: 90 })]);
+    expect(diff.affectedStudentIds).toEqual(['student-1', 'student-2', 'student-3', 'student-5']);
+    expect(diff.affectedTeacherIds).toEqual(['teacher-1', 'teacher-2']);
+    expect(diff.hourImpact).toEqual({
+      students: { 'student-3': 0.5, 'student-5': -1 },
+      teachers: { 'teacher-2': 0.5 },
+      totalStudentHours: -0.5,
+      totalTeacherHours: 0.5
+    });
+  });
+});
+
+describe('SchedulingSandboxService', () => {
+  const sandboxRow = (snapshot: any[], proposal: any[], status = 'draft') => ({
+    id: 'sandbox-1',
+    name: 'Spring changes',
+    status,
+    window_start: '2030-03-01T00:00:00Z',
+    window_end: '2030-03-31T00:00:00Z',
+    overrides: [],
+    snapshot,
+    proposal,
+    diff: diffTimetables(snapshot, proposal),
+    snapshot_taken_at: '2030-02-28T00:00:00Z',
+    created_at: '2030-02-28T00:00:00Z'
+  });
+
+  it('should preview a scheduling request without touching live bookings', async () => {
+    const { client, calls } = mockClient({
+      bookings: [{ data: liveBookings.slice(0, 2), error: null }],
+      scheduling_sandboxes: [{ data: { id: 'sandbox-1' }, error: null }]
+    });
+    const scheduler = {
+      scheduleClasses: jest.fn().mockResolvedValue({
+        success: true,
+        scheduledClasses: [{
+          courseId: 'course-1',
+          teacherId: 'teacher-3',
+          studentIds: ['student-9'],
+          timeZone: 'Asia/Bangkok',
+          timeSlot: { startTime: '2030-03-08T17:30:00.000Z', endTime: '2030-03-08T18:30:00.000Z', duration: 60 }
+        }]
+      })
+    };
+    const hooks = mockHooks();
+    const service = new SchedulingSandboxService(client, scheduler, hooks);
+
+    const result = await service.createSandbox({
+      name: 'Add a Saturday class',
+      windowStart: '2030-03-01T00:00:00Z',
+      windowEnd: '2030-03-31T00:00:00Z',
+      request: { id: 'request-1' } as any
+    });
+
+    expect(result.success).toBe(true);
+    const inserted = calls.scheduling_sandboxes[0].insert.mock.calls[0][0];
+    expect(inserted.diff.created).toEqual([expect.objectContaining({ teacherId: 'teacher-3', bookingDate: '2030-03-09' })]);
+    expect(inserted.diff.moved).toEqual([]);
+    expect(calls.bookings[0].update).not.toHaveBeenCalled();
+    expect(calls.bookings[0].insert).not.toHaveBeenCalled();
+    expect(hooks.onBookingCreated).not.toHaveBeenCalled();
+  });
+
+  it('should publish atomically and notify only after the publish succeeds', async () => {
+    const snapshot = toSandboxSessions(liveBookings);
+    const proposal = applySchedulingOverrides(snapshot, overrides);
+    const { client } = mockClient(
+      { scheduling_sandboxes: [{ data: sandboxRow(snapshot, proposal), error: null }] },
+      { data: [{ session_key: 'forced-1', student_id: 'student-3', booking_id: 'b9' }], error: null }
+    );
+    const hooks = mockHooks();
+    const service = new SchedulingSandboxService(client, {}, hooks);
+
+    const result = await service.publishSandbox('sandbox-1', 'admin-1');
+
+    expect(client.rpc).toHaveBeenCalledWith('publish_scheduling_sandbox', { p_sandbox_id: 'sandbox-1', p_published_by: 'admin-1' });
+    expect(result.data).toEqual({ sandboxId: 'sandbox-1', movedSessions: 2, cancelledSessions: 1, createdSessions: 1, notificationsSent: 6 });
+    expect(hooks.onScheduleChange.mock.calls.map(([change]) => change.affectedUserId)).toEqual(['student-1', 'student-2', 'teacher-1']);
+    expect(hooks.onBookingCancelled.mock.calls.map(([cancelled]) => cancelled.bookingId)).toEqual(['b3', 'b5']);
+    expect(hooks.onBookingCreated).toHaveBeenCalledWith(expect.objectContaining({ bookingId: 'b9', studentId: 'student-3' }));
+  });
+
+  it('should refuse a stale sandbox without notifying anyone', async () => {
+    const snapshot = toSandboxSessions(liveBookings);
+    const { client } = mockClient(
+      { scheduling_sandboxes: [{ data: sandboxRow(snapshot, []), error: null }] },
+      { data: null, error: { message: 'SANDBOX_STALE: bookings changed after the sandbox snapshot was taken' } }
+    );
+    const hooks = mockHooks();
+    const service = new SchedulingSandboxService(client, {}, hooks);
+
+    const result = await service.publishSandbox('sandbox-1');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('SANDBOX_STALE');
+    expect(hooks.onBookingCancelled).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,235 @@
+import {
+  TeacherSubstitutionService,
+  getSubstitutionOfferExpiry,
+  rankSubstituteCandidates
+} from '../teacher-substitution-service';
+import type { TeacherMatchingScore } from '@/types/scheduling';
+import { mockSupabaseClient } from '@/__mocks__/supabase-query';
+
+jest.mock('../one-on-one-booking-service', () => ({ oneOnOneBookingService: {} }));
+
+const mockMailer = () => ({ addToQueue: jest.fn().mockResolvedValue('email-1') });
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+
+const score = (teacherId: string, overallScore: number, availabilityScore = 1, specializationScore = 1): TeacherMatchingScore => ({
+  teacherId,
+  overallScore,
+  scoreBreakdown: {
+    availabilityScore,
+    experienceScore: 0.8,
+    specializationScore,
+    preferenceScore: 0.5,
+    performanceScore: 0.9,
+    languageScore: 0.8
+  },
+  availableSlots: [],
+  confidenceLevel: 0.8,
+  matchingRationale: `${teacherId} rationale`
+});
+
+const sessionStart = hoursFromNow(3);
+const sessionEnd = hoursFromNow(4);
+
+const requestRow = (overrides: Record<string, any> = {}) => ({
+  id: 'request-1',
+  absence_id: 'absence-1',
+  class_id: 'class-1',
+  original_teacher_id: 'teacher-absent',
+  start_time: sessionStart,
+  end_time: sessionEnd,
+  status: 'offered',
+  candidates: [
+    { teacherId: 'teacher-a', name: 'Ann', score: 0.9 },
+    { teacherId: 'teacher-b', name: 'Ben', score: 0.7 }
+  ],
+  class: { class_name: 'Everyday A - Evening' },
+  ...overrides
+});
+
+const offerRow = (overrides: Record<string, any> = {}) => ({
+  id: 'offer-1',
+  request_id: 'request-1',
+  teacher_id: 'teacher-a',
+  rank: 1,
+  score: 0.9,
+  status: 'pending',
+  token: 'token-1',
+  offered_at: hoursFromNow(-0.1),
+  expires_at: hoursFromNow(0.4),
+  request: requestRow(),
+  ...overrides
+});
+
+describe('rankSubstituteCandidates', () => {
+  it('should keep free, available and qualified teachers in score order', () => {
+    const candidates = rankSubstituteCandidates(
+      [score('teacher-a', 0.6), score('teacher-b', 0.9), score('teacher-c', 0.95, 0), score('teacher-d', 0.8, 1, 0), score('teacher-e', 0.99)],
+      new Set(['teacher-e']),
+      { 'teacher-a': 'Ann', 'teacher-b': 'Ben' }
+    );
+
+    expect(candidates).toEqual([
+      { teacherId: 'teacher-b', name: 'Ben', score: 0.9, rationale: 'teacher-b rationale' },
+      { teacherId: 'teacher-a', name: 'Ann', score: 0.6, rationale: 'teacher-a rationale' }
+    ]);
+  });
+});
+
+describe('getSubstitutionOfferExpiry', () => {
+  it('should close offers before the session starts', () => {
+    const now = new Date('2030-03-04T08:00:00.000Z');
+
+    expect(getSubstitutionOfferExpiry('2030-03-04T12:00:00.000Z', now)?.toISOString()).toBe('2030-03-04T08:30:00.000Z');
+    expect(getSubstitutionOfferExpiry('2030-03-04T08:20:00.000Z', now)?.toISOString()).toBe('2030-03-04T08:10:00.000Z');
+    expect(getSubstitutionOfferExpiry('2030-03-04T08:05:00.000Z', now)).toBeNull();
+  });
+});
+
+describe('TeacherSubstitutionService', () => {
+  it('should rank free teachers for each affected session and offer it to the best match', async () => {
+    const matcher = {
+      getTeacherProfiles: jest.fn().mockResolvedValue([{ id: 'teacher-a' }, { id: 'teacher-b' }]),
+      scoreTeachers: jest.fn().mockResolvedValue([score('teacher-b', 0.7), score('teacher-a', 0.9)])
+    };
+    const mailer = mockMailer();
+    const { client, calls } = mockSupabaseClient({
+      teacher_absences: [
+        { data: { id: 'absence-1', teacher_id: 'teacher-absent', start_time: hoursFromNow(0), end_time: hoursFromNow(8), status: 'reported' }, error: null },
+        { data: [{ teacher_id: 'teacher-sick' }], error: null }
+      ],
+      bookings: [
+        {
+          data: [
+            { class_id: 'class-1', start_time: sessionStart, end_time: sessionEnd, class: { teacher_id: 'teacher-absent', class_name: 'Everyday A - Evening', course: { course_type: 'Everyday A' } } },
+            { class_id: 'class-1', start_time: sessionStart, end_time: sessionEnd, class: { teacher_id: 'teacher-absent', class_name: 'Everyday A - Evening', course: { course_type: 'Everyday A' } } }
+          ],
+          error: null
+        },
+        { data: [], error: null },
+        { data: [{ substitute_teacher_id: null, class: { teacher_id: 'teacher-busy' } }], error: null }
+      ],
+      substitution_requests: [{ data: requestRow({ status: 'searching', candidates: [] }), error: null }],
+      teachers: [
+        {
+          data: [
+            { id: 'teacher-a', full_name: 'Ann' },
+            { id: 'teacher-b', full_name: 'Ben' },
+            { id: 'teacher-busy', full_name: 'Bea' },
+            { id: 'teacher-sick', full_name: 'Sam' }
+          ],
+          error: null
+        },
+        { data: { email: 'ann@heypeter.academy', full_name: 'Ann' }, error: null }
+      ],
+      substitution_offers: [
+        { data: [], error: null },
+        { data: offerRow({ request: undefined }), error: null }
+      ]
+    });
+    const service = new TeacherSubstitutionService(client, matcher as any, mailer);
+
+    const result = await service.reportAbsence({ teacherId: 'teacher-absent', startTime: hoursFromNow(0), endTime: hoursFromNow(8) });
+
+    expect(result.data?.requests).toHaveLength(1);
+    expect(result.data?.requests[0]).toEqual(expect.objectContaining({ status: 'offered', className: 'Everyday A - Evening' }));
+    expect(matcher.getTeacherProfiles).toHaveBeenCalledWith(['teacher-a', 'teacher-b']);
+    expect(matcher.scoreTeachers).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.objectContaining({ learningGoals: expect.objectContaining({ primaryObjectives: ['Everyday A'] }) }),
+      0
+    );
+    expect(calls.substitution_requests[1].update).toHaveBeenCalledWith({
+      candidates: [
+        expect.objectContaining({ teacherId: 'teacher-a', name: 'Ann', score: 0.9 }),
+        expect.objectContaining({ teacherId: 'teacher-b', name: 'Ben', score: 0.7 })
+      ]
+    });
+    expect(calls.substitution_offers[1].insert).toHaveBeenCalledWith(expect.objectContaining({ teacher_id: 'teacher-a', rank: 1 }));
+    expect(mailer.addToQueue).toHaveBeenCalledWith(
+      expect.objectContaining({ to: [{ email: 'ann@heypeter.academy', name: 'Ann' }] }),
+      expect.any(Object)
+    );
+  });
+
+  it('should hand the session to the substitute in one call and tell its students on acceptance', async () => {
+    const mailer = mockMailer();
+    const { client, calls } = mockSupabaseClient({
+      substitution_offers: [{ data: offerRow(), error: null }],
+      bookings: [{
+        data: [
+          { id: 'booking-1', student: { full_name: 'Mai', email: 'mai@example.com' } },
+          { id: 'booking-2', student: { full_name: 'Tom', email: 'tom@example.com' } }
+        ],
+        error: null
+      }],
+      teachers: [{ data: { full_name: 'Ann' }, error: null }]
+    }, {
+      rpc: () => Promise.resolve({ data: { ...offerRow({ request: undefined }), status: 'accepted', responded_at: hoursFromNow(0) }, error: null })
+    });
+    const service = new TeacherSubstitutionService(client, {} as any, mailer);
+
+    const result = await service.respondToOffer('token-1', 'accept');
+
+    expect(result.data?.status).toBe('accepted');
+    expect(client.rpc).toHaveBeenCalledWith('accept_substitution_offer', { p_offer_id: 'offer-1' });
+    expect(calls.substitution_requests).toBeUndefined();
+    expect(calls.bookings[0].update).not.toHaveBeenCalled();
+    expect(calls.bookings[0].eq).toHaveBeenCalledWith('start_time', sessionStart);
+    expect(mailer.addToQueue).toHaveBeenCalledTimes(2);
+    expect(mailer.addToQueue.mock.calls[0][0].text).toContain('will be taught by Ann');
+  });
+
+  it('should leave the session untouched when another response closed the offer first', async () => {
+    const mailer = mockMailer();
+    const { client, calls } = mockSupabaseClient({
+      substitution_offers: [{ data: offerRow(), error: null }]
+    }, {
+      rpc: () => Promise.resolve({ data: null, error: { message: 'OFFER_NOT_PENDING: substitution offer offer-1 is already accepted' } })
+    });
+    const service = new TeacherSubstitutionService(client, {} as any, mailer);
+
+    const result = await service.respondToOffer('token-1', 'accept');
+
+    expect(result.error?.code).toBe('OFFER_NOT_PENDING');
+    expect(calls.bookings).toBeUndefined();
+    expect(mailer.addToQueue).not.toHaveBeenCalled();
+  });
+
+  it('should offer the session to the next candidate when the substitute declines', async () => {
+    const mailer = mockMailer();
+    const { client, calls } = mockSupabaseClient({
+      substitution_offers: [
+        { data: offerRow(), error: null },
+        { data: [{ id: 'offer-1' }], error: null },
+        { data: [{ teacher_id: 'teacher-a' }], error: null },
+        { data: offerRow({ id: 'offer-2', teacher_id: 'teacher-b', rank: 2, token: 'token-2', request: undefined }), error: null }
+      ],
+      substitution_requests: [{ data: requestRow(), error: null }],
+      teachers: [{ data: { email: 'ben@heypeter.academy', full_name: 'Ben' }, error: null }]
+    });
+    const service = new TeacherSubstitutionService(client, {} as any, mailer);
+
+    const result = await service.respondToOffer('token-1', 'decline');
+
+    expect(result.data?.status).toBe('declined');
+    expect(calls.substitution_offers[3].insert).toHaveBeenCalledWith(expect.objectContaining({ teacher_id: 'teacher-b', rank: 2 }));
+    expect(calls.bookings).toBeUndefined();
+  });
+
+  it('should mark a session unfilled when no candidate is left', async () => {
+    const { client, calls } = mockSupabaseClient({
+      substitution_offers: [
+        { data: [offerRow({ teacher_id: 'teacher-b', request: requestRow({ candidates: [{ teacherId: 'teacher-b', score: 0.7 }] }) })], error: null },
+        { data: [{ id: 'offer-1' }], error: null },
+        { data: [{ teacher_id: 'teacher-b' }], error: null }
+      ]
+    });
+    const service = new TeacherSubstitutionService(client, {} as any, mockMailer());
+
+    const result = await service.expireOffers();
+
+    expect(result).toEqual({ expired: 1, reoffered: 0, unfilled: 1, errors: [] });
+    expect(calls.substitution_requests[0].update).toHaveBeenCalledWith({ status: 'unfilled' });
+  });
+});
@@ -35,6 +35,14 @@ const mockConflictDetectionService = {
   checkBookingConflicts: jest.fn(),
 };
 
+// Mock closure calendar
+jest.mock('../closure-calendar-service', () => ({
+  closureCalendarService: {
+    getActiveClosures: jest.fn().mockResolvedValue([]),
+  },
+  findClosure: jest.fn(),
+}));
+
 // Mock content analysis service
 jest.mock('../content-analysis-service', () => ({
   contentAnalysisService: {
@@ -0,0 +1,127 @@
+import { solveTimetable } from '../timetable-constraint-solver';
+import type { TimeSlot, TimetableProblem, TimetableStudent } from '@/types/scheduling';
+
+const slot = (id: string, startTime: string): TimeSlot => ({
+  id,
+  startTime,
+  endTime: new Date(new Date(startTime).getTime() + 60 * 60 * 1000).toISOString(),
+  duration: 60,
+  dayOfWeek: new Date(startTime).getUTCDay(),
+  isAvailable: true,
+  capacity: { maxStudents: 9, minStudents: 1, currentEnrollment: 0, availableSpots: 9 },
+  timeZone: 'UTC'
+});
+
+const student = (id: string, overrides: Partial<TimetableStudent> = {}): TimetableStudent => ({
+  studentId: id,
+  courseId: 'course-a',
+  courseType: 'Everyday A',
+  currentUnit: 1,
+  currentLesson: 1,
+  ...overrides
+});
+
+const slots = [slot('mon-18', '2030-03-04T18:00:00Z'), slot('tue-18', '2030-03-05T18:00:00Z')];
+
+describe('solveTimetable', () => {
+  it('should respect course type limits, room capacity and teacher availability', () => {
+    const problem: TimetableProblem = {
+      slots,
+      students: Array.from({ length: 10 }, (_, index) => student(`s${index}`, { courseId: 'course-b', courseType: 'Business English' })),
+      teachers: [
+        { teacherId: 't1', availableSlotIds: ['mon-18'] },
+        { teacherId: 't2', availableSlotIds: ['mon-18', 'tue-18'] }
+      ],
+      rooms: [{ roomId: 'room-1', capacity: 9 }, { roomId: 'zoom-1', capacity: 5, isVirtual: true }]
+    };
+
+    const solution = solveTimetable(problem);
+
+    expect(solution.unplacedStudents).toEqual([]);
+    for (const scheduled of solution.scheduledClasses) {
+      const room = problem.rooms.find(item => item.roomId === scheduled.metadata?.roomId)!;
+      const teacher = problem.teachers.find(item => item.teacherId === scheduled.teacherId)!;
+      expect(scheduled.studentIds.length).toBeLessThanOrEqual(Math.min(6, room.capacity));
+      expect(teacher.availableSlotIds).toContain(scheduled.timeSlot.id);
+    }
+  });
+
+  it('should explain why students could not be placed', () => {
+    const solution = solveTimetable({
+      slots,
+      students: [
+        student('only-tuesday', { availableSlotIds: ['tue-18'] }),
+        student('speak-up', { courseId: 'course-s', courseType: 'Speak Up' }),
+        student('nowhere', { availableSlotIds: [] })
+      ],
+      teachers: [{ teacherId: 't1', availableSlotIds: ['mon-18'], courseTypes: ['Everyday A'] }],
+      rooms: [{ roomId: 'room-1', capacity: 9 }]
+    });
+
+    const reasons = Object.fromEntries(solution.unplacedStudents.map(item => [item.studentId, item.reasons.map(reason => reason.constraint)]));
+
+    expect(reasons).toEqual({
+      'only-tuesday': ['teacher_availability'],
+      'speak-up': ['teacher_qualification'],
+      nowhere: ['student_availability']
+    });
+    expect(solution.unplacedStudents[0].message).toMatch(/^Could not place student/);
+  });
+
+  it('should group students by content and report unmet preferences', () => {
+    const solution = solveTimetable({
+      slots,
+      students: [
+        student('a1'),
+        student('a2', { preferredSlotIds: ['tue-18'] }),
+        student('b1', { currentUnit: 5 }),
+        student('b2', { currentUnit: 5, preferredSlotIds: ['tue-18'] })
+      ],
+      teachers: [{ teacherId: 't1', availableSlotIds: ['mon-18', 'tue-18'] }],
+      rooms: [{ roomId: 'room-1', capacity: 9 }]
+    });
+
+    const groups = solution.scheduledClasses.map(scheduled => [...scheduled.studentIds].sort());
+
+    expect(groups).toHaveLength(2);
+    expect(groups).toEqual(expect.arrayContaining([['a1', 'a2'], ['b1', 'b2']]));
+    expect(solution.softConstraintViolations).toEqual([
+      expect.objectContaining({ constraint: 'student_preference', penalty: 1 })
+    ]);
+  });
+
+  it('should not start placing students once the time budget is spent', () => {
+    const solution = solveTimetable({
+      slots,
+      students: [student('a1'), student('a2', { currentUnit: 3 })],
+      teachers: [{ teacherId: 't1', availableSlotIds: ['mon-18'] }],
+      rooms: [{ roomId: 'room-1', capacity: 9 }]
+    }, { timeBudgetMs: 0 });
+
+    expect(solution.stats.timedOut).toBe(true);
+    expect(solution.stats.iterations).toBe(0);
+    expect(solution.scheduledClasses).toEqual([]);
+    expect(solution.unplacedStudents.map(item => item.studentId)).toEqual(['a1', 'a2']);
+  });
+
+  it('should stop placing students when the budget runs out mid-construction', () => {
+    let now = 0;
+    const clock = jest.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+
+    try {
+      const solution = solveTimetable({
+        slots,
+        students: [student('a1'), student('a2', { currentUnit: 3 })],
+        teachers: [{ teacherId: 't1', availableSlotIds: ['mon-18'] }],
+        rooms: [{ roomId: 'room-1', capacity: 9 }]
+      }, { timeBudgetMs: 1500 });
+
+      expect(solution.stats.timedOut).toBe(true);
+      expect(solution.stats.iterations).toBe(0);
+      expect(solution.scheduledClasses.map(scheduled => scheduled.studentIds)).toEqual([['a1']]);
+      expect(solution.unplacedStudents.map(item => item.studentId)).toEqual(['a2']);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+});
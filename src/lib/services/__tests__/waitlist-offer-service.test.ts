@@ -0,0 +1,181 @@
+import { WaitlistOfferService, summarizeWaitlistOffers } from '../waitlist-offer-service';
+import { ENROLLMENT_STATUS } from '@/lib/constants';
+import { mockSupabaseClient } from '@/__mocks__/supabase-query';
+
+const mockClient = (tables: Record<string, any[]>, availableHours: number[] = []) =>
+  mockSupabaseClient(tables, { rpc: () => Promise.resolve({ data: availableHours.shift() ?? 0, error: null }) });
+
+const mockMailer = () => ({ addToQueue: jest.fn().mockResolvedValue('email-1') });
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+
+const offerRow = (overrides: Record<string, any> = {}) => ({
+  id: 'offer-1',
+  class_id: 'class-1',
+  enrollment_id: 'enrollment-1',
+  student_id: 'student-1',
+  status: 'pending',
+  reserved_hours: 1,
+  token: 'token-1',
+  seat_opened_at: '2030-01-01T08:00:00.000Z',
+  offered_at: hoursFromNow(-2),
+  expires_at: hoursFromNow(22),
+  class: { title: 'Everyday A' },
+  ...overrides
+});
+
+describe('WaitlistOfferService', () => {
+  it('should skip students without enough hours and offer the seat to the next in line', async () => {
+    const { client, calls } = mockClient({
+      class_enrollments: [{
+        data: [{ id: 'enrollment-1', student_id: 'student-1' }, { id: 'enrollment-2', student_id: 'student-2' }],
+        error: null
+      }],
+      waitlist_offers: [
+        { data: [], error: null },
+        { data: offerRow({ id: 'offer-2', enrollment_id: 'enrollment-2', student_id: 'student-2', class: undefined }), error: null }
+      ],
+      classes: [{ data: { title: 'Everyday A', waitlist_offer_hours: 12 }, error: null }],
+      users: [{ data: { email: 'student2@example.com', first_name: 'Nok', last_name: 'S' }, error: null }]
+    }, [0, 3]);
+    const mailer = mockMailer();
+    const service = new WaitlistOfferService(client, mailer);
+
+    const result = await service.offerNextSeat('class-1');
+
+    expect(result.data).toEqual(expect.objectContaining({ id: 'offer-2', studentId: 'student-2', className: 'Everyday A' }));
+    expect(client.rpc).toHaveBeenCalledTimes(2);
+    const inserted = calls.waitlist_offers[1].insert.mock.calls[0][0];
+    expect(inserted).toEqual(expect.objectContaining({ enrollment_id: 'enrollment-2', reserved_hours: 1 }));
+    expect(new Date(inserted.expires_at).getTime() - new Date(inserted.offered_at).getTime()).toBe(12 * 60 * 60 * 1000);
+    expect(mailer.addToQueue).toHaveBeenCalledWith(
+      expect.objectContaining({ to: [{ email: 'student2@example.com', name: 'Nok S' }] }),
+      expect.anything()
+    );
+  });
+
+  it('should enrol the student through a single accept call when they accept within the window', async () => {
+    const { client, calls } = mockSupabaseClient({
+      waitlist_offers: [{ data: offerRow(), error: null }],
+      class_enrollments: [
+        { data: [{ id: 'enrollment-3' }], error: null },
+        { data: null, error: null }
+      ]
+    }, {
+      rpc: () => Promise.resolve({ data: offerRow({ status: 'accepted', responded_at: '2030-01-01T10:00:00.000Z' }), error: null })
+    });
+    const service = new WaitlistOfferService(client, mockMailer());
+
+    const result = await service.respondToOffer('token-1', 'accept');
+
+    expect(result.data).toEqual(expect.objectContaining({ status: 'accepted', respondedAt: '2030-01-01T10:00:00.000Z' }));
+    expect(client.rpc).toHaveBeenCalledWith('accept_waitlist_offer', { p_offer_id: 'offer-1' });
+    expect(calls.class_enrollments[1].update).toHaveBeenCalledWith({ position_in_waitlist: 1 });
+  });
+
+  it('should refuse an acceptance once the held hours are no longer covered', async () => {
+    const { client, calls } = mockSupabaseClient({
+      waitlist_offers: [{ data: offerRow(), error: null }]
+    }, {
+      rpc: () => Promise.resolve({ data: null, error: { message: 'INSUFFICIENT_HOURS: 1 hour(s) held but only 0 available' } })
+    });
+    const service = new WaitlistOfferService(client, mockMailer());
+
+    const result = await service.respondToOffer('token-1', 'accept');
+
+    expect(result.error?.code).toBe('INSUFFICIENT_HOURS');
+    expect(calls.class_enrollments).toBeUndefined();
+  });
+
+  it('should list the waiting list with each open offer', async () => {
+    const { client } = mockSupabaseClient({
+      class_enrollments: [{
+        data: [
+          { id: 'enrollment-1', class_id: 'class-1', student_id: 'student-1', position_in_waitlist: 1, waitlisted_at: '2030-01-01T00:00:00Z', student: { first_name: 'Nok', last_name: 'S', email: 'nok@example.com' } },
+          { id: 'enrollment-2', class_id: 'class-1', student_id: 'student-2', position_in_waitlist: 2, waitlisted_at: '2030-01-02T00:00:00Z', student: { first_name: 'Ana', last_name: null, email: null } }
+        ],
+        error: null
+      }],
+      waitlist_offers: [{ data: [offerRow()], error: null }]
+    });
+    const service = new WaitlistOfferService(client, mockMailer());
+
+    const result = await service.getWaitingList('class-1');
+
+    expect(result.data).toEqual([
+      expect.objectContaining({ enrollmentId: 'enrollment-1', position: 1, studentName: 'Nok S', offer: expect.objectContaining({ id: 'offer-1' }) }),
+      expect.objectContaining({ enrollmentId: 'enrollment-2', position: 2, studentName: 'Ana', studentEmail: undefined, offer: undefined })
+    ]);
+  });
+
+  it('should pass a declined seat on, keeping the original opening time', async () => {
+    const { client, calls } = mockClient({
+      waitlist_offers: [
+        { data: offerRow(), error: null },
+        { data: [{ id: 'offer-1' }], error: null },
+        { data: [], error: null },
+        { data: offerRow({ id: 'offer-2', enrollment_id: 'enrollment-2', student_id: 'student-2' }), error: null }
+      ],
+      class_enrollments: [
+        { data: null, error: null },
+        { data: [], error: null },
+        { data: [{ id: 'enrollment-2', student_id: 'student-2' }], error: null }
+      ]
+    }, [2]);
+    const service = new WaitlistOfferService(client, mockMailer());
+
+    const result = await service.respondToOffer('token-1', 'decline');
+
+    expect(result.data?.status).toBe('declined');
+    expect(calls.class_enrollments[0].update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: ENROLLMENT_STATUS.DROPPED })
+    );
+    expect(calls.waitlist_offers[3].insert).toHaveBeenCalledWith(
+      expect.objectContaining({ enrollment_id: 'enrollment-2', seat_opened_at: '2030-01-01T08:00:00.000Z' })
+    );
+  });
+
+  it('should refuse a late acceptance and expire lapsed offers in the sweep', async () => {
+    const lapsed = offerRow({ expires_at: hoursFromNow(-1) });
+    const { client } = mockClient({
+      waitlist_offers: [
+        { data: lapsed, error: null },
+        { data: [{ id: 'offer-1' }], error: null },
+        { data: [], error: null },
+        { data: [offerRow({ id: 'offer-3', expires_at: hoursFromNow(-1) })], error: null },
+        { data: [{ id: 'offer-3' }], error: null },
+        { data: [], error: null }
+      ]
+    });
+    const service = new WaitlistOfferService(client, mockMailer());
+
+    const late = await service.respondToOffer('token-1', 'accept');
+    const sweep = await service.expireOffers();
+
+    expect(late.error?.code).toBe('OFFER_EXPIRED');
+    expect(sweep).toEqual({ expired: 1, reoffered: 0, errors: [] });
+  });
+});
+
+describe('summarizeWaitlistOffers', () => {
+  it('should report decline and expiry rates and the average time to fill', () => {
+    const metrics = summarizeWaitlistOffers([
+      { status: 'accepted', seatOpenedAt: '2030-01-01T00:00:00Z', respondedAt: '2030-01-01T04:00:00Z' },
+      { status: 'accepted', seatOpenedAt: '2030-01-02T00:00:00Z', respondedAt: '2030-01-02T09:00:00Z' },
+      { status: 'declined', seatOpenedAt: '2030-01-02T00:00:00Z', respondedAt: '2030-01-02T02:00:00Z' },
+      { status: 'expired', seatOpenedAt: '2030-01-03T00:00:00Z' },
+      { status: 'pending', seatOpenedAt: '2030-01-04T00:00:00Z' }
+    ]);
+
+    expect(metrics).toEqual({
+      offersMade: 5,
+      accepted: 2,
+      declined: 1,
+      expired: 1,
+      pending: 1,
+      declineRate: 25,
+      expiryRate: 25,
+      averageTimeToFillHours: 6.5
+    });
+  });
+});
@@ -44,6 +44,12 @@ export interface AttendanceRecord {
     endTime: Date;
     durationMinutes: number;
   };
+  /** The attendance policy version that produced hoursDeducted */
+  policy?: {
+    id: string;
+    version: number;
+    reason?: string;
+  };
 }
 
 export interface AttendanceClassSummary {
@@ -139,6 +145,9 @@ class AttendanceAnalyticsService {
           hours_deducted,
           notes,
           booking_id,
+          policy_id,
+          policy_version,
+          deduction_reason,
           bookings!inner (
             id,
             booking_date,
@@ -222,7 +231,10 @@ class AttendanceAnalyticsService {
           startTime: new Date(record.bookings.start_time),
           endTime: new Date(record.bookings.end_time),
           durationMinutes: record.bookings.duration_minutes
-        }
+        },
+        policy: record.policy_id
+          ? { id: record.policy_id, version: record.policy_version, reason: record.deduction_reason || undefined }
+          : undefined
       })) || [];
     } catch (error) {
       logger.error('Error fetching attendance records:', error);
@@ -0,0 +1,706 @@
+/**
+ * Attendance Check-in Service
+ *
+ * Live attendance for a class session. The teacher opens check-in and shows
+ * a short code that rotates every few seconds; students enter it or scan the
+ * check-in link. Online students are checked in when they join through the
+ * session's join link. A check-in's time against the session's grace periods
+ * decides whether the student is present, late or absent.
+ *
+ * After the session a sweep marks everyone who never checked in absent and
+ * applies each student's class deduction under their attendance policy. The
+ * teacher can correct statuses until the correction window closes; a changed
+ * deduction is reversed and applied again.
+ */
+
+import { createHmac } from 'crypto';
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import { ATTENDANCE_CHECK_IN } from '@/lib/constants';
+import { AttendancePolicyService } from './attendance-policy-service';
+import type { HourApiResponse } from '@/types/hours';
+import type {
+  AttendanceGracePeriods,
+  AttendanceSession,
+  AttendanceStatus,
+  AttendanceSweepResult,
+  CheckInCode,
+  CheckInRequest,
+  SessionRosterEntry,
+  TeachingSession
+} from '@/types/attendance';
+
+const MINUTE_MS = 60 * 1000;
+
+// Avoids characters that are easy to misread on a projector (0/O, 1/I)
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+// Bookings that are expected in class
+const EXPECTED_BOOKING_STATUSES = ['pending', 'confirmed'];
+
+const ROSTER_SELECT = 'id, student_id, class_id, start_time, duration_minutes, student:students(full_name), class:classes(course:courses(course_type))';
+
+/**
+ * HMAC-SHA256 keyed by the session secret, so codes seen in class do not
+ * reveal the secret or later codes
+ */
+function codeForWindow(secret: string, window: number): string {
+  const digest = createHmac('sha256', secret).update(String(window)).digest();
+  let code = '';
+  for (let index = 0; index < CODE_LENGTH; index++) {
+    code += CODE_ALPHABET[digest[index] & 31];
+  }
+  return code;
+}
+
+const rotationWindow = (at: Date, rotationSeconds: number) => Math.floor(at.getTime() / (rotationSeconds * 1000));
+
+/**
+ * The check-in code shown in class at a moment
+ */
+export function getCheckInCode(
+  secret: string,
+  at: Date = new Date(),
+  rotationSeconds: number = ATTENDANCE_CHECK_IN.CODE_ROTATION_SECONDS
+): string {
+  return codeForWindow(secret, rotationWindow(at, rotationSeconds));
+}
+
+/**
+ * Accepts the current code and the one before it, so a code read just before
+ * it rotated still works
+ */
+export function isValidCheckInCode(
+  secret: string,
+  code: string,
+  at: Date = new Date(),
+  rotationSeconds: number = ATTENDANCE_CHECK_IN.CODE_ROTATION_SECONDS
+): boolean {
+  const normalized = code.trim().toUpperCase();
+  const window = rotationWindow(at, rotationSeconds);
+  return normalized === codeForWindow(secret, window) || normalized === codeForWindow(secret, window - 1);
+}
+
+export function getCheckInUrl(sessionId: string, code: string, baseUrl: string = process.env.NEXT_PUBLIC_APP_URL || ''): string {
+  return `${baseUrl}/check-in/${sessionId}?code=${code}`;
+}
+
+/**
+ * Status for a check-in at a given time
+ */
+export function inferAttendanceStatus(
+  checkedInAt: Date,
+  sessionStart: string,
+  grace: AttendanceGracePeriods
+): Exclude<AttendanceStatus, 'excused'> {
+  const minutesLate = (checkedInAt.getTime() - new Date(sessionStart).getTime()) / MINUTE_MS;
+  if (minutesLate <= grace.lateGraceMinutes) return 'present';
+  if (minutesLate < grace.absentAfterMinutes) return 'late';
+  return 'absent';
+}
+
+function checkInError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class AttendanceCheckInService {
+  private supabase;
+  private policies: AttendancePolicyService;
+
+  constructor(client: any = defaultClient, policies: AttendancePolicyService = new AttendancePolicyService(client)) {
+    this.supabase = client;
+    this.policies = policies;
+  }
+
+  /**
+   * Today's (or a range's) sessions a teacher is due to teach, including
+   * sessions they cover as a substitute
+   */
+  async getTeacherSessions(teacherId: string, from: string, to: string): Promise<HourApiResponse<TeachingSession[]>> {
+    try {
+      const select = 'class_id, start_time, end_time, class:classes!inner(teacher_id, class_name)';
+      const [{ data: own, error: ownError }, { data: covering, error: coveringError }] = await Promise.all([
+        this.supabase
+          .from('bookings')
+          .select(select)
+          .eq('class.teacher_id', teacherId)
+          .is('substitute_teacher_id', null)
+          .in('status', EXPECTED_BOOKING_STATUSES)
+          .gte('start_time', from)
+          .lt('start_time', to),
+        this.supabase
+          .from('bookings')
+          .select(select)
+          .eq('substitute_teacher_id', teacherId)
+          .in('status', EXPECTED_BOOKING_STATUSES)
+          .gte('start_time', from)
+          .lt('start_time', to)
+      ]);
+
+      if (ownError) throw ownError;
+      if (coveringError) throw coveringError;
+
+      const sessions = new Map<string, TeachingSession>();
+      for (const row of [...(own || []), ...(covering || [])]) {
+        const key = `${row.class_id}|${new Date(row.start_time).toISOString()}`;
+        const session = sessions.get(key) || {
+          classId: row.class_id,
+          className: row.class?.class_name || undefined,
+          startTime: row.start_time,
+          endTime: row.end_time,
+          studentCount: 0
+        };
+        session.studentCount++;
+        sessions.set(key, session);
+      }
+
+      const classIds = [...new Set([...sessions.values()].map(session => session.classId))];
+      if (classIds.length > 0) {
+        const { data: opened, error } = await this.supabase
+          .from('attendance_sessions')
+          .select('*')
+          .in('class_id', classIds)
+          .gte('start_time', from)
+          .lt('start_time', to);
+
+        if (error) throw error;
+
+        for (const row of opened || []) {
+          const session = sessions.get(`${row.class_id}|${new Date(row.start_time).toISOString()}`);
+          if (session) session.attendanceSession = this.transformSession(row);
+        }
+      }
+
+      return {
+        success: true,
+        data: [...sessions.values()].sort((a, b) => a.startTime.localeCompare(b.startTime))
+      };
+    } catch (error) {
+      return checkInError('FETCH_SESSIONS_ERROR', 'Failed to fetch teaching sessions', error);
+    }
+  }
+
+  /**
+   * Start check-in for a session, or return it if already started. Grace
+   * periods come from the class, then ATTENDANCE_CHECK_IN.
+   */
+  async openSession(request: {
+    classId: string;
+    startTime: string;
+    endTime: string;
+    openedBy?: string;
+  }): Promise<HourApiResponse<AttendanceSession>> {
+    try {
+      const { data: existing, error: existingError } = await this.supabase
+        .from('attendance_sessions')
+        .select('*, class:classes(class_name)')
+        .eq('class_id', request.classId)
+        .eq('start_time', request.startTime)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (existing) return { success: true, data: this.transformSession(existing) };
+
+      const { data: classRow, error: classError } = await this.supabase
+        .from('classes')
+        .select('class_name, meeting_link, late_grace_minutes, absent_after_minutes')
+        .eq('id', request.classId)
+        .single();
+
+      if (classError) throw classError;
+
+      const { data, error } = await this.supabase
+        .from('attendance_sessions')
+        .insert({
+          class_id: request.classId,
+          start_time: request.startTime,
+          end_time: request.endTime,
+          delivery_mode: classRow.meeting_link ? 'online' : 'in_person',
+          late_grace_minutes: classRow.late_grace_minutes ?? ATTENDANCE_CHECK_IN.LATE_GRACE_MINUTES,
+          absent_after_minutes: classRow.absent_after_minutes ?? ATTENDANCE_CHECK_IN.ABSENT_AFTER_MINUTES,
+          opened_by: request.openedBy || null
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: { ...this.transformSession(data), className: classRow.class_name || undefined } };
+    } catch (error) {
+      logger.error('Failed to open attendance session:', error);
+      return checkInError('OPEN_SESSION_ERROR', 'Failed to start check-in', error);
+    }
+  }
+
+  async getSession(sessionId: string): Promise<HourApiResponse<AttendanceSession>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('attendance_sessions')
+        .select('*, class:classes(class_name)')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return checkInError('SESSION_NOT_FOUND', 'Check-in session not found');
+
+      return { success: true, data: this.transformSession(data) };
+    } catch (error) {
+      return checkInError('FETCH_SESSION_ERROR', 'Failed to fetch the check-in session', error);
+    }
+  }
+
+  /**
+   * The code to show in class right now, for the teacher's screen
+   */
+  async getSessionCode(sessionId: string, now: Date = new Date()): Promise<HourApiResponse<CheckInCode>> {
+    try {
+      const session = await this.loadSession(sessionId);
+      if (!session) return checkInError('SESSION_NOT_FOUND', 'Check-in session not found');
+
+      const rotationMs = ATTENDANCE_CHECK_IN.CODE_ROTATION_SECONDS * 1000;
+      const code = getCheckInCode(session.code_secret, now);
+
+      return {
+        success: true,
+        data: {
+          code,
+          checkInUrl: getCheckInUrl(sessionId, code),
+          rotatesAt: new Date((rotationWindow(now, ATTENDANCE_CHECK_IN.CODE_ROTATION_SECONDS) + 1) * rotationMs).toISOString()
+        }
+      };
+    } catch (error) {
+      return checkInError('FETCH_CODE_ERROR', 'Failed to fetch the check-in code', error);
+    }
+  }
+
+  /**
+   * Check a student in with the class code, or on joining an online session.
+   * The first check-in stands; checking in again returns it unchanged.
+   */
+  async checkIn(request: CheckInRequest): Promise<HourApiResponse<SessionRosterEntry>> {
+    const at = request.at || new Date();
+
+    try {
+      const session = await this.loadSession(request.sessionId);
+      if (!session) return checkInError('SESSION_NOT_FOUND', 'Check-in session not found');
+      if (session.status !== 'open') return checkInError('SESSION_CLOSED', 'Check-in for this class has closed');
+
+      // Joining online stands in for the code only where the class is held online
+      if (request.method === 'online_join') {
+        if (session.delivery_mode !== 'online') {
+          return checkInError('NOT_ONLINE', 'This class is held in person. Check in with the code on screen');
+        }
+      } else if (!isValidCheckInCode(session.code_secret, request.code || '', at)) {
+        return checkInError('INVALID_CODE', 'That code is not valid. Check the code on screen and try again');
+      }
+
+      const { data: booking, error: bookingError } = await this.supabase
+        .from('bookings')
+        .select(ROSTER_SELECT)
+        .eq('class_id', session.class_id)
+        .eq('start_time', session.start_time)
+        .eq('student_id', request.studentId)
+        .in('status', EXPECTED_BOOKING_STATUSES)
+        .maybeSingle();
+
+      if (bookingError) throw bookingError;
+      if (!booking) return checkInError('NOT_BOOKED', 'You are not booked into this class');
+
+      const { data: existing, error: existingError } = await this.supabase
+        .from('attendance')
+        .select('*')
+        .eq('booking_id', booking.id)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (existing) return { success: true, data: this.toRosterEntry(booking, existing) };
+
+      const { data, error } = await this.supabase
+        .from('attendance')
+        .insert({
+          booking_id: booking.id,
+          session_id: session.id,
+          attendance_time: at.toISOString(),
+          checked_in_at: at.toISOString(),
+          status: inferAttendanceStatus(at, session.start_time, this.gracePeriods(session)),
+          check_in_method: request.method,
+          hours_deducted: 0
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.toRosterEntry(booking, data) };
+    } catch (error) {
+      logger.error('Failed to check in:', error);
+      return checkInError('CHECK_IN_ERROR', 'Failed to check you in', error);
+    }
+  }
+
+  /**
+   * Record an online student joining and return the class's join link
+   */
+  async recordJoin(sessionId: string, studentId: string, at: Date = new Date()): Promise<HourApiResponse<{ attendance: SessionRosterEntry; joinUrl: string }>> {
+    try {
+      const { data: session, error } = await this.supabase
+        .from('attendance_sessions')
+        .select('class:classes(meeting_link)')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!session) return checkInError('SESSION_NOT_FOUND', 'Check-in session not found');
+
+      // No attendance is recorded for a join that cannot happen
+      if (!session.class?.meeting_link) {
+        return checkInError('NO_MEETING_LINK', 'This class has no online meeting link');
+      }
+
+      const checkedIn = await this.checkIn({ sessionId, studentId, method: 'online_join', at });
+      if (!checkedIn.success || !checkedIn.data) return checkedIn as HourApiResponse<any>;
+
+      return { success: true, data: { attendance: checkedIn.data, joinUrl: session.class.meeting_link } };
+    } catch (error) {
+      logger.error('Failed to record online join:', error);
+      return checkInError('CHECK_IN_ERROR', 'Failed to check you in', error);
+    }
+  }
+
+  /**
+   * Every student booked into the session with their attendance so far
+   */
+  async getRoster(sessionId: string): Promise<HourApiResponse<SessionRosterEntry[]>> {
+    try {
+      const session = await this.loadSession(sessionId);
+      if (!session) return checkInError('SESSION_NOT_FOUND', 'Check-in session not found');
+
+      const { bookings, attendance } = await this.loadRoster(session);
+
+      return {
+        success: true,
+        data: bookings
+          .map((booking: any) => this.toRosterEntry(booking, attendance.get(booking.id)))
+          .sort((a: SessionRosterEntry, b: SessionRosterEntry) => a.studentName.localeCompare(b.studentName))
+      };
+    } catch (error) {
+      return checkInError('FETCH_ROSTER_ERROR', 'Failed to fetch the class roster', error);
+    }
+  }
+
+  /**
+   * Set a student's status by hand. After the session is finalized this is a
+   * correction: allowed until the deadline, and the deduction is redone.
+   */
+  async markAttendance(request: {
+    sessionId: string;
+    bookingId: string;
+    status: AttendanceStatus;
+    teacherId?: string;
+    now?: Date;
+  }): Promise<HourApiResponse<SessionRosterEntry>> {
+    const now = request.now || new Date();
+
+    try {
+      const session = await this.loadSession(request.sessionId);
+      if (!session) return checkInError('SESSION_NOT_FOUND', 'Check-in session not found');
+
+      const finalized = session.status === 'finalized';
+      if (finalized && (!session.correction_deadline || new Date(session.correction_deadline).getTime() < now.getTime())) {
+        return checkInError('CORRECTION_WINDOW_CLOSED', 'Attendance for this class can no longer be corrected');
+      }
+
+      const { data: booking, error: bookingError } = await this.supabase
+        .from('bookings')
+        .select(ROSTER_SELECT)
+        .eq('id', request.bookingId)
+        .single();
+
+      if (bookingError) throw bookingError;
+
+      const { data: existing, error: existingError } = await this.supabase
+        .from('attendance')
+        .select('*')
+        .eq('booking_id', request.bookingId)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (finalized && existing?.status === request.status) {
+        return { success: true, data: this.toRosterEntry(booking, existing) };
+      }
+
+      const changes = {
+        status: request.status,
+        ...(finalized
+          ? { corrected_at: now.toISOString(), corrected_by: request.teacherId || null }
+          : { check_in_method: 'teacher' })
+      };
+
+      const { data: saved, error } = existing
+        ? await this.supabase.from('attendance').update(changes).eq('id', existing.id).select().single()
+        : await this.supabase
+            .from('attendance')
+            .insert({
+              ...changes,
+              check_in_method: 'teacher',
+              booking_id: request.bookingId,
+              session_id: session.id,
+              attendance_time: now.toISOString(),
+              hours_deducted: 0
+            })
+            .select()
+            .single();
+
+      if (error) throw error;
+
+      if (!finalized) return { success: true, data: this.toRosterEntry(booking, saved) };
+
+      if (existing?.hour_transaction_id) {
+        const { error: reverseError } = await this.supabase.rpc('reverse_class_deduction', {
+          p_transaction_id: existing.hour_transaction_id,
+          p_reason: `Attendance corrected from ${existing.status} to ${request.status}`
+        });
+        if (reverseError) throw reverseError;
+      }
+
+      const deducted = await this.applyDeduction(booking, saved);
+      return { success: true, data: this.toRosterEntry(booking, { ...saved, ...deducted }) };
+    } catch (error) {
+      logger.error('Failed to mark attendance:', error);
+      return checkInError('MARK_ATTENDANCE_ERROR', 'Failed to save attendance', error);
+    }
+  }
+
+  /**
+   * Close check-in: students who never checked in are marked absent and
+   * every student's deduction is applied. Opens the correction window.
+   */
+  async finalizeSession(sessionId: string, now: Date = new Date()): Promise<HourApiResponse<AttendanceSweepResult>> {
+    try {
+      const session = await this.loadSession(sessionId);
+      if (!session) return checkInError('SESSION_NOT_FOUND', 'Check-in session not found');
+
+      const result: AttendanceSweepResult = { sessionsFinalized: 0, absencesMarked: 0, deductions: 0, errors: [] };
+      await this.finalize(session, now, result);
+      return { success: true, data: result };
+    } catch (error) {
+      logger.error('Failed to finalize attendance session:', error);
+      return checkInError('FINALIZE_SESSION_ERROR', 'Failed to close check-in', error);
+    }
+  }
+
+  /**
+   * Finalize sessions that ended a while ago. Sessions where check-in was
+   * never started are left for the teacher to record. Run on a schedule.
+   */
+  async sweepNoShows(now: Date = new Date()): Promise<AttendanceSweepResult> {
+    const result: AttendanceSweepResult = { sessionsFinalized: 0, absencesMarked: 0, deductions: 0, errors: [] };
+    const endedBefore = new Date(now.getTime() - ATTENDANCE_CHECK_IN.SWEEP_DELAY_MINUTES * MINUTE_MS);
+
+    const { data, error } = await this.supabase
+      .from('attendance_sessions')
+      .select('*')
+      .eq('status', 'open')
+      .lte('end_time', endedBefore.toISOString());
+
+    if (error) {
+      result.errors.push(error.message || 'Failed to fetch ended sessions');
+      return result;
+    }
+
+    for (const session of data || []) {
+      try {
+        await this.finalize(session, now, result);
+      } catch (sweepError) {
+        result.errors.push(sweepError instanceof Error ? sweepError.message : `Failed to finalize session ${session.id}`);
+      }
+    }
+
+    return result;
+  }
+
+  private async finalize(session: any, now: Date, result: AttendanceSweepResult): Promise<void> {
+    // Claim the session first so a concurrent sweep or teacher cannot finalize it twice
+    const { data: claimed, error: claimError } = await this.supabase
+      .from('attendance_sessions')
+      .update({
+        status: 'finalized',
+        finalized_at: now.toISOString(),
+        correction_deadline: new Date(now.getTime() + ATTENDANCE_CHECK_IN.CORRECTION_WINDOW_HOURS * 60 * MINUTE_MS).toISOString()
+      })
+      .eq('id', session.id)
+      .eq('status', 'open')
+      .select('id');
+
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) return;
+    result.sessionsFinalized++;
+
+    const { bookings, attendance } = await this.loadRoster(session);
+
+    for (const booking of bookings) {
+      try {
+        let record = attendance.get(booking.id);
+        if (!record) {
+          const { data, error } = await this.supabase
+            .from('attendance')
+            .insert({
+              booking_id: booking.id,
+              session_id: session.id,
+              attendance_time: now.toISOString(),
+              status: 'absent',
+              check_in_method: 'auto',
+              hours_deducted: 0
+            })
+            .select()
+            .single();
+
+          if (error) throw error;
+          record = data;
+          result.absencesMarked++;
+        }
+
+        if (!record.policy_id) {
+          const deducted = await this.applyDeduction(booking, record);
+          if (deducted.hour_transaction_id) result.deductions++;
+        }
+      } catch (bookingError) {
+        result.errors.push(
+          `Booking ${booking.id}: ${bookingError instanceof Error ? bookingError.message : (bookingError as any)?.message || 'failed'}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Deduct the class hours the student's attendance policy sets for the
+   * status, recording the policy version on the attendance
+   */
+  private async applyDeduction(booking: any, record: any): Promise<Record<string, any>> {
+    const decided = await this.policies.decideDeduction({
+      studentId: booking.student_id,
+      courseType: booking.class?.course?.course_type || undefined,
+      status: record.status,
+      sessionStart: booking.start_time,
+      attendanceId: record.id
+    });
+    if (!decided.success || !decided.data) {
+      throw new Error(decided.error?.message || 'Failed to apply the attendance policy');
+    }
+
+    const { rate } = decided.data;
+    const classHours = Math.ceil((booking.duration_minutes || 60) / 60);
+    let transactionId: string | null = null;
+
+    if (rate > 0) {
+      const { data, error } = await this.supabase.rpc('deduct_class_hours', {
+        p_student_id: booking.student_id,
+        p_class_id: booking.class_id,
+        p_booking_id: booking.id,
+        p_hours_to_deduct: classHours,
+        p_class_type: booking.class?.course?.course_type || null,
+        p_deduction_rate: rate
+      });
+      if (error) throw error;
+      transactionId = data;
+    }
+
+    const changes = {
+      status: decided.data.status,
+      hours_deducted: transactionId ? Math.ceil(classHours * rate) : 0,
+      hour_transaction_id: transactionId,
+      policy_id: decided.data.policyId,
+      policy_version: decided.data.policyVersion,
+      deduction_rate: rate,
+      deduction_reason: decided.data.reason
+    };
+
+    const { error } = await this.supabase
+      .from('attendance')
+      .update(changes)
+      .eq('id', record.id);
+
+    if (error) throw error;
+    return changes;
+  }
+
+  private async loadSession(sessionId: string): Promise<any | null> {
+    const { data, error } = await this.supabase
+      .from('attendance_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  private async loadRoster(session: any): Promise<{ bookings: any[]; attendance: Map<string, any> }> {
+    const { data: bookings, error } = await this.supabase
+      .from('bookings')
+      .select(ROSTER_SELECT)
+      .eq('class_id', session.class_id)
+      .eq('start_time', session.start_time)
+      .in('status', EXPECTED_BOOKING_STATUSES);
+
+    if (error) throw error;
+
+    const bookingIds = (bookings || []).map((booking: any) => booking.id);
+    if (bookingIds.length === 0) return { bookings: [], attendance: new Map() };
+
+    const { data: records, error: recordsError } = await this.supabase
+      .from('attendance')
+      .select('*')
+      .in('booking_id', bookingIds);
+
+    if (recordsError) throw recordsError;
+
+    return {
+      bookings: bookings || [],
+      attendance: new Map((records || []).map((record: any) => [record.booking_id, record]))
+    };
+  }
+
+  private gracePeriods(session: any): AttendanceGracePeriods {
+    return {
+      lateGraceMinutes: session.late_grace_minutes,
+      absentAfterMinutes: session.absent_after_minutes
+    };
+  }
+
+  private toRosterEntry(booking: any, record?: any): SessionRosterEntry {
+    return {
+      bookingId: booking.id,
+      studentId: booking.student_id,
+      studentName: booking.student?.full_name || 'Student',
+      attendanceId: record?.id,
+      status: record?.status,
+      checkInMethod: record?.check_in_method || undefined,
+      checkedInAt: record?.checked_in_at || undefined,
+      hoursDeducted: Number(record?.hours_deducted || 0),
+      policyVersion: record?.policy_version ?? undefined,
+      deductionReason: record?.deduction_reason || undefined
+    };
+  }
+
+  private transformSession(data: any): AttendanceSession {
+    return {
+      id: data.id,
+      classId: data.class_id,
+      className: data.class?.class_name || undefined,
+      startTime: data.start_time,
+      endTime: data.end_time,
+      deliveryMode: data.delivery_mode,
+      status: data.status,
+      lateGraceMinutes: data.late_grace_minutes,
+      absentAfterMinutes: data.absent_after_minutes,
+      openedAt: data.opened_at,
+      finalizedAt: data.finalized_at || undefined,
+      correctionDeadline: data.correction_deadline || undefined
+    };
+  }
+}
+
+// Export singleton instance
+export const attendanceCheckInService = new AttendanceCheckInService();
@@ -0,0 +1,759 @@
+/**
+ * Attendance Intervention Service
+ *
+ * Acts on chronic absence. A daily sweep assesses each student's recent
+ * attendance and opens a case when they cross a risk threshold: absences in
+ * a row, a low or falling attendance rate, or a projected dropout. The case
+ * goes to the class teacher with an outreach sequence (email, call, make-up
+ * offer). Once outreach is done the case is monitored, then closed with an
+ * outcome measured against the attendance rate when it opened.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import { ATTENDANCE_INTERVENTION } from '@/lib/constants';
+import { classAttendanceAnalyticsService } from './class-attendance-analytics-service';
+import { getEmailQueueService } from './email-queue-service';
+import { EmailPriority } from './email-service';
+import type { HourApiResponse } from '@/types/hours';
+import type { AttendanceStatus } from '@/types/attendance';
+import type {
+  AttendanceRiskAssessment,
+  CompleteInterventionStepRequest,
+  InterventionCase,
+  InterventionCaseStatus,
+  InterventionOutcome,
+  InterventionStep,
+  InterventionStepType,
+  InterventionSweepResult,
+  InterventionTrigger,
+  StudentAttendanceHistory
+} from '@/types/intervention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Weeks ahead the attendance prediction looks
+const PROJECTION_WEEKS = 4;
+
+// Rows per request when loading attendance; PostgREST caps a response at 1000
+const HISTORY_PAGE_SIZE = 1000;
+
+const UNIQUE_VIOLATION = '23505';
+
+const CASE_SELECT = '*, student:students(full_name), class:classes(class_name), teacher:teachers(full_name), steps:intervention_steps(*)';
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const attended = (status: AttendanceStatus) => status === 'present' || status === 'late';
+
+/**
+ * Attended share of sessions, or undefined below the minimum session count
+ */
+function attendanceRate(
+  sessions: StudentAttendanceHistory['sessions'],
+  minSessions: number = ATTENDANCE_INTERVENTION.MIN_SESSIONS
+): number | undefined {
+  if (sessions.length === 0 || sessions.length < minSessions) return undefined;
+  return sessions.filter(session => attended(session.status)).length / sessions.length;
+}
+
+/**
+ * Weekly attendance rates in percent, oldest first, as the analytics
+ * prediction takes them
+ */
+function weeklyAttendanceRates(sessions: StudentAttendanceHistory['sessions'], now: Date): Array<{ date: string; value: number }> {
+  const weeks = new Map<number, StudentAttendanceHistory['sessions']>();
+  for (const session of sessions) {
+    const weeksAgo = Math.floor((now.getTime() - new Date(session.startTime).getTime()) / WEEK_MS);
+    weeks.set(weeksAgo, [...(weeks.get(weeksAgo) || []), session]);
+  }
+
+  return [...weeks.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([weeksAgo, weekSessions]) => ({
+      date: new Date(now.getTime() - (weeksAgo + 1) * WEEK_MS).toISOString(),
+      value: (attendanceRate(weekSessions, 1) as number) * 100
+    }));
+}
+
+/**
+ * Risk triggers a student's attendance crosses. Excused sessions are ignored.
+ */
+export function assessAttendanceRisk(
+  sessions: StudentAttendanceHistory['sessions'],
+  now: Date = new Date()
+): AttendanceRiskAssessment {
+  const counted = sessions
+    .filter(session => session.status !== 'excused' && new Date(session.startTime).getTime() <= now.getTime())
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  const triggers: InterventionTrigger[] = [];
+
+  let consecutive = 0;
+  for (let index = counted.length - 1; index >= 0 && counted[index].status === 'absent'; index--) {
+    consecutive++;
+  }
+  if (consecutive >= ATTENDANCE_INTERVENTION.CONSECUTIVE_ABSENCES) {
+    triggers.push({ type: 'consecutive_absences', value: consecutive, detail: `${consecutive} absences in a row` });
+  }
+
+  const windowMs = ATTENDANCE_INTERVENTION.WINDOW_DAYS * DAY_MS;
+  const age = (session: { startTime: string }) => now.getTime() - new Date(session.startTime).getTime();
+  const recent = counted.filter(session => age(session) < windowMs);
+  const previous = counted.filter(session => age(session) >= windowMs && age(session) < 2 * windowMs);
+  const recentRate = attendanceRate(recent);
+  const previousRate = attendanceRate(previous);
+
+  if (recentRate !== undefined && recentRate < ATTENDANCE_INTERVENTION.MIN_ATTENDANCE_RATE) {
+    triggers.push({
+      type: 'low_attendance_rate',
+      value: recentRate,
+      detail: `Attended ${percent(recentRate)} of ${recent.length} sessions in the last ${ATTENDANCE_INTERVENTION.WINDOW_DAYS} days`
+    });
+  }
+
+  if (
+    recentRate !== undefined &&
+    previousRate !== undefined &&
+    previousRate - recentRate >= ATTENDANCE_INTERVENTION.RATE_DROP
+  ) {
+    triggers.push({
+      type: 'falling_attendance_rate',
+      value: recentRate,
+      detail: `Attendance fell from ${percent(previousRate)} to ${percent(recentRate)}`
+    });
+  }
+
+  // The prediction lies below the weekly average only when the trend falls
+  const weekly = weeklyAttendanceRates([...previous, ...recent], now);
+  const prediction = classAttendanceAnalyticsService.predictAttendanceRate(weekly);
+  const averageRate = weekly.reduce((sum, week) => sum + week.value, 0) / (weekly.length || 1);
+  const projected = prediction ? prediction.predictedValue / 100 : undefined;
+  if (
+    projected !== undefined &&
+    prediction!.predictedValue < averageRate &&
+    projected < ATTENDANCE_INTERVENTION.PREDICTED_DROPOUT_RATE
+  ) {
+    triggers.push({
+      type: 'predicted_dropout',
+      value: projected,
+      detail: `Attendance projected at ${percent(projected)} in ${PROJECTION_WEEKS} weeks`
+    });
+  }
+
+  const high = triggers.length >= 2 ||
+    triggers.some(trigger => trigger.type === 'predicted_dropout') ||
+    consecutive >= 2 * ATTENDANCE_INTERVENTION.CONSECUTIVE_ABSENCES;
+
+  return {
+    triggers,
+    riskLevel: triggers.length === 0 ? undefined : high ? 'high' : 'medium',
+    recentRate
+  };
+}
+
+/**
+ * Compare attendance since a case opened with the rate when it opened
+ */
+export function getInterventionOutcome(baselineRate?: number, currentRate?: number): InterventionOutcome {
+  if (currentRate === undefined) return 'withdrawn';
+  if (baselineRate === undefined) return 'no_change';
+  if (currentRate - baselineRate >= ATTENDANCE_INTERVENTION.IMPROVEMENT_MARGIN) return 'improved';
+  if (baselineRate - currentRate >= ATTENDANCE_INTERVENTION.IMPROVEMENT_MARGIN) return 'worsened';
+  return 'no_change';
+}
+
+/**
+ * The outreach sequence for a new case
+ */
+export function buildOutreachPlan(openedAt: Date): Array<{ type: InterventionStepType; sequence: number; dueAt: string }> {
+  const after = (days: number) => new Date(openedAt.getTime() + days * DAY_MS).toISOString();
+  return [
+    { type: 'email', sequence: 1, dueAt: openedAt.toISOString() },
+    { type: 'call', sequence: 2, dueAt: after(ATTENDANCE_INTERVENTION.CALL_AFTER_DAYS) },
+    { type: 'makeup_offer', sequence: 3, dueAt: after(ATTENDANCE_INTERVENTION.MAKEUP_OFFER_AFTER_DAYS) }
+  ];
+}
+
+function interventionError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class AttendanceInterventionService {
+  private supabase;
+  private mailer;
+
+  constructor(client: any = defaultClient, mailer: any = null) {
+    this.supabase = client;
+    this.mailer = mailer;
+  }
+
+  async listCases(filters: {
+    status?: InterventionCaseStatus[];
+    assignedTeacherId?: string;
+  } = {}): Promise<HourApiResponse<InterventionCase[]>> {
+    try {
+      let query = this.supabase
+        .from('intervention_cases')
+        .select(CASE_SELECT)
+        .order('opened_at', { ascending: false });
+
+      if (filters.status?.length) {
+        query = query.in('status', filters.status);
+      }
+      if (filters.assignedTeacherId) {
+        query = query.eq('assigned_teacher_id', filters.assignedTeacherId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((row: any) => this.transformCase(row)) };
+    } catch (error) {
+      return interventionError('FETCH_CASES_ERROR', 'Failed to fetch intervention cases', error);
+    }
+  }
+
+  /**
+   * Assess every student with recent attendance, open cases for those at
+   * risk, refresh the rate on active cases and close monitored cases whose
+   * follow-up date has passed. Run on a schedule.
+   */
+  async sweep(now: Date = new Date()): Promise<InterventionSweepResult> {
+    const result: InterventionSweepResult = { studentsAssessed: 0, casesOpened: 0, casesClosed: 0, errors: [] };
+
+    let histories: Map<string, StudentAttendanceHistory>;
+    let activeCases: any[];
+    let lastClosed: Map<string, string>;
+    try {
+      [histories, activeCases, lastClosed] = await Promise.all([
+        this.loadHistories(now),
+        this.loadActiveCases(),
+        this.loadLastClosed(now)
+      ]);
+    } catch (error) {
+      result.errors.push((error as any)?.message || 'Failed to load attendance');
+      return result;
+    }
+
+    for (const activeCase of activeCases) {
+      try {
+        const sessions = (histories.get(activeCase.student_id)?.sessions || []).filter(session =>
+          session.status !== 'excused' &&
+          new Date(session.startTime).getTime() >= new Date(activeCase.opened_at).getTime()
+        );
+        const currentRate = attendanceRate(sessions, 1);
+
+        if (activeCase.status === 'monitoring' && activeCase.follow_up_at && new Date(activeCase.follow_up_at).getTime() <= now.getTime()) {
+          await this.close(activeCase, {
+            outcome: getInterventionOutcome(this.toRate(activeCase.baseline_rate), currentRate),
+            notes: 'Closed automatically after the follow-up period'
+          }, now);
+          result.casesClosed++;
+        } else {
+          const { error } = await this.supabase
+            .from('intervention_cases')
+            .update({ current_rate: currentRate ?? null })
+            .eq('id', activeCase.id);
+
+          if (error) throw error;
+        }
+      } catch (caseError) {
+        result.errors.push(`Case ${activeCase.id}: ${(caseError as any)?.message || 'failed'}`);
+      }
+    }
+
+    const withCase = new Set(activeCases.map(activeCase => activeCase.student_id));
+    for (const history of histories.values()) {
+      if (withCase.has(history.studentId)) continue;
+      result.studentsAssessed++;
+
+      try {
+        // Attendance already weighed by a closed case does not reopen one
+        const closedAt = lastClosed.get(history.studentId);
+        const sessions = closedAt
+          ? history.sessions.filter(session => new Date(session.startTime).getTime() > new Date(closedAt).getTime())
+          : history.sessions;
+        const assessment = assessAttendanceRisk(sessions, now);
+        if (!assessment.riskLevel) continue;
+
+        const opened = await this.openCase({ ...history, sessions }, assessment, now);
+        if (opened) result.casesOpened++;
+      } catch (studentError) {
+        result.errors.push(`Student ${history.studentId}: ${(studentError as any)?.message || 'failed'}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Record an outreach step as done. A make-up offer emails the student the
+   * class offered. The case moves to monitoring after its last step.
+   */
+  async completeStep(
+    stepId: string,
+    request: CompleteInterventionStepRequest = {},
+    now: Date = new Date()
+  ): Promise<HourApiResponse<InterventionCase>> {
+    try {
+      const step = await this.loadPendingStep(stepId);
+      if ('error' in step) return step.error;
+
+      if (step.step_type === 'makeup_offer') {
+        if (!request.makeUpClassId) {
+          return interventionError('MAKEUP_CLASS_REQUIRED', 'Choose the class to offer as a make-up');
+        }
+        await this.sendMakeUpOffer(step.case.student_id, request.makeUpClassId);
+      }
+      if (step.step_type === 'email') {
+        await this.sendCheckInEmail(step.case.student_id);
+      }
+
+      const { error } = await this.supabase
+        .from('intervention_steps')
+        .update({
+          status: 'done',
+          completed_at: now.toISOString(),
+          completed_by: request.completedBy || await this.currentUserId(),
+          notes: request.notes || null,
+          call_outcome: request.callOutcome || null,
+          makeup_class_id: request.makeUpClassId || null
+        })
+        .eq('id', stepId)
+        .eq('status', 'pending');
+
+      if (error) throw error;
+
+      return this.advanceCase(step.case_id, now);
+    } catch (error) {
+      logger.error('Failed to complete intervention step:', error);
+      return interventionError('COMPLETE_STEP_ERROR', 'Failed to record the outreach step', error);
+    }
+  }
+
+  async skipStep(stepId: string, notes?: string, skippedBy?: string, now: Date = new Date()): Promise<HourApiResponse<InterventionCase>> {
+    try {
+      const step = await this.loadPendingStep(stepId);
+      if ('error' in step) return step.error;
+
+      const { error } = await this.supabase
+        .from('intervention_steps')
+        .update({
+          status: 'skipped',
+          completed_at: now.toISOString(),
+          completed_by: skippedBy || await this.currentUserId(),
+          notes: notes || null
+        })
+        .eq('id', stepId)
+        .eq('status', 'pending');
+
+      if (error) throw error;
+
+      return this.advanceCase(step.case_id, now);
+    } catch (error) {
+      return interventionError('SKIP_STEP_ERROR', 'Failed to skip the outreach step', error);
+    }
+  }
+
+  async assignCase(caseId: string, assignee: { teacherId?: string; adminId?: string }): Promise<HourApiResponse<InterventionCase>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('intervention_cases')
+        .update({
+          assigned_teacher_id: assignee.teacherId || null,
+          assigned_admin_id: assignee.teacherId ? null : assignee.adminId || null
+        })
+        .eq('id', caseId)
+        .select(CASE_SELECT)
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: this.transformCase(data) };
+    } catch (error) {
+      return interventionError('ASSIGN_CASE_ERROR', 'Failed to assign the case', error);
+    }
+  }
+
+  /**
+   * Assign a case to the signed-in admin
+   */
+  async takeOverCase(caseId: string): Promise<HourApiResponse<InterventionCase>> {
+    const adminId = await this.currentUserId();
+    if (!adminId) return interventionError('UNAUTHENTICATED', 'Sign in to take over a case');
+    return this.assignCase(caseId, { adminId });
+  }
+
+  /**
+   * Close a case. The outcome is measured from attendance unless given.
+   */
+  async closeCase(
+    caseId: string,
+    request: { outcome?: InterventionOutcome; notes?: string; closedBy?: string } = {},
+    now: Date = new Date()
+  ): Promise<HourApiResponse<InterventionCase>> {
+    try {
+      const { data: activeCase, error } = await this.supabase
+        .from('intervention_cases')
+        .select('id, status, baseline_rate, current_rate')
+        .eq('id', caseId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!activeCase) return interventionError('CASE_NOT_FOUND', 'Intervention case not found');
+      if (activeCase.status === 'closed') return interventionError('CASE_CLOSED', 'This case is already closed');
+
+      const closed = await this.close(activeCase, {
+        outcome: request.outcome || getInterventionOutcome(this.toRate(activeCase.baseline_rate), this.toRate(activeCase.current_rate)),
+        notes: request.notes,
+        closedBy: request.closedBy || await this.currentUserId()
+      }, now);
+
+      return { success: true, data: closed };
+    } catch (error) {
+      return interventionError('CLOSE_CASE_ERROR', 'Failed to close the case', error);
+    }
+  }
+
+  /**
+   * Other classes of the same course, to offer as a make-up
+   */
+  async getMakeUpClasses(caseId: string): Promise<HourApiResponse<Array<{ id: string; className: string }>>> {
+    try {
+      const { data: activeCase, error: caseError } = await this.supabase
+        .from('intervention_cases')
+        .select('class_id, class:classes(course_id)')
+        .eq('id', caseId)
+        .single();
+
+      if (caseError) throw caseError;
+      if (!activeCase?.class?.course_id) return { success: true, data: [] };
+
+      const { data, error } = await this.supabase
+        .from('classes')
+        .select('id, class_name')
+        .eq('course_id', activeCase.class.course_id)
+        .neq('id', activeCase.class_id)
+        .order('class_name');
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map((row: any) => ({ id: row.id, className: row.class_name }))
+      };
+    } catch (error) {
+      return interventionError('FETCH_MAKEUP_CLASSES_ERROR', 'Failed to fetch make-up classes', error);
+    }
+  }
+
+  private async openCase(
+    history: StudentAttendanceHistory,
+    assessment: AttendanceRiskAssessment,
+    now: Date
+  ): Promise<InterventionCase | null> {
+    const lastAbsence = [...history.sessions].reverse().find(session => session.status === 'absent') ||
+      history.sessions[history.sessions.length - 1];
+
+    const { data: opened, error } = await this.supabase
+      .from('intervention_cases')
+      .insert({
+        student_id: history.studentId,
+        class_id: lastAbsence?.classId || null,
+        risk_level: assessment.riskLevel,
+        triggers: assessment.triggers,
+        baseline_rate: assessment.recentRate ?? null,
+        assigned_teacher_id: lastAbsence?.teacherId || null,
+        opened_at: now.toISOString()
+      })
+      .select('id')
+      .single();
+
+    // Another sweep opened one first
+    if (error?.code === UNIQUE_VIOLATION) return null;
+    if (error) throw error;
+
+    const plan = buildOutreachPlan(now);
+    const { error: stepsError } = await this.supabase
+      .from('intervention_steps')
+      .insert(plan.map(step => ({
+        case_id: opened.id,
+        step_type: step.type,
+        sequence: step.sequence,
+        due_at: step.dueAt
+      })));
+
+    if (stepsError) throw stepsError;
+
+    // The first email goes out straight away
+    await this.sendCheckInEmail(history.studentId);
+    const { error: emailStepError } = await this.supabase
+      .from('intervention_steps')
+      .update({ status: 'done', completed_at: now.toISOString(), notes: 'Sent automatically when the case opened' })
+      .eq('case_id', opened.id)
+      .eq('sequence', 1);
+
+    if (emailStepError) throw emailStepError;
+
+    return this.loadCase(opened.id);
+  }
+
+  private async advanceCase(caseId: string, now: Date): Promise<HourApiResponse<InterventionCase>> {
+    const { data: pending, error } = await this.supabase
+      .from('intervention_steps')
+      .select('id')
+      .eq('case_id', caseId)
+      .eq('status', 'pending');
+
+    if (error) throw error;
+
+    if ((pending || []).length === 0) {
+      const { error: updateError } = await this.supabase
+        .from('intervention_cases')
+        .update({
+          status: 'monitoring',
+          follow_up_at: new Date(now.getTime() + ATTENDANCE_INTERVENTION.FOLLOW_UP_DAYS * DAY_MS).toISOString()
+        })
+        .eq('id', caseId)
+        .eq('status', 'open');
+
+      if (updateError) throw updateError;
+    }
+
+    return { success: true, data: await this.loadCase(caseId) };
+  }
+
+  private async close(
+    activeCase: any,
+    request: { outcome: InterventionOutcome; notes?: string; closedBy?: string },
+    now: Date
+  ): Promise<InterventionCase> {
+    const { error } = await this.supabase
+      .from('intervention_cases')
+      .update({
+        status: 'closed',
+        closed_at: now.toISOString(),
+        closed_by: request.closedBy || null,
+        outcome: request.outcome,
+        outcome_notes: request.notes || null
+      })
+      .eq('id', activeCase.id)
+      .neq('status', 'closed');
+
+    if (error) throw error;
+
+    // Outreach left undone when a case closes early is moot
+    const { error: stepsError } = await this.supabase
+      .from('intervention_steps')
+      .update({ status: 'skipped', completed_at: now.toISOString(), notes: 'Case closed' })
+      .eq('case_id', activeCase.id)
+      .eq('status', 'pending');
+
+    if (stepsError) throw stepsError;
+
+    return this.loadCase(activeCase.id);
+  }
+
+  private async loadPendingStep(stepId: string): Promise<any | { error: HourApiResponse<InterventionCase> }> {
+    const { data: step, error } = await this.supabase
+      .from('intervention_steps')
+      .select('*, case:intervention_cases(id, student_id, status)')
+      .eq('id', stepId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!step) return { error: interventionError('STEP_NOT_FOUND', 'Outreach step not found') };
+    if (step.status !== 'pending') return { error: interventionError('STEP_NOT_PENDING', 'This step has already been recorded') };
+    if (step.case?.status === 'closed') return { error: interventionError('CASE_CLOSED', 'This case is closed') };
+    return step;
+  }
+
+  private async loadCase(caseId: string): Promise<InterventionCase> {
+    const { data, error } = await this.supabase
+      .from('intervention_cases')
+      .select(CASE_SELECT)
+      .eq('id', caseId)
+      .single();
+
+    if (error) throw error;
+    return this.transformCase(data);
+  }
+
+  private async loadActiveCases(): Promise<any[]> {
+    const { data, error } = await this.supabase
+      .from('intervention_cases')
+      .select('id, student_id, status, opened_at, follow_up_at, baseline_rate')
+      .neq('status', 'closed');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * When each student's latest case closed, for cases closed within the last
+   * two assessment windows
+   */
+  private async loadLastClosed(now: Date): Promise<Map<string, string>> {
+    const since = new Date(now.getTime() - 2 * ATTENDANCE_INTERVENTION.WINDOW_DAYS * DAY_MS);
+    const { data, error } = await this.supabase
+      .from('intervention_cases')
+      .select('student_id, closed_at')
+      .eq('status', 'closed')
+      .gte('closed_at', since.toISOString());
+
+    if (error) throw error;
+
+    const lastClosed = new Map<string, string>();
+    for (const row of data || []) {
+      const previous = lastClosed.get(row.student_id);
+      if (!previous || new Date(row.closed_at).getTime() > new Date(previous).getTime()) {
+        lastClosed.set(row.student_id, row.closed_at);
+      }
+    }
+    return lastClosed;
+  }
+
+  /**
+   * Attendance over the last two assessment windows, per student. Loaded a
+   * page at a time so no rows are cut off by the response limit.
+   */
+  private async loadHistories(now: Date): Promise<Map<string, StudentAttendanceHistory>> {
+    const since = new Date(now.getTime() - 2 * ATTENDANCE_INTERVENTION.WINDOW_DAYS * DAY_MS);
+    const rows: any[] = [];
+
+    for (let from = 0; ; from += HISTORY_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('attendance')
+        .select('id, status, booking:bookings!inner(student_id, class_id, start_time, substitute_teacher_id, class:classes(teacher_id))')
+        .gte('booking.start_time', since.toISOString())
+        .lte('booking.start_time', now.toISOString())
+        .order('id', { ascending: true })
+        .range(from, from + HISTORY_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      rows.push(...(data || []));
+      if (!data || data.length < HISTORY_PAGE_SIZE) break;
+    }
+
+    const histories = new Map<string, StudentAttendanceHistory>();
+    for (const row of rows) {
+      const studentId = row.booking.student_id;
+      const history = histories.get(studentId) || { studentId, sessions: [] };
+      history.sessions.push({
+        status: row.status,
+        startTime: row.booking.start_time,
+        classId: row.booking.class_id,
+        teacherId: row.booking.class?.teacher_id || undefined
+      });
+      histories.set(studentId, history);
+    }
+
+    for (const history of histories.values()) {
+      history.sessions.sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+    }
+    return histories;
+  }
+
+  private async sendCheckInEmail(studentId: string): Promise<void> {
+    try {
+      const { data: student } = await this.supabase
+        .from('students')
+        .select('email, full_name')
+        .eq('id', studentId)
+        .maybeSingle();
+
+      if (!student?.email) return;
+
+      const mailer = this.mailer || getEmailQueueService();
+      await mailer.addToQueue({
+        to: [{ email: student.email, name: student.full_name }],
+        subject: 'We have missed you in class',
+        html: `<p>Hi ${student.full_name || 'there'},</p>
+<p>We noticed you have missed some classes recently and wanted to check in. If something is getting in the way, reply to this email and your teacher will help you find a way back, including a make-up class.</p>`,
+        text: `Hi ${student.full_name || 'there'}, we noticed you have missed some classes recently. Reply to this email and your teacher will help you find a way back, including a make-up class.`,
+        priority: EmailPriority.NORMAL,
+        tags: ['attendance', 'intervention']
+      }, { priority: EmailPriority.NORMAL, maxAttempts: 3 });
+    } catch (error) {
+      logger.error('Failed to send attendance check-in email:', error);
+    }
+  }
+
+  private async sendMakeUpOffer(studentId: string, classId: string): Promise<void> {
+    const [{ data: student }, { data: makeUpClass }] = await Promise.all([
+      this.supabase.from('students').select('email, full_name').eq('id', studentId).maybeSingle(),
+      this.supabase.from('classes').select('class_name').eq('id', classId).maybeSingle()
+    ]);
+
+    if (!student?.email) return;
+
+    const className = makeUpClass?.class_name || 'another class';
+    const link = `${process.env.NEXT_PUBLIC_APP_URL || ''}/student`;
+    const mailer = this.mailer || getEmailQueueService();
+
+    await mailer.addToQueue({
+      to: [{ email: student.email, name: student.full_name }],
+      subject: `A make-up class for you: ${className}`,
+      html: `<p>Hi ${student.full_name || 'there'},</p>
+<p>To help you catch up on what you missed, you are welcome to join <strong>${className}</strong> as a make-up class.</p>
+<p><a href="${link}">Book it from your dashboard</a>.</p>`,
+      text: `To help you catch up, you are welcome to join ${className} as a make-up class. Book it from your dashboard: ${link}`,
+      priority: EmailPriority.NORMAL,
+      tags: ['attendance', 'intervention', 'makeup']
+    }, { priority: EmailPriority.NORMAL, maxAttempts: 3 });
+  }
+
+  private async currentUserId(): Promise<string | null> {
+    const { data } = await this.supabase.auth.getUser();
+    return data?.user?.id || null;
+  }
+
+  private toRate(value: any): number | undefined {
+    return value === null || value === undefined ? undefined : Number(value);
+  }
+
+  private transformStep(data: any): InterventionStep {
+    return {
+      id: data.id,
+      caseId: data.case_id,
+      type: data.step_type,
+      sequence: data.sequence,
+      status: data.status,
+      dueAt: data.due_at,
+      completedAt: data.completed_at || undefined,
+      completedBy: data.completed_by || undefined,
+      notes: data.notes || undefined,
+      callOutcome: data.call_outcome || undefined,
+      makeUpClassId: data.makeup_class_id || undefined
+    };
+  }
+
+  private transformCase(data: any): InterventionCase {
+    return {
+      id: data.id,
+      studentId: data.student_id,
+      studentName: data.student?.full_name || undefined,
+      classId: data.class_id || undefined,
+      className: data.class?.class_name || undefined,
+      status: data.status,
+      riskLevel: data.risk_level,
+      triggers: data.triggers || [],
+      baselineRate: this.toRate(data.baseline_rate),
+      currentRate: this.toRate(data.current_rate),
+      assignedTeacherId: data.assigned_teacher_id || undefined,
+      assignedAdminId: data.assigned_admin_id || undefined,
+      assigneeName: data.teacher?.full_name || (data.assigned_admin_id ? 'Admin' : undefined),
+      openedAt: data.opened_at,
+      followUpAt: data.follow_up_at || undefined,
+      closedAt: data.closed_at || undefined,
+      outcome: data.outcome || undefined,
+      outcomeNotes: data.outcome_notes || undefined,
+      steps: (data.steps || [])
+        .map((step: any) => this.transformStep(step))
+        .sort((a: InterventionStep, b: InterventionStep) => a.sequence - b.sequence)
+    };
+  }
+}
+
+// Export singleton instance
+export const attendanceInterventionService = new AttendanceInterventionService();
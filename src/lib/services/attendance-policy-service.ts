@@ -0,0 +1,353 @@
+/**
+ * Attendance Policy Service
+ *
+ * Decides how many of a class's hours an attendance status costs. Policies
+ * are declared per course type and package tier, and the most specific one
+ * in effect at the session's start applies. Policies are versioned: changing
+ * one publishes a new version, and every deduction records the version that
+ * produced it.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import type { HourApiResponse } from '@/types/hours';
+import type {
+  AttendanceDeductionDecision,
+  AttendancePolicy,
+  AttendanceStatus,
+  PackageTier,
+  PublishAttendancePolicyRequest
+} from '@/types/attendance';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const PACKAGE_TIERS: PackageTier[] = ['standard', 'premium', 'corporate', 'trial', 'custom'];
+
+// Leave requests that count as notice of an absence
+const NOTICE_LEAVE_STATUSES = ['pending', 'approved'];
+
+const STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: 'Present',
+  late: 'Late',
+  absent: 'Absent',
+  excused: 'Excused'
+};
+
+/**
+ * Package tier of an hour package type, e.g. premium_20 -> premium
+ */
+export function getPackageTier(packageType?: string | null): PackageTier | undefined {
+  const tier = packageType?.split('_')[0] as PackageTier | undefined;
+  return tier && PACKAGE_TIERS.includes(tier) ? tier : undefined;
+}
+
+/**
+ * The policy in effect at a moment for a course type and tier. A policy for
+ * both beats one for the course type, which beats one for the tier, which
+ * beats the default.
+ */
+export function selectAttendancePolicy(
+  policies: AttendancePolicy[],
+  courseType: string | undefined,
+  packageTier: PackageTier | undefined,
+  at: Date
+): AttendancePolicy | null {
+  const time = at.getTime();
+  const specificity = (policy: AttendancePolicy) => (policy.courseType ? 2 : 0) + (policy.packageTier ? 1 : 0);
+
+  return policies
+    .filter(policy =>
+      (!policy.courseType || policy.courseType === courseType) &&
+      (!policy.packageTier || policy.packageTier === packageTier) &&
+      new Date(policy.effectiveFrom).getTime() <= time &&
+      (!policy.supersededAt || new Date(policy.supersededAt).getTime() > time)
+    )
+    .sort((a, b) => specificity(b) - specificity(a))[0] || null;
+}
+
+/**
+ * Apply a policy to an attendance status. An absence notified far enough
+ * ahead becomes excused; excused absences past the monthly limit are charged
+ * as absent.
+ */
+export function decideAttendanceDeduction(
+  policy: AttendancePolicy,
+  context: {
+    status: AttendanceStatus;
+    /** How far ahead of the session the absence was notified */
+    noticeHours?: number;
+    /** Excused absences already recorded this month */
+    excusedThisMonth?: number;
+  }
+): AttendanceDeductionDecision {
+  let status = context.status;
+  let rateStatus: AttendanceStatus = status;
+  const reasons: string[] = [];
+
+  if (
+    status === 'absent' &&
+    policy.excuseNoticeHours !== undefined &&
+    context.noticeHours !== undefined &&
+    context.noticeHours >= policy.excuseNoticeHours
+  ) {
+    status = 'excused';
+    rateStatus = 'excused';
+    reasons.push(`absence notified ${Math.floor(context.noticeHours)}h ahead`);
+  }
+
+  if (
+    status === 'excused' &&
+    policy.maxExcusedPerMonth !== undefined &&
+    (context.excusedThisMonth || 0) >= policy.maxExcusedPerMonth
+  ) {
+    rateStatus = 'absent';
+    reasons.push(`over the limit of ${policy.maxExcusedPerMonth} excused absences a month, charged as absent`);
+  }
+
+  const rate = policy.rates[rateStatus];
+  const detail = reasons.length > 0 ? ` (${reasons.join('; ')})` : '';
+
+  return {
+    policyId: policy.id,
+    policyVersion: policy.version,
+    status,
+    rate,
+    reason: `${STATUS_LABELS[status]}${detail}: ${Math.round(rate * 100)}% of class hours under policy v${policy.version}`
+  };
+}
+
+function policyError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class AttendancePolicyService {
+  private supabase;
+
+  constructor(client: any = defaultClient) {
+    this.supabase = client;
+  }
+
+  /**
+   * Current policies, or every version with includeHistory
+   */
+  async listPolicies(options: { includeHistory?: boolean } = {}): Promise<HourApiResponse<AttendancePolicy[]>> {
+    try {
+      let query = this.supabase
+        .from('attendance_policies')
+        .select('*')
+        .order('course_type', { ascending: true, nullsFirst: true })
+        .order('package_tier', { ascending: true, nullsFirst: true })
+        .order('version', { ascending: false });
+
+      if (!options.includeHistory) {
+        query = query.is('superseded_at', null);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((row: any) => this.transformPolicy(row)) };
+    } catch (error) {
+      return policyError('FETCH_POLICIES_ERROR', 'Failed to fetch attendance policies', error);
+    }
+  }
+
+  /**
+   * Publish a new version for a course type and tier. The current version
+   * stays in effect for sessions before the new one's effective date.
+   */
+  async publishPolicy(request: PublishAttendancePolicyRequest): Promise<HourApiResponse<AttendancePolicy>> {
+    const rates = Object.values(request.rates);
+    if (rates.length !== 4 || rates.some(rate => !Number.isFinite(rate) || rate < 0)) {
+      return policyError('INVALID_POLICY', 'Every status needs a deduction rate of 0 or more');
+    }
+    if (request.packageTier && !PACKAGE_TIERS.includes(request.packageTier)) {
+      return policyError('INVALID_POLICY', `Unknown package tier ${request.packageTier}`);
+    }
+
+    try {
+      const { data: user } = await this.supabase.auth.getUser();
+      const effectiveFrom = request.effectiveFrom || new Date().toISOString();
+
+      let currentQuery = this.supabase
+        .from('attendance_policies')
+        .select('id, version')
+        .is('superseded_at', null);
+      currentQuery = request.courseType ? currentQuery.eq('course_type', request.courseType) : currentQuery.is('course_type', null);
+      currentQuery = request.packageTier ? currentQuery.eq('package_tier', request.packageTier) : currentQuery.is('package_tier', null);
+
+      const { data: current, error: currentError } = await currentQuery.maybeSingle();
+      if (currentError) throw currentError;
+
+      const { data, error } = await this.supabase
+        .from('attendance_policies')
+        .insert({
+          course_type: request.courseType || null,
+          package_tier: request.packageTier || null,
+          version: (current?.version || 0) + 1,
+          present_rate: request.rates.present,
+          late_rate: request.rates.late,
+          absent_rate: request.rates.absent,
+          excused_rate: request.rates.excused,
+          excuse_notice_hours: request.excuseNoticeHours ?? null,
+          max_excused_per_month: request.maxExcusedPerMonth ?? null,
+          effective_from: effectiveFrom,
+          notes: request.notes || null,
+          created_by: user?.user?.id || null
+        })
+        .select()
+        .single();
+
+      // The version index rejects a concurrent publish for the same scope
+      if (error) throw error;
+
+      if (current) {
+        const { error: supersedeError } = await this.supabase
+          .from('attendance_policies')
+          .update({ superseded_at: effectiveFrom })
+          .eq('id', current.id);
+
+        if (supersedeError) throw supersedeError;
+      }
+
+      return { success: true, data: this.transformPolicy(data) };
+    } catch (error) {
+      return policyError('PUBLISH_POLICY_ERROR', 'Failed to publish the attendance policy', error);
+    }
+  }
+
+  /**
+   * Decide the deduction for a student's attendance at a session under the
+   * policy in effect when it started
+   */
+  async decideDeduction(request: {
+    studentId: string;
+    courseType?: string;
+    status: AttendanceStatus;
+    sessionStart: string;
+    /** Left out of the student's excused count */
+    attendanceId?: string;
+  }): Promise<HourApiResponse<AttendanceDeductionDecision>> {
+    try {
+      const sessionStart = new Date(request.sessionStart);
+
+      const [{ data: policies, error }, packageTier] = await Promise.all([
+        this.supabase
+          .from('attendance_policies')
+          .select('*')
+          .lte('effective_from', sessionStart.toISOString()),
+        this.getPackageTier(request.studentId)
+      ]);
+
+      if (error) throw error;
+
+      const policy = selectAttendancePolicy(
+        (policies || []).map((row: any) => this.transformPolicy(row)),
+        request.courseType,
+        packageTier,
+        sessionStart
+      );
+      if (!policy) {
+        return policyError('NO_ATTENDANCE_POLICY', 'No attendance policy applies to this session');
+      }
+
+      const noticeHours = request.status === 'absent' && policy.excuseNoticeHours !== undefined
+        ? await this.getNoticeHours(request.studentId, sessionStart)
+        : undefined;
+
+      const excusable = request.status === 'excused' ||
+        (noticeHours !== undefined && noticeHours >= (policy.excuseNoticeHours as number));
+      const excusedThisMonth = excusable && policy.maxExcusedPerMonth !== undefined
+        ? await this.countExcusedThisMonth(request.studentId, sessionStart, request.attendanceId)
+        : 0;
+
+      return {
+        success: true,
+        data: decideAttendanceDeduction(policy, { status: request.status, noticeHours, excusedThisMonth })
+      };
+    } catch (error) {
+      return policyError('DECIDE_DEDUCTION_ERROR', 'Failed to apply the attendance policy', error);
+    }
+  }
+
+  /**
+   * Tier of the package the student's hours are drawn from next
+   */
+  private async getPackageTier(studentId: string): Promise<PackageTier | undefined> {
+    const { data } = await this.supabase
+      .from('hour_purchases')
+      .select('valid_until, package:hour_packages(package_type)')
+      .eq('student_id', studentId)
+      .eq('is_active', true)
+      .eq('is_expired', false)
+      .eq('payment_status', 'completed')
+      .gt('hours_remaining', 0)
+      .order('valid_until', { ascending: true });
+
+    return getPackageTier(data?.[0]?.package?.package_type);
+  }
+
+  /**
+   * Hours between the earliest leave request covering the session and its start
+   */
+  private async getNoticeHours(studentId: string, sessionStart: Date): Promise<number | undefined> {
+    const sessionDate = sessionStart.toISOString().split('T')[0];
+    const { data, error } = await this.supabase
+      .from('leave_requests')
+      .select('created_at')
+      .eq('student_id', studentId)
+      .in('status', NOTICE_LEAVE_STATUSES)
+      .lte('start_date', sessionDate)
+      .gte('end_date', sessionDate)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    if (!data?.[0]?.created_at) return undefined;
+
+    return (sessionStart.getTime() - new Date(data[0].created_at).getTime()) / HOUR_MS;
+  }
+
+  private async countExcusedThisMonth(studentId: string, sessionStart: Date, excludeAttendanceId?: string): Promise<number> {
+    const monthStart = new Date(Date.UTC(sessionStart.getUTCFullYear(), sessionStart.getUTCMonth(), 1));
+    const monthEnd = new Date(Date.UTC(sessionStart.getUTCFullYear(), sessionStart.getUTCMonth() + 1, 1));
+
+    let query = this.supabase
+      .from('attendance')
+      .select('id, booking:bookings!inner(student_id, start_time)')
+      .eq('status', 'excused')
+      .eq('booking.student_id', studentId)
+      .gte('booking.start_time', monthStart.toISOString())
+      .lt('booking.start_time', monthEnd.toISOString());
+
+    if (excludeAttendanceId) {
+      query = query.neq('id', excludeAttendanceId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).length;
+  }
+
+  private transformPolicy(data: any): AttendancePolicy {
+    return {
+      id: data.id,
+      courseType: data.course_type || undefined,
+      packageTier: data.package_tier || undefined,
+      version: data.version,
+      rates: {
+        present: Number(data.present_rate),
+        late: Number(data.late_rate),
+        absent: Number(data.absent_rate),
+        excused: Number(data.excused_rate)
+      },
+      excuseNoticeHours: data.excuse_notice_hours ?? undefined,
+      maxExcusedPerMonth: data.max_excused_per_month ?? undefined,
+      effectiveFrom: data.effective_from,
+      supersededAt: data.superseded_at || undefined,
+      notes: data.notes || undefined,
+      createdAt: data.created_at
+    };
+  }
+}
+
+// Export singleton instance
+export const attendancePolicyService = new AttendancePolicyService();
@@ -17,10 +17,11 @@ export const postponementSchema = z.object({
   student_id: z.string().uuid(),
   class_id: z.string().uuid(),
   teacher_id: z.string().uuid().optional(),
-  leave_request_id: z.string().uuid(),
+  leave_request_id: z.string().uuid().optional(),
+  closure_id: z.string().uuid().optional(),
   original_start_time: z.string().datetime(),
   original_end_time: z.string().datetime(),
-  postponement_reason: z.enum(['student_leave', 'teacher_unavailable', 'emergency', 'system_maintenance', 'other']),
+  postponement_reason: z.enum(['student_leave', 'teacher_unavailable', 'emergency', 'system_maintenance', 'academy_closure', 'other']),
   postponement_type: z.enum(['automatic', 'manual']),
   status: z.enum(['pending', 'confirmed', 'make_up_scheduled', 'cancelled', 'completed']),
   hours_affected: z.number().default(0),
@@ -133,6 +134,16 @@ export interface MakeUpClassApprovalRequest {
   admin_notes?: string;
 }
 
+export interface ClosurePostponementRequest {
+  closure_id: string;
+  title: string;
+  starts_at: string;
+  /** Exclusive end of the closure */
+  ends_at: string;
+  /** Locations the closure applies to; empty means every location */
+  locations: string[];
+}
+
 export class AutoPostponementService {
   private static instance: AutoPostponementService;
   private postponementService: CRUDService<ClassPostponement>;
@@ -182,6 +193,55 @@ export class AutoPostponementService {
     return data;
   }
 
+  /**
+   * Flag confirmed bookings that fall in a closure for postponement. The
+   * bookings stay in place until an admin confirms each postponement.
+   */
+  async flagClassesForClosure(request: ClosurePostponementRequest): Promise<ClassPostponement[]> {
+    return withRetry(async () => {
+      const { data: bookings, error } = await supabase
+        .from('bookings')
+        .select('id, student_id, class_id, start_time, end_time, classes!inner(teacher_id, location)')
+        .eq('status', 'confirmed')
+        .lt('start_time', request.ends_at)
+        .gt('end_time', request.starts_at);
+
+      if (error) {
+        throw new Error(`Failed to fetch bookings in closure: ${error.message}`);
+      }
+
+      const affected = (bookings || []).filter((booking: any) =>
+        request.locations.length === 0 || request.locations.includes(booking.classes?.location)
+      );
+      if (affected.length === 0) return [];
+
+      // Bookings already postponed for another reason keep that postponement
+      const { data, error: insertError } = await supabase
+        .from('class_postponements')
+        .upsert(affected.map((booking: any) => ({
+          booking_id: booking.id,
+          student_id: booking.student_id,
+          class_id: booking.class_id,
+          teacher_id: booking.classes?.teacher_id,
+          closure_id: request.closure_id,
+          original_start_time: booking.start_time,
+          original_end_time: booking.end_time,
+          postponement_reason: 'academy_closure',
+          postponement_type: 'automatic',
+          status: 'pending',
+          hours_affected: (new Date(booking.end_time).getTime() - new Date(booking.start_time).getTime()) / 3600000,
+          notes: `Falls in closure: ${request.title}`,
+        })), { onConflict: 'booking_id', ignoreDuplicates: true })
+        .select();
+
+      if (insertError) {
+        throw new Error(`Failed to flag classes for postponement: ${insertError.message}`);
+      }
+
+      return data || [];
+    });
+  }
+
   /**
    * Get postponement summary with enriched data
    */
@@ -0,0 +1,670 @@
+/**
+ * Billing Document Service
+ *
+ * Issues sequentially numbered invoices, receipts and credit notes for hour
+ * purchases, and renders them to HTML and PDF. Documents are inserted by the
+ * `issue_billing_document` RPC, which allocates the number in the same
+ * transaction so each document type has its own gapless yearly sequence.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import { escapeHtml } from '@/lib/utils/security';
+import { PdfDocument, PDF_PAGE_WIDTH } from '@/lib/utils/pdf-document';
+import type { HourApiResponse } from '@/types/hours';
+import {
+  BILLING_DOCUMENT_LABELS,
+  DEFAULT_BILLING_SETTINGS,
+  type BillingDocument,
+  type BillingDocumentType,
+  type BillingLineItem,
+  type BillingParty,
+  type BillingSettings,
+  type BillingTotals,
+  type TaxRule
+} from '@/types/billing';
+
+// Methods where the invoice is issued before payment arrives
+const DEFERRED_PAYMENT_METHODS = ['bank_transfer', 'corporate_invoice'];
+
+function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+/**
+ * Calculate subtotal, tax lines and total for a set of line items.
+ *
+ * Inclusive taxes are extracted from the line amounts; exclusive taxes
+ * are added on top of the net amount.
+ */
+export function calculateBillingTotals(lineItems: BillingLineItem[], taxRules: TaxRule[]): BillingTotals {
+  const gross = lineItems.reduce((sum, item) => sum + item.amount, 0);
+  const inclusiveRate = taxRules.filter(rule => rule.inclusive).reduce((sum, rule) => sum + rule.rate, 0);
+  const net = gross / (1 + inclusiveRate / 100);
+
+  const taxLines = taxRules.map(rule => ({
+    name: rule.name,
+    rate: rule.rate,
+    taxableAmount: roundMoney(net),
+    taxAmount: roundMoney(net * rule.rate / 100),
+    inclusive: rule.inclusive
+  }));
+
+  const exclusiveTax = taxLines.filter(line => !line.inclusive).reduce((sum, line) => sum + line.taxAmount, 0);
+  const taxTotal = roundMoney(taxLines.reduce((sum, line) => sum + line.taxAmount, 0));
+  const total = roundMoney(gross + exclusiveTax);
+
+  return {
+    subtotal: roundMoney(total - taxTotal),
+    taxTotal,
+    total,
+    taxLines
+  };
+}
+
+function partyLines(party: BillingParty): string[] {
+  return [
+    party.companyName,
+    party.name,
+    ...party.addressLines,
+    party.email,
+    party.taxId ? `Tax ID: ${party.taxId}` : undefined
+  ].filter((line): line is string => Boolean(line));
+}
+
+/**
+ * Render a billing document as a standalone HTML page
+ */
+export function renderBillingDocumentHtml(document: BillingDocument): string {
+  const label = BILLING_DOCUMENT_LABELS[document.documentType];
+  const money = (amount: number) => escapeHtml(formatMoney(amount, document.currency));
+  const block = (party: BillingParty) => partyLines(party).map(line => escapeHtml(line)).join('<br>');
+
+  const rows = document.lineItems.map(item => `
+          <tr>
+            <td>${escapeHtml(item.description)}</td>
+            <td class="num">${item.quantity}</td>
+            <td class="num">${money(item.unitPrice)}</td>
+            <td class="num">${money(item.amount)}</td>
+          </tr>`).join('');
+
+  const taxRows = document.taxLines.map(line => `
+          <tr>
+            <td colspan="3">${escapeHtml(line.name)} (${line.rate}%${line.inclusive ? ', included' : ''})</td>
+            <td class="num">${money(line.taxAmount)}</td>
+          </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(label)} ${escapeHtml(document.documentNumber)}</title>
+    <style>
+      body { font-family: Arial, sans-serif; color: #111; margin: 40px; }
+      h1 { margin-bottom: 4px; }
+      .parties { display: flex; justify-content: space-between; margin: 24px 0; }
+      table { border-collapse: collapse; width: 100%; }
+      th, td { border-bottom: 1px solid #ddd; padding: 8px; text-align: left; }
+      .num { text-align: right; }
+      .total td { font-weight: bold; border-top: 2px solid #111; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(label)}</h1>
+    <p>
+      No. ${escapeHtml(document.documentNumber)}<br>
+      Issued: ${escapeHtml(document.issueDate.slice(0, 10))}
+      ${document.dueDate ? `<br>Due: ${escapeHtml(document.dueDate.slice(0, 10))}` : ''}
+    </p>
+    <div class="parties">
+      <div><strong>From</strong><br>${block(document.seller)}</div>
+      <div><strong>Bill to</strong><br>${block(document.buyer)}</div>
+    </div>
+    <table>
+      <thead>
+        <tr><th>Description</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr>
+      </thead>
+      <tbody>${rows}
+        <tr>
+          <td colspan="3">Subtotal</td>
+          <td class="num">${money(document.subtotal)}</td>
+        </tr>${taxRows}
+        <tr class="total">
+          <td colspan="3">Total</td>
+          <td class="num">${money(document.total)}</td>
+        </tr>
+      </tbody>
+    </table>
+    ${document.paymentReference ? `<p>Payment reference: ${escapeHtml(document.paymentReference)}</p>` : ''}
+    ${document.notes ? `<p>${escapeHtml(document.notes)}</p>` : ''}
+  </body>
+</html>`;
+}
+
+/**
+ * Render a billing document as PDF bytes
+ */
+export function renderBillingDocumentPdf(document: BillingDocument): Uint8Array {
+  const pdf = new PdfDocument();
+  const money = (amount: number) => formatMoney(amount, document.currency);
+  const left = 50;
+  const right = PDF_PAGE_WIDTH - 50;
+
+  pdf.text(BILLING_DOCUMENT_LABELS[document.documentType].toUpperCase(), left, 70, { size: 20, bold: true });
+  pdf.text(`No. ${document.documentNumber}`, right, 60, { align: 'right' });
+  pdf.text(`Issued: ${document.issueDate.slice(0, 10)}`, right, 75, { align: 'right' });
+  if (document.dueDate) {
+    pdf.text(`Due: ${document.dueDate.slice(0, 10)}`, right, 90, { align: 'right' });
+  }
+
+  let y = 130;
+  pdf.text('From', left, y, { bold: true });
+  pdf.text('Bill to', 320, y, { bold: true });
+  const sellerLines = partyLines(document.seller);
+  const buyerLines = partyLines(document.buyer);
+  for (let i = 0; i < Math.max(sellerLines.length, buyerLines.length); i++) {
+    y += 14;
+    if (sellerLines[i]) pdf.text(sellerLines[i], left, y);
+    if (buyerLines[i]) pdf.text(buyerLines[i], 320, y);
+  }
+
+  y += 40;
+  pdf.text('Description', left, y, { bold: true });
+  pdf.text('Qty', 340, y, { bold: true, align: 'right' });
+  pdf.text('Unit price', 440, y, { bold: true, align: 'right' });
+  pdf.text('Amount', right, y, { bold: true, align: 'right' });
+  pdf.line(left, y + 6, right, y + 6);
+
+  document.lineItems.forEach(item => {
+    y += 20;
+    pdf.text(item.description, left, y);
+    pdf.text(String(item.quantity), 340, y, { align: 'right' });
+    pdf.text(money(item.unitPrice), 440, y, { align: 'right' });
+    pdf.text(money(item.amount), right, y, { align: 'right' });
+  });
+
+  y += 12;
+  pdf.line(left, y, right, y);
+  y += 18;
+  pdf.text('Subtotal', 340, y);
+  pdf.text(money(document.subtotal), right, y, { align: 'right' });
+
+  document.taxLines.forEach(line => {
+    y += 16;
+    pdf.text(`${line.name} (${line.rate}%${line.inclusive ? ', included' : ''})`, 340, y);
+    pdf.text(money(line.taxAmount), right, y, { align: 'right' });
+  });
+
+  y += 20;
+  pdf.text('Total', 340, y, { bold: true });
+  pdf.text(money(document.total), right, y, { bold: true, align: 'right' });
+
+  y += 40;
+  if (document.paymentReference) {
+    pdf.text(`Payment reference: ${document.paymentReference}`, left, y);
+    y += 14;
+  }
+  if (document.notes) {
+    pdf.text(document.notes, left, y);
+  }
+
+  return pdf.toBytes();
+}
+
+export class BillingDocumentService {
+  private supabase;
+
+  constructor(client: any = defaultClient) {
+    this.supabase = client;
+  }
+
+  /**
+   * Get the active seller details and tax rules
+   */
+  async getBillingSettings(): Promise<BillingSettings> {
+    const { data, error } = await this.supabase
+      .from('billing_settings')
+      .select('*')
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error || !data) {
+      return DEFAULT_BILLING_SETTINGS;
+    }
+
+    return {
+      seller: data.seller_details || DEFAULT_BILLING_SETTINGS.seller,
+      taxRules: data.tax_rules || [],
+      paymentTermsDays: data.payment_terms_days ?? DEFAULT_BILLING_SETTINGS.paymentTermsDays,
+      footerNote: data.footer_note
+    };
+  }
+
+  /**
+   * Issue the invoice (and receipt, once paid) for a purchase.
+   * Documents that already exist are returned instead of being reissued.
+   */
+  async issuePurchaseDocuments(purchaseId: string): Promise<HourApiResponse<BillingDocument[]>> {
+    try {
+      const purchase = await this.getPurchase(purchaseId);
+      const existing = await this.getDocumentsForPurchase(purchaseId);
+      const documents = [...existing];
+
+      const hasType = (type: BillingDocumentType) => existing.some(doc => doc.documentType === type);
+      const isPaid = purchase.payment_status === 'completed';
+      const isDeferred = DEFERRED_PAYMENT_METHODS.includes(purchase.payment_method);
+
+      let invoice = existing.find(doc => doc.documentType === 'invoice');
+      if (!invoice && (isPaid || isDeferred)) {
+        invoice = await this.createDocument('invoice', purchase, {
+          status: isPaid ? 'paid' : 'issued'
+        });
+        documents.push(invoice);
+      } else if (invoice && isPaid && invoice.status === 'issued') {
+        await this.supabase.from('billing_documents').update({ status: 'paid' }).eq('id', invoice.id);
+        invoice.status = 'paid';
+      }
+
+      if (isPaid && !hasType('receipt')) {
+        documents.push(await this.createDocument('receipt', purchase, {
+          status: 'paid',
+          relatedDocumentId: invoice?.id
+        }));
+      }
+
+      return { success: true, data: documents };
+    } catch (error) {
+      logger.error('Failed to issue purchase documents:', error);
+      return {
+        success: false,
+        error: {
+          code: 'ISSUE_DOCUMENTS_ERROR',
+          message: 'Failed to issue billing documents',
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Create a credit note for a refund transaction on a purchase
+   */
+  async createCreditNoteForRefund(transactionId: string): Promise<HourApiResponse<BillingDocument>> {
+    try {
+      const { data: existing } = await this.supabase
+        .from('billing_documents')
+        .select('*')
+        .eq('transaction_id', transactionId)
+        .eq('document_type', 'credit_note')
+        .maybeSingle();
+
+      if (existing) {
+        return { success: true, data: this.transformDocument(existing) };
+      }
+
+      const { data: transaction, error: transError } = await this.supabase
+        .from('hour_transactions')
+        .select('*')
+        .eq('id', transactionId)
+        .single();
+
+      if (transError || !transaction) throw transError || new Error('Transaction not found');
+      if (transaction.transaction_type !== 'refund' || !transaction.purchase_id) {
+        throw new Error('Credit notes can only be issued for purchase refunds');
+      }
+
+      const purchase = await this.getPurchase(transaction.purchase_id);
+      const invoice = (await this.getDocumentsForPurchase(purchase.id)).find(doc => doc.documentType === 'invoice');
+
+      // Credit the refunded hours at the price per hour actually paid
+      const hours = Math.abs(transaction.hours_amount);
+      const pricePerHour = purchase.hours_purchased > 0 ? purchase.price_paid / purchase.hours_purchased : 0;
+      const amount = roundMoney(transaction.metadata?.refundAmount ?? hours * pricePerHour);
+
+      const creditNote = await this.createDocument('credit_note', purchase, {
+        status: 'issued',
+        transactionId,
+        relatedDocumentId: invoice?.id,
+        lineItems: [{
+          description: `Refund of ${hours} hour${hours === 1 ? '' : 's'} - ${purchase.hour_packages?.name || 'Hour package'}`,
+          quantity: hours,
+          unitPrice: hours > 0 ? roundMoney(amount / hours) : amount,
+          amount
+        }],
+        notes: invoice ? `Credits invoice ${invoice.documentNumber}` : undefined
+      });
+
+      return { success: true, data: creditNote };
+    } catch (error) {
+      logger.error('Failed to create credit note:', error);
+      return {
+        success: false,
+        error: {
+          code: 'CREDIT_NOTE_ERROR',
+          message: 'Failed to create credit note',
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Cancel the unpaid invoice of a cancelled or failed purchase with a credit
+   * note for its full amount. Returns null when there is no invoice to cancel.
+   */
+  async creditCancelledPurchase(purchaseId: string): Promise<HourApiResponse<BillingDocument | null>> {
+    try {
+      const documents = await this.getDocumentsForPurchase(purchaseId);
+      const invoice = documents.find(doc => doc.documentType === 'invoice');
+      if (!invoice || invoice.status === 'paid') {
+        return { success: true, data: null };
+      }
+
+      const existing = documents.find(doc =>
+        doc.documentType === 'credit_note' && doc.relatedDocumentId === invoice.id && !doc.transactionId);
+      if (existing) {
+        return { success: true, data: existing };
+      }
+
+      const purchase = await this.getPurchase(purchaseId);
+      const creditNote = await this.createDocument('credit_note', purchase, {
+        status: 'issued',
+        relatedDocumentId: invoice.id,
+        lineItems: invoice.lineItems,
+        notes: `Cancels invoice ${invoice.documentNumber}`
+      });
+
+      const { error } = await this.supabase
+        .from('billing_documents')
+        .update({ status: 'void' })
+        .eq('id', invoice.id);
+
+      if (error) throw error;
+
+      return { success: true, data: creditNote };
+    } catch (error) {
+      logger.error('Failed to cancel purchase invoice:', error);
+      return {
+        success: false,
+        error: {
+          code: 'CREDIT_NOTE_ERROR',
+          message: 'Failed to cancel the purchase invoice',
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Issue credit notes for any purchase refunds that do not have one yet
+   */
+  async generateMissingCreditNotes(): Promise<{ created: number; errors: string[] }> {
+    const result = { created: 0, errors: [] as string[] };
+
+    const { data: refunds, error } = await this.supabase
+      .from('hour_transactions')
+      .select('id')
+      .eq('transaction_type', 'refund')
+      .lt('hours_amount', 0)
+      .not('purchase_id', 'is', null);
+
+    if (error) throw error;
+
+    const { data: credited } = await this.supabase
+      .from('billing_documents')
+      .select('transaction_id')
+      .eq('document_type', 'credit_note');
+
+    const creditedIds = new Set((credited || []).map((doc: any) => doc.transaction_id));
+
+    for (const refund of refunds || []) {
+      if (creditedIds.has(refund.id)) continue;
+
+      const response = await this.createCreditNoteForRefund(refund.id);
+      if (response.success) {
+        result.created++;
+      } else {
+        result.errors.push(`${refund.id}: ${response.error?.message}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get a document by ID
+   */
+  async getDocument(documentId: string): Promise<HourApiResponse<BillingDocument>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('billing_documents')
+        .select('*')
+        .eq('id', documentId)
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformDocument(data) };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'FETCH_DOCUMENT_ERROR',
+          message: 'Failed to fetch billing document',
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * List documents for a purchase or student
+   */
+  async listDocuments(filters: { purchaseId?: string; studentId?: string }): Promise<HourApiResponse<BillingDocument[]>> {
+    try {
+      let query = this.supabase
+        .from('billing_documents')
+        .select('*')
+        .order('issue_date', { ascending: false });
+
+      if (filters.purchaseId) query = query.eq('purchase_id', filters.purchaseId);
+      if (filters.studentId) query = query.eq('student_id', filters.studentId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((doc: any) => this.transformDocument(doc)) };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'FETCH_DOCUMENTS_ERROR',
+          message: 'Failed to fetch billing documents',
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Issue the purchase documents and collect everything the confirmation
+   * email needs, with the invoice and receipt rendered as PDF attachments
+   */
+  async buildPurchaseConfirmation(purchaseId: string): Promise<{
+    recipient: BillingParty;
+    purchaseData: {
+      packageName: string;
+      hoursPurchased: number;
+      amountPaid: string;
+      validUntil: string;
+    };
+    attachments: Array<{ filename: string; data: Uint8Array; contentType: string }>;
+  }> {
+    const issued = await this.issuePurchaseDocuments(purchaseId);
+    if (!issued.success) {
+      throw new Error(issued.error?.message);
+    }
+
+    const purchase = await this.getPurchase(purchaseId);
+    const documents = (issued.data || []).filter(doc => doc.documentType !== 'credit_note');
+
+    return {
+      recipient: documents[0]?.buyer || await this.getBuyer(purchase),
+      purchaseData: {
+        packageName: purchase.hour_packages?.name || 'Hour package',
+        hoursPurchased: purchase.hours_purchased,
+        amountPaid: formatMoney(purchase.price_paid, purchase.currency),
+        validUntil: String(purchase.valid_until).slice(0, 10)
+      },
+      attachments: documents.map(doc => ({
+        filename: `${doc.documentNumber}.pdf`,
+        data: renderBillingDocumentPdf(doc),
+        contentType: 'application/pdf'
+      }))
+    };
+  }
+
+  // Private helper methods
+
+  private async getPurchase(purchaseId: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('hour_purchases')
+      .select('*, hour_packages (name, hours_included)')
+      .eq('id', purchaseId)
+      .single();
+
+    if (error || !data) throw error || new Error('Purchase not found');
+    return data;
+  }
+
+  private async getDocumentsForPurchase(purchaseId: string): Promise<BillingDocument[]> {
+    const { data, error } = await this.supabase
+      .from('billing_documents')
+      .select('*')
+      .eq('purchase_id', purchaseId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map((doc: any) => this.transformDocument(doc));
+  }
+
+  private async getBuyer(purchase: any): Promise<BillingParty> {
+    const billingDetails = purchase.metadata?.billingDetails;
+    const accountId = purchase.is_corporate_purchase && purchase.corporate_account_id
+      ? purchase.corporate_account_id
+      : purchase.student_id;
+
+    const { data: profile } = await this.supabase
+      .from('profiles')
+      .select('full_name, email')
+      .eq('id', accountId)
+      .maybeSingle();
+
+    return {
+      name: billingDetails?.name || profile?.full_name || 'Student',
+      email: billingDetails?.email || profile?.email,
+      companyName: billingDetails?.companyName,
+      taxId: billingDetails?.taxId,
+      addressLines: billingDetails?.addressLines || []
+    };
+  }
+
+  private async createDocument(
+    documentType: BillingDocumentType,
+    purchase: any,
+    options: {
+      status: BillingDocument['status'];
+      transactionId?: string;
+      relatedDocumentId?: string;
+      lineItems?: BillingLineItem[];
+      notes?: string;
+    }
+  ): Promise<BillingDocument> {
+    const settings = await this.getBillingSettings();
+    const buyer = await this.getBuyer(purchase);
+
+    const lineItems = options.lineItems || [{
+      description: `${purchase.hour_packages?.name || 'Hour package'} (${purchase.hours_purchased} hours)`,
+      quantity: 1,
+      unitPrice: purchase.price_paid,
+      amount: purchase.price_paid
+    }];
+    const totals = calculateBillingTotals(lineItems, settings.taxRules);
+
+    const issueDate = new Date();
+    const dueDate = documentType === 'invoice' && options.status === 'issued'
+      ? new Date(issueDate.getTime() + settings.paymentTermsDays * 24 * 60 * 60 * 1000).toISOString()
+      : null;
+
+    const { data, error } = await this.supabase
+      .rpc('issue_billing_document', {
+        p_document: {
+          document_type: documentType,
+          status: options.status,
+          purchase_id: purchase.id,
+          transaction_id: options.transactionId,
+          related_document_id: options.relatedDocumentId,
+          student_id: purchase.student_id,
+          corporate_account_id: purchase.corporate_account_id,
+          issue_date: issueDate.toISOString(),
+          due_date: dueDate,
+          seller_details: settings.seller,
+          buyer_details: buyer,
+          currency: purchase.currency,
+          line_items: lineItems,
+          tax_lines: totals.taxLines,
+          subtotal: totals.subtotal,
+          tax_total: totals.taxTotal,
+          total: totals.total,
+          payment_method: purchase.payment_method,
+          payment_reference: purchase.payment_reference,
+          notes: options.notes || settings.footerNote
+        }
+      });
+
+    if (error) throw error;
+
+    logger.info(`Issued ${documentType} ${data.document_number} for purchase ${purchase.id}`);
+    return this.transformDocument(data);
+  }
+
+  private transformDocument(d: any): BillingDocument {
+    return {
+      id: d.id,
+      documentNumber: d.document_number,
+      documentType: d.document_type,
+      status: d.status,
+      purchaseId: d.purchase_id,
+      transactionId: d.transaction_id,
+      relatedDocumentId: d.related_document_id,
+      studentId: d.student_id,
+      corporateAccountId: d.corporate_account_id,
+      issueDate: d.issue_date,
+      dueDate: d.due_date,
+      seller: d.seller_details,
+      buyer: d.buyer_details,
+      currency: d.currency,
+      lineItems: d.line_items || [],
+      taxLines: d.tax_lines || [],
+      subtotal: Number(d.subtotal),
+      taxTotal: Number(d.tax_total),
+      total: Number(d.total),
+      paymentMethod: d.payment_method,
+      paymentReference: d.payment_reference,
+      notes: d.notes,
+      metadata: d.metadata,
+      createdAt: d.created_at
+    };
+  }
+}
+
+// Export singleton instance
+export const billingDocumentService = new BillingDocumentService();
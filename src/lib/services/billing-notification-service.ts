@@ -0,0 +1,33 @@
+/**
+ * Billing Notifications
+ *
+ * Server-side helpers that email billing documents. Kept apart from
+ * `billing-document-service` so client code can issue documents without
+ * pulling in the mail transport.
+ */
+
+import { logger } from '@/lib/services';
+import { queuePurchaseConfirmation } from './email-queue-service';
+import { BillingDocumentService, billingDocumentService } from './billing-document-service';
+
+/**
+ * Queue the purchase confirmation email with the invoice and receipt attached
+ */
+export async function sendPurchaseConfirmation(
+  purchaseId: string,
+  service: BillingDocumentService = billingDocumentService
+): Promise<string | null> {
+  const confirmation = await service.buildPurchaseConfirmation(purchaseId);
+
+  if (!confirmation.recipient.email) {
+    logger.warn(`No billing email for purchase ${purchaseId}, confirmation not sent`);
+    return null;
+  }
+
+  return queuePurchaseConfirmation(
+    confirmation.recipient.email,
+    confirmation.recipient.name,
+    confirmation.purchaseData,
+    confirmation.attachments
+  );
+}
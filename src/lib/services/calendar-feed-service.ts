@@ -0,0 +1,367 @@
+/**
+ * Calendar Feed Service
+ *
+ * Publishes each user's upcoming classes, 1-on-1 bookings and make-up classes
+ * as an ICS subscription feed. Calendar clients fetch the feed without signing
+ * in, so the URL carries a per-user token from `calendar_feed_tokens`.
+ *
+ * Event UIDs are derived from the booking or make-up id, so the feed and the
+ * emailed invites describe the same event.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import { buildIcsCalendar } from '@/lib/utils/ical';
+import { resolveTimeZone } from '@/lib/utils/timezone';
+import type { HourApiResponse } from '@/types/hours';
+import type {
+  CalendarAttendee,
+  CalendarEvent,
+  CalendarEventKind,
+  CalendarFeedOptions,
+  CalendarFeedToken
+} from '@/types/calendar';
+
+const UID_DOMAIN = 'heypeter.academy';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_FEED_OPTIONS: Required<CalendarFeedOptions> = { pastDays: 30, futureDays: 180 };
+
+const EVENT_LABELS: Record<CalendarEventKind, string> = {
+  class: 'Class',
+  one_on_one: '1-on-1',
+  make_up: 'Make-up class'
+};
+
+export function getBookingEventUid(bookingId: string): string {
+  return `booking-${bookingId}@${UID_DOMAIN}`;
+}
+
+/**
+ * SEQUENCE value for an event version; later edits get larger values
+ */
+export function getCalendarSequence(updatedAt?: string | Date): number {
+  return updatedAt ? Math.floor(new Date(updatedAt).getTime() / 1000) : 0;
+}
+
+export function getCalendarFeedUrl(token: string, baseUrl: string = process.env.NEXT_PUBLIC_APP_URL || ''): string {
+  return `${baseUrl}/api/calendar/feed/${token}.ics`;
+}
+
+/**
+ * Calendar event for a booked class or 1-on-1 session
+ */
+export function createBookingCalendarEvent(booking: {
+  bookingId: string;
+  kind?: CalendarEventKind;
+  courseName: string;
+  teacherName?: string;
+  startTime: string | Date;
+  endTime: string | Date;
+  location?: string;
+  joinLink?: string;
+  cancelled?: boolean;
+  sequence?: number;
+  attendees?: CalendarAttendee[];
+}): CalendarEvent {
+  const kind = booking.kind || 'class';
+  const details = [
+    booking.teacherName ? `Teacher: ${booking.teacherName}` : undefined,
+    booking.joinLink ? `Join: ${booking.joinLink}` : undefined
+  ].filter(Boolean);
+
+  return {
+    uid: getBookingEventUid(booking.bookingId),
+    kind,
+    sequence: booking.sequence ?? 0,
+    startTime: new Date(booking.startTime).toISOString(),
+    endTime: new Date(booking.endTime).toISOString(),
+    summary: `${EVENT_LABELS[kind]}: ${booking.courseName}`,
+    description: details.length > 0 ? details.join('\n') : undefined,
+    location: booking.joinLink && (!booking.location || booking.location === 'Online') ? booking.joinLink : booking.location,
+    url: booking.joinLink,
+    status: booking.cancelled ? 'cancelled' : 'confirmed',
+    organizer: { name: 'HeyPeter Academy', email: `noreply@${UID_DOMAIN}` },
+    attendees: booking.attendees
+  };
+}
+
+function bookingRowToEvent(row: any): CalendarEvent {
+  const course = row.classes?.courses;
+
+  return createBookingCalendarEvent({
+    bookingId: row.id,
+    kind: course?.course_type === '1-on-1' ? 'one_on_one' : 'class',
+    courseName: row.classes?.class_name || course?.title || 'Class',
+    teacherName: row.classes?.teachers?.full_name,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    location: row.classes?.location,
+    joinLink: row.classes?.meeting_link,
+    cancelled: row.status === 'cancelled',
+    sequence: getCalendarSequence(row.updated_at)
+  });
+}
+
+function makeUpRowToEvent(row: any): CalendarEvent {
+  const original = row.original_class;
+  const suggested = row.suggested_class;
+
+  return {
+    uid: `makeup-${row.id}@${UID_DOMAIN}`,
+    kind: 'make_up',
+    sequence: getCalendarSequence(row.updated_at),
+    startTime: new Date(row.suggested_start_time).toISOString(),
+    endTime: new Date(row.suggested_end_time).toISOString(),
+    summary: `${EVENT_LABELS.make_up}: ${original?.class_name || original?.courses?.title || 'Class'}`,
+    location: suggested?.meeting_link || suggested?.location || undefined,
+    url: suggested?.meeting_link || undefined,
+    status: 'confirmed'
+  };
+}
+
+/**
+ * Merge a teacher's per-student booking rows into one event per class session
+ */
+export function groupTeacherSessions(events: Array<CalendarEvent & { classId: string; studentName?: string }>): CalendarEvent[] {
+  const sessions = new Map<string, CalendarEvent>();
+
+  for (const { classId, studentName, ...event } of events) {
+    const key = `${classId}-${event.startTime}`;
+    const existing = sessions.get(key);
+
+    if (!existing) {
+      sessions.set(key, {
+        ...event,
+        uid: `class-${classId}-${new Date(event.startTime).getTime() / 1000}@${UID_DOMAIN}`,
+        description: studentName ? `Students: ${studentName}` : event.description
+      });
+      continue;
+    }
+
+    existing.sequence = Math.max(existing.sequence, event.sequence);
+    // The session is on while any student is still booked
+    if (event.status !== 'cancelled') existing.status = 'confirmed';
+    if (studentName) {
+      existing.description = existing.description?.startsWith('Students: ')
+        ? `${existing.description}, ${studentName}`
+        : `Students: ${studentName}`;
+    }
+  }
+
+  return Array.from(sessions.values());
+}
+
+function calendarError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class CalendarFeedService {
+  private supabase;
+
+  constructor(client: any = defaultClient) {
+    this.supabase = client;
+  }
+
+  // ========================================
+  // Tokens
+  // ========================================
+
+  /**
+   * The user's live feed token, created on first use
+   */
+  async getFeedToken(userId: string): Promise<HourApiResponse<CalendarFeedToken>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('calendar_feed_tokens')
+        .select('*')
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) return { success: true, data: this.transformToken(data) };
+
+      return this.createToken(userId);
+    } catch (error) {
+      return calendarError('FETCH_FEED_TOKEN_ERROR', 'Failed to fetch calendar feed token', error);
+    }
+  }
+
+  /**
+   * Revoke the current feed URL and issue a new one
+   */
+  async rotateFeedToken(userId: string): Promise<HourApiResponse<CalendarFeedToken>> {
+    try {
+      const { error } = await this.supabase
+        .from('calendar_feed_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('revoked_at', null);
+
+      if (error) throw error;
+
+      return this.createToken(userId);
+    } catch (error) {
+      return calendarError('ROTATE_FEED_TOKEN_ERROR', 'Failed to reset calendar feed link', error);
+    }
+  }
+
+  // ========================================
+  // Feed
+  // ========================================
+
+  /**
+   * Render the ICS feed for a token
+   */
+  async renderFeed(token: string, options: CalendarFeedOptions = {}): Promise<HourApiResponse<string>> {
+    try {
+      const { data: feedToken, error } = await this.supabase
+        .from('calendar_feed_tokens')
+        .select('id, user_id, users (full_name, timezone)')
+        .eq('token', token)
+        .is('revoked_at', null)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!feedToken) {
+        return calendarError('FEED_NOT_FOUND', 'Calendar feed not found');
+      }
+
+      const events = await this.getUpcomingEvents(feedToken.user_id, options);
+
+      await this.supabase
+        .from('calendar_feed_tokens')
+        .update({ last_accessed_at: new Date().toISOString() })
+        .eq('id', feedToken.id);
+
+      return {
+        success: true,
+        data: buildIcsCalendar(events, {
+          name: 'HeyPeter Academy',
+          timeZone: resolveTimeZone(feedToken.users?.timezone)
+        })
+      };
+    } catch (error) {
+      logger.error(`Failed to render calendar feed: ${error}`);
+      return calendarError('RENDER_FEED_ERROR', 'Failed to render calendar feed', error);
+    }
+  }
+
+  /**
+   * Classes, 1-on-1 bookings and make-up classes for a student or teacher user
+   */
+  async getUpcomingEvents(userId: string, options: CalendarFeedOptions = {}): Promise<CalendarEvent[]> {
+    const { pastDays, futureDays } = { ...DEFAULT_FEED_OPTIONS, ...options };
+    const now = Date.now();
+    const from = new Date(now - pastDays * DAY_MS).toISOString();
+    const to = new Date(now + futureDays * DAY_MS).toISOString();
+
+    const [{ data: student }, { data: teacher }] = await Promise.all([
+      this.supabase.from('students').select('id').eq('user_id', userId).maybeSingle(),
+      this.supabase.from('teachers').select('id').eq('user_id', userId).maybeSingle()
+    ]);
+
+    const events: CalendarEvent[] = [];
+    if (student) {
+      events.push(...await this.getStudentEvents(student.id, from, to));
+    }
+    if (teacher) {
+      events.push(...await this.getTeacherEvents(teacher.id, from, to));
+    }
+
+    return events.sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
+
+  // ========================================
+  // Private helpers
+  // ========================================
+
+  private async createToken(userId: string): Promise<HourApiResponse<CalendarFeedToken>> {
+    const { data, error } = await this.supabase
+      .from('calendar_feed_tokens')
+      .insert({ user_id: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return { success: true, data: this.transformToken(data) };
+  }
+
+  private async getStudentEvents(studentId: string, from: string, to: string): Promise<CalendarEvent[]> {
+    const [bookings, makeUps] = await Promise.all([
+      this.supabase
+        .from('bookings')
+        .select(`
+          id, start_time, end_time, status, updated_at,
+          classes (class_name, location, meeting_link, courses (title, course_type), teachers (full_name))
+        `)
+        .eq('student_id', studentId)
+        .gte('end_time', from)
+        .lte('start_time', to),
+      this.fetchMakeUps('student_id', studentId, from, to)
+    ]);
+
+    if (bookings.error) throw bookings.error;
+
+    return [...(bookings.data || []).map(bookingRowToEvent), ...makeUps];
+  }
+
+  private async getTeacherEvents(teacherId: string, from: string, to: string): Promise<CalendarEvent[]> {
+    const [bookings, makeUps] = await Promise.all([
+      this.supabase
+        .from('bookings')
+        .select(`
+          id, class_id, start_time, end_time, status, updated_at,
+          students (full_name),
+          classes!inner (teacher_id, class_name, location, meeting_link, courses (title, course_type))
+        `)
+        .eq('classes.teacher_id', teacherId)
+        .gte('end_time', from)
+        .lte('start_time', to),
+      this.fetchMakeUps('suggested_teacher_id', teacherId, from, to)
+    ]);
+
+    if (bookings.error) throw bookings.error;
+
+    const sessions = groupTeacherSessions((bookings.data || []).map((row: any) => ({
+      ...bookingRowToEvent(row),
+      classId: row.class_id,
+      studentName: row.students?.full_name
+    })));
+
+    return [...sessions, ...makeUps];
+  }
+
+  private async fetchMakeUps(column: string, id: string, from: string, to: string): Promise<CalendarEvent[]> {
+    const { data, error } = await this.supabase
+      .from('make_up_classes')
+      .select(`
+        id, suggested_start_time, suggested_end_time, updated_at,
+        original_class:original_class_id (class_name, courses (title)),
+        suggested_class:suggested_class_id (location, meeting_link)
+      `)
+      .eq(column, id)
+      .eq('status', 'scheduled')
+      .gte('suggested_end_time', from)
+      .lte('suggested_start_time', to);
+
+    if (error) throw error;
+
+    return (data || []).map(makeUpRowToEvent);
+  }
+
+  private transformToken(data: any): CalendarFeedToken {
+    return {
+      id: data.id,
+      userId: data.user_id,
+      token: data.token,
+      createdAt: data.created_at,
+      lastAccessedAt: data.last_accessed_at || undefined,
+      revokedAt: data.revoked_at || undefined
+    };
+  }
+}
+
+// Export singleton instance
+export const calendarFeedService = new CalendarFeedService();
@@ -0,0 +1,670 @@
+/**
+ * Certificate Service
+ *
+ * Issues attendance letters and course completion certificates from
+ * attendance and `student_courses` completion data. Each certificate stores
+ * a snapshot of the figures it states and a unique verification code that
+ * anyone can check at /verify/[code]. Templates hold the wording and the
+ * eligibility rules (minimum attendance, completion, final assessment).
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import { APP_NAME } from '@/lib/constants';
+import { PdfDocument, PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT, wrapPdfText } from '@/lib/utils/pdf-document';
+import type { HourApiResponse } from '@/types/hours';
+import type {
+  Certificate,
+  CertificateEligibility,
+  CertificateRecord,
+  CertificateTemplate,
+  CertificateType,
+  CertificateVerification,
+  ClassIssuanceResult,
+  CourseCompletion,
+  IssueCertificateRequest,
+  RecordCourseCompletionRequest,
+  UpdateCertificateTemplateRequest
+} from '@/types/certificate';
+
+// No 0/O or 1/I so codes read back unambiguously; 32 symbols keep bytes unbiased
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 12;
+const CODE_ATTEMPTS = 3;
+
+const UNIQUE_VIOLATION = '23505';
+
+const percent = (rate?: number) => (rate === undefined ? 'n/a' : `${Math.round(rate * 100)}%`);
+
+const formatDate = (value?: string) =>
+  value
+    ? new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' })
+    : '';
+
+export function generateVerificationCode(): string {
+  const bytes = new Uint8Array(CODE_LENGTH);
+  crypto.getRandomValues(bytes);
+  return normalizeVerificationCode(Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join(''));
+}
+
+/**
+ * Uppercase and regroup a code as typed, e.g. "abcd efgh-jklm" -> "ABCD-EFGH-JKLM"
+ */
+export function normalizeVerificationCode(code: string): string {
+  const compact = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return (compact.match(/.{1,4}/g) || []).join('-');
+}
+
+export function getCertificateVerificationUrl(code: string, baseUrl: string = process.env.NEXT_PUBLIC_APP_URL || ''): string {
+  return `${baseUrl}/verify/${code}`;
+}
+
+/**
+ * Check a student's figures against a template's eligibility rules
+ */
+export function checkCertificateEligibility(template: CertificateTemplate, record: CertificateRecord): CertificateEligibility {
+  const reasons: string[] = [];
+
+  if (record.sessionsAttended === 0) {
+    reasons.push('No classes attended in the period');
+  }
+  if (template.minAttendanceRate !== undefined && (record.attendanceRate ?? 0) < template.minAttendanceRate) {
+    reasons.push(`Attendance of ${percent(record.attendanceRate)} is below the required ${percent(template.minAttendanceRate)}`);
+  }
+  if (template.requiresCompletion && !record.completedAt) {
+    reasons.push('The course has not been completed');
+  }
+  if (template.requiresFinalAssessment && !record.finalAssessmentPassed) {
+    reasons.push(record.finalAssessmentPassed === false ? 'The final assessment was not passed' : 'No final assessment result');
+  }
+
+  return { eligible: reasons.length === 0, reasons, record };
+}
+
+/**
+ * Fill a template's {{placeholders}} from the student's figures
+ */
+export function fillCertificateTemplate(text: string, record: CertificateRecord): string {
+  const values: Record<string, string> = {
+    student_name: record.studentName,
+    course_title: record.courseTitle || '',
+    course_type: record.courseType || '',
+    sessions_attended: String(record.sessionsAttended),
+    sessions_total: String(record.sessionsTotal),
+    attendance_rate: percent(record.attendanceRate),
+    hours_attended: String(record.hoursAttended),
+    period_start: formatDate(record.periodStart),
+    period_end: formatDate(record.periodEnd),
+    completion_date: formatDate(record.completedAt),
+    assessment_score: record.finalAssessmentScore !== undefined ? `${record.finalAssessmentScore}%` : 'n/a'
+  };
+
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key) => values[key] ?? placeholder);
+}
+
+export function renderCertificatePdf(
+  certificate: Certificate,
+  verificationUrl: string = getCertificateVerificationUrl(certificate.verificationCode)
+): Uint8Array {
+  const pdf = new PdfDocument();
+  const center = PDF_PAGE_WIDTH / 2;
+
+  pdf.rect(30, 30, PDF_PAGE_WIDTH - 60, PDF_PAGE_HEIGHT - 60, 2);
+  pdf.rect(38, 38, PDF_PAGE_WIDTH - 76, PDF_PAGE_HEIGHT - 76, 0.5);
+
+  pdf.text(APP_NAME.toUpperCase(), center, 110, { size: 14, bold: true, align: 'center' });
+  pdf.text(certificate.title, center, 190, { size: 28, bold: true, align: 'center' });
+  pdf.text('This certificate is presented to', center, 250, { size: 12, align: 'center' });
+  pdf.text(certificate.studentName, center, 295, { size: 26, bold: true, align: 'center' });
+  pdf.line(center - 170, 310, center + 170, 310);
+
+  let y = 355;
+  for (const line of wrapPdfText(certificate.bodyText, 420, 12)) {
+    pdf.text(line, center, y, { size: 12, align: 'center' });
+    y += 18;
+  }
+
+  y += 30;
+  const details = [
+    certificate.courseTitle && `Course: ${certificate.courseTitle}`,
+    certificate.periodStart && `Period: ${formatDate(certificate.periodStart)} - ${formatDate(certificate.periodEnd)}`,
+    `Attendance: ${certificate.sessionsAttended} of ${certificate.sessionsTotal} sessions (${percent(certificate.attendanceRate)}), ${certificate.hoursAttended} hours`,
+    certificate.completedAt && `Completed: ${formatDate(certificate.completedAt)}`
+  ].filter((line): line is string => Boolean(line));
+  for (const line of details) {
+    pdf.text(line, center, y, { size: 10, align: 'center' });
+    y += 15;
+  }
+
+  const signatureY = 660;
+  pdf.line(80, signatureY, 250, signatureY);
+  pdf.text(certificate.signatoryName || APP_NAME, 80, signatureY + 15, { bold: true });
+  if (certificate.signatoryTitle) {
+    pdf.text(certificate.signatoryTitle, 80, signatureY + 28);
+  }
+  pdf.line(345, signatureY, 515, signatureY);
+  pdf.text(`Issued ${formatDate(certificate.issuedAt)}`, 345, signatureY + 15, { bold: true });
+
+  pdf.text(`Verification code: ${certificate.verificationCode}`, center, 760, { size: 10, bold: true, align: 'center' });
+  pdf.text(`Check this certificate at ${verificationUrl}`, center, 775, { size: 9, align: 'center' });
+
+  return pdf.toBytes();
+}
+
+function certificateError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class CertificateService {
+  private supabase;
+
+  constructor(client: any = defaultClient) {
+    this.supabase = client;
+  }
+
+  async listTemplates(): Promise<HourApiResponse<CertificateTemplate[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('certificate_templates')
+        .select('*')
+        .eq('is_active', true)
+        .order('certificate_type');
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((row: any) => this.transformTemplate(row)) };
+    } catch (error) {
+      return certificateError('FETCH_TEMPLATES_ERROR', 'Failed to fetch certificate templates', error);
+    }
+  }
+
+  async updateTemplate(templateId: string, request: UpdateCertificateTemplateRequest): Promise<HourApiResponse<CertificateTemplate>> {
+    if (request.minAttendanceRate !== undefined && request.minAttendanceRate !== null &&
+        (request.minAttendanceRate < 0 || request.minAttendanceRate > 1)) {
+      return certificateError('INVALID_TEMPLATE', 'Minimum attendance must be between 0% and 100%');
+    }
+
+    try {
+      const updates: Record<string, any> = {};
+      if (request.title !== undefined) updates.title = request.title;
+      if (request.bodyText !== undefined) updates.body_text = request.bodyText;
+      if (request.signatoryName !== undefined) updates.signatory_name = request.signatoryName || null;
+      if (request.signatoryTitle !== undefined) updates.signatory_title = request.signatoryTitle || null;
+      if (request.minAttendanceRate !== undefined) updates.min_attendance_rate = request.minAttendanceRate;
+      if (request.requiresCompletion !== undefined) updates.requires_completion = request.requiresCompletion;
+      if (request.requiresFinalAssessment !== undefined) updates.requires_final_assessment = request.requiresFinalAssessment;
+
+      const { data, error } = await this.supabase
+        .from('certificate_templates')
+        .update(updates)
+        .eq('id', templateId)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: this.transformTemplate(data) };
+    } catch (error) {
+      return certificateError('UPDATE_TEMPLATE_ERROR', 'Failed to update the certificate template', error);
+    }
+  }
+
+  /**
+   * Record that a student completed a course, with their final assessment
+   * result when there is one. Completion certificates are checked against it.
+   */
+  async recordCompletion(request: RecordCourseCompletionRequest): Promise<HourApiResponse<CourseCompletion>> {
+    const score = request.finalAssessmentScore;
+    if (score !== undefined && !(score >= 0 && score <= 100)) {
+      return certificateError('INVALID_ASSESSMENT', 'The assessment score must be between 0 and 100');
+    }
+
+    try {
+      const row: Record<string, any> = {
+        student_id: request.studentId,
+        course_id: request.courseId,
+        completed_at: request.completedAt || new Date().toISOString()
+      };
+      if (score !== undefined) row.final_assessment_score = score;
+      if (request.finalAssessmentPassed !== undefined) row.final_assessment_passed = request.finalAssessmentPassed;
+
+      const { data, error } = await this.supabase
+        .from('student_courses')
+        .upsert(row, { onConflict: 'student_id,course_id' })
+        .select('student_id, course_id, completed_at, final_assessment_score, final_assessment_passed')
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: {
+          studentId: data.student_id,
+          courseId: data.course_id,
+          completedAt: data.completed_at || undefined,
+          finalAssessmentScore: data.final_assessment_score != null ? Number(data.final_assessment_score) : undefined,
+          finalAssessmentPassed: data.final_assessment_passed ?? undefined
+        }
+      };
+    } catch (error) {
+      return certificateError('RECORD_COMPLETION_ERROR', 'Failed to record the course completion', error);
+    }
+  }
+
+  /**
+   * Check whether a student qualifies, without issuing anything
+   */
+  async checkEligibility(request: IssueCertificateRequest): Promise<HourApiResponse<CertificateEligibility>> {
+    try {
+      const record = await this.buildRecord(request);
+      const template = await this.findTemplate(request.certificateType, record.courseType);
+      if (!template) {
+        return certificateError('TEMPLATE_NOT_FOUND', `There is no ${request.certificateType} certificate template for this course`);
+      }
+
+      return { success: true, data: checkCertificateEligibility(template, record) };
+    } catch (error) {
+      return certificateError('ELIGIBILITY_ERROR', 'Failed to check certificate eligibility', error);
+    }
+  }
+
+  async issueCertificate(request: IssueCertificateRequest): Promise<HourApiResponse<Certificate>> {
+    if (request.certificateType === 'completion' && !request.courseId && !request.classId) {
+      return certificateError('COURSE_REQUIRED', 'Choose the course the certificate is for');
+    }
+
+    try {
+      const record = await this.buildRecord(request);
+      const template = await this.findTemplate(request.certificateType, record.courseType);
+      if (!template) {
+        return certificateError('TEMPLATE_NOT_FOUND', `There is no ${request.certificateType} certificate template for this course`);
+      }
+
+      const eligibility = checkCertificateEligibility(template, record);
+      if (!eligibility.eligible) {
+        return certificateError('NOT_ELIGIBLE', eligibility.reasons.join('; '), {
+          reasons: eligibility.reasons,
+          studentName: record.studentName
+        });
+      }
+
+      const { data: user } = await this.supabase.auth.getUser();
+      const row = {
+        certificate_type: request.certificateType,
+        template_id: template.id,
+        student_id: record.studentId,
+        course_id: record.courseId || null,
+        class_id: record.classId || null,
+        title: template.title,
+        body_text: fillCertificateTemplate(template.bodyText, record),
+        student_name: record.studentName,
+        course_title: record.courseTitle || null,
+        course_type: record.courseType || null,
+        period_start: record.periodStart || null,
+        period_end: record.periodEnd || null,
+        sessions_attended: record.sessionsAttended,
+        sessions_total: record.sessionsTotal,
+        attendance_rate: record.attendanceRate ?? null,
+        hours_attended: record.hoursAttended,
+        completed_at: record.completedAt || null,
+        final_assessment_score: record.finalAssessmentScore ?? null,
+        signatory_name: template.signatoryName || null,
+        signatory_title: template.signatoryTitle || null,
+        issued_by: user?.user?.id || null
+      };
+
+      for (let attempt = 1; ; attempt++) {
+        const { data, error } = await this.supabase
+          .from('certificates')
+          .insert({ ...row, verification_code: generateVerificationCode() })
+          .select('*')
+          .single();
+
+        if (!error) return { success: true, data: this.transformCertificate(data) };
+
+        if (error.code === UNIQUE_VIOLATION && String(error.message).includes('idx_certificates_completion')) {
+          return certificateError('ALREADY_ISSUED', 'A completion certificate has already been issued for this course', {
+            studentName: record.studentName
+          });
+        }
+        // A verification code collision; draw another
+        if (error.code !== UNIQUE_VIOLATION || attempt >= CODE_ATTEMPTS) throw error;
+      }
+    } catch (error) {
+      logger.error('Failed to issue certificate:', error);
+      return certificateError('ISSUE_CERTIFICATE_ERROR', 'Failed to issue the certificate', error);
+    }
+  }
+
+  /**
+   * Eligibility of every student booked into a class
+   */
+  async previewClassIssuance(classId: string, certificateType: CertificateType): Promise<HourApiResponse<CertificateEligibility[]>> {
+    try {
+      const studentIds = await this.loadClassStudents(classId);
+      const results: CertificateEligibility[] = [];
+
+      for (const studentId of studentIds) {
+        const result = await this.checkEligibility({ studentId, certificateType, classId });
+        if (!result.success || !result.data) return certificateError(result.error!.code, result.error!.message, result.error!.details);
+        results.push(result.data);
+      }
+
+      return { success: true, data: results };
+    } catch (error) {
+      return certificateError('PREVIEW_ISSUANCE_ERROR', 'Failed to check the class for certificates', error);
+    }
+  }
+
+  /**
+   * Issue certificates to every eligible student booked into a class
+   */
+  async issueForClass(classId: string, certificateType: CertificateType): Promise<HourApiResponse<ClassIssuanceResult>> {
+    try {
+      const studentIds = await this.loadClassStudents(classId);
+      const result: ClassIssuanceResult = { issued: [], skipped: [] };
+
+      for (const studentId of studentIds) {
+        const issued = await this.issueCertificate({ studentId, certificateType, classId });
+        if (issued.success && issued.data) {
+          result.issued.push(issued.data);
+        } else {
+          result.skipped.push({
+            studentId,
+            studentName: issued.error?.details?.studentName || studentId,
+            reasons: issued.error?.details?.reasons || [issued.error?.message || 'Failed to issue']
+          });
+        }
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      return certificateError('CLASS_ISSUANCE_ERROR', 'Failed to issue certificates for the class', error);
+    }
+  }
+
+  /**
+   * Classes to issue certificates for, most recently finished first
+   */
+  async listClasses(): Promise<HourApiResponse<Array<{ id: string; className: string; courseTitle?: string; courseType?: string; endDate?: string }>>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('classes')
+        .select('id, class_name, end_date, course:courses(title, course_type)')
+        .order('end_date', { ascending: false, nullsFirst: false });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map((row: any) => ({
+          id: row.id,
+          className: row.class_name || row.course?.title || 'Class',
+          courseTitle: row.course?.title || undefined,
+          courseType: row.course?.course_type || undefined,
+          endDate: row.end_date || undefined
+        }))
+      };
+    } catch (error) {
+      return certificateError('FETCH_CLASSES_ERROR', 'Failed to fetch classes', error);
+    }
+  }
+
+  async listCertificates(filters: { studentId?: string; classId?: string } = {}): Promise<HourApiResponse<Certificate[]>> {
+    try {
+      let query = this.supabase
+        .from('certificates')
+        .select('*')
+        .order('issued_at', { ascending: false });
+
+      if (filters.studentId) query = query.eq('student_id', filters.studentId);
+      if (filters.classId) query = query.eq('class_id', filters.classId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((row: any) => this.transformCertificate(row)) };
+    } catch (error) {
+      return certificateError('FETCH_CERTIFICATES_ERROR', 'Failed to fetch certificates', error);
+    }
+  }
+
+  async getCertificate(certificateId: string): Promise<HourApiResponse<Certificate>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('certificates')
+        .select('*')
+        .eq('id', certificateId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return certificateError('CERTIFICATE_NOT_FOUND', 'Certificate not found');
+
+      return { success: true, data: this.transformCertificate(data) };
+    } catch (error) {
+      return certificateError('FETCH_CERTIFICATE_ERROR', 'Failed to fetch the certificate', error);
+    }
+  }
+
+  /**
+   * Public check of a verification code
+   */
+  async verifyCertificate(code: string): Promise<HourApiResponse<CertificateVerification>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('certificates')
+        .select('*')
+        .eq('verification_code', normalizeVerificationCode(code))
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return certificateError('CERTIFICATE_NOT_FOUND', 'No certificate matches this code');
+
+      const certificate = this.transformCertificate(data);
+      return {
+        success: true,
+        data: {
+          verificationCode: certificate.verificationCode,
+          status: certificate.revokedAt ? 'revoked' : 'valid',
+          certificateType: certificate.certificateType,
+          title: certificate.title,
+          studentName: certificate.studentName,
+          courseTitle: certificate.courseTitle,
+          periodStart: certificate.periodStart,
+          periodEnd: certificate.periodEnd,
+          attendanceRate: certificate.attendanceRate,
+          hoursAttended: certificate.hoursAttended,
+          completedAt: certificate.completedAt,
+          issuedAt: certificate.issuedAt,
+          revokedAt: certificate.revokedAt
+        }
+      };
+    } catch (error) {
+      return certificateError('VERIFY_CERTIFICATE_ERROR', 'Failed to verify the certificate', error);
+    }
+  }
+
+  async revokeCertificate(certificateId: string, reason: string): Promise<HourApiResponse<Certificate>> {
+    if (!reason.trim()) {
+      return certificateError('REASON_REQUIRED', 'Give a reason for revoking the certificate');
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('certificates')
+        .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+        .eq('id', certificateId)
+        .is('revoked_at', null)
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return certificateError('CERTIFICATE_NOT_FOUND', 'Certificate not found or already revoked');
+
+      return { success: true, data: this.transformCertificate(data) };
+    } catch (error) {
+      return certificateError('REVOKE_CERTIFICATE_ERROR', 'Failed to revoke the certificate', error);
+    }
+  }
+
+  /**
+   * Attendance and completion figures for a certificate request
+   */
+  private async buildRecord(request: IssueCertificateRequest): Promise<CertificateRecord> {
+    const { data: student, error: studentError } = await this.supabase
+      .from('students')
+      .select('id, full_name')
+      .eq('id', request.studentId)
+      .single();
+
+    if (studentError) throw studentError;
+
+    let course: any = null;
+    if (request.courseId) {
+      const { data, error } = await this.supabase
+        .from('courses')
+        .select('id, title, course_type')
+        .eq('id', request.courseId)
+        .single();
+      if (error) throw error;
+      course = data;
+    } else if (request.classId) {
+      const { data, error } = await this.supabase
+        .from('classes')
+        .select('course:courses(id, title, course_type)')
+        .eq('id', request.classId)
+        .single();
+      if (error) throw error;
+      course = data?.course || null;
+    }
+
+    let completion: any = null;
+    if (course) {
+      const { data, error } = await this.supabase
+        .from('student_courses')
+        .select('completed_at, final_assessment_score, final_assessment_passed')
+        .eq('student_id', request.studentId)
+        .eq('course_id', course.id)
+        .maybeSingle();
+      if (error) throw error;
+      completion = data;
+    }
+
+    let query = this.supabase
+      .from('attendance')
+      .select('status, booking:bookings!inner(student_id, class_id, start_time, duration_minutes, class:classes!inner(course_id))')
+      .eq('booking.student_id', request.studentId);
+
+    if (request.classId) {
+      query = query.eq('booking.class_id', request.classId);
+    } else if (course) {
+      query = query.eq('booking.class.course_id', course.id);
+    }
+    if (request.periodStart) query = query.gte('booking.start_time', request.periodStart);
+    if (request.periodEnd) query = query.lte('booking.start_time', `${request.periodEnd.slice(0, 10)}T23:59:59.999Z`);
+
+    const { data: rows, error } = await query;
+    if (error) throw error;
+
+    const counted = (rows || []).filter((row: any) => row.status !== 'excused');
+    const attended = counted.filter((row: any) => row.status === 'present' || row.status === 'late');
+    const starts = (rows || []).map((row: any) => row.booking.start_time as string).sort();
+    const minutes = attended.reduce((sum: number, row: any) => sum + (row.booking.duration_minutes || 0), 0);
+
+    return {
+      studentId: student.id,
+      studentName: student.full_name,
+      courseId: course?.id,
+      courseTitle: course?.title,
+      courseType: course?.course_type,
+      classId: request.classId,
+      periodStart: (request.periodStart || starts[0])?.slice(0, 10),
+      periodEnd: (request.periodEnd || starts[starts.length - 1])?.slice(0, 10),
+      sessionsAttended: attended.length,
+      sessionsTotal: counted.length,
+      attendanceRate: counted.length > 0 ? attended.length / counted.length : undefined,
+      hoursAttended: Math.round((minutes / 60) * 100) / 100,
+      completedAt: completion?.completed_at || undefined,
+      finalAssessmentScore: completion?.final_assessment_score != null ? Number(completion.final_assessment_score) : undefined,
+      finalAssessmentPassed: completion?.final_assessment_passed ?? undefined
+    };
+  }
+
+  /**
+   * The course type's own template, else the general one
+   */
+  private async findTemplate(certificateType: CertificateType, courseType?: string): Promise<CertificateTemplate | null> {
+    const { data, error } = await this.supabase
+      .from('certificate_templates')
+      .select('*')
+      .eq('certificate_type', certificateType)
+      .eq('is_active', true);
+
+    if (error) throw error;
+
+    const templates = (data || []).map((row: any) => this.transformTemplate(row));
+    return templates.find((template: CertificateTemplate) => courseType && template.courseType === courseType) ||
+      templates.find((template: CertificateTemplate) => !template.courseType) ||
+      null;
+  }
+
+  private async loadClassStudents(classId: string): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('bookings')
+      .select('student_id')
+      .eq('class_id', classId)
+      .neq('status', 'cancelled');
+
+    if (error) throw error;
+    return [...new Set<string>((data || []).map((booking: any) => booking.student_id))];
+  }
+
+  private transformTemplate(data: any): CertificateTemplate {
+    return {
+      id: data.id,
+      certificateType: data.certificate_type,
+      courseType: data.course_type || undefined,
+      title: data.title,
+      bodyText: data.body_text,
+      signatoryName: data.signatory_name || undefined,
+      signatoryTitle: data.signatory_title || undefined,
+      minAttendanceRate: data.min_attendance_rate != null ? Number(data.min_attendance_rate) : undefined,
+      requiresCompletion: data.requires_completion,
+      requiresFinalAssessment: data.requires_final_assessment,
+      isActive: data.is_active
+    };
+  }
+
+  private transformCertificate(data: any): Certificate {
+    return {
+      id: data.id,
+      verificationCode: data.verification_code,
+      certificateType: data.certificate_type,
+      templateId: data.template_id || undefined,
+      studentId: data.student_id,
+      courseId: data.course_id || undefined,
+      classId: data.class_id || undefined,
+      title: data.title,
+      bodyText: data.body_text,
+      studentName: data.student_name,
+      courseTitle: data.course_title || undefined,
+      courseType: data.course_type || undefined,
+      periodStart: data.period_start || undefined,
+      periodEnd: data.period_end || undefined,
+      sessionsAttended: data.sessions_attended,
+      sessionsTotal: data.sessions_total,
+      attendanceRate: data.attendance_rate != null ? Number(data.attendance_rate) : undefined,
+      hoursAttended: Number(data.hours_attended),
+      completedAt: data.completed_at || undefined,
+      finalAssessmentScore: data.final_assessment_score != null ? Number(data.final_assessment_score) : undefined,
+      signatoryName: data.signatory_name || undefined,
+      signatoryTitle: data.signatory_title || undefined,
+      issuedAt: data.issued_at,
+      issuedBy: data.issued_by || undefined,
+      revokedAt: data.revoked_at || undefined,
+      revokedReason: data.revoked_reason || undefined
+    };
+  }
+}
+
+// Export singleton instance
+export const certificateService = new CertificateService();
@@ -661,35 +661,8 @@ export class ClassAttendanceAnalyticsService {
 
     // Next month attendance prediction
     const attendanceTrend = trends.find(t => t.metric === 'attendance_rate');
-    if (attendanceTrend && attendanceTrend.dataPoints.length >= 4) {
-      const currentRate = attendanceTrend.dataPoints[attendanceTrend.dataPoints.length - 1].value;
-      const predictedRate = this.extrapolateValue(
-        attendanceTrend.dataPoints.map(dp => dp.value),
-        4 // 4 weeks ahead
-      );
-
-      const factors: PredictionFactor[] = [
-        {
-          factor: 'Historical Trend',
-          impact: Math.abs(attendanceTrend.changeRate) / 100,
-          description: `Attendance has been ${attendanceTrend.trend} by ${Math.abs(attendanceTrend.changeRate).toFixed(1)}%`
-        },
-        {
-          factor: 'Seasonal Patterns',
-          impact: attendanceTrend.seasonality ? attendanceTrend.seasonality.impact : 0.1,
-          description: attendanceTrend.seasonality ? attendanceTrend.seasonality.description : 'No strong seasonal patterns'
-        }
-      ];
-
-      predictions.push({
-        metric: 'attendance_rate',
-        predictedValue: Math.max(0, Math.min(100, predictedRate)),
-        targetDate: format(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), 'yyyy-MM-dd'),
-        confidence: attendanceTrend.confidence,
-        factors,
-        riskLevel: predictedRate < 70 ? 'high' : predictedRate < 85 ? 'medium' : 'low'
-      });
-    }
+    const attendancePrediction = attendanceTrend && this.predictFromAttendanceTrend(attendanceTrend);
+    if (attendancePrediction) predictions.push(attendancePrediction);
 
     // Student dropout risk prediction
     const retentionTrend = trends.find(t => t.metric === 'retention');
@@ -719,6 +692,56 @@ export class ClassAttendanceAnalyticsService {
     return predictions;
   }
 
+  /**
+   * Predict the attendance rate four weeks ahead from weekly attendance rates
+   * (percent, oldest first). Used for a class and for a single student.
+   */
+  predictAttendanceRate(
+    dataPoints: { date: string; value: number }[],
+    timeframe: ClassAttendanceTrend['timeframe'] = '30_days'
+  ): AttendancePrediction | undefined {
+    return this.predictFromAttendanceTrend({
+      metric: 'attendance_rate',
+      timeframe,
+      trend: this.calculateTrendDirection(dataPoints),
+      changeRate: this.calculateChangeRate(dataPoints),
+      confidence: Math.min(0.9, dataPoints.length / 12),
+      dataPoints,
+      seasonality: this.detectSeasonality(dataPoints)
+    });
+  }
+
+  private predictFromAttendanceTrend(attendanceTrend: ClassAttendanceTrend): AttendancePrediction | undefined {
+    if (attendanceTrend.dataPoints.length < 4) return undefined;
+
+    const predictedRate = this.extrapolateValue(
+      attendanceTrend.dataPoints.map(dp => dp.value),
+      4 // 4 weeks ahead
+    );
+
+    const factors: PredictionFactor[] = [
+      {
+        factor: 'Historical Trend',
+        impact: Math.abs(attendanceTrend.changeRate) / 100,
+        description: `Attendance has been ${attendanceTrend.trend} by ${Math.abs(attendanceTrend.changeRate).toFixed(1)}%`
+      },
+      {
+        factor: 'Seasonal Patterns',
+        impact: attendanceTrend.seasonality ? attendanceTrend.seasonality.impact : 0.1,
+        description: attendanceTrend.seasonality ? attendanceTrend.seasonality.description : 'No strong seasonal patterns'
+      }
+    ];
+
+    return {
+      metric: 'attendance_rate',
+      predictedValue: Math.max(0, Math.min(100, predictedRate)),
+      targetDate: format(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), 'yyyy-MM-dd'),
+      confidence: attendanceTrend.confidence,
+      factors,
+      riskLevel: predictedRate < 70 ? 'high' : predictedRate < 85 ? 'medium' : 'low'
+    };
+  }
+
   /**
    * Extrapolate future values using linear regression
    */
@@ -2,6 +2,8 @@ import { CRUDService, withRetry } from "./crud-service";
 import { supabase } from "@/lib/supabase";
 import { z } from "zod";
 import { logger } from '@/lib/services';
+import { waitlistOfferService } from "./waitlist-offer-service";
+import type { WaitlistMetrics } from "@/types/waitlist";
 import { 
   CLASS_CAPACITY, 
   COURSE_TYPE_CAPACITY, 
@@ -30,6 +32,7 @@ export interface ClassCapacityInfo {
   current_enrolled: number;
   max_capacity: number;
   waiting_list_count: number;
+  held_offers: number; // seats held for waitlisted students with an open offer
   available_spots: number;
   is_full: boolean;
   can_accept_waitlist: boolean;
@@ -37,17 +40,6 @@ export interface ClassCapacityInfo {
   capacity_utilization: number; // percentage
 }
 
-// Waiting list entry
-export interface WaitingListEntry {
-  id: string;
-  student_id: string;
-  class_id: string;
-  position: number;
-  enrolled_at: string;
-  student_name: string;
-  student_email: string;
-}
-
 // Class split recommendation
 export interface ClassSplitRecommendation {
   class_id: string;
@@ -109,7 +101,8 @@ export class ClassCapacityService extends CRUDService<Enrollment> {
       const maxCapacity = classData.max_students || 
         (classData.type === 'individual' ? CLASS_CAPACITY.INDIVIDUAL : CLASS_CAPACITY.GROUP_MAX);
 
-      const availableSpots = Math.max(0, maxCapacity - enrolled.length);
+      const heldOffers = await waitlistOfferService.countHeldSeats(classId);
+      const availableSpots = Math.max(0, maxCapacity - enrolled.length - heldOffers);
       const capacityUtilization = (enrolled.length / maxCapacity) * 100;
 
       return {
@@ -117,8 +110,9 @@ export class ClassCapacityService extends CRUDService<Enrollment> {
         current_enrolled: enrolled.length,
         max_capacity: maxCapacity,
         waiting_list_count: waitlisted.length,
+        held_offers: heldOffers,
         available_spots: availableSpots,
-        is_full: enrolled.length >= maxCapacity,
+        is_full: availableSpots === 0,
         can_accept_waitlist: waitlisted.length < CLASS_CAPACITY.WAITING_LIST_MAX,
         course_type: classData.type,
         capacity_utilization: Math.round(capacityUtilization),
@@ -250,117 +244,24 @@ export class ClassCapacityService extends CRUDService<Enrollment> {
   }
 
   /**
-   * Promote the next student from waiting list
+   * Offer the next free seat to the waiting list. The student is enrolled
+   * only once they accept within the class's offer window.
    */
-  async promoteFromWaitlist(classId: string): Promise<boolean> {
+  async promoteFromWaitlist(classId: string, windowHours?: number): Promise<boolean> {
     try {
       const capacity = await this.getClassCapacity(classId);
       if (!capacity || capacity.available_spots === 0) {
         return false;
       }
 
-      // Get the next student in line
-      const { data: nextStudent, error } = await supabase
-        .from('class_enrollments')
-        .select('*')
-        .eq('class_id', classId)
-        .eq('status', ENROLLMENT_STATUS.WAITLISTED)
-        .order('position_in_waitlist', { ascending: true })
-        .limit(1)
-        .single();
-
-      if (error || !nextStudent) {
-        return false;
-      }
-
-      // Promote to enrolled
-      const { error: promotionError } = await supabase
-        .from('class_enrollments')
-        .update({
-          status: ENROLLMENT_STATUS.ENROLLED,
-          enrolled_at: new Date().toISOString(),
-          position_in_waitlist: null,
-        })
-        .eq('id', nextStudent.id);
-
-      if (promotionError) {
-        return false;
-      }
-
-      // Update positions for remaining waitlisted students
-      await this.updateWaitlistPositions(classId);
-
-      return true;
+      const result = await waitlistOfferService.offerNextSeat(classId, { windowHours });
+      return result.success && !!result.data;
     } catch (error) {
       logger.error('Error promoting from waitlist:', error);
       return false;
     }
   }
 
-  /**
-   * Update waiting list positions after a change
-   */
-  private async updateWaitlistPositions(classId: string): Promise<void> {
-    const { data: waitlisted } = await supabase
-      .from('class_enrollments')
-      .select('id')
-      .eq('class_id', classId)
-      .eq('status', ENROLLMENT_STATUS.WAITLISTED)
-      .order('waitlisted_at', { ascending: true });
-
-    if (waitlisted) {
-      const updates = waitlisted.map((entry, index) => ({
-        id: entry.id,
-        position_in_waitlist: index + 1,
-      }));
-
-      for (const update of updates) {
-        await supabase
-          .from('class_enrollments')
-          .update({ position_in_waitlist: update.position_in_waitlist })
-          .eq('id', update.id);
-      }
-    }
-  }
-
-  /**
-   * Get waiting list for a class
-   */
-  async getWaitingList(classId: string): Promise<WaitingListEntry[]> {
-    try {
-      const { data, error } = await supabase
-        .from('class_enrollments')
-        .select(`
-          id,
-          student_id,
-          class_id,
-          position_in_waitlist,
-          waitlisted_at,
-          student:users!class_enrollments_student_id_fkey(first_name, last_name, email)
-        `)
-        .eq('class_id', classId)
-        .eq('status', ENROLLMENT_STATUS.WAITLISTED)
-        .order('position_in_waitlist', { ascending: true });
-
-      if (error) {
-        throw error;
-      }
-
-      return (data || []).map(entry => ({
-        id: entry.id,
-        student_id: entry.student_id,
-        class_id: entry.class_id,
-        position: entry.position_in_waitlist || 0,
-        enrolled_at: entry.waitlisted_at,
-        student_name: `${entry.student.first_name} ${entry.student.last_name}`,
-        student_email: entry.student.email,
-      }));
-    } catch (error) {
-      logger.error('Error getting waiting list:', error);
-      return [];
-    }
-  }
-
   /**
    * Get classes that need attention (over capacity, split recommendations, etc.)
    */
@@ -491,6 +392,7 @@ export class ClassCapacityService extends CRUDService<Enrollment> {
     total_completed: number;
     capacity_utilization: number;
     waitlist_conversion_rate: number;
+    waitlist_metrics: WaitlistMetrics | null;
   }> {
     try {
       const { data: enrollments, error } = await supabase
@@ -509,6 +411,7 @@ export class ClassCapacityService extends CRUDService<Enrollment> {
         total_completed: 0,
         capacity_utilization: 0,
         waitlist_conversion_rate: 0,
+        waitlist_metrics: null as WaitlistMetrics | null,
       };
 
       const capacity = await this.getClassCapacity(classId);
@@ -541,6 +444,8 @@ export class ClassCapacityService extends CRUDService<Enrollment> {
         stats.waitlist_conversion_rate = Math.round((stats.total_enrolled / totalWaitlisted) * 100);
       }
 
+      stats.waitlist_metrics = await waitlistOfferService.getClassMetrics(classId);
+
       return stats;
     } catch (error) {
       logger.error('Error getting enrollment stats:', error);
@@ -551,6 +456,7 @@ export class ClassCapacityService extends CRUDService<Enrollment> {
         total_completed: 0,
         capacity_utilization: 0,
         waitlist_conversion_rate: 0,
+        waitlist_metrics: null,
       };
     }
   }
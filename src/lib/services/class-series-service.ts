@@ -0,0 +1,729 @@
+/**
+ * Class Series Service
+ *
+ * Runs group courses such as Everyday A and Speak Up as recurring series.
+ * Sessions are materialised from the series RRULE between its start and end
+ * dates, skipping academy closures, and every enrolled student holds one
+ * booking per session. Changes to "this and following" sessions, skips with
+ * make-ups, end-date changes and teacher moves keep those bookings in step.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import { closureCalendarService, findClosure } from './closure-calendar-service';
+import { expandRecurrenceDates, parseRRule } from '@/lib/utils/recurrence';
+import { addDaysToDate, getZonedParts, isValidTimeZone, resolveTimeZone, zonedTimeToUtc } from '@/lib/utils/timezone';
+import type { AcademyClosure } from '@/types/closures';
+import type { HourApiResponse } from '@/types/hours';
+import type {
+  ClassSeries,
+  ClassSeriesDetails,
+  CreateClassSeriesRequest,
+  PlannedOccurrence,
+  SeriesChangeResult,
+  SeriesEnrollment,
+  SeriesOccurrence,
+  SeriesScheduleChanges,
+  SkipOccurrenceRequest,
+  SkipOccurrenceResult
+} from '@/types/class-series';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const LOCAL_TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MINUTE_MS = 60 * 1000;
+const OPEN_BOOKING_STATUSES = ['pending', 'confirmed'];
+// How far past the series end to look for a make-up date
+const MAKE_UP_SEARCH_DAYS = 366;
+
+type SeriesPattern = Pick<ClassSeries, 'rrule' | 'startTime' | 'durationMinutes' | 'timeZone' | 'location'>;
+
+/**
+ * Session times for a series pattern between two local dates, skipping
+ * closures at the series location. `anchorDate` is a date on the pattern
+ * (DTSTART), so every-other-week and monthly rules stay aligned.
+ */
+export function planSeriesOccurrences(
+  series: SeriesPattern,
+  anchorDate: string,
+  fromDate: string,
+  toDate: string,
+  closures: AcademyClosure[] = []
+): PlannedOccurrence[] {
+  return expandRecurrenceDates(parseRRule(series.rrule), anchorDate, fromDate, toDate)
+    .map(date => planOccurrence(series, date))
+    .filter(planned => !findClosure(closures, planned.startTime, planned.endTime, series.location));
+}
+
+function planOccurrence(series: SeriesPattern, date: string): PlannedOccurrence {
+  const start = zonedTimeToUtc(date, series.startTime, series.timeZone);
+  return {
+    occurrenceDate: date,
+    startTime: start.toISOString(),
+    endTime: new Date(start.getTime() + series.durationMinutes * MINUTE_MS).toISOString()
+  };
+}
+
+export function validateSeriesPattern(pattern: Partial<SeriesPattern>): string | null {
+  if (pattern.rrule !== undefined) {
+    try {
+      const rule = parseRRule(pattern.rrule);
+      if (rule.count || rule.until) return 'The series end is set by its end date, not COUNT or UNTIL';
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid recurrence rule';
+    }
+  }
+  if (pattern.startTime !== undefined && !LOCAL_TIME.test(pattern.startTime)) return 'Start time must be HH:mm';
+  if (pattern.durationMinutes !== undefined && !(pattern.durationMinutes > 0)) return 'Duration must be positive';
+  if (pattern.timeZone !== undefined && !isValidTimeZone(pattern.timeZone)) return `Unknown time zone: ${pattern.timeZone}`;
+  return null;
+}
+
+function seriesError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class ClassSeriesService {
+  private supabase;
+  private closures;
+
+  constructor(client: any = defaultClient, closures: any = closureCalendarService) {
+    this.supabase = client;
+    this.closures = closures;
+  }
+
+  // ========================================
+  // Series
+  // ========================================
+
+  async listSeries(): Promise<HourApiResponse<ClassSeries[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('class_series')
+        .select('*')
+        .neq('status', 'cancelled')
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((row: any) => this.transformSeries(row)) };
+    } catch (error) {
+      return seriesError('FETCH_SERIES_ERROR', 'Failed to fetch class series', error);
+    }
+  }
+
+  async getSeriesDetails(seriesId: string): Promise<HourApiResponse<ClassSeriesDetails>> {
+    try {
+      const series = await this.loadSeries(seriesId);
+      const [occurrences, enrollments] = await Promise.all([
+        this.supabase
+          .from('class_series_occurrences')
+          .select('*')
+          .eq('series_id', seriesId)
+          .order('occurrence_date', { ascending: true }),
+        this.supabase
+          .from('class_series_enrollments')
+          .select('*')
+          .eq('series_id', seriesId)
+      ]);
+
+      if (occurrences.error) throw occurrences.error;
+      if (enrollments.error) throw enrollments.error;
+
+      return {
+        success: true,
+        data: {
+          series,
+          occurrences: (occurrences.data || []).map((row: any) => this.transformOccurrence(row)),
+          enrollments: (enrollments.data || []).map((row: any) => this.transformEnrollment(row))
+        }
+      };
+    } catch (error) {
+      return seriesError('FETCH_SERIES_ERROR', 'Failed to fetch class series', error);
+    }
+  }
+
+  /**
+   * Create a series, its class and every session up to the end date
+   */
+  async createSeries(request: CreateClassSeriesRequest, createdBy?: string): Promise<HourApiResponse<ClassSeriesDetails>> {
+    const timeZone = resolveTimeZone(request.timeZone);
+    const validationError = !request.name?.trim() || !request.courseId
+      ? 'Series name and course are required'
+      : !ISO_DATE.test(request.startDate) || !ISO_DATE.test(request.endDate)
+        ? 'Start and end dates must be YYYY-MM-DD'
+        : request.endDate < request.startDate
+          ? 'End date must be on or after the start date'
+          : !(request.capacity > 0 && request.capacity <= 9)
+            ? 'Capacity must be between 1 and 9'
+            : validateSeriesPattern({ ...request, timeZone });
+
+    if (validationError) {
+      return seriesError('INVALID_SERIES', validationError);
+    }
+
+    try {
+      const { data: seriesRow, error: insertError } = await this.supabase
+        .from('class_series')
+        .insert({
+          course_id: request.courseId,
+          teacher_id: request.teacherId,
+          name: request.name.trim(),
+          rrule: request.rrule,
+          start_date: request.startDate,
+          end_date: request.endDate,
+          start_time: request.startTime,
+          duration_minutes: request.durationMinutes,
+          timezone: timeZone,
+          location: request.location,
+          meeting_link: request.meetingLink,
+          capacity: request.capacity,
+          created_by: createdBy
+        })
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      const series = this.transformSeries(seriesRow);
+      const { data: classRow, error: classError } = await this.supabase
+        .from('classes')
+        .insert({
+          course_id: series.courseId,
+          teacher_id: series.teacherId,
+          class_name: series.name,
+          capacity: series.capacity,
+          current_enrollment: 0,
+          start_date: series.startDate,
+          end_date: series.endDate,
+          location: series.location,
+          meeting_link: series.meetingLink,
+          timezone: series.timeZone,
+          series_id: series.id
+        })
+        .select()
+        .single();
+
+      if (classError) throw classError;
+
+      const closures = await this.closures.getActiveClosures(series.startDate, series.endDate);
+      const planned = planSeriesOccurrences(series, series.startDate, series.startDate, series.endDate, closures);
+      const occurrences = await this.insertOccurrences(series, classRow.id, planned);
+
+      logger.info(`Created class series ${series.name} with ${occurrences.length} sessions`);
+
+      return { success: true, data: { series, occurrences, enrollments: [] } };
+    } catch (error) {
+      return seriesError('CREATE_SERIES_ERROR', 'Failed to create class series', error);
+    }
+  }
+
+  /**
+   * Move the series end date, adding sessions up to a later date or
+   * cancelling sessions after an earlier one
+   */
+  async setEndDate(seriesId: string, endDate: string): Promise<HourApiResponse<SeriesChangeResult>> {
+    try {
+      const series = await this.loadSeries(seriesId);
+
+      if (!ISO_DATE.test(endDate) || endDate < series.startDate) {
+        return seriesError('INVALID_END_DATE', 'End date must be on or after the series start date');
+      }
+
+      let planned: PlannedOccurrence[] = [];
+
+      // Sessions after an earlier end date are cancelled with the update
+      if (endDate > series.endDate) {
+        const fromDate = addDaysToDate(series.endDate, 1);
+        const closures = await this.closures.getActiveClosures(fromDate, endDate);
+        planned = planSeriesOccurrences(series, await this.getAnchorDate(series), fromDate, endDate, closures);
+      }
+
+      const result = await this.applyPlan(series, [], planned, { end_date: endDate });
+
+      return { success: true, data: result };
+    } catch (error) {
+      return seriesError('UPDATE_END_DATE_ERROR', 'Failed to change the series end date', error);
+    }
+  }
+
+  // ========================================
+  // Sessions
+  // ========================================
+
+  /**
+   * Change the pattern, time, length or location of a session and every
+   * following session. Sessions that keep their date keep their bookings;
+   * the rest are moved in order, and any surplus is added or cancelled.
+   */
+  async updateFollowing(occurrenceId: string, changes: SeriesScheduleChanges): Promise<HourApiResponse<SeriesChangeResult>> {
+    const validationError = validateSeriesPattern(changes);
+    if (validationError) {
+      return seriesError('INVALID_SERIES', validationError);
+    }
+
+    try {
+      const occurrence = await this.loadOccurrence(occurrenceId);
+      const series = await this.loadSeries(occurrence.seriesId);
+      const updated: ClassSeries = {
+        ...series,
+        rrule: changes.rrule ?? series.rrule,
+        startTime: changes.startTime ?? series.startTime,
+        durationMinutes: changes.durationMinutes ?? series.durationMinutes,
+        location: changes.location ?? series.location
+      };
+
+      const following = await this.getUpcoming(series.id, occurrence.occurrenceDate);
+      const closures = await this.closures.getActiveClosures(occurrence.occurrenceDate, series.endDate);
+      const planned = planSeriesOccurrences(updated, occurrence.occurrenceDate, occurrence.occurrenceDate, series.endDate, closures);
+      const result = await this.applyPlan(updated, following, planned, {
+        rrule: updated.rrule,
+        start_time: updated.startTime,
+        duration_minutes: updated.durationMinutes,
+        location: updated.location
+      });
+
+      return { success: true, data: result };
+    } catch (error) {
+      return seriesError('UPDATE_SERIES_ERROR', 'Failed to update the following sessions', error);
+    }
+  }
+
+  /**
+   * Skip one session and, unless turned off, add a make-up session on the
+   * next pattern date after the series ends
+   */
+  async skipOccurrence(occurrenceId: string, request: SkipOccurrenceRequest = {}): Promise<HourApiResponse<SkipOccurrenceResult>> {
+    if (request.makeUpDate && !ISO_DATE.test(request.makeUpDate)) {
+      return seriesError('INVALID_MAKE_UP_DATE', 'Make-up date must be YYYY-MM-DD');
+    }
+
+    try {
+      const occurrence = await this.loadOccurrence(occurrenceId);
+
+      if (occurrence.status !== 'scheduled') {
+        return seriesError('INVALID_OCCURRENCE', `Cannot skip a ${occurrence.status} session`);
+      }
+
+      const series = await this.loadSeries(occurrence.seriesId);
+      let planned: PlannedOccurrence | undefined;
+
+      if (request.makeUp !== false) {
+        planned = request.makeUpDate
+          ? planOccurrence(series, request.makeUpDate)
+          : await this.findMakeUpSlot(series);
+
+        if (!planned) {
+          logger.warn(`No make-up date found for skipped session ${occurrence.id} of series ${series.name}`);
+        }
+      }
+
+      const { data, error } = await this.supabase.rpc('skip_class_series_occurrence', {
+        p_occurrence_id: occurrence.id,
+        p_reason: request.reason,
+        p_make_up: planned
+          ? { occurrence_date: planned.occurrenceDate, start_time: planned.startTime, end_time: planned.endTime }
+          : null
+      });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: {
+          skipped: { ...occurrence, status: 'skipped', skipReason: request.reason },
+          makeUp: data.make_up ? this.transformOccurrence(data.make_up) : undefined,
+          cancelledBookings: data.cancelled_bookings
+        }
+      };
+    } catch (error) {
+      return seriesError('SKIP_OCCURRENCE_ERROR', 'Failed to skip session', error);
+    }
+  }
+
+  /**
+   * Hand a session and every following session to another teacher. Past
+   * sessions stay on the original class so their teacher is unchanged.
+   */
+  async changeTeacherFrom(occurrenceId: string, teacherId: string): Promise<HourApiResponse<SeriesChangeResult>> {
+    try {
+      const { data, error } = await this.supabase.rpc('change_class_series_teacher', {
+        p_occurrence_id: occurrenceId,
+        p_teacher_id: teacherId
+      });
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformChangeResult(data) };
+    } catch (error) {
+      return seriesError('CHANGE_TEACHER_ERROR', 'Failed to change the series teacher', error);
+    }
+  }
+
+  // ========================================
+  // Enrollment
+  // ========================================
+
+  /**
+   * Enroll a student and book every upcoming session from `fromDate`
+   */
+  async enrollStudent(seriesId: string, studentId: string, fromDate?: string): Promise<HourApiResponse<SeriesEnrollment>> {
+    try {
+      const series = await this.loadSeries(seriesId);
+      const startDate = fromDate || getZonedParts(new Date(), series.timeZone).date;
+
+      const { data: existing, error: existingError } = await this.supabase
+        .from('class_series_enrollments')
+        .select('*')
+        .eq('series_id', seriesId)
+        .eq('status', 'active');
+
+      if (existingError) throw existingError;
+
+      if ((existing || []).some((row: any) => row.student_id === studentId)) {
+        return seriesError('ALREADY_ENROLLED', 'Student is already enrolled in this series');
+      }
+      if ((existing || []).length >= series.capacity) {
+        return seriesError('SERIES_FULL', 'This series is full');
+      }
+
+      const { data, error } = await this.supabase
+        .from('class_series_enrollments')
+        .upsert({
+          series_id: seriesId,
+          student_id: studentId,
+          status: 'active',
+          enrolled_from: startDate,
+          withdrawn_from: null
+        }, { onConflict: 'series_id,student_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const enrollment = this.transformEnrollment(data);
+      await this.bookEnrolledStudents(seriesId, await this.getUpcoming(seriesId, startDate), [enrollment]);
+      await this.syncEnrollmentCount(seriesId, (existing || []).length + 1);
+
+      return { success: true, data: enrollment };
+    } catch (error) {
+      return seriesError('ENROLL_SERIES_ERROR', 'Failed to enroll student in series', error);
+    }
+  }
+
+  /**
+   * Withdraw a student and cancel their bookings from `fromDate`
+   */
+  async withdrawStudent(seriesId: string, studentId: string, fromDate?: string): Promise<HourApiResponse<{ cancelledBookings: number }>> {
+    try {
+      const series = await this.loadSeries(seriesId);
+      const startDate = fromDate || getZonedParts(new Date(), series.timeZone).date;
+
+      const { error } = await this.supabase
+        .from('class_series_enrollments')
+        .update({ status: 'withdrawn', withdrawn_from: startDate })
+        .eq('series_id', seriesId)
+        .eq('student_id', studentId);
+
+      if (error) throw error;
+
+      const upcomingIds = (await this.getUpcoming(seriesId, startDate)).map(occurrence => occurrence.id);
+      let cancelledBookings = 0;
+
+      if (upcomingIds.length > 0) {
+        const { data, error: bookingError } = await this.supabase
+          .from('bookings')
+          .update({ status: 'cancelled' })
+          .eq('student_id', studentId)
+          .in('series_occurrence_id', upcomingIds)
+          .in('status', OPEN_BOOKING_STATUSES)
+          .select('id');
+
+        if (bookingError) throw bookingError;
+        cancelledBookings = data?.length || 0;
+      }
+
+      await this.syncEnrollmentCount(seriesId);
+
+      return { success: true, data: { cancelledBookings } };
+    } catch (error) {
+      return seriesError('WITHDRAW_SERIES_ERROR', 'Failed to withdraw student from series', error);
+    }
+  }
+
+  // ========================================
+  // Private helpers
+  // ========================================
+
+  /**
+   * Line existing sessions up with planned ones: same-date sessions are
+   * re-timed in place, other sessions move to the remaining dates in order,
+   * and leftovers on either side are cancelled or added. The series changes
+   * and every session and booking write are applied in one transaction.
+   */
+  private async applyPlan(
+    series: ClassSeries,
+    existing: SeriesOccurrence[],
+    planned: PlannedOccurrence[],
+    seriesChanges: Record<string, any>
+  ): Promise<SeriesChangeResult> {
+    const existingByDate = new Map(existing.map(occurrence => [occurrence.occurrenceDate, occurrence]));
+    const plannedDates = new Set(planned.map(item => item.occurrenceDate));
+    const unmatchedExisting = existing.filter(occurrence => !plannedDates.has(occurrence.occurrenceDate));
+    const unmatchedPlanned = planned.filter(item => !existingByDate.has(item.occurrenceDate));
+
+    const pairs: Array<[SeriesOccurrence, PlannedOccurrence]> = [
+      ...planned
+        .filter(item => existingByDate.has(item.occurrenceDate))
+        .map(item => [existingByDate.get(item.occurrenceDate)!, item] as [SeriesOccurrence, PlannedOccurrence]),
+      ...unmatchedExisting
+        .slice(0, unmatchedPlanned.length)
+        .map((occurrence, index) => [occurrence, unmatchedPlanned[index]] as [SeriesOccurrence, PlannedOccurrence])
+    ];
+    const toCancel = unmatchedExisting.slice(unmatchedPlanned.length);
+    const toAdd = unmatchedPlanned.slice(unmatchedExisting.length);
+    const location = series.location ?? null;
+
+    const moves = pairs
+      .filter(([occurrence, item]) =>
+        occurrence.occurrenceDate !== item.occurrenceDate ||
+        new Date(occurrence.startTime).getTime() !== new Date(item.startTime).getTime() ||
+        new Date(occurrence.endTime).getTime() !== new Date(item.endTime).getTime() ||
+        (occurrence.location ?? null) !== location
+      )
+      .map(([occurrence, item]) => ({
+        id: occurrence.id,
+        occurrence_date: item.occurrenceDate,
+        start_time: item.startTime,
+        end_time: item.endTime
+      }));
+
+    const { data, error } = await this.supabase.rpc('apply_class_series_plan', {
+      p_series_id: series.id,
+      p_series: seriesChanges,
+      p_moves: moves,
+      p_cancelled_ids: toCancel.map(occurrence => occurrence.id),
+      p_added: toAdd.map(item => ({
+        occurrence_date: item.occurrenceDate,
+        start_time: item.startTime,
+        end_time: item.endTime
+      })),
+      p_class_id: existing[existing.length - 1]?.classId ?? null
+    });
+
+    if (error) throw error;
+
+    return this.transformChangeResult(data);
+  }
+
+  private async insertOccurrences(
+    series: ClassSeries,
+    classId: string,
+    planned: PlannedOccurrence[]
+  ): Promise<SeriesOccurrence[]> {
+    if (planned.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('class_series_occurrences')
+      .insert(planned.map(item => ({
+        series_id: series.id,
+        class_id: classId,
+        teacher_id: series.teacherId,
+        occurrence_date: item.occurrenceDate,
+        start_time: item.startTime,
+        end_time: item.endTime,
+        location: series.location
+      })))
+      .select();
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => this.transformOccurrence(row));
+  }
+
+  /**
+   * Book enrolled students into sessions on or after their enrollment date;
+   * returns the number of bookings created
+   */
+  private async bookEnrolledStudents(
+    seriesId: string,
+    occurrences: SeriesOccurrence[],
+    enrollments?: SeriesEnrollment[]
+  ): Promise<number> {
+    if (occurrences.length === 0) return 0;
+
+    if (!enrollments) {
+      const { data, error } = await this.supabase
+        .from('class_series_enrollments')
+        .select('*')
+        .eq('series_id', seriesId)
+        .eq('status', 'active');
+
+      if (error) throw error;
+      enrollments = (data || []).map((row: any) => this.transformEnrollment(row));
+    }
+
+    const rows = enrollments.flatMap(enrollment => occurrences
+      .filter(occurrence => occurrence.occurrenceDate >= enrollment.enrolledFrom)
+      .map(occurrence => ({
+        student_id: enrollment.studentId,
+        class_id: occurrence.classId,
+        booking_date: occurrence.occurrenceDate,
+        start_time: occurrence.startTime,
+        end_time: occurrence.endTime,
+        duration_minutes: Math.round((new Date(occurrence.endTime).getTime() - new Date(occurrence.startTime).getTime()) / MINUTE_MS),
+        status: 'confirmed',
+        series_occurrence_id: occurrence.id
+      })));
+
+    if (rows.length === 0) return 0;
+
+    const { error } = await this.supabase.from('bookings').insert(rows);
+    if (error) throw error;
+
+    return rows.length;
+  }
+
+  private async findMakeUpSlot(series: ClassSeries): Promise<PlannedOccurrence | undefined> {
+    const fromDate = addDaysToDate(series.endDate, 1);
+    const toDate = addDaysToDate(series.endDate, MAKE_UP_SEARCH_DAYS);
+    const closures = await this.closures.getActiveClosures(fromDate, toDate);
+
+    return planSeriesOccurrences(series, await this.getAnchorDate(series), fromDate, toDate, closures)[0];
+  }
+
+  /**
+   * Latest regular session date, which is on the current pattern
+   */
+  private async getAnchorDate(series: ClassSeries): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('class_series_occurrences')
+      .select('occurrence_date')
+      .eq('series_id', series.id)
+      .is('makeup_for_id', null)
+      .neq('status', 'cancelled')
+      .order('occurrence_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data?.occurrence_date || series.startDate;
+  }
+
+  private async getUpcoming(seriesId: string, fromDate: string): Promise<SeriesOccurrence[]> {
+    const { data, error } = await this.supabase
+      .from('class_series_occurrences')
+      .select('*')
+      .eq('series_id', seriesId)
+      .eq('status', 'scheduled')
+      .gte('occurrence_date', fromDate)
+      .order('occurrence_date', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => this.transformOccurrence(row));
+  }
+
+  private async syncEnrollmentCount(seriesId: string, count?: number): Promise<void> {
+    if (count === undefined) {
+      const { count: active, error } = await this.supabase
+        .from('class_series_enrollments')
+        .select('id', { count: 'exact', head: true })
+        .eq('series_id', seriesId)
+        .eq('status', 'active');
+
+      if (error) throw error;
+      count = active || 0;
+    }
+
+    const { error } = await this.supabase
+      .from('classes')
+      .update({ current_enrollment: count })
+      .eq('series_id', seriesId);
+
+    if (error) throw error;
+  }
+
+  private async loadSeries(seriesId: string): Promise<ClassSeries> {
+    const { data, error } = await this.supabase
+      .from('class_series')
+      .select('*')
+      .eq('id', seriesId)
+      .single();
+
+    if (error) throw error;
+
+    return this.transformSeries(data);
+  }
+
+  private async loadOccurrence(occurrenceId: string): Promise<SeriesOccurrence> {
+    const { data, error } = await this.supabase
+      .from('class_series_occurrences')
+      .select('*')
+      .eq('id', occurrenceId)
+      .single();
+
+    if (error) throw error;
+
+    return this.transformOccurrence(data);
+  }
+
+  private transformSeries(data: any): ClassSeries {
+    return {
+      id: data.id,
+      courseId: data.course_id,
+      teacherId: data.teacher_id || undefined,
+      name: data.name,
+      rrule: data.rrule,
+      startDate: data.start_date,
+      endDate: data.end_date,
+      startTime: String(data.start_time).slice(0, 5),
+      durationMinutes: data.duration_minutes,
+      timeZone: resolveTimeZone(data.timezone),
+      location: data.location || undefined,
+      meetingLink: data.meeting_link || undefined,
+      capacity: data.capacity,
+      status: data.status,
+      createdAt: data.created_at
+    };
+  }
+
+  private transformOccurrence(data: any): SeriesOccurrence {
+    return {
+      id: data.id,
+      seriesId: data.series_id,
+      classId: data.class_id,
+      teacherId: data.teacher_id || undefined,
+      occurrenceDate: data.occurrence_date,
+      startTime: data.start_time,
+      endTime: data.end_time,
+      location: data.location || undefined,
+      status: data.status,
+      skipReason: data.skip_reason || undefined,
+      makeupForId: data.makeup_for_id || undefined
+    };
+  }
+
+  private transformChangeResult(data: any): SeriesChangeResult {
+    return {
+      updatedOccurrences: data?.updated_occurrences || 0,
+      addedOccurrences: data?.added_occurrences || 0,
+      cancelledOccurrences: data?.cancelled_occurrences || 0,
+      affectedBookings: data?.affected_bookings || 0
+    };
+  }
+
+  private transformEnrollment(data: any): SeriesEnrollment {
+    return {
+      id: data.id,
+      seriesId: data.series_id,
+      studentId: data.student_id,
+      status: data.status,
+      enrolledFrom: data.enrolled_from,
+      withdrawnFrom: data.withdrawn_from || undefined
+    };
+  }
+}
+
+// Export singleton instance
+export const classSeriesService = new ClassSeriesService();
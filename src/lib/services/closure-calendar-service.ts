@@ -0,0 +1,517 @@
+/**
+ * Closure Calendar Service
+ *
+ * Admin-managed calendar of public holidays, academy closures and
+ * per-location closures. Scheduling, 1-on-1 availability and make-up
+ * suggestions skip closed times, and classes already booked into a new
+ * closure are flagged for postponement.
+ *
+ * Closure dates are local dates in the closure's time zone; both ends are
+ * inclusive.
+ */
+
+import { parse } from 'csv-parse/sync';
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import { autoPostponementService } from './auto-postponement-service';
+import { parseIcsEvents } from '@/lib/utils/ical';
+import { addDaysToDate, isValidTimeZone, resolveTimeZone, zonedTimeToUtc } from '@/lib/utils/timezone';
+import type { HourApiResponse } from '@/types/hours';
+import type {
+  AcademyClosure,
+  ClosureImportError,
+  ClosureImportResult,
+  ClosureImportRow,
+  ClosureType,
+  ClosureWithImpact,
+  CreateClosureRequest,
+  CreateHolidaySetRequest,
+  HolidaySet
+} from '@/types/closures';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CLOSURE_TYPES: ClosureType[] = ['public_holiday', 'academy_closure', 'location_closure'];
+
+// ========================================
+// Closure checks
+// ========================================
+
+/**
+ * The closed period as instants; the end is exclusive
+ */
+export function getClosureInterval(closure: Pick<AcademyClosure, 'startDate' | 'endDate' | 'timeZone'>): { start: Date; end: Date } {
+  return {
+    start: zonedTimeToUtc(closure.startDate, '00:00', closure.timeZone),
+    end: zonedTimeToUtc(addDaysToDate(closure.endDate, 1), '00:00', closure.timeZone)
+  };
+}
+
+/**
+ * Whether a closure applies to a location. Without a location only
+ * academy-wide closures apply.
+ */
+export function closureAppliesTo(closure: Pick<AcademyClosure, 'locations'>, location?: string): boolean {
+  return closure.locations.length === 0 || (!!location && closure.locations.includes(location));
+}
+
+/**
+ * The first closure overlapping a time range at a location, if any
+ */
+export function findClosure(
+  closures: AcademyClosure[],
+  start: Date | string,
+  end: Date | string,
+  location?: string
+): AcademyClosure | undefined {
+  const from = new Date(start).getTime();
+  const to = new Date(end).getTime();
+
+  return closures.find(closure => {
+    if (!closureAppliesTo(closure, location)) return false;
+    const interval = getClosureInterval(closure);
+    return from < interval.end.getTime() && to > interval.start.getTime();
+  });
+}
+
+export function validateClosure(request: CreateClosureRequest): string | null {
+  const endDate = request.endDate || request.startDate;
+
+  if (!request.title?.trim()) return 'Closure title is required';
+  if (!CLOSURE_TYPES.includes(request.closureType)) return `Unknown closure type: ${request.closureType}`;
+  if (!ISO_DATE.test(request.startDate) || isNaN(Date.parse(request.startDate))) return 'Start date must be YYYY-MM-DD';
+  if (!ISO_DATE.test(endDate) || isNaN(Date.parse(endDate))) return 'End date must be YYYY-MM-DD';
+  if (endDate < request.startDate) return 'End date must be on or after the start date';
+  if (request.closureType === 'location_closure' && !request.location?.trim()) return 'Location closures need a location';
+  if (request.timeZone && !isValidTimeZone(request.timeZone)) return `Unknown time zone: ${request.timeZone}`;
+
+  return null;
+}
+
+// ========================================
+// Import parsing
+// ========================================
+
+export interface ClosureImportDefaults {
+  closureType?: ClosureType;
+  holidaySetId?: string;
+  location?: string;
+  timeZone?: string;
+}
+
+/**
+ * Read closures from CSV with a header row. Recognised columns are title,
+ * start_date (or date), end_date, type, location and notes.
+ */
+export function parseClosureCsv(
+  content: string,
+  defaults: ClosureImportDefaults = {}
+): { rows: ClosureImportRow[]; errors: ClosureImportError[] } {
+  const rows: ClosureImportRow[] = [];
+  const errors: ClosureImportError[] = [];
+  let records: Record<string, string>[];
+
+  try {
+    records = parse(content, {
+      columns: (header: string[]) => header.map(column => column.trim().toLowerCase().replace(/\s+/g, '_')),
+      skip_empty_lines: true,
+      trim: true
+    });
+  } catch (error) {
+    return { rows, errors: [{ line: 0, message: `Failed to parse CSV: ${error instanceof Error ? error.message : error}` }] };
+  }
+
+  records.forEach((record, index) => {
+    const row: ClosureImportRow = {
+      title: record.title || record.name || '',
+      closureType: (record.type || record.closure_type || defaults.closureType || 'public_holiday') as ClosureType,
+      startDate: record.start_date || record.date || '',
+      endDate: record.end_date || undefined,
+      location: record.location || defaults.location,
+      holidaySetId: defaults.holidaySetId,
+      timeZone: defaults.timeZone,
+      notes: record.notes || undefined
+    };
+    const error = validateClosure(row);
+
+    if (error) {
+      // Line numbers count the header row
+      errors.push({ line: index + 2, message: error });
+    } else {
+      rows.push(row);
+    }
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Read closures from the all-day events of an ICS calendar, e.g. a public
+ * holiday calendar export
+ */
+export function parseClosureIcs(
+  content: string,
+  defaults: ClosureImportDefaults = {}
+): { rows: ClosureImportRow[]; errors: ClosureImportError[] } {
+  const { events, errors: parseErrors } = parseIcsEvents(content);
+  const errors: ClosureImportError[] = parseErrors.map(error => ({ line: error.index, message: error.message }));
+  const rows: ClosureImportRow[] = [];
+
+  events.forEach((event, index) => {
+    const row: ClosureImportRow = {
+      title: event.summary || '',
+      closureType: defaults.closureType || 'public_holiday',
+      startDate: event.startDate,
+      endDate: event.endDate,
+      location: defaults.location,
+      holidaySetId: defaults.holidaySetId,
+      timeZone: defaults.timeZone,
+      notes: event.description,
+      externalUid: event.uid
+    };
+    const error = validateClosure(row);
+
+    if (error) {
+      errors.push({ line: index + 1, message: error });
+    } else {
+      rows.push(row);
+    }
+  });
+
+  return { rows, errors };
+}
+
+function importKey(row: { externalUid?: string; title: string; startDate: string; location?: string }): string {
+  return row.externalUid || `${row.title.trim().toLowerCase()}|${row.startDate}|${row.location || ''}`;
+}
+
+function closureError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class ClosureCalendarService {
+  private supabase;
+  private postponements;
+
+  constructor(client: any = defaultClient, postponements: any = autoPostponementService) {
+    this.supabase = client;
+    this.postponements = postponements;
+  }
+
+  // ========================================
+  // Holiday sets
+  // ========================================
+
+  async listHolidaySets(): Promise<HourApiResponse<HolidaySet[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('holiday_sets')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((row: any) => this.transformHolidaySet(row)) };
+    } catch (error) {
+      return closureError('FETCH_HOLIDAY_SETS_ERROR', 'Failed to fetch holiday sets', error);
+    }
+  }
+
+  async createHolidaySet(request: CreateHolidaySetRequest, createdBy?: string): Promise<HourApiResponse<HolidaySet>> {
+    if (!request.name?.trim() || !request.region?.trim()) {
+      return closureError('INVALID_HOLIDAY_SET', 'Holiday sets need a name and region');
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('holiday_sets')
+        .insert({
+          name: request.name.trim(),
+          region: request.region.trim().toUpperCase(),
+          description: request.description,
+          locations: request.locations || [],
+          created_by: createdBy
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformHolidaySet(data) };
+    } catch (error) {
+      return closureError('CREATE_HOLIDAY_SET_ERROR', 'Failed to create holiday set', error);
+    }
+  }
+
+  // ========================================
+  // Closures
+  // ========================================
+
+  /**
+   * Closures overlapping a date range, skipping those in inactive holiday sets
+   */
+  async getClosures(fromDate: string, toDate: string): Promise<HourApiResponse<AcademyClosure[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('academy_closures')
+        .select('*, holiday_sets (locations, is_active)')
+        .lte('start_date', toDate)
+        .gte('end_date', fromDate)
+        .order('start_date', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || [])
+          .filter((row: any) => row.holiday_sets?.is_active !== false)
+          .map((row: any) => this.transformClosure(row))
+      };
+    } catch (error) {
+      return closureError('FETCH_CLOSURES_ERROR', 'Failed to fetch closures', error);
+    }
+  }
+
+  /**
+   * Closures for scheduling lookups; an unreachable calendar means no closures
+   * rather than no scheduling
+   */
+  async getActiveClosures(fromDate: string, toDate: string): Promise<AcademyClosure[]> {
+    const result = await this.getClosures(fromDate, toDate);
+    if (!result.success) {
+      logger.warn(`Scheduling without the closure calendar: ${result.error?.message}`);
+    }
+    return result.data || [];
+  }
+
+  /**
+   * Add a closure, flag classes already booked into it for postponement and,
+   * for an academy-wide closure, extend the hours valid during it
+   */
+  async createClosure(request: CreateClosureRequest, createdBy?: string): Promise<HourApiResponse<ClosureWithImpact>> {
+    const validationError = validateClosure(request);
+    if (validationError) {
+      return closureError('INVALID_CLOSURE', validationError);
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('academy_closures')
+        .insert(this.toRow(request, 'manual', createdBy))
+        .select('*, holiday_sets (locations, is_active)')
+        .single();
+
+      if (error) throw error;
+
+      const closure = this.transformClosure(data);
+      const flaggedBookings = await this.flagClosure(closure);
+      const extendedLots = await this.extendHourLots(closure);
+
+      return { success: true, data: { closure, flaggedBookings, extendedLots } };
+    } catch (error) {
+      return closureError('CREATE_CLOSURE_ERROR', 'Failed to create closure', error);
+    }
+  }
+
+  async deleteClosure(closureId: string): Promise<HourApiResponse<void>> {
+    try {
+      const { error } = await this.supabase
+        .from('academy_closures')
+        .delete()
+        .eq('id', closureId);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      return closureError('DELETE_CLOSURE_ERROR', 'Failed to delete closure', error);
+    }
+  }
+
+  /**
+   * Flag classes booked into an existing closure again, e.g. after new bookings
+   */
+  async flagAffectedClasses(closureId: string): Promise<HourApiResponse<ClosureWithImpact>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('academy_closures')
+        .select('*, holiday_sets (locations, is_active)')
+        .eq('id', closureId)
+        .single();
+
+      if (error) throw error;
+
+      const closure = this.transformClosure(data);
+      return {
+        success: true,
+        data: {
+          closure,
+          flaggedBookings: await this.flagClosure(closure),
+          extendedLots: await this.extendHourLots(closure)
+        }
+      };
+    } catch (error) {
+      return closureError('FLAG_CLOSURE_ERROR', 'Failed to flag classes in closure', error);
+    }
+  }
+
+  /**
+   * Import closures from an ICS or CSV file. Rows already in the calendar
+   * (same ICS UID, or same title, start date and location) are skipped.
+   */
+  async importClosures(
+    format: 'ics' | 'csv',
+    content: string,
+    defaults: ClosureImportDefaults = {},
+    createdBy?: string
+  ): Promise<HourApiResponse<ClosureImportResult>> {
+    const { rows, errors } = format === 'ics' ? parseClosureIcs(content, defaults) : parseClosureCsv(content, defaults);
+
+    if (rows.length === 0) {
+      return errors.length > 0
+        ? closureError('INVALID_IMPORT', 'No valid closures found in the file', errors)
+        : { success: true, data: { imported: 0, skipped: 0, errors, closures: [], flaggedBookings: 0 } };
+    }
+
+    try {
+      const fromDate = rows.reduce((min, row) => (row.startDate < min ? row.startDate : min), rows[0].startDate);
+      const toDate = rows.reduce((max, row) => ((row.endDate || row.startDate) > max ? row.endDate || row.startDate : max), fromDate);
+
+      let existingQuery = this.supabase
+        .from('academy_closures')
+        .select('title, start_date, location, external_uid')
+        .lte('start_date', toDate)
+        .gte('end_date', fromDate);
+      existingQuery = defaults.holidaySetId
+        ? existingQuery.eq('holiday_set_id', defaults.holidaySetId)
+        : existingQuery.is('holiday_set_id', null);
+
+      const { data: existing, error: existingError } = await existingQuery;
+      if (existingError) throw existingError;
+
+      const seen = new Set<string>((existing || []).map((row: any) => importKey({
+        externalUid: row.external_uid || undefined,
+        title: row.title,
+        startDate: row.start_date,
+        location: row.location || undefined
+      })));
+      const fresh = rows.filter(row => {
+        const key = importKey(row);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+      let closures: AcademyClosure[] = [];
+      if (fresh.length > 0) {
+        const { data, error } = await this.supabase
+          .from('academy_closures')
+          .insert(fresh.map(row => ({ ...this.toRow(row, format, createdBy), external_uid: row.externalUid })))
+          .select('*, holiday_sets (locations, is_active)');
+
+        if (error) throw error;
+        closures = (data || []).map((row: any) => this.transformClosure(row));
+      }
+
+      let flaggedBookings = 0;
+      for (const closure of closures) {
+        flaggedBookings += await this.flagClosure(closure);
+        await this.extendHourLots(closure);
+      }
+
+      return {
+        success: true,
+        data: {
+          imported: closures.length,
+          skipped: rows.length - fresh.length,
+          errors,
+          closures,
+          flaggedBookings
+        }
+      };
+    } catch (error) {
+      return closureError('IMPORT_CLOSURES_ERROR', 'Failed to import closures', error);
+    }
+  }
+
+  // ========================================
+  // Private helpers
+  // ========================================
+
+  private async flagClosure(closure: AcademyClosure): Promise<number> {
+    // Only upcoming classes can still be postponed
+    const interval = getClosureInterval(closure);
+    if (interval.end.getTime() <= Date.now()) return 0;
+
+    const flagged = await this.postponements.flagClassesForClosure({
+      closure_id: closure.id,
+      title: closure.title,
+      starts_at: new Date(Math.max(interval.start.getTime(), Date.now())).toISOString(),
+      ends_at: interval.end.toISOString(),
+      locations: closure.locations
+    });
+
+    if (flagged.length > 0) {
+      logger.info(`Flagged ${flagged.length} bookings for postponement in closure ${closure.title}`);
+    }
+    return flagged.length;
+  }
+
+  private async extendHourLots(closure: AcademyClosure): Promise<number> {
+    // Only closures of the whole academy pause hour expiry; each lot is
+    // extended once per closure, so this is safe to repeat
+    if (closure.location || closure.holidaySetId) return 0;
+
+    const { data, error } = await this.supabase.rpc('apply_closure_extensions', { p_closure_id: closure.id });
+    if (error) throw error;
+
+    return data || 0;
+  }
+
+  private toRow(request: CreateClosureRequest, source: 'manual' | 'ics' | 'csv', createdBy?: string) {
+    return {
+      title: request.title.trim(),
+      closure_type: request.closureType,
+      start_date: request.startDate,
+      end_date: request.endDate || request.startDate,
+      location: request.location?.trim() || null,
+      holiday_set_id: request.holidaySetId || null,
+      timezone: resolveTimeZone(request.timeZone),
+      source,
+      notes: request.notes,
+      created_by: createdBy
+    };
+  }
+
+  private transformHolidaySet(data: any): HolidaySet {
+    return {
+      id: data.id,
+      name: data.name,
+      region: data.region,
+      description: data.description || undefined,
+      locations: data.locations || [],
+      isActive: data.is_active !== false,
+      createdAt: data.created_at
+    };
+  }
+
+  private transformClosure(data: any): AcademyClosure {
+    return {
+      id: data.id,
+      holidaySetId: data.holiday_set_id || undefined,
+      title: data.title,
+      closureType: data.closure_type,
+      startDate: data.start_date,
+      endDate: data.end_date,
+      location: data.location || undefined,
+      locations: data.location ? [data.location] : data.holiday_sets?.locations || [],
+      timeZone: resolveTimeZone(data.timezone),
+      source: data.source,
+      externalUid: data.external_uid || undefined,
+      notes: data.notes || undefined,
+      createdAt: data.created_at
+    };
+  }
+}
+
+// Export singleton instance
+export const closureCalendarService = new ClosureCalendarService();
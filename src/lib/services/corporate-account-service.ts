@@ -0,0 +1,612 @@
+/**
+ * Corporate Account Service
+ *
+ * Employers buy hours into a shared pool held by the account's pool profile
+ * and allocate them to enrolled employees. Allocations and revocations are
+ * hour transfers attributed to the account, so every movement appears in
+ * `hour_transfer_logs`.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import { hourManagementService, type HourManagementService } from './hour-management-service';
+import type {
+  CorporateAccount,
+  CorporateAllocationRequest,
+  CorporateEmployeeStatement,
+  CorporateMember,
+  CorporateMonthlyStatement,
+  HourApiResponse,
+  HourPurchase,
+  HourTransferLog,
+  PaymentMethod
+} from '@/types/hours';
+
+/**
+ * Start and end of a calendar month given as YYYY-MM (UTC)
+ */
+export function getMonthRange(month: string): { start: string; end: string } {
+  const [year, monthIndex] = month.split('-').map(Number);
+  if (!year || !monthIndex || monthIndex < 1 || monthIndex > 12) {
+    throw new Error(`Invalid month ${month}, expected YYYY-MM`);
+  }
+
+  return {
+    start: new Date(Date.UTC(year, monthIndex - 1, 1)).toISOString(),
+    end: new Date(Date.UTC(year, monthIndex, 1)).toISOString()
+  };
+}
+
+export function getCurrentMonth(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Net hours an employee has received this month from the account's transfer logs
+ */
+export function getNetAllocatedHours(logs: Array<{ from_student_id: string; to_student_id: string; hours_transferred: number }>, studentId: string): number {
+  return logs.reduce((net, log) => {
+    if (log.to_student_id === studentId) return net + log.hours_transferred;
+    if (log.from_student_id === studentId) return net - log.hours_transferred;
+    return net;
+  }, 0);
+}
+
+function corporateError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class CorporateAccountService {
+  private supabase;
+  private hours: HourManagementService;
+
+  constructor(client: any = defaultClient, hours: HourManagementService = hourManagementService) {
+    this.supabase = client;
+    this.hours = hours;
+  }
+
+  // ========================================
+  // Accounts
+  // ========================================
+
+  async listAccounts(): Promise<HourApiResponse<CorporateAccount[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('corporate_accounts')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      const accounts = await Promise.all((data || []).map(async (account: any) => ({
+        ...this.transformAccount(account),
+        poolBalance: await this.getCorporateHours(account.pool_profile_id, account.pool_profile_id)
+      })));
+
+      return { success: true, data: accounts };
+    } catch (error) {
+      return corporateError('FETCH_CORPORATE_ACCOUNTS_ERROR', 'Failed to fetch corporate accounts', error);
+    }
+  }
+
+  async getAccount(accountId: string): Promise<HourApiResponse<CorporateAccount>> {
+    try {
+      const account = await this.fetchAccount(accountId);
+
+      return {
+        success: true,
+        data: {
+          ...this.transformAccount(account),
+          poolBalance: await this.getCorporateHours(account.pool_profile_id, account.pool_profile_id)
+        }
+      };
+    } catch (error) {
+      return corporateError('FETCH_CORPORATE_ACCOUNT_ERROR', 'Failed to fetch corporate account', error);
+    }
+  }
+
+  async createAccount(input: {
+    name: string;
+    poolProfileId: string;
+    billingEmail?: string;
+    monthlySpendCap?: number;
+    defaultEmployeeCap?: number;
+    currency?: string;
+    notes?: string;
+  }): Promise<HourApiResponse<CorporateAccount>> {
+    try {
+      const { data: user } = await this.supabase.auth.getUser();
+
+      const { data, error } = await this.supabase
+        .from('corporate_accounts')
+        .insert({
+          name: input.name,
+          pool_profile_id: input.poolProfileId,
+          billing_email: input.billingEmail,
+          monthly_spend_cap: input.monthlySpendCap,
+          default_employee_cap: input.defaultEmployeeCap,
+          currency: input.currency || 'USD',
+          notes: input.notes,
+          created_by: user?.user?.id
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformAccount(data) };
+    } catch (error) {
+      return corporateError('CREATE_CORPORATE_ACCOUNT_ERROR', 'Failed to create corporate account', error);
+    }
+  }
+
+  async updateAccount(
+    accountId: string,
+    updates: Partial<Pick<CorporateAccount, 'name' | 'billingEmail' | 'status' | 'monthlySpendCap' | 'defaultEmployeeCap' | 'notes'>>
+  ): Promise<HourApiResponse<CorporateAccount>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('corporate_accounts')
+        .update({
+          ...(updates.name !== undefined && { name: updates.name }),
+          ...(updates.billingEmail !== undefined && { billing_email: updates.billingEmail }),
+          ...(updates.status !== undefined && { status: updates.status }),
+          ...(updates.monthlySpendCap !== undefined && { monthly_spend_cap: updates.monthlySpendCap }),
+          ...(updates.defaultEmployeeCap !== undefined && { default_employee_cap: updates.defaultEmployeeCap }),
+          ...(updates.notes !== undefined && { notes: updates.notes }),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', accountId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformAccount(data) };
+    } catch (error) {
+      return corporateError('UPDATE_CORPORATE_ACCOUNT_ERROR', 'Failed to update corporate account', error);
+    }
+  }
+
+  // ========================================
+  // Employees
+  // ========================================
+
+  async getMembers(accountId: string): Promise<HourApiResponse<CorporateMember[]>> {
+    try {
+      const account = await this.fetchAccount(accountId);
+
+      const { data, error } = await this.supabase
+        .from('corporate_account_members')
+        .select(`
+          *,
+          profiles!corporate_account_members_student_id_fkey (
+            full_name,
+            email
+          )
+        `)
+        .eq('corporate_account_id', accountId)
+        .order('enrolled_at', { ascending: true });
+
+      if (error) throw error;
+
+      const members = await Promise.all((data || []).map(async (member: any) => ({
+        ...this.transformMember(member),
+        hoursBalance: await this.getCorporateHours(member.student_id, account.pool_profile_id)
+      })));
+
+      return { success: true, data: members };
+    } catch (error) {
+      return corporateError('FETCH_CORPORATE_MEMBERS_ERROR', 'Failed to fetch corporate members', error);
+    }
+  }
+
+  async enrollEmployee(accountId: string, studentId: string, allocationCap?: number): Promise<HourApiResponse<CorporateMember>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('corporate_account_members')
+        .upsert({
+          corporate_account_id: accountId,
+          student_id: studentId,
+          status: 'active',
+          allocation_cap: allocationCap,
+          enrolled_at: new Date().toISOString(),
+          removed_at: null
+        }, { onConflict: 'corporate_account_id,student_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformMember(data) };
+    } catch (error) {
+      return corporateError('ENROLL_EMPLOYEE_ERROR', 'Failed to enroll employee', error);
+    }
+  }
+
+  async setAllocationCap(accountId: string, studentId: string, allocationCap: number | null): Promise<HourApiResponse<CorporateMember>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('corporate_account_members')
+        .update({ allocation_cap: allocationCap })
+        .eq('corporate_account_id', accountId)
+        .eq('student_id', studentId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformMember(data) };
+    } catch (error) {
+      return corporateError('UPDATE_ALLOCATION_CAP_ERROR', 'Failed to update allocation cap', error);
+    }
+  }
+
+  /**
+   * Remove an employee, returning their unused corporate hours to the pool
+   */
+  async removeEmployee(accountId: string, studentId: string, reason: string): Promise<HourApiResponse<CorporateMember>> {
+    try {
+      const account = await this.fetchAccount(accountId);
+      const balance = await this.getCorporateHours(studentId, account.pool_profile_id);
+
+      if (balance > 0) {
+        const revocation = await this.revokeHours({
+          corporateAccountId: accountId,
+          studentId,
+          hours: balance,
+          reason
+        });
+        if (!revocation.success) return corporateError('REMOVE_EMPLOYEE_ERROR', 'Failed to return hours to the pool', revocation.error);
+      }
+
+      const { data, error } = await this.supabase
+        .from('corporate_account_members')
+        .update({ status: 'removed', removed_at: new Date().toISOString() })
+        .eq('corporate_account_id', accountId)
+        .eq('student_id', studentId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformMember(data) };
+    } catch (error) {
+      return corporateError('REMOVE_EMPLOYEE_ERROR', 'Failed to remove employee', error);
+    }
+  }
+
+  // ========================================
+  // Pool purchases and allocations
+  // ========================================
+
+  /**
+   * Buy a package into the pool, enforcing the monthly spending cap
+   */
+  async purchasePoolHours(
+    accountId: string,
+    packageId: string,
+    paymentMethod: PaymentMethod,
+    paymentDetails?: Record<string, any>
+  ): Promise<HourApiResponse<HourPurchase>> {
+    try {
+      const account = await this.fetchAccount(accountId);
+      if (account.status !== 'active') {
+        return corporateError('CORPORATE_ACCOUNT_INACTIVE', `Corporate account is ${account.status}`);
+      }
+
+      // The purchase insert checks the priced amount against the cap under a
+      // lock on the account, so parallel purchases cannot overshoot it
+      const result = await this.hours.purchaseHours({
+        studentId: account.pool_profile_id,
+        packageId,
+        paymentMethod,
+        paymentDetails,
+        isCorporatePurchase: true,
+        corporateAccountId: account.pool_profile_id,
+        notes: `Corporate pool purchase for ${account.name}`
+      });
+
+      const message = String(result.error?.details?.message || '');
+      if (!result.success && message.includes('SPEND_CAP_EXCEEDED')) {
+        return corporateError('SPEND_CAP_EXCEEDED', 'Purchase would exceed the monthly spending cap', result.error?.details);
+      }
+
+      return result;
+    } catch (error) {
+      return corporateError('CORPORATE_PURCHASE_ERROR', 'Failed to purchase pool hours', error);
+    }
+  }
+
+  /**
+   * Move hours from the pool to an enrolled employee
+   */
+  async allocateHours(request: CorporateAllocationRequest): Promise<HourApiResponse<HourTransferLog>> {
+    try {
+      const account = await this.fetchAccount(request.corporateAccountId);
+      if (account.status !== 'active') {
+        return corporateError('CORPORATE_ACCOUNT_INACTIVE', `Corporate account is ${account.status}`);
+      }
+
+      const member = await this.fetchMember(request.corporateAccountId, request.studentId);
+      if (!member || member.status !== 'active') {
+        return corporateError('EMPLOYEE_NOT_ENROLLED', 'Employee is not enrolled in this corporate account');
+      }
+
+      const cap = member.allocation_cap ?? account.default_employee_cap;
+      if (cap !== null && cap !== undefined) {
+        const logs = await this.getTransferLogs(request.corporateAccountId, getCurrentMonth());
+        const allocated = getNetAllocatedHours(logs, request.studentId);
+        if (allocated + request.hours > cap) {
+          return corporateError('ALLOCATION_CAP_EXCEEDED', 'Allocation would exceed the employee monthly cap', {
+            cap,
+            allocated,
+            requested: request.hours
+          });
+        }
+      }
+
+      const poolBalance = await this.getCorporateHours(account.pool_profile_id, account.pool_profile_id);
+      if (poolBalance < request.hours) {
+        return corporateError('INSUFFICIENT_POOL_HOURS', 'Not enough hours in the corporate pool', {
+          available: poolBalance,
+          requested: request.hours
+        });
+      }
+
+      const result = await this.hours.transferHours({
+        fromStudentId: account.pool_profile_id,
+        toStudentId: request.studentId,
+        hoursToTransfer: request.hours,
+        reason: request.reason,
+        isFamilyTransfer: false,
+        notes: request.notes,
+        corporateAccountId: request.corporateAccountId,
+        corporatePoolId: account.pool_profile_id
+      });
+
+      if (result.success) {
+        logger.info(`Allocated ${request.hours} corporate hours to ${request.studentId} from ${account.name}`);
+      }
+
+      return result;
+    } catch (error) {
+      return corporateError('CORPORATE_ALLOCATION_ERROR', 'Failed to allocate hours', error);
+    }
+  }
+
+  /**
+   * Return unused corporate hours from an employee to the pool
+   */
+  async revokeHours(request: CorporateAllocationRequest): Promise<HourApiResponse<HourTransferLog>> {
+    try {
+      const account = await this.fetchAccount(request.corporateAccountId);
+      const member = await this.fetchMember(request.corporateAccountId, request.studentId);
+      if (!member) {
+        return corporateError('EMPLOYEE_NOT_ENROLLED', 'Employee is not enrolled in this corporate account');
+      }
+
+      const balance = await this.getCorporateHours(request.studentId, account.pool_profile_id);
+      if (balance < request.hours) {
+        return corporateError('INSUFFICIENT_EMPLOYEE_HOURS', 'Employee does not hold enough unused corporate hours', {
+          available: balance,
+          requested: request.hours
+        });
+      }
+
+      const result = await this.hours.transferHours({
+        fromStudentId: request.studentId,
+        toStudentId: account.pool_profile_id,
+        hoursToTransfer: request.hours,
+        reason: request.reason,
+        isFamilyTransfer: false,
+        notes: request.notes,
+        corporateAccountId: request.corporateAccountId,
+        corporatePoolId: account.pool_profile_id
+      });
+
+      if (result.success) {
+        logger.info(`Revoked ${request.hours} corporate hours from ${request.studentId} for ${account.name}`);
+      }
+
+      return result;
+    } catch (error) {
+      return corporateError('CORPORATE_REVOCATION_ERROR', 'Failed to revoke hours', error);
+    }
+  }
+
+  // ========================================
+  // Statements
+  // ========================================
+
+  /**
+   * Purchases, allocations and employee usage for one calendar month
+   */
+  async getMonthlyStatement(accountId: string, month: string = getCurrentMonth()): Promise<HourApiResponse<CorporateMonthlyStatement>> {
+    try {
+      const account = await this.fetchAccount(accountId);
+      const { start, end } = getMonthRange(month);
+      const pool = account.pool_profile_id;
+
+      const { data: purchases, error: purchaseError } = await this.supabase
+        .from('hour_purchases')
+        .select('hours_purchased, price_paid, payment_status')
+        .eq('student_id', pool)
+        .eq('corporate_account_id', pool)
+        .eq('payment_status', 'completed')
+        .gte('created_at', start)
+        .lt('created_at', end);
+
+      if (purchaseError) throw purchaseError;
+
+      const logs = await this.getTransferLogs(accountId, month);
+
+      const { data: members, error: memberError } = await this.supabase
+        .from('corporate_account_members')
+        .select(`
+          *,
+          profiles!corporate_account_members_student_id_fkey (
+            full_name,
+            email
+          )
+        `)
+        .eq('corporate_account_id', accountId);
+
+      if (memberError) throw memberError;
+
+      const memberIds = (members || []).map((member: any) => member.student_id);
+      const { data: deductions, error: deductionError } = memberIds.length > 0
+        ? await this.supabase
+          .from('hour_transactions')
+          .select('student_id, hours_amount')
+          .in('student_id', memberIds)
+          .eq('transaction_type', 'deduction')
+          .gte('created_at', start)
+          .lt('created_at', end)
+        : { data: [], error: null };
+
+      if (deductionError) throw deductionError;
+
+      const employees: CorporateEmployeeStatement[] = await Promise.all((members || []).map(async (member: any) => {
+        const hoursAllocated = logs
+          .filter(log => log.to_student_id === member.student_id)
+          .reduce((sum, log) => sum + log.hours_transferred, 0);
+        const hoursRevoked = logs
+          .filter(log => log.from_student_id === member.student_id)
+          .reduce((sum, log) => sum + log.hours_transferred, 0);
+        const hoursUsed = (deductions || [])
+          .filter((t: any) => t.student_id === member.student_id)
+          .reduce((sum: number, t: any) => sum + Math.abs(t.hours_amount), 0);
+
+        return {
+          studentId: member.student_id,
+          studentName: member.profiles?.full_name,
+          hoursAllocated,
+          hoursRevoked,
+          hoursUsed,
+          closingBalance: await this.getCorporateHours(member.student_id, pool)
+        };
+      }));
+
+      const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+      return {
+        success: true,
+        data: {
+          corporateAccountId: accountId,
+          accountName: account.name,
+          month,
+          periodStart: start,
+          periodEnd: end,
+          purchaseCount: (purchases || []).length,
+          hoursPurchased: sum((purchases || []).map((p: any) => p.hours_purchased)),
+          amountSpent: sum((purchases || []).map((p: any) => Number(p.price_paid))),
+          monthlySpendCap: account.monthly_spend_cap !== null ? Number(account.monthly_spend_cap) : undefined,
+          currency: account.currency,
+          hoursAllocated: sum(employees.map(e => e.hoursAllocated)),
+          hoursRevoked: sum(employees.map(e => e.hoursRevoked)),
+          hoursUsed: sum(employees.map(e => e.hoursUsed)),
+          poolBalance: await this.getCorporateHours(pool, pool),
+          employees,
+          generatedAt: new Date().toISOString()
+        }
+      };
+    } catch (error) {
+      return corporateError('CORPORATE_STATEMENT_ERROR', 'Failed to generate corporate statement', error);
+    }
+  }
+
+  // Private helper methods
+
+  private async fetchAccount(accountId: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('corporate_accounts')
+      .select('*')
+      .eq('id', accountId)
+      .single();
+
+    if (error || !data) throw error || new Error('Corporate account not found');
+    return data;
+  }
+
+  private async fetchMember(accountId: string, studentId: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('corporate_account_members')
+      .select('*')
+      .eq('corporate_account_id', accountId)
+      .eq('student_id', studentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Unused, unexpired hours a student holds from a corporate pool
+   */
+  private async getCorporateHours(studentId: string, poolProfileId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('hour_purchases')
+      .select('hours_remaining')
+      .eq('student_id', studentId)
+      .eq('corporate_account_id', poolProfileId)
+      .eq('payment_status', 'completed')
+      .eq('is_active', true)
+      .eq('is_expired', false)
+      .gt('valid_until', new Date().toISOString());
+
+    if (error) throw error;
+    return (data || []).reduce((sum: number, p: any) => sum + (p.hours_remaining || 0), 0);
+  }
+
+  private async getTransferLogs(accountId: string, month: string): Promise<Array<{
+    from_student_id: string;
+    to_student_id: string;
+    hours_transferred: number;
+  }>> {
+    const { start, end } = getMonthRange(month);
+
+    const { data, error } = await this.supabase
+      .from('hour_transfer_logs')
+      .select('from_student_id, to_student_id, hours_transferred')
+      .eq('corporate_account_id', accountId)
+      .gte('created_at', start)
+      .lt('created_at', end);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  private transformAccount(a: any): CorporateAccount {
+    return {
+      id: a.id,
+      name: a.name,
+      poolProfileId: a.pool_profile_id,
+      billingEmail: a.billing_email,
+      status: a.status,
+      monthlySpendCap: a.monthly_spend_cap !== null && a.monthly_spend_cap !== undefined ? Number(a.monthly_spend_cap) : undefined,
+      defaultEmployeeCap: a.default_employee_cap ?? undefined,
+      currency: a.currency,
+      notes: a.notes,
+      createdAt: a.created_at,
+      updatedAt: a.updated_at
+    };
+  }
+
+  private transformMember(m: any): CorporateMember {
+    return {
+      id: m.id,
+      corporateAccountId: m.corporate_account_id,
+      studentId: m.student_id,
+      studentName: m.profiles?.full_name,
+      studentEmail: m.profiles?.email,
+      status: m.status,
+      allocationCap: m.allocation_cap ?? undefined,
+      enrolledAt: m.enrolled_at,
+      removedAt: m.removed_at
+    };
+  }
+}
+
+// Export singleton instance
+export const corporateAccountService = new CorporateAccountService();
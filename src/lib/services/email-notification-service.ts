@@ -7,6 +7,8 @@ import {
   queueConflictAlert 
 } from './email-queue-service';
 import { EmailPriority } from './email-service';
+import { createCalendarInviteAttachment } from '@/lib/utils/ical';
+import { createBookingCalendarEvent, getCalendarSequence } from './calendar-feed-service';
 
 // Notification trigger types
 export enum NotificationTrigger {
@@ -46,6 +48,8 @@ export interface BookingNotificationData {
   location: string;
   joinLink?: string;
   duration: number;
+  classStartTime?: string; // ISO instant, enables the calendar invite
+  classEndTime?: string; // ISO instant
 }
 
 export interface ScheduleChangeNotificationData {
@@ -58,6 +62,11 @@ export interface ScheduleChangeNotificationData {
   newTime: string;
   reason: string;
   courseName: string;
+  bookingId?: string;
+  newStartTime?: string; // ISO instant, enables the calendar update
+  newEndTime?: string; // ISO instant
+  location?: string;
+  joinLink?: string;
 }
 
 export interface ConflictNotificationData {
@@ -151,14 +160,15 @@ export class EmailNotificationService {
           classTime: data.classTime,
           teacherName: data.teacherName,
           location: data.location
-        }
+        },
+        this.bookingInvite(data, 'request')
       );
       jobIds.push(confirmationJobId);
     }
 
     // Schedule reminder email
     if (studentPrefs.emailNotifications && studentPrefs.bookingReminders) {
-      const reminderTime = new Date(data.classDate);
+      const reminderTime = new Date(data.classStartTime || data.classDate);
       reminderTime.setMinutes(reminderTime.getMinutes() - studentPrefs.reminderTiming);
 
       if (reminderTime > new Date()) {
@@ -206,7 +216,8 @@ export class EmailNotificationService {
         `,
         priority: EmailPriority.HIGH,
         tags: ['booking', 'cancellation'],
-        trackingEnabled: true
+        trackingEnabled: true,
+        attachments: this.bookingInvite(data, 'cancel')
       };
 
       const jobId = await this.queueService.addToQueue(message, {
@@ -235,10 +246,43 @@ export class EmailNotificationService {
         newDate: data.newDate,
         newTime: data.newTime,
         reason: data.reason
-      }
+      },
+      data.bookingId && data.newStartTime && data.newEndTime
+        ? [createCalendarInviteAttachment(createBookingCalendarEvent({
+            bookingId: data.bookingId,
+            courseName: data.courseName,
+            startTime: data.newStartTime,
+            endTime: data.newEndTime,
+            location: data.location,
+            joinLink: data.joinLink,
+            sequence: getCalendarSequence(new Date()),
+            attendees: [{ name: data.affectedUserName, email: data.affectedUserEmail }]
+          }), 'update')]
+        : []
     );
   }
 
+  // .ics attachment for a booking email; skipped when the class instants are unknown
+  private bookingInvite(data: BookingNotificationData, action: 'request' | 'cancel') {
+    if (!data.classStartTime || !data.classEndTime) return [];
+
+    const event = createBookingCalendarEvent({
+      bookingId: data.bookingId,
+      courseName: data.courseName,
+      teacherName: data.teacherName,
+      startTime: data.classStartTime,
+      endTime: data.classEndTime,
+      location: data.location,
+      joinLink: data.joinLink,
+      cancelled: action === 'cancel',
+      // A cancellation must outrank the original invite
+      sequence: action === 'cancel' ? getCalendarSequence(new Date()) : 0,
+      attendees: [{ name: data.studentName, email: data.studentEmail }]
+    });
+
+    return [createCalendarInviteAttachment(event, action)];
+  }
+
   // Handle conflict alert notification
   async handleConflictAlert(data: ConflictNotificationData): Promise<string[]> {
     const jobIds: string[] = [];
@@ -1,4 +1,4 @@
-import { EmailMessage, EmailResult, EmailStatus, EmailPriority, getEmailService } from './email-service';
+import { EmailAttachment, EmailMessage, EmailResult, EmailStatus, EmailPriority, getEmailService } from './email-service';
 
 import { logger } from '@/lib/services';
 // Queue job interface
@@ -288,7 +288,8 @@ export async function queueBookingConfirmation(
     classTime: string;
     teacherName: string;
     location: string;
-  }
+  },
+  attachments: EmailAttachment[] = []
 ): Promise<string> {
   const emailService = getEmailService();
   const queueService = getEmailQueueService();
@@ -303,7 +304,8 @@ export async function queueBookingConfirmation(
     },
     priority: EmailPriority.HIGH,
     tags: ['booking', 'confirmation'],
-    trackingEnabled: true
+    trackingEnabled: true,
+    attachments
   };
 
   return queueService.addToQueue(message, {
@@ -355,7 +357,8 @@ export async function queueScheduleChange(
     newDate: string;
     newTime: string;
     reason: string;
-  }
+  },
+  attachments: EmailAttachment[] = []
 ): Promise<string> {
   const queueService = getEmailQueueService();
 
@@ -369,7 +372,8 @@ export async function queueScheduleChange(
     },
     priority: EmailPriority.HIGH,
     tags: ['schedule', 'change'],
-    trackingEnabled: true
+    trackingEnabled: true,
+    attachments
   };
 
   return queueService.addToQueue(message, {
@@ -409,4 +413,77 @@ export async function queueConflictAlert(
   });
 }
 
+export async function queuePurchaseConfirmation(
+  studentEmail: string,
+  studentName: string,
+  purchaseData: {
+    packageName: string;
+    hoursPurchased: number;
+    amountPaid: string;
+    validUntil: string;
+  },
+  attachments: EmailAttachment[] = []
+): Promise<string> {
+  const queueService = getEmailQueueService();
+
+  const message: EmailMessage = {
+    to: [{ email: studentEmail, name: studentName }],
+    subject: 'Hour Purchase Confirmation - HeyPeter Academy',
+    template: 'purchase_confirmation' as any,
+    templateData: {
+      studentName,
+      ...purchaseData
+    },
+    priority: EmailPriority.HIGH,
+    tags: ['hours', 'purchase', 'confirmation'],
+    trackingEnabled: true,
+    attachments
+  };
+
+  return queueService.addToQueue(message, {
+    priority: EmailPriority.HIGH,
+    maxAttempts: 3
+  });
+}
+
+const BILLING_NOTICE_SUBJECTS: Record<string, string> = {
+  payment_failed: 'Payment Failed - Update Your Payment Method',
+  subscription_cancelled: 'Your Hour Subscription Has Ended',
+  subscription_renewed: 'Subscription Renewed - Hours Added',
+  auto_top_up: 'Auto Top-Up - Hours Added'
+};
+
+export async function queueHourBillingNotice(
+  studentEmail: string,
+  studentName: string,
+  notice: {
+    type: 'payment_failed' | 'subscription_cancelled' | 'subscription_renewed' | 'auto_top_up';
+    amount: string;
+    hours: number;
+    failureMessage?: string;
+    nextRetryDate?: string;
+  }
+): Promise<string> {
+  const queueService = getEmailQueueService();
+  const isFailure = notice.type === 'payment_failed' || notice.type === 'subscription_cancelled';
+
+  const message: EmailMessage = {
+    to: [{ email: studentEmail, name: studentName }],
+    subject: `${BILLING_NOTICE_SUBJECTS[notice.type]} - HeyPeter Academy`,
+    template: `hour_billing_${notice.type}` as any,
+    templateData: {
+      studentName,
+      ...notice
+    },
+    priority: isFailure ? EmailPriority.HIGH : EmailPriority.NORMAL,
+    tags: ['hours', 'billing', notice.type],
+    trackingEnabled: true
+  };
+
+  return queueService.addToQueue(message, {
+    priority: isFailure ? EmailPriority.HIGH : EmailPriority.NORMAL,
+    maxAttempts: 3
+  });
+}
+
 export default EmailQueueService;
\ No newline at end of file
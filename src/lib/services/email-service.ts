@@ -19,7 +19,8 @@ export enum EmailTemplateType {
   TEACHER_AVAILABILITY = 'teacher_availability',
   WELCOME = 'welcome',
   PASSWORD_RESET = 'password_reset',
-  SYSTEM_ALERT = 'system_alert'
+  SYSTEM_ALERT = 'system_alert',
+  PURCHASE_CONFIRMATION = 'purchase_confirmation'
 }
 
 // Email priority levels
@@ -56,6 +57,12 @@ export interface EmailTemplate {
   variables?: Record<string, string>;
 }
 
+export interface EmailAttachment {
+  filename: string;
+  data: Uint8Array | string;
+  contentType?: string;
+}
+
 export interface EmailMessage {
   id?: string;
   to: EmailRecipient[];
@@ -71,6 +78,7 @@ export interface EmailMessage {
   tags?: string[];
   trackingEnabled?: boolean;
   customHeaders?: Record<string, string>;
+  attachments?: EmailAttachment[];
 }
 
 export interface EmailResult {
@@ -202,6 +210,24 @@ export class EmailService {
           <p>Please review and resolve this conflict as soon as possible.</p>
           <p>Best regards,<br>HeyPeter Academy</p>
         `
+      },
+      {
+        id: 'purchase_confirmation',
+        type: EmailTemplateType.PURCHASE_CONFIRMATION,
+        subject: 'Hour Purchase Confirmation - HeyPeter Academy',
+        htmlContent: `
+          <h2>Thank You for Your Purchase</h2>
+          <p>Dear {{studentName}},</p>
+          <p>Your hour purchase has been confirmed:</p>
+          <ul>
+            <li><strong>Package:</strong> {{packageName}}</li>
+            <li><strong>Hours:</strong> {{hoursPurchased}}</li>
+            <li><strong>Amount:</strong> {{amountPaid}}</li>
+            <li><strong>Valid Until:</strong> {{validUntil}}</li>
+          </ul>
+          <p>Your invoice and receipt are attached to this email.</p>
+          <p>Best regards,<br>HeyPeter Academy</p>
+        `
       }
     ];
 
@@ -251,6 +277,11 @@ export class EmailService {
         'o:tracking-clicks': message.trackingEnabled ? 'yes' : 'no',
         'o:tracking-opens': message.trackingEnabled ? 'yes' : 'no',
         'o:testmode': this.config.testMode ? 'yes' : 'no',
+        attachment: message.attachments?.map(attachment => ({
+          filename: attachment.filename,
+          data: typeof attachment.data === 'string' ? attachment.data : Buffer.from(attachment.data),
+          contentType: attachment.contentType
+        })),
         ...message.customHeaders
       };
 
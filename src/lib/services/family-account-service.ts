@@ -0,0 +1,483 @@
+/**
+ * Family Account Service
+ *
+ * Guardians buy hours into a shared wallet held by the family's wallet profile
+ * and move them between the wallet and their children. Every movement is an
+ * hour transfer attributed to the family, so `hour_transfer_logs` is the audit
+ * trail for the household.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import { hourManagementService, type HourManagementService } from './hour-management-service';
+import { getCurrentMonth, getMonthRange } from './corporate-account-service';
+import type {
+  FamilyAccount,
+  FamilyMember,
+  FamilyMemberRole,
+  FamilyMemberStatement,
+  FamilyMonthlyStatement,
+  FamilyTransferRequest,
+  HourApiResponse,
+  HourPurchase,
+  HourTransferLog,
+  PaymentMethod
+} from '@/types/hours';
+
+// Refusals raised by transfer_family_hours, passed through as error codes
+const FAMILY_TRANSFER_ERRORS = [
+  'FAMILY_NOT_FOUND',
+  'FAMILY_ACCOUNT_INACTIVE',
+  'INVALID_TRANSFER_HOURS',
+  'NOT_FAMILY_GUARDIAN',
+  'INVALID_TRANSFER',
+  'NOT_SAME_FAMILY',
+  'FAMILY_TRANSFER_CAP_EXCEEDED',
+  'INSUFFICIENT_FAMILY_HOURS'
+];
+
+function familyError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class FamilyAccountService {
+  private supabase;
+  private hours: HourManagementService;
+
+  constructor(client: any = defaultClient, hours: HourManagementService = hourManagementService) {
+    this.supabase = client;
+    this.hours = hours;
+  }
+
+  // ========================================
+  // Families
+  // ========================================
+
+  async listFamilies(): Promise<HourApiResponse<FamilyAccount[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('family_accounts')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      const families = await Promise.all((data || []).map(async (family: any) => ({
+        ...this.transformFamily(family),
+        walletBalance: await this.getBalance(family.wallet_profile_id)
+      })));
+
+      return { success: true, data: families };
+    } catch (error) {
+      return familyError('FETCH_FAMILY_ACCOUNTS_ERROR', 'Failed to fetch family accounts', error);
+    }
+  }
+
+  /**
+   * Active families in which the profile is a guardian
+   */
+  async getFamiliesForGuardian(guardianId: string): Promise<HourApiResponse<FamilyAccount[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('family_members')
+        .select('family_accounts (*)')
+        .eq('profile_id', guardianId)
+        .eq('role', 'guardian')
+        .eq('status', 'active');
+
+      if (error) throw error;
+
+      const families = await Promise.all((data || [])
+        .map((membership: any) => membership.family_accounts)
+        .filter((family: any) => family && family.status === 'active')
+        .map(async (family: any) => ({
+          ...this.transformFamily(family),
+          walletBalance: await this.getBalance(family.wallet_profile_id)
+        })));
+
+      return { success: true, data: families };
+    } catch (error) {
+      return familyError('FETCH_FAMILY_ACCOUNTS_ERROR', 'Failed to fetch family accounts', error);
+    }
+  }
+
+  async getFamily(familyId: string): Promise<HourApiResponse<FamilyAccount>> {
+    try {
+      const family = await this.fetchFamily(familyId);
+
+      return {
+        success: true,
+        data: {
+          ...this.transformFamily(family),
+          walletBalance: await this.getBalance(family.wallet_profile_id)
+        }
+      };
+    } catch (error) {
+      return familyError('FETCH_FAMILY_ACCOUNT_ERROR', 'Failed to fetch family account', error);
+    }
+  }
+
+  async createFamily(input: {
+    name: string;
+    walletProfileId: string;
+    monthlyTransferCap?: number;
+    currency?: string;
+    notes?: string;
+  }): Promise<HourApiResponse<FamilyAccount>> {
+    try {
+      const { data: user } = await this.supabase.auth.getUser();
+
+      const { data, error } = await this.supabase
+        .from('family_accounts')
+        .insert({
+          name: input.name,
+          wallet_profile_id: input.walletProfileId,
+          monthly_transfer_cap: input.monthlyTransferCap,
+          currency: input.currency || 'USD',
+          notes: input.notes,
+          created_by: user?.user?.id
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformFamily(data) };
+    } catch (error) {
+      return familyError('CREATE_FAMILY_ACCOUNT_ERROR', 'Failed to create family account', error);
+    }
+  }
+
+  async updateFamily(
+    familyId: string,
+    updates: Partial<Pick<FamilyAccount, 'name' | 'status' | 'notes'>> & { monthlyTransferCap?: number | null }
+  ): Promise<HourApiResponse<FamilyAccount>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('family_accounts')
+        .update({
+          ...(updates.name !== undefined && { name: updates.name }),
+          ...(updates.status !== undefined && { status: updates.status }),
+          ...(updates.monthlyTransferCap !== undefined && { monthly_transfer_cap: updates.monthlyTransferCap }),
+          ...(updates.notes !== undefined && { notes: updates.notes }),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', familyId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformFamily(data) };
+    } catch (error) {
+      return familyError('UPDATE_FAMILY_ACCOUNT_ERROR', 'Failed to update family account', error);
+    }
+  }
+
+  // ========================================
+  // Members
+  // ========================================
+
+  async getMembers(familyId: string): Promise<HourApiResponse<FamilyMember[]>> {
+    try {
+      const members = await this.fetchMembers(familyId);
+
+      const withBalances = await Promise.all(members.map(async (member: any) => ({
+        ...this.transformMember(member),
+        hoursBalance: member.status === 'active' ? await this.getBalance(member.profile_id) : undefined
+      })));
+
+      return { success: true, data: withBalances };
+    } catch (error) {
+      return familyError('FETCH_FAMILY_MEMBERS_ERROR', 'Failed to fetch family members', error);
+    }
+  }
+
+  async addMember(
+    familyId: string,
+    profileId: string,
+    role: FamilyMemberRole,
+    relationship?: string
+  ): Promise<HourApiResponse<FamilyMember>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('family_members')
+        .upsert({
+          family_account_id: familyId,
+          profile_id: profileId,
+          role,
+          relationship,
+          status: 'active',
+          joined_at: new Date().toISOString(),
+          removed_at: null
+        }, { onConflict: 'family_account_id,profile_id' })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return familyError('CHILD_IN_OTHER_FAMILY', 'This student already belongs to another family');
+        }
+        throw error;
+      }
+
+      return { success: true, data: this.transformMember(data) };
+    } catch (error) {
+      return familyError('ADD_FAMILY_MEMBER_ERROR', 'Failed to add family member', error);
+    }
+  }
+
+  /**
+   * Remove a member. A child's unused hours go back to the family wallet.
+   */
+  async removeMember(familyId: string, profileId: string, reason: string): Promise<HourApiResponse<FamilyMember>> {
+    try {
+      const family = await this.fetchFamily(familyId);
+      const member = (await this.fetchMembers(familyId)).find((m: any) => m.profile_id === profileId);
+      if (!member || member.status !== 'active') {
+        return familyError('NOT_FAMILY_MEMBER', 'Profile is not an active member of this family');
+      }
+
+      if (member.role === 'child' && profileId !== family.wallet_profile_id) {
+        const balance = await this.getBalance(profileId);
+        if (balance > 0) {
+          const returned = await this.hours.transferHours({
+            fromStudentId: profileId,
+            toStudentId: family.wallet_profile_id,
+            hoursToTransfer: balance,
+            reason,
+            isFamilyTransfer: true,
+            familyRelationship: member.relationship,
+            notes: 'Returned to the family wallet on leaving the family',
+            familyAccountId: familyId
+          });
+          if (!returned.success) return familyError('REMOVE_FAMILY_MEMBER_ERROR', 'Failed to return hours to the wallet', returned.error);
+        }
+      }
+
+      const { data, error } = await this.supabase
+        .from('family_members')
+        .update({ status: 'removed', removed_at: new Date().toISOString() })
+        .eq('family_account_id', familyId)
+        .eq('profile_id', profileId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformMember(data) };
+    } catch (error) {
+      return familyError('REMOVE_FAMILY_MEMBER_ERROR', 'Failed to remove family member', error);
+    }
+  }
+
+  // ========================================
+  // Wallet purchases and transfers
+  // ========================================
+
+  async purchaseWalletHours(
+    familyId: string,
+    packageId: string,
+    paymentMethod: PaymentMethod,
+    paymentDetails?: Record<string, any>
+  ): Promise<HourApiResponse<HourPurchase>> {
+    try {
+      const family = await this.fetchFamily(familyId);
+      if (family.status !== 'active') {
+        return familyError('FAMILY_ACCOUNT_INACTIVE', `Family account is ${family.status}`);
+      }
+
+      return this.hours.purchaseHours({
+        studentId: family.wallet_profile_id,
+        packageId,
+        paymentMethod,
+        paymentDetails,
+        notes: `Family wallet purchase for ${family.name}`
+      });
+    } catch (error) {
+      return familyError('FAMILY_PURCHASE_ERROR', 'Failed to purchase wallet hours', error);
+    }
+  }
+
+  /**
+   * Move hours between the wallet and family members as the signed-in
+   * guardian. The guardian, membership and the monthly cap are checked by
+   * transfer_family_hours under a lock on the family.
+   */
+  async transferHours(request: FamilyTransferRequest): Promise<HourApiResponse<HourTransferLog>> {
+    try {
+      const result = await this.hours.transferFamilyHours(request);
+
+      if (!result.success) {
+        const message = String(result.error?.details?.message || '');
+        // INVALID_TRANSFER is a prefix of INVALID_TRANSFER_HOURS, so match the code with its separator
+        const code = FAMILY_TRANSFER_ERRORS.find(known => message.startsWith(`${known}:`));
+        return code ? familyError(code, message.slice(code.length + 2), result.error?.details) : result;
+      }
+
+      logger.info(`Moved ${request.hours} family hours from ${request.fromProfileId} to ${request.toProfileId} in family ${request.familyAccountId}`);
+
+      return result;
+    } catch (error) {
+      return familyError('FAMILY_TRANSFER_ERROR', 'Failed to move family hours', error);
+    }
+  }
+
+  // ========================================
+  // Statements
+  // ========================================
+
+  /**
+   * Wallet purchases, transfers and each member's usage for one calendar month
+   */
+  async getMonthlyStatement(familyId: string, month: string = getCurrentMonth()): Promise<HourApiResponse<FamilyMonthlyStatement>> {
+    try {
+      const family = await this.fetchFamily(familyId);
+      const { start, end } = getMonthRange(month);
+      const wallet = family.wallet_profile_id;
+
+      const { data: purchases, error: purchaseError } = await this.supabase
+        .from('hour_purchases')
+        .select('hours_purchased, price_paid')
+        .eq('student_id', wallet)
+        .eq('payment_status', 'completed')
+        .gte('created_at', start)
+        .lt('created_at', end);
+
+      if (purchaseError) throw purchaseError;
+
+      const logResult = await this.hours.getFamilyTransferLogs(familyId, { from: start, to: end });
+      if (!logResult.success) throw logResult.error;
+      const transfers = logResult.data || [];
+
+      const members = (await this.fetchMembers(familyId)).filter((member: any) =>
+        member.status === 'active' && member.profile_id !== wallet
+      );
+      const profiles: Array<{ profileId: string; profileName?: string; role: FamilyMemberStatement['role'] }> = [
+        { profileId: wallet, role: 'wallet' },
+        ...members.map((member: any) => ({
+          profileId: member.profile_id,
+          profileName: member.profiles?.full_name,
+          role: member.role
+        }))
+      ];
+
+      const { data: deductions, error: deductionError } = await this.supabase
+        .from('hour_transactions')
+        .select('student_id, hours_amount')
+        .in('student_id', profiles.map(p => p.profileId))
+        .eq('transaction_type', 'deduction')
+        .gte('created_at', start)
+        .lt('created_at', end);
+
+      if (deductionError) throw deductionError;
+
+      const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+      const statements: FamilyMemberStatement[] = await Promise.all(profiles.map(async profile => ({
+        ...profile,
+        hoursReceived: sum(transfers.filter(t => t.toStudentId === profile.profileId).map(t => t.hoursTransferred)),
+        hoursSent: sum(transfers.filter(t => t.fromStudentId === profile.profileId).map(t => t.hoursTransferred)),
+        hoursUsed: sum((deductions || [])
+          .filter((t: any) => t.student_id === profile.profileId)
+          .map((t: any) => Math.abs(t.hours_amount))),
+        closingBalance: await this.getBalance(profile.profileId)
+      })));
+
+      return {
+        success: true,
+        data: {
+          familyAccountId: familyId,
+          familyName: family.name,
+          month,
+          periodStart: start,
+          periodEnd: end,
+          purchaseCount: (purchases || []).length,
+          hoursPurchased: sum((purchases || []).map((p: any) => p.hours_purchased)),
+          amountSpent: sum((purchases || []).map((p: any) => Number(p.price_paid))),
+          currency: family.currency,
+          hoursTransferred: sum(transfers.map(t => t.hoursTransferred)),
+          monthlyTransferCap: family.monthly_transfer_cap ?? undefined,
+          hoursUsed: sum(statements.map(s => s.hoursUsed)),
+          walletBalance: statements[0].closingBalance,
+          members: statements,
+          transfers,
+          generatedAt: new Date().toISOString()
+        }
+      };
+    } catch (error) {
+      return familyError('FAMILY_STATEMENT_ERROR', 'Failed to generate family statement', error);
+    }
+  }
+
+  // Private helper methods
+
+  private async fetchFamily(familyId: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('family_accounts')
+      .select('*')
+      .eq('id', familyId)
+      .single();
+
+    if (error || !data) throw error || new Error('Family account not found');
+    return data;
+  }
+
+  private async fetchMembers(familyId: string): Promise<any[]> {
+    const { data, error } = await this.supabase
+      .from('family_members')
+      .select(`
+        *,
+        profiles!family_members_profile_id_fkey (
+          full_name,
+          email
+        )
+      `)
+      .eq('family_account_id', familyId)
+      .order('joined_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  private async getBalance(profileId: string): Promise<number> {
+    const { data, error } = await this.supabase.rpc('calculate_student_hours', {
+      p_student_id: profileId
+    });
+
+    if (error) throw error;
+    return data || 0;
+  }
+
+  private transformFamily(f: any): FamilyAccount {
+    return {
+      id: f.id,
+      name: f.name,
+      walletProfileId: f.wallet_profile_id,
+      status: f.status,
+      monthlyTransferCap: f.monthly_transfer_cap ?? undefined,
+      currency: f.currency,
+      notes: f.notes,
+      createdAt: f.created_at,
+      updatedAt: f.updated_at
+    };
+  }
+
+  private transformMember(m: any): FamilyMember {
+    return {
+      id: m.id,
+      familyAccountId: m.family_account_id,
+      profileId: m.profile_id,
+      profileName: m.profiles?.full_name,
+      profileEmail: m.profiles?.email,
+      role: m.role,
+      relationship: m.relationship,
+      status: m.status,
+      joinedAt: m.joined_at,
+      removedAt: m.removed_at
+    };
+  }
+}
+
+// Export singleton instance
+export const familyAccountService = new FamilyAccountService();
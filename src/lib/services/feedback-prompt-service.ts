@@ -0,0 +1,588 @@
+/**
+ * Feedback Prompt Service
+ *
+ * Turns recorded attendance into post-class feedback prompts. A scheduled
+ * sweep considers each student who attended a class, applies the prompt's
+ * throttling rules (weekly cap per student, share of group classes sampled)
+ * and schedules a prompt after its delay. Due prompts go out in-app and by
+ * email with one-click rating links, non-responders are reminded, and
+ * unanswered prompts expire. Response rates are reported per teacher and
+ * per course.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import { FEEDBACK_PROMPT } from '@/lib/constants';
+import { getEmailQueueService } from './email-queue-service';
+import { EmailPriority } from './email-service';
+import type { HourApiResponse } from '@/types/hours';
+import type {
+  FeedbackPrompt,
+  FeedbackPromptResponseRequest,
+  FeedbackPromptSkipReason,
+  FeedbackPromptSummary,
+  FeedbackPromptSweepResult,
+  PromptResponseRate,
+  PromptResponseRates,
+  UpdateFeedbackPromptRequest
+} from '@/types/feedback';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const UNIQUE_VIOLATION = '23505';
+
+const DELIVERY_SELECT = '*, prompt:feedback_prompts(expiry_days, max_reminders, reminder_interval_days), student:students(user_id, email, full_name), class:classes(class_name), teacher:teachers(full_name), booking:bookings(start_time)';
+
+export function getFeedbackRatingUrl(token: string, rating?: number, baseUrl: string = process.env.NEXT_PUBLIC_APP_URL || ''): string {
+  return `${baseUrl}/feedback/rate/${token}${rating ? `?rating=${rating}` : ''}`;
+}
+
+/**
+ * Stable fraction in [0, 1) for an id, so a rerun samples the same sessions
+ */
+function sampleFraction(id: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  // FNV-1a alone spreads similar ids poorly; finish with a murmur3 mix
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Why a prompt should not go out for an attendance record, or null to send it.
+ * Group classes are sampled per session, so every student of a session gets
+ * the same decision, and first so unsampled sessions don't use up the
+ * student's weekly allowance.
+ */
+export function getPromptSkipReason(
+  prompt: Pick<FeedbackPrompt, 'max_prompts_per_week' | 'group_class_sample_rate'>,
+  attendance: { classId: string; startTime: string; courseType?: string; promptsThisWeek: number }
+): FeedbackPromptSkipReason | null {
+  const isGroupClass = attendance.courseType !== '1-on-1';
+  const sampleRate = prompt.group_class_sample_rate ?? 1;
+
+  if (isGroupClass && sampleFraction(`${attendance.classId}:${attendance.startTime}`) >= sampleRate) {
+    return 'not_sampled';
+  }
+  if (prompt.max_prompts_per_week && attendance.promptsThisWeek >= prompt.max_prompts_per_week) {
+    return 'throttled';
+  }
+  return null;
+}
+
+function promptError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class FeedbackPromptService {
+  private supabase;
+  private mailer;
+
+  constructor(client: any = defaultClient, mailer: any = null) {
+    this.supabase = client;
+    this.mailer = mailer;
+  }
+
+  /**
+   * Schedule prompts for newly recorded attendance, send the ones that are
+   * due, remind non-responders and expire lapsed prompts. Run on a schedule.
+   */
+  async sweep(now: Date = new Date()): Promise<FeedbackPromptSweepResult> {
+    const result: FeedbackPromptSweepResult = { scheduled: 0, skipped: 0, sent: 0, reminded: 0, expired: 0, errors: [] };
+
+    const steps: Array<[string, () => Promise<void>]> = [
+      ['schedule', () => this.schedulePrompts(now, result)],
+      ['send', () => this.sendDuePrompts(now, result)],
+      ['remind', () => this.sendReminders(now, result)],
+      ['expire', () => this.expirePrompts(now, result)]
+    ];
+
+    for (const [step, run] of steps) {
+      try {
+        await run();
+      } catch (error) {
+        result.errors.push(`${step}: ${(error as any)?.message || 'failed'}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * A prompt as shown on its rating page
+   */
+  async getPrompt(token: string): Promise<HourApiResponse<FeedbackPromptSummary>> {
+    try {
+      const row = await this.loadDelivery(token);
+      if (!row) return promptError('PROMPT_NOT_FOUND', 'This feedback link is not valid');
+
+      return { success: true, data: this.transformSummary(row) };
+    } catch (error) {
+      return promptError('FETCH_PROMPT_ERROR', 'Failed to fetch the feedback prompt', error);
+    }
+  }
+
+  /**
+   * Record a rating from a one-click link, or update it with comments.
+   * The rating is saved as prompted student feedback for the class.
+   */
+  async respond(
+    token: string,
+    request: FeedbackPromptResponseRequest,
+    now: Date = new Date()
+  ): Promise<HourApiResponse<FeedbackPromptSummary>> {
+    if (!Number.isInteger(request.rating) || request.rating < 1 || request.rating > 5) {
+      return promptError('INVALID_RATING', 'Choose a rating from 1 to 5');
+    }
+
+    try {
+      const row = await this.loadDelivery(token);
+      if (!row) return promptError('PROMPT_NOT_FOUND', 'This feedback link is not valid');
+      if (row.status === 'expired' || (row.status === 'sent' && new Date(row.expires_at).getTime() <= now.getTime())) {
+        return promptError('PROMPT_EXPIRED', 'This feedback link has expired');
+      }
+
+      const feedback: Record<string, any> = { overall_rating: request.rating };
+      if (request.positive_feedback !== undefined) feedback.positive_feedback = request.positive_feedback.trim() || null;
+      if (request.improvement_suggestions !== undefined) feedback.improvement_suggestions = request.improvement_suggestions.trim() || null;
+
+      let feedbackId = row.feedback_id;
+      if (feedbackId) {
+        const { error } = await this.supabase
+          .from('student_feedback')
+          .update(feedback)
+          .eq('id', feedbackId);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await this.supabase
+          .from('student_feedback')
+          .insert({
+            student_id: row.student_id,
+            class_id: row.class_id,
+            teacher_id: row.teacher_id,
+            booking_id: row.booking_id,
+            ...feedback,
+            feedback_type: 'class_feedback',
+            submission_method: 'prompted'
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        feedbackId = data.id;
+      }
+
+      const update = {
+        status: 'responded',
+        responded_at: row.responded_at || now.toISOString(),
+        feedback_id: feedbackId,
+        rating: request.rating,
+        next_reminder_at: null
+      };
+      const { error } = await this.supabase
+        .from('feedback_prompt_deliveries')
+        .update(update)
+        .eq('id', row.id);
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformSummary({ ...row, ...update }) };
+    } catch (error) {
+      logger.error('Failed to record feedback prompt response:', error);
+      return promptError('RESPOND_PROMPT_ERROR', 'Failed to record your feedback', error);
+    }
+  }
+
+  /**
+   * Prompts awaiting a rating, for a student's dashboard
+   */
+  async listPendingPrompts(studentId: string): Promise<HourApiResponse<FeedbackPromptSummary[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('feedback_prompt_deliveries')
+        .select(DELIVERY_SELECT)
+        .eq('student_id', studentId)
+        .eq('status', 'sent')
+        .gt('expires_at', new Date().toISOString())
+        .order('sent_at', { ascending: false });
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((row: any) => this.transformSummary(row)) };
+    } catch (error) {
+      return promptError('FETCH_PROMPTS_ERROR', 'Failed to fetch feedback prompts', error);
+    }
+  }
+
+  /**
+   * Prompts triggered by class completion, with their throttling settings
+   */
+  async listPrompts(): Promise<HourApiResponse<FeedbackPrompt[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('feedback_prompts')
+        .select('*')
+        .eq('trigger_event', 'class_completed')
+        .order('prompt_name', { ascending: true });
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((row: any) => this.transformPrompt(row)) };
+    } catch (error) {
+      return promptError('FETCH_PROMPTS_ERROR', 'Failed to fetch feedback prompts', error);
+    }
+  }
+
+  async updatePrompt(promptId: string, updates: UpdateFeedbackPromptRequest): Promise<HourApiResponse<FeedbackPrompt>> {
+    const sampleRate = updates.group_class_sample_rate;
+    if (sampleRate !== undefined && (sampleRate < 0 || sampleRate > 1)) {
+      return promptError('INVALID_PROMPT_SETTINGS', 'The group class sample rate must be between 0% and 100%');
+    }
+    const weeklyCap = updates.max_prompts_per_week;
+    if (weeklyCap !== undefined && weeklyCap !== null && (!Number.isInteger(weeklyCap) || weeklyCap < 1)) {
+      return promptError('INVALID_PROMPT_SETTINGS', 'The weekly cap must be at least one prompt');
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('feedback_prompts')
+        .update(updates)
+        .eq('id', promptId)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformPrompt(data) };
+    } catch (error) {
+      return promptError('UPDATE_PROMPT_ERROR', 'Failed to update the feedback prompt', error);
+    }
+  }
+
+  /**
+   * Share of prompts answered, per teacher and per course, for prompts sent
+   * in the period
+   */
+  async getResponseRates(period: { from: string; to: string }): Promise<HourApiResponse<PromptResponseRates>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('feedback_prompt_deliveries')
+        .select('status, rating, teacher_id, course_id, teacher:teachers(full_name), course:courses(title)')
+        .in('status', ['sent', 'responded', 'expired'])
+        .gte('sent_at', period.from)
+        .lte('sent_at', period.to);
+
+      if (error) throw error;
+
+      const rows = data || [];
+      const summarize = (group: any[]) => {
+        const responded = group.filter(row => row.status === 'responded');
+        const ratings = responded.map(row => row.rating).filter((rating): rating is number => typeof rating === 'number');
+        return {
+          prompted: group.length,
+          responded: responded.length,
+          response_rate: group.length > 0 ? responded.length / group.length : 0,
+          average_rating: ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : undefined
+        };
+      };
+      const groupBy = (key: (row: any) => string | null, name: (row: any) => string): PromptResponseRate[] => {
+        const groups = new Map<string, any[]>();
+        for (const row of rows) {
+          const id = key(row);
+          if (!id) continue;
+          groups.set(id, [...(groups.get(id) || []), row]);
+        }
+        return [...groups.entries()]
+          .map(([id, group]) => ({ id, name: name(group[0]), ...summarize(group) }))
+          .sort((a, b) => b.prompted - a.prompted);
+      };
+
+      return {
+        success: true,
+        data: {
+          overall: summarize(rows),
+          by_teacher: groupBy(row => row.teacher_id, row => row.teacher?.full_name || 'Unknown teacher'),
+          by_course: groupBy(row => row.course_id, row => row.course?.title || 'Unknown course')
+        }
+      };
+    } catch (error) {
+      return promptError('FETCH_RESPONSE_RATES_ERROR', 'Failed to fetch feedback response rates', error);
+    }
+  }
+
+  /**
+   * Consider recent attendance of students who came to class. Each record
+   * gets a delivery row, scheduled or skipped, so it is only considered once.
+   */
+  private async schedulePrompts(now: Date, result: FeedbackPromptSweepResult): Promise<void> {
+    const { data: prompts, error: promptsError } = await this.supabase
+      .from('feedback_prompts')
+      .select('*')
+      .eq('trigger_event', 'class_completed')
+      .eq('target_user_role', 'student')
+      .eq('is_active', true);
+
+    if (promptsError) throw promptsError;
+    if (!prompts?.length) return;
+
+    const since = new Date(now.getTime() - FEEDBACK_PROMPT.LOOKBACK_HOURS * HOUR_MS);
+    const { data: attendance, error: attendanceError } = await this.supabase
+      .from('attendance')
+      .select('id, attendance_time, booking:bookings!inner(id, student_id, class_id, start_time, end_time, substitute_teacher_id, class:classes(teacher_id, course:courses(id, course_type)))')
+      .in('status', ['present', 'late'])
+      .gte('attendance_time', since.toISOString())
+      .lte('attendance_time', now.toISOString())
+      .order('attendance_time', { ascending: true });
+
+    if (attendanceError) throw attendanceError;
+    if (!attendance?.length) return;
+
+    const windowStart = new Date(now.getTime() - FEEDBACK_PROMPT.THROTTLE_WINDOW_DAYS * DAY_MS);
+    const [{ data: existing, error: existingError }, { data: recent, error: recentError }] = await Promise.all([
+      this.supabase
+        .from('feedback_prompt_deliveries')
+        .select('prompt_id, attendance_id')
+        .in('attendance_id', attendance.map((row: any) => row.id)),
+      this.supabase
+        .from('feedback_prompt_deliveries')
+        .select('student_id')
+        .neq('status', 'skipped')
+        .gte('scheduled_for', windowStart.toISOString())
+    ]);
+
+    if (existingError) throw existingError;
+    if (recentError) throw recentError;
+
+    const considered = new Set((existing || []).map((row: any) => `${row.prompt_id}:${row.attendance_id}`));
+    const promptsThisWeek = new Map<string, number>();
+    for (const row of recent || []) {
+      promptsThisWeek.set(row.student_id, (promptsThisWeek.get(row.student_id) || 0) + 1);
+    }
+
+    for (const prompt of prompts.map((row: any) => this.transformPrompt(row))) {
+      for (const row of attendance) {
+        if (considered.has(`${prompt.id}:${row.id}`)) continue;
+
+        const booking = row.booking;
+        const studentId = booking.student_id;
+        const skipReason = getPromptSkipReason(prompt, {
+          classId: booking.class_id,
+          startTime: booking.start_time,
+          courseType: booking.class?.course?.course_type,
+          promptsThisWeek: promptsThisWeek.get(studentId) || 0
+        });
+        const classEnd = booking.end_time || row.attendance_time;
+
+        try {
+          const { error } = await this.supabase
+            .from('feedback_prompt_deliveries')
+            .insert({
+              prompt_id: prompt.id,
+              attendance_id: row.id,
+              student_id: studentId,
+              booking_id: booking.id,
+              class_id: booking.class_id,
+              teacher_id: booking.substitute_teacher_id || booking.class?.teacher_id || null,
+              course_id: booking.class?.course?.id || null,
+              status: skipReason ? 'skipped' : 'scheduled',
+              skip_reason: skipReason,
+              scheduled_for: new Date(new Date(classEnd).getTime() + (prompt.delay_minutes || 0) * 60 * 1000).toISOString()
+            });
+
+          if (error?.code === UNIQUE_VIOLATION) continue;
+          if (error) throw error;
+
+          if (skipReason) {
+            result.skipped++;
+          } else {
+            result.scheduled++;
+            promptsThisWeek.set(studentId, (promptsThisWeek.get(studentId) || 0) + 1);
+          }
+        } catch (error) {
+          result.errors.push(`Attendance ${row.id}: ${(error as any)?.message || 'failed'}`);
+        }
+      }
+    }
+  }
+
+  private async sendDuePrompts(now: Date, result: FeedbackPromptSweepResult): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('feedback_prompt_deliveries')
+      .select(DELIVERY_SELECT)
+      .eq('status', 'scheduled')
+      .lte('scheduled_for', now.toISOString());
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      try {
+        const expiryDays = row.prompt?.expiry_days ?? 7;
+        const maxReminders = row.prompt?.max_reminders ?? 0;
+        const intervalDays = row.prompt?.reminder_interval_days ?? 2;
+
+        // Claim the row first so an overlapping sweep can't send it twice
+        const { data: claimed, error: claimError } = await this.supabase
+          .from('feedback_prompt_deliveries')
+          .update({
+            status: 'sent',
+            sent_at: now.toISOString(),
+            expires_at: new Date(now.getTime() + expiryDays * DAY_MS).toISOString(),
+            next_reminder_at: maxReminders > 0 ? new Date(now.getTime() + intervalDays * DAY_MS).toISOString() : null
+          })
+          .eq('id', row.id)
+          .eq('status', 'scheduled')
+          .select('id');
+
+        if (claimError) throw claimError;
+        if (!claimed?.length) continue;
+
+        await this.notifyStudent(row, false, now);
+        result.sent++;
+      } catch (sendError) {
+        result.errors.push(`Prompt ${row.id}: ${(sendError as any)?.message || 'failed'}`);
+      }
+    }
+  }
+
+  private async sendReminders(now: Date, result: FeedbackPromptSweepResult): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('feedback_prompt_deliveries')
+      .select(DELIVERY_SELECT)
+      .eq('status', 'sent')
+      .lte('next_reminder_at', now.toISOString())
+      .gt('expires_at', now.toISOString());
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      try {
+        const reminderCount = row.reminder_count + 1;
+        const maxReminders = row.prompt?.max_reminders ?? 0;
+        const intervalDays = row.prompt?.reminder_interval_days ?? 2;
+        const nextReminderAt = new Date(now.getTime() + intervalDays * DAY_MS);
+
+        const { data: claimed, error: claimError } = await this.supabase
+          .from('feedback_prompt_deliveries')
+          .update({
+            reminder_count: reminderCount,
+            next_reminder_at: reminderCount < maxReminders && nextReminderAt < new Date(row.expires_at)
+              ? nextReminderAt.toISOString()
+              : null
+          })
+          .eq('id', row.id)
+          .eq('status', 'sent')
+          .eq('reminder_count', row.reminder_count)
+          .select('id');
+
+        if (claimError) throw claimError;
+        if (!claimed?.length) continue;
+
+        await this.notifyStudent(row, true, now);
+        result.reminded++;
+      } catch (remindError) {
+        result.errors.push(`Prompt ${row.id}: ${(remindError as any)?.message || 'failed'}`);
+      }
+    }
+  }
+
+  private async expirePrompts(now: Date, result: FeedbackPromptSweepResult): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('feedback_prompt_deliveries')
+      .update({ status: 'expired', next_reminder_at: null })
+      .eq('status', 'sent')
+      .lte('expires_at', now.toISOString())
+      .select('id');
+
+    if (error) throw error;
+    result.expired = (data || []).length;
+  }
+
+  /**
+   * In-app notification plus an email with a link per star rating
+   */
+  private async notifyStudent(row: any, reminder: boolean, now: Date): Promise<void> {
+    const student = row.student;
+    const className = row.class?.class_name || 'your class';
+    const about = row.teacher?.full_name ? `${className} with ${row.teacher.full_name}` : className;
+    const title = reminder ? 'Reminder: how was your class?' : 'How was your class?';
+
+    if (student?.user_id) {
+      const { error } = await this.supabase
+        .from('notifications')
+        .insert({
+          user_id: student.user_id,
+          title,
+          message: `Rate ${about} in one click. Your feedback helps your teacher.`,
+          notification_type: 'system',
+          is_read: false,
+          sent_time: now.toISOString()
+        });
+
+      if (error) throw error;
+    }
+
+    if (!student?.email) return;
+
+    const ratings = [1, 2, 3, 4, 5];
+    const mailer = this.mailer || getEmailQueueService();
+    await mailer.addToQueue({
+      to: [{ email: student.email, name: student.full_name }],
+      subject: title,
+      html: `<p>Hi ${student.full_name || 'there'},</p>
+<p>How would you rate ${about}? Click a rating to send it. You can add a comment afterwards.</p>
+<p>${ratings.map(rating => `<a href="${getFeedbackRatingUrl(row.token, rating)}" style="font-size:24px;text-decoration:none;color:#f59e0b">${'&#9733;'.repeat(rating)}</a>`).join('<br>')}</p>`,
+      text: `How would you rate ${about}? Open a link to send your rating:\n${ratings.map(rating => `${rating} star${rating > 1 ? 's' : ''}: ${getFeedbackRatingUrl(row.token, rating)}`).join('\n')}`,
+      priority: EmailPriority.NORMAL,
+      tags: ['feedback', reminder ? 'prompt-reminder' : 'prompt']
+    }, { priority: EmailPriority.NORMAL, maxAttempts: 3 });
+  }
+
+  /**
+   * A sent, answered or expired delivery by token
+   */
+  private async loadDelivery(token: string): Promise<any | null> {
+    const { data, error } = await this.supabase
+      .from('feedback_prompt_deliveries')
+      .select(DELIVERY_SELECT)
+      .eq('token', token)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data || data.status === 'scheduled' || data.status === 'skipped') return null;
+    return data;
+  }
+
+  private transformPrompt(data: any): FeedbackPrompt {
+    return {
+      ...data,
+      max_prompts_per_week: data.max_prompts_per_week ?? null,
+      group_class_sample_rate: data.group_class_sample_rate === null || data.group_class_sample_rate === undefined
+        ? 1
+        : Number(data.group_class_sample_rate)
+    };
+  }
+
+  private transformSummary(data: any): FeedbackPromptSummary {
+    return {
+      token: data.token,
+      status: data.status,
+      class_name: data.class?.class_name || undefined,
+      teacher_name: data.teacher?.full_name || undefined,
+      class_date: data.booking?.start_time || undefined,
+      expires_at: data.expires_at || undefined,
+      rating: data.rating ?? undefined
+    };
+  }
+}
+
+// Export singleton instance
+export const feedbackPromptService = new FeedbackPromptService();
@@ -393,23 +393,24 @@ class FinancialAnalyticsService {
   ): Promise<DiscountAnalysis> {
     try {
       const { data: discounts, error } = await supabase
-        .from('hour_packages')
+        .from('hour_purchase_discounts')
         .select(`
           id,
+          purchase_id,
           student_id,
-          price,
-          original_price,
           discount_type,
-          discount_amount,
-          created_at
+          amount,
+          percentage,
+          created_at,
+          hour_purchases!inner (list_price, price_paid, payment_status)
         `)
         .gte('created_at', startDate.toISOString())
         .lte('created_at', endDate.toISOString())
-        .not('discount_amount', 'is', null);
+        .eq('hour_purchases.payment_status', 'completed');
 
       if (error) throw error;
 
-      const totalDiscounts = discounts?.reduce((sum, pkg) => sum + (pkg.discount_amount || 0), 0) || 0;
+      const totalDiscounts = discounts?.reduce((sum, discount) => sum + (discount.amount || 0), 0) || 0;
 
       // Group discounts by type
       const discountsByType = this.groupDiscountsByType(discounts || []);
@@ -527,6 +528,36 @@ class FinancialAnalyticsService {
       .sort((a, b) => b.revenue - a.revenue);
   }
 
+  private groupDiscountsByType(discounts: any[]) {
+    const typeMap = new Map<string, { type: string; count: number; totalAmount: number; percentageSum: number }>();
+
+    discounts.forEach(discount => {
+      const existing = typeMap.get(discount.discount_type) || {
+        type: discount.discount_type,
+        count: 0,
+        totalAmount: 0,
+        percentageSum: 0
+      };
+
+      // Fixed-amount discounts have no percentage, so derive it from the list price
+      const listPrice = discount.hour_purchases?.list_price || 0;
+      const percentage = discount.percentage ?? (listPrice > 0 ? (discount.amount / listPrice) * 100 : 0);
+
+      existing.count += 1;
+      existing.totalAmount += discount.amount || 0;
+      existing.percentageSum += percentage;
+
+      typeMap.set(discount.discount_type, existing);
+    });
+
+    return Array.from(typeMap.values())
+      .map(({ percentageSum, ...entry }) => ({
+        ...entry,
+        averagePercentage: entry.count > 0 ? percentageSum / entry.count : 0
+      }))
+      .sort((a, b) => b.totalAmount - a.totalAmount);
+  }
+
   private getPopularPackages(packages: any[]) {
     const packageMap = new Map<string, any>();
 
@@ -653,47 +684,21 @@ class FinancialAnalyticsService {
 
   private async analyzeDiscountEffectiveness(startDate: Date, endDate: Date) {
     try {
-      // Get students with discounts
-      const { data: withDiscount, error: discountError } = await supabase
-        .from('hour_packages')
-        .select('student_id, price')
+      const { data: purchases, error } = await supabase
+        .from('hour_purchases')
+        .select('student_id, price_paid, discount_total')
+        .eq('payment_status', 'completed')
         .gte('created_at', startDate.toISOString())
-        .lte('created_at', endDate.toISOString())
-        .not('discount_amount', 'is', null);
-
-      if (discountError) throw discountError;
-
-      // Get students without discounts
-      const { data: withoutDiscount, error: noDiscountError } = await supabase
-        .from('hour_packages')
-        .select('student_id, price')
-        .gte('created_at', startDate.toISOString())
-        .lte('created_at', endDate.toISOString())
-        .is('discount_amount', null);
-
-      if (noDiscountError) throw noDiscountError;
-
-      // Calculate retention and average purchase
-      const discountStudents = new Set(withDiscount?.map(p => p.student_id) || []);
-      const noDiscountStudents = new Set(withoutDiscount?.map(p => p.student_id) || []);
+        .lte('created_at', endDate.toISOString());
 
-      const discountAverage = withDiscount?.length 
-        ? withDiscount.reduce((sum, p) => sum + p.price, 0) / withDiscount.length 
-        : 0;
+      if (error) throw error;
 
-      const noDiscountAverage = withoutDiscount?.length
-        ? withoutDiscount.reduce((sum, p) => sum + p.price, 0) / withoutDiscount.length
-        : 0;
+      const withDiscount = (purchases || []).filter(p => (p.discount_total || 0) > 0);
+      const withoutDiscount = (purchases || []).filter(p => !((p.discount_total || 0) > 0));
 
       return {
-        withDiscount: {
-          retention: 85, // Would need more data to calculate actual retention
-          averagePurchase: discountAverage
-        },
-        withoutDiscount: {
-          retention: 75, // Would need more data to calculate actual retention
-          averagePurchase: noDiscountAverage
-        }
+        withDiscount: this.summarizePurchaseGroup(withDiscount, purchases || []),
+        withoutDiscount: this.summarizePurchaseGroup(withoutDiscount, purchases || [])
       };
     } catch (error) {
       logger.error('Error analyzing discount effectiveness:', error);
@@ -703,6 +708,27 @@ class FinancialAnalyticsService {
       };
     }
   }
+
+  /**
+   * Retention is the share of students in the group who bought more than
+   * once in the period (counting purchases from either group).
+   */
+  private summarizePurchaseGroup(group: any[], allPurchases: any[]) {
+    const students = new Set(group.map(p => p.student_id));
+    const purchaseCounts = new Map<string, number>();
+    allPurchases.forEach(p => {
+      purchaseCounts.set(p.student_id, (purchaseCounts.get(p.student_id) || 0) + 1);
+    });
+
+    const repeatStudents = Array.from(students).filter(id => (purchaseCounts.get(id) || 0) > 1).length;
+
+    return {
+      retention: students.size > 0 ? Math.round((repeatStudents / students.size) * 100) : 0,
+      averagePurchase: group.length > 0
+        ? group.reduce((sum, p) => sum + (p.price_paid || 0), 0) / group.length
+        : 0
+    };
+  }
 }
 
 export const financialAnalyticsService = new FinancialAnalyticsService();
\ No newline at end of file
@@ -2,13 +2,19 @@ import { logger } from '@/lib/services';
 /**
  * Hour Expiry Cron Job
  * 
- * This service runs daily to expire old hour purchases and create alerts
+ * This service runs daily to expire the unused remainder of each hour lot
+ * and create alerts
  */
 
-import { createClient } from '@/lib/supabase/server';
+import { supabase as defaultClient } from '@/lib/supabase';
+import type { HourLotExpiry } from '@/types/hours';
 
 export class HourExpiryCronService {
-  private supabase = createClient();
+  private supabase;
+
+  constructor(client: any = defaultClient) {
+    this.supabase = client;
+  }
 
   /**
    * Run the expiry process
@@ -17,26 +23,37 @@ export class HourExpiryCronService {
   async runExpiryProcess(): Promise<{
     success: boolean;
     expired: number;
+    hoursExpired: number;
+    lots: HourLotExpiry[];
     alerts: number;
     errors: string[];
   }> {
     const results = {
       success: true,
       expired: 0,
+      hoursExpired: 0,
+      lots: [] as HourLotExpiry[],
       alerts: 0,
       errors: [] as string[]
     };
 
     try {
-      // Call the database function to expire purchases
-      const { data: expiredCount, error: expireError } = await this.supabase
-        .rpc('expire_hour_purchases');
+      // Expire each lot past its validity, one transaction per lot
+      const { data: expiredLots, error: expireError } = await this.supabase
+        .rpc('expire_hour_lots');
 
       if (expireError) {
         throw expireError;
       }
 
-      results.expired = expiredCount || 0;
+      results.lots = (expiredLots || []).map((lot: any) => ({
+        purchaseId: lot.lot_id,
+        studentId: lot.lot_student_id,
+        hoursExpired: lot.expired_hours,
+        transactionId: lot.expiry_transaction_id
+      }));
+      results.expired = results.lots.length;
+      results.hoursExpired = results.lots.reduce((sum, lot) => sum + lot.hoursExpired, 0);
 
       // Check for upcoming expirations and create alerts
       const alertsCreated = await this.createExpiryAlerts();
@@ -45,7 +62,7 @@ export class HourExpiryCronService {
       // Send notifications for critical alerts
       await this.sendExpiryNotifications();
 
-      logger.info(`Hour expiry process completed: ${results.expired} expired, ${results.alerts} alerts created`);
+      logger.info(`Hour expiry process completed: ${results.hoursExpired} hours expired across ${results.expired} lots, ${results.alerts} alerts created`);
     } catch (error) {
       results.success = false;
       results.errors.push(error instanceof Error ? error.message : 'Unknown error');
@@ -211,10 +228,10 @@ export class HourExpiryCronService {
 export const hourExpiryCronService = new HourExpiryCronService();
 
 // Function to be called by cron job
-export async function runHourExpiryJob() {
-  logger.info('Starting hour expiry job at', new Date().toISOString());
+export async function runHourExpiryJob(client: any = defaultClient) {
+  logger.info(`Starting hour expiry job at ${new Date().toISOString()}`);
   
-  const service = new HourExpiryCronService();
+  const service = new HourExpiryCronService(client);
   const results = await service.runExpiryProcess();
   
   // Also clean up old alerts
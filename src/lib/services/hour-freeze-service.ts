@@ -0,0 +1,188 @@
+/**
+ * Hour Freeze Service
+ *
+ * Pauses the expiry clock on a student's purchased hours while they are on
+ * approved long leave. Every lot still valid when the leave begins has its
+ * validity pushed back by the frozen days, capped by the active `freeze_cap`
+ * leave rule. Freezes and each lot extension are audited in `hour_adjustments`.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import {
+  DEFAULT_HOUR_FREEZE_DAYS_PER_YEAR,
+  HOUR_FREEZE_MIN_LEAVE_DAYS
+} from '@/types/hours';
+import type {
+  HourApiResponse,
+  HourFreeze,
+  HourFreezeAllowance
+} from '@/types/hours';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Leave types long enough to justify pausing expiry (medical and travel leave)
+const FREEZABLE_LEAVE_TYPES = ['medical', 'vacation'];
+
+/**
+ * Calendar days covered by a leave, counting both ends
+ */
+export function countLeaveDays(startDate: string, endDate: string): number {
+  const start = Date.parse(`${startDate.slice(0, 10)}T00:00:00Z`);
+  const end = Date.parse(`${endDate.slice(0, 10)}T00:00:00Z`);
+  return Math.max(Math.round((end - start) / MS_PER_DAY) + 1, 0);
+}
+
+/**
+ * Whether an approved leave should freeze the student's hours
+ */
+export function isFreezeEligible(leaveType: string, startDate: string, endDate: string): boolean {
+  return FREEZABLE_LEAVE_TYPES.includes(leaveType) &&
+    countLeaveDays(startDate, endDate) >= HOUR_FREEZE_MIN_LEAVE_DAYS;
+}
+
+/**
+ * Days to freeze for a leave given what is left of the yearly cap
+ */
+export function calculateFreezeDays(input: {
+  startDate: string;
+  endDate: string;
+  maxDaysPerYear: number;
+  usedDays: number;
+}): { requestedDays: number; freezeDays: number } {
+  const requestedDays = countLeaveDays(input.startDate, input.endDate);
+  const remainingDays = Math.max(input.maxDaysPerYear - input.usedDays, 0);
+  return { requestedDays, freezeDays: Math.min(requestedDays, remainingDays) };
+}
+
+// Refusals raised by apply_hour_freeze, passed through as error codes
+const FREEZE_RPC_ERRORS = ['FREEZE_CAP_REACHED', 'LEAVE_NOT_APPROVED', 'LEAVE_NOT_FOUND', 'FORBIDDEN'];
+
+function freezeError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class HourFreezeService {
+  private supabase;
+
+  constructor(client: any = defaultClient) {
+    this.supabase = client;
+  }
+
+  /**
+   * Frozen days used and left for a student in a calendar year
+   */
+  async getFreezeAllowance(studentId: string, year: number = new Date().getUTCFullYear()): Promise<HourApiResponse<HourFreezeAllowance>> {
+    try {
+      const maxDaysPerYear = await this.getMaxFreezeDaysPerYear();
+
+      const { data, error } = await this.supabase
+        .from('hour_freezes')
+        .select('freeze_days')
+        .eq('student_id', studentId)
+        .eq('status', 'active')
+        .gte('start_date', `${year}-01-01`)
+        .lte('start_date', `${year}-12-31`);
+
+      if (error) throw error;
+
+      const usedDays = (data || []).reduce((sum: number, freeze: any) => sum + freeze.freeze_days, 0);
+
+      return {
+        success: true,
+        data: {
+          year,
+          maxDaysPerYear,
+          usedDays,
+          remainingDays: Math.max(maxDaysPerYear - usedDays, 0)
+        }
+      };
+    } catch (error) {
+      return freezeError('FETCH_FREEZE_ALLOWANCE_ERROR', 'Failed to fetch hour freeze allowance', error);
+    }
+  }
+
+  async getFreezes(studentId: string): Promise<HourApiResponse<HourFreeze[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('hour_freezes')
+        .select('*')
+        .eq('student_id', studentId)
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((freeze: any) => this.transformFreeze(freeze)) };
+    } catch (error) {
+      return freezeError('FETCH_FREEZES_ERROR', 'Failed to fetch hour freezes', error);
+    }
+  }
+
+  /**
+   * Freeze a student's hours for an approved leave. The function checks the
+   * approval and charges the days against the yearly cap of the year the
+   * leave starts in, under a lock on the student.
+   */
+  async freezeForLeave(leaveRequestId: string): Promise<HourApiResponse<HourFreeze>> {
+    try {
+      const { data: freezeId, error: rpcError } = await this.supabase.rpc('apply_hour_freeze', {
+        p_leave_request_id: leaveRequestId
+      });
+
+      if (rpcError) {
+        const message = String(rpcError.message);
+        const code = FREEZE_RPC_ERRORS.find(known => message.includes(known));
+        if (code) {
+          return freezeError(code, message.replace(`${code}: `, ''), rpcError);
+        }
+        throw rpcError;
+      }
+
+      const { data, error } = await this.supabase
+        .from('hour_freezes')
+        .select('*')
+        .eq('id', freezeId)
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformFreeze(data) };
+    } catch (error) {
+      return freezeError('FREEZE_ERROR', 'Failed to apply hour freeze', error);
+    }
+  }
+
+  private async getMaxFreezeDaysPerYear(): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('leave_rules')
+      .select('value')
+      .eq('rule_type', 'freeze_cap')
+      .eq('is_active', true)
+      .order('priority', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const cap = Number(data?.value);
+    return data && Number.isFinite(cap) ? Math.max(cap, 0) : DEFAULT_HOUR_FREEZE_DAYS_PER_YEAR;
+  }
+
+  private transformFreeze(freeze: any): HourFreeze {
+    return {
+      id: freeze.id,
+      studentId: freeze.student_id,
+      leaveRequestId: freeze.leave_request_id,
+      startDate: freeze.start_date,
+      endDate: freeze.end_date,
+      requestedDays: freeze.requested_days,
+      freezeDays: freeze.freeze_days,
+      lotsExtended: freeze.lots_extended,
+      status: freeze.status,
+      approvedBy: freeze.approved_by,
+      createdAt: freeze.created_at
+    };
+  }
+}
+
+// Export singleton instance
+export const hourFreezeService = new HourFreezeService();
@@ -0,0 +1,450 @@
+/**
+ * Hour Ledger Service
+ *
+ * Reads the double-entry hour ledger posted from `hour_transactions` and
+ * reconciles it against purchase lots and the balances cached on
+ * transactions. Discrepancies are stored per reconciliation run together
+ * with a suggested repair for admins to review.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import type {
+  HourApiResponse,
+  HourBalanceSnapshot,
+  HourLedgerJournal,
+  HourReconciliationRun,
+  LedgerDiscrepancy,
+  LedgerDiscrepancyStatus
+} from '@/types/hours';
+
+export interface LedgerIntegrityIssue {
+  issue_type: 'unbalanced_journal' | 'missing_journal' | 'open_transfer';
+  student_id: string | null;
+  counterparty_student_id: string | null;
+  reference_id: string | null;
+  amount: number;
+}
+
+/**
+ * Compare ledger, purchase-lot and cached balances for each student
+ */
+export function reconcileBalances(snapshots: HourBalanceSnapshot[]): LedgerDiscrepancy[] {
+  const discrepancies: LedgerDiscrepancy[] = [];
+
+  for (const snapshot of snapshots) {
+    const { studentId, ledgerBalance, purchaseBalance, cachedBalance } = snapshot;
+
+    if (ledgerBalance !== purchaseBalance) {
+      const difference = purchaseBalance - ledgerBalance;
+      discrepancies.push({
+        studentId,
+        discrepancyType: 'ledger_purchase_mismatch',
+        ledgerBalance,
+        purchaseBalance,
+        cachedBalance,
+        difference,
+        status: 'open',
+        suggestedRepair: {
+          action: 'post_adjustment',
+          hours: difference,
+          description: `Purchase lots hold ${purchaseBalance}h but the ledger records ${ledgerBalance}h. ` +
+            `If the lots are correct, post an adjustment of ${difference > 0 ? '+' : ''}${difference}h; ` +
+            'otherwise correct hours_used on the affected purchases.'
+        }
+      });
+    }
+
+    if (cachedBalance !== undefined && cachedBalance !== null && cachedBalance !== ledgerBalance) {
+      discrepancies.push({
+        studentId,
+        discrepancyType: 'cached_balance_mismatch',
+        ledgerBalance,
+        purchaseBalance,
+        cachedBalance,
+        difference: ledgerBalance - cachedBalance,
+        referenceId: snapshot.lastTransactionId,
+        status: 'open',
+        suggestedRepair: {
+          action: 'refresh_cached_balance',
+          hours: ledgerBalance,
+          description: `The latest transaction shows a balance of ${cachedBalance}h but the ledger totals ${ledgerBalance}h. ` +
+            `Set balance_after on transaction ${snapshot.lastTransactionId} to ${ledgerBalance}h.`
+        }
+      });
+    }
+  }
+
+  return discrepancies;
+}
+
+/**
+ * Turn a structural ledger problem into a discrepancy with a suggested repair
+ */
+export function describeIntegrityIssue(issue: LedgerIntegrityIssue): LedgerDiscrepancy {
+  const base = {
+    studentId: issue.student_id || undefined,
+    referenceId: issue.reference_id || undefined,
+    difference: issue.amount,
+    status: 'open' as const
+  };
+
+  switch (issue.issue_type) {
+    case 'unbalanced_journal':
+      return {
+        ...base,
+        discrepancyType: 'unbalanced_journal',
+        suggestedRepair: {
+          action: 'investigate_journal',
+          hours: -issue.amount,
+          description: `Journal ${issue.reference_id} is out of balance by ${issue.amount}h. ` +
+            'Post a correcting journal once the missing entry is identified.'
+        }
+      };
+
+    case 'missing_journal':
+      return {
+        ...base,
+        discrepancyType: 'missing_journal',
+        suggestedRepair: {
+          action: 'backfill_journal',
+          hours: issue.amount,
+          description: `Transaction ${issue.reference_id} (${issue.amount}h) has no ledger journal. ` +
+            'Post it with post_hour_ledger_journal().'
+        }
+      };
+
+    case 'open_transfer':
+      return {
+        ...base,
+        discrepancyType: 'open_transfer',
+        suggestedRepair: {
+          action: 'complete_transfer',
+          hours: issue.amount,
+          description: `Transfers between ${issue.student_id} and ${issue.counterparty_student_id} leave ` +
+            `${issue.amount}h in clearing. Record the missing side of the transfer or reverse the recorded side.`
+        }
+      };
+  }
+}
+
+export class HourLedgerService {
+  private supabase;
+
+  constructor(client: any = defaultClient) {
+    this.supabase = client;
+  }
+
+  /**
+   * Get a student's ledger journals, newest first
+   */
+  async getStudentLedger(studentId: string, limit: number = 100): Promise<HourApiResponse<HourLedgerJournal[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('hour_ledger_entries')
+        .select(`
+          *,
+          hour_ledger_journals (
+            id,
+            transaction_id,
+            journal_type,
+            description,
+            posted_at
+          )
+        `)
+        .eq('student_id', studentId)
+        .order('created_at', { ascending: false })
+        .limit(limit * 2);
+
+      if (error) throw error;
+
+      const journals = new Map<string, HourLedgerJournal>();
+      for (const entry of data || []) {
+        const journal = entry.hour_ledger_journals;
+        if (!journals.has(entry.journal_id)) {
+          journals.set(entry.journal_id, {
+            id: entry.journal_id,
+            transactionId: journal?.transaction_id,
+            journalType: journal?.journal_type,
+            description: journal?.description,
+            postedAt: journal?.posted_at,
+            entries: []
+          });
+        }
+        journals.get(entry.journal_id)!.entries.push({
+          id: entry.id,
+          journalId: entry.journal_id,
+          account: entry.account,
+          studentId: entry.student_id,
+          counterpartyStudentId: entry.counterparty_student_id,
+          purchaseId: entry.purchase_id,
+          amount: entry.amount,
+          createdAt: entry.created_at
+        });
+      }
+
+      return { success: true, data: Array.from(journals.values()).slice(0, limit) };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'FETCH_LEDGER_ERROR',
+          message: 'Failed to fetch hour ledger',
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Balance of a student's ledger account
+   */
+  async getLedgerBalance(studentId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('hour_ledger_entries')
+      .select('amount')
+      .eq('student_id', studentId)
+      .eq('account', 'student_balance');
+
+    if (error) throw error;
+    return (data || []).reduce((sum: number, entry: any) => sum + entry.amount, 0);
+  }
+
+  /**
+   * Compare every student's balances and record the discrepancies found
+   */
+  async runReconciliation(): Promise<HourApiResponse<HourReconciliationRun>> {
+    const { data: run, error: runError } = await this.supabase
+      .from('hour_reconciliation_runs')
+      .insert({ status: 'running' })
+      .select()
+      .single();
+
+    if (runError) {
+      return {
+        success: false,
+        error: {
+          code: 'RECONCILIATION_ERROR',
+          message: 'Failed to start reconciliation run',
+          details: runError
+        }
+      };
+    }
+
+    try {
+      const { data: snapshotRows, error: snapshotError } = await this.supabase.rpc('get_hour_balance_snapshot');
+      if (snapshotError) throw snapshotError;
+
+      const { data: issues, error: issuesError } = await this.supabase.rpc('get_hour_ledger_integrity_issues');
+      if (issuesError) throw issuesError;
+
+      const snapshots: HourBalanceSnapshot[] = (snapshotRows || []).map((row: any) => ({
+        studentId: row.student_id,
+        ledgerBalance: row.ledger_balance,
+        purchaseBalance: row.purchase_balance,
+        cachedBalance: row.cached_balance ?? undefined,
+        lastTransactionId: row.last_transaction_id ?? undefined
+      }));
+
+      const discrepancies = [
+        ...reconcileBalances(snapshots),
+        ...(issues || []).map((issue: LedgerIntegrityIssue) => describeIntegrityIssue(issue))
+      ];
+
+      if (discrepancies.length > 0) {
+        const { error: insertError } = await this.supabase
+          .from('hour_ledger_discrepancies')
+          .insert(discrepancies.map(d => ({
+            run_id: run.id,
+            student_id: d.studentId,
+            discrepancy_type: d.discrepancyType,
+            ledger_balance: d.ledgerBalance,
+            purchase_balance: d.purchaseBalance,
+            cached_balance: d.cachedBalance,
+            difference: d.difference,
+            reference_id: d.referenceId,
+            suggested_repair: d.suggestedRepair
+          })));
+
+        if (insertError) throw insertError;
+      }
+
+      const { data: completed, error: updateError } = await this.supabase
+        .from('hour_reconciliation_runs')
+        .update({
+          status: 'completed',
+          students_checked: snapshots.length,
+          discrepancies_found: discrepancies.length,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', run.id)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+
+      logger.info(`Hour reconciliation ${run.id}: ${snapshots.length} students checked, ${discrepancies.length} discrepancies`);
+
+      return { success: true, data: this.transformRun(completed) };
+    } catch (error) {
+      logger.error('Hour reconciliation failed:', error);
+
+      await this.supabase
+        .from('hour_reconciliation_runs')
+        .update({
+          status: 'failed',
+          error_message: error instanceof Error ? error.message : 'Unknown error',
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', run.id);
+
+      return {
+        success: false,
+        error: {
+          code: 'RECONCILIATION_ERROR',
+          message: 'Hour reconciliation failed',
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Latest run and its discrepancies for the admin report
+   */
+  async getDiscrepancyReport(filters: {
+    runId?: string;
+    status?: LedgerDiscrepancyStatus;
+  } = {}): Promise<HourApiResponse<{ run: HourReconciliationRun | null; discrepancies: LedgerDiscrepancy[] }>> {
+    try {
+      let runQuery = this.supabase
+        .from('hour_reconciliation_runs')
+        .select('*');
+
+      runQuery = filters.runId
+        ? runQuery.eq('id', filters.runId)
+        : runQuery.order('started_at', { ascending: false }).limit(1);
+
+      const { data: runs, error: runError } = await runQuery;
+      if (runError) throw runError;
+
+      const run = runs?.[0];
+      if (!run) {
+        return { success: true, data: { run: null, discrepancies: [] } };
+      }
+
+      let query = this.supabase
+        .from('hour_ledger_discrepancies')
+        .select(`
+          *,
+          profiles!hour_ledger_discrepancies_student_id_fkey (
+            full_name
+          )
+        `)
+        .eq('run_id', run.id)
+        .order('created_at', { ascending: true });
+
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: {
+          run: this.transformRun(run),
+          discrepancies: (data || []).map((d: any) => this.transformDiscrepancy(d))
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'FETCH_DISCREPANCIES_ERROR',
+          message: 'Failed to fetch reconciliation report',
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Mark a discrepancy as repaired or accepted, by the signed-in user unless
+   * the caller names the admin
+   */
+  async resolveDiscrepancy(
+    discrepancyId: string,
+    status: Exclude<LedgerDiscrepancyStatus, 'open'>,
+    notes?: string,
+    resolvedBy?: string
+  ): Promise<HourApiResponse<LedgerDiscrepancy>> {
+    try {
+      const { data: user } = await this.supabase.auth.getUser();
+
+      const { data, error } = await this.supabase
+        .from('hour_ledger_discrepancies')
+        .update({
+          status,
+          resolution_notes: notes,
+          resolved_by: resolvedBy ?? user?.user?.id,
+          resolved_at: new Date().toISOString()
+        })
+        .eq('id', discrepancyId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformDiscrepancy(data) };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'RESOLVE_DISCREPANCY_ERROR',
+          message: 'Failed to update discrepancy',
+          details: error
+        }
+      };
+    }
+  }
+
+  // Private helper methods
+
+  private transformRun(r: any): HourReconciliationRun {
+    return {
+      id: r.id,
+      status: r.status,
+      studentsChecked: r.students_checked,
+      discrepanciesFound: r.discrepancies_found,
+      errorMessage: r.error_message,
+      startedAt: r.started_at,
+      completedAt: r.completed_at
+    };
+  }
+
+  private transformDiscrepancy(d: any): LedgerDiscrepancy {
+    return {
+      id: d.id,
+      runId: d.run_id,
+      studentId: d.student_id,
+      studentName: d.profiles?.full_name,
+      discrepancyType: d.discrepancy_type,
+      ledgerBalance: d.ledger_balance ?? undefined,
+      purchaseBalance: d.purchase_balance ?? undefined,
+      cachedBalance: d.cached_balance ?? undefined,
+      difference: d.difference,
+      referenceId: d.reference_id,
+      suggestedRepair: d.suggested_repair,
+      status: d.status,
+      resolvedBy: d.resolved_by,
+      resolvedAt: d.resolved_at,
+      resolutionNotes: d.resolution_notes,
+      createdAt: d.created_at
+    };
+  }
+}
+
+// Export singleton instance
+export const hourLedgerService = new HourLedgerService();
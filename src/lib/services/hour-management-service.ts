@@ -13,19 +13,35 @@ import type {
   HourAdjustment,
   HourAlert,
   HourTransferLog,
+  HourLot,
+  HourLotConsumption,
   StudentHourBalance,
   HourUsageStats,
   HourPurchaseRequest,
   HourTransferRequest,
+  FamilyTransferRequest,
   HourAdjustmentRequest,
   HourApiResponse,
   HourPaginatedResponse,
   PaymentStatus,
+  PaymentProviderResult,
   HourTransactionType
 } from '@/types/hours';
+import { getPaymentProvider, type PaymentProvider } from './payment-gateway-service';
+import { hourPricingService, type HourPricingService } from './hour-pricing-service';
 
 export class HourManagementService {
   private supabase = supabase;
+  private paymentProvider: PaymentProvider;
+  private pricing: HourPricingService;
+
+  constructor(
+    paymentProvider: PaymentProvider = getPaymentProvider(),
+    pricing: HourPricingService = hourPricingService
+  ) {
+    this.paymentProvider = paymentProvider;
+    this.pricing = pricing;
+  }
 
   /**
    * Get available hour packages
@@ -120,6 +136,23 @@ export class HourManagementService {
         throw new Error('Invalid package ID');
       }
 
+      // Price the purchase: volume tier, then promo code, then referral credit
+      const quote = await this.pricing.getQuote({
+        studentId: request.studentId,
+        hours: packageData.hours_included,
+        listPrice: Number(packageData.price),
+        currency: packageData.currency,
+        packageId: request.packageId,
+        promoCode: request.promoCode,
+        applyReferralCredits: request.applyReferralCredits
+      });
+
+      if (!quote.success || !quote.data) {
+        return { success: false, error: quote.error };
+      }
+
+      const pricing = quote.data;
+
       // Calculate validity period
       const validFrom = new Date();
       const validUntil = new Date();
@@ -132,10 +165,13 @@ export class HourManagementService {
           student_id: request.studentId,
           package_id: request.packageId,
           hours_purchased: packageData.hours_included,
-          price_paid: packageData.price,
+          price_paid: pricing.finalPrice,
+          list_price: pricing.listPrice,
+          discount_total: pricing.totalDiscount,
           currency: packageData.currency,
           payment_status: 'pending',
           payment_method: request.paymentMethod,
+          payment_provider: this.paymentProvider.name,
           valid_from: validFrom.toISOString(),
           valid_until: validUntil.toISOString(),
           is_corporate_purchase: request.isCorporatePurchase || false,
@@ -149,8 +185,27 @@ export class HourManagementService {
 
       if (purchaseError) throw purchaseError;
 
-      // Process payment (simplified - in production, integrate with payment gateway)
-      const paymentResult = await this.processPayment(purchase.id, request);
+      // Claim promo redemptions and referral credit before taking payment
+      const applied = await this.pricing.applyDiscounts(purchase.id, request.studentId, pricing);
+      if (!applied.success) {
+        await this.supabase
+          .from('hour_purchases')
+          .update({ payment_status: 'cancelled' })
+          .eq('id', purchase.id);
+
+        return { success: false, error: applied.error };
+      }
+
+      // Authorize and capture through the configured payment provider
+      const { paymentResult, processingPurchase } = await this.processPayment(purchase, request);
+
+      if (paymentResult.status === 'processing') {
+        // Offline or asynchronous payments are completed by the provider webhook
+        return {
+          success: true,
+          data: this.transformPurchase(processingPurchase)
+        };
+      }
 
       if (paymentResult.success) {
         // Update payment status
@@ -159,6 +214,7 @@ export class HourManagementService {
           .update({
             payment_status: 'completed',
             payment_reference: paymentResult.reference,
+            payment_gateway_response: paymentResult.raw,
             paid_at: new Date().toISOString()
           })
           .eq('id', purchase.id)
@@ -186,10 +242,18 @@ export class HourManagementService {
         // Payment failed
         await this.supabase
           .from('hour_purchases')
-          .update({ payment_status: 'failed' })
+          .update({
+            payment_status: 'failed',
+            payment_reference: paymentResult.reference,
+            payment_gateway_response: {
+              ...paymentResult.raw,
+              failureCode: paymentResult.failureCode,
+              failureMessage: paymentResult.failureMessage
+            }
+          })
           .eq('id', purchase.id);
 
-        throw new Error('Payment processing failed');
+        throw new Error(paymentResult.failureMessage || 'Payment processing failed');
       }
     } catch (error) {
       return {
@@ -238,7 +302,7 @@ export class HourManagementService {
       // Get recent transactions
       const { data: transactions, error: transError } = await this.supabase
         .from('hour_transactions')
-        .select('*')
+        .select('*, hour_transaction_lots (*)')
         .eq('student_id', studentId)
         .order('created_at', { ascending: false })
         .limit(10);
@@ -320,10 +384,10 @@ export class HourManagementService {
 
       if (error) throw error;
 
-      // Get the created transaction
+      // Get the created transaction with the lots it drew from
       const { data: transaction, error: transError } = await this.supabase
         .from('hour_transactions')
-        .select('*')
+        .select('*, hour_transaction_lots (*)')
         .eq('id', data)
         .single();
 
@@ -353,75 +417,61 @@ export class HourManagementService {
       const { data: user } = await this.supabase.auth.getUser();
       if (!user.user) throw new Error('User not authenticated');
 
-      // Verify students can transfer (family accounts, etc.)
-      if (request.isFamilyTransfer) {
-        // Additional verification logic here
-      }
-
-      // Check source student has enough hours
-      const sourceBalance = await this.getStudentTotalHours(request.fromStudentId);
+      // Check source student has enough hours not held for a waitlist seat
+      const sourceBalance = await this.getAvailableStudentHours(request.fromStudentId);
       if (sourceBalance < request.hoursToTransfer) {
         throw new Error('Insufficient hours for transfer');
       }
 
-      // Start transaction
-      const balanceBefore = {
-        from: sourceBalance,
-        to: await this.getStudentTotalHours(request.toStudentId)
-      };
+      // Both transactions, the lot moves (earliest expiry first) and the log
+      // are written in one database transaction
+      const { data: transferLog, error: logError } = await this.supabase.rpc('transfer_hours', {
+        p_from_student_id: request.fromStudentId,
+        p_to_student_id: request.toStudentId,
+        p_hours: request.hoursToTransfer,
+        p_reason: request.reason,
+        p_pool_account_id: request.corporatePoolId || null,
+        p_is_family_transfer: request.isFamilyTransfer || false,
+        p_family_relationship: request.familyRelationship || null,
+        p_notes: request.notes || null,
+        p_corporate_account_id: request.corporateAccountId || null,
+        p_family_account_id: request.familyAccountId || null
+      });
 
-      // Create deduction transaction for source
-      const { data: fromTransaction } = await this.supabase
-        .from('hour_transactions')
-        .insert({
-          student_id: request.fromStudentId,
-          transaction_type: 'transfer',
-          hours_amount: -request.hoursToTransfer,
-          balance_before: balanceBefore.from,
-          balance_after: balanceBefore.from - request.hoursToTransfer,
-          transfer_to_student_id: request.toStudentId,
-          description: `Transfer to student ${request.toStudentId}`,
-          reason: request.reason
-        })
-        .select()
-        .single();
+      if (logError) throw logError;
 
-      // Create addition transaction for destination
-      const { data: toTransaction } = await this.supabase
-        .from('hour_transactions')
-        .insert({
-          student_id: request.toStudentId,
-          transaction_type: 'transfer',
-          hours_amount: request.hoursToTransfer,
-          balance_before: balanceBefore.to,
-          balance_after: balanceBefore.to + request.hoursToTransfer,
-          transfer_from_student_id: request.fromStudentId,
-          description: `Transfer from student ${request.fromStudentId}`,
-          reason: request.reason
-        })
-        .select()
-        .single();
+      return {
+        success: true,
+        data: this.transformTransferLog(transferLog)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'TRANSFER_ERROR',
+          message: 'Failed to transfer hours',
+          details: error
+        }
+      };
+    }
+  }
 
-      // Create transfer log
-      const { data: transferLog, error: logError } = await this.supabase
-        .from('hour_transfer_logs')
-        .insert({
-          from_student_id: request.fromStudentId,
-          to_student_id: request.toStudentId,
-          from_purchase_id: await this.getOldestActivePurchase(request.fromStudentId),
-          hours_transferred: request.hoursToTransfer,
-          transfer_reason: request.reason,
-          is_family_transfer: request.isFamilyTransfer,
-          family_relationship: request.familyRelationship,
-          from_transaction_id: fromTransaction?.id,
-          to_transaction_id: toTransaction?.id,
-          notes: request.notes,
-          created_by: user.user.id
-        })
-        .select()
-        .single();
+  /**
+   * Move hours within a family as the signed-in guardian. Membership, the
+   * guardian and the monthly cap are checked by the database.
+   */
+  async transferFamilyHours(request: FamilyTransferRequest): Promise<HourApiResponse<HourTransferLog>> {
+    try {
+      const { data: transferLog, error } = await this.supabase.rpc('transfer_family_hours', {
+        p_family_account_id: request.familyAccountId,
+        p_from_profile_id: request.fromProfileId,
+        p_to_profile_id: request.toProfileId,
+        p_hours: request.hours,
+        p_reason: request.reason,
+        p_notes: request.notes || null
+      });
 
-      if (logError) throw logError;
+      if (error) throw error;
 
       return {
         success: true,
@@ -439,6 +489,39 @@ export class HourManagementService {
     }
   }
 
+  /**
+   * Get transfer logs attributed to a family account, newest first
+   */
+  async getFamilyTransferLogs(familyAccountId: string, options?: { from?: string; to?: string }): Promise<HourApiResponse<HourTransferLog[]>> {
+    try {
+      let query = this.supabase
+        .from('hour_transfer_logs')
+        .select('*')
+        .eq('family_account_id', familyAccountId);
+
+      if (options?.from) query = query.gte('created_at', options.from);
+      if (options?.to) query = query.lt('created_at', options.to);
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map((log: any) => this.transformTransferLog(log))
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'FETCH_TRANSFER_LOGS_ERROR',
+          message: 'Failed to fetch transfer logs',
+          details: error
+        }
+      };
+    }
+  }
+
   /**
    * Create hour adjustment
    */
@@ -543,6 +626,46 @@ export class HourManagementService {
     }
   }
 
+  /**
+   * Get a student's purchase lots in the order deductions draw from them
+   */
+  async getHourLots(studentId: string, options?: { includeExpired?: boolean }): Promise<HourApiResponse<HourLot[]>> {
+    try {
+      let query = this.supabase
+        .from('hour_purchases')
+        .select(`
+          *,
+          hour_packages (name)
+        `)
+        .eq('student_id', studentId)
+        .eq('payment_status', 'completed');
+
+      if (!options?.includeExpired) {
+        query = query.eq('is_expired', false).gt('hours_remaining', 0);
+      }
+
+      const { data, error } = await query
+        .order('valid_until', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data?.map(p => this.transformLot(p)) || []
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'FETCH_LOTS_ERROR',
+          message: 'Failed to fetch hour lots',
+          details: error
+        }
+      };
+    }
+  }
+
   /**
    * Get recent purchases
    */
@@ -709,17 +832,56 @@ export class HourManagementService {
 
   // Private helper methods
 
-  private async processPayment(purchaseId: string, request: HourPurchaseRequest): Promise<{
-    success: boolean;
-    reference?: string;
-    error?: string;
+  private async processPayment(purchase: any, request: HourPurchaseRequest): Promise<{
+    paymentResult: PaymentProviderResult;
+    processingPurchase: any;
   }> {
-    // Simplified payment processing
-    // In production, integrate with actual payment gateway
-    return {
-      success: true,
-      reference: `PAY-${Date.now()}`
-    };
+    // Fully discounted purchases have nothing to charge, and providers reject
+    // zero amounts, so they complete without one
+    if (Number(purchase.price_paid) <= 0) {
+      return {
+        paymentResult: {
+          success: true,
+          status: 'completed',
+          reference: `free_${purchase.id}`,
+          amount: 0,
+          currency: purchase.currency
+        },
+        processingPurchase: purchase
+      };
+    }
+
+    const authorization = await this.paymentProvider.authorize({
+      purchaseId: purchase.id,
+      studentId: request.studentId,
+      amount: purchase.price_paid,
+      currency: purchase.currency,
+      paymentMethod: request.paymentMethod,
+      paymentDetails: request.paymentDetails,
+      description: request.notes
+    });
+
+    if (!authorization.success) {
+      return { paymentResult: authorization, processingPurchase: purchase };
+    }
+
+    // Funds are held: move the purchase from pending to processing
+    const { data: processingPurchase, error } = await this.supabase
+      .from('hour_purchases')
+      .update({
+        payment_status: 'processing',
+        payment_reference: authorization.reference,
+        payment_gateway_response: authorization.raw
+      })
+      .eq('id', purchase.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const paymentResult = await this.paymentProvider.capture(authorization.reference, purchase.price_paid);
+
+    return { paymentResult, processingPurchase };
   }
 
   private async getStudentTotalHours(studentId: string): Promise<number> {
@@ -731,19 +893,13 @@ export class HourManagementService {
     return data || 0;
   }
 
-  private async getOldestActivePurchase(studentId: string): Promise<string | null> {
-    const { data, error } = await this.supabase
-      .from('hour_purchases')
-      .select('id')
-      .eq('student_id', studentId)
-      .eq('is_active', true)
-      .eq('is_expired', false)
-      .gt('hours_remaining', 0)
-      .order('valid_until', { ascending: true })
-      .limit(1)
-      .single();
+  private async getAvailableStudentHours(studentId: string): Promise<number> {
+    const { data, error } = await this.supabase.rpc('calculate_available_student_hours', {
+      p_student_id: studentId
+    });
 
-    return data?.id || null;
+    if (error) throw error;
+    return data || 0;
   }
 
   private async createTransaction(params: {
@@ -888,6 +1044,9 @@ export class HourManagementService {
       hoursPurchased: p.hours_purchased,
       pricePaid: p.price_paid,
       currency: p.currency,
+      listPrice: p.list_price ?? undefined,
+      discountTotal: p.discount_total ?? undefined,
+      promoCodeId: p.promo_code_id ?? undefined,
       paymentStatus: p.payment_status,
       paymentMethod: p.payment_method,
       paymentReference: p.payment_reference,
@@ -897,6 +1056,7 @@ export class HourManagementService {
       validUntil: p.valid_until,
       hoursUsed: p.hours_used,
       hoursRemaining: p.hours_remaining,
+      hoursExpired: p.hours_expired,
       isTransferable: p.is_transferable,
       transferLimit: p.transfer_limit,
       transfersMade: p.transfers_made,
@@ -941,12 +1101,40 @@ export class HourManagementService {
       reversedAt: t.reversed_at,
       reversalReason: t.reversal_reason,
       originalTransactionId: t.original_transaction_id,
+      lotsConsumed: t.hour_transaction_lots?.map((l: any) => this.transformLotConsumption(l)),
       metadata: t.metadata,
       createdAt: t.created_at,
       createdBy: t.created_by
     };
   }
 
+  private transformLotConsumption(l: any): HourLotConsumption {
+    return {
+      id: l.id,
+      transactionId: l.transaction_id,
+      purchaseId: l.purchase_id,
+      hours: l.hours,
+      lotValidUntil: l.lot_valid_until,
+      createdAt: l.created_at
+    };
+  }
+
+  private transformLot(p: any): HourLot {
+    return {
+      purchaseId: p.id,
+      studentId: p.student_id,
+      packageName: p.hour_packages?.name,
+      hoursPurchased: p.hours_purchased,
+      hoursUsed: p.hours_used,
+      hoursRemaining: p.hours_remaining,
+      hoursExpired: p.hours_expired || 0,
+      validFrom: p.valid_from,
+      validUntil: p.valid_until,
+      isExpired: p.is_expired,
+      createdAt: p.created_at
+    };
+  }
+
   private transformAlerts(alerts: any[]): HourAlert[] {
     return alerts.map(a => ({
       id: a.id,
@@ -1010,6 +1198,8 @@ export class HourManagementService {
       approvalStatus: t.approval_status,
       fromTransactionId: t.from_transaction_id,
       toTransactionId: t.to_transaction_id,
+      corporateAccountId: t.corporate_account_id,
+      familyAccountId: t.family_account_id,
       notes: t.notes,
       metadata: t.metadata,
       createdAt: t.created_at,
@@ -0,0 +1,514 @@
+/**
+ * Hour Pricing Service
+ *
+ * Prices an hour purchase from its list price. Discounts stack in a fixed
+ * order: the best matching volume tier, then a promo code, then any referral
+ * credit the student holds. Discounts applied to a purchase are recorded in
+ * `hour_purchase_discounts`, which feeds the discount analytics.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import type {
+  AppliedDiscount,
+  HourApiResponse,
+  HourPriceQuote,
+  HourPriceQuoteRequest,
+  PromoCode,
+  PromoCodeRequest,
+  ReferralCredit,
+  VolumePricingTier
+} from '@/types/hours';
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * The active tier with the highest minimum that the hours reach
+ */
+export function selectVolumeTier(tiers: VolumePricingTier[], hours: number): VolumePricingTier | null {
+  return tiers
+    .filter(tier => tier.isActive && hours >= tier.minHours)
+    .sort((a, b) => b.minHours - a.minHours)[0] || null;
+}
+
+/**
+ * Check a promo code against its limits and date window.
+ * Returns null when the code can be used.
+ */
+export function validatePromoCode(
+  promo: PromoCode,
+  context: {
+    hours: number;
+    currency: string;
+    packageId?: string;
+    studentRedemptions: number;
+    now?: Date;
+  }
+): { code: string; message: string } | null {
+  const now = context.now || new Date();
+
+  if (!promo.isActive) {
+    return { code: 'PROMO_INACTIVE', message: 'This promo code is no longer active' };
+  }
+  if (promo.validFrom && new Date(promo.validFrom) > now) {
+    return { code: 'PROMO_NOT_STARTED', message: 'This promo code is not valid yet' };
+  }
+  if (promo.validUntil && new Date(promo.validUntil) <= now) {
+    return { code: 'PROMO_EXPIRED', message: 'This promo code has expired' };
+  }
+  if (promo.maxRedemptions && promo.redemptionsCount >= promo.maxRedemptions) {
+    return { code: 'PROMO_USAGE_LIMIT', message: 'This promo code has reached its usage limit' };
+  }
+  if (promo.maxRedemptionsPerStudent && context.studentRedemptions >= promo.maxRedemptionsPerStudent) {
+    return { code: 'PROMO_STUDENT_LIMIT', message: 'You have already used this promo code' };
+  }
+  if (promo.minHours && context.hours < promo.minHours) {
+    return { code: 'PROMO_MIN_HOURS', message: `This promo code requires at least ${promo.minHours} hours` };
+  }
+  if (promo.packageIds?.length && (!context.packageId || !promo.packageIds.includes(context.packageId))) {
+    return { code: 'PROMO_NOT_APPLICABLE', message: 'This promo code does not apply to the selected package' };
+  }
+  if (promo.discountType === 'fixed' && promo.currency !== context.currency) {
+    return { code: 'PROMO_CURRENCY_MISMATCH', message: `This promo code is only valid for ${promo.currency} purchases` };
+  }
+
+  return null;
+}
+
+/**
+ * Apply the volume tier, promo code and referral credits to a list price.
+ * The promo code must already have passed validatePromoCode.
+ */
+export function calculateHourPrice(input: {
+  hours: number;
+  listPrice: number;
+  currency: string;
+  tiers: VolumePricingTier[];
+  promo?: PromoCode | null;
+  referralCredits?: ReferralCredit[];
+  now?: Date;
+}): HourPriceQuote {
+  const now = input.now || new Date();
+  const discounts: AppliedDiscount[] = [];
+  let price = roundMoney(input.listPrice);
+
+  const tier = selectVolumeTier(input.tiers, input.hours);
+  if (tier && price > 0) {
+    const amount = roundMoney(price * tier.discountPercentage / 100);
+    if (amount > 0) {
+      discounts.push({
+        type: 'volume_tier',
+        sourceId: tier.id,
+        description: `${tier.discountPercentage}% volume discount for ${tier.minHours}+ hours`,
+        amount,
+        percentage: tier.discountPercentage
+      });
+      price = roundMoney(price - amount);
+    }
+  }
+
+  const promo = input.promo;
+  if (promo && price > 0) {
+    const amount = promo.discountType === 'percentage'
+      ? roundMoney(price * promo.discountValue / 100)
+      : Math.min(roundMoney(promo.discountValue), price);
+    if (amount > 0) {
+      discounts.push({
+        type: 'promo_code',
+        sourceId: promo.id,
+        code: promo.code,
+        description: promo.description || `Promo code ${promo.code}`,
+        amount,
+        percentage: promo.discountType === 'percentage' ? promo.discountValue : undefined
+      });
+      price = roundMoney(price - amount);
+    }
+  }
+
+  const credits = (input.referralCredits || [])
+    .filter(credit =>
+      credit.status === 'available' &&
+      credit.currency === input.currency &&
+      credit.remainingAmount > 0 &&
+      (!credit.expiresAt || new Date(credit.expiresAt) > now)
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const credit of credits) {
+    if (price <= 0) break;
+    const amount = Math.min(roundMoney(credit.remainingAmount), price);
+    discounts.push({
+      type: 'referral_credit',
+      sourceId: credit.id,
+      description: 'Referral credit',
+      amount
+    });
+    price = roundMoney(price - amount);
+  }
+
+  const totalDiscount = roundMoney(discounts.reduce((sum, discount) => sum + discount.amount, 0));
+
+  return {
+    hours: input.hours,
+    listPrice: roundMoney(input.listPrice),
+    discounts,
+    totalDiscount,
+    finalPrice: roundMoney(input.listPrice - totalDiscount),
+    currency: input.currency
+  };
+}
+
+function pricingError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+// Codes are stored upper-case so lookups ignore case
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export class HourPricingService {
+  private supabase;
+
+  constructor(client: any = defaultClient) {
+    this.supabase = client;
+  }
+
+  // ========================================
+  // Quotes
+  // ========================================
+
+  /**
+   * Price a purchase for a student. Invalid promo codes fail the quote so the
+   * student is not charged a price they did not expect.
+   */
+  async getQuote(request: HourPriceQuoteRequest): Promise<HourApiResponse<HourPriceQuote>> {
+    try {
+      const currency = request.currency || 'USD';
+
+      const { data: tiers, error: tierError } = await this.supabase
+        .from('volume_pricing_tiers')
+        .select('*')
+        .eq('is_active', true);
+
+      if (tierError) throw tierError;
+
+      let promo: PromoCode | null = null;
+      if (request.promoCode?.trim()) {
+        const { data: promoData, error: promoError } = await this.supabase
+          .from('promo_codes')
+          .select('*')
+          .eq('code', normalizeCode(request.promoCode))
+          .maybeSingle();
+
+        if (promoError) throw promoError;
+        if (!promoData) {
+          return pricingError('PROMO_NOT_FOUND', 'Promo code not found');
+        }
+
+        promo = this.transformPromoCode(promoData);
+
+        const { count, error: countError } = await this.supabase
+          .from('hour_purchase_discounts')
+          .select('id', { count: 'exact', head: true })
+          .eq('source_id', promo.id)
+          .eq('student_id', request.studentId);
+
+        if (countError) throw countError;
+
+        const invalid = validatePromoCode(promo, {
+          hours: request.hours,
+          currency,
+          packageId: request.packageId,
+          studentRedemptions: count || 0
+        });
+        if (invalid) {
+          return pricingError(invalid.code, invalid.message);
+        }
+      }
+
+      let referralCredits: ReferralCredit[] = [];
+      if (request.applyReferralCredits) {
+        const creditResult = await this.getReferralCredits(request.studentId);
+        if (!creditResult.success) return pricingError('FETCH_REFERRAL_CREDITS_ERROR', 'Failed to fetch referral credits', creditResult.error);
+        referralCredits = creditResult.data || [];
+      }
+
+      return {
+        success: true,
+        data: calculateHourPrice({
+          hours: request.hours,
+          listPrice: request.listPrice,
+          currency,
+          tiers: (tiers || []).map((t: any) => this.transformTier(t)),
+          promo,
+          referralCredits
+        })
+      };
+    } catch (error) {
+      return pricingError('QUOTE_ERROR', 'Failed to price purchase', error);
+    }
+  }
+
+  /**
+   * Record a quote's discounts against a purchase, claiming promo redemptions
+   * and referral credit
+   */
+  async applyDiscounts(purchaseId: string, studentId: string, quote: HourPriceQuote): Promise<HourApiResponse<number>> {
+    if (quote.discounts.length === 0) {
+      return { success: true, data: 0 };
+    }
+
+    try {
+      const { data, error } = await this.supabase.rpc('apply_hour_purchase_discounts', {
+        p_purchase_id: purchaseId,
+        p_student_id: studentId,
+        p_discounts: quote.discounts
+      });
+
+      if (error) throw error;
+
+      return { success: true, data: data || 0 };
+    } catch (error) {
+      return pricingError('APPLY_DISCOUNTS_ERROR', 'Failed to apply discounts', error);
+    }
+  }
+
+  // ========================================
+  // Promo codes
+  // ========================================
+
+  async listPromoCodes(): Promise<HourApiResponse<PromoCode[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('promo_codes')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((p: any) => this.transformPromoCode(p)) };
+    } catch (error) {
+      return pricingError('FETCH_PROMO_CODES_ERROR', 'Failed to fetch promo codes', error);
+    }
+  }
+
+  async createPromoCode(request: PromoCodeRequest): Promise<HourApiResponse<PromoCode>> {
+    if (request.discountType === 'percentage' && request.discountValue > 100) {
+      return pricingError('INVALID_PROMO_CODE', 'Percentage discounts cannot exceed 100%');
+    }
+
+    try {
+      const { data: user } = await this.supabase.auth.getUser();
+
+      const { data, error } = await this.supabase
+        .from('promo_codes')
+        .insert({
+          code: normalizeCode(request.code),
+          description: request.description,
+          discount_type: request.discountType,
+          discount_value: request.discountValue,
+          currency: request.currency || 'USD',
+          max_redemptions: request.maxRedemptions,
+          max_redemptions_per_student: request.maxRedemptionsPerStudent,
+          min_hours: request.minHours,
+          package_ids: request.packageIds?.length ? request.packageIds : null,
+          valid_from: request.validFrom,
+          valid_until: request.validUntil,
+          created_by: user?.user?.id
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformPromoCode(data) };
+    } catch (error) {
+      return pricingError('CREATE_PROMO_CODE_ERROR', 'Failed to create promo code', error);
+    }
+  }
+
+  async setPromoCodeActive(promoCodeId: string, isActive: boolean): Promise<HourApiResponse<PromoCode>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('promo_codes')
+        .update({ is_active: isActive })
+        .eq('id', promoCodeId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformPromoCode(data) };
+    } catch (error) {
+      return pricingError('UPDATE_PROMO_CODE_ERROR', 'Failed to update promo code', error);
+    }
+  }
+
+  // ========================================
+  // Volume tiers
+  // ========================================
+
+  async listVolumeTiers(): Promise<HourApiResponse<VolumePricingTier[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('volume_pricing_tiers')
+        .select('*')
+        .order('min_hours', { ascending: true });
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((t: any) => this.transformTier(t)) };
+    } catch (error) {
+      return pricingError('FETCH_VOLUME_TIERS_ERROR', 'Failed to fetch volume tiers', error);
+    }
+  }
+
+  async saveVolumeTier(minHours: number, discountPercentage: number): Promise<HourApiResponse<VolumePricingTier>> {
+    if (minHours <= 0 || discountPercentage <= 0 || discountPercentage > 100) {
+      return pricingError('INVALID_VOLUME_TIER', 'Tiers need positive hours and a discount between 0 and 100%');
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('volume_pricing_tiers')
+        .upsert({
+          min_hours: minHours,
+          discount_percentage: discountPercentage,
+          is_active: true
+        }, { onConflict: 'min_hours' })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformTier(data) };
+    } catch (error) {
+      return pricingError('SAVE_VOLUME_TIER_ERROR', 'Failed to save volume tier', error);
+    }
+  }
+
+  async deleteVolumeTier(tierId: string): Promise<HourApiResponse<void>> {
+    try {
+      const { error } = await this.supabase
+        .from('volume_pricing_tiers')
+        .delete()
+        .eq('id', tierId);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      return pricingError('DELETE_VOLUME_TIER_ERROR', 'Failed to delete volume tier', error);
+    }
+  }
+
+  // ========================================
+  // Referral credits
+  // ========================================
+
+  async getReferralCredits(studentId: string): Promise<HourApiResponse<ReferralCredit[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('referral_credits')
+        .select('*')
+        .eq('student_id', studentId)
+        .eq('status', 'available')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((c: any) => this.transformReferralCredit(c)) };
+    } catch (error) {
+      return pricingError('FETCH_REFERRAL_CREDITS_ERROR', 'Failed to fetch referral credits', error);
+    }
+  }
+
+  async grantReferralCredit(input: {
+    studentId: string;
+    referredStudentId?: string;
+    amount: number;
+    currency?: string;
+    expiresAt?: string;
+  }): Promise<HourApiResponse<ReferralCredit>> {
+    if (input.amount <= 0) {
+      return pricingError('INVALID_REFERRAL_CREDIT', 'Referral credit must be a positive amount');
+    }
+    if (input.referredStudentId === input.studentId) {
+      return pricingError('INVALID_REFERRAL_CREDIT', 'Students cannot refer themselves');
+    }
+
+    try {
+      const { data: user } = await this.supabase.auth.getUser();
+
+      const { data, error } = await this.supabase
+        .from('referral_credits')
+        .insert({
+          student_id: input.studentId,
+          referred_student_id: input.referredStudentId,
+          amount: input.amount,
+          remaining_amount: input.amount,
+          currency: input.currency || 'USD',
+          expires_at: input.expiresAt,
+          created_by: user?.user?.id
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformReferralCredit(data) };
+    } catch (error) {
+      return pricingError('GRANT_REFERRAL_CREDIT_ERROR', 'Failed to grant referral credit', error);
+    }
+  }
+
+  // Private helper methods
+
+  private transformPromoCode(p: any): PromoCode {
+    return {
+      id: p.id,
+      code: p.code,
+      description: p.description,
+      discountType: p.discount_type,
+      discountValue: Number(p.discount_value),
+      currency: p.currency,
+      maxRedemptions: p.max_redemptions ?? undefined,
+      maxRedemptionsPerStudent: p.max_redemptions_per_student ?? undefined,
+      redemptionsCount: p.redemptions_count || 0,
+      minHours: p.min_hours ?? undefined,
+      packageIds: p.package_ids ?? undefined,
+      validFrom: p.valid_from ?? undefined,
+      validUntil: p.valid_until ?? undefined,
+      isActive: p.is_active,
+      createdAt: p.created_at
+    };
+  }
+
+  private transformTier(t: any): VolumePricingTier {
+    return {
+      id: t.id,
+      minHours: t.min_hours,
+      discountPercentage: Number(t.discount_percentage),
+      isActive: t.is_active
+    };
+  }
+
+  private transformReferralCredit(c: any): ReferralCredit {
+    return {
+      id: c.id,
+      studentId: c.student_id,
+      referredStudentId: c.referred_student_id ?? undefined,
+      amount: Number(c.amount),
+      remainingAmount: Number(c.remaining_amount),
+      currency: c.currency,
+      status: c.status,
+      expiresAt: c.expires_at ?? undefined,
+      createdAt: c.created_at
+    };
+  }
+}
+
+// Export singleton instance
+export const hourPricingService = new HourPricingService();
@@ -0,0 +1,29 @@
+import { logger } from '@/lib/services';
+/**
+ * Hour Reconciliation Cron Job
+ *
+ * Runs nightly to compare the hour ledger with purchase lots and cached
+ * balances. Due purchases are expired first so hours past `valid_until`
+ * are not reported as drift.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { HourLedgerService } from './hour-ledger-service';
+
+// Function to be called by cron job
+export async function runHourReconciliationJob(client: any = defaultClient) {
+  logger.info(`Starting hour reconciliation job at ${new Date().toISOString()}`);
+
+  const { error: expireError } = await client.rpc('expire_hour_purchases');
+  if (expireError) {
+    logger.error('Failed to expire purchases before reconciliation:', expireError);
+  }
+
+  const result = await new HourLedgerService(client).runReconciliation();
+
+  if (result.success && result.data) {
+    logger.info(`Hour reconciliation found ${result.data.discrepanciesFound} discrepancies across ${result.data.studentsChecked} students`);
+  }
+
+  return result;
+}
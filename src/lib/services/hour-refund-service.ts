@@ -0,0 +1,621 @@
+/**
+ * Hour Refund Service
+ *
+ * Students request refunds of the unused hours in a purchase lot; admins
+ * review them in a queue. The refundable amount follows the active refund
+ * policy: unused paid hours are pro-rated at the price paid per hour, unused
+ * bonus hours are kept unless the policy refunds them, an admin fee is
+ * deducted and requests are only accepted within the cutoff window.
+ *
+ * Approval reverses the hours from the lot, issues a credit note for the net
+ * refund and then refunds the payment through the provider. A failed provider refund leaves the request
+ * in `payment_failed` so it can be retried without reversing the hours again.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import type {
+  HourApiResponse,
+  HourRefundPolicy,
+  HourRefundQuote,
+  HourRefundRequest,
+  HourRefundSubmission,
+  PaymentStatus
+} from '@/types/hours';
+import { getPaymentProvider } from './payment-gateway-service';
+import type { PaymentProvider } from './payment-gateway-service';
+import { roundMoney } from './hour-pricing-service';
+import { BillingDocumentService } from './billing-document-service';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * The parts of a purchase lot that decide its refund
+ */
+export interface RefundableLot {
+  purchaseId: string;
+  packageName?: string;
+  hoursPurchased: number;
+  hoursRemaining: number;
+  bonusHours: number;
+  pricePaid: number;
+  currency: string;
+  paymentStatus: PaymentStatus;
+  paidAt?: string;
+  validUntil: string;
+  isExpired: boolean;
+}
+
+/**
+ * Quote the refund for a lot under a policy. Bonus hours are treated as the
+ * last hours used, so they make up the lot's remainder first.
+ */
+export function calculateRefundQuote(
+  lot: RefundableLot,
+  policy: HourRefundPolicy,
+  options: { hours?: number; now?: Date } = {}
+): HourRefundQuote {
+  const now = options.now || new Date();
+  const bonusHours = lot.pricePaid > 0 ? Math.min(lot.bonusHours, lot.hoursPurchased) : lot.hoursPurchased;
+  const bonusHoursExcluded = policy.refundBonusHours ? 0 : Math.min(bonusHours, lot.hoursRemaining);
+  const refundableHours = lot.hoursRemaining - bonusHoursExcluded;
+  const paidHours = policy.refundBonusHours ? lot.hoursPurchased : lot.hoursPurchased - bonusHours;
+  const pricePerHour = paidHours > 0 ? lot.pricePaid / paidHours : 0;
+
+  const refundDeadline = lot.paidAt && policy.cutoffDays
+    ? new Date(new Date(lot.paidAt).getTime() + policy.cutoffDays * MS_PER_DAY).toISOString()
+    : undefined;
+
+  const hours = Math.min(options.hours ?? refundableHours, refundableHours);
+  const grossAmount = roundMoney(hours * pricePerHour);
+  const adminFee = Math.min(
+    roundMoney(policy.adminFeeFixed + grossAmount * policy.adminFeePercentage / 100),
+    grossAmount
+  );
+
+  const quote: HourRefundQuote = {
+    purchaseId: lot.purchaseId,
+    packageName: lot.packageName,
+    eligible: false,
+    hoursRemaining: lot.hoursRemaining,
+    bonusHoursExcluded,
+    refundableHours,
+    hours: Math.max(hours, 0),
+    pricePerHour: roundMoney(pricePerHour),
+    grossAmount,
+    adminFee,
+    refundAmount: roundMoney(grossAmount - adminFee),
+    currency: lot.currency,
+    refundDeadline
+  };
+
+  if (lot.paymentStatus !== 'completed') {
+    quote.ineligibleReason = 'Only paid purchases can be refunded';
+  } else if (lot.isExpired || new Date(lot.validUntil) <= now) {
+    quote.ineligibleReason = 'Expired hours cannot be refunded';
+  } else if (refundDeadline && new Date(refundDeadline) < now) {
+    quote.ineligibleReason = `Refunds must be requested within ${policy.cutoffDays} days of purchase`;
+  } else if (refundableHours <= 0) {
+    quote.ineligibleReason = 'No refundable hours remain on this purchase';
+  } else if (options.hours !== undefined && (options.hours <= 0 || options.hours > refundableHours)) {
+    quote.ineligibleReason = `Between 1 and ${refundableHours} hours can be refunded`;
+  } else if (quote.refundAmount <= 0) {
+    quote.ineligibleReason = 'Nothing is left to refund after the admin fee';
+  } else {
+    quote.eligible = true;
+  }
+
+  return quote;
+}
+
+function refundError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class HourRefundService {
+  private supabase;
+  private paymentProvider: PaymentProvider;
+  private billingDocuments: BillingDocumentService;
+
+  constructor(
+    client: any = defaultClient,
+    paymentProvider: PaymentProvider = getPaymentProvider(),
+    billingDocuments: BillingDocumentService = new BillingDocumentService(client)
+  ) {
+    this.supabase = client;
+    this.paymentProvider = paymentProvider;
+    this.billingDocuments = billingDocuments;
+  }
+
+  // ========================================
+  // Policy
+  // ========================================
+
+  async getActivePolicy(): Promise<HourApiResponse<HourRefundPolicy>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('hour_refund_policies')
+        .select('*')
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        return refundError('NO_REFUND_POLICY', 'Refunds are not available at the moment');
+      }
+
+      return { success: true, data: this.transformPolicy(data) };
+    } catch (error) {
+      return refundError('FETCH_POLICY_ERROR', 'Failed to fetch refund policy', error);
+    }
+  }
+
+  /**
+   * Update the active policy (admin)
+   */
+  async updatePolicy(policyId: string, changes: Partial<Omit<HourRefundPolicy, 'id' | 'isActive' | 'updatedAt'>>): Promise<HourApiResponse<HourRefundPolicy>> {
+    if (changes.adminFeePercentage !== undefined && (changes.adminFeePercentage < 0 || changes.adminFeePercentage > 100)) {
+      return refundError('INVALID_POLICY', 'The admin fee percentage must be between 0 and 100');
+    }
+    if (changes.adminFeeFixed !== undefined && changes.adminFeeFixed < 0) {
+      return refundError('INVALID_POLICY', 'The fixed admin fee cannot be negative');
+    }
+    if (changes.cutoffDays !== undefined && changes.cutoffDays <= 0) {
+      return refundError('INVALID_POLICY', 'The cutoff must be at least one day');
+    }
+
+    try {
+      const { data: user } = await this.supabase.auth.getUser();
+
+      const update: Record<string, any> = { updated_by: user?.user?.id };
+      if (changes.name !== undefined) update.name = changes.name;
+      // A missing cutoff clears it
+      if ('cutoffDays' in changes) update.cutoff_days = changes.cutoffDays || null;
+      if (changes.adminFeeFixed !== undefined) update.admin_fee_fixed = changes.adminFeeFixed;
+      if (changes.adminFeePercentage !== undefined) update.admin_fee_percentage = changes.adminFeePercentage;
+      if (changes.refundBonusHours !== undefined) update.refund_bonus_hours = changes.refundBonusHours;
+
+      const { data, error } = await this.supabase
+        .from('hour_refund_policies')
+        .update(update)
+        .eq('id', policyId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformPolicy(data) };
+    } catch (error) {
+      return refundError('UPDATE_POLICY_ERROR', 'Failed to update refund policy', error);
+    }
+  }
+
+  // ========================================
+  // Quotes and student requests
+  // ========================================
+
+  /**
+   * Quote every active lot the student holds, refundable or not
+   */
+  async getRefundQuotes(studentId: string): Promise<HourApiResponse<HourRefundQuote[]>> {
+    try {
+      const policy = await this.getActivePolicy();
+      if (!policy.success || !policy.data) {
+        return { success: false, error: policy.error };
+      }
+
+      const { data, error } = await this.supabase
+        .from('hour_purchases')
+        .select(`
+          *,
+          hour_packages (name)
+        `)
+        .eq('student_id', studentId)
+        .eq('payment_status', 'completed')
+        .eq('is_expired', false)
+        .gt('hours_remaining', 0)
+        .order('valid_until', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map((lot: any) => calculateRefundQuote(this.transformLot(lot), policy.data!))
+      };
+    } catch (error) {
+      return refundError('FETCH_QUOTES_ERROR', 'Failed to calculate refund quotes', error);
+    }
+  }
+
+  async getRefundQuote(purchaseId: string, hours?: number): Promise<HourApiResponse<HourRefundQuote>> {
+    try {
+      const policy = await this.getActivePolicy();
+      if (!policy.success || !policy.data) {
+        return { success: false, error: policy.error };
+      }
+
+      const lot = await this.fetchLot(purchaseId);
+
+      return {
+        success: true,
+        data: calculateRefundQuote(this.transformLot(lot), policy.data, { hours })
+      };
+    } catch (error) {
+      return refundError('FETCH_QUOTE_ERROR', 'Failed to calculate refund quote', error);
+    }
+  }
+
+  async requestRefund(submission: HourRefundSubmission): Promise<HourApiResponse<HourRefundRequest>> {
+    if (!submission.reason?.trim()) {
+      return refundError('REASON_REQUIRED', 'Please tell us why you are requesting a refund');
+    }
+
+    try {
+      const policy = await this.getActivePolicy();
+      if (!policy.success || !policy.data) {
+        return { success: false, error: policy.error };
+      }
+
+      const lot = await this.fetchLot(submission.purchaseId);
+      if (lot.student_id !== submission.studentId) {
+        return refundError('PURCHASE_NOT_FOUND', 'Purchase not found');
+      }
+
+      const quote = calculateRefundQuote(this.transformLot(lot), policy.data, { hours: submission.hours });
+      if (!quote.eligible) {
+        return refundError('REFUND_NOT_ELIGIBLE', quote.ineligibleReason!, quote);
+      }
+
+      const { data, error } = await this.supabase
+        .from('hour_refund_requests')
+        .insert({
+          student_id: submission.studentId,
+          purchase_id: submission.purchaseId,
+          policy_id: policy.data.id,
+          hours: quote.hours,
+          price_per_hour: quote.pricePerHour,
+          gross_amount: quote.grossAmount,
+          admin_fee: quote.adminFee,
+          refund_amount: quote.refundAmount,
+          currency: quote.currency,
+          reason: submission.reason.trim()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return refundError('REFUND_ALREADY_REQUESTED', 'A refund is already in progress for this purchase');
+        }
+        throw error;
+      }
+
+      return { success: true, data: this.transformRequest(data) };
+    } catch (error) {
+      return refundError('REQUEST_REFUND_ERROR', 'Failed to submit refund request', error);
+    }
+  }
+
+  async getStudentRefundRequests(studentId: string): Promise<HourApiResponse<HourRefundRequest[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('hour_refund_requests')
+        .select(`
+          *,
+          hour_purchases (hour_packages (name))
+        `)
+        .eq('student_id', studentId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((r: any) => this.transformRequest(r)) };
+    } catch (error) {
+      return refundError('FETCH_REFUNDS_ERROR', 'Failed to fetch refund requests', error);
+    }
+  }
+
+  async cancelRefundRequest(requestId: string, studentId: string): Promise<HourApiResponse<HourRefundRequest>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('hour_refund_requests')
+        .update({ status: 'cancelled' })
+        .eq('id', requestId)
+        .eq('student_id', studentId)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        return refundError('REFUND_NOT_PENDING', 'Only pending refund requests can be cancelled');
+      }
+
+      return { success: true, data: this.transformRequest(data) };
+    } catch (error) {
+      return refundError('CANCEL_REFUND_ERROR', 'Failed to cancel refund request', error);
+    }
+  }
+
+  // ========================================
+  // Admin review
+  // ========================================
+
+  /**
+   * Refund requests awaiting review, and approved ones whose payment refund failed
+   */
+  async getPendingRefundRequests(options?: { limit?: number }): Promise<HourApiResponse<HourRefundRequest[]>> {
+    try {
+      let query = this.supabase
+        .from('hour_refund_requests')
+        .select(`
+          *,
+          profiles!hour_refund_requests_student_id_fkey (full_name),
+          hour_purchases (hour_packages (name))
+        `)
+        .in('status', ['pending', 'payment_failed'])
+        .order('created_at', { ascending: true });
+
+      if (options?.limit) {
+        query = query.limit(options.limit);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((r: any) => this.transformRequest(r)) };
+    } catch (error) {
+      return refundError('FETCH_PENDING_REFUNDS_ERROR', 'Failed to fetch pending refund requests', error);
+    }
+  }
+
+  /**
+   * Approve a refund. The amount is re-quoted against the lot as it is now,
+   * so hours used since the request was made are not refunded.
+   */
+  async approveRefundRequest(requestId: string, params: { reviewNotes?: string } = {}): Promise<HourApiResponse<HourRefundRequest>> {
+    try {
+      const { data: user } = await this.supabase.auth.getUser();
+      if (!user?.user) {
+        return refundError('AUTH_ERROR', 'User not authenticated');
+      }
+
+      const request = await this.fetchRequest(requestId);
+      if (request.status !== 'pending') {
+        return refundError('REFUND_NOT_PENDING', `This refund request is already ${request.status}`);
+      }
+
+      const policy = await this.getActivePolicy();
+      if (!policy.success || !policy.data) {
+        return { success: false, error: policy.error };
+      }
+
+      const lot = await this.fetchLot(request.purchase_id);
+      const refundableLot = this.transformLot(lot);
+      const { refundableHours } = calculateRefundQuote(refundableLot, policy.data);
+      const quote = calculateRefundQuote(refundableLot, policy.data, {
+        hours: Math.min(request.hours, refundableHours)
+      });
+      if (!quote.eligible) {
+        return refundError('REFUND_NOT_ELIGIBLE', quote.ineligibleReason!, quote);
+      }
+
+      const { error: updateError } = await this.supabase
+        .from('hour_refund_requests')
+        .update({
+          policy_id: policy.data.id,
+          price_per_hour: quote.pricePerHour,
+          gross_amount: quote.grossAmount,
+          admin_fee: quote.adminFee,
+          refund_amount: quote.refundAmount,
+          review_notes: params.reviewNotes
+        })
+        .eq('id', requestId);
+
+      if (updateError) throw updateError;
+
+      const { data: transactionId, error: reverseError } = await this.supabase.rpc('reverse_refunded_hours', {
+        p_refund_request_id: requestId,
+        p_hours: quote.hours
+      });
+
+      if (reverseError) throw reverseError;
+
+      // The refund transaction carries the net amount the credit note is issued for
+      const creditNote = await this.billingDocuments.createCreditNoteForRefund(transactionId);
+      if (!creditNote.success) {
+        logger.error(`Failed to issue credit note for refund request ${requestId}:`, creditNote.error);
+      }
+
+      return this.refundPayment(requestId, lot, quote.refundAmount, request.reason);
+    } catch (error) {
+      return refundError('APPROVE_REFUND_ERROR', 'Failed to approve refund request', error);
+    }
+  }
+
+  /**
+   * Retry the provider refund for an approved request whose hours were already reversed
+   */
+  async retryRefundPayment(requestId: string): Promise<HourApiResponse<HourRefundRequest>> {
+    try {
+      const request = await this.fetchRequest(requestId);
+      if (request.status !== 'payment_failed') {
+        return refundError('REFUND_NOT_FAILED', 'Only failed payment refunds can be retried');
+      }
+
+      const lot = await this.fetchLot(request.purchase_id);
+      return this.refundPayment(requestId, lot, Number(request.refund_amount), request.reason);
+    } catch (error) {
+      return refundError('RETRY_REFUND_ERROR', 'Failed to retry payment refund', error);
+    }
+  }
+
+  async rejectRefundRequest(requestId: string, params: { reviewNotes: string }): Promise<HourApiResponse<HourRefundRequest>> {
+    if (!params.reviewNotes?.trim()) {
+      return refundError('NOTES_REQUIRED', 'Please explain why the refund is rejected');
+    }
+
+    try {
+      const { data: user } = await this.supabase.auth.getUser();
+      if (!user?.user) {
+        return refundError('AUTH_ERROR', 'User not authenticated');
+      }
+
+      const { data, error } = await this.supabase
+        .from('hour_refund_requests')
+        .update({
+          status: 'rejected',
+          reviewed_by: user.user.id,
+          reviewed_at: new Date().toISOString(),
+          review_notes: params.reviewNotes.trim()
+        })
+        .eq('id', requestId)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        return refundError('REFUND_NOT_PENDING', 'Only pending refund requests can be rejected');
+      }
+
+      return { success: true, data: this.transformRequest(data) };
+    } catch (error) {
+      return refundError('REJECT_REFUND_ERROR', 'Failed to reject refund request', error);
+    }
+  }
+
+  // ========================================
+  // Helpers
+  // ========================================
+
+  private async refundPayment(
+    requestId: string,
+    lot: any,
+    amount: number,
+    reason: string
+  ): Promise<HourApiResponse<HourRefundRequest>> {
+    const result = await this.paymentProvider.refund(lot.payment_reference, amount, reason);
+
+    const { data, error } = await this.supabase
+      .from('hour_refund_requests')
+      .update(result.success
+        ? {
+            status: 'completed',
+            provider_refund_reference: result.reference,
+            failure_message: null
+          }
+        : {
+            status: 'payment_failed',
+            failure_message: result.failureMessage || 'The payment provider rejected the refund'
+          })
+      .eq('id', requestId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (!result.success) {
+      return refundError(
+        'PAYMENT_REFUND_FAILED',
+        `Hours were reversed but the payment refund failed: ${result.failureMessage || 'unknown error'}`,
+        this.transformRequest(data)
+      );
+    }
+
+    // A fully refunded payment closes the purchase
+    if (result.status === 'refunded') {
+      await this.supabase
+        .from('hour_purchases')
+        .update({ payment_status: 'refunded' })
+        .eq('id', lot.id);
+    }
+
+    return { success: true, data: this.transformRequest(data) };
+  }
+
+  private async fetchLot(purchaseId: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('hour_purchases')
+      .select(`
+        *,
+        hour_packages (name)
+      `)
+      .eq('id', purchaseId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  private async fetchRequest(requestId: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('hour_refund_requests')
+      .select('*')
+      .eq('id', requestId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  private transformLot(p: any): RefundableLot {
+    return {
+      purchaseId: p.id,
+      packageName: p.hour_packages?.name,
+      hoursPurchased: p.hours_purchased,
+      hoursRemaining: p.hours_remaining,
+      bonusHours: p.bonus_hours || 0,
+      pricePaid: Number(p.price_paid),
+      currency: p.currency,
+      paymentStatus: p.payment_status,
+      paidAt: p.paid_at,
+      validUntil: p.valid_until,
+      isExpired: p.is_expired
+    };
+  }
+
+  private transformPolicy(p: any): HourRefundPolicy {
+    return {
+      id: p.id,
+      name: p.name,
+      cutoffDays: p.cutoff_days ?? undefined,
+      adminFeeFixed: Number(p.admin_fee_fixed),
+      adminFeePercentage: Number(p.admin_fee_percentage),
+      refundBonusHours: p.refund_bonus_hours,
+      isActive: p.is_active,
+      updatedAt: p.updated_at
+    };
+  }
+
+  private transformRequest(r: any): HourRefundRequest {
+    return {
+      id: r.id,
+      studentId: r.student_id,
+      studentName: r.profiles?.full_name,
+      purchaseId: r.purchase_id,
+      packageName: r.hour_purchases?.hour_packages?.name,
+      hours: r.hours,
+      pricePerHour: Number(r.price_per_hour),
+      grossAmount: Number(r.gross_amount),
+      adminFee: Number(r.admin_fee),
+      refundAmount: Number(r.refund_amount),
+      currency: r.currency,
+      reason: r.reason,
+      status: r.status,
+      policyId: r.policy_id,
+      reviewedBy: r.reviewed_by,
+      reviewedAt: r.reviewed_at,
+      reviewNotes: r.review_notes,
+      transactionId: r.transaction_id,
+      providerRefundReference: r.provider_refund_reference,
+      failureMessage: r.failure_message,
+      createdAt: r.created_at,
+      updatedAt: r.updated_at
+    };
+  }
+}
+
+// Export singleton instance
+export const hourRefundService = new HourRefundService();
@@ -0,0 +1,79 @@
+import { logger } from '@/lib/services';
+/**
+ * Hour Subscription Cron Job
+ *
+ * Runs hourly to renew subscriptions, retry failed payments and buy auto
+ * top-ups for students whose balance has dropped below their threshold.
+ * Students are emailed about every charge made or missed.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import type { HourBillingEvent, HourBillingRunResult } from '@/types/hours';
+import { HourSubscriptionService } from './hour-subscription-service';
+import { queueHourBillingNotice } from './email-queue-service';
+
+export async function runHourSubscriptionJob(client: any = defaultClient) {
+  logger.info(`Starting hour subscription job at ${new Date().toISOString()}`);
+
+  const service = new HourSubscriptionService(client);
+  const results: Record<string, HourBillingRunResult | null> = {
+    renewals: null,
+    dunning: null,
+    autoTopUps: null
+  };
+  const errors: string[] = [];
+
+  const steps = [
+    ['renewals', () => service.processRenewals()],
+    ['dunning', () => service.processDunning()],
+    ['autoTopUps', () => service.processAutoTopUps()]
+  ] as const;
+
+  for (const [name, run] of steps) {
+    const result = await run();
+    if (result.success && result.data) {
+      results[name] = result.data;
+      await notifyStudents(client, result.data.events);
+      logger.info(`Hour subscription ${name}: ${result.data.succeeded} succeeded, ${result.data.failed} failed`);
+    } else {
+      errors.push(result.error?.message || `Failed to process ${name}`);
+    }
+  }
+
+  return { success: errors.length === 0, ...results, errors };
+}
+
+async function notifyStudents(client: any, events: HourBillingEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  const studentIds = Array.from(new Set(events.map(event => event.studentId)));
+  const { data: profiles, error } = await client
+    .from('profiles')
+    .select('id, full_name, email')
+    .in('id', studentIds);
+
+  if (error) {
+    logger.error('Failed to load students for billing notifications:', error);
+    return;
+  }
+
+  const profileById = new Map<string, any>((profiles || []).map((p: any) => [p.id, p]));
+
+  for (const event of events) {
+    const profile = profileById.get(event.studentId);
+    if (!profile?.email) continue;
+
+    // Notifications must never stop the remaining charges from being reported
+    try {
+      await queueHourBillingNotice(profile.email, profile.full_name, {
+        type: event.type,
+        amount: new Intl.NumberFormat('en-US', { style: 'currency', currency: event.currency }).format(event.amount),
+        hours: event.hours,
+        failureMessage: event.failureMessage,
+        nextRetryDate: event.nextRetryAt
+      });
+    } catch (notifyError) {
+      logger.error(`Failed to send ${event.type} notification to student ${event.studentId}:`, notifyError);
+    }
+  }
+}
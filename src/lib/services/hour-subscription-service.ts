@@ -0,0 +1,1234 @@
+/**
+ * Hour Subscription Service
+ *
+ * Recurring hour plans and opt-in auto top-up. Every successful charge buys
+ * a lot in `hour_purchases`, so subscription hours are drawn and expired like
+ * any other purchase. Renewals, dunning retries and auto top-ups are run by
+ * the hour subscription cron job.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import type {
+  AutoTopUpSettings,
+  HourApiResponse,
+  HourBillingCharge,
+  HourBillingChargeType,
+  HourBillingEvent,
+  HourBillingRunResult,
+  HourSubscription,
+  HourSubscriptionRequest,
+  PaymentMethod,
+  PaymentStatus,
+  SubscriptionBillingInterval,
+  SubscriptionPlan,
+  SubscriptionProration
+} from '@/types/hours';
+import { getPaymentProvider, type PaymentProvider } from './payment-gateway-service';
+import { roundMoney } from './hour-pricing-service';
+
+/**
+ * Days after each failed attempt before the charge is retried. The
+ * subscription is cancelled once every retry has failed.
+ */
+export const DUNNING_RETRY_DAYS = [1, 3, 7];
+
+// Methods that can be charged without the student present
+const RECURRING_PAYMENT_METHODS: PaymentMethod[] = ['credit_card', 'debit_card', 'paypal', 'stripe'];
+
+/**
+ * Advance a date by one billing interval, clamping to the end of shorter months
+ */
+export function addBillingInterval(date: Date, interval: SubscriptionBillingInterval): Date {
+  const months = interval === 'quarterly' ? 3 : 1;
+  const result = new Date(date);
+  const day = result.getUTCDate();
+
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+
+  return result;
+}
+
+/**
+ * Price a plan change part-way through a period. Upgrades are charged the
+ * difference for the time left and granted the extra hours straight away;
+ * downgrades wait for the next renewal.
+ */
+export function calculateProration(input: {
+  currentPlan: SubscriptionPlan;
+  newPlan: SubscriptionPlan;
+  periodStart: Date;
+  periodEnd: Date;
+  now?: Date;
+}): SubscriptionProration {
+  const now = input.now || new Date();
+  const total = input.periodEnd.getTime() - input.periodStart.getTime();
+  const left = Math.min(Math.max(input.periodEnd.getTime() - now.getTime(), 0), total);
+  const remainingFraction = total > 0 ? left / total : 0;
+
+  const credit = roundMoney(input.currentPlan.price * remainingFraction);
+  const charge = roundMoney(input.newPlan.price * remainingFraction);
+
+  if (input.newPlan.price <= input.currentPlan.price) {
+    return { effective: 'next_period', remainingFraction, credit, charge, amountDue: 0, hoursAdjustment: 0 };
+  }
+
+  return {
+    effective: 'immediate',
+    remainingFraction,
+    credit,
+    charge,
+    amountDue: Math.max(roundMoney(charge - credit), 0),
+    hoursAdjustment: Math.max(
+      Math.floor((input.newPlan.hoursPerPeriod - input.currentPlan.hoursPerPeriod) * remainingFraction),
+      0
+    )
+  };
+}
+
+/**
+ * When to retry after the given number of consecutive failures, or null
+ * when the retries are exhausted
+ */
+export function getNextDunningRetry(failedAttempts: number, from: Date = new Date()): Date | null {
+  const days = DUNNING_RETRY_DAYS[failedAttempts - 1];
+  if (days === undefined) return null;
+
+  const retryAt = new Date(from);
+  retryAt.setUTCDate(retryAt.getUTCDate() + days);
+  return retryAt;
+}
+
+/**
+ * Whether an auto top-up should be bought for the current balance
+ */
+export function shouldTriggerAutoTopUp(
+  settings: AutoTopUpSettings,
+  balance: number,
+  topUpsThisMonth: number
+): boolean {
+  return settings.isEnabled &&
+    balance < settings.thresholdHours &&
+    topUpsThisMonth < settings.maxTopUpsPerMonth;
+}
+
+function subscriptionError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+interface ChargeRequest {
+  studentId: string;
+  subscriptionId?: string;
+  chargeType: HourBillingChargeType;
+  packageId: string;
+  validityDays: number;
+  hours: number;
+  amount: number;
+  currency: string;
+  paymentMethod: PaymentMethod;
+  paymentDetails?: Record<string, any>;
+  description: string;
+  attempt?: number;
+  periodStart?: string;
+  periodEnd?: string;
+  now: Date;
+}
+
+export class HourSubscriptionService {
+  private supabase;
+  private paymentProvider: PaymentProvider;
+
+  constructor(client: any = defaultClient, paymentProvider: PaymentProvider = getPaymentProvider()) {
+    this.supabase = client;
+    this.paymentProvider = paymentProvider;
+  }
+
+  // ========================================
+  // Plans and subscriptions
+  // ========================================
+
+  async listPlans(): Promise<HourApiResponse<SubscriptionPlan[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('subscription_plans')
+        .select('*')
+        .eq('is_active', true)
+        .order('price', { ascending: true });
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((p: any) => this.transformPlan(p)) };
+    } catch (error) {
+      return subscriptionError('FETCH_PLANS_ERROR', 'Failed to fetch subscription plans', error);
+    }
+  }
+
+  /**
+   * The student's live (active or past due) subscription, if any
+   */
+  async getSubscription(studentId: string): Promise<HourApiResponse<HourSubscription | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('hour_subscriptions')
+        .select('*, subscription_plans!hour_subscriptions_plan_id_fkey (*)')
+        .eq('student_id', studentId)
+        .neq('status', 'cancelled')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return { success: true, data: data ? this.transformSubscription(data) : null };
+    } catch (error) {
+      return subscriptionError('FETCH_SUBSCRIPTION_ERROR', 'Failed to fetch subscription', error);
+    }
+  }
+
+  async getBillingHistory(studentId: string, limit = 12): Promise<HourApiResponse<HourBillingCharge[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('hour_billing_charges')
+        .select('*')
+        .eq('student_id', studentId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((c: any) => this.transformCharge(c)) };
+    } catch (error) {
+      return subscriptionError('FETCH_BILLING_HISTORY_ERROR', 'Failed to fetch billing history', error);
+    }
+  }
+
+  /**
+   * Start a subscription and charge the first period. Nothing is kept if the
+   * first charge fails.
+   */
+  async subscribe(request: HourSubscriptionRequest, now: Date = new Date()): Promise<HourApiResponse<HourSubscription>> {
+    if (!RECURRING_PAYMENT_METHODS.includes(request.paymentMethod)) {
+      return subscriptionError('INVALID_PAYMENT_METHOD', 'This payment method cannot be used for recurring billing');
+    }
+
+    try {
+      const existing = await this.getSubscription(request.studentId);
+      if (!existing.success) return subscriptionError('SUBSCRIBE_ERROR', 'Failed to start subscription', existing.error);
+      if (existing.data) {
+        return subscriptionError('SUBSCRIPTION_EXISTS', 'You already have an active subscription');
+      }
+
+      const plan = await this.getPlanWithPackage(request.planId);
+      if (!plan || !plan.is_active) {
+        return subscriptionError('PLAN_NOT_FOUND', 'Subscription plan not found');
+      }
+
+      const periodStart = now.toISOString();
+      const periodEnd = addBillingInterval(now, plan.billing_interval).toISOString();
+
+      const { data: subscription, error } = await this.supabase
+        .from('hour_subscriptions')
+        .insert({
+          student_id: request.studentId,
+          plan_id: plan.id,
+          status: 'active',
+          current_period_start: periodStart,
+          current_period_end: periodEnd,
+          payment_method: request.paymentMethod,
+          payment_details: request.paymentDetails || {}
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const charge = await this.charge({
+        studentId: request.studentId,
+        subscriptionId: subscription.id,
+        chargeType: 'subscription_initial',
+        packageId: plan.package_id,
+        validityDays: plan.hour_packages.validity_days,
+        hours: plan.hours_per_period,
+        amount: Number(plan.price),
+        currency: plan.currency,
+        paymentMethod: request.paymentMethod,
+        paymentDetails: request.paymentDetails,
+        description: `${plan.name} subscription`,
+        periodStart,
+        periodEnd,
+        now
+      });
+
+      if (charge.status === 'failed') {
+        await this.supabase
+          .from('hour_subscriptions')
+          .update({
+            status: 'cancelled',
+            cancelled_at: now.toISOString(),
+            cancellation_reason: 'initial_payment_failed',
+            last_failure_message: charge.failureMessage
+          })
+          .eq('id', subscription.id);
+
+        return subscriptionError('PAYMENT_FAILED', charge.failureMessage || 'The first payment failed', charge);
+      }
+
+      return { success: true, data: this.transformSubscription({ ...subscription, subscription_plans: plan }) };
+    } catch (error) {
+      return subscriptionError('SUBSCRIBE_ERROR', 'Failed to start subscription', error);
+    }
+  }
+
+  /**
+   * Move to another plan. Upgrades are prorated and charged now; downgrades
+   * are scheduled for the next renewal.
+   */
+  async changePlan(
+    subscriptionId: string,
+    newPlanId: string,
+    now: Date = new Date()
+  ): Promise<HourApiResponse<SubscriptionProration>> {
+    try {
+      const subscription = await this.getSubscriptionById(subscriptionId);
+      if (!subscription || subscription.status === 'cancelled') {
+        return subscriptionError('SUBSCRIPTION_NOT_FOUND', 'Subscription not found');
+      }
+      if (subscription.status === 'past_due') {
+        return subscriptionError('SUBSCRIPTION_PAST_DUE', 'Update your payment method before changing plans');
+      }
+      if (subscription.plan_id === newPlanId) {
+        return subscriptionError('SAME_PLAN', 'You are already on this plan');
+      }
+
+      const [currentPlan, newPlan] = await Promise.all([
+        this.getPlanWithPackage(subscription.plan_id),
+        this.getPlanWithPackage(newPlanId)
+      ]);
+
+      if (!currentPlan || !newPlan || !newPlan.is_active) {
+        return subscriptionError('PLAN_NOT_FOUND', 'Subscription plan not found');
+      }
+      if (currentPlan.currency !== newPlan.currency) {
+        return subscriptionError('PLAN_CURRENCY_MISMATCH', 'Plans must be billed in the same currency');
+      }
+
+      const proration = calculateProration({
+        currentPlan: this.transformPlan(currentPlan),
+        newPlan: this.transformPlan(newPlan),
+        periodStart: new Date(subscription.current_period_start),
+        periodEnd: new Date(subscription.current_period_end),
+        now
+      });
+
+      if (proration.effective === 'next_period') {
+        const { error } = await this.supabase
+          .from('hour_subscriptions')
+          .update({ pending_plan_id: newPlan.id })
+          .eq('id', subscriptionId);
+
+        if (error) throw error;
+        return { success: true, data: proration };
+      }
+
+      if (proration.amountDue > 0) {
+        const charge = await this.charge({
+          studentId: subscription.student_id,
+          subscriptionId,
+          chargeType: 'subscription_proration',
+          packageId: newPlan.package_id,
+          validityDays: newPlan.hour_packages.validity_days,
+          hours: proration.hoursAdjustment,
+          amount: proration.amountDue,
+          currency: newPlan.currency,
+          paymentMethod: subscription.payment_method,
+          paymentDetails: subscription.payment_details,
+          description: `Upgrade to ${newPlan.name} (prorated)`,
+          periodStart: now.toISOString(),
+          periodEnd: subscription.current_period_end,
+          now
+        });
+
+        if (charge.status === 'failed') {
+          return subscriptionError('PAYMENT_FAILED', charge.failureMessage || 'The prorated payment failed', charge);
+        }
+      }
+
+      const { error } = await this.supabase
+        .from('hour_subscriptions')
+        .update({ plan_id: newPlan.id, pending_plan_id: null })
+        .eq('id', subscriptionId);
+
+      if (error) throw error;
+
+      return { success: true, data: proration };
+    } catch (error) {
+      return subscriptionError('CHANGE_PLAN_ERROR', 'Failed to change plan', error);
+    }
+  }
+
+  /**
+   * Cancel at the end of the paid period, or straight away. Hours already
+   * bought stay on the balance either way.
+   */
+  async cancelSubscription(
+    subscriptionId: string,
+    options: { immediately?: boolean; reason?: string } = {}
+  ): Promise<HourApiResponse<HourSubscription>> {
+    const update = options.immediately
+      ? {
+          status: 'cancelled',
+          cancelled_at: new Date().toISOString(),
+          cancellation_reason: options.reason || 'student_request',
+          next_retry_at: null
+        }
+      : { cancel_at_period_end: true };
+
+    return this.updateSubscription(subscriptionId, update, 'CANCEL_SUBSCRIPTION_ERROR', 'Failed to cancel subscription');
+  }
+
+  /**
+   * Undo a cancellation scheduled for the end of the period
+   */
+  async resumeSubscription(subscriptionId: string): Promise<HourApiResponse<HourSubscription>> {
+    return this.updateSubscription(
+      subscriptionId,
+      { cancel_at_period_end: false },
+      'RESUME_SUBSCRIPTION_ERROR',
+      'Failed to resume subscription'
+    );
+  }
+
+  /**
+   * Replace the saved payment method. A past-due subscription is retried on
+   * the next billing run.
+   */
+  async updatePaymentMethod(
+    subscriptionId: string,
+    paymentMethod: PaymentMethod,
+    paymentDetails?: Record<string, any>
+  ): Promise<HourApiResponse<HourSubscription>> {
+    if (!RECURRING_PAYMENT_METHODS.includes(paymentMethod)) {
+      return subscriptionError('INVALID_PAYMENT_METHOD', 'This payment method cannot be used for recurring billing');
+    }
+
+    const subscription = await this.getSubscriptionById(subscriptionId);
+    return this.updateSubscription(
+      subscriptionId,
+      {
+        payment_method: paymentMethod,
+        payment_details: paymentDetails || {},
+        ...(subscription?.status === 'past_due' && { next_retry_at: new Date().toISOString() })
+      },
+      'UPDATE_PAYMENT_METHOD_ERROR',
+      'Failed to update payment method'
+    );
+  }
+
+  // ========================================
+  // Scheduled billing
+  // ========================================
+
+  /**
+   * Renew every active subscription whose period has ended. Pending
+   * downgrades and the rollover cap are applied before the new period is
+   * charged; a failed charge moves the subscription into dunning.
+   */
+  async processRenewals(now: Date = new Date()): Promise<HourApiResponse<HourBillingRunResult>> {
+    const result: HourBillingRunResult = { processed: 0, succeeded: 0, failed: 0, events: [] };
+
+    try {
+      const { data: due, error } = await this.supabase
+        .from('hour_subscriptions')
+        .select('*')
+        .eq('status', 'active')
+        .lte('current_period_end', now.toISOString());
+
+      if (error) throw error;
+
+      for (const subscription of due || []) {
+        try {
+          if (subscription.cancel_at_period_end) {
+            const event = await this.cancelAtPeriodEnd(subscription, now);
+            if (event) {
+              result.processed++;
+              result.events.push(event);
+            }
+            continue;
+          }
+
+          this.addOutcome(result, await this.renew(subscription, now));
+        } catch (error) {
+          // One failing subscription must not stop the rest of the run
+          logger.error(`Failed to renew hour subscription ${subscription.id}:`, error);
+          result.processed++;
+          result.failed++;
+        }
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      return subscriptionError('RENEWAL_RUN_ERROR', 'Failed to process subscription renewals', error);
+    }
+  }
+
+  /**
+   * Retry past-due subscriptions whose retry date has arrived
+   */
+  async processDunning(now: Date = new Date()): Promise<HourApiResponse<HourBillingRunResult>> {
+    const result: HourBillingRunResult = { processed: 0, succeeded: 0, failed: 0, events: [] };
+
+    try {
+      const { data: due, error } = await this.supabase
+        .from('hour_subscriptions')
+        .select('*')
+        .eq('status', 'past_due')
+        .lte('next_retry_at', now.toISOString());
+
+      if (error) throw error;
+
+      for (const subscription of due || []) {
+        try {
+          this.addOutcome(result, await this.renew(subscription, now));
+        } catch (error) {
+          logger.error(`Failed to retry hour subscription ${subscription.id}:`, error);
+          result.processed++;
+          result.failed++;
+        }
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      return subscriptionError('DUNNING_RUN_ERROR', 'Failed to process payment retries', error);
+    }
+  }
+
+  /**
+   * Settle a charge the provider accepted as processing once its webhook
+   * reports the outcome. A failed renewal enters dunning like a declined
+   * card, and a failed first charge cancels the subscription.
+   */
+  async settleProcessingCharge(
+    purchaseId: string,
+    paymentStatus: PaymentStatus,
+    failure: { failureCode?: string; failureMessage?: string } = {},
+    now: Date = new Date()
+  ): Promise<HourApiResponse<HourBillingEvent | null>> {
+    if (!['completed', 'failed', 'cancelled'].includes(paymentStatus)) {
+      return { success: true, data: null };
+    }
+
+    try {
+      const { data: charge, error } = await this.supabase
+        .from('hour_billing_charges')
+        .select('*')
+        .eq('purchase_id', purchaseId)
+        .eq('status', 'processing')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!charge) return { success: true, data: null };
+
+      const failed = paymentStatus !== 'completed';
+      let event: HourBillingEvent | null = null;
+
+      // The subscription is moved before the charge, so a redelivery after a
+      // failed write still finds the charge processing and finishes the job
+      if (failed && charge.subscription_id) {
+        event = await this.failProcessingCharge(charge, failure.failureMessage, now);
+      }
+
+      const { error: chargeError } = await this.supabase
+        .from('hour_billing_charges')
+        .update({
+          status: failed ? 'failed' : 'succeeded',
+          failure_code: failed ? failure.failureCode ?? null : null,
+          failure_message: failed ? failure.failureMessage ?? null : null
+        })
+        .eq('id', charge.id)
+        .eq('status', 'processing');
+
+      if (chargeError) throw chargeError;
+
+      return { success: true, data: event };
+    } catch (error) {
+      return subscriptionError('SETTLE_CHARGE_ERROR', 'Failed to settle billing charge', error);
+    }
+  }
+
+  // ========================================
+  // Auto top-up
+  // ========================================
+
+  async getAutoTopUpSettings(studentId: string): Promise<HourApiResponse<AutoTopUpSettings | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('auto_top_up_settings')
+        .select('*')
+        .eq('student_id', studentId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return { success: true, data: data ? this.transformAutoTopUp(data) : null };
+    } catch (error) {
+      return subscriptionError('FETCH_AUTO_TOP_UP_ERROR', 'Failed to fetch auto top-up settings', error);
+    }
+  }
+
+  async saveAutoTopUpSettings(settings: AutoTopUpSettings): Promise<HourApiResponse<AutoTopUpSettings>> {
+    if (settings.isEnabled && !RECURRING_PAYMENT_METHODS.includes(settings.paymentMethod)) {
+      return subscriptionError('INVALID_PAYMENT_METHOD', 'This payment method cannot be used for automatic purchases');
+    }
+    if (settings.thresholdHours < 0 || settings.maxTopUpsPerMonth < 1) {
+      return subscriptionError('INVALID_AUTO_TOP_UP', 'Threshold and monthly limit must be positive');
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('auto_top_up_settings')
+        .upsert({
+          student_id: settings.studentId,
+          is_enabled: settings.isEnabled,
+          threshold_hours: settings.thresholdHours,
+          package_id: settings.packageId,
+          payment_method: settings.paymentMethod,
+          payment_details: settings.paymentDetails || {},
+          max_top_ups_per_month: settings.maxTopUpsPerMonth
+        }, { onConflict: 'student_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformAutoTopUp(data) };
+    } catch (error) {
+      return subscriptionError('SAVE_AUTO_TOP_UP_ERROR', 'Failed to save auto top-up settings', error);
+    }
+  }
+
+  /**
+   * Buy the student's chosen package if their balance is below the
+   * threshold. Returns the charge, or null when no top-up was needed.
+   */
+  async checkAutoTopUp(studentId: string, now: Date = new Date()): Promise<HourApiResponse<HourBillingCharge | null>> {
+    try {
+      const { data: settingsRow, error } = await this.supabase
+        .from('auto_top_up_settings')
+        .select('*, hour_packages (name, hours_included, price, currency, validity_days, is_active)')
+        .eq('student_id', studentId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!settingsRow?.is_enabled) return { success: true, data: null };
+
+      return { success: true, data: await this.runAutoTopUp(settingsRow, now) };
+    } catch (error) {
+      return subscriptionError('AUTO_TOP_UP_ERROR', 'Failed to run auto top-up', error);
+    }
+  }
+
+  /**
+   * Check every student with auto top-up enabled
+   */
+  async processAutoTopUps(now: Date = new Date()): Promise<HourApiResponse<HourBillingRunResult>> {
+    const result: HourBillingRunResult = { processed: 0, succeeded: 0, failed: 0, events: [] };
+
+    try {
+      const { data: enabled, error } = await this.supabase
+        .from('auto_top_up_settings')
+        .select('*, hour_packages (name, hours_included, price, currency, validity_days, is_active)')
+        .eq('is_enabled', true);
+
+      if (error) throw error;
+
+      for (const settingsRow of enabled || []) {
+        const charge = await this.runAutoTopUp(settingsRow, now);
+        if (!charge) continue;
+
+        result.processed++;
+        if (charge.status === 'failed') {
+          result.failed++;
+          result.events.push({
+            type: 'payment_failed',
+            studentId: charge.studentId,
+            amount: charge.amount,
+            currency: charge.currency,
+            hours: charge.hours,
+            failureMessage: charge.failureMessage
+          });
+        } else {
+          result.succeeded++;
+          result.events.push({
+            type: 'auto_top_up',
+            studentId: charge.studentId,
+            amount: charge.amount,
+            currency: charge.currency,
+            hours: charge.hours
+          });
+        }
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      return subscriptionError('AUTO_TOP_UP_RUN_ERROR', 'Failed to process auto top-ups', error);
+    }
+  }
+
+  // ========================================
+  // Private helpers
+  // ========================================
+
+  private async runAutoTopUp(settingsRow: any, now: Date): Promise<HourBillingCharge | null> {
+    const settings = this.transformAutoTopUp(settingsRow);
+    const pkg = settingsRow.hour_packages;
+    if (!pkg?.is_active) return null;
+
+    const { data: balance, error: balanceError } = await this.supabase.rpc('calculate_student_hours', {
+      p_student_id: settings.studentId
+    });
+    if (balanceError) throw balanceError;
+
+    // Failed attempts count towards the limit so a declined card is not retried every run
+    const { count, error: countError } = await this.supabase
+      .from('hour_billing_charges')
+      .select('id', { count: 'exact', head: true })
+      .eq('student_id', settings.studentId)
+      .eq('charge_type', 'auto_top_up')
+      .gte('created_at', startOfMonth(now).toISOString());
+    if (countError) throw countError;
+
+    if (!shouldTriggerAutoTopUp(settings, balance || 0, count || 0)) {
+      return null;
+    }
+
+    const charge = await this.charge({
+      studentId: settings.studentId,
+      chargeType: 'auto_top_up',
+      packageId: settings.packageId,
+      validityDays: pkg.validity_days,
+      hours: pkg.hours_included,
+      amount: Number(pkg.price),
+      currency: pkg.currency,
+      paymentMethod: settings.paymentMethod,
+      paymentDetails: settings.paymentDetails,
+      description: `Auto top-up: ${pkg.name}`,
+      now
+    });
+
+    await this.supabase
+      .from('auto_top_up_settings')
+      .update({ last_triggered_at: now.toISOString() })
+      .eq('id', settingsRow.id);
+
+    return charge;
+  }
+
+  private addOutcome(
+    result: HourBillingRunResult,
+    outcome: { success: boolean; event: HourBillingEvent } | null
+  ): void {
+    // Claimed by an overlapping run
+    if (!outcome) return;
+
+    result.processed++;
+    result.events.push(outcome.event);
+    if (outcome.success) {
+      result.succeeded++;
+    } else {
+      result.failed++;
+    }
+  }
+
+  private async cancelAtPeriodEnd(subscription: any, now: Date): Promise<HourBillingEvent | null> {
+    const { data: cancelled, error } = await this.supabase
+      .from('hour_subscriptions')
+      .update({ status: 'cancelled', cancelled_at: now.toISOString(), cancellation_reason: 'student_request' })
+      .eq('id', subscription.id)
+      .eq('status', 'active')
+      .eq('current_period_end', subscription.current_period_end)
+      .select('id');
+
+    if (error) throw error;
+    if (!cancelled?.length) return null;
+
+    const plan = await this.getPlanWithPackage(subscription.plan_id);
+
+    return {
+      type: 'subscription_cancelled',
+      studentId: subscription.student_id,
+      subscriptionId: subscription.id,
+      amount: 0,
+      currency: plan?.currency || 'USD',
+      hours: 0
+    };
+  }
+
+  /**
+   * Charge the next period of a subscription and move its schedule on, or
+   * record the failure and schedule the next retry. Returns null when
+   * another run already claimed the period.
+   */
+  private async renew(subscription: any, now: Date): Promise<{ success: boolean; event: HourBillingEvent } | null> {
+    const planId = subscription.pending_plan_id || subscription.plan_id;
+    const plan = await this.getPlanWithPackage(planId);
+    if (!plan) {
+      throw new Error(`Subscription plan ${planId} not found`);
+    }
+
+    // Retries bill the period that failed; renewals bill the one after it
+    const isRetry = subscription.status === 'past_due';
+    const periodStart = isRetry ? new Date(subscription.current_period_start) : new Date(subscription.current_period_end);
+    const periodEnd = isRetry ? new Date(subscription.current_period_end) : addBillingInterval(periodStart, plan.billing_interval);
+    const attempt = (subscription.failed_attempts || 0) + 1;
+
+    // Claim the attempt before charging, so an overlapping run or a rerun
+    // after a failed write cannot bill the same period twice
+    const claim = isRetry
+      ? this.supabase
+          .from('hour_subscriptions')
+          .update({ failed_attempts: attempt })
+          .eq('id', subscription.id)
+          .eq('status', 'past_due')
+          .eq('failed_attempts', subscription.failed_attempts || 0)
+      : this.supabase
+          .from('hour_subscriptions')
+          .update({ current_period_start: periodStart.toISOString(), current_period_end: periodEnd.toISOString() })
+          .eq('id', subscription.id)
+          .eq('status', 'active')
+          .eq('current_period_end', subscription.current_period_end);
+
+    const { data: claimed, error: claimError } = await claim.select('id');
+    if (claimError) throw claimError;
+    if (!claimed?.length) return null;
+
+    if (!isRetry) {
+      const { error: rolloverError } = await this.supabase.rpc('apply_subscription_rollover', {
+        p_subscription_id: subscription.id,
+        p_rollover_cap: plan.rollover_cap
+      });
+      if (rolloverError) throw rolloverError;
+    }
+
+    const charge = await this.charge({
+      studentId: subscription.student_id,
+      subscriptionId: subscription.id,
+      chargeType: 'subscription_renewal',
+      packageId: plan.package_id,
+      validityDays: plan.hour_packages.validity_days,
+      hours: plan.hours_per_period,
+      amount: Number(plan.price),
+      currency: plan.currency,
+      paymentMethod: subscription.payment_method,
+      paymentDetails: subscription.payment_details,
+      description: `${plan.name} subscription renewal`,
+      attempt,
+      periodStart: periodStart.toISOString(),
+      periodEnd: periodEnd.toISOString(),
+      now
+    });
+
+    const baseEvent = {
+      studentId: subscription.student_id,
+      subscriptionId: subscription.id,
+      amount: charge.amount,
+      currency: charge.currency,
+      hours: charge.hours
+    };
+
+    if (charge.status === 'failed') {
+      return this.recordRenewalFailure(subscription.id, attempt, periodStart, periodEnd, charge.failureMessage, baseEvent, now);
+    }
+
+    // A processing charge keeps the subscription active; its webhook moves
+    // it into dunning if the payment later fails
+    const { error: updateError } = await this.supabase
+      .from('hour_subscriptions')
+      .update({
+        status: 'active',
+        plan_id: plan.id,
+        pending_plan_id: null,
+        current_period_start: periodStart.toISOString(),
+        current_period_end: periodEnd.toISOString(),
+        failed_attempts: 0,
+        next_retry_at: null,
+        last_failure_message: null
+      })
+      .eq('id', subscription.id);
+
+    if (updateError) throw updateError;
+
+    return { success: true, event: { type: 'subscription_renewed', ...baseEvent } };
+  }
+
+  /**
+   * Schedule the next retry of a failed period, or cancel the subscription
+   * once every retry has failed
+   */
+  private async recordRenewalFailure(
+    subscriptionId: string,
+    attempt: number,
+    periodStart: Date,
+    periodEnd: Date,
+    failureMessage: string | undefined,
+    baseEvent: Omit<HourBillingEvent, 'type'>,
+    now: Date
+  ): Promise<{ success: boolean; event: HourBillingEvent }> {
+    const nextRetry = getNextDunningRetry(attempt, now);
+
+    const { error } = await this.supabase
+      .from('hour_subscriptions')
+      .update(nextRetry
+        ? {
+            status: 'past_due',
+            current_period_start: periodStart.toISOString(),
+            current_period_end: periodEnd.toISOString(),
+            failed_attempts: attempt,
+            next_retry_at: nextRetry.toISOString(),
+            last_failure_message: failureMessage
+          }
+        : {
+            status: 'cancelled',
+            failed_attempts: attempt,
+            next_retry_at: null,
+            last_failure_message: failureMessage,
+            cancelled_at: now.toISOString(),
+            cancellation_reason: 'payment_failed'
+          })
+      .eq('id', subscriptionId);
+
+    if (error) throw error;
+
+    if (!nextRetry) {
+      return {
+        success: false,
+        event: { type: 'subscription_cancelled', ...baseEvent, failureMessage }
+      };
+    }
+
+    return {
+      success: false,
+      event: {
+        type: 'payment_failed',
+        ...baseEvent,
+        nextRetryAt: nextRetry.toISOString(),
+        failureMessage
+      }
+    };
+  }
+
+  /**
+   * Apply a processing charge that failed to its subscription, if the
+   * subscription has not moved on since the charge was taken
+   */
+  private async failProcessingCharge(charge: any, failureMessage: string | undefined, now: Date): Promise<HourBillingEvent | null> {
+    const subscription = await this.getSubscriptionById(charge.subscription_id);
+    if (
+      !subscription ||
+      subscription.status !== 'active' ||
+      !charge.period_end ||
+      new Date(subscription.current_period_end).getTime() !== new Date(charge.period_end).getTime()
+    ) {
+      return null;
+    }
+
+    const baseEvent = {
+      studentId: charge.student_id,
+      subscriptionId: charge.subscription_id,
+      amount: Number(charge.amount),
+      currency: charge.currency,
+      hours: charge.hours
+    };
+
+    if (charge.charge_type === 'subscription_initial') {
+      const { error } = await this.supabase
+        .from('hour_subscriptions')
+        .update({
+          status: 'cancelled',
+          cancelled_at: now.toISOString(),
+          cancellation_reason: 'initial_payment_failed',
+          last_failure_message: failureMessage
+        })
+        .eq('id', subscription.id);
+
+      if (error) throw error;
+      return { type: 'subscription_cancelled', ...baseEvent, failureMessage };
+    }
+
+    if (charge.charge_type !== 'subscription_renewal') return null;
+
+    const outcome = await this.recordRenewalFailure(
+      subscription.id,
+      charge.attempt,
+      new Date(charge.period_start),
+      new Date(charge.period_end),
+      failureMessage,
+      baseEvent,
+      now
+    );
+
+    return outcome.event;
+  }
+
+  /**
+   * Create the purchase lot, take the payment and record the charge
+   */
+  private async charge(request: ChargeRequest): Promise<HourBillingCharge> {
+    const validUntil = new Date(request.now);
+    validUntil.setUTCDate(validUntil.getUTCDate() + request.validityDays);
+
+    let purchaseId: string | undefined;
+    let status: HourBillingCharge['status'] = 'failed';
+    let failureCode: string | undefined;
+    let failureMessage: string | undefined;
+
+    if (request.hours > 0) {
+      const { data: purchase, error: purchaseError } = await this.supabase
+        .from('hour_purchases')
+        .insert({
+          student_id: request.studentId,
+          package_id: request.packageId,
+          subscription_id: request.subscriptionId,
+          hours_purchased: request.hours,
+          price_paid: request.amount,
+          list_price: request.amount,
+          discount_total: 0,
+          currency: request.currency,
+          payment_status: 'pending',
+          payment_method: request.paymentMethod,
+          payment_provider: this.paymentProvider.name,
+          valid_from: request.now.toISOString(),
+          valid_until: validUntil.toISOString(),
+          notes: request.description,
+          metadata: { chargeType: request.chargeType }
+        })
+        .select()
+        .single();
+
+      if (purchaseError) throw purchaseError;
+      purchaseId = purchase.id;
+    }
+
+    const payment = await this.takePayment(purchaseId || `charge_${request.studentId}_${request.now.getTime()}`, request);
+    failureCode = payment.failureCode;
+    failureMessage = payment.failureMessage;
+
+    if (payment.status === 'completed') {
+      status = 'succeeded';
+    } else if (payment.status === 'processing') {
+      // Settled later by the provider webhook
+      status = 'processing';
+    }
+
+    if (purchaseId) {
+      await this.supabase
+        .from('hour_purchases')
+        .update({
+          payment_status: status === 'succeeded' ? 'completed' : status === 'processing' ? 'processing' : 'failed',
+          payment_reference: payment.reference,
+          // Only the outcome is kept; provider payloads can echo payment details
+          payment_gateway_response: { provider: this.paymentProvider.name, failureCode, failureMessage },
+          ...(status === 'succeeded' && { paid_at: request.now.toISOString() })
+        })
+        .eq('id', purchaseId);
+
+      if (status === 'succeeded') {
+        await this.recordPurchaseTransaction(request.studentId, purchaseId, request.hours, request.description);
+      }
+    }
+
+    const { data: charge, error: chargeError } = await this.supabase
+      .from('hour_billing_charges')
+      .insert({
+        student_id: request.studentId,
+        subscription_id: request.subscriptionId,
+        purchase_id: purchaseId,
+        charge_type: request.chargeType,
+        amount: request.amount,
+        currency: request.currency,
+        hours: request.hours,
+        status,
+        attempt: request.attempt || 1,
+        failure_code: failureCode,
+        failure_message: failureMessage,
+        period_start: request.periodStart,
+        period_end: request.periodEnd
+      })
+      .select()
+      .single();
+
+    if (chargeError) throw chargeError;
+
+    return this.transformCharge(charge);
+  }
+
+  private async takePayment(purchaseId: string, request: ChargeRequest) {
+    const authorization = await this.paymentProvider.authorize({
+      purchaseId,
+      studentId: request.studentId,
+      amount: request.amount,
+      currency: request.currency,
+      paymentMethod: request.paymentMethod,
+      paymentDetails: request.paymentDetails,
+      description: request.description
+    });
+
+    if (!authorization.success) {
+      return authorization;
+    }
+
+    return this.paymentProvider.capture(authorization.reference, request.amount);
+  }
+
+  private async recordPurchaseTransaction(
+    studentId: string,
+    purchaseId: string,
+    hours: number,
+    description: string
+  ): Promise<void> {
+    const { data: balanceAfter, error: balanceError } = await this.supabase.rpc('calculate_student_hours', {
+      p_student_id: studentId
+    });
+
+    if (balanceError) throw balanceError;
+
+    const { error } = await this.supabase
+      .from('hour_transactions')
+      .insert({
+        student_id: studentId,
+        purchase_id: purchaseId,
+        transaction_type: 'purchase',
+        hours_amount: hours,
+        balance_before: (balanceAfter || 0) - hours,
+        balance_after: balanceAfter || 0,
+        description
+      });
+
+    if (error) throw error;
+  }
+
+  private async getPlanWithPackage(planId: string): Promise<any | null> {
+    const { data, error } = await this.supabase
+      .from('subscription_plans')
+      .select('*, hour_packages (name, validity_days)')
+      .eq('id', planId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  private async getSubscriptionById(subscriptionId: string): Promise<any | null> {
+    const { data, error } = await this.supabase
+      .from('hour_subscriptions')
+      .select('*')
+      .eq('id', subscriptionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  private async updateSubscription(
+    subscriptionId: string,
+    update: Record<string, any>,
+    errorCode: string,
+    errorMessage: string
+  ): Promise<HourApiResponse<HourSubscription>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('hour_subscriptions')
+        .update(update)
+        .eq('id', subscriptionId)
+        .select('*, subscription_plans!hour_subscriptions_plan_id_fkey (*)')
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformSubscription(data) };
+    } catch (error) {
+      return subscriptionError(errorCode, errorMessage, error);
+    }
+  }
+
+  private transformPlan(p: any): SubscriptionPlan {
+    return {
+      id: p.id,
+      name: p.name,
+      description: p.description,
+      packageId: p.package_id,
+      hoursPerPeriod: p.hours_per_period,
+      billingInterval: p.billing_interval,
+      price: Number(p.price),
+      currency: p.currency,
+      rolloverCap: p.rollover_cap,
+      isActive: p.is_active,
+      createdAt: p.created_at
+    };
+  }
+
+  private transformSubscription(s: any): HourSubscription {
+    return {
+      id: s.id,
+      studentId: s.student_id,
+      planId: s.plan_id,
+      plan: s.subscription_plans ? this.transformPlan(s.subscription_plans) : undefined,
+      status: s.status,
+      currentPeriodStart: s.current_period_start,
+      currentPeriodEnd: s.current_period_end,
+      cancelAtPeriodEnd: s.cancel_at_period_end,
+      pendingPlanId: s.pending_plan_id ?? undefined,
+      paymentMethod: s.payment_method,
+      paymentDetails: s.payment_details,
+      failedAttempts: s.failed_attempts || 0,
+      nextRetryAt: s.next_retry_at ?? undefined,
+      lastFailureMessage: s.last_failure_message ?? undefined,
+      cancelledAt: s.cancelled_at ?? undefined,
+      cancellationReason: s.cancellation_reason ?? undefined,
+      createdAt: s.created_at,
+      updatedAt: s.updated_at
+    };
+  }
+
+  private transformCharge(c: any): HourBillingCharge {
+    return {
+      id: c.id,
+      studentId: c.student_id,
+      subscriptionId: c.subscription_id ?? undefined,
+      purchaseId: c.purchase_id ?? undefined,
+      chargeType: c.charge_type,
+      amount: Number(c.amount),
+      currency: c.currency,
+      hours: c.hours,
+      status: c.status,
+      attempt: c.attempt,
+      failureCode: c.failure_code ?? undefined,
+      failureMessage: c.failure_message ?? undefined,
+      periodStart: c.period_start ?? undefined,
+      periodEnd: c.period_end ?? undefined,
+      createdAt: c.created_at
+    };
+  }
+
+  private transformAutoTopUp(a: any): AutoTopUpSettings {
+    return {
+      id: a.id,
+      studentId: a.student_id,
+      isEnabled: a.is_enabled,
+      thresholdHours: a.threshold_hours,
+      packageId: a.package_id,
+      paymentMethod: a.payment_method,
+      paymentDetails: a.payment_details,
+      maxTopUpsPerMonth: a.max_top_ups_per_month,
+      lastTriggeredAt: a.last_triggered_at ?? undefined
+    };
+  }
+}
+
+// Export singleton instance
+export const hourSubscriptionService = new HourSubscriptionService();
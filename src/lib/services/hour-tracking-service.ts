@@ -5,6 +5,7 @@ import { logger } from '@/lib/services';
  */
 
 import { supabase } from '@/lib/supabase';
+import { hourPricingService } from './hour-pricing-service';
 import { 
   HourTransaction, 
   HourPurchase, 
@@ -132,11 +133,29 @@ class HourTrackingService {
    */
   async purchaseHours(purchaseData: HourPurchaseForm, createdBy?: string): Promise<HourManagementResponse<HourPurchase>> {
     try {
+      const { promo_code, apply_referral_credits, ...purchaseFields } = purchaseData;
+
+      // Apply volume tiers, promo codes and referral credit to the total
+      const quote = await hourPricingService.getQuote({
+        studentId: purchaseData.student_id,
+        hours: purchaseData.hours_purchased,
+        listPrice: purchaseData.total_amount,
+        promoCode: promo_code,
+        applyReferralCredits: apply_referral_credits
+      });
+
+      if (!quote.success || !quote.data) {
+        throw new Error(quote.error?.message || 'Failed to price purchase');
+      }
+
       // First create the purchase record
       const { data: purchase, error: purchaseError } = await supabase
         .from('hour_purchases')
         .insert({
-          ...purchaseData,
+          ...purchaseFields,
+          total_amount: quote.data.finalPrice,
+          list_price: quote.data.listPrice,
+          discount_total: quote.data.totalDiscount,
           created_by: createdBy
         })
         .select()
@@ -144,6 +163,11 @@ class HourTrackingService {
 
       if (purchaseError) throw purchaseError;
 
+      const applied = await hourPricingService.applyDiscounts(purchase.id, purchaseData.student_id, quote.data);
+      if (!applied.success) {
+        throw new Error(applied.error?.message || 'Failed to apply discounts');
+      }
+
       // Add hours to student balance using the database function
       const { data: addResult, error: addError } = await supabase
         .rpc('add_student_hours', {
@@ -23,7 +23,6 @@ export { studentService } from './student-service';
 export { 
   classCapacityService, 
   type ClassCapacityInfo, 
-  type WaitingListEntry, 
   type ClassSplitRecommendation,
   type Enrollment 
 } from './class-capacity-service';
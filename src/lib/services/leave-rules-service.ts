@@ -15,6 +15,8 @@ import type {
   HourPaginatedResponse,
   ApprovalStatus
 } from '@/types/hours';
+import { logger } from '@/lib/services';
+import { HourFreezeService, isFreezeEligible } from './hour-freeze-service';
 
 // Conditional import for testing
 let createClient: any;
@@ -459,9 +461,28 @@ export class LeaveRulesService {
 
       if (error) throw error;
 
+      const leaveRequest = this.transformLeaveRequest(data);
+
+      // Long medical or travel leave pauses the expiry of the student's hours.
+      // A failed freeze does not undo the approval; it is returned with the
+      // request so the admin can retry it with retryHourFreeze.
+      if (isFreezeEligible(data.leave_type, data.start_date, data.end_date)) {
+        const freeze = await new HourFreezeService(this.supabase).freezeForLeave(requestId);
+
+        if (freeze.success) {
+          leaveRequest.hourFreeze = freeze.data;
+        } else {
+          logger.error(`Hour freeze not applied for leave request ${requestId}: ${freeze.error?.message}`);
+          leaveRequest.hourFreezeError = {
+            code: freeze.error?.code || 'FREEZE_ERROR',
+            message: freeze.error?.message || 'Failed to apply hour freeze'
+          };
+        }
+      }
+
       return {
         success: true,
-        data: this.transformLeaveRequest(data)
+        data: leaveRequest
       };
     } catch (error) {
       return {
@@ -475,6 +496,50 @@ export class LeaveRulesService {
     }
   }
 
+  /**
+   * Apply the hour freeze of an approved leave again after it failed
+   */
+  async retryHourFreeze(requestId: string): Promise<HourApiResponse<LeaveRequest>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('leave_requests')
+        .select('*')
+        .eq('id', requestId)
+        .single();
+
+      if (error) throw error;
+
+      if (data.approval_status !== 'approved' || !isFreezeEligible(data.leave_type, data.start_date, data.end_date)) {
+        return {
+          success: false,
+          error: {
+            code: 'FREEZE_NOT_ELIGIBLE',
+            message: 'Only approved long medical or travel leave freezes hours'
+          }
+        };
+      }
+
+      const freeze = await new HourFreezeService(this.supabase).freezeForLeave(requestId);
+      if (!freeze.success) {
+        return { success: false, error: freeze.error };
+      }
+
+      return {
+        success: true,
+        data: { ...this.transformLeaveRequest(data), hourFreeze: freeze.data }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'FREEZE_ERROR',
+          message: 'Failed to apply hour freeze',
+          details: error
+        }
+      };
+    }
+  }
+
   /**
    * Reject a leave request
    */
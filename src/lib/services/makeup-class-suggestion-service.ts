@@ -10,6 +10,7 @@ import { supabase } from '@/lib/supabase';
 import { withRetry } from './crud-service';
 import { schedulingService } from './scheduling-service';
 import { contentSimilarityService } from './content-similarity-service';
+import { closureCalendarService, findClosure } from './closure-calendar-service';
 import { z } from 'zod';
 
 export interface MakeUpSuggestionRequest {
@@ -213,8 +214,14 @@ export class MakeUpClassSuggestionService {
         request.constraints
       );
       
+      // Skip suggestions that fall in an academy or location closure
+      const closures = await this.getUpcomingClosures();
+      const openSuggestions = scoredSuggestions.filter(
+        suggestion => !findClosure(closures, suggestion.start_time, suggestion.end_time, suggestion.location)
+      );
+      
       // Filter by minimum thresholds
-      const filteredSuggestions = scoredSuggestions.filter(
+      const filteredSuggestions = openSuggestions.filter(
         suggestion => 
           suggestion.overall_compatibility_score >= this.config.thresholds.min_overall_score &&
           suggestion.content_compatibility_score >= this.config.thresholds.min_content_score &&
@@ -238,6 +245,15 @@ export class MakeUpClassSuggestionService {
     });
   }
 
+  /**
+   * Closures within the make-up suggestion horizon
+   */
+  private async getUpcomingClosures() {
+    const today = new Date().toISOString().split('T')[0];
+    const horizon = new Date(Date.now() + 60 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    return closureCalendarService.getActiveClosures(today, horizon);
+  }
+
   /**
    * Get original class details for comparison
    */
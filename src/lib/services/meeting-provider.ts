@@ -0,0 +1,74 @@
+/**
+ * Meeting Provider
+ *
+ * Provider abstraction used to generate join links for virtual sessions.
+ * Every provider creates and cancels meetings on a virtual resource's
+ * account. The local provider issues links on this app's domain without
+ * calling any external service, for development and tests.
+ */
+
+import type { MeetingDetails, MeetingProviderName, MeetingRequest } from '@/types/resources';
+
+export interface MeetingProvider {
+  readonly name: MeetingProviderName;
+  createMeeting(request: MeetingRequest): Promise<MeetingDetails>;
+  cancelMeeting(meetingId: string): Promise<void>;
+}
+
+/**
+ * Issues random meeting IDs with join links under `/meet`
+ */
+export class LocalMeetingProvider implements MeetingProvider {
+  readonly name: MeetingProviderName = 'local';
+  private meetings = new Set<string>();
+
+  constructor(private baseUrl: string = process.env.NEXT_PUBLIC_APP_URL || '') {}
+
+  async createMeeting(request: MeetingRequest): Promise<MeetingDetails> {
+    const meetingId = `local-${crypto.randomUUID()}`;
+    this.meetings.add(meetingId);
+
+    return {
+      meetingId,
+      joinUrl: `${this.baseUrl}/meet/${meetingId}`,
+      hostUrl: `${this.baseUrl}/meet/${meetingId}?host=${encodeURIComponent(request.resource.accountEmail || request.resource.id)}`
+    };
+  }
+
+  async cancelMeeting(meetingId: string): Promise<void> {
+    this.meetings.delete(meetingId);
+  }
+}
+
+const providerFactories: Partial<Record<MeetingProviderName, () => MeetingProvider>> = {
+  local: () => new LocalMeetingProvider()
+};
+
+const providerInstances = new Map<MeetingProviderName, MeetingProvider>();
+
+/**
+ * Register a provider implementation (e.g. a Zoom adapter)
+ */
+export function registerMeetingProvider(name: MeetingProviderName, factory: () => MeetingProvider): void {
+  providerFactories[name] = factory;
+  providerInstances.delete(name);
+}
+
+/**
+ * Resolve the provider for a virtual resource. Throws for providers without
+ * a registered adapter, so no local link is handed out as a Zoom, Meet or
+ * Teams link.
+ */
+export function getMeetingProvider(name: MeetingProviderName = 'local'): MeetingProvider {
+  const existing = providerInstances.get(name);
+  if (existing) return existing;
+
+  const factory = providerFactories[name];
+  if (!factory) {
+    throw new Error(`No meeting provider is registered for ${name}`);
+  }
+
+  const provider = factory();
+  providerInstances.set(name, provider);
+  return provider;
+}
@@ -510,6 +510,9 @@ export class HourPurchaseService implements IHourPurchaseService {
       hoursPurchased: p.hours_purchased,
       pricePaid: p.price_paid,
       currency: p.currency,
+      listPrice: p.list_price ?? undefined,
+      discountTotal: p.discount_total ?? undefined,
+      promoCodeId: p.promo_code_id ?? undefined,
       paymentStatus: p.payment_status,
       paymentMethod: p.payment_method,
       paymentReference: p.payment_reference,
@@ -519,6 +522,7 @@ export class HourPurchaseService implements IHourPurchaseService {
       validUntil: p.valid_until,
       hoursUsed: p.hours_used,
       hoursRemaining: p.hours_remaining,
+      hoursExpired: p.hours_expired,
       isTransferable: p.is_transferable,
       transferLimit: p.transfer_limit,
       transfersMade: p.transfers_made,
@@ -71,8 +71,8 @@ export class HourTransactionService implements IHourTransactionService {
         classType: params.classType 
       });
 
-      // Check if student has sufficient hours
-      const availableHours = await this.getStudentTotalHours(params.studentId);
+      // Check if student has sufficient hours; hours held for this class count
+      const availableHours = await this.getAvailableStudentHours(params.studentId, params.classId);
       const hoursToDeduct = params.hours * (params.deductionRate || 1.0);
       
       if (availableHours < hoursToDeduct) {
@@ -96,10 +96,10 @@ export class HourTransactionService implements IHourTransactionService {
         throw this.createServiceError('DEDUCTION_ERROR', 'Failed to deduct hours', error);
       }
 
-      // Get the created transaction
+      // Get the created transaction with the lots it drew from
       const { data: transaction, error: transError } = await this.supabase
         .from('hour_transactions')
-        .select('*')
+        .select('*, hour_transaction_lots (*)')
         .eq('id', transactionId)
         .single();
 
@@ -139,8 +139,8 @@ export class HourTransactionService implements IHourTransactionService {
         throw this.createServiceError('AUTH_ERROR', 'User not authenticated');
       }
 
-      // Verify source student has enough hours
-      const sourceBalance = await this.getStudentTotalHours(request.fromStudentId);
+      // Verify source student has enough hours not held for a waitlist seat
+      const sourceBalance = await this.getAvailableStudentHours(request.fromStudentId);
       if (sourceBalance < request.hoursToTransfer) {
         throw this.createServiceError(
           'INSUFFICIENT_HOURS',
@@ -164,78 +164,23 @@ export class HourTransactionService implements IHourTransactionService {
         }
       }
 
-      // Get current balances
-      const balanceBefore = {
-        from: sourceBalance,
-        to: await this.getStudentTotalHours(request.toStudentId)
-      };
-
-      // Create deduction transaction for source student
-      const { data: fromTransaction, error: fromError } = await this.supabase
-        .from('hour_transactions')
-        .insert({
-          student_id: request.fromStudentId,
-          transaction_type: 'transfer',
-          hours_amount: -request.hoursToTransfer,
-          balance_before: balanceBefore.from,
-          balance_after: balanceBefore.from - request.hoursToTransfer,
-          transfer_to_student_id: request.toStudentId,
-          description: `Transfer ${request.hoursToTransfer} hours to student ${request.toStudentId}`,
-          reason: request.reason,
-          created_by: user.user.id
-        })
-        .select()
-        .single();
-
-      if (fromError) {
-        throw this.createServiceError('FROM_TRANSACTION_ERROR', 'Failed to create from transaction', fromError);
-      }
-
-      // Create addition transaction for destination student
-      const { data: toTransaction, error: toError } = await this.supabase
-        .from('hour_transactions')
-        .insert({
-          student_id: request.toStudentId,
-          transaction_type: 'transfer',
-          hours_amount: request.hoursToTransfer,
-          balance_before: balanceBefore.to,
-          balance_after: balanceBefore.to + request.hoursToTransfer,
-          transfer_from_student_id: request.fromStudentId,
-          description: `Received ${request.hoursToTransfer} hours from student ${request.fromStudentId}`,
-          reason: request.reason,
-          created_by: user.user.id
-        })
-        .select()
-        .single();
-
-      if (toError) {
-        throw this.createServiceError('TO_TRANSACTION_ERROR', 'Failed to create to transaction', toError);
-      }
-
-      // Get the oldest active purchase for the from student
-      const fromPurchaseId = await this.getOldestActivePurchase(request.fromStudentId);
-
-      // Create transfer log
-      const { data: transferLog, error: logError } = await this.supabase
-        .from('hour_transfer_logs')
-        .insert({
-          from_student_id: request.fromStudentId,
-          to_student_id: request.toStudentId,
-          from_purchase_id: fromPurchaseId,
-          hours_transferred: request.hoursToTransfer,
-          transfer_reason: request.reason,
-          is_family_transfer: request.isFamilyTransfer,
-          family_relationship: request.familyRelationship,
-          from_transaction_id: fromTransaction.id,
-          to_transaction_id: toTransaction.id,
-          notes: request.notes,
-          created_by: user.user.id
-        })
-        .select()
-        .single();
+      // Both transactions, the lot moves (earliest expiry first) and the log
+      // are written in one database transaction
+      const { data: transferLog, error: transferError } = await this.supabase.rpc('transfer_hours', {
+        p_from_student_id: request.fromStudentId,
+        p_to_student_id: request.toStudentId,
+        p_hours: request.hoursToTransfer,
+        p_reason: request.reason,
+        p_pool_account_id: request.corporatePoolId || null,
+        p_is_family_transfer: request.isFamilyTransfer || false,
+        p_family_relationship: request.familyRelationship || null,
+        p_notes: request.notes || null,
+        p_corporate_account_id: request.corporateAccountId || null,
+        p_family_account_id: request.familyAccountId || null
+      });
 
-      if (logError) {
-        throw this.createServiceError('TRANSFER_LOG_ERROR', 'Failed to create transfer log', logError);
+      if (transferError) {
+        throw this.createServiceError('TRANSFER_ERROR', 'Failed to transfer hours', transferError);
       }
 
       this.logger.info('Successfully transferred hours', {
@@ -293,7 +238,7 @@ export class HourTransactionService implements IHourTransactionService {
       // Get recent transactions
       const { data: transactions, error: transError } = await this.supabase
         .from('hour_transactions')
-        .select('*')
+        .select('*, hour_transaction_lots (*)')
         .eq('student_id', studentId)
         .order('created_at', { ascending: false })
         .limit(10);
@@ -374,6 +319,27 @@ export class HourTransactionService implements IHourTransactionService {
     }
   }
 
+  /**
+   * Get student's hours less those held for waitlist seats in other classes
+   */
+  async getAvailableStudentHours(studentId: string, classId?: string): Promise<number> {
+    try {
+      const { data, error } = await this.supabase.rpc('calculate_available_student_hours', {
+        p_student_id: studentId,
+        p_class_id: classId || null
+      });
+
+      if (error) {
+        throw this.createServiceError('CALCULATE_HOURS_ERROR', 'Failed to calculate available student hours', error);
+      }
+
+      return data || 0;
+    } catch (error) {
+      this.logger.error('Failed to get student available hours', { studentId, classId, error });
+      throw error;
+    }
+  }
+
   /**
    * Create a new transaction record
    */
@@ -438,7 +404,7 @@ export class HourTransactionService implements IHourTransactionService {
 
       let query = this.supabase
         .from('hour_transactions')
-        .select('*')
+        .select('*, hour_transaction_lots (*)')
         .eq('student_id', studentId)
         .order('created_at', { ascending: false });
 
@@ -574,26 +540,6 @@ export class HourTransactionService implements IHourTransactionService {
     return true;
   }
 
-  private async getOldestActivePurchase(studentId: string): Promise<string | null> {
-    const { data, error } = await this.supabase
-      .from('hour_purchases')
-      .select('id')
-      .eq('student_id', studentId)
-      .eq('is_active', true)
-      .eq('is_expired', false)
-      .gt('hours_remaining', 0)
-      .order('valid_until', { ascending: true })
-      .limit(1)
-      .single();
-
-    if (error) {
-      this.logger.warn('Failed to get oldest active purchase', { studentId, error });
-      return null;
-    }
-
-    return data?.id || null;
-  }
-
   private createServiceError(code: string, message: string, details?: any): ServiceError {
     return {
       code,
@@ -645,6 +591,14 @@ export class HourTransactionService implements IHourTransactionService {
       reversedAt: t.reversed_at,
       reversalReason: t.reversal_reason,
       originalTransactionId: t.original_transaction_id,
+      lotsConsumed: t.hour_transaction_lots?.map((l: any) => ({
+        id: l.id,
+        transactionId: l.transaction_id,
+        purchaseId: l.purchase_id,
+        hours: l.hours,
+        lotValidUntil: l.lot_valid_until,
+        createdAt: l.created_at
+      })),
       metadata: t.metadata,
       createdAt: t.created_at,
       createdBy: t.created_by
@@ -692,6 +646,7 @@ export class HourTransactionService implements IHourTransactionService {
       fromTransactionId: t.from_transaction_id,
       toTransactionId: t.to_transaction_id,
       notes: t.notes,
+      corporateAccountId: t.corporate_account_id,
       metadata: t.metadata,
       createdAt: t.created_at,
       createdBy: t.created_by
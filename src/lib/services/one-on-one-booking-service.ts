@@ -15,6 +15,15 @@ import { supabase } from '@/lib/supabase';
 import { CRUDService } from './crud-service';
 // Conflict detection service has been removed - using placeholder
 import { schedulingService } from './scheduling-service';
+import { closureCalendarService, findClosure } from './closure-calendar-service';
+import {
+  addDaysToDate,
+  getSlotStart,
+  getZonedParts,
+  resolveTimeZone,
+  zonedTimeToUtc,
+} from '@/lib/utils/timezone';
+import { expandRecurringPattern } from '@/lib/utils/recurrence';
 import type {
   OneOnOneBookingRequest,
   OneOnOneBookingResult,
@@ -22,6 +31,7 @@ import type {
   TeacherMatchingScore,
   TeacherProfileForBooking,
   TeacherAvailability,
+  RecurringAvailabilityPattern,
   AlternativeBookingOptions,
   TimeSlot,
   SchedulingConflict,
@@ -32,6 +42,31 @@ import type {
 } from '@/types/scheduling';
 import type { Tables } from '@/types/database';
 
+/**
+ * Weekly availability row as saved by the teacher availability scheduler
+ */
+interface WeeklyAvailabilityEntry {
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+  is_available?: boolean;
+  timezone?: string;
+  /** RRULE replacing the plain weekly repeat, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO" */
+  rrule?: string;
+  exception_dates?: string[];
+  additional_dates?: string[];
+  effective_from?: string;
+  effective_until?: string;
+}
+
+// Used until a teacher saves their own weekly availability
+const DEFAULT_WEEKLY_AVAILABILITY: WeeklyAvailabilityEntry[] = [1, 2, 3, 4, 5].flatMap(day => [
+  { day_of_week: day, start_time: '09:00', end_time: '10:00' },
+  { day_of_week: day, start_time: '14:00', end_time: '15:00' },
+]);
+
+const AVAILABILITY_WINDOW_DAYS = 14;
+
 /**
  * 1v1 Booking Service Class
  */
@@ -221,37 +256,7 @@ export class OneOnOneBookingService {
       const teacherProfiles: TeacherProfileForBooking[] = [];
 
       for (const teacher of teachers || []) {
-        // Get teacher availability
-        const availability = await this.getTeacherAvailability(teacher.id);
-        
-        // Get teacher ratings and reviews
-        const ratings = await this.getTeacherRatings(teacher.id);
-
-        const profile: TeacherProfileForBooking = {
-          id: teacher.id,
-          fullName: teacher.full_name || 'Unknown Teacher',
-          profilePhotoUrl: teacher.profile_photo_url,
-          bio: teacher.bio || '',
-          experienceYears: teacher.experience_years || 0,
-          specializations: teacher.specializations || [],
-          certifications: teacher.certifications || [],
-          languagesSpoken: teacher.languages_spoken || ['English'],
-          ratings,
-          availabilitySummary: {
-            nextAvailableSlot: availability.availableSlots[0],
-            availableThisWeek: this.countSlotsThisWeek(availability.availableSlots),
-            availableNextWeek: this.countSlotsNextWeek(availability.availableSlots),
-          },
-          pricing: {
-            rate30Min: teacher.rate_30min || 50,
-            rate60Min: teacher.rate_60min || 90,
-            currency: 'USD',
-          },
-          teachingStyle: teacher.teaching_style || [],
-          personalityTraits: teacher.personality_traits || [],
-        };
-
-        teacherProfiles.push(profile);
+        teacherProfiles.push(await this.buildTeacherProfile(teacher));
       }
 
       return teacherProfiles;
@@ -262,16 +267,77 @@ export class OneOnOneBookingService {
   }
 
   /**
-   * Score teachers based on matching criteria
+   * Profiles of specific active teachers, whether or not they take 1v1
+   * bookings (e.g. substitutes for a group class)
+   */
+  public async getTeacherProfiles(teacherIds: string[]): Promise<TeacherProfileForBooking[]> {
+    if (teacherIds.length === 0) return [];
+
+    try {
+      const { data: teachers, error } = await supabase
+        .from('teachers')
+        .select('*')
+        .in('id', teacherIds)
+        .eq('is_active', true);
+
+      if (error) throw error;
+
+      const teacherProfiles: TeacherProfileForBooking[] = [];
+      for (const teacher of teachers || []) {
+        teacherProfiles.push(await this.buildTeacherProfile(teacher));
+      }
+      return teacherProfiles;
+    } catch (error) {
+      logger.error('Error getting teacher profiles:', error);
+      return [];
+    }
+  }
+
+  private async buildTeacherProfile(teacher: any): Promise<TeacherProfileForBooking> {
+    // Get teacher availability
+    const availability = await this.getTeacherAvailability(teacher.id);
+
+    // Get teacher ratings and reviews
+    const ratings = await this.getTeacherRatings(teacher.id);
+
+    return {
+      id: teacher.id,
+      fullName: teacher.full_name || 'Unknown Teacher',
+      profilePhotoUrl: teacher.profile_photo_url,
+      bio: teacher.bio || '',
+      experienceYears: teacher.experience_years || 0,
+      specializations: teacher.specializations || [],
+      certifications: teacher.certifications || [],
+      languagesSpoken: teacher.languages_spoken || ['English'],
+      ratings,
+      availabilitySummary: {
+        nextAvailableSlot: availability.availableSlots[0],
+        availableThisWeek: this.countSlotsThisWeek(availability.availableSlots),
+        availableNextWeek: this.countSlotsNextWeek(availability.availableSlots),
+      },
+      pricing: {
+        rate30Min: teacher.rate_30min || 50,
+        rate60Min: teacher.rate_60min || 90,
+        currency: 'USD',
+      },
+      teachingStyle: teacher.teaching_style || [],
+      personalityTraits: teacher.personality_traits || [],
+    };
+  }
+
+  /**
+   * Score teachers based on matching criteria. Lower the advance notice to
+   * score against slots starting sooner, e.g. when covering a session today.
    */
-  private async scoreTeachers(
+  public async scoreTeachers(
     teachers: TeacherProfileForBooking[],
-    criteria: OneOnOneAutoMatchingCriteria
+    criteria: OneOnOneAutoMatchingCriteria,
+    minimumAdvanceHours: number = 24
   ): Promise<TeacherMatchingScore[]> {
     const scores: TeacherMatchingScore[] = [];
 
     for (const teacher of teachers) {
-      const availability = await this.getTeacherAvailability(teacher.id);
+      const availability = await this.getTeacherAvailability(teacher.id, minimumAdvanceHours);
       
       // Calculate individual scores
       const availabilityScore = this.calculateAvailabilityScore(
@@ -417,68 +483,88 @@ export class OneOnOneBookingService {
 
   /**
    * Get teacher availability
+   *
+   * Weekly availability is kept as wall-clock times in the teacher's zone and
+   * expanded date by date, so slots keep their local time across DST changes.
    */
-  private async getTeacherAvailability(teacherId: string): Promise<TeacherAvailability> {
-    // This would integrate with teacher availability system
-    // For now, return mock data
-    const mockSlots: TimeSlot[] = [];
-    
-    // Generate some sample availability
-    const today = new Date();
-    for (let i = 1; i <= 14; i++) { // Next 2 weeks
-      const date = new Date(today);
-      date.setDate(today.getDate() + i);
-      
-      // Skip weekends
-      if (date.getDay() === 0 || date.getDay() === 6) continue;
-      
-      // Add morning and afternoon slots
-      const morningSlot: TimeSlot = {
-        id: `slot-${teacherId}-${i}-morning`,
-        startTime: '09:00',
-        endTime: '10:00',
-        duration: 60,
-        dayOfWeek: date.getDay(),
-        isAvailable: Math.random() > 0.3, // 70% availability
-        capacity: {
-          maxStudents: 1,
-          minStudents: 1,
-          currentEnrollment: 0,
-          availableSpots: 1,
-        },
-        location: 'Online',
-      };
-
-      const afternoonSlot: TimeSlot = {
-        id: `slot-${teacherId}-${i}-afternoon`,
-        startTime: '14:00',
-        endTime: '15:00',
-        duration: 60,
-        dayOfWeek: date.getDay(),
-        isAvailable: Math.random() > 0.4, // 60% availability
-        capacity: {
-          maxStudents: 1,
-          minStudents: 1,
-          currentEnrollment: 0,
-          availableSpots: 1,
-        },
-        location: 'Online',
-      };
+  public async getTeacherAvailability(teacherId: string, minimumAdvanceHours: number = 24): Promise<TeacherAvailability> {
+    const { data: teacher } = await supabase
+      .from('teachers')
+      .select('timezone, availability')
+      .eq('id', teacherId)
+      .single();
+
+    const weekly: WeeklyAvailabilityEntry[] = Array.isArray(teacher?.availability) && teacher.availability.length > 0
+      ? teacher.availability
+      : DEFAULT_WEEKLY_AVAILABILITY;
+    const timeZone = resolveTimeZone(teacher?.timezone, weekly[0]?.timezone);
+    const recurringPatterns = this.toRecurringPatterns(teacherId, weekly, timeZone);
+    const advanceBookingPreferences = {
+      minimumAdvanceHours,
+      maximumAdvanceDays: 30,
+      preferredAdvanceHours: 48,
+    };
 
-      mockSlots.push(morningSlot, afternoonSlot);
-    }
+    const now = new Date();
+    const earliestStart = now.getTime() + advanceBookingPreferences.minimumAdvanceHours * 60 * 60 * 1000;
+    const today = getZonedParts(now, timeZone).date;
+    const closures = await closureCalendarService.getActiveClosures(today, addDaysToDate(today, AVAILABILITY_WINDOW_DAYS + 1));
+    const availableSlots = recurringPatterns
+      .flatMap(pattern => {
+        try {
+          return expandRecurringPattern(
+            pattern,
+            today,
+            addDaysToDate(today, AVAILABILITY_WINDOW_DAYS)
+          );
+        } catch (error) {
+          // A malformed rule only drops that window, not the teacher
+          logger.warn(`Skipping availability pattern ${pattern.id}: ${error}`);
+          return [];
+        }
+      })
+      .filter(slot => new Date(slot.startTime).getTime() >= earliestStart)
+      .filter(slot => !findClosure(closures, slot.startTime, slot.endTime, 'Online'))
+      .map(slot => ({ ...slot, id: `slot-${teacherId}-${slot.id}`, location: 'Online' }))
+      .sort((a, b) => a.startTime.localeCompare(b.startTime));
 
     return {
       teacherId,
-      availableSlots: mockSlots.filter(slot => slot.isAvailable),
-      advanceBookingPreferences: {
-        minimumAdvanceHours: 24,
-        maximumAdvanceDays: 30,
-        preferredAdvanceHours: 48,
-      },
+      timeZone,
+      availableSlots,
+      recurringPatterns,
+      advanceBookingPreferences,
     };
   }
 
+  private toRecurringPatterns(
+    teacherId: string,
+    weekly: WeeklyAvailabilityEntry[],
+    timeZone: string
+  ): RecurringAvailabilityPattern[] {
+    return weekly
+      .filter(entry => entry.is_available !== false)
+      .map((entry, index) => {
+        const [startHour, startMinute] = entry.start_time.split(':').map(Number);
+        const [endHour, endMinute] = entry.end_time.split(':').map(Number);
+        return {
+          id: `${teacherId}-${index}`,
+          daysOfWeek: [entry.day_of_week],
+          startTime: entry.start_time.slice(0, 5),
+          endTime: entry.end_time.slice(0, 5),
+          timeZone: resolveTimeZone(entry.timezone, timeZone),
+          patternType: entry.rrule ? 'custom' as const : 'weekly' as const,
+          rrule: entry.rrule,
+          exceptionDates: entry.exception_dates,
+          additionalDates: entry.additional_dates,
+          duration: (endHour * 60 + endMinute) - (startHour * 60 + startMinute),
+          isActive: true,
+          effectiveFrom: entry.effective_from || '2000-01-01',
+          effectiveUntil: entry.effective_until,
+        };
+      });
+  }
+
   /**
    * Get teacher ratings and reviews
    */
@@ -723,7 +809,7 @@ export class OneOnOneBookingService {
     endOfWeek.setDate(today.getDate() + (7 - today.getDay()));
     
     return slots.filter(slot => {
-      const slotDate = new Date(slot.startTime);
+      const slotDate = getSlotStart(slot, today);
       return slotDate <= endOfWeek;
     }).length;
   }
@@ -736,14 +822,16 @@ export class OneOnOneBookingService {
     endOfNextWeek.setDate(startOfNextWeek.getDate() + 6);
     
     return slots.filter(slot => {
-      const slotDate = new Date(slot.startTime);
+      const slotDate = getSlotStart(slot, today);
       return slotDate >= startOfNextWeek && slotDate <= endOfNextWeek;
     }).length;
   }
 
   private slotsOverlap(slot1: TimeSlot, slot2: TimeSlot): boolean {
-    // Simple overlap check - would be more sophisticated in real implementation
-    return slot1.startTime === slot2.startTime && slot1.dayOfWeek === slot2.dayOfWeek;
+    // Compare actual instants so slots given in different zones still match
+    const start1 = getSlotStart(slot1).getTime();
+    const start2 = getSlotStart(slot2).getTime();
+    return start1 < start2 + slot2.duration * 60 * 1000 && start2 < start1 + slot1.duration * 60 * 1000;
   }
 
   private findBestTimeSlot(available: TimeSlot[], preferred: TimeSlot[]): TimeSlot | null {
@@ -815,26 +903,26 @@ export class OneOnOneBookingService {
 
   private calculateLatestBookingTime(slot: TimeSlot): string {
     // 24 hours before session
-    const slotTime = new Date(slot.startTime);
-    slotTime.setHours(slotTime.getHours() - 24);
-    return slotTime.toISOString();
+    const slotTime = getSlotStart(slot);
+    return new Date(slotTime.getTime() - 24 * 60 * 60 * 1000).toISOString();
   }
 
   private generateAlternativeTimeSlots(request: OneOnOneBookingRequest): TimeSlot[] {
-    // Generate some alternative time slots based on request
+    // Offer 10:00 in the student's own zone on each of the next 7 days
     const alternatives: TimeSlot[] = [];
-    const baseDate = new Date();
+    const timeZone = resolveTimeZone(request.timeZone);
+    const today = getZonedParts(new Date(), timeZone).date;
     
     for (let i = 1; i <= 7; i++) {
-      const date = new Date(baseDate);
-      date.setDate(baseDate.getDate() + i);
+      const date = addDaysToDate(today, i);
+      const start = zonedTimeToUtc(date, '10:00', timeZone);
       
       const slot: TimeSlot = {
         id: `alt-slot-${i}`,
-        startTime: '10:00',
-        endTime: '11:00',
-        duration: 60,
-        dayOfWeek: date.getDay(),
+        startTime: start.toISOString(),
+        endTime: new Date(start.getTime() + request.duration * 60 * 1000).toISOString(),
+        duration: request.duration,
+        dayOfWeek: getZonedParts(start, timeZone).dayOfWeek,
         isAvailable: true,
         capacity: {
           maxStudents: 1,
@@ -843,6 +931,7 @@ export class OneOnOneBookingService {
           availableSpots: 1,
         },
         location: 'Online',
+        timeZone,
       };
       
       alternatives.push(slot);
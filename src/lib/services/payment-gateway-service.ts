@@ -0,0 +1,345 @@
+/**
+ * Payment Gateway Service
+ *
+ * Provider abstraction used for hour purchases. Every provider implements
+ * authorize, capture, refund and status lookup so `purchaseHours` does not
+ * depend on a specific gateway. The sandbox provider is deterministic and
+ * keeps its payments in `sandbox_payments` for local development.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import type {
+  PaymentAuthorizationRequest,
+  PaymentMethod,
+  PaymentProviderName,
+  PaymentProviderResult,
+  PaymentStatus,
+  PaymentWebhookEvent,
+  PaymentWebhookEventType
+} from '@/types/hours';
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  authorize(request: PaymentAuthorizationRequest): Promise<PaymentProviderResult>;
+  capture(reference: string, amount?: number): Promise<PaymentProviderResult>;
+  refund(reference: string, amount?: number, reason?: string): Promise<PaymentProviderResult>;
+  getStatus(reference: string): Promise<PaymentProviderResult>;
+}
+
+/**
+ * Tokens understood by the sandbox provider (passed as `paymentDetails.sandboxToken`)
+ */
+export const SANDBOX_PAYMENT_TOKENS = {
+  APPROVE: 'tok_approve',
+  DECLINE: 'tok_decline',
+  INSUFFICIENT_FUNDS: 'tok_insufficient_funds',
+  ASYNC: 'tok_async'
+} as const;
+
+// Methods that settle outside the checkout flow and complete through a webhook
+const ASYNC_PAYMENT_METHODS: PaymentMethod[] = ['bank_transfer', 'corporate_invoice', 'cash'];
+
+// Allowed payment status transitions for hour purchases
+const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['processing', 'completed', 'failed', 'cancelled'],
+  processing: ['completed', 'failed', 'cancelled'],
+  completed: ['refunded'],
+  failed: [],
+  refunded: [],
+  cancelled: []
+};
+
+export const WEBHOOK_EVENT_STATUS: Record<PaymentWebhookEventType, PaymentStatus> = {
+  'payment.processing': 'processing',
+  'payment.captured': 'completed',
+  'payment.failed': 'failed',
+  'payment.refunded': 'refunded'
+};
+
+/**
+ * Check whether a purchase may move from one payment status to another
+ */
+export function canTransitionPaymentStatus(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+interface SandboxPayment {
+  reference: string;
+  purchaseId: string;
+  studentId: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  async: boolean;
+  amountRefunded: number;
+}
+
+/**
+ * Deterministic sandbox provider.
+ *
+ * Outcomes depend only on the request: `tok_decline` and
+ * `tok_insufficient_funds` fail authorization, `tok_async` and offline
+ * payment methods stay in processing until `settle` is called, and
+ * everything else is approved. References are derived from the purchase ID,
+ * and payments are stored so refunds and lookups work after a restart.
+ */
+export class SandboxPaymentProvider implements PaymentProvider {
+  readonly name: PaymentProviderName = 'sandbox';
+  private supabase;
+
+  constructor(client: any = defaultClient) {
+    this.supabase = client;
+  }
+
+  async authorize(request: PaymentAuthorizationRequest): Promise<PaymentProviderResult> {
+    const reference = `sbx_${request.purchaseId}`;
+    const token = request.paymentDetails?.sandboxToken;
+
+    if (token === SANDBOX_PAYMENT_TOKENS.DECLINE || token === SANDBOX_PAYMENT_TOKENS.INSUFFICIENT_FUNDS) {
+      const failureCode = token === SANDBOX_PAYMENT_TOKENS.DECLINE ? 'card_declined' : 'insufficient_funds';
+      const declined: SandboxPayment = {
+        reference,
+        purchaseId: request.purchaseId,
+        studentId: request.studentId,
+        amount: request.amount,
+        currency: request.currency,
+        status: 'failed',
+        async: false,
+        amountRefunded: 0
+      };
+      await this.save(declined);
+      return this.toResult(declined, {
+        success: false,
+        failureCode,
+        failureMessage: failureCode === 'card_declined' ? 'The card was declined' : 'Insufficient funds'
+      });
+    }
+
+    if (request.amount <= 0) {
+      return {
+        success: false,
+        status: 'failed',
+        reference,
+        amount: request.amount,
+        currency: request.currency,
+        failureCode: 'invalid_amount',
+        failureMessage: 'Amount must be greater than zero'
+      };
+    }
+
+    const payment: SandboxPayment = {
+      reference,
+      purchaseId: request.purchaseId,
+      studentId: request.studentId,
+      amount: request.amount,
+      currency: request.currency,
+      status: 'processing',
+      async: token === SANDBOX_PAYMENT_TOKENS.ASYNC || ASYNC_PAYMENT_METHODS.includes(request.paymentMethod),
+      amountRefunded: 0
+    };
+    await this.save(payment);
+
+    return this.toResult(payment);
+  }
+
+  async capture(reference: string, amount?: number): Promise<PaymentProviderResult> {
+    const payment = await this.load(reference);
+    if (!payment) {
+      return this.notFound(reference);
+    }
+
+    if (payment.status !== 'processing') {
+      return this.toResult(payment, {
+        success: false,
+        failureCode: 'invalid_state',
+        failureMessage: `Cannot capture a payment in ${payment.status} state`
+      });
+    }
+
+    if (amount !== undefined && amount > payment.amount) {
+      return this.toResult(payment, {
+        success: false,
+        failureCode: 'amount_exceeds_authorization',
+        failureMessage: 'Capture amount exceeds the authorized amount'
+      });
+    }
+
+    if (!payment.async) {
+      payment.amount = amount ?? payment.amount;
+      payment.status = 'completed';
+      await this.save(payment);
+    }
+
+    return this.toResult(payment);
+  }
+
+  async refund(reference: string, amount?: number, reason?: string): Promise<PaymentProviderResult> {
+    const payment = await this.load(reference);
+    if (!payment) {
+      return this.notFound(reference);
+    }
+
+    if (payment.status !== 'completed') {
+      return this.toResult(payment, {
+        success: false,
+        failureCode: 'invalid_state',
+        failureMessage: `Cannot refund a payment in ${payment.status} state`
+      });
+    }
+
+    const refundAmount = amount ?? payment.amount - payment.amountRefunded;
+    if (refundAmount <= 0 || payment.amountRefunded + refundAmount > payment.amount) {
+      return this.toResult(payment, {
+        success: false,
+        failureCode: 'invalid_amount',
+        failureMessage: 'Refund amount exceeds the captured amount'
+      });
+    }
+
+    payment.amountRefunded += refundAmount;
+    if (payment.amountRefunded >= payment.amount) {
+      payment.status = 'refunded';
+    }
+    await this.save(payment);
+
+    const result = this.toResult(payment);
+    return {
+      ...result,
+      amount: refundAmount,
+      raw: { ...result.raw, reason }
+    };
+  }
+
+  async getStatus(reference: string): Promise<PaymentProviderResult> {
+    const payment = await this.load(reference);
+    return payment ? this.toResult(payment) : this.notFound(reference);
+  }
+
+  /**
+   * Settle an asynchronous payment and build the callback the gateway would send
+   */
+  async settle(reference: string, outcome: 'captured' | 'failed' = 'captured'): Promise<PaymentWebhookEvent | null> {
+    const payment = await this.load(reference);
+    if (!payment || payment.status !== 'processing') return null;
+
+    payment.status = outcome === 'captured' ? 'completed' : 'failed';
+    await this.save(payment);
+
+    return {
+      id: `evt_${reference}_${outcome}`,
+      type: outcome === 'captured' ? 'payment.captured' : 'payment.failed',
+      provider: this.name,
+      createdAt: new Date().toISOString(),
+      data: {
+        purchaseId: payment.purchaseId,
+        reference,
+        amount: payment.amount,
+        currency: payment.currency,
+        ...(outcome === 'failed' && {
+          failureCode: 'settlement_failed',
+          failureMessage: 'The payment could not be settled'
+        })
+      }
+    };
+  }
+
+  private async load(reference: string): Promise<SandboxPayment | null> {
+    const { data, error } = await this.supabase
+      .from('sandbox_payments')
+      .select('*')
+      .eq('reference', reference)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      reference: data.reference,
+      purchaseId: data.purchase_id,
+      studentId: data.student_id,
+      amount: Number(data.amount),
+      currency: data.currency,
+      status: data.status,
+      async: data.is_async,
+      amountRefunded: Number(data.amount_refunded)
+    };
+  }
+
+  private async save(payment: SandboxPayment): Promise<void> {
+    const { error } = await this.supabase
+      .from('sandbox_payments')
+      .upsert({
+        reference: payment.reference,
+        purchase_id: payment.purchaseId,
+        student_id: payment.studentId,
+        amount: payment.amount,
+        currency: payment.currency,
+        status: payment.status,
+        is_async: payment.async,
+        amount_refunded: payment.amountRefunded
+      }, { onConflict: 'reference' });
+
+    if (error) throw error;
+  }
+
+  private toResult(payment: SandboxPayment, overrides?: Partial<PaymentProviderResult>): PaymentProviderResult {
+    return {
+      success: payment.status !== 'failed',
+      status: payment.status,
+      reference: payment.reference,
+      amount: payment.amount,
+      currency: payment.currency,
+      raw: {
+        provider: this.name,
+        amountRefunded: payment.amountRefunded,
+        async: payment.async
+      },
+      ...overrides
+    };
+  }
+
+  private notFound(reference: string): PaymentProviderResult {
+    return {
+      success: false,
+      status: 'failed',
+      reference,
+      amount: 0,
+      currency: 'USD',
+      failureCode: 'payment_not_found',
+      failureMessage: `No payment found for reference ${reference}`
+    };
+  }
+}
+
+const providerFactories: Partial<Record<PaymentProviderName, () => PaymentProvider>> = {
+  sandbox: () => new SandboxPaymentProvider()
+};
+
+const providerInstances = new Map<PaymentProviderName, PaymentProvider>();
+
+/**
+ * Register a provider implementation (e.g. a Stripe adapter)
+ */
+export function registerPaymentProvider(name: PaymentProviderName, factory: () => PaymentProvider): void {
+  providerFactories[name] = factory;
+  providerInstances.delete(name);
+}
+
+/**
+ * Resolve the configured payment provider, defaulting to the sandbox
+ */
+export function getPaymentProvider(
+  name: PaymentProviderName = (process.env.PAYMENT_PROVIDER as PaymentProviderName) || 'sandbox'
+): PaymentProvider {
+  const existing = providerInstances.get(name);
+  if (existing) return existing;
+
+  const factory = providerFactories[name];
+  if (!factory) {
+    throw new Error(`Payment provider "${name}" is not registered`);
+  }
+
+  const provider = factory();
+  providerInstances.set(name, provider);
+  return provider;
+}
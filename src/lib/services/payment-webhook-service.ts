@@ -0,0 +1,147 @@
+/**
+ * Payment Webhook Service
+ *
+ * Verifies signed payment provider callbacks and applies them to
+ * `hour_purchases`. The `apply_payment_webhook_event` RPC changes the
+ * purchase, records its hour transaction and logs the event in one
+ * transaction, so a redelivered event is never applied twice. Billing
+ * documents and subscription charges taken asynchronously are settled from
+ * the logged event afterwards and retried on redelivery until they succeed.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import type { PaymentStatus, PaymentWebhookEvent } from '@/types/hours';
+import { BillingDocumentService } from './billing-document-service';
+import { sendPurchaseConfirmation } from './billing-notification-service';
+import { HourSubscriptionService } from './hour-subscription-service';
+
+export const PAYMENT_SIGNATURE_HEADER = 'x-payment-signature';
+
+// Reject callbacks signed more than five minutes ago to limit replays
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface PaymentWebhookResult {
+  eventId: string;
+  duplicate: boolean;
+  applied: boolean;
+  paymentStatus?: PaymentStatus;
+  reason?: string;
+}
+
+function computeSignature(payload: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+}
+
+/**
+ * Build the signature header value for a payload (`t=<unix>,v1=<hex>`)
+ */
+export function signPaymentPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+}
+
+/**
+ * Verify a signature header against the raw request body
+ */
+export function verifyPaymentSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  if (!header) return false;
+
+  const parts = Object.fromEntries(
+    header.split(',').map(part => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')];
+    })
+  );
+
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp)) return false;
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(computeSignature(payload, secret, timestamp), 'hex');
+  const received = Buffer.from(parts.v1, 'hex');
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export class PaymentWebhookService {
+  private supabase;
+  private billingDocuments: BillingDocumentService;
+  private subscriptions: HourSubscriptionService;
+
+  constructor(client: any = defaultClient) {
+    this.supabase = client;
+    this.billingDocuments = new BillingDocumentService(client);
+    this.subscriptions = new HourSubscriptionService(client);
+  }
+
+  /**
+   * Apply a verified provider event to its hour purchase
+   */
+  async handleEvent(event: PaymentWebhookEvent): Promise<PaymentWebhookResult> {
+    const { data: recorded, error } = await this.supabase.rpc('apply_payment_webhook_event', {
+      p_event: event
+    });
+
+    if (error) throw error;
+
+    if (recorded.applied && !recorded.follow_up_completed_at) {
+      // Throws when a document cannot be issued, so the provider redelivers
+      // the event and the follow-up runs again from the recorded event
+      await this.runFollowUp(recorded);
+    }
+
+    if (recorded.applied && !recorded.duplicate) {
+      logger.info(`Payment webhook ${event.id} moved purchase ${recorded.purchase_id} to ${recorded.payment_status}`);
+    }
+
+    return {
+      eventId: event.id,
+      duplicate: recorded.duplicate,
+      applied: recorded.duplicate ? false : recorded.applied,
+      paymentStatus: recorded.payment_status,
+      reason: recorded.result_reason ?? undefined
+    };
+  }
+
+  /**
+   * Issue the billing documents for an applied event and mark it done
+   */
+  private async runFollowUp(recorded: any): Promise<void> {
+    if (recorded.payment_status === 'completed') {
+      await sendPurchaseConfirmation(recorded.purchase_id, this.billingDocuments);
+    } else if (recorded.payment_status === 'refunded' && recorded.transaction_id) {
+      const creditNote = await this.billingDocuments.createCreditNoteForRefund(recorded.transaction_id);
+      if (!creditNote.success) throw new Error(creditNote.error?.message);
+    } else if (recorded.payment_status === 'failed' || recorded.payment_status === 'cancelled') {
+      // A deferred payment may already have an invoice out for it
+      const creditNote = await this.billingDocuments.creditCancelledPurchase(recorded.purchase_id);
+      if (!creditNote.success) throw new Error(creditNote.error?.message);
+    }
+
+    // Subscription and top-up charges the provider accepted as processing
+    const settled = await this.subscriptions.settleProcessingCharge(recorded.purchase_id, recorded.payment_status, {
+      failureCode: recorded.payload?.data?.failureCode,
+      failureMessage: recorded.payload?.data?.failureMessage
+    });
+    if (!settled.success) throw new Error(settled.error?.message);
+
+    const { error } = await this.supabase
+      .from('payment_webhook_events')
+      .update({ follow_up_completed_at: new Date().toISOString() })
+      .eq('event_id', recorded.event_id);
+
+    if (error) {
+      logger.error(`Failed to mark payment webhook ${recorded.event_id} followed up:`, error);
+    }
+  }
+}
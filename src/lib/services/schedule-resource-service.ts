@@ -0,0 +1,387 @@
+/**
+ * Schedule Resource Service
+ *
+ * Registry of rooms and virtual meeting accounts, and allocation of them to
+ * classes. A resource can be held by one class at a time; the database
+ * enforces this with an exclusion constraint and the scheduler picks only
+ * free resources. Virtual allocations get a join link from the meeting
+ * provider configured for the account.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import { getMeetingProvider, type MeetingProvider } from './meeting-provider';
+import type { HourApiResponse } from '@/types/hours';
+import type {
+  AllocateResourceRequest,
+  CreateResourceRequest,
+  ResourceAllocation,
+  ResourceRequirements,
+  ResourceUtilization,
+  ScheduleResource
+} from '@/types/resources';
+
+// Opening hours per day used as the utilisation baseline (09:00-18:00)
+const DEFAULT_OPEN_HOURS_PER_DAY = 9;
+
+const MINUTE_MS = 60 * 1000;
+
+type AllocationWindow = Pick<ResourceAllocation, 'resourceId' | 'startTime' | 'endTime'>;
+
+/**
+ * Whether a resource can host a class with these requirements, ignoring
+ * other bookings
+ */
+export function resourceMeetsRequirements(
+  resource: ScheduleResource,
+  requirements: ResourceRequirements,
+  seats: number = requirements.minCapacity || 1
+): boolean {
+  if (!resource.isActive) return false;
+  if (resource.kind !== (requirements.deliveryMode === 'virtual' ? 'virtual' : 'room')) return false;
+  if (resource.capacity < seats) return false;
+  if (requirements.location && resource.kind === 'room' && resource.location !== requirements.location) return false;
+
+  return (requirements.equipment || []).every(item => resource.equipment.includes(item));
+}
+
+/**
+ * Whether a resource has no allocation overlapping a time range
+ */
+export function isResourceFree(
+  resourceId: string,
+  startTime: string,
+  endTime: string,
+  allocations: AllocationWindow[]
+): boolean {
+  const start = new Date(startTime).getTime();
+  const end = new Date(endTime).getTime();
+
+  return !allocations.some(allocation =>
+    allocation.resourceId === resourceId &&
+    new Date(allocation.startTime).getTime() < end &&
+    new Date(allocation.endTime).getTime() > start
+  );
+}
+
+/**
+ * The smallest free resource that meets the requirements, so large rooms
+ * stay available for large classes. Returns null when none is free.
+ */
+export function selectResource(
+  resources: ScheduleResource[],
+  allocations: AllocationWindow[],
+  requirements: ResourceRequirements,
+  startTime: string,
+  endTime: string,
+  seats?: number
+): ScheduleResource | null {
+  const candidates = resources
+    .filter(resource => resourceMeetsRequirements(resource, requirements, seats))
+    .filter(resource => isResourceFree(resource.id, startTime, endTime, allocations))
+    .sort((a, b) => a.capacity - b.capacity || a.name.localeCompare(b.name));
+
+  return candidates[0] || null;
+}
+
+/**
+ * Sessions and held minutes per resource within [from, to)
+ */
+export function summarizeResourceUtilization(
+  resources: ScheduleResource[],
+  allocations: AllocationWindow[],
+  from: string,
+  to: string,
+  openHoursPerDay: number = DEFAULT_OPEN_HOURS_PER_DAY
+): ResourceUtilization[] {
+  const rangeStart = new Date(from).getTime();
+  const rangeEnd = new Date(to).getTime();
+  const days = Math.max(1, Math.ceil((rangeEnd - rangeStart) / (24 * 60 * MINUTE_MS)));
+  const openMinutes = days * openHoursPerDay * 60;
+
+  return resources.map(resource => {
+    const held = allocations.filter(allocation => allocation.resourceId === resource.id);
+    const bookedMinutes = held.reduce((sum, allocation) => {
+      const start = Math.max(rangeStart, new Date(allocation.startTime).getTime());
+      const end = Math.min(rangeEnd, new Date(allocation.endTime).getTime());
+      return sum + Math.max(0, (end - start) / MINUTE_MS);
+    }, 0);
+
+    return {
+      resourceId: resource.id,
+      name: resource.name,
+      kind: resource.kind,
+      sessions: held.length,
+      bookedMinutes: Math.round(bookedMinutes),
+      utilizationRate: openMinutes > 0 ? Math.min(100, Math.round((bookedMinutes / openMinutes) * 100)) : 0
+    };
+  });
+}
+
+function resourceError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class ScheduleResourceService {
+  private supabase;
+  private meetingProviders;
+
+  constructor(client: any = defaultClient, meetingProviders: typeof getMeetingProvider = getMeetingProvider) {
+    this.supabase = client;
+    this.meetingProviders = meetingProviders;
+  }
+
+  async listResources(includeInactive: boolean = false): Promise<HourApiResponse<ScheduleResource[]>> {
+    try {
+      let query = this.supabase
+        .from('schedule_resources')
+        .select('*')
+        .order('kind', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (!includeInactive) {
+        query = query.eq('is_active', true);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((row: any) => this.transformResource(row)) };
+    } catch (error) {
+      return resourceError('FETCH_RESOURCES_ERROR', 'Failed to fetch resources', error);
+    }
+  }
+
+  async createResource(request: CreateResourceRequest): Promise<HourApiResponse<ScheduleResource>> {
+    if (!request.name?.trim()) return resourceError('INVALID_RESOURCE', 'Resource name is required');
+    if (!(request.capacity > 0)) return resourceError('INVALID_RESOURCE', 'Capacity must be at least 1');
+    if (request.kind === 'virtual' && !request.provider) {
+      return resourceError('INVALID_RESOURCE', 'Virtual meeting accounts need a provider');
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('schedule_resources')
+        .insert({
+          name: request.name.trim(),
+          kind: request.kind,
+          capacity: request.capacity,
+          equipment: request.equipment || [],
+          location: request.kind === 'room' ? request.location || null : null,
+          provider: request.kind === 'virtual' ? request.provider : null,
+          account_email: request.kind === 'virtual' ? request.accountEmail || null : null,
+          notes: request.notes || null
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformResource(data) };
+    } catch (error) {
+      return resourceError('CREATE_RESOURCE_ERROR', 'Failed to create resource', error);
+    }
+  }
+
+  async setResourceActive(resourceId: string, isActive: boolean): Promise<HourApiResponse<ScheduleResource>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('schedule_resources')
+        .update({ is_active: isActive })
+        .eq('id', resourceId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformResource(data) };
+    } catch (error) {
+      return resourceError('UPDATE_RESOURCE_ERROR', 'Failed to update resource', error);
+    }
+  }
+
+  /**
+   * Active allocations overlapping [from, to)
+   */
+  async getAllocations(from: string, to: string): Promise<HourApiResponse<ResourceAllocation[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('resource_allocations')
+        .select('*')
+        .eq('status', 'active')
+        .lt('start_time', to)
+        .gt('end_time', from)
+        .order('start_time', { ascending: true });
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((row: any) => this.transformAllocation(row)) };
+    } catch (error) {
+      return resourceError('FETCH_ALLOCATIONS_ERROR', 'Failed to fetch resource allocations', error);
+    }
+  }
+
+  /**
+   * Hold a resource for a class or booking. Picks the smallest free
+   * resource unless one is given, and generates a join link for virtual
+   * sessions, which is also saved on the class.
+   */
+  async allocateResource(request: AllocateResourceRequest): Promise<HourApiResponse<ResourceAllocation>> {
+    try {
+      const [resources, allocations] = await Promise.all([
+        this.listResources(),
+        this.getAllocations(request.startTime, request.endTime)
+      ]);
+      if (!resources.success || !resources.data) return resources as HourApiResponse<any>;
+      if (!allocations.success || !allocations.data) return allocations as HourApiResponse<any>;
+
+      const candidates = request.resourceId
+        ? resources.data.filter(resource => resource.id === request.resourceId)
+        : resources.data;
+      const resource = selectResource(candidates, allocations.data, request.requirements, request.startTime, request.endTime);
+
+      if (!resource) {
+        return resourceError(
+          'RESOURCE_UNAVAILABLE',
+          request.resourceId
+            ? 'The selected resource is not suitable or already booked at this time'
+            : 'No suitable room or meeting account is free at this time'
+        );
+      }
+
+      let provider: MeetingProvider | null = null;
+      if (resource.kind === 'virtual') {
+        try {
+          provider = this.meetingProviders(resource.provider);
+        } catch (error) {
+          return resourceError(
+            'MEETING_PROVIDER_UNAVAILABLE',
+            `${resource.name} uses ${resource.provider}, which is not set up to generate meeting links`,
+            error
+          );
+        }
+      }
+
+      const meeting = provider
+        ? await provider.createMeeting({
+            resource,
+            title: request.title || 'HeyPeter Academy class',
+            startTime: request.startTime,
+            endTime: request.endTime
+          })
+        : null;
+
+      const { data, error } = await this.supabase
+        .from('resource_allocations')
+        .insert({
+          resource_id: resource.id,
+          class_id: request.classId || null,
+          booking_id: request.bookingId || null,
+          start_time: request.startTime,
+          end_time: request.endTime,
+          meeting_id: meeting?.meetingId || null,
+          join_url: meeting?.joinUrl || null,
+          host_url: meeting?.hostUrl || null
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (meeting) await provider!.cancelMeeting(meeting.meetingId);
+        // Exclusion constraint: another request took the resource first
+        if (error.code === '23P01') {
+          return resourceError('RESOURCE_UNAVAILABLE', `${resource.name} was booked by another class at this time`);
+        }
+        throw error;
+      }
+
+      if (request.classId) {
+        await this.supabase
+          .from('classes')
+          .update({
+            resource_id: resource.id,
+            location: resource.kind === 'room' ? resource.name : null,
+            meeting_link: meeting?.joinUrl || null
+          })
+          .eq('id', request.classId);
+      }
+
+      return { success: true, data: this.transformAllocation(data) };
+    } catch (error) {
+      logger.error('Failed to allocate resource:', error);
+      return resourceError('ALLOCATE_RESOURCE_ERROR', 'Failed to allocate a resource', error);
+    }
+  }
+
+  async releaseAllocation(allocationId: string): Promise<HourApiResponse<ResourceAllocation>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('resource_allocations')
+        .update({ status: 'released' })
+        .eq('id', allocationId)
+        .select('*, resource:schedule_resources(provider)')
+        .single();
+
+      if (error) throw error;
+
+      if (data.meeting_id) {
+        await this.meetingProviders(data.resource?.provider).cancelMeeting(data.meeting_id);
+      }
+
+      return { success: true, data: this.transformAllocation(data) };
+    } catch (error) {
+      return resourceError('RELEASE_ALLOCATION_ERROR', 'Failed to release resource allocation', error);
+    }
+  }
+
+  async getUtilization(
+    from: string,
+    to: string,
+    openHoursPerDay?: number
+  ): Promise<HourApiResponse<ResourceUtilization[]>> {
+    const [resources, allocations] = await Promise.all([
+      this.listResources(true),
+      this.getAllocations(from, to)
+    ]);
+    if (!resources.success || !resources.data) return resources as HourApiResponse<any>;
+    if (!allocations.success || !allocations.data) return allocations as HourApiResponse<any>;
+
+    return {
+      success: true,
+      data: summarizeResourceUtilization(resources.data, allocations.data, from, to, openHoursPerDay)
+    };
+  }
+
+  private transformResource(data: any): ScheduleResource {
+    return {
+      id: data.id,
+      name: data.name,
+      kind: data.kind,
+      capacity: data.capacity,
+      equipment: data.equipment || [],
+      location: data.location || undefined,
+      provider: data.provider || undefined,
+      accountEmail: data.account_email || undefined,
+      isActive: data.is_active,
+      notes: data.notes || undefined
+    };
+  }
+
+  private transformAllocation(data: any): ResourceAllocation {
+    return {
+      id: data.id,
+      resourceId: data.resource_id,
+      classId: data.class_id || undefined,
+      bookingId: data.booking_id || undefined,
+      startTime: data.start_time,
+      endTime: data.end_time,
+      status: data.status,
+      joinUrl: data.join_url || undefined,
+      hostUrl: data.host_url || undefined,
+      meetingId: data.meeting_id || undefined
+    };
+  }
+}
+
+// Export singleton instance
+export const scheduleResourceService = new ScheduleResourceService();
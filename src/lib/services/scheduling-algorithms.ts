@@ -23,6 +23,7 @@ import type {
   ClassCapacityConstraint,
   CourseType,
 } from '@/types/scheduling';
+import type { ResourceAllocation, ScheduleResource } from '@/types/resources';
 
 /**
  * Content-based scheduling algorithm
@@ -701,7 +702,10 @@ export class TeacherWorkloadBalancer {
  * Conflict detection and resolution algorithms
  */
 export class ConflictDetector {
-  constructor(private constraints: SchedulingConstraints) {}
+  constructor(
+    private constraints: SchedulingConstraints,
+    private resources: ScheduleResource[] = []
+  ) {}
 
   /**
    * Detect all types of scheduling conflicts
@@ -816,23 +820,28 @@ export class ConflictDetector {
   }
 
   /**
-   * Detect resource conflicts (rooms, equipment, etc.)
+   * Detect resource conflicts: a room or meeting account double-booked by
+   * the classes or already held by an existing allocation, or too small for
+   * the class. Classes without a resource are grouped by location.
    */
-  private detectResourceConflicts(scheduledClasses: ScheduledClass[]): SchedulingConflict[] {
+  detectResourceConflicts(
+    scheduledClasses: ScheduledClass[],
+    existingAllocations: Pick<ResourceAllocation, 'resourceId' | 'classId' | 'startTime' | 'endTime'>[] = []
+  ): SchedulingConflict[] {
     const conflicts: SchedulingConflict[] = [];
-    const locationSchedules = new Map<string, ScheduledClass[]>();
+    const resourceSchedules = new Map<string, ScheduledClass[]>();
 
-    // Group classes by location
+    // Group classes by resource, falling back to location
     for (const scheduledClass of scheduledClasses) {
-      const location = scheduledClass.timeSlot.location || 'default';
-      if (!locationSchedules.has(location)) {
-        locationSchedules.set(location, []);
+      const key = scheduledClass.timeSlot.resourceId || scheduledClass.timeSlot.location || 'default';
+      if (!resourceSchedules.has(key)) {
+        resourceSchedules.set(key, []);
       }
-      locationSchedules.get(location)!.push(scheduledClass);
+      resourceSchedules.get(key)!.push(scheduledClass);
     }
 
-    // Check for location conflicts
-    for (const [location, classes] of locationSchedules) {
+    // Check for double bookings within the schedule
+    for (const [key, classes] of resourceSchedules) {
       for (let i = 0; i < classes.length; i++) {
         for (let j = i + 1; j < classes.length; j++) {
           const class1 = classes[i];
@@ -840,11 +849,11 @@ export class ConflictDetector {
 
           if (this.timeSlotsOverlap(class1.timeSlot, class2.timeSlot)) {
             conflicts.push({
-              id: `resource-conflict-${location}-${i}-${j}`,
+              id: `resource-conflict-${key}-${i}-${j}`,
               type: 'resource_conflict',
               severity: 'medium',
               entityIds: [class1.id, class2.id],
-              description: `Location ${location} is double-booked`,
+              description: `${this.describeResource(key)} is double-booked`,
               resolutions: this.generateResourceConflictResolutions(class1, class2),
               detectedAt: new Date().toISOString(),
             });
@@ -853,13 +862,71 @@ export class ConflictDetector {
       }
     }
 
+    for (const scheduledClass of scheduledClasses) {
+      const resourceId = scheduledClass.timeSlot.resourceId;
+      if (!resourceId) continue;
+
+      // Check against resources already held outside this schedule
+      const taken = existingAllocations.find(allocation =>
+        allocation.resourceId === resourceId &&
+        allocation.classId !== scheduledClass.id &&
+        this.timeSlotsOverlap(scheduledClass.timeSlot, {
+          ...scheduledClass.timeSlot,
+          startTime: allocation.startTime,
+          endTime: allocation.endTime,
+        })
+      );
+
+      if (taken) {
+        conflicts.push({
+          id: `resource-conflict-${resourceId}-${scheduledClass.id}-booked`,
+          type: 'resource_conflict',
+          severity: 'high',
+          entityIds: taken.classId ? [scheduledClass.id, taken.classId] : [scheduledClass.id],
+          description: `${this.describeResource(resourceId)} is already booked at this time`,
+          resolutions: this.generateResourceConflictResolutions(scheduledClass, scheduledClass),
+          detectedAt: new Date().toISOString(),
+        });
+      }
+
+      const resource = this.resources.find(item => item.id === resourceId);
+      if (resource && scheduledClass.studentIds.length > resource.capacity) {
+        conflicts.push({
+          id: `resource-conflict-${resourceId}-${scheduledClass.id}-capacity`,
+          type: 'resource_conflict',
+          severity: 'high',
+          entityIds: [scheduledClass.id],
+          description: `${resource.name} holds ${resource.capacity} but class ${scheduledClass.id} has ${scheduledClass.studentIds.length} students`,
+          resolutions: this.generateResourceConflictResolutions(scheduledClass, scheduledClass),
+          detectedAt: new Date().toISOString(),
+        });
+      }
+    }
+
     return conflicts;
   }
 
+  /**
+   * Name a resource for conflict descriptions
+   */
+  private describeResource(key: string): string {
+    const resource = this.resources.find(item => item.id === key);
+    if (resource) {
+      return resource.kind === 'virtual' ? `Meeting account ${resource.name}` : `Room ${resource.name}`;
+    }
+    return `Location ${key}`;
+  }
+
   /**
    * Check if two time slots overlap
    */
   private timeSlotsOverlap(slot1: TimeSlot, slot2: TimeSlot): boolean {
+    // Slots with full timestamps are compared as instants
+    if (slot1.startTime.includes('T') && slot2.startTime.includes('T')) {
+      return new Date(slot1.startTime).getTime() < new Date(slot2.endTime).getTime() &&
+        new Date(slot2.startTime).getTime() < new Date(slot1.endTime).getTime();
+    }
+
     if (slot1.dayOfWeek !== slot2.dayOfWeek) return false;
 
     const start1 = this.timeToMinutes(slot1.startTime);
@@ -6,6 +6,16 @@ import {
   ScheduleChangeNotificationData,
   ConflictNotificationData 
 } from './email-notification-service';
+import { TIMEZONE_DEFAULT } from '@/lib/constants';
+import {
+  formatDateInTimeZone,
+  formatInTimeZone,
+  formatTimeInTimeZone,
+  resolveTimeZone
+} from '@/lib/utils/timezone';
+
+// Times in emails are rendered in the recipient's zone. A zone passed by the
+// caller (e.g. `studentTimeZone`) wins over the one stored on the profile.
 
 // Integration service for scheduling system and email notifications
 export class SchedulingEmailIntegration {
@@ -22,12 +32,14 @@ export class SchedulingEmailIntegration {
     location: string;
     isOnline: boolean;
     joinLink?: string;
+    studentTimeZone?: string;
   }): Promise<void> {
     try {
       // In a real implementation, these would fetch from the database
       const studentData = await this.fetchStudentData(bookingData.studentId);
       const teacherData = await this.fetchTeacherData(bookingData.teacherId);
       const courseData = await this.fetchCourseData(bookingData.courseId);
+      const timeZone = resolveTimeZone(bookingData.studentTimeZone, studentData.timeZone);
 
       const notificationData: BookingNotificationData = {
         bookingId: bookingData.bookingId,
@@ -37,11 +49,13 @@ export class SchedulingEmailIntegration {
         teacherId: bookingData.teacherId,
         teacherName: teacherData.name,
         courseName: courseData.name,
-        classDate: bookingData.classDateTime.toDateString(),
-        classTime: bookingData.classDateTime.toLocaleTimeString(),
+        classDate: formatDateInTimeZone(bookingData.classDateTime, timeZone),
+        classTime: formatTimeInTimeZone(bookingData.classDateTime, timeZone),
         location: bookingData.isOnline ? 'Online' : bookingData.location,
         joinLink: bookingData.joinLink,
-        duration: bookingData.duration
+        duration: bookingData.duration,
+        classStartTime: bookingData.classDateTime.toISOString(),
+        classEndTime: this.addMinutes(bookingData.classDateTime, bookingData.duration)
       };
 
       await this.notificationService.triggerNotification(
@@ -61,11 +75,14 @@ export class SchedulingEmailIntegration {
     courseId: string;
     classDateTime: Date;
     reason: string;
+    duration?: number;
+    studentTimeZone?: string;
   }): Promise<void> {
     try {
       const studentData = await this.fetchStudentData(bookingData.studentId);
       const teacherData = await this.fetchTeacherData(bookingData.teacherId);
       const courseData = await this.fetchCourseData(bookingData.courseId);
+      const timeZone = resolveTimeZone(bookingData.studentTimeZone, studentData.timeZone);
 
       const notificationData: BookingNotificationData = {
         bookingId: bookingData.bookingId,
@@ -75,10 +92,12 @@ export class SchedulingEmailIntegration {
         teacherId: bookingData.teacherId,
         teacherName: teacherData.name,
         courseName: courseData.name,
-        classDate: bookingData.classDateTime.toDateString(),
-        classTime: bookingData.classDateTime.toLocaleTimeString(),
+        classDate: formatDateInTimeZone(bookingData.classDateTime, timeZone),
+        classTime: formatTimeInTimeZone(bookingData.classDateTime, timeZone),
         location: '',
-        duration: 0
+        duration: bookingData.duration || 0,
+        classStartTime: bookingData.classDateTime.toISOString(),
+        classEndTime: this.addMinutes(bookingData.classDateTime, bookingData.duration || 60)
       };
 
       await this.notificationService.triggerNotification(
@@ -98,21 +117,31 @@ export class SchedulingEmailIntegration {
     newDateTime: Date;
     reason: string;
     courseId: string;
+    duration?: number;
+    location?: string;
+    joinLink?: string;
+    timeZone?: string;
   }): Promise<void> {
     try {
       const userData = await this.fetchUserData(changeData.affectedUserId);
       const courseData = await this.fetchCourseData(changeData.courseId);
+      const timeZone = resolveTimeZone(changeData.timeZone, userData.timeZone);
 
       const notificationData: ScheduleChangeNotificationData = {
         affectedUserId: changeData.affectedUserId,
         affectedUserName: userData.name,
         affectedUserEmail: userData.email,
-        originalDate: changeData.originalDateTime.toDateString(),
-        originalTime: changeData.originalDateTime.toLocaleTimeString(),
-        newDate: changeData.newDateTime.toDateString(),
-        newTime: changeData.newDateTime.toLocaleTimeString(),
+        originalDate: formatDateInTimeZone(changeData.originalDateTime, timeZone),
+        originalTime: formatTimeInTimeZone(changeData.originalDateTime, timeZone),
+        newDate: formatDateInTimeZone(changeData.newDateTime, timeZone),
+        newTime: formatTimeInTimeZone(changeData.newDateTime, timeZone),
         reason: changeData.reason,
-        courseName: courseData.name
+        courseName: courseData.name,
+        bookingId: changeData.bookingId,
+        newStartTime: changeData.newDateTime.toISOString(),
+        newEndTime: this.addMinutes(changeData.newDateTime, changeData.duration || 60),
+        location: changeData.location,
+        joinLink: changeData.joinLink
       };
 
       await this.notificationService.triggerNotification(
@@ -137,6 +166,8 @@ export class SchedulingEmailIntegration {
     }>;
     recommendedResolution: string;
     severity: 'low' | 'medium' | 'high' | 'critical';
+    // Zone of the class location; the zone name is included in the email
+    timeZone?: string;
   }): Promise<void> {
     try {
       const affectedUsers = await Promise.all(
@@ -161,7 +192,7 @@ export class SchedulingEmailIntegration {
       const notificationData: ConflictNotificationData = {
         conflictId: conflictData.conflictId,
         conflictType: conflictData.conflictType,
-        conflictDateTime: conflictData.conflictDateTime.toLocaleString(),
+        conflictDateTime: formatInTimeZone(conflictData.conflictDateTime, resolveTimeZone(conflictData.timeZone)),
         affectedClasses: courseNames,
         affectedUsers,
         recommendedAction: conflictData.recommendedResolution,
@@ -192,9 +223,12 @@ export class SchedulingEmailIntegration {
       studentId: string;
       classDateTime: Date;
     }>;
+    // Zone the changed slots' start and end times are in
+    timeZone?: string;
   }): Promise<void> {
     try {
       const teacherData = await this.fetchTeacherData(availabilityData.teacherId);
+      const teacherTimeZone = resolveTimeZone(availabilityData.timeZone, teacherData.timeZone);
       
       const affectedBookings = await Promise.all(
         availabilityData.affectedBookings.map(async (booking) => {
@@ -203,14 +237,14 @@ export class SchedulingEmailIntegration {
             bookingId: booking.bookingId,
             studentName: studentData.name,
             studentEmail: studentData.email,
-            classTime: booking.classDateTime.toLocaleString()
+            classTime: formatInTimeZone(booking.classDateTime, resolveTimeZone(studentData.timeZone))
           };
         })
       );
 
       const availabilityChanges = availabilityData.changedSlots.map(slot => ({
-        date: slot.date.toDateString(),
-        timeSlot: `${slot.startTime} - ${slot.endTime}`,
+        date: formatDateInTimeZone(slot.date, teacherTimeZone),
+        timeSlot: `${slot.startTime} - ${slot.endTime} (${teacherTimeZone})`,
         oldStatus: slot.oldStatus,
         newStatus: slot.newStatus
       }));
@@ -236,11 +270,13 @@ export class SchedulingEmailIntegration {
     classDateTime: Date;
     joinLink?: string;
     reminderMinutes: number[];
+    studentTimeZone?: string;
   }): Promise<void> {
     try {
       const studentData = await this.fetchStudentData(reminderData.studentId);
       const teacherData = await this.fetchTeacherData(reminderData.teacherId);
       const courseData = await this.fetchCourseData(reminderData.courseId);
+      const timeZone = resolveTimeZone(reminderData.studentTimeZone, studentData.timeZone);
 
       // Schedule multiple reminders at different intervals
       for (const minutes of reminderData.reminderMinutes) {
@@ -254,7 +290,7 @@ export class SchedulingEmailIntegration {
             studentData.name,
             {
               courseName: courseData.name,
-              classTime: reminderData.classDateTime.toLocaleTimeString(),
+              classTime: formatInTimeZone(reminderData.classDateTime, timeZone),
               teacherName: teacherData.name,
               timeUntilClass: `${minutes} minutes`,
               joinLink: reminderData.joinLink
@@ -268,13 +304,18 @@ export class SchedulingEmailIntegration {
     }
   }
 
+  private addMinutes(date: Date, minutes: number): string {
+    return new Date(date.getTime() + minutes * 60 * 1000).toISOString();
+  }
+
   // Mock data fetching functions (replace with actual database calls)
   private async fetchStudentData(studentId: string) {
     // In a real implementation, this would query the database
     return {
       id: studentId,
       name: `Student ${studentId}`,
-      email: `student${studentId}@example.com`
+      email: `student${studentId}@example.com`,
+      timeZone: TIMEZONE_DEFAULT
     };
   }
 
@@ -283,7 +324,8 @@ export class SchedulingEmailIntegration {
     return {
       id: teacherId,
       name: `Teacher ${teacherId}`,
-      email: `teacher${teacherId}@example.com`
+      email: `teacher${teacherId}@example.com`,
+      timeZone: TIMEZONE_DEFAULT
     };
   }
 
@@ -301,7 +343,8 @@ export class SchedulingEmailIntegration {
     return {
       id: userId,
       name: `User ${userId}`,
-      email: `user${userId}@example.com`
+      email: `user${userId}@example.com`,
+      timeZone: TIMEZONE_DEFAULT
     };
   }
 }
@@ -0,0 +1,588 @@
+/**
+ * Scheduling Sandbox Service
+ *
+ * Lets admins preview a SchedulingRequest or manual SchedulingOverrides before
+ * they touch live bookings. A sandbox snapshots the live sessions in a window,
+ * builds the proposed timetable, and stores its diff: moved, cancelled and new
+ * sessions, the students and teachers affected and the change in hours.
+ * Publishing applies the diff in one database transaction and only then sends
+ * notifications; a moved session's teacher and location are stored on that
+ * session's bookings, not its class. Discarding leaves everything as it was.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import { schedulingService } from './scheduling-service';
+import { schedulingEmailHooks } from './scheduling-email-integration';
+import { getZonedParts, resolveTimeZone } from '@/lib/utils/timezone';
+import type { HourApiResponse } from '@/types/hours';
+import type { ScheduledClass, SchedulingOverride } from '@/types/scheduling';
+import type {
+  CreateSandboxRequest,
+  PublishSandboxResult,
+  SandboxDiff,
+  SandboxMovedSession,
+  SandboxSession,
+  SandboxSessionChange,
+  SchedulingSandbox
+} from '@/types/scheduling-sandbox';
+
+const MINUTE_MS = 60 * 1000;
+const OPEN_BOOKING_STATUSES = ['pending', 'confirmed'];
+
+const hours = (minutes: number) => minutes / 60;
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Group live bookings into sessions: one per class and start time. A
+ * session's own teacher and location override those of its class.
+ */
+export function toSandboxSessions(bookings: any[]): SandboxSession[] {
+  const sessions = new Map<string, SandboxSession>();
+
+  for (const booking of bookings) {
+    const key = `${booking.class_id}@${new Date(booking.start_time).toISOString()}`;
+    let session = sessions.get(key);
+    if (!session) {
+      session = {
+        key,
+        classId: booking.class_id,
+        courseId: booking.classes?.course_id,
+        teacherId: booking.substitute_teacher_id || booking.classes?.teacher_id || undefined,
+        bookingDate: booking.booking_date,
+        startTime: new Date(booking.start_time).toISOString(),
+        endTime: new Date(booking.end_time).toISOString(),
+        durationMinutes: booking.duration_minutes,
+        location: booking.session_location || booking.classes?.location || undefined,
+        studentIds: [],
+        bookingIds: {}
+      };
+      sessions.set(key, session);
+    }
+    session.studentIds.push(booking.student_id);
+    session.bookingIds[booking.student_id] = booking.id;
+  }
+
+  return Array.from(sessions.values()).sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+/**
+ * Proposed session for a class returned by the scheduler
+ */
+export function sessionFromScheduledClass(scheduled: ScheduledClass, key: string): SandboxSession {
+  const timeZone = resolveTimeZone(scheduled.timeZone, scheduled.timeSlot.timeZone);
+  return {
+    key,
+    courseId: scheduled.courseId,
+    teacherId: scheduled.teacherId || undefined,
+    bookingDate: getZonedParts(scheduled.timeSlot.startTime, timeZone).date,
+    startTime: new Date(scheduled.timeSlot.startTime).toISOString(),
+    endTime: new Date(scheduled.timeSlot.endTime).toISOString(),
+    durationMinutes: scheduled.timeSlot.duration,
+    location: scheduled.metadata?.location,
+    studentIds: [...scheduled.studentIds],
+    bookingIds: {}
+  };
+}
+
+function matchesSession(session: SandboxSession, parameters: Record<string, any>): boolean {
+  if (parameters.sessionKey) return session.key === parameters.sessionKey;
+  if (parameters.classId) return session.classId === parameters.classId;
+  return true;
+}
+
+/**
+ * Apply manual overrides to a proposed timetable. Sessions are matched by
+ * `parameters.sessionKey` or `parameters.classId`:
+ * - prevent_schedule: drop the matching sessions, or only `studentId` from them
+ * - preferred_teacher: give the matching sessions `teacherId`
+ * - preferred_time: move the matching sessions to `startTime`, keeping their length
+ * - class_size: keep the first `maxStudents` students of the matching sessions
+ * - force_schedule: add a session for `courseId`, `teacherId`, `startTime`,
+ *   `durationMinutes` and `studentIds`
+ */
+export function applySchedulingOverrides(
+  sessions: SandboxSession[],
+  overrides: SchedulingOverride[]
+): SandboxSession[] {
+  let result = sessions.map(session => ({ ...session, studentIds: [...session.studentIds] }));
+  let forced = 0;
+
+  for (const override of overrides) {
+    const parameters = override.parameters || {};
+
+    switch (override.type) {
+      case 'prevent_schedule':
+        if (parameters.studentId) {
+          result = result.map(session => matchesSession(session, parameters)
+            ? { ...session, studentIds: session.studentIds.filter(id => id !== parameters.studentId) }
+            : session);
+        } else {
+          result = result.filter(session => !matchesSession(session, parameters));
+        }
+        break;
+
+      case 'preferred_teacher':
+        result = result.map(session => matchesSession(session, parameters)
+          ? { ...session, teacherId: parameters.teacherId }
+          : session);
+        break;
+
+      case 'preferred_time': {
+        const start = new Date(parameters.startTime);
+        if (Number.isNaN(start.getTime())) break;
+        const timeZone = resolveTimeZone(parameters.timeZone);
+        result = result.map(session => matchesSession(session, parameters)
+          ? {
+            ...session,
+            bookingDate: getZonedParts(start, timeZone).date,
+            startTime: start.toISOString(),
+            endTime: new Date(start.getTime() + session.durationMinutes * MINUTE_MS).toISOString()
+          }
+          : session);
+        break;
+      }
+
+      case 'class_size':
+        result = result.map(session => matchesSession(session, parameters)
+          ? { ...session, studentIds: session.studentIds.slice(0, Math.max(0, Number(parameters.maxStudents) || 0)) }
+          : session);
+        break;
+
+      case 'force_schedule': {
+        const start = new Date(parameters.startTime);
+        const durationMinutes = Number(parameters.durationMinutes) || 60;
+        if (!parameters.courseId || Number.isNaN(start.getTime())) break;
+        result.push({
+          key: `forced-${++forced}`,
+          courseId: parameters.courseId,
+          teacherId: parameters.teacherId,
+          bookingDate: getZonedParts(start, resolveTimeZone(parameters.timeZone)).date,
+          startTime: start.toISOString(),
+          endTime: new Date(start.getTime() + durationMinutes * MINUTE_MS).toISOString(),
+          durationMinutes,
+          location: parameters.location,
+          studentIds: [...(parameters.studentIds || [])],
+          bookingIds: {}
+        });
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Diff a proposed timetable against the snapshot it was built from. Sessions
+ * are paired by key; a live session left without students counts as cancelled.
+ */
+export function diffTimetables(snapshot: SandboxSession[], proposal: SandboxSession[]): SandboxDiff {
+  const proposed = new Map(proposal.map(session => [session.key, session]));
+  const live = new Set(snapshot.map(session => session.key));
+  const students = new Map<string, number>();
+  const teachers = new Map<string, number>();
+  const affectedStudents = new Set<string>();
+  const affectedTeachers = new Set<string>();
+
+  const addHours = (totals: Map<string, number>, id: string | undefined, delta: number) => {
+    if (id) totals.set(id, (totals.get(id) || 0) + delta);
+  };
+  const touch = (session: SandboxSession) => {
+    session.studentIds.forEach(id => affectedStudents.add(id));
+    if (session.teacherId) affectedTeachers.add(session.teacherId);
+  };
+
+  const moved: SandboxMovedSession[] = [];
+  const cancelled: SandboxSession[] = [];
+  const created: SandboxSession[] = [];
+
+  for (const before of snapshot) {
+    const after = proposed.get(before.key);
+    if (!after || after.studentIds.length === 0) {
+      cancelled.push(before);
+      touch(before);
+      before.studentIds.forEach(id => addHours(students, id, -hours(before.durationMinutes)));
+      addHours(teachers, before.teacherId, -hours(before.durationMinutes));
+      continue;
+    }
+
+    const addedStudentIds = after.studentIds.filter(id => !before.studentIds.includes(id));
+    const removedStudentIds = before.studentIds.filter(id => !after.studentIds.includes(id));
+    const changes: SandboxSessionChange[] = [];
+    if (before.startTime !== after.startTime || before.durationMinutes !== after.durationMinutes) changes.push('time');
+    if ((before.teacherId || null) !== (after.teacherId || null)) changes.push('teacher');
+    if ((before.location || null) !== (after.location || null)) changes.push('location');
+    if (addedStudentIds.length > 0 || removedStudentIds.length > 0) changes.push('students');
+    if (changes.length === 0) continue;
+
+    moved.push({ before, after, changes, addedStudentIds, removedStudentIds });
+
+    if (changes.some(change => change !== 'students')) {
+      touch(before);
+      touch(after);
+    } else {
+      [...addedStudentIds, ...removedStudentIds].forEach(id => affectedStudents.add(id));
+    }
+
+    removedStudentIds.forEach(id => addHours(students, id, -hours(before.durationMinutes)));
+    addedStudentIds.forEach(id => addHours(students, id, hours(after.durationMinutes)));
+    after.studentIds
+      .filter(id => before.studentIds.includes(id))
+      .forEach(id => addHours(students, id, hours(after.durationMinutes - before.durationMinutes)));
+    addHours(teachers, before.teacherId, -hours(before.durationMinutes));
+    addHours(teachers, after.teacherId, hours(after.durationMinutes));
+  }
+
+  for (const after of proposal) {
+    if (live.has(after.key) || after.studentIds.length === 0) continue;
+    created.push(after);
+    touch(after);
+    after.studentIds.forEach(id => addHours(students, id, hours(after.durationMinutes)));
+    addHours(teachers, after.teacherId, hours(after.durationMinutes));
+  }
+
+  const nonZero = (totals: Map<string, number>) => Object.fromEntries(
+    Array.from(totals.entries())
+      .map(([id, delta]) => [id, round(delta)] as const)
+      .filter(([, delta]) => delta !== 0)
+  );
+  const studentHours = nonZero(students);
+  const teacherHours = nonZero(teachers);
+  const sum = (values: Record<string, number>) => round(Object.values(values).reduce((total, value) => total + value, 0));
+
+  return {
+    moved,
+    cancelled,
+    created,
+    affectedStudentIds: Array.from(affectedStudents).sort(),
+    affectedTeacherIds: Array.from(affectedTeachers).sort(),
+    hourImpact: {
+      students: studentHours,
+      teachers: teacherHours,
+      totalStudentHours: sum(studentHours),
+      totalTeacherHours: sum(teacherHours)
+    }
+  };
+}
+
+function sandboxError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class SchedulingSandboxService {
+  private supabase;
+  private scheduler;
+  private emailHooks;
+
+  constructor(client: any = defaultClient, scheduler: any = schedulingService, emailHooks: any = schedulingEmailHooks) {
+    this.supabase = client;
+    this.scheduler = scheduler;
+    this.emailHooks = emailHooks;
+  }
+
+  async listSandboxes(): Promise<HourApiResponse<SchedulingSandbox[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('scheduling_sandboxes')
+        .select('*')
+        .eq('status', 'draft')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((row: any) => this.transformSandbox(row)) };
+    } catch (error) {
+      return sandboxError('FETCH_SANDBOX_ERROR', 'Failed to fetch scheduling sandboxes', error);
+    }
+  }
+
+  async getSandbox(sandboxId: string): Promise<HourApiResponse<SchedulingSandbox>> {
+    try {
+      return { success: true, data: await this.loadSandbox(sandboxId) };
+    } catch (error) {
+      return sandboxError('FETCH_SANDBOX_ERROR', 'Failed to fetch scheduling sandbox', error);
+    }
+  }
+
+  /**
+   * Snapshot the live sessions in the window and compute the proposed
+   * timetable for the request and overrides. Nothing live is changed.
+   */
+  async createSandbox(request: CreateSandboxRequest, createdBy?: string): Promise<HourApiResponse<SchedulingSandbox>> {
+    const windowStart = new Date(request.windowStart);
+    const windowEnd = new Date(request.windowEnd);
+    if (!request.name?.trim() || Number.isNaN(windowStart.getTime()) || Number.isNaN(windowEnd.getTime())) {
+      return sandboxError('VALIDATION_ERROR', 'A name and a valid window are required');
+    }
+    if (windowEnd <= windowStart) {
+      return sandboxError('VALIDATION_ERROR', 'The window must end after it starts');
+    }
+
+    try {
+      const snapshotTakenAt = new Date().toISOString();
+      const snapshot = await this.takeSnapshot(windowStart.toISOString(), windowEnd.toISOString());
+
+      let proposal = snapshot;
+      if (request.request) {
+        const result = await this.scheduler.scheduleClasses(request.request);
+        if (!result.success) {
+          return sandboxError('SCHEDULING_FAILED', result.error?.message || 'The scheduler could not process the request', result.error);
+        }
+        proposal = [
+          ...snapshot,
+          ...result.scheduledClasses.map((scheduled: ScheduledClass, index: number) => sessionFromScheduledClass(scheduled, `new-${index + 1}`))
+        ];
+      }
+
+      const overrides = request.overrides || request.request?.manualOverrides || [];
+      proposal = applySchedulingOverrides(proposal, overrides);
+
+      const { data, error } = await this.supabase
+        .from('scheduling_sandboxes')
+        .insert({
+          name: request.name.trim(),
+          window_start: windowStart.toISOString(),
+          window_end: windowEnd.toISOString(),
+          request: request.request || null,
+          overrides,
+          snapshot,
+          proposal,
+          diff: diffTimetables(snapshot, proposal),
+          snapshot_taken_at: snapshotTakenAt,
+          created_by: createdBy
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformSandbox(data) };
+    } catch (error) {
+      logger.error('Failed to create scheduling sandbox:', error);
+      return sandboxError('CREATE_SANDBOX_ERROR', 'Failed to create scheduling sandbox', error);
+    }
+  }
+
+  /**
+   * Replace a draft sandbox's overrides and recompute its diff
+   */
+  async updateOverrides(sandboxId: string, overrides: SchedulingOverride[]): Promise<HourApiResponse<SchedulingSandbox>> {
+    try {
+      const sandbox = await this.loadSandbox(sandboxId);
+      if (sandbox.status !== 'draft') {
+        return sandboxError('SANDBOX_NOT_DRAFT', `Sandbox is already ${sandbox.status}`);
+      }
+
+      // Proposed sessions before any overrides: the snapshot plus the scheduler's classes
+      const scheduled = sandbox.proposal.filter(session => session.key.startsWith('new-'));
+      const proposal = applySchedulingOverrides([...sandbox.snapshot, ...scheduled], overrides);
+
+      const { data, error } = await this.supabase
+        .from('scheduling_sandboxes')
+        .update({ overrides, proposal, diff: diffTimetables(sandbox.snapshot, proposal) })
+        .eq('id', sandboxId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, data: this.transformSandbox(data) };
+    } catch (error) {
+      return sandboxError('UPDATE_SANDBOX_ERROR', 'Failed to update scheduling sandbox', error);
+    }
+  }
+
+  /**
+   * Apply the sandbox to live classes and bookings in one transaction, then
+   * notify everyone affected. Refused when the window changed since the snapshot.
+   */
+  async publishSandbox(sandboxId: string, publishedBy?: string): Promise<HourApiResponse<PublishSandboxResult>> {
+    let sandbox: SchedulingSandbox;
+    try {
+      sandbox = await this.loadSandbox(sandboxId);
+    } catch (error) {
+      return sandboxError('FETCH_SANDBOX_ERROR', 'Failed to fetch scheduling sandbox', error);
+    }
+    if (sandbox.status !== 'draft') {
+      return sandboxError('SANDBOX_NOT_DRAFT', `Sandbox is already ${sandbox.status}`);
+    }
+
+    const { data: createdBookings, error } = await this.supabase.rpc('publish_scheduling_sandbox', {
+      p_sandbox_id: sandboxId,
+      p_published_by: publishedBy || null
+    });
+
+    if (error) {
+      if (String(error.message || '').includes('SANDBOX_STALE')) {
+        return sandboxError(
+          'SANDBOX_STALE',
+          'Bookings in this window changed after the preview was made. Create a new sandbox to see the current effect.',
+          error
+        );
+      }
+      logger.error('Failed to publish scheduling sandbox:', error);
+      return sandboxError('PUBLISH_SANDBOX_ERROR', 'Failed to publish scheduling sandbox', error);
+    }
+
+    const notificationsSent = await this.notifyPublished(sandbox, createdBookings || []);
+
+    return {
+      success: true,
+      data: {
+        sandboxId,
+        movedSessions: sandbox.diff.moved.length,
+        cancelledSessions: sandbox.diff.cancelled.length,
+        createdSessions: sandbox.diff.created.length,
+        notificationsSent
+      }
+    };
+  }
+
+  /**
+   * Discard a draft sandbox. Live bookings are untouched and nobody is notified.
+   */
+  async discardSandbox(sandboxId: string): Promise<HourApiResponse<void>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('scheduling_sandboxes')
+        .update({ status: 'discarded', discarded_at: new Date().toISOString() })
+        .eq('id', sandboxId)
+        .eq('status', 'draft')
+        .select('id');
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        return sandboxError('SANDBOX_NOT_DRAFT', 'Only draft sandboxes can be discarded');
+      }
+
+      return { success: true };
+    } catch (error) {
+      return sandboxError('DISCARD_SANDBOX_ERROR', 'Failed to discard scheduling sandbox', error);
+    }
+  }
+
+  private async takeSnapshot(windowStart: string, windowEnd: string): Promise<SandboxSession[]> {
+    const { data, error } = await this.supabase
+      .from('bookings')
+      .select('id, student_id, class_id, booking_date, start_time, end_time, duration_minutes, substitute_teacher_id, session_location, classes(course_id, teacher_id, location)')
+      .gte('start_time', windowStart)
+      .lt('start_time', windowEnd)
+      .in('status', OPEN_BOOKING_STATUSES)
+      .order('start_time', { ascending: true });
+
+    if (error) throw error;
+
+    return toSandboxSessions(data || []);
+  }
+
+  /**
+   * Send schedule change, cancellation and booking emails for a published
+   * sandbox. Failures are logged so one bad address cannot undo a publish.
+   */
+  private async notifyPublished(
+    sandbox: SchedulingSandbox,
+    createdBookings: Array<{ session_key: string; student_id: string; booking_id: string }>
+  ): Promise<number> {
+    const { diff } = sandbox;
+    const reason = `Schedule update: ${sandbox.name}`;
+    const notifications: Array<() => Promise<void>> = [];
+
+    const cancel = (session: SandboxSession, studentId: string) => notifications.push(() => this.emailHooks.onBookingCancelled({
+      bookingId: session.bookingIds[studentId],
+      studentId,
+      teacherId: session.teacherId,
+      courseId: session.courseId,
+      classDateTime: new Date(session.startTime),
+      duration: session.durationMinutes,
+      reason
+    }));
+
+    for (const session of diff.cancelled) {
+      session.studentIds.forEach(studentId => cancel(session, studentId));
+    }
+
+    for (const item of diff.moved) {
+      item.removedStudentIds.forEach(studentId => cancel(item.before, studentId));
+      if (!item.changes.some(change => change !== 'students')) continue;
+
+      const kept = item.after.studentIds.filter(id => !item.addedStudentIds.includes(id));
+      const teacherIds = item.changes.includes('teacher') ? [item.before.teacherId, item.after.teacherId] : [item.after.teacherId];
+      const recipients = [...kept, ...teacherIds].filter((id): id is string => !!id);
+      for (const affectedUserId of recipients) {
+        notifications.push(() => this.emailHooks.onScheduleChange({
+          bookingId: item.before.bookingIds[affectedUserId] || item.before.key,
+          affectedUserId,
+          originalDateTime: new Date(item.before.startTime),
+          newDateTime: new Date(item.after.startTime),
+          reason,
+          courseId: item.after.courseId,
+          duration: item.after.durationMinutes,
+          location: item.after.location
+        }));
+      }
+    }
+
+    const sessions = new Map([...diff.created, ...diff.moved.map(item => item.after)].map(session => [session.key, session]));
+    for (const booking of createdBookings) {
+      const session = sessions.get(booking.session_key);
+      if (!session) continue;
+      notifications.push(() => this.emailHooks.onBookingCreated({
+        bookingId: booking.booking_id,
+        studentId: booking.student_id,
+        teacherId: session.teacherId,
+        courseId: session.courseId,
+        classDateTime: new Date(session.startTime),
+        duration: session.durationMinutes,
+        location: session.location || '',
+        isOnline: !session.location || session.location === 'Online'
+      }));
+    }
+
+    let sent = 0;
+    for (const notify of notifications) {
+      try {
+        await notify();
+        sent++;
+      } catch (error) {
+        logger.error('Failed to send sandbox publish notification:', error);
+      }
+    }
+    return sent;
+  }
+
+  private async loadSandbox(sandboxId: string): Promise<SchedulingSandbox> {
+    const { data, error } = await this.supabase
+      .from('scheduling_sandboxes')
+      .select('*')
+      .eq('id', sandboxId)
+      .single();
+
+    if (error) throw error;
+
+    return this.transformSandbox(data);
+  }
+
+  private transformSandbox(data: any): SchedulingSandbox {
+    return {
+      id: data.id,
+      name: data.name,
+      status: data.status,
+      windowStart: data.window_start,
+      windowEnd: data.window_end,
+      request: data.request || undefined,
+      overrides: data.overrides || [],
+      snapshot: data.snapshot || [],
+      proposal: data.proposal || [],
+      diff: data.diff,
+      snapshotTakenAt: data.snapshot_taken_at,
+      createdBy: data.created_by || undefined,
+      createdAt: data.created_at,
+      publishedAt: data.published_at || undefined,
+      discardedAt: data.discarded_at || undefined
+    };
+  }
+}
+
+// Export singleton instance
+export const schedulingSandboxService = new SchedulingSandboxService();
@@ -16,6 +16,12 @@ import { CRUDService, withRetry } from './crud-service';
 import { classRecommendationService } from './class-recommendation-service';
 import { contentSimilarityService } from './content-similarity-service';
 import { timeSlotAlternativeService } from './time-slot-alternative-service';
+import { closureCalendarService, findClosure } from './closure-calendar-service';
+import { scheduleResourceService, selectResource } from './schedule-resource-service';
+import { ConflictDetector } from './scheduling-algorithms';
+import { addDaysToDate, getSlotStart, getZonedParts, resolveTimeZone } from '@/lib/utils/timezone';
+import { expandRecurringPattern } from '@/lib/utils/recurrence';
+import { TIMEZONE_DEFAULT } from '@/lib/constants';
 import type {
   SchedulingRequest,
   SchedulingResult,
@@ -29,6 +35,7 @@ import type {
   StudentProgress,
   LearningContent,
   TimeSlot,
+  RecurringAvailabilityPattern,
   ClassCapacityConstraint,
   SchedulingServiceState,
   SchedulingEvent,
@@ -36,6 +43,7 @@ import type {
   ContentSyncStatus,
 } from '@/types/scheduling';
 import type { Tables } from '@/types/database';
+import type { ResourceAllocation, ResourceRequirements, ScheduleResource } from '@/types/resources';
 
 /**
  * Core scheduling service class
@@ -108,6 +116,7 @@ export class SchedulingService {
         },
         availableDays: [1, 2, 3, 4, 5], // Monday to Friday
         blockedDates: [],
+        timeZone: TIMEZONE_DEFAULT,
       },
     };
   }
@@ -201,8 +210,9 @@ export class SchedulingService {
       // Get student progress data
       const studentProgress = await this.getStudentProgress(request.studentIds);
 
-      // Get available time slots
-      const availableSlots = await this.getAvailableTimeSlots(request);
+      // Get available time slots with a free room or meeting account
+      const resourcePlan = await this.allocateSlotResources(request, await this.getAvailableTimeSlots(request));
+      const availableSlots = resourcePlan.slots;
 
       // Generate initial schedule
       const initialSchedule = await this.generateInitialSchedule(
@@ -214,6 +224,10 @@ export class SchedulingService {
 
       // Detect and resolve conflicts
       const conflictAnalysis = await this.conflictResolver.detectConflicts(initialSchedule);
+      conflictAnalysis.conflicts.push(
+        ...new ConflictDetector(this.config.constraints, resourcePlan.resources)
+          .detectResourceConflicts(initialSchedule.scheduledClasses, resourcePlan.allocations)
+      );
       const resolvedSchedule = await this.conflictResolver.resolveConflicts(
         initialSchedule,
         conflictAnalysis.conflicts
@@ -367,33 +381,104 @@ export class SchedulingService {
    * Get available time slots based on teacher availability and constraints
    */
   private async getAvailableTimeSlots(request: SchedulingRequest): Promise<TimeSlot[]> {
-    // This would integrate with teacher availability and existing bookings
-    // For now, return mock data structure
+    // This would integrate with teacher availability and existing bookings.
+    // For now, split the recurring availability windows for the coming week
+    // into hourly slots. Without explicit rules the window is the working
+    // hours on available days, skipping blocked dates and academy closures.
+    const constraints = { ...this.config.constraints, ...request.constraints };
+    const timeZone = resolveTimeZone(constraints.timeZone);
+    const today = getZonedParts(new Date(), timeZone).date;
+    const rules: RecurringAvailabilityPattern[] = constraints.availabilityRules?.length
+      ? constraints.availabilityRules.map(rule => ({
+          ...rule,
+          exceptionDates: [...(rule.exceptionDates || []), ...constraints.blockedDates],
+        }))
+      : [{
+          id: 'working-hours',
+          daysOfWeek: constraints.availableDays,
+          startTime: constraints.workingHours.start,
+          endTime: constraints.workingHours.end,
+          timeZone,
+          patternType: 'weekly',
+          exceptionDates: constraints.blockedDates,
+          duration: 0,
+          isActive: true,
+          effectiveFrom: today,
+        }];
     const slots: TimeSlot[] = [];
+    const closures = await closureCalendarService.getActiveClosures(today, addDaysToDate(today, 8));
+
+    for (const rule of rules) {
+      for (const window of expandRecurringPattern(rule, addDaysToDate(today, 1), addDaysToDate(today, 7))) {
+        const windowEnd = new Date(window.endTime).getTime();
+
+        for (let start = new Date(window.startTime); start.getTime() + 60 * 60 * 1000 <= windowEnd; ) {
+          const end = new Date(start.getTime() + 60 * 60 * 1000);
+          const local = getZonedParts(start, window.timeZone!);
+          if (findClosure(closures, start, end, 'Main Campus')) {
+            start = end;
+            continue;
+          }
+          slots.push({
+            id: `slot-${local.date}-${local.hour}`,
+            startTime: start.toISOString(),
+            endTime: end.toISOString(),
+            duration: 60,
+            dayOfWeek: window.dayOfWeek,
+            isAvailable: true,
+            capacity: {
+              maxStudents: this.config.constraints.maxStudentsPerClass,
+              minStudents: this.config.constraints.minStudentsForGroupClass,
+              currentEnrollment: 0,
+              availableSpots: this.config.constraints.maxStudentsPerClass,
+            },
+            location: 'Main Campus',
+            timeZone: window.timeZone,
+          });
+          start = end;
+        }
+      }
+    }
 
-    for (let day = 1; day <= 5; day++) { // Monday to Friday
-      for (let hour = 9; hour < 18; hour++) {
-        const slot: TimeSlot = {
-          id: `slot-${day}-${hour}`,
-          startTime: `${hour.toString().padStart(2, '0')}:00`,
-          endTime: `${(hour + 1).toString().padStart(2, '0')}:00`,
-          duration: 60,
-          dayOfWeek: day,
-          isAvailable: true,
-          capacity: {
-            maxStudents: this.config.constraints.maxStudentsPerClass,
-            minStudents: this.config.constraints.minStudentsForGroupClass,
-            currentEnrollment: 0,
-            availableSpots: this.config.constraints.maxStudentsPerClass,
-          },
-          location: 'Main Campus',
-        };
+    return slots.sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
 
-        slots.push(slot);
-      }
+  /**
+   * Give each slot the smallest free room or meeting account that fits the
+   * request; slots with none free are marked unavailable. Without registered
+   * resources the slots keep their default location.
+   */
+  private async allocateSlotResources(
+    request: SchedulingRequest,
+    slots: TimeSlot[]
+  ): Promise<{ slots: TimeSlot[]; resources: ScheduleResource[]; allocations: ResourceAllocation[] }> {
+    if (slots.length === 0) {
+      return { slots, resources: [], allocations: [] };
+    }
+
+    const [resources, allocations] = await Promise.all([
+      scheduleResourceService.listResources(),
+      scheduleResourceService.getAllocations(slots[0].startTime, slots[slots.length - 1].endTime),
+    ]);
+
+    if (!resources.success || !resources.data?.length) {
+      return { slots, resources: [], allocations: [] };
     }
 
-    return slots;
+    const requirements: ResourceRequirements = { deliveryMode: 'in_person', ...request.resourceRequirements };
+    const seats = Math.max(requirements.minCapacity || 0, request.studentIds.length);
+    const held = allocations.data || [];
+
+    return {
+      slots: slots.map(slot => {
+        const resource = selectResource(resources.data!, held, requirements, slot.startTime, slot.endTime, seats);
+        return resource
+          ? { ...slot, resourceId: resource.id, location: resource.name }
+          : { ...slot, isAvailable: false };
+      }),
+      resources: resources.data,
+      allocations: held,
+    };
   }
 
   /**
@@ -475,8 +560,8 @@ export class SchedulingService {
    */
   private calculatePreferenceScore(slot: TimeSlot, studentProgress: StudentProgress[]): number {
     // This would analyze student preferred times and performance data
-    // For now, return a default score based on time of day
-    const hour = parseInt(slot.startTime.split(':')[0]);
+    // For now, return a default score based on local time of day
+    const { hour } = this.getLocalSlotTime(slot);
     
     // Peak learning hours: 10 AM - 12 PM and 2 PM - 4 PM
     if ((hour >= 10 && hour < 12) || (hour >= 14 && hour < 16)) {
@@ -493,13 +578,21 @@ export class SchedulingService {
    */
   private calculateTimeScore(slot: TimeSlot): number {
     // Score based on day of week and time
-    const dayScore = slot.dayOfWeek >= 1 && slot.dayOfWeek <= 5 ? 1.0 : 0.5; // Weekdays preferred
-    const hour = parseInt(slot.startTime.split(':')[0]);
+    const { hour, dayOfWeek } = this.getLocalSlotTime(slot);
+    const dayScore = dayOfWeek >= 1 && dayOfWeek <= 5 ? 1.0 : 0.5; // Weekdays preferred
     const timeScore = hour >= 9 && hour < 17 ? 1.0 : 0.3; // Business hours preferred
     
     return (dayScore + timeScore) / 2;
   }
 
+  /**
+   * Local hour and weekday of a slot in its own zone
+   */
+  private getLocalSlotTime(slot: TimeSlot): { hour: number; dayOfWeek: number } {
+    const timeZone = resolveTimeZone(slot.timeZone, this.config.constraints.timeZone);
+    return getZonedParts(getSlotStart({ ...slot, timeZone }), timeZone);
+  }
+
   /**
    * Generate comprehensive scheduling recommendations using the recommendation engine
    */
@@ -0,0 +1,700 @@
+/**
+ * Teacher Substitution Service
+ *
+ * When a teacher reports an absence, each class session inside it gets a
+ * substitution request. Qualified teachers who are free at the session time
+ * are ranked with the 1v1 matching scores and the session is offered to them
+ * one at a time for a short acceptance window. The first to accept takes the
+ * session: their bookings record the substitute, students are told about the
+ * change, and the session's teacher hours are credited to the substitute.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import { oneOnOneBookingService } from './one-on-one-booking-service';
+import { getEmailQueueService } from './email-queue-service';
+import { EmailPriority } from './email-service';
+import { SUBSTITUTION_OFFER, SUBSTITUTION_OFFER_STATUS, SUBSTITUTION_REQUEST_STATUS } from '@/lib/constants';
+import type { HourApiResponse } from '@/types/hours';
+import type { OneOnOneAutoMatchingCriteria, TeacherMatchingScore, TimeSlot } from '@/types/scheduling';
+import type {
+  ReportAbsenceRequest,
+  ReportAbsenceResult,
+  SubstituteCandidate,
+  SubstitutionOffer,
+  SubstitutionOfferAction,
+  SubstitutionRequest,
+  SubstitutionRequestStatus,
+  SubstitutionSweepResult,
+  TeacherAbsence
+} from '@/types/substitution';
+
+const MINUTE_MS = 60 * 1000;
+
+// Bookings that still need a teacher
+const OPEN_BOOKING_STATUSES = ['pending', 'confirmed'];
+
+type SubstituteMatcher = Pick<typeof oneOnOneBookingService, 'getTeacherProfiles' | 'scoreTeachers'>;
+
+interface AffectedSession {
+  classId: string;
+  className?: string;
+  courseType?: string;
+  startTime: string;
+  endTime: string;
+}
+
+export function getSubstitutionOffersUrl(baseUrl: string = process.env.NEXT_PUBLIC_APP_URL || ''): string {
+  return `${baseUrl}/teacher/substitutions`;
+}
+
+/**
+ * Teachers who are free and qualified for the session, best match first.
+ * A teacher qualifies when their weekly availability covers the session and
+ * their specializations include the course.
+ */
+export function rankSubstituteCandidates(
+  scores: TeacherMatchingScore[],
+  unavailableIds: Set<string> = new Set(),
+  names: Record<string, string> = {}
+): SubstituteCandidate[] {
+  return scores
+    .filter(score => !unavailableIds.has(score.teacherId))
+    .filter(score => score.scoreBreakdown.availabilityScore > 0 && score.scoreBreakdown.specializationScore > 0)
+    .sort((a, b) => b.overallScore - a.overallScore)
+    .map(score => ({
+      teacherId: score.teacherId,
+      name: names[score.teacherId],
+      score: Math.round(score.overallScore * 10000) / 10000,
+      rationale: score.matchingRationale
+    }));
+}
+
+/**
+ * When an offer made now should close: after the acceptance window, but
+ * never later than the lead time before the session. Null when it is too
+ * late to offer the session at all.
+ */
+export function getSubstitutionOfferExpiry(sessionStart: string, now: Date = new Date()): Date | null {
+  const latest = new Date(sessionStart).getTime() - SUBSTITUTION_OFFER.MIN_LEAD_MINUTES * MINUTE_MS;
+  const expiry = Math.min(now.getTime() + SUBSTITUTION_OFFER.WINDOW_MINUTES * MINUTE_MS, latest);
+  return expiry > now.getTime() ? new Date(expiry) : null;
+}
+
+function substitutionError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class TeacherSubstitutionService {
+  private supabase;
+  private matcher: SubstituteMatcher;
+  private mailer;
+
+  constructor(client: any = defaultClient, matcher: SubstituteMatcher = oneOnOneBookingService, mailer: any = null) {
+    this.supabase = client;
+    this.matcher = matcher;
+    this.mailer = mailer;
+  }
+
+  /**
+   * Record an absence and start looking for cover for every session in it
+   */
+  async reportAbsence(request: ReportAbsenceRequest): Promise<HourApiResponse<ReportAbsenceResult>> {
+    if (!(new Date(request.endTime).getTime() > new Date(request.startTime).getTime())) {
+      return substitutionError('INVALID_ABSENCE', 'The absence must end after it starts');
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('teacher_absences')
+        .insert({
+          teacher_id: request.teacherId,
+          start_time: request.startTime,
+          end_time: request.endTime,
+          reason: request.reason || null,
+          reported_by: request.reportedBy || null
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const absence = this.transformAbsence(data);
+      const sessions = await this.findAffectedSessions(absence);
+      const requests: SubstitutionRequest[] = [];
+
+      for (const session of sessions) {
+        const { data: requestRow, error: requestError } = await this.supabase
+          .from('substitution_requests')
+          .insert({
+            absence_id: absence.id,
+            class_id: session.classId,
+            original_teacher_id: absence.teacherId,
+            start_time: session.startTime,
+            end_time: session.endTime,
+            status: SUBSTITUTION_REQUEST_STATUS.SEARCHING
+          })
+          .select()
+          .single();
+
+        if (requestError) {
+          // Already being covered under an earlier absence report
+          if (requestError.code === '23505') continue;
+          throw requestError;
+        }
+
+        const candidates = await this.rankCandidates(session, absence.teacherId);
+        await this.supabase
+          .from('substitution_requests')
+          .update({ candidates })
+          .eq('id', requestRow.id);
+
+        const substitution = { ...this.transformRequest(requestRow), candidates, className: session.className };
+        const offer = await this.offerNext(substitution);
+        requests.push({
+          ...substitution,
+          status: offer ? SUBSTITUTION_REQUEST_STATUS.OFFERED : SUBSTITUTION_REQUEST_STATUS.UNFILLED
+        });
+      }
+
+      return { success: true, data: { absence, requests } };
+    } catch (error) {
+      logger.error('Failed to report teacher absence:', error);
+      return substitutionError('REPORT_ABSENCE_ERROR', 'Failed to report the absence', error);
+    }
+  }
+
+  /**
+   * Substitution requests for the admin queue or an absent teacher's view
+   */
+  async listRequests(filters: {
+    status?: SubstitutionRequestStatus[];
+    originalTeacherId?: string;
+    from?: string;
+  } = {}): Promise<HourApiResponse<SubstitutionRequest[]>> {
+    try {
+      let query = this.supabase
+        .from('substitution_requests')
+        .select('*, class:classes(class_name)')
+        .order('start_time', { ascending: true });
+
+      if (filters.status?.length) query = query.in('status', filters.status);
+      if (filters.originalTeacherId) query = query.eq('original_teacher_id', filters.originalTeacherId);
+      if (filters.from) query = query.gte('start_time', filters.from);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((row: any) => this.transformRequest(row)) };
+    } catch (error) {
+      return substitutionError('FETCH_SUBSTITUTIONS_ERROR', 'Failed to fetch substitution requests', error);
+    }
+  }
+
+  /**
+   * Rank substitutes again and resume offering, e.g. after an unfilled
+   * search when more teachers have become free
+   */
+  async retryRequest(requestId: string): Promise<HourApiResponse<SubstitutionRequest>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('substitution_requests')
+        .select('*, class:classes(class_name, course:courses(course_type))')
+        .eq('id', requestId)
+        .single();
+
+      if (error) throw error;
+
+      const substitution = this.transformRequest(data);
+      if (substitution.status !== SUBSTITUTION_REQUEST_STATUS.UNFILLED) {
+        return substitutionError('REQUEST_NOT_UNFILLED', `This session is ${substitution.status}`);
+      }
+
+      const candidates = await this.rankCandidates({
+        classId: substitution.classId,
+        className: substitution.className,
+        courseType: data.class?.course?.course_type,
+        startTime: substitution.startTime,
+        endTime: substitution.endTime
+      }, substitution.originalTeacherId);
+
+      await this.supabase
+        .from('substitution_requests')
+        .update({ candidates, status: SUBSTITUTION_REQUEST_STATUS.SEARCHING })
+        .eq('id', requestId);
+
+      const offer = await this.offerNext({ ...substitution, candidates });
+      return {
+        success: true,
+        data: {
+          ...substitution,
+          candidates,
+          status: offer ? SUBSTITUTION_REQUEST_STATUS.OFFERED : SUBSTITUTION_REQUEST_STATUS.UNFILLED
+        }
+      };
+    } catch (error) {
+      logger.error('Failed to retry substitution request:', error);
+      return substitutionError('RETRY_SUBSTITUTION_ERROR', 'Failed to search for a substitute again', error);
+    }
+  }
+
+  async getOfferByToken(token: string): Promise<HourApiResponse<SubstitutionOffer>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('substitution_offers')
+        .select('*, request:substitution_requests(*, class:classes(class_name))')
+        .eq('token', token)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return substitutionError('OFFER_NOT_FOUND', 'This offer link is not valid');
+
+      return { success: true, data: this.transformOffer(data) };
+    } catch (error) {
+      return substitutionError('FETCH_OFFER_ERROR', 'Failed to fetch substitution offer', error);
+    }
+  }
+
+  /**
+   * Open cover offers for a teacher's dashboard
+   */
+  async getTeacherOffers(teacherId: string): Promise<HourApiResponse<SubstitutionOffer[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('substitution_offers')
+        .select('*, request:substitution_requests(*, class:classes(class_name))')
+        .eq('teacher_id', teacherId)
+        .eq('status', SUBSTITUTION_OFFER_STATUS.PENDING)
+        .gt('expires_at', new Date().toISOString())
+        .order('expires_at', { ascending: true });
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((row: any) => this.transformOffer(row)) };
+    } catch (error) {
+      return substitutionError('FETCH_OFFER_ERROR', 'Failed to fetch substitution offers', error);
+    }
+  }
+
+  /**
+   * Accept or decline a cover offer. Declined or lapsed offers move on to
+   * the next candidate.
+   */
+  async respondToOffer(token: string, action: SubstitutionOfferAction): Promise<HourApiResponse<SubstitutionOffer>> {
+    const found = await this.getOfferByToken(token);
+    if (!found.success || !found.data) return found;
+
+    const offer = found.data;
+    if (offer.status !== SUBSTITUTION_OFFER_STATUS.PENDING) {
+      return substitutionError('OFFER_NOT_PENDING', `This offer has already been ${offer.status}`);
+    }
+
+    try {
+      if (new Date(offer.expiresAt).getTime() <= Date.now()) {
+        await this.lapseOffer(offer, SUBSTITUTION_OFFER_STATUS.EXPIRED);
+        return substitutionError('OFFER_EXPIRED', 'This offer has expired and the session was offered to another teacher');
+      }
+
+      if (action === 'decline') {
+        const declined = await this.lapseOffer(offer, SUBSTITUTION_OFFER_STATUS.DECLINED);
+        if (!declined) return substitutionError('OFFER_NOT_PENDING', 'This offer is no longer open');
+        return { success: true, data: { ...offer, status: 'declined', respondedAt: declined } };
+      }
+
+      // The offer, request, bookings and series session change in one transaction
+      const { data, error } = await this.supabase.rpc('accept_substitution_offer', { p_offer_id: offer.id });
+
+      if (error) {
+        const message = String(error.message || '');
+        if (message.includes('OFFER_NOT_PENDING') || message.includes('OFFER_EXPIRED')) {
+          return substitutionError('OFFER_NOT_PENDING', 'This offer is no longer open');
+        }
+        throw error;
+      }
+
+      await this.notifyStudents(offer, await this.getSessionStudents(offer));
+
+      return { success: true, data: { ...offer, status: 'accepted', respondedAt: data?.responded_at || new Date().toISOString() } };
+    } catch (error) {
+      logger.error('Failed to respond to substitution offer:', error);
+      return substitutionError('RESPOND_OFFER_ERROR', 'Failed to record your response', error);
+    }
+  }
+
+  /**
+   * Expire lapsed offers and offer each session to the next candidate. Run on a schedule.
+   */
+  async expireOffers(now: Date = new Date()): Promise<SubstitutionSweepResult> {
+    const result: SubstitutionSweepResult = { expired: 0, reoffered: 0, unfilled: 0, errors: [] };
+
+    const { data, error } = await this.supabase
+      .from('substitution_offers')
+      .select('*, request:substitution_requests(*, class:classes(class_name))')
+      .eq('status', SUBSTITUTION_OFFER_STATUS.PENDING)
+      .lte('expires_at', now.toISOString());
+
+    if (error) {
+      result.errors.push(error.message || 'Failed to fetch lapsed offers');
+      return result;
+    }
+
+    for (const row of data || []) {
+      try {
+        const offer = this.transformOffer(row);
+        if (!(await this.closeOffer(offer.id, SUBSTITUTION_OFFER_STATUS.EXPIRED))) continue;
+        result.expired++;
+        if (await this.offerNext(this.transformRequest(row.request), now)) {
+          result.reoffered++;
+        } else {
+          result.unfilled++;
+        }
+      } catch (sweepError) {
+        result.errors.push(sweepError instanceof Error ? sweepError.message : `Failed to expire offer ${row.id}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Open sessions the teacher is due to teach during the absence: their own
+   * classes without cover yet, and sessions they agreed to cover
+   */
+  private async findAffectedSessions(absence: TeacherAbsence): Promise<AffectedSession[]> {
+    const select = 'class_id, start_time, end_time, class:classes!inner(teacher_id, class_name, course:courses(course_type))';
+    const [{ data: own, error: ownError }, { data: covering, error: coveringError }] = await Promise.all([
+      this.supabase
+        .from('bookings')
+        .select(select)
+        .eq('class.teacher_id', absence.teacherId)
+        .is('substitute_teacher_id', null)
+        .in('status', OPEN_BOOKING_STATUSES)
+        .gte('start_time', absence.startTime)
+        .lt('start_time', absence.endTime),
+      this.supabase
+        .from('bookings')
+        .select(select)
+        .eq('substitute_teacher_id', absence.teacherId)
+        .in('status', OPEN_BOOKING_STATUSES)
+        .gte('start_time', absence.startTime)
+        .lt('start_time', absence.endTime)
+    ]);
+
+    if (ownError) throw ownError;
+    if (coveringError) throw coveringError;
+
+    const sessions = new Map<string, AffectedSession>();
+    for (const row of [...(own || []), ...(covering || [])]) {
+      const key = `${row.class_id}|${new Date(row.start_time).toISOString()}`;
+      if (sessions.has(key)) continue;
+      sessions.set(key, {
+        classId: row.class_id,
+        className: row.class?.class_name || undefined,
+        courseType: row.class?.course?.course_type || undefined,
+        startTime: row.start_time,
+        endTime: row.end_time
+      });
+    }
+
+    return [...sessions.values()].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
+
+  /**
+   * Score every other active teacher who is not teaching or absent at the
+   * session time, using the same matching as 1v1 bookings
+   */
+  private async rankCandidates(session: AffectedSession, absentTeacherId: string): Promise<SubstituteCandidate[]> {
+    const [{ data: teachers, error: teachersError }, { data: busy, error: busyError }, { data: absent, error: absentError }] = await Promise.all([
+      this.supabase
+        .from('teachers')
+        .select('id, full_name')
+        .eq('is_active', true)
+        .neq('id', absentTeacherId),
+      this.supabase
+        .from('bookings')
+        .select('substitute_teacher_id, class:classes(teacher_id)')
+        .in('status', OPEN_BOOKING_STATUSES)
+        .lt('start_time', session.endTime)
+        .gt('end_time', session.startTime),
+      this.supabase
+        .from('teacher_absences')
+        .select('teacher_id')
+        .eq('status', 'reported')
+        .lt('start_time', session.endTime)
+        .gt('end_time', session.startTime)
+    ]);
+
+    if (teachersError) throw teachersError;
+    if (busyError) throw busyError;
+    if (absentError) throw absentError;
+
+    const unavailable = new Set<string>([
+      ...(busy || []).map((row: any) => row.substitute_teacher_id || row.class?.teacher_id),
+      ...(absent || []).map((row: any) => row.teacher_id)
+    ].filter(Boolean));
+    const names: Record<string, string> = Object.fromEntries((teachers || []).map((row: any) => [row.id, row.full_name]));
+    const freeIds = (teachers || []).map((row: any) => row.id).filter((id: string) => !unavailable.has(id));
+
+    const profiles = await this.matcher.getTeacherProfiles(freeIds);
+    const scores = await this.matcher.scoreTeachers(profiles, this.toMatchingCriteria(session), 0);
+
+    return rankSubstituteCandidates(scores, unavailable, names);
+  }
+
+  private toMatchingCriteria(session: AffectedSession): OneOnOneAutoMatchingCriteria {
+    const start = new Date(session.startTime);
+    const duration = Math.round((new Date(session.endTime).getTime() - start.getTime()) / MINUTE_MS);
+    const slot: TimeSlot = {
+      id: `substitution-${session.classId}-${session.startTime}`,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      duration,
+      dayOfWeek: start.getUTCDay(),
+      isAvailable: true,
+      capacity: { maxStudents: 9, minStudents: 1, currentEnrollment: 0, availableSpots: 9 }
+    };
+
+    return {
+      studentId: '',
+      preferredTimeSlots: [slot],
+      durationPreference: duration > 30 ? 60 : 30,
+      teacherPreferences: { preferredTeacherIds: [] },
+      learningGoals: {
+        primaryObjectives: session.courseType ? [session.courseType] : [],
+        skillFocus: [],
+        improvementAreas: []
+      },
+      urgency: 'high',
+      flexibility: {
+        allowAlternativeSlots: false,
+        allowAlternativeDuration: false,
+        allowAlternativeTeachers: true
+      },
+      maxSearchRadius: { timeVariationMinutes: 0, dateVariationDays: 0 }
+    };
+  }
+
+  /**
+   * Offer the session to the best candidate not yet asked. Marks the request
+   * unfilled and returns null when nobody is left or it is too late.
+   */
+  private async offerNext(request: SubstitutionRequest, now: Date = new Date()): Promise<SubstitutionOffer | null> {
+    const { data: previous, error: previousError } = await this.supabase
+      .from('substitution_offers')
+      .select('teacher_id')
+      .eq('request_id', request.id);
+
+    if (previousError) throw previousError;
+
+    const asked = new Set((previous || []).map((row: any) => row.teacher_id));
+    const rank = request.candidates.findIndex(candidate => !asked.has(candidate.teacherId));
+    const expiresAt = getSubstitutionOfferExpiry(request.startTime, now);
+
+    if (rank === -1 || !expiresAt) {
+      await this.supabase
+        .from('substitution_requests')
+        .update({ status: SUBSTITUTION_REQUEST_STATUS.UNFILLED })
+        .eq('id', request.id);
+      logger.warn('No substitute found for class session', {
+        requestId: request.id,
+        classId: request.classId,
+        startTime: request.startTime
+      });
+      return null;
+    }
+
+    const candidate = request.candidates[rank];
+    const { data, error } = await this.supabase
+      .from('substitution_offers')
+      .insert({
+        request_id: request.id,
+        teacher_id: candidate.teacherId,
+        rank: rank + 1,
+        score: candidate.score,
+        status: SUBSTITUTION_OFFER_STATUS.PENDING,
+        offered_at: now.toISOString(),
+        expires_at: expiresAt.toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await this.supabase
+      .from('substitution_requests')
+      .update({ status: SUBSTITUTION_REQUEST_STATUS.OFFERED })
+      .eq('id', request.id);
+
+    const offer = {
+      ...this.transformOffer(data),
+      classId: request.classId,
+      className: request.className,
+      startTime: request.startTime,
+      endTime: request.endTime
+    };
+    await this.sendOfferEmail(offer);
+    return offer;
+  }
+
+  /**
+   * Close a declined or expired offer and move on to the next candidate.
+   * Returns the response time, or null if another request closed it first.
+   */
+  private async lapseOffer(offer: SubstitutionOffer, status: 'declined' | 'expired'): Promise<string | null> {
+    const respondedAt = await this.closeOffer(offer.id, status);
+    if (respondedAt) {
+      const { data, error } = await this.supabase
+        .from('substitution_requests')
+        .select('*, class:classes(class_name)')
+        .eq('id', offer.requestId)
+        .single();
+
+      if (error) throw error;
+      await this.offerNext(this.transformRequest(data));
+    }
+    return respondedAt;
+  }
+
+  /**
+   * Move a pending offer to its final status; only one caller can win
+   */
+  private async closeOffer(offerId: string, status: string): Promise<string | null> {
+    const respondedAt = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from('substitution_offers')
+      .update({ status, responded_at: respondedAt })
+      .eq('id', offerId)
+      .eq('status', SUBSTITUTION_OFFER_STATUS.PENDING)
+      .select('id');
+
+    if (error) throw error;
+    return data && data.length > 0 ? respondedAt : null;
+  }
+
+  /**
+   * Students booked on the covered session, to tell them about the change
+   */
+  private async getSessionStudents(offer: SubstitutionOffer): Promise<Array<{ full_name?: string; email?: string }>> {
+    const { data, error } = await this.supabase
+      .from('bookings')
+      .select('id, student:students(full_name, email)')
+      .eq('class_id', offer.classId)
+      .eq('start_time', offer.startTime)
+      .in('status', OPEN_BOOKING_STATUSES);
+
+    if (error) {
+      logger.error('Failed to load students of covered session:', error);
+      return [];
+    }
+    return (data || []).map((row: any) => row.student).filter(Boolean);
+  }
+
+  private async notifyStudents(offer: SubstitutionOffer, students: Array<{ full_name?: string; email?: string }>): Promise<void> {
+    try {
+      const { data: substitute } = await this.supabase
+        .from('teachers')
+        .select('full_name')
+        .eq('id', offer.teacherId)
+        .maybeSingle();
+
+      const className = offer.className || 'Your class';
+      const when = offer.startTime ? new Date(offer.startTime).toUTCString() : 'the scheduled time';
+      const teacherName = substitute?.full_name || 'another teacher';
+      const mailer = this.mailer || getEmailQueueService();
+
+      for (const student of students.filter(student => student.email)) {
+        await mailer.addToQueue({
+          to: [{ email: student.email!, name: student.full_name }],
+          subject: `Teacher change for ${className}`,
+          html: `<p>Hi ${student.full_name || 'there'},</p>
+<p>Your teacher is unable to take <strong>${className}</strong> on ${when}.
+<strong>${teacherName}</strong> will teach the session instead. The time and place are unchanged.</p>`,
+          text: `${className} on ${when} will be taught by ${teacherName} instead of your usual teacher. The time and place are unchanged.`,
+          priority: EmailPriority.HIGH,
+          tags: ['substitution', 'teacher-change']
+        }, { priority: EmailPriority.HIGH, maxAttempts: 3 });
+      }
+    } catch (error) {
+      logger.error('Failed to notify students of teacher change:', error);
+    }
+  }
+
+  private async sendOfferEmail(offer: SubstitutionOffer): Promise<void> {
+    try {
+      const { data: teacher } = await this.supabase
+        .from('teachers')
+        .select('email, full_name')
+        .eq('id', offer.teacherId)
+        .maybeSingle();
+
+      if (!teacher?.email) return;
+
+      const className = offer.className || 'a class';
+      const when = offer.startTime ? new Date(offer.startTime).toUTCString() : 'soon';
+      const link = getSubstitutionOffersUrl();
+      const mailer = this.mailer || getEmailQueueService();
+
+      await mailer.addToQueue({
+        to: [{ email: teacher.email, name: teacher.full_name }],
+        subject: `Can you cover ${className}?`,
+        html: `<p>Hi ${teacher.full_name || 'there'},</p>
+<p>A teacher is absent and <strong>${className}</strong> on ${when} needs cover. You are free at that time and a good match.</p>
+<p><a href="${link}">Accept or decline</a> by ${new Date(offer.expiresAt).toUTCString()}, after which the session is offered to another teacher.</p>`,
+        text: `${className} on ${when} needs cover. Accept or decline by ${new Date(offer.expiresAt).toUTCString()}: ${link}`,
+        priority: EmailPriority.URGENT,
+        tags: ['substitution', 'offer']
+      }, { priority: EmailPriority.URGENT, maxAttempts: 3 });
+    } catch (error) {
+      logger.error('Failed to send substitution offer email:', error);
+    }
+  }
+
+  private transformAbsence(data: any): TeacherAbsence {
+    return {
+      id: data.id,
+      teacherId: data.teacher_id,
+      startTime: data.start_time,
+      endTime: data.end_time,
+      reason: data.reason || undefined,
+      status: data.status
+    };
+  }
+
+  private transformRequest(data: any): SubstitutionRequest {
+    return {
+      id: data.id,
+      absenceId: data.absence_id,
+      classId: data.class_id,
+      originalTeacherId: data.original_teacher_id,
+      substituteTeacherId: data.substitute_teacher_id || undefined,
+      startTime: data.start_time,
+      endTime: data.end_time,
+      status: data.status,
+      candidates: data.candidates || [],
+      filledAt: data.filled_at || undefined,
+      className: data.class?.class_name || undefined
+    };
+  }
+
+  private transformOffer(data: any): SubstitutionOffer {
+    return {
+      id: data.id,
+      requestId: data.request_id,
+      teacherId: data.teacher_id,
+      rank: data.rank,
+      score: data.score ?? undefined,
+      status: data.status,
+      token: data.token,
+      offeredAt: data.offered_at,
+      expiresAt: data.expires_at,
+      respondedAt: data.responded_at || undefined,
+      classId: data.request?.class_id,
+      className: data.request?.class?.class_name || undefined,
+      startTime: data.request?.start_time,
+      endTime: data.request?.end_time
+    };
+  }
+}
+
+// Export singleton instance
+export const teacherSubstitutionService = new TeacherSubstitutionService();
@@ -12,6 +12,7 @@
 
 import { supabase } from '@/lib/supabase';
 import { CRUDService, withRetry } from './crud-service';
+import { closureCalendarService, findClosure } from './closure-calendar-service';
 // Conflict detection service has been removed - using placeholder
 import type {
   TimeSlot,
@@ -296,6 +297,10 @@ export class TimeSlotAlternativeService {
 
     const availableSlots: TimeSlot[] = [];
     const availableDays = request.availableDays || [1, 2, 3, 4, 5]; // Monday to Friday
+    const closures = await closureCalendarService.getActiveClosures(
+      minDate.toISOString().split('T')[0],
+      maxDate.toISOString().split('T')[0]
+    );
 
     // Generate time slots for each day in the range
     const currentDate = new Date(minDate);
@@ -318,7 +323,10 @@ export class TimeSlotAlternativeService {
             return this.timeRangesOverlap(slotStart, slotEnd, prefStart, prefEnd);
           });
 
-          if (!conflictsWithPreferred) {
+          // The location is not known yet, so only academy-wide closures apply
+          const isClosed = !!findClosure(closures, slotStart, slotEnd);
+
+          if (!conflictsWithPreferred && !isClosed) {
             // Check for existing conflicts
             const hasConflicts = await this.checkTimeSlotConflicts(
               request.studentId,
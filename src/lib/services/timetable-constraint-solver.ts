@@ -0,0 +1,549 @@
+/**
+ * HeyPeter Academy - Timetable Constraint Solver
+ *
+ * Constraint optimisation for group timetables. Hard constraints (student
+ * and teacher availability, teacher qualifications and workload limits, room
+ * and meeting-link capacity, and the class size limit of each course type)
+ * are never broken. Within them, a seeded local search minimises weighted
+ * soft penalties for student preferences, teacher workload balance and
+ * content progression, with every unplaced student costing more than any
+ * soft penalty.
+ *
+ * The solver is pure and runs offline: it works only on the problem it is
+ * given and stops at the time budget or iteration limit, returning the best
+ * timetable found with an explanation for every unplaced student and every
+ * unsatisfied soft constraint.
+ */
+
+import { COURSE_TYPE_CAPACITY } from '@/lib/constants';
+import { formatInTimeZone, resolveTimeZone } from '@/lib/utils/timezone';
+import type {
+  CourseType,
+  ScheduledClass,
+  SoftConstraintViolation,
+  TimeSlot,
+  TimetableConstraintReason,
+  TimetableOptimizerOptions,
+  TimetableProblem,
+  TimetableRoom,
+  TimetableSoftConstraint,
+  TimetableStudent,
+  TimetableTeacher,
+  TimetableSolution,
+  UnplacedStudentExplanation
+} from '@/types/scheduling';
+
+export const DEFAULT_TIMETABLE_OPTIONS: TimetableOptimizerOptions = {
+  timeBudgetMs: 2000,
+  maxIterations: 20000,
+  seed: 1,
+  weights: {
+    student_preference: 1,
+    teacher_workload_balance: 0.5,
+    content_progression: 2
+  }
+};
+
+// Leaving a student out always costs more than any soft penalty saves
+const UNPLACED_PENALTY = 1000;
+// Content distance between students a unit apart, and a lesson apart in the same unit
+const UNIT_GAP_PENALTY = 1;
+const LESSON_GAP_PENALTY = 0.25;
+
+interface Session {
+  slotId: string;
+  teacherId: string;
+  roomId: string;
+  courseId: string;
+  courseType: CourseType;
+  studentIds: string[];
+}
+
+interface Assignment {
+  sessions: Session[];
+  unplaced: Set<string>;
+}
+
+/**
+ * Small seeded PRNG (mulberry32), so a problem always yields the same timetable
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const cloneAssignment = (assignment: Assignment): Assignment => ({
+  sessions: assignment.sessions.map(session => ({ ...session, studentIds: [...session.studentIds] })),
+  unplaced: new Set(assignment.unplaced)
+});
+
+export class TimetableConstraintSolver {
+  private options: TimetableOptimizerOptions;
+  private random: () => number;
+  private slots: Map<string, TimeSlot>;
+  private students: Map<string, TimetableStudent>;
+  private teachers: Map<string, TimetableTeacher>;
+  private rooms: Map<string, TimetableRoom>;
+
+  constructor(private problem: TimetableProblem, options: Partial<TimetableOptimizerOptions> = {}) {
+    this.options = {
+      ...DEFAULT_TIMETABLE_OPTIONS,
+      ...options,
+      weights: { ...DEFAULT_TIMETABLE_OPTIONS.weights, ...options.weights }
+    };
+    this.random = createRandom(this.options.seed);
+    this.slots = new Map(problem.slots.map(slot => [slot.id, slot]));
+    this.students = new Map(problem.students.map(student => [student.studentId, student]));
+    this.teachers = new Map(problem.teachers.map(teacher => [teacher.teacherId, teacher]));
+    this.rooms = new Map(problem.rooms.map(room => [room.roomId, room]));
+  }
+
+  solve(): TimetableSolution {
+    const startedAt = Date.now();
+    const deadline = startedAt + this.options.timeBudgetMs;
+    let current = this.construct(deadline);
+    let currentCost = this.cost(current);
+    let best = cloneAssignment(current);
+    let bestCost = currentCost;
+    let iterations = 0;
+    let timedOut = Date.now() >= deadline;
+
+    while (!timedOut && iterations < this.options.maxIterations && bestCost > 0) {
+      if (Date.now() >= deadline) {
+        timedOut = true;
+        break;
+      }
+      iterations++;
+
+      const candidate = this.neighbour(current);
+      if (!candidate) continue;
+
+      const candidateCost = this.cost(candidate);
+      // Simulated annealing: cool linearly over the iteration budget
+      const temperature = Math.max(0.01, 2 * (1 - iterations / this.options.maxIterations));
+      if (candidateCost <= currentCost || this.random() < Math.exp((currentCost - candidateCost) / temperature)) {
+        current = candidate;
+        currentCost = candidateCost;
+        if (currentCost < bestCost) {
+          best = cloneAssignment(current);
+          bestCost = currentCost;
+        }
+      }
+    }
+
+    const violations = this.softViolations(best);
+
+    return {
+      scheduledClasses: best.sessions.map((session, index) => this.toScheduledClass(session, index)),
+      unplacedStudents: Array.from(best.unplaced).map(studentId => this.explainUnplaced(best, this.students.get(studentId)!)),
+      softConstraintViolations: violations,
+      penalty: violations.reduce((sum, violation) => sum + violation.penalty, 0),
+      stats: { iterations, elapsedMs: Date.now() - startedAt, timedOut }
+    };
+  }
+
+  // ========================================
+  // Hard constraints
+  // ========================================
+
+  private limitFor(courseType: CourseType): number {
+    return this.problem.courseTypeLimits?.[courseType] ?? COURSE_TYPE_CAPACITY[courseType].max;
+  }
+
+  private studentCanAttend(student: TimetableStudent, slotId: string): boolean {
+    return !student.availableSlotIds || student.availableSlotIds.includes(slotId);
+  }
+
+  private teacherCanTeach(teacher: TimetableTeacher, courseType: CourseType, slotId: string): boolean {
+    return teacher.availableSlotIds.includes(slotId) && (!teacher.courseTypes || teacher.courseTypes.includes(courseType));
+  }
+
+  private roomIsFree(room: TimetableRoom, slotId: string): boolean {
+    return !room.availableSlotIds || room.availableSlotIds.includes(slotId);
+  }
+
+  private sessionCapacity(session: Pick<Session, 'roomId' | 'courseType'>): number {
+    return Math.min(this.limitFor(session.courseType), this.rooms.get(session.roomId)?.capacity ?? 0);
+  }
+
+  /**
+   * Whether a session satisfies every hard constraint alongside the others
+   */
+  private isFeasible(session: Session, others: Session[]): boolean {
+    const teacher = this.teachers.get(session.teacherId);
+    const room = this.rooms.get(session.roomId);
+    if (!teacher || !room) return false;
+    if (!this.teacherCanTeach(teacher, session.courseType, session.slotId) || !this.roomIsFree(room, session.slotId)) return false;
+    if (session.studentIds.length > this.sessionCapacity(session)) return false;
+    if (!session.studentIds.every(id => this.studentCanAttend(this.students.get(id)!, session.slotId))) return false;
+
+    let teacherClasses = 1;
+    for (const other of others) {
+      if (other === session) continue;
+      if (other.slotId === session.slotId && (other.teacherId === session.teacherId || other.roomId === session.roomId)) return false;
+      if (other.teacherId === session.teacherId) teacherClasses++;
+    }
+    return teacher.maxClasses === undefined || teacherClasses <= teacher.maxClasses;
+  }
+
+  /**
+   * Every (slot, teacher, room) a new session for the student could use
+   */
+  private openings(student: TimetableStudent, sessions: Session[]): Session[] {
+    const openings: Session[] = [];
+    for (const slot of this.problem.slots) {
+      if (!this.studentCanAttend(student, slot.id)) continue;
+      for (const teacher of this.problem.teachers) {
+        if (!this.teacherCanTeach(teacher, student.courseType, slot.id)) continue;
+        for (const room of this.problem.rooms) {
+          const session: Session = {
+            slotId: slot.id,
+            teacherId: teacher.teacherId,
+            roomId: room.roomId,
+            courseId: student.courseId,
+            courseType: student.courseType,
+            studentIds: [student.studentId]
+          };
+          if (this.isFeasible(session, sessions)) openings.push(session);
+        }
+      }
+    }
+    return openings;
+  }
+
+  // ========================================
+  // Search
+  // ========================================
+
+  /**
+   * Greedy start: most constrained students first, each joining the cheapest
+   * existing class or opening a new one. Students not reached by the
+   * deadline are left unplaced for the search to pick up.
+   */
+  private construct(deadline: number): Assignment {
+    const assignment: Assignment = { sessions: [], unplaced: new Set() };
+    const flexibility = (student: TimetableStudent) =>
+      this.problem.slots.filter(slot => this.studentCanAttend(student, slot.id)).length;
+    const ordered = [...this.problem.students].sort((a, b) => flexibility(a) - flexibility(b));
+
+    for (const student of ordered) {
+      if (Date.now() >= deadline) {
+        assignment.unplaced.add(student.studentId);
+        continue;
+      }
+
+      let bestOption: Assignment | null = null;
+      let bestCost = Infinity;
+
+      const options: Assignment[] = [
+        ...assignment.sessions
+          .map((session, index) => this.withStudentIn(assignment, student, index))
+          .filter((option): option is Assignment => option !== null),
+        ...this.openings(student, assignment.sessions).map(opening => ({
+          sessions: [...assignment.sessions, opening],
+          unplaced: assignment.unplaced
+        }))
+      ];
+
+      for (const option of options) {
+        const cost = this.cost(option);
+        if (cost < bestCost) {
+          bestOption = option;
+          bestCost = cost;
+        }
+      }
+
+      if (bestOption) {
+        assignment.sessions = bestOption.sessions;
+      } else {
+        assignment.unplaced.add(student.studentId);
+      }
+    }
+
+    return assignment;
+  }
+
+  private withStudentIn(assignment: Assignment, student: TimetableStudent, sessionIndex: number): Assignment | null {
+    const target = assignment.sessions[sessionIndex];
+    if (target.courseId !== student.courseId || target.studentIds.includes(student.studentId)) return null;
+
+    const sessions = assignment.sessions.slice();
+    sessions[sessionIndex] = { ...target, studentIds: [...target.studentIds, student.studentId] };
+    return this.isFeasible(sessions[sessionIndex], sessions) ? { sessions, unplaced: assignment.unplaced } : null;
+  }
+
+  /**
+   * A random feasible neighbour: move a student to another class (or a new
+   * one), move a whole class to another slot, teacher or room, or swap two
+   * students between classes
+   */
+  private neighbour(assignment: Assignment): Assignment | null {
+    const next = cloneAssignment(assignment);
+    const move = this.random();
+
+    if (move < 0.5 || next.sessions.length < 2) {
+      const studentIds = Array.from(this.students.keys());
+      const studentId = next.unplaced.size > 0 && this.random() < 0.5
+        ? this.pick(Array.from(next.unplaced))
+        : this.pick(studentIds);
+      const student = this.students.get(studentId)!;
+
+      this.removeStudent(next, studentId);
+      const targets = next.sessions
+        .map((session, index) => index)
+        .filter(index => next.sessions[index].courseId === student.courseId);
+      const openNew = targets.length === 0 || this.random() < 0.3;
+
+      if (openNew) {
+        const openings = this.openings(student, next.sessions);
+        if (openings.length === 0) return null;
+        next.sessions.push(this.pick(openings));
+      } else {
+        const index = this.pick(targets);
+        const session = next.sessions[index];
+        session.studentIds.push(studentId);
+        if (!this.isFeasible(session, next.sessions)) return null;
+      }
+      next.unplaced.delete(studentId);
+      return next;
+    }
+
+    if (move < 0.8) {
+      const session = this.pick(next.sessions);
+      const lead = this.students.get(session.studentIds[0])!;
+      const openings = this.openings(lead, next.sessions.filter(other => other !== session))
+        .map(opening => ({ ...opening, studentIds: session.studentIds }))
+        .filter(opening => this.isFeasible(opening, next.sessions.filter(other => other !== session)));
+      if (openings.length === 0) return null;
+      Object.assign(session, this.pick(openings));
+      return next;
+    }
+
+    const first = this.pick(next.sessions);
+    const second = this.pick(next.sessions.filter(other => other !== first && other.courseId === first.courseId));
+    if (!second) return null;
+    const a = this.pick(first.studentIds);
+    const b = this.pick(second.studentIds);
+    first.studentIds = first.studentIds.map(id => (id === a ? b : id));
+    second.studentIds = second.studentIds.map(id => (id === b ? a : id));
+    return this.isFeasible(first, next.sessions) && this.isFeasible(second, next.sessions) ? next : null;
+  }
+
+  private removeStudent(assignment: Assignment, studentId: string): void {
+    assignment.sessions = assignment.sessions
+      .map(session => ({ ...session, studentIds: session.studentIds.filter(id => id !== studentId) }))
+      .filter(session => session.studentIds.length > 0);
+  }
+
+  private pick<T>(items: T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+
+  // ========================================
+  // Soft constraints
+  // ========================================
+
+  private cost(assignment: Assignment): number {
+    return assignment.unplaced.size * UNPLACED_PENALTY +
+      this.softViolations(assignment).reduce((sum, violation) => sum + violation.penalty, 0);
+  }
+
+  private softViolations(assignment: Assignment): SoftConstraintViolation[] {
+    const { weights } = this.options;
+    const violations: SoftConstraintViolation[] = [];
+    const weighted = (constraint: TimetableSoftConstraint, points: number) => points * weights[constraint];
+
+    for (const session of assignment.sessions) {
+      for (const studentId of session.studentIds) {
+        const student = this.students.get(studentId)!;
+        if (student.preferredSlotIds?.length && !student.preferredSlotIds.includes(session.slotId)) {
+          violations.push({
+            constraint: 'student_preference',
+            penalty: weighted('student_preference', 1),
+            affectedEntities: [studentId],
+            message: `Student ${studentId} is placed ${this.describeSlot(session.slotId)}, outside their preferred times`
+          });
+        }
+      }
+
+      const gap = this.contentGap(session);
+      if (gap > 0) {
+        const positions = session.studentIds.map(id => this.students.get(id)!)
+          .sort((a, b) => a.currentUnit - b.currentUnit || a.currentLesson - b.currentLesson);
+        const first = positions[0];
+        const last = positions[positions.length - 1];
+        violations.push({
+          constraint: 'content_progression',
+          penalty: weighted('content_progression', gap),
+          affectedEntities: session.studentIds,
+          message: `${session.courseType} class ${this.describeSlot(session.slotId)} mixes Unit ${first.currentUnit} Lesson ${first.currentLesson} ` +
+            `to Unit ${last.currentUnit} Lesson ${last.currentLesson}`
+        });
+      }
+    }
+
+    // Teachers who could take a class at all share the load
+    const loads = this.problem.teachers
+      .filter(teacher => teacher.availableSlotIds.length > 0)
+      .map(teacher => ({
+        teacherId: teacher.teacherId,
+        classes: assignment.sessions.filter(session => session.teacherId === teacher.teacherId).length
+      }))
+      .sort((a, b) => b.classes - a.classes);
+    if (loads.length > 1) {
+      const busiest = loads[0];
+      const quietest = loads[loads.length - 1];
+      const imbalance = busiest.classes - quietest.classes - 1;
+      if (imbalance > 0) {
+        violations.push({
+          constraint: 'teacher_workload_balance',
+          penalty: weighted('teacher_workload_balance', imbalance),
+          affectedEntities: [busiest.teacherId, quietest.teacherId],
+          message: `Teacher ${busiest.teacherId} teaches ${busiest.classes} classes while teacher ${quietest.teacherId} teaches ${quietest.classes}`
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Content distance of each student from the class's most common lesson
+   */
+  private contentGap(session: Session): number {
+    const students = session.studentIds.map(id => this.students.get(id)!);
+    const counts = new Map<string, number>();
+    for (const student of students) {
+      const key = `${student.currentUnit}:${student.currentLesson}`;
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+    const [unit, lesson] = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0]
+      .split(':')
+      .map(Number);
+
+    return students.reduce((sum, student) => sum + (student.currentUnit !== unit
+      ? Math.abs(student.currentUnit - unit) * UNIT_GAP_PENALTY
+      : Math.abs(student.currentLesson - lesson) * LESSON_GAP_PENALTY), 0);
+  }
+
+  // ========================================
+  // Explanations and output
+  // ========================================
+
+  /**
+   * Check each hard constraint on its own against the student's options
+   */
+  private explainUnplaced(assignment: Assignment, student: TimetableStudent): UnplacedStudentExplanation {
+    const reasons: TimetableConstraintReason[] = [];
+    const add = (reason: TimetableConstraintReason) => {
+      if (!reasons.some(existing => existing.message === reason.message)) reasons.push(reason);
+    };
+    const slots = this.problem.slots.filter(slot => this.studentCanAttend(student, slot.id));
+    const qualified = this.problem.teachers.filter(teacher => !teacher.courseTypes || teacher.courseTypes.includes(student.courseType));
+
+    if (slots.length === 0) {
+      add({ constraint: 'student_availability', message: `None of the ${this.problem.slots.length} candidate times fit the student's availability` });
+    } else if (qualified.length === 0) {
+      add({ constraint: 'teacher_qualification', message: `No teacher is set up to teach ${student.courseType}` });
+    } else {
+      for (const slot of slots) {
+        const when = this.describeSlot(slot.id);
+        const available = qualified.filter(teacher => teacher.availableSlotIds.includes(slot.id));
+        const classes = assignment.sessions.filter(session => session.slotId === slot.id && session.courseId === student.courseId);
+
+        for (const session of classes) {
+          const limit = this.limitFor(session.courseType);
+          if (session.studentIds.length >= limit) {
+            add({ constraint: 'course_type_capacity', message: `The ${student.courseType} class ${when} is full (${limit} students max)` });
+          } else if (session.studentIds.length >= this.sessionCapacity(session)) {
+            add({ constraint: 'room_capacity', message: `Room ${session.roomId} for the ${student.courseType} class ${when} is full` });
+          }
+        }
+
+        if (available.length === 0) {
+          add({ constraint: 'teacher_availability', message: `No ${student.courseType} teacher is available ${when}` });
+          continue;
+        }
+
+        const free = available.filter(teacher =>
+          !assignment.sessions.some(session => session.slotId === slot.id && session.teacherId === teacher.teacherId));
+        const underLimit = free.filter(teacher => teacher.maxClasses === undefined ||
+          assignment.sessions.filter(session => session.teacherId === teacher.teacherId).length < teacher.maxClasses);
+        const rooms = this.problem.rooms.filter(room => this.roomIsFree(room, slot.id) &&
+          !assignment.sessions.some(session => session.slotId === slot.id && session.roomId === room.roomId));
+
+        if (free.length === 0) {
+          add({ constraint: 'teacher_availability', message: `Every ${student.courseType} teacher available ${when} is already teaching` });
+        } else if (underLimit.length === 0) {
+          add({ constraint: 'teacher_workload_limit', message: `${student.courseType} teachers free ${when} have reached their class limit` });
+        } else if (rooms.length === 0) {
+          add({ constraint: 'room_capacity', message: `No room or meeting link is free ${when}` });
+        }
+      }
+    }
+
+    return {
+      studentId: student.studentId,
+      courseType: student.courseType,
+      message: reasons.length > 0
+        ? `Could not place student ${student.studentId}: ${reasons.map(reason => reason.message).join('; ')}`
+        : `Could not place student ${student.studentId} within the search budget`,
+      reasons
+    };
+  }
+
+  private describeSlot(slotId: string): string {
+    const slot = this.slots.get(slotId);
+    return slot ? `on ${formatInTimeZone(slot.startTime, resolveTimeZone(slot.timeZone))}` : `in slot ${slotId}`;
+  }
+
+  private toScheduledClass(session: Session, index: number): ScheduledClass {
+    const slot = this.slots.get(session.slotId)!;
+    const room = this.rooms.get(session.roomId)!;
+    const capacity = this.sessionCapacity(session);
+    const students = session.studentIds.map(id => this.students.get(id)!);
+    const lead = students[0];
+
+    return {
+      id: `timetable-${index + 1}`,
+      courseId: session.courseId,
+      teacherId: session.teacherId,
+      studentIds: session.studentIds,
+      timeSlot: {
+        ...slot,
+        location: room.roomId,
+        capacity: {
+          maxStudents: capacity,
+          minStudents: COURSE_TYPE_CAPACITY[session.courseType].min,
+          currentEnrollment: students.length,
+          availableSpots: capacity - students.length
+        }
+      },
+      timeZone: slot.timeZone,
+      content: [],
+      classType: session.courseType === '1-on-1' ? 'individual' : 'group',
+      status: 'scheduled',
+      confidenceScore: Math.max(0, 1 - this.contentGap(session) / students.length),
+      rationale: `${session.courseType} group at Unit ${lead.currentUnit} Lesson ${lead.currentLesson} in ${room.isVirtual ? 'meeting link' : 'room'} ${room.roomId}`,
+      alternatives: [],
+      metadata: { roomId: room.roomId, isVirtual: !!room.isVirtual, courseType: session.courseType }
+    };
+  }
+}
+
+/**
+ * Solve a timetable offline within the options' time budget
+ */
+export function solveTimetable(
+  problem: TimetableProblem,
+  options: Partial<TimetableOptimizerOptions> = {}
+): TimetableSolution {
+  return new TimetableConstraintSolver(problem, options).solve();
+}
@@ -0,0 +1,446 @@
+/**
+ * Waitlist Offer Service
+ *
+ * When a seat frees up, the next waitlisted student is offered it for an
+ * acceptance window instead of being enrolled outright. The seat and one
+ * session's hours are held while the offer is pending. Accepting checks the
+ * held hours are still covered, enrols the student and keeps the hours held
+ * until the class is first charged; declining or letting the window lapse
+ * removes them from the waitlist and passes the seat to the next student.
+ */
+
+import { supabase as defaultClient } from '@/lib/supabase';
+import { logger } from '@/lib/services';
+import { getEmailQueueService } from './email-queue-service';
+import { EmailPriority } from './email-service';
+import { ENROLLMENT_STATUS, WAITLIST_OFFER, WAITLIST_OFFER_STATUS } from '@/lib/constants';
+import type { HourApiResponse } from '@/types/hours';
+import type {
+  OfferSeatOptions,
+  WaitlistEntry,
+  WaitlistMetrics,
+  WaitlistOffer,
+  WaitlistOfferAction,
+  WaitlistOfferSweepResult
+} from '@/types/waitlist';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const clampWindowHours = (hours: number) =>
+  Math.min(WAITLIST_OFFER.MAX_WINDOW_HOURS, Math.max(WAITLIST_OFFER.MIN_WINDOW_HOURS, Math.round(hours)));
+
+export function getWaitlistOfferUrl(token: string, baseUrl: string = process.env.NEXT_PUBLIC_APP_URL || ''): string {
+  return `${baseUrl}/waitlist/offers/${token}`;
+}
+
+/**
+ * Offer counts, decline rate and time-to-fill for a set of offers
+ */
+export function summarizeWaitlistOffers(offers: Array<Pick<WaitlistOffer, 'status' | 'seatOpenedAt' | 'respondedAt'>>): WaitlistMetrics {
+  const count = (status: string) => offers.filter(offer => offer.status === status).length;
+  const accepted = count(WAITLIST_OFFER_STATUS.ACCEPTED);
+  const declined = count(WAITLIST_OFFER_STATUS.DECLINED);
+  const expired = count(WAITLIST_OFFER_STATUS.EXPIRED);
+  const resolved = accepted + declined + expired;
+
+  const fillTimes = offers
+    .filter(offer => offer.status === WAITLIST_OFFER_STATUS.ACCEPTED && offer.respondedAt)
+    .map(offer => new Date(offer.respondedAt!).getTime() - new Date(offer.seatOpenedAt).getTime());
+
+  return {
+    offersMade: offers.length,
+    accepted,
+    declined,
+    expired,
+    pending: count(WAITLIST_OFFER_STATUS.PENDING),
+    declineRate: resolved > 0 ? Math.round((declined / resolved) * 100) : 0,
+    expiryRate: resolved > 0 ? Math.round((expired / resolved) * 100) : 0,
+    averageTimeToFillHours: fillTimes.length > 0
+      ? Math.round((fillTimes.reduce((sum, ms) => sum + ms, 0) / fillTimes.length / HOUR_MS) * 10) / 10
+      : null
+  };
+}
+
+function offerError<T>(code: string, message: string, details?: any): HourApiResponse<T> {
+  return { success: false, error: { code, message, details } };
+}
+
+export class WaitlistOfferService {
+  private supabase;
+  private mailer;
+
+  constructor(client: any = defaultClient, mailer: any = null) {
+    this.supabase = client;
+    this.mailer = mailer;
+  }
+
+  /**
+   * Offer a free seat to the first waitlisted student without an open offer
+   * who has enough available hours. Students short of hours are skipped and
+   * keep their place. Returns null when nobody can be offered the seat.
+   */
+  async offerNextSeat(classId: string, options: OfferSeatOptions = {}): Promise<HourApiResponse<WaitlistOffer | null>> {
+    try {
+      const [{ data: waitlisted, error: waitlistError }, { data: pending, error: pendingError }, { data: classRow }] = await Promise.all([
+        this.supabase
+          .from('class_enrollments')
+          .select('id, student_id')
+          .eq('class_id', classId)
+          .eq('status', ENROLLMENT_STATUS.WAITLISTED)
+          .order('position_in_waitlist', { ascending: true }),
+        this.supabase
+          .from('waitlist_offers')
+          .select('enrollment_id')
+          .eq('class_id', classId)
+          .eq('status', WAITLIST_OFFER_STATUS.PENDING),
+        this.supabase
+          .from('classes')
+          .select('title, waitlist_offer_hours')
+          .eq('id', classId)
+          .maybeSingle()
+      ]);
+
+      if (waitlistError) throw waitlistError;
+      if (pendingError) throw pendingError;
+
+      const offered = new Set((pending || []).map((row: any) => row.enrollment_id));
+      const windowHours = clampWindowHours(
+        options.windowHours ?? classRow?.waitlist_offer_hours ?? WAITLIST_OFFER.DEFAULT_WINDOW_HOURS
+      );
+
+      for (const entry of (waitlisted || []).filter((row: any) => !offered.has(row.id))) {
+        const { data: availableHours, error: hoursError } = await this.supabase.rpc('calculate_available_student_hours', {
+          p_student_id: entry.student_id
+        });
+        if (hoursError) throw hoursError;
+
+        if ((availableHours || 0) < WAITLIST_OFFER.RESERVED_HOURS) {
+          logger.info(`Skipping waitlist offer for student ${entry.student_id}: not enough available hours`);
+          continue;
+        }
+
+        const now = new Date();
+        const { data, error } = await this.supabase
+          .from('waitlist_offers')
+          .insert({
+            class_id: classId,
+            enrollment_id: entry.id,
+            student_id: entry.student_id,
+            status: WAITLIST_OFFER_STATUS.PENDING,
+            reserved_hours: WAITLIST_OFFER.RESERVED_HOURS,
+            seat_opened_at: options.seatOpenedAt || now.toISOString(),
+            offered_at: now.toISOString(),
+            expires_at: new Date(now.getTime() + windowHours * HOUR_MS).toISOString()
+          })
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        const offer = { ...this.transformOffer(data), className: classRow?.title };
+        await this.sendOfferEmail(offer, windowHours);
+        return { success: true, data: offer };
+      }
+
+      return { success: true, data: null };
+    } catch (error) {
+      logger.error('Failed to offer waitlist seat:', error);
+      return offerError('OFFER_SEAT_ERROR', 'Failed to offer the seat to the waitlist', error);
+    }
+  }
+
+  async getOfferByToken(token: string): Promise<HourApiResponse<WaitlistOffer>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('waitlist_offers')
+        .select('*, class:classes(title)')
+        .eq('token', token)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return offerError('OFFER_NOT_FOUND', 'This offer link is not valid');
+
+      return { success: true, data: this.transformOffer(data) };
+    } catch (error) {
+      return offerError('FETCH_OFFER_ERROR', 'Failed to fetch waitlist offer', error);
+    }
+  }
+
+  /**
+   * Waiting list of a class in order, with each student's open offer
+   */
+  async getWaitingList(classId: string): Promise<HourApiResponse<WaitlistEntry[]>> {
+    try {
+      const [{ data: waitlisted, error: waitlistError }, { data: pending, error: pendingError }] = await Promise.all([
+        this.supabase
+          .from('class_enrollments')
+          .select('id, class_id, student_id, position_in_waitlist, waitlisted_at, student:users!class_enrollments_student_id_fkey(first_name, last_name, email)')
+          .eq('class_id', classId)
+          .eq('status', ENROLLMENT_STATUS.WAITLISTED)
+          .order('position_in_waitlist', { ascending: true }),
+        this.supabase
+          .from('waitlist_offers')
+          .select('*')
+          .eq('class_id', classId)
+          .eq('status', WAITLIST_OFFER_STATUS.PENDING)
+      ]);
+
+      if (waitlistError) throw waitlistError;
+      if (pendingError) throw pendingError;
+
+      const offers = new Map((pending || []).map((row: any) => [row.enrollment_id, this.transformOffer(row)]));
+
+      return {
+        success: true,
+        data: (waitlisted || []).map((row: any) => ({
+          enrollmentId: row.id,
+          classId: row.class_id,
+          studentId: row.student_id,
+          position: row.position_in_waitlist || 0,
+          waitlistedAt: row.waitlisted_at,
+          studentName: [row.student?.first_name, row.student?.last_name].filter(Boolean).join(' '),
+          studentEmail: row.student?.email || undefined,
+          offer: offers.get(row.id)
+        }))
+      };
+    } catch (error) {
+      return offerError('FETCH_WAITLIST_ERROR', 'Failed to fetch the waiting list', error);
+    }
+  }
+
+  /**
+   * Open offers for a student's dashboard
+   */
+  async getStudentOffers(studentId: string): Promise<HourApiResponse<WaitlistOffer[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('waitlist_offers')
+        .select('*, class:classes(title)')
+        .eq('student_id', studentId)
+        .eq('status', WAITLIST_OFFER_STATUS.PENDING)
+        .gt('expires_at', new Date().toISOString())
+        .order('expires_at', { ascending: true });
+
+      if (error) throw error;
+
+      return { success: true, data: (data || []).map((row: any) => this.transformOffer(row)) };
+    } catch (error) {
+      return offerError('FETCH_OFFER_ERROR', 'Failed to fetch waitlist offers', error);
+    }
+  }
+
+  /**
+   * Accept or decline an offer from the email link or the dashboard
+   */
+  async respondToOffer(token: string, action: WaitlistOfferAction): Promise<HourApiResponse<WaitlistOffer>> {
+    const found = await this.getOfferByToken(token);
+    if (!found.success || !found.data) return found;
+
+    const offer = found.data;
+    if (offer.status !== WAITLIST_OFFER_STATUS.PENDING) {
+      return offerError('OFFER_NOT_PENDING', `This offer has already been ${offer.status}`);
+    }
+
+    try {
+      if (new Date(offer.expiresAt).getTime() <= Date.now()) {
+        await this.lapseOffer(offer, WAITLIST_OFFER_STATUS.EXPIRED);
+        return offerError('OFFER_EXPIRED', 'This offer has expired and the seat was passed on');
+      }
+
+      if (action === 'decline') {
+        const declined = await this.lapseOffer(offer, WAITLIST_OFFER_STATUS.DECLINED);
+        if (!declined) return offerError('OFFER_NOT_PENDING', 'This offer is no longer open');
+        return { success: true, data: { ...offer, status: 'declined', respondedAt: declined } };
+      }
+
+      const { data, error } = await this.supabase.rpc('accept_waitlist_offer', { p_offer_id: offer.id });
+
+      if (error) {
+        const message = String(error.message || '');
+        if (message.includes('INSUFFICIENT_HOURS')) {
+          return offerError('INSUFFICIENT_HOURS', 'You no longer have enough hours to take this seat', error);
+        }
+        if (message.includes('OFFER_NOT_PENDING') || message.includes('OFFER_EXPIRED')) {
+          return offerError('OFFER_NOT_PENDING', 'This offer is no longer open', error);
+        }
+        throw error;
+      }
+
+      await this.renumberWaitlist(offer.classId);
+
+      return { success: true, data: { ...offer, status: 'accepted', respondedAt: data?.responded_at || new Date().toISOString() } };
+    } catch (error) {
+      logger.error('Failed to respond to waitlist offer:', error);
+      return offerError('RESPOND_OFFER_ERROR', 'Failed to record your response', error);
+    }
+  }
+
+  /**
+   * Expire lapsed offers and pass each seat to the next student. Run on a schedule.
+   */
+  async expireOffers(now: Date = new Date()): Promise<WaitlistOfferSweepResult> {
+    const result: WaitlistOfferSweepResult = { expired: 0, reoffered: 0, errors: [] };
+
+    const { data, error } = await this.supabase
+      .from('waitlist_offers')
+      .select('*')
+      .eq('status', WAITLIST_OFFER_STATUS.PENDING)
+      .lte('expires_at', now.toISOString());
+
+    if (error) {
+      result.errors.push(error.message || 'Failed to fetch lapsed offers');
+      return result;
+    }
+
+    for (const row of data || []) {
+      try {
+        const offer = this.transformOffer(row);
+        if (!(await this.closeOffer(offer.id, WAITLIST_OFFER_STATUS.EXPIRED))) continue;
+        result.expired++;
+        if (await this.passOn(offer)) result.reoffered++;
+      } catch (sweepError) {
+        result.errors.push(sweepError instanceof Error ? sweepError.message : `Failed to expire offer ${row.id}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Number of seats held by open offers in a class
+   */
+  async countHeldSeats(classId: string): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('waitlist_offers')
+      .select('id', { count: 'exact', head: true })
+      .eq('class_id', classId)
+      .eq('status', WAITLIST_OFFER_STATUS.PENDING);
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async getClassMetrics(classId: string): Promise<WaitlistMetrics> {
+    const { data, error } = await this.supabase
+      .from('waitlist_offers')
+      .select('status, seat_opened_at, responded_at')
+      .eq('class_id', classId);
+
+    if (error) throw error;
+
+    return summarizeWaitlistOffers((data || []).map((row: any) => ({
+      status: row.status,
+      seatOpenedAt: row.seat_opened_at,
+      respondedAt: row.responded_at || undefined
+    })));
+  }
+
+  /**
+   * Close a declined or expired offer and pass the seat on. Returns the
+   * response time, or null if another request closed the offer first.
+   */
+  private async lapseOffer(offer: WaitlistOffer, status: 'declined' | 'expired'): Promise<string | null> {
+    const respondedAt = await this.closeOffer(offer.id, status);
+    if (respondedAt) await this.passOn(offer);
+    return respondedAt;
+  }
+
+  private async passOn(offer: WaitlistOffer): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('class_enrollments')
+      .update({ status: ENROLLMENT_STATUS.DROPPED, position_in_waitlist: null })
+      .eq('id', offer.enrollmentId);
+
+    if (error) throw error;
+
+    await this.renumberWaitlist(offer.classId);
+
+    const next = await this.offerNextSeat(offer.classId, { seatOpenedAt: offer.seatOpenedAt });
+    return !!next.data;
+  }
+
+  /**
+   * Move a pending offer to its final status; only one caller can win
+   */
+  private async closeOffer(offerId: string, status: string): Promise<string | null> {
+    const respondedAt = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from('waitlist_offers')
+      .update({ status, responded_at: respondedAt })
+      .eq('id', offerId)
+      .eq('status', WAITLIST_OFFER_STATUS.PENDING)
+      .select('id');
+
+    if (error) throw error;
+    return data && data.length > 0 ? respondedAt : null;
+  }
+
+  private async renumberWaitlist(classId: string): Promise<void> {
+    const { data: waitlisted, error } = await this.supabase
+      .from('class_enrollments')
+      .select('id')
+      .eq('class_id', classId)
+      .eq('status', ENROLLMENT_STATUS.WAITLISTED)
+      .order('waitlisted_at', { ascending: true });
+
+    if (error) throw error;
+
+    for (const [index, entry] of (waitlisted || []).entries()) {
+      await this.supabase
+        .from('class_enrollments')
+        .update({ position_in_waitlist: index + 1 })
+        .eq('id', entry.id);
+    }
+  }
+
+  private async sendOfferEmail(offer: WaitlistOffer, windowHours: number): Promise<void> {
+    try {
+      const { data: student } = await this.supabase
+        .from('users')
+        .select('email, first_name, last_name')
+        .eq('id', offer.studentId)
+        .maybeSingle();
+
+      if (!student?.email) return;
+
+      const className = offer.className || 'your class';
+      const link = getWaitlistOfferUrl(offer.token);
+      const mailer = this.mailer || getEmailQueueService();
+
+      await mailer.addToQueue({
+        to: [{ email: student.email, name: [student.first_name, student.last_name].filter(Boolean).join(' ') }],
+        subject: `A seat is available in ${className}`,
+        html: `<p>Hi ${student.first_name || 'there'},</p>
+<p>A seat has opened up in <strong>${className}</strong> and it is yours if you want it.
+We are holding it, and ${offer.reservedHours} hour(s) of your balance, for ${windowHours} hours.</p>
+<p><a href="${link}">Accept or decline the seat</a></p>
+<p>If we don't hear from you by ${new Date(offer.expiresAt).toUTCString()}, the seat will be offered to the next student.</p>`,
+        text: `A seat has opened up in ${className}. Accept or decline within ${windowHours} hours: ${link}`,
+        priority: EmailPriority.HIGH,
+        tags: ['waitlist', 'offer']
+      }, { priority: EmailPriority.HIGH, maxAttempts: 3 });
+    } catch (error) {
+      logger.error('Failed to send waitlist offer email:', error);
+    }
+  }
+
+  private transformOffer(data: any): WaitlistOffer {
+    return {
+      id: data.id,
+      classId: data.class_id,
+      enrollmentId: data.enrollment_id,
+      studentId: data.student_id,
+      status: data.status,
+      reservedHours: data.reserved_hours,
+      token: data.token,
+      seatOpenedAt: data.seat_opened_at,
+      offeredAt: data.offered_at,
+      expiresAt: data.expires_at,
+      respondedAt: data.responded_at || undefined,
+      className: data.class?.title || undefined
+    };
+  }
+}
+
+// Export singleton instance
+export const waitlistOfferService = new WaitlistOfferService();
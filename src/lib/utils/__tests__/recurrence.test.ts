@@ -0,0 +1,136 @@
+import {
+  expandRecurrenceDates,
+  expandRecurringPattern,
+  formatRRule,
+  parseRRule
+} from '../recurrence';
+import { formatTimeInTimeZone } from '../timezone';
+import type { RecurringAvailabilityPattern } from '@/types/scheduling';
+
+describe('recurrence utilities', () => {
+  describe('parseRRule', () => {
+    it('should round-trip supported rule parts', () => {
+      const rule = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,2MO;COUNT=6;WKST=SU');
+
+      expect(rule).toEqual({
+        frequency: 'MONTHLY',
+        interval: 2,
+        byDay: [{ dayOfWeek: 5, ordinal: -1 }, { dayOfWeek: 1, ordinal: 2 }],
+        count: 6,
+        weekStart: 0
+      });
+      expect(formatRRule(rule)).toBe('FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,2MO;COUNT=6;WKST=SU');
+      expect(parseRRule('FREQ=WEEKLY;UNTIL=20261231T235959Z').until).toBe('2026-12-31');
+    });
+
+    it('should reject rules it cannot expand', () => {
+      expect(() => parseRRule('FREQ=YEARLY')).toThrow('Unsupported RRULE frequency');
+      expect(() => parseRRule('FREQ=WEEKLY;BYSETPOS=1')).toThrow('Unsupported RRULE part');
+      expect(() => parseRRule('FREQ=WEEKLY;BYDAY=XX')).toThrow('Invalid RRULE BYDAY');
+    });
+  });
+
+  describe('expandRecurrenceDates', () => {
+    it('should skip exception dates and add one-off dates', () => {
+      const dates = expandRecurrenceDates(
+        parseRRule('FREQ=WEEKLY;BYDAY=MO,WE'),
+        '2026-12-01',
+        '2026-12-14',
+        '2026-12-31',
+        {
+          exceptionDates: ['2026-12-21', '2026-12-23', '20261225'],
+          additionalDates: ['2026-12-26', '2026-12-25', '2027-01-02']
+        }
+      );
+
+      expect(dates).toEqual(['2026-12-14', '2026-12-16', '2026-12-26', '2026-12-28', '2026-12-30']);
+    });
+
+    it('should pick ordinal weekdays in monthly rules', () => {
+      const dates = expandRecurrenceDates(parseRRule('FREQ=MONTHLY;BYDAY=-1FR'), '2026-01-01', '2026-01-01', '2026-04-30');
+
+      expect(dates).toEqual(['2026-01-30', '2026-02-27', '2026-03-27', '2026-04-24']);
+    });
+
+    it('should count occurrences from DTSTART when the window starts later', () => {
+      const rule = parseRRule('FREQ=DAILY;INTERVAL=3;COUNT=5');
+
+      expect(expandRecurrenceDates(rule, '2026-03-01', '2026-03-08', '2026-03-31'))
+        .toEqual(['2026-03-10', '2026-03-13']);
+    });
+
+    it('should keep the interval phase when jumping to a distant window', () => {
+      const dates = expandRecurrenceDates(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU'), '2020-01-07', '2030-01-01', '2030-01-31');
+
+      // 2020-01-07 plus a multiple of 14 days
+      expect(dates).toEqual(['2030-01-08', '2030-01-22']);
+    });
+
+    it('should stop at UNTIL', () => {
+      expect(expandRecurrenceDates(parseRRule('FREQ=MONTHLY;BYMONTHDAY=31;UNTIL=20260630'), '2026-01-31', '2026-01-01', '2026-12-31'))
+        .toEqual(['2026-01-31', '2026-03-31', '2026-05-31']);
+    });
+  });
+
+  describe('expandRecurringPattern', () => {
+    const pattern: RecurringAvailabilityPattern = {
+      id: 'pattern-1',
+      daysOfWeek: [1, 5],
+      startTime: '09:00',
+      endTime: '10:00',
+      timeZone: 'Europe/London',
+      patternType: 'weekly',
+      duration: 60,
+      isActive: true,
+      effectiveFrom: '2025-03-01'
+    };
+
+    it('should keep the local time stable across a DST change', () => {
+      const slots = expandRecurringPattern(pattern, '2025-03-24', '2025-04-04');
+
+      expect(slots.map(slot => slot.startTime)).toEqual([
+        '2025-03-24T09:00:00.000Z',
+        '2025-03-28T09:00:00.000Z',
+        '2025-03-31T08:00:00.000Z',
+        '2025-04-04T08:00:00.000Z'
+      ]);
+      expect(slots.every(slot => slot.duration === 60 && slot.timeZone === 'Europe/London')).toBe(true);
+      expect(formatTimeInTimeZone(slots[2].startTime, 'Asia/Manila')).toBe('4:00 PM GMT+8');
+    });
+
+    it('should only repeat biweekly patterns every other week', () => {
+      const slots = expandRecurringPattern(
+        { ...pattern, daysOfWeek: [1], patternType: 'biweekly', effectiveFrom: '2025-03-03' },
+        '2025-03-01',
+        '2025-03-31'
+      );
+
+      expect(slots.map(slot => slot.metadata?.localDate)).toEqual(['2025-03-03', '2025-03-17', '2025-03-31']);
+    });
+
+    it('should expand custom rules with exceptions', () => {
+      const slots = expandRecurringPattern(
+        {
+          ...pattern,
+          patternType: 'custom',
+          rrule: 'FREQ=WEEKLY;BYDAY=MO,WE',
+          startTime: '18:00',
+          endTime: '21:00',
+          exceptionDates: ['2025-03-26']
+        },
+        '2025-03-24',
+        '2025-04-04'
+      );
+
+      expect(slots.map(slot => slot.metadata?.localDate)).toEqual(['2025-03-24', '2025-03-31', '2025-04-02']);
+      expect(slots[0].duration).toBe(180);
+    });
+
+    it('should respect the effective date range', () => {
+      const slots = expandRecurringPattern({ ...pattern, effectiveUntil: '2025-03-27' }, '2025-03-24', '2025-04-04');
+
+      expect(slots).toHaveLength(1);
+    });
+  });
+
+});
@@ -0,0 +1,62 @@
+import {
+  getSlotStart,
+  getTimeZoneOffsetMinutes,
+  getZonedParts,
+  resolveTimeZone,
+  zonedTimeToUtc
+} from '../timezone';
+
+describe('timezone utilities', () => {
+  describe('resolveTimeZone', () => {
+    it('should pick the first valid IANA zone', () => {
+      expect(resolveTimeZone(undefined, 'Not/AZone', 'Asia/Manila', 'Europe/London')).toBe('Asia/Manila');
+    });
+
+    it('should fall back to UTC', () => {
+      expect(resolveTimeZone(null, '')).toBe('UTC');
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should convert wall-clock time using the offset on that date', () => {
+      expect(zonedTimeToUtc('2025-03-28', '09:00', 'Europe/London').toISOString()).toBe('2025-03-28T09:00:00.000Z');
+      expect(zonedTimeToUtc('2025-03-31', '09:00', 'Europe/London').toISOString()).toBe('2025-03-31T08:00:00.000Z');
+      expect(zonedTimeToUtc('2025-07-01', '09:00', 'Asia/Manila').toISOString()).toBe('2025-07-01T01:00:00.000Z');
+    });
+
+    it('should move times skipped by a DST jump forward', () => {
+      expect(zonedTimeToUtc('2025-03-09', '02:30', 'America/New_York').toISOString()).toBe('2025-03-09T07:30:00.000Z');
+      expect(getZonedParts('2025-03-09T07:30:00.000Z', 'America/New_York').time).toBe('03:30');
+    });
+
+    it('should resolve repeated times to the later occurrence', () => {
+      expect(zonedTimeToUtc('2025-11-02', '01:30', 'America/New_York').toISOString()).toBe('2025-11-02T06:30:00.000Z');
+    });
+
+    it('should round-trip through getZonedParts', () => {
+      const instant = zonedTimeToUtc('2025-11-02', '18:45', 'America/Los_Angeles');
+      const parts = getZonedParts(instant, 'America/Los_Angeles');
+
+      expect(parts.date).toBe('2025-11-02');
+      expect(parts.time).toBe('18:45');
+      expect(parts.dayOfWeek).toBe(0);
+      expect(getTimeZoneOffsetMinutes(instant, 'America/Los_Angeles')).toBe(-480);
+    });
+  });
+
+  describe('getSlotStart', () => {
+    it('should place wall-clock slots on the next matching day in their zone', () => {
+      const start = getSlotStart(
+        { startTime: '09:00', dayOfWeek: 1, timeZone: 'Asia/Manila' },
+        new Date('2025-07-01T00:00:00Z')
+      );
+
+      expect(start.toISOString()).toBe('2025-07-07T01:00:00.000Z');
+    });
+
+    it('should pass ISO slots through unchanged', () => {
+      expect(getSlotStart({ startTime: '2025-07-07T01:00:00.000Z', dayOfWeek: 1 }).toISOString())
+        .toBe('2025-07-07T01:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer.
+ *
+ * Events are written with UTC DTSTART/DTEND, so calendar clients show them in
+ * each viewer's own zone. Lines are CRLF-terminated and folded at 75 octets.
+ */
+
+import type { EmailAttachment } from '@/lib/services/email-service';
+import type {
+  CalendarEvent,
+  CalendarInviteAction,
+  CalendarMethod
+} from '@/types/calendar';
+
+const PRODUCT_ID = '-//HeyPeter Academy//Class Calendar//EN';
+const MAX_LINE_OCTETS = 75;
+
+const INVITE_METHODS: Record<CalendarInviteAction, CalendarMethod> = {
+  request: 'REQUEST',
+  update: 'REQUEST',
+  cancel: 'CANCEL'
+};
+
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) || 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+}
+
+/**
+ * Fold a content line so no physical line exceeds 75 octets
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+      // Continuation lines start with a space, which counts towards the limit
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * UTC date-time in the basic format, e.g. 20250731T090000Z
+ */
+export function formatIcsDate(value: Date | string): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatAddress(property: string, person: { name?: string; email: string }, extra = ''): string {
+  const name = person.name ? `;CN="${person.name.replace(/"/g, "'")}"` : '';
+  return `${property}${name}${extra}:mailto:${person.email}`;
+}
+
+function eventLines(event: CalendarEvent, method: CalendarMethod, stamp: Date): string[] {
+  const status = method === 'CANCEL' ? 'CANCELLED' : event.status.toUpperCase();
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatIcsDate(stamp)}`,
+    `DTSTART:${formatIcsDate(event.startTime)}`,
+    `DTEND:${formatIcsDate(event.endTime)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    `STATUS:${status}`,
+    `CATEGORIES:${event.kind.toUpperCase().replace(/_/g, '-')}`
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.organizer) lines.push(formatAddress('ORGANIZER', event.organizer));
+  for (const attendee of event.attendees || []) {
+    lines.push(formatAddress('ATTENDEE', attendee, ';ROLE=REQ-PARTICIPANT;RSVP=FALSE'));
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build a VCALENDAR document
+ */
+export function buildIcsCalendar(
+  events: CalendarEvent[],
+  options: { method?: CalendarMethod; name?: string; timeZone?: string; stamp?: Date } = {}
+): string {
+  const method = options.method || 'PUBLISH';
+  const stamp = options.stamp || new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`
+  ];
+
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeIcsText(options.name)}`);
+  if (options.timeZone) lines.push(`X-WR-TIMEZONE:${options.timeZone}`);
+  for (const event of events) {
+    lines.push(...eventLines(event, method, stamp));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Email attachment carrying a single-event invite, cancellation or update
+ */
+export function createCalendarInviteAttachment(
+  event: CalendarEvent,
+  action: CalendarInviteAction
+): EmailAttachment {
+  const method = INVITE_METHODS[action];
+
+  return {
+    filename: action === 'cancel' ? 'cancel.ics' : 'invite.ics',
+    data: buildIcsCalendar([event], { method }),
+    contentType: `text/calendar; charset=utf-8; method=${method}`
+  };
+}
+
+export interface IcsEventDates {
+  uid?: string;
+  summary?: string;
+  description?: string;
+  /** First local date (YYYY-MM-DD) the event covers */
+  startDate: string;
+  /** Last local date (YYYY-MM-DD) the event covers, inclusive */
+  endDate: string;
+}
+
+export function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+function icsDateValue(value: string): { date: string; midnight: boolean } {
+  const date = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+  return { date, midnight: value.length <= 8 || value.slice(9, 15) === '000000' };
+}
+
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Read the date range of each VEVENT in an iCalendar document. Dates are taken
+ * as written (in the event's own zone); exclusive DTEND values at midnight are
+ * turned into the last covered date.
+ */
+export function parseIcsEvents(content: string): {
+  events: IcsEventDates[];
+  errors: Array<{ index: number; message: string }>;
+} {
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEventDates[] = [];
+  const errors: Array<{ index: number; message: string }> = [];
+  let current: Record<string, string> | null = null;
+  let index = 0;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      index++;
+      continue;
+    }
+    if (!current) continue;
+
+    if (line === 'END:VEVENT') {
+      const start = current.DTSTART ? icsDateValue(current.DTSTART) : null;
+      if (!start || !/^\d{4}-\d{2}-\d{2}$/.test(start.date)) {
+        errors.push({ index, message: 'Event has no valid DTSTART' });
+      } else {
+        const end = current.DTEND ? icsDateValue(current.DTEND) : null;
+        const endDate = !end || end.date <= start.date
+          ? start.date
+          : end.midnight ? shiftDate(end.date, -1) : end.date;
+        events.push({
+          uid: current.UID,
+          summary: current.SUMMARY !== undefined ? unescapeIcsText(current.SUMMARY) : undefined,
+          description: current.DESCRIPTION !== undefined ? unescapeIcsText(current.DESCRIPTION) : undefined,
+          startDate: start.date,
+          endDate
+        });
+      }
+      current = null;
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      // Property parameters (e.g. ";VALUE=DATE" or ";TZID=...") are not needed for dates
+      const name = line.slice(0, separator).split(';')[0].toUpperCase();
+      current[name] = line.slice(separator + 1);
+    }
+  }
+
+  return { events, errors };
+}
@@ -0,0 +1,164 @@
+/**
+ * Minimal PDF writer for generated documents (invoices, certificates).
+ *
+ * Supports text in the standard Helvetica fonts and straight lines on A4
+ * pages. Coordinates are in points measured from the top-left corner.
+ * Characters outside Latin-1 are replaced with "?".
+ */
+
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right' | 'center';
+}
+
+// Approximate Helvetica advance widths (per 1000 units) for layout
+const NARROW_CHARS = ' .,:;!|il\'[]()/-';
+const WIDE_CHARS = 'MWmw@%';
+
+function charWidth(char: string, bold: boolean): number {
+  if (/[0-9]/.test(char)) return 556;
+  if (NARROW_CHARS.includes(char)) return 278;
+  if (WIDE_CHARS.includes(char)) return 833;
+  if (/[A-Z]/.test(char)) return bold ? 722 : 667;
+  return bold ? 611 : 556;
+}
+
+export function measurePdfText(text: string, size: number = 10, bold: boolean = false): number {
+  let width = 0;
+  for (const char of text) {
+    width += charWidth(char, bold);
+  }
+  return (width / 1000) * size;
+}
+
+/**
+ * Break text into lines no wider than maxWidth, on word boundaries
+ */
+export function wrapPdfText(text: string, maxWidth: number, size: number = 10, bold: boolean = false): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measurePdfText(candidate, size, bold) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function escapePdfText(text: string): string {
+  return Array.from(text)
+    .map(char => (char.charCodeAt(0) > 255 ? '?' : char))
+    .join('')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)')
+    .replace(/[\r\n]/g, ' ');
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  addPage(): this {
+    this.pages.push([]);
+    return this;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): this {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const width = measurePdfText(text, size, bold);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+
+    this.currentPage.push(
+      `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(PDF_PAGE_HEIGHT - y)} Td (${escapePdfText(text)}) Tj ET`
+    );
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width: number = 0.5): this {
+    this.currentPage.push(
+      `${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(PDF_PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PDF_PAGE_HEIGHT - y2)} l S`
+    );
+    return this;
+  }
+
+  rect(x: number, y: number, width: number, height: number, lineWidth: number = 0.5): this {
+    this.currentPage.push(
+      `${formatNumber(lineWidth)} w ${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re S`
+    );
+    return this;
+  }
+
+  /**
+   * Serialize the document to PDF bytes
+   */
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+
+    // 1: catalog, 2: page tree, 3-4: fonts, then page/content pairs
+    const pageObjectIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((operations, index) => {
+      const pageId = pageObjectIds[index];
+      const content = operations.join('\n');
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    // Every character is Latin-1 at this point, so one character maps to one byte
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+  }
+
+  private get currentPage(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
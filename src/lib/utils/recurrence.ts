@@ -0,0 +1,319 @@
+/**
+ * RFC 5545 recurrence (RRULE with EXDATE and RDATE) for availability.
+ *
+ * Rules are expanded over local calendar dates (YYYY-MM-DD in the pattern's
+ * zone) and only then given times with `zonedTimeToUtc`, so a DST change never
+ * moves an occurrence to another day. Expansion starts at the period that
+ * contains the requested window instead of at DTSTART, unless COUNT means the
+ * earlier occurrences have to be counted.
+ */
+
+import { addDaysToDate, getDayOfWeek, resolveTimeZone, zonedTimeToUtc } from './timezone';
+import type { RecurrenceRule, RecurringAvailabilityPattern, TimeSlot } from '@/types/scheduling';
+
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceRule['frequency'][] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL', 'WKST'];
+const BY_DAY = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface RecurrenceExceptions {
+  /** EXDATE: dates removed from the rule's occurrences */
+  exceptionDates?: string[];
+  /** RDATE: one-off dates added to the rule's occurrences */
+  additionalDates?: string[];
+}
+
+/**
+ * Local date from YYYY-MM-DD, an ICS date (20261222 or 20261222T090000Z) or an ISO timestamp
+ */
+export function normalizeRecurrenceDate(value: string): string {
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})(T|$)/);
+  return compact ? `${compact[1]}-${compact[2]}-${compact[3]}` : value.slice(0, 10);
+}
+
+function parsePositiveInteger(name: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`Invalid RRULE ${name}: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * Parse an RRULE value such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue;
+    const [name, partValue = ''] = part.split('=');
+    const key = name.toUpperCase();
+    if (!SUPPORTED_PARTS.includes(key)) {
+      throw new Error(`Unsupported RRULE part: ${name}`);
+    }
+    parts.set(key, partValue.toUpperCase());
+  }
+
+  const frequency = parts.get('FREQ') as RecurrenceRule['frequency'];
+  if (!FREQUENCIES.includes(frequency)) {
+    throw new Error(`Unsupported RRULE frequency: ${parts.get('FREQ') || 'missing'}`);
+  }
+
+  const rule: RecurrenceRule = { frequency, interval: 1, weekStart: 1 };
+
+  if (parts.has('INTERVAL')) rule.interval = parsePositiveInteger('INTERVAL', parts.get('INTERVAL')!);
+  if (parts.has('COUNT')) rule.count = parsePositiveInteger('COUNT', parts.get('COUNT')!);
+  if (parts.has('UNTIL')) rule.until = normalizeRecurrenceDate(parts.get('UNTIL')!);
+  if (parts.has('WKST')) {
+    rule.weekStart = ICS_WEEKDAYS.indexOf(parts.get('WKST')!);
+    if (rule.weekStart < 0) throw new Error(`Invalid RRULE WKST: ${parts.get('WKST')}`);
+  }
+  if (parts.has('BYDAY')) {
+    rule.byDay = parts.get('BYDAY')!.split(',').map(item => {
+      const match = item.match(BY_DAY);
+      if (!match) throw new Error(`Invalid RRULE BYDAY: ${item}`);
+      const ordinal = match[1] ? Number(match[1]) : undefined;
+      return ordinal ? { dayOfWeek: ICS_WEEKDAYS.indexOf(match[2]), ordinal } : { dayOfWeek: ICS_WEEKDAYS.indexOf(match[2]) };
+    });
+  }
+  if (parts.has('BYMONTHDAY')) {
+    rule.byMonthDay = parts.get('BYMONTHDAY')!.split(',').map(item => {
+      const day = Number(item);
+      if (!Number.isInteger(day) || day === 0 || Math.abs(day) > 31) {
+        throw new Error(`Invalid RRULE BYMONTHDAY: ${item}`);
+      }
+      return day;
+    });
+  }
+
+  return rule;
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${ICS_WEEKDAYS[day.dayOfWeek]}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.weekStart !== 1) parts.push(`WKST=${ICS_WEEKDAYS[rule.weekStart]}`);
+
+  return parts.join(';');
+}
+
+// ========================================
+// Calendar arithmetic on YYYY-MM-DD dates
+// ========================================
+
+function monthIndex(date: string): number {
+  const [year, month] = date.split('-').map(Number);
+  return year * 12 + month - 1;
+}
+
+function monthDate(index: number, day: number): string {
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function daysInMonth(index: number): number {
+  return new Date(Date.UTC(Math.floor(index / 12), (index % 12) + 1, 0)).getUTCDate();
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function startOfWeek(date: string, weekStart: number): string {
+  return addDaysToDate(date, -((getDayOfWeek(date) - weekStart + 7) % 7));
+}
+
+function matchesMonthDay(date: string, byMonthDay: number[]): boolean {
+  const day = Number(date.slice(8, 10));
+  const length = daysInMonth(monthIndex(date));
+  return byMonthDay.some(target => (target > 0 ? target : length + target + 1) === day);
+}
+
+/**
+ * First date of the nth period (day, week or month) after DTSTART's period
+ */
+function periodStart(rule: RecurrenceRule, dtstart: string, period: number): string {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return addDaysToDate(dtstart, period * rule.interval);
+    case 'WEEKLY':
+      return addDaysToDate(startOfWeek(dtstart, rule.weekStart), period * rule.interval * 7);
+    case 'MONTHLY':
+      return monthDate(monthIndex(dtstart) + period * rule.interval, 1);
+  }
+}
+
+/**
+ * Index of the period containing `date`
+ */
+function periodContaining(rule: RecurrenceRule, dtstart: string, date: string): number {
+  if (date <= dtstart) return 0;
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      return Math.floor(daysBetween(dtstart, date) / rule.interval);
+    case 'WEEKLY':
+      return Math.floor(daysBetween(startOfWeek(dtstart, rule.weekStart), date) / (7 * rule.interval));
+    case 'MONTHLY':
+      return Math.floor((monthIndex(date) - monthIndex(dtstart)) / rule.interval);
+  }
+}
+
+/**
+ * Occurrence dates within one period, in order
+ */
+function periodDates(rule: RecurrenceRule, dtstart: string, period: number): string[] {
+  const start = periodStart(rule, dtstart, period);
+  const weekdays = rule.byDay?.map(day => day.dayOfWeek);
+
+  if (rule.frequency === 'DAILY') {
+    const matches = (!weekdays || weekdays.includes(getDayOfWeek(start)))
+      && (!rule.byMonthDay || matchesMonthDay(start, rule.byMonthDay));
+    return matches ? [start] : [];
+  }
+
+  if (rule.frequency === 'WEEKLY') {
+    const offsets = (weekdays || [getDayOfWeek(dtstart)]).map(day => (day - rule.weekStart + 7) % 7);
+    return Array.from(new Set(offsets))
+      .sort((a, b) => a - b)
+      .map(offset => addDaysToDate(start, offset))
+      .filter(date => !rule.byMonthDay || matchesMonthDay(date, rule.byMonthDay));
+  }
+
+  const index = monthIndex(start);
+  const length = daysInMonth(index);
+  const days = new Set<number>();
+
+  if (rule.byMonthDay) {
+    for (const target of rule.byMonthDay) {
+      const day = target > 0 ? target : length + target + 1;
+      if (day >= 1 && day <= length && (!weekdays || weekdays.includes(getDayOfWeek(monthDate(index, day))))) {
+        days.add(day);
+      }
+    }
+  } else if (rule.byDay) {
+    const firstWeekday = getDayOfWeek(start);
+    for (const { dayOfWeek, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1 + ((dayOfWeek - firstWeekday + 7) % 7); day <= length; day += 7) {
+        matching.push(day);
+      }
+      const selected = ordinal ? [matching[ordinal > 0 ? ordinal - 1 : matching.length + ordinal]] : matching;
+      selected.filter(Boolean).forEach(day => days.add(day));
+    }
+  } else {
+    // Same day of the month as DTSTART; months without it are skipped
+    const day = Number(dtstart.slice(8, 10));
+    if (day <= length) days.add(day);
+  }
+
+  return Array.from(days).sort((a, b) => a - b).map(day => monthDate(index, day));
+}
+
+/**
+ * Local dates a rule occurs on between two dates (inclusive). DTSTART anchors
+ * INTERVAL and COUNT; like UNTIL, it does not add an occurrence of its own.
+ * Exception dates win over additional dates.
+ */
+export function expandRecurrenceDates(
+  rule: RecurrenceRule,
+  dtstart: string,
+  fromDate: string,
+  toDate: string,
+  exceptions: RecurrenceExceptions = {}
+): string[] {
+  const start = normalizeRecurrenceDate(dtstart);
+  const last = rule.until && rule.until < toDate ? rule.until : toDate;
+  const excluded = new Set((exceptions.exceptionDates || []).map(normalizeRecurrenceDate));
+  const dates = new Set<string>();
+  let remaining = rule.count ?? Infinity;
+
+  // COUNT includes occurrences before the window, so those rules start at DTSTART
+  const firstPeriod = rule.count ? 0 : periodContaining(rule, start, fromDate);
+
+  for (let period = firstPeriod; remaining > 0 && periodStart(rule, start, period) <= last; period++) {
+    for (const date of periodDates(rule, start, period)) {
+      if (date < start) continue;
+      if (date > last || remaining <= 0) break;
+      remaining--;
+      if (date >= fromDate && !excluded.has(date)) dates.add(date);
+    }
+  }
+
+  for (const date of (exceptions.additionalDates || []).map(normalizeRecurrenceDate)) {
+    if (date >= fromDate && date <= toDate && !excluded.has(date)) dates.add(date);
+  }
+
+  return Array.from(dates).sort();
+}
+
+/**
+ * The rule a pattern repeats by; weekly, biweekly and monthly patterns map onto RRULEs
+ */
+export function getPatternRecurrence(pattern: RecurringAvailabilityPattern): RecurrenceRule {
+  if (pattern.rrule) return parseRRule(pattern.rrule);
+
+  // Some availability editors number Sunday as 7
+  const byDay = Array.from(new Set(pattern.daysOfWeek.map(day => day % 7))).map(dayOfWeek => ({ dayOfWeek }));
+
+  switch (pattern.patternType) {
+    case 'biweekly':
+      // Weeks run Sunday to Saturday, counted from the week of effectiveFrom
+      return { frequency: 'WEEKLY', interval: 2, byDay, weekStart: 0 };
+    case 'monthly':
+      // First matching weekday of each month
+      return { frequency: 'MONTHLY', interval: 1, byDay: byDay.map(day => ({ ...day, ordinal: 1 })), weekStart: 1 };
+    default:
+      return { frequency: 'WEEKLY', interval: 1, byDay, weekStart: 1 };
+  }
+}
+
+/**
+ * Expand a recurring pattern into concrete slots between two dates (inclusive,
+ * YYYY-MM-DD in the pattern's zone). Each occurrence is converted on its own
+ * date, so the local time is stable when the UTC offset changes.
+ */
+export function expandRecurringPattern(
+  pattern: RecurringAvailabilityPattern,
+  fromDate: string,
+  toDate: string,
+  capacity: TimeSlot['capacity'] = { maxStudents: 1, minStudents: 1, currentEnrollment: 0, availableSpots: 1 }
+): TimeSlot[] {
+  if (!pattern.isActive) return [];
+
+  const timeZone = resolveTimeZone(pattern.timeZone);
+  const effectiveFrom = pattern.effectiveFrom.slice(0, 10);
+  const first = effectiveFrom > fromDate ? effectiveFrom : fromDate;
+  const last = pattern.effectiveUntil && pattern.effectiveUntil.slice(0, 10) < toDate
+    ? pattern.effectiveUntil.slice(0, 10)
+    : toDate;
+  if (first > last) return [];
+
+  return expandRecurrenceDates(getPatternRecurrence(pattern), effectiveFrom, first, last, pattern).map(date => {
+    const start = zonedTimeToUtc(date, pattern.startTime, timeZone);
+    const endDate = pattern.endTime > pattern.startTime ? date : addDaysToDate(date, 1);
+    const end = zonedTimeToUtc(endDate, pattern.endTime, timeZone);
+
+    return {
+      id: `${pattern.id}-${date}`,
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+      duration: Math.round((end.getTime() - start.getTime()) / MINUTE_MS),
+      dayOfWeek: getDayOfWeek(date),
+      isAvailable: true,
+      capacity: { ...capacity },
+      timeZone,
+      metadata: { patternId: pattern.id, localDate: date }
+    };
+  });
+}
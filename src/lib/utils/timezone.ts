@@ -0,0 +1,191 @@
+/**
+ * IANA time zone helpers for scheduling.
+ *
+ * Class times are stored as UTC instants. Recurring availability is stored as
+ * wall-clock HH:MM in the zone of the teacher or class location and is turned
+ * into instants one date at a time, so 09:00 stays 09:00 locally across DST
+ * changes. Wall-clock times skipped by a DST jump move forward by the jump;
+ * repeated times resolve to the later occurrence.
+ */
+
+import { TIMEZONE_DEFAULT } from '@/lib/constants';
+import type { TimeSlot } from '@/types/scheduling';
+
+export interface ZonedDateTimeParts {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  dayOfWeek: number; // 0-6, Sunday=0
+}
+
+const WALL_CLOCK_TIME = /^\d{2}:\d{2}(:\d{2})?$/;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export function isValidTimeZone(timeZone?: string | null): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * First valid zone among the candidates (e.g. class, teacher, user), else the default
+ */
+export function resolveTimeZone(...candidates: Array<string | null | undefined>): string {
+  return candidates.find(isValidTimeZone) || TIMEZONE_DEFAULT;
+}
+
+export function getBrowserTimeZone(): string {
+  return resolveTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+}
+
+export function getZonedParts(instant: Date | string, timeZone: string): ZonedDateTimeParts {
+  const values: Record<string, string> = {};
+  for (const part of partsFormatter(timeZone).formatToParts(new Date(instant))) {
+    values[part.type] = part.value;
+  }
+
+  const year = Number(values.year);
+  const month = Number(values.month);
+  const day = Number(values.day);
+  const hour = Number(values.hour);
+  const minute = Number(values.minute);
+
+  return {
+    date: `${year}-${pad(month)}-${pad(day)}`,
+    time: `${pad(hour)}:${pad(minute)}`,
+    year,
+    month,
+    day,
+    hour,
+    minute,
+    dayOfWeek: WEEKDAYS.indexOf(values.weekday)
+  };
+}
+
+/**
+ * Minutes the zone is ahead of UTC at the given instant (e.g. 480 for Asia/Manila)
+ */
+export function getTimeZoneOffsetMinutes(instant: Date | string, timeZone: string): number {
+  const date = new Date(instant);
+  const parts = getZonedParts(date, timeZone);
+  const wallClockAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const truncated = Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+  return Math.round((wallClockAsUtc - truncated) / MINUTE_MS);
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` shows `date` `time`
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Try the offsets either side of any DST change on this date
+  const before = wallClockAsUtc - getTimeZoneOffsetMinutes(new Date(wallClockAsUtc - DAY_MS), timeZone) * MINUTE_MS;
+  const after = wallClockAsUtc - getTimeZoneOffsetMinutes(new Date(wallClockAsUtc + DAY_MS), timeZone) * MINUTE_MS;
+  const matches = [before, after].filter(candidate => getZonedParts(new Date(candidate), timeZone).time === time.slice(0, 5));
+
+  // Repeated times take the later instant; skipped times keep the earlier offset
+  return new Date(matches.length > 0 ? Math.max(...matches) : before);
+}
+
+export function addDaysToDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function getDayOfWeek(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Format an instant for a viewer, e.g. "Mon, Mar 31, 9:00 AM GMT+8"
+ */
+export function formatInTimeZone(
+  instant: Date | string,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions = {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  },
+  locale: string = 'en-US'
+): string {
+  return new Intl.DateTimeFormat(locale, { ...options, timeZone }).format(new Date(instant));
+}
+
+export function formatTimeInTimeZone(instant: Date | string, timeZone: string, locale: string = 'en-US'): string {
+  return formatInTimeZone(instant, timeZone, { hour: 'numeric', minute: '2-digit', timeZoneName: 'short' }, locale);
+}
+
+export function formatDateInTimeZone(instant: Date | string, timeZone: string, locale: string = 'en-US'): string {
+  return formatInTimeZone(instant, timeZone, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }, locale);
+}
+
+/**
+ * Start instant of a slot. Slots holding a wall-clock HH:MM start are placed on
+ * their next matching weekday (in the slot's zone) on or after `reference`.
+ */
+export function getSlotStart(slot: Pick<TimeSlot, 'startTime' | 'dayOfWeek' | 'timeZone'>, reference: Date = new Date()): Date {
+  if (!WALL_CLOCK_TIME.test(slot.startTime)) {
+    return new Date(slot.startTime);
+  }
+
+  const timeZone = resolveTimeZone(slot.timeZone);
+  const today = getZonedParts(reference, timeZone);
+  const daysAhead = (slot.dayOfWeek - today.dayOfWeek + 7) % 7;
+  let start = zonedTimeToUtc(addDaysToDate(today.date, daysAhead), slot.startTime, timeZone);
+  if (start < reference) {
+    start = zonedTimeToUtc(addDaysToDate(today.date, daysAhead + 7), slot.startTime, timeZone);
+  }
+  return start;
+}
+
+/**
+ * Slot start as a viewer sees it, e.g. for timetable placement
+ */
+export function getSlotStartInTimeZone(
+  slot: Pick<TimeSlot, 'startTime' | 'dayOfWeek' | 'timeZone'>,
+  viewerTimeZone: string,
+  reference: Date = new Date()
+): ZonedDateTimeParts {
+  return getZonedParts(getSlotStart(slot, reference), viewerTimeZone);
+}
@@ -27,6 +27,12 @@ export interface AttendanceRecord {
     endTime: Date;
     durationMinutes: number;
   };
+  /** The attendance policy version that produced hoursDeducted */
+  policy?: {
+    id: string;
+    version: number;
+    reason?: string;
+  };
 }
 
 export interface AttendanceFilters {
@@ -292,4 +298,114 @@ export interface AttendanceInsight {
   description: string;
   dataPoints: string[];
   actionable: boolean;
-}
\ No newline at end of file
+}
+
+export type AttendanceStatus = 'present' | 'absent' | 'late' | 'excused';
+
+export type CheckInMethod = 'qr' | 'code' | 'online_join' | 'teacher' | 'auto';
+
+export type DeliveryMode = 'in_person' | 'online';
+
+export interface AttendanceGracePeriods {
+  /** Check-ins up to this many minutes after the start count as present */
+  lateGraceMinutes: number;
+  /** Check-ins after this many minutes count as absent */
+  absentAfterMinutes: number;
+}
+
+export interface AttendanceSession extends AttendanceGracePeriods {
+  id: string;
+  classId: string;
+  className?: string;
+  startTime: string;
+  endTime: string;
+  deliveryMode: DeliveryMode;
+  status: 'open' | 'finalized';
+  openedAt: string;
+  finalizedAt?: string;
+  /** Teachers can correct statuses and deductions until then */
+  correctionDeadline?: string;
+}
+
+export interface CheckInCode {
+  code: string;
+  checkInUrl: string;
+  rotatesAt: string;
+}
+
+export interface CheckInRequest {
+  sessionId: string;
+  studentId: string;
+  method: Exclude<CheckInMethod, 'teacher' | 'auto'>;
+  code?: string;
+  at?: Date;
+}
+
+export interface SessionRosterEntry {
+  bookingId: string;
+  studentId: string;
+  studentName: string;
+  attendanceId?: string;
+  status?: AttendanceStatus;
+  checkInMethod?: CheckInMethod;
+  checkedInAt?: string;
+  hoursDeducted: number;
+  policyVersion?: number;
+  deductionReason?: string;
+}
+
+export interface AttendanceSweepResult {
+  sessionsFinalized: number;
+  absencesMarked: number;
+  deductions: number;
+  errors: string[];
+}
+
+export interface TeachingSession {
+  classId: string;
+  className?: string;
+  startTime: string;
+  endTime: string;
+  studentCount: number;
+  attendanceSession?: AttendanceSession;
+}
+
+export type PackageTier = 'standard' | 'premium' | 'corporate' | 'trial' | 'custom';
+
+export interface AttendancePolicyRules {
+  /** Share of the class's hours deducted for each status */
+  rates: Record<AttendanceStatus, number>;
+  /** An absence notified at least this many hours ahead counts as excused */
+  excuseNoticeHours?: number;
+  /** Excused absences past this count in a month are charged as absent */
+  maxExcusedPerMonth?: number;
+}
+
+export interface AttendancePolicy extends AttendancePolicyRules {
+  id: string;
+  /** Unset applies to every course type */
+  courseType?: string;
+  /** Unset applies to every package tier */
+  packageTier?: PackageTier;
+  version: number;
+  effectiveFrom: string;
+  supersededAt?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export interface PublishAttendancePolicyRequest extends AttendancePolicyRules {
+  courseType?: string;
+  packageTier?: PackageTier;
+  effectiveFrom?: string;
+  notes?: string;
+}
+
+export interface AttendanceDeductionDecision {
+  policyId: string;
+  policyVersion: number;
+  /** The recorded status after notice conversion */
+  status: AttendanceStatus;
+  rate: number;
+  reason: string;
+}
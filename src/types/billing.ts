@@ -0,0 +1,115 @@
+/**
+ * Billing Document Types
+ *
+ * Invoices, receipts and credit notes issued for hour purchases
+ * and corporate invoicing.
+ */
+
+import type { PaymentMethod } from './hours';
+
+export type BillingDocumentType = 'invoice' | 'receipt' | 'credit_note';
+
+export type BillingDocumentStatus = 'issued' | 'paid' | 'void';
+
+export type BillingRenderFormat = 'html' | 'pdf';
+
+/**
+ * Seller or buyer details printed on a document
+ */
+export interface BillingParty {
+  name: string;
+  email?: string;
+  companyName?: string;
+  taxId?: string;
+  addressLines: string[];
+}
+
+/**
+ * Tax applied to a document. Inclusive taxes are already part of the line prices.
+ */
+export interface TaxRule {
+  name: string;
+  rate: number; // Percentage, e.g. 7 for 7%
+  inclusive: boolean;
+}
+
+export interface BillingLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface TaxLine {
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+  inclusive: boolean;
+}
+
+export interface BillingTotals {
+  subtotal: number;
+  taxTotal: number;
+  total: number;
+  taxLines: TaxLine[];
+}
+
+export interface BillingDocument {
+  id: string;
+  documentNumber: string;
+  documentType: BillingDocumentType;
+  status: BillingDocumentStatus;
+
+  // Source records
+  purchaseId: string;
+  transactionId?: string;
+  relatedDocumentId?: string;
+  studentId: string;
+  corporateAccountId?: string;
+
+  // Dates
+  issueDate: string;
+  dueDate?: string;
+
+  // Parties
+  seller: BillingParty;
+  buyer: BillingParty;
+
+  // Amounts
+  currency: string;
+  lineItems: BillingLineItem[];
+  taxLines: TaxLine[];
+  subtotal: number;
+  taxTotal: number;
+  total: number;
+
+  paymentMethod?: PaymentMethod;
+  paymentReference?: string;
+  notes?: string;
+  metadata?: Record<string, any>;
+  createdAt: string;
+}
+
+export interface BillingSettings {
+  seller: BillingParty;
+  taxRules: TaxRule[];
+  paymentTermsDays: number;
+  footerNote?: string;
+}
+
+export const BILLING_DOCUMENT_LABELS: Record<BillingDocumentType, string> = {
+  'invoice': 'Invoice',
+  'receipt': 'Receipt',
+  'credit_note': 'Credit Note'
+};
+
+export const DEFAULT_BILLING_SETTINGS: BillingSettings = {
+  seller: {
+    name: 'HeyPeter Academy',
+    email: 'billing@heypeter.academy',
+    addressLines: []
+  },
+  taxRules: [],
+  paymentTermsDays: 14
+};
@@ -0,0 +1,55 @@
+/**
+ * Calendar Types
+ *
+ * iCalendar (ICS) subscription feeds and email invites for classes,
+ * 1-on-1 bookings and make-up classes.
+ */
+
+export type CalendarEventKind = 'class' | 'one_on_one' | 'make_up';
+
+/**
+ * What an emailed invite does in the recipient's calendar. Updates go out as
+ * METHOD:REQUEST with a higher SEQUENCE, which is how iTIP (RFC 5546)
+ * expresses a change to an existing event.
+ */
+export type CalendarInviteAction = 'request' | 'update' | 'cancel';
+
+export type CalendarMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export interface CalendarAttendee {
+  name?: string;
+  email: string;
+}
+
+export interface CalendarEvent {
+  /** Stable across updates so calendar clients replace rather than duplicate */
+  uid: string;
+  kind: CalendarEventKind;
+  /** Higher values supersede earlier versions of the same uid */
+  sequence: number;
+  startTime: string; // ISO instant
+  endTime: string; // ISO instant
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status: 'confirmed' | 'tentative' | 'cancelled';
+  organizer?: CalendarAttendee;
+  attendees?: CalendarAttendee[];
+}
+
+export interface CalendarFeedToken {
+  id: string;
+  userId: string;
+  token: string;
+  createdAt: string;
+  lastAccessedAt?: string;
+  revokedAt?: string;
+}
+
+export interface CalendarFeedOptions {
+  /** Include events that ended up to this many days ago */
+  pastDays?: number;
+  /** Include events starting within this many days */
+  futureDays?: number;
+}
@@ -0,0 +1,151 @@
+/**
+ * Certificate Types
+ *
+ * Attendance letters and course completion certificates, the templates and
+ * eligibility rules behind them, and public verification.
+ */
+
+export type CertificateType = 'attendance' | 'completion';
+
+export interface CertificateTemplate {
+  id: string;
+  certificateType: CertificateType;
+  /** Undefined applies to every course type without its own template */
+  courseType?: string;
+  title: string;
+  /** Text with {{placeholders}} filled in at issue */
+  bodyText: string;
+  signatoryName?: string;
+  signatoryTitle?: string;
+  /** 0-1 */
+  minAttendanceRate?: number;
+  requiresCompletion: boolean;
+  requiresFinalAssessment: boolean;
+  isActive: boolean;
+}
+
+export interface UpdateCertificateTemplateRequest {
+  title?: string;
+  bodyText?: string;
+  signatoryName?: string;
+  signatoryTitle?: string;
+  minAttendanceRate?: number | null;
+  requiresCompletion?: boolean;
+  requiresFinalAssessment?: boolean;
+}
+
+/**
+ * Attendance and completion figures a certificate is built from
+ */
+export interface CertificateRecord {
+  studentId: string;
+  studentName: string;
+  courseId?: string;
+  courseTitle?: string;
+  courseType?: string;
+  classId?: string;
+  periodStart?: string;
+  periodEnd?: string;
+  sessionsAttended: number;
+  sessionsTotal: number;
+  /** Attended share of non-excused sessions, 0-1 */
+  attendanceRate?: number;
+  hoursAttended: number;
+  completedAt?: string;
+  finalAssessmentScore?: number;
+  finalAssessmentPassed?: boolean;
+}
+
+/**
+ * A student's course completion and final assessment result, kept on
+ * student_courses
+ */
+export interface CourseCompletion {
+  studentId: string;
+  courseId: string;
+  completedAt?: string;
+  finalAssessmentScore?: number;
+  finalAssessmentPassed?: boolean;
+}
+
+export interface RecordCourseCompletionRequest {
+  studentId: string;
+  courseId: string;
+  /** Defaults to now */
+  completedAt?: string;
+  /** 0-100; left unchanged when omitted */
+  finalAssessmentScore?: number;
+  /** Left unchanged when omitted */
+  finalAssessmentPassed?: boolean;
+}
+
+export interface CertificateEligibility {
+  eligible: boolean;
+  /** Why the student is not eligible */
+  reasons: string[];
+  record: CertificateRecord;
+}
+
+export interface Certificate {
+  id: string;
+  verificationCode: string;
+  certificateType: CertificateType;
+  templateId?: string;
+  studentId: string;
+  courseId?: string;
+  classId?: string;
+  title: string;
+  bodyText: string;
+  studentName: string;
+  courseTitle?: string;
+  courseType?: string;
+  periodStart?: string;
+  periodEnd?: string;
+  sessionsAttended: number;
+  sessionsTotal: number;
+  attendanceRate?: number;
+  hoursAttended: number;
+  completedAt?: string;
+  finalAssessmentScore?: number;
+  signatoryName?: string;
+  signatoryTitle?: string;
+  issuedAt: string;
+  issuedBy?: string;
+  revokedAt?: string;
+  revokedReason?: string;
+}
+
+export interface IssueCertificateRequest {
+  studentId: string;
+  certificateType: CertificateType;
+  /** Required for completion certificates */
+  courseId?: string;
+  /** Limit the attendance counted to one class */
+  classId?: string;
+  periodStart?: string;
+  periodEnd?: string;
+}
+
+export interface ClassIssuanceResult {
+  issued: Certificate[];
+  skipped: Array<{ studentId: string; studentName: string; reasons: string[] }>;
+}
+
+/**
+ * What the public verification page shows
+ */
+export interface CertificateVerification {
+  verificationCode: string;
+  status: 'valid' | 'revoked';
+  certificateType: CertificateType;
+  title: string;
+  studentName: string;
+  courseTitle?: string;
+  periodStart?: string;
+  periodEnd?: string;
+  attendanceRate?: number;
+  hoursAttended: number;
+  completedAt?: string;
+  issuedAt: string;
+  revokedAt?: string;
+}
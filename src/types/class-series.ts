@@ -0,0 +1,118 @@
+/**
+ * Class Series Types
+ *
+ * Recurring group classes (e.g. Everyday A, Speak Up) scheduled as a series
+ * of sessions with students enrolled in the whole series.
+ */
+
+export type ClassSeriesStatus = 'active' | 'completed' | 'cancelled';
+
+export type SeriesOccurrenceStatus = 'scheduled' | 'skipped' | 'cancelled' | 'completed';
+
+export interface ClassSeries {
+  id: string;
+  courseId: string;
+  teacherId?: string;
+  name: string;
+  /** Recurrence pattern without COUNT or UNTIL, e.g. "FREQ=WEEKLY;BYDAY=MO,WE" */
+  rrule: string;
+  startDate: string;
+  /** Last date a session may fall on (YYYY-MM-DD) */
+  endDate: string;
+  /** Local start time (HH:mm) in the series time zone */
+  startTime: string;
+  durationMinutes: number;
+  timeZone: string;
+  location?: string;
+  meetingLink?: string;
+  capacity: number;
+  status: ClassSeriesStatus;
+  createdAt: string;
+}
+
+export interface SeriesOccurrence {
+  id: string;
+  seriesId: string;
+  /** Class the session's bookings belong to */
+  classId: string;
+  teacherId?: string;
+  occurrenceDate: string;
+  startTime: string;
+  endTime: string;
+  location?: string;
+  status: SeriesOccurrenceStatus;
+  skipReason?: string;
+  /** Skipped session this one makes up for */
+  makeupForId?: string;
+}
+
+export interface SeriesEnrollment {
+  id: string;
+  seriesId: string;
+  studentId: string;
+  status: 'active' | 'withdrawn';
+  enrolledFrom: string;
+  withdrawnFrom?: string;
+}
+
+/**
+ * A session time planned from the series pattern
+ */
+export interface PlannedOccurrence {
+  occurrenceDate: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface CreateClassSeriesRequest {
+  courseId: string;
+  teacherId?: string;
+  name: string;
+  rrule: string;
+  startDate: string;
+  endDate: string;
+  startTime: string;
+  durationMinutes: number;
+  timeZone?: string;
+  location?: string;
+  meetingLink?: string;
+  capacity: number;
+}
+
+/**
+ * Changes applied to a session and every following session
+ */
+export interface SeriesScheduleChanges {
+  rrule?: string;
+  startTime?: string;
+  durationMinutes?: number;
+  location?: string;
+}
+
+export interface SeriesChangeResult {
+  updatedOccurrences: number;
+  addedOccurrences: number;
+  cancelledOccurrences: number;
+  /** Bookings moved, created or cancelled to follow the sessions */
+  affectedBookings: number;
+}
+
+export interface SkipOccurrenceRequest {
+  reason?: string;
+  /** Add a make-up session; defaults to true */
+  makeUp?: boolean;
+  /** Make-up date; defaults to the next pattern date after the series ends */
+  makeUpDate?: string;
+}
+
+export interface SkipOccurrenceResult {
+  skipped: SeriesOccurrence;
+  makeUp?: SeriesOccurrence;
+  cancelledBookings: number;
+}
+
+export interface ClassSeriesDetails {
+  series: ClassSeries;
+  occurrences: SeriesOccurrence[];
+  enrollments: SeriesEnrollment[];
+}
@@ -0,0 +1,90 @@
+/**
+ * Closure Calendar Types
+ *
+ * Public holidays, academy-wide closures and per-location closures that
+ * scheduling, make-up suggestions and hour expiry work around.
+ */
+
+export type ClosureType = 'public_holiday' | 'academy_closure' | 'location_closure';
+
+export type ClosureSource = 'manual' | 'ics' | 'csv';
+
+export interface HolidaySet {
+  id: string;
+  name: string;
+  /** Region code, e.g. "TH" */
+  region: string;
+  description?: string;
+  /** Locations observing the set; empty means every location */
+  locations: string[];
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface AcademyClosure {
+  id: string;
+  holidaySetId?: string;
+  title: string;
+  closureType: ClosureType;
+  /** First closed local date (YYYY-MM-DD) */
+  startDate: string;
+  /** Last closed local date (YYYY-MM-DD), inclusive */
+  endDate: string;
+  /** Closed location; unset means every location the closure applies to */
+  location?: string;
+  /** Locations the closure applies to; empty means every location */
+  locations: string[];
+  timeZone: string;
+  source: ClosureSource;
+  externalUid?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export interface CreateHolidaySetRequest {
+  name: string;
+  region: string;
+  description?: string;
+  locations?: string[];
+}
+
+export interface CreateClosureRequest {
+  title: string;
+  closureType: ClosureType;
+  startDate: string;
+  endDate?: string;
+  location?: string;
+  holidaySetId?: string;
+  timeZone?: string;
+  notes?: string;
+}
+
+/**
+ * A closure parsed from an imported ICS or CSV file
+ */
+export interface ClosureImportRow extends CreateClosureRequest {
+  externalUid?: string;
+}
+
+export interface ClosureImportError {
+  /** 1-based line (CSV) or event (ICS) number */
+  line: number;
+  message: string;
+}
+
+export interface ClosureImportResult {
+  imported: number;
+  skipped: number;
+  errors: ClosureImportError[];
+  closures: AcademyClosure[];
+  /** Bookings flagged for postponement because they fall in an imported closure */
+  flaggedBookings: number;
+}
+
+export interface ClosureWithImpact {
+  closure: AcademyClosure;
+  /** Bookings flagged for postponement */
+  flaggedBookings: number;
+  /** Hour lots whose validity was extended by the closure */
+  extendedLots: number;
+}
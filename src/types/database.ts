@@ -464,6 +464,7 @@ export type Database = {
           max_students: number
           price_per_student: number
           currency: string
+          timezone: string
           teacher_id: string
           is_active: boolean
           created_at: string
@@ -480,6 +481,7 @@ export type Database = {
           max_students?: number
           price_per_student?: number
           currency?: string
+          timezone?: string
           teacher_id: string
           is_active?: boolean
           created_at?: string
@@ -496,6 +498,7 @@ export type Database = {
           max_students?: number
           price_per_student?: number
           currency?: string
+          timezone?: string
           teacher_id?: string
           is_active?: boolean
           created_at?: string
@@ -258,6 +258,10 @@ export interface FeedbackPrompt extends BaseEntity {
   target_user_role: string;
   template_id?: string;
   conditions?: Record<string, any>;
+  /** Most prompts a student receives in any 7 days; null for no cap */
+  max_prompts_per_week?: number | null;
+  /** Share of group class attendances prompted, 0-1 */
+  group_class_sample_rate?: number;
   is_active?: boolean;
 }
 
@@ -604,4 +608,78 @@ export interface FeedbackRealtimeUpdate {
   data: any;
   timestamp: string;
   user_id?: string;
-}
\ No newline at end of file
+}
+
+// Prompt Delivery Types
+export type FeedbackPromptDeliveryStatus = 'scheduled' | 'sent' | 'responded' | 'expired' | 'skipped';
+export type FeedbackPromptSkipReason = 'throttled' | 'not_sampled';
+
+export interface FeedbackPromptDelivery extends BaseEntity {
+  prompt_id: string;
+  attendance_id: string;
+  student_id: string;
+  booking_id?: string;
+  class_id?: string;
+  teacher_id?: string;
+  course_id?: string;
+  status: FeedbackPromptDeliveryStatus;
+  skip_reason?: FeedbackPromptSkipReason;
+  token: string;
+  scheduled_for: string;
+  sent_at?: string;
+  expires_at?: string;
+  reminder_count: number;
+  next_reminder_at?: string;
+  responded_at?: string;
+  feedback_id?: string;
+  rating?: number;
+}
+
+/**
+ * What a rating link shows, without internal ids
+ */
+export interface FeedbackPromptSummary {
+  token: string;
+  status: FeedbackPromptDeliveryStatus;
+  class_name?: string;
+  teacher_name?: string;
+  class_date?: string;
+  expires_at?: string;
+  rating?: number;
+}
+
+export interface FeedbackPromptResponseRequest {
+  rating: number;
+  positive_feedback?: string;
+  improvement_suggestions?: string;
+}
+
+export type UpdateFeedbackPromptRequest = Partial<Pick<FeedbackPrompt,
+  'delay_minutes' | 'expiry_days' | 'max_reminders' | 'reminder_interval_days' |
+  'max_prompts_per_week' | 'group_class_sample_rate' | 'is_active'
+>>;
+
+export interface FeedbackPromptSweepResult {
+  scheduled: number;
+  skipped: number;
+  sent: number;
+  reminded: number;
+  expired: number;
+  errors: string[];
+}
+
+export interface PromptResponseRate {
+  id: string;
+  name: string;
+  prompted: number;
+  responded: number;
+  /** 0-1 */
+  response_rate: number;
+  average_rating?: number;
+}
+
+export interface PromptResponseRates {
+  overall: Omit<PromptResponseRate, 'id' | 'name'>;
+  by_teacher: PromptResponseRate[];
+  by_course: PromptResponseRate[];
+}
@@ -277,6 +277,8 @@ export interface HourPurchaseForm {
   payment_reference?: string;
   expiration_date?: string;
   notes?: string;
+  promo_code?: string;
+  apply_referral_credits?: boolean;
 }
 
 export interface LeaveRequestForm {
@@ -82,7 +82,8 @@ export type LeaveRuleType =
   | 'consecutive_days'
   | 'minimum_hours'
   | 'approval_required'
-  | 'cancellation_policy';
+  | 'cancellation_policy'
+  | 'freeze_cap';
 
 export type LeaveRuleFrequency =
   | 'daily'
@@ -153,6 +154,9 @@ export interface HourPurchase {
   hoursPurchased: number;
   pricePaid: number;
   currency: string;
+  listPrice?: number;
+  discountTotal?: number;
+  promoCodeId?: string;
   
   // Payment information
   paymentStatus: PaymentStatus;
@@ -168,6 +172,7 @@ export interface HourPurchase {
   // Usage tracking
   hoursUsed: number;
   hoursRemaining: number;
+  hoursExpired?: number;
   
   // Transfer settings
   isTransferable: boolean;
@@ -230,6 +235,9 @@ export interface HourTransaction {
   reversalReason?: string;
   originalTransactionId?: string;
   
+  // Purchase lots drawn down by this transaction
+  lotsConsumed?: HourLotConsumption[];
+  
   // Metadata
   metadata?: Record<string, any>;
   createdAt: string;
@@ -336,6 +344,12 @@ export interface HourTransferLog {
   fromTransactionId?: string;
   toTransactionId?: string;
   
+  // Corporate allocation
+  corporateAccountId?: string;
+  
+  // Family sharing
+  familyAccountId?: string;
+  
   // Metadata
   notes?: string;
   metadata?: Record<string, any>;
@@ -491,6 +505,10 @@ export interface LeaveRequest {
   hoursProcessed: boolean;
   processedAt?: string;
   
+  // Expiry freeze granted on approval of a long leave, or why it failed
+  hourFreeze?: HourFreeze;
+  hourFreezeError?: { code: string; message: string };
+  
   // Metadata
   notes?: string;
   metadata?: Record<string, any>;
@@ -621,6 +639,8 @@ export interface HourPurchaseRequest {
   isCorporatePurchase?: boolean;
   corporateAccountId?: string;
   invoiceNumber?: string;
+  promoCode?: string;
+  applyReferralCredits?: boolean;
 }
 
 /**
@@ -634,6 +654,9 @@ export interface HourTransferRequest {
   isFamilyTransfer: boolean;
   familyRelationship?: string;
   notes?: string;
+  corporateAccountId?: string; // Corporate account the movement belongs to
+  corporatePoolId?: string; // Only move hours bought for this pool (hour_purchases.corporate_account_id)
+  familyAccountId?: string; // Family account the movement belongs to
 }
 
 /**
@@ -755,6 +778,711 @@ export interface HourAlertPreferences {
   };
 }
 
+// =====================================================================================
+// PAYMENT GATEWAY TYPES
+// =====================================================================================
+
+export type PaymentProviderName = 'sandbox' | 'stripe' | 'paypal';
+
+export type PaymentWebhookEventType =
+  | 'payment.processing'
+  | 'payment.captured'
+  | 'payment.failed'
+  | 'payment.refunded';
+
+/**
+ * Result returned by every payment provider operation
+ */
+export interface PaymentProviderResult {
+  success: boolean;
+  status: PaymentStatus;
+  reference: string;
+  amount: number;
+  currency: string;
+  failureCode?: string;
+  failureMessage?: string;
+  raw?: Record<string, any>;
+}
+
+/**
+ * Authorization request sent to a payment provider
+ */
+export interface PaymentAuthorizationRequest {
+  purchaseId: string;
+  studentId: string;
+  amount: number;
+  currency: string;
+  paymentMethod: PaymentMethod;
+  paymentDetails?: Record<string, any>;
+  description?: string;
+}
+
+/**
+ * Provider callback delivered to /api/payments/webhook
+ */
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookEventType;
+  provider: PaymentProviderName;
+  createdAt: string;
+  data: {
+    purchaseId: string;
+    reference: string;
+    amount: number;
+    currency: string;
+    failureCode?: string;
+    failureMessage?: string;
+  };
+}
+
+// =====================================================================================
+// CORPORATE ACCOUNT TYPES
+// =====================================================================================
+
+export type CorporateAccountStatus = 'active' | 'suspended' | 'closed';
+
+export type CorporateMemberStatus = 'active' | 'removed';
+
+/**
+ * Employer account whose pooled hours are held by `poolProfileId`
+ */
+export interface CorporateAccount {
+  id: string;
+  name: string;
+  poolProfileId: string;
+  billingEmail?: string;
+  status: CorporateAccountStatus;
+  
+  // Limits
+  monthlySpendCap?: number; // Maximum spend on pool purchases per calendar month
+  defaultEmployeeCap?: number; // Maximum net hours allocated to an employee per month
+  currency: string;
+  
+  // Pool balance (populated on read)
+  poolBalance?: number;
+  
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CorporateMember {
+  id: string;
+  corporateAccountId: string;
+  studentId: string;
+  studentName?: string;
+  studentEmail?: string;
+  status: CorporateMemberStatus;
+  allocationCap?: number; // Overrides the account default
+  hoursBalance?: number; // Corporate hours currently held by the employee
+  enrolledAt: string;
+  removedAt?: string;
+}
+
+export interface CorporateAllocationRequest {
+  corporateAccountId: string;
+  studentId: string;
+  hours: number;
+  reason: string;
+  notes?: string;
+}
+
+export interface CorporateEmployeeStatement {
+  studentId: string;
+  studentName?: string;
+  hoursAllocated: number;
+  hoursRevoked: number;
+  hoursUsed: number;
+  closingBalance: number;
+}
+
+export interface CorporateMonthlyStatement {
+  corporateAccountId: string;
+  accountName: string;
+  month: string; // YYYY-MM
+  periodStart: string;
+  periodEnd: string;
+  
+  // Pool purchases
+  purchaseCount: number;
+  hoursPurchased: number;
+  amountSpent: number;
+  monthlySpendCap?: number;
+  currency: string;
+  
+  // Movements
+  hoursAllocated: number;
+  hoursRevoked: number;
+  hoursUsed: number;
+  poolBalance: number;
+  
+  employees: CorporateEmployeeStatement[];
+  generatedAt: string;
+}
+
+// =====================================================================================
+// FAMILY ACCOUNT TYPES
+// =====================================================================================
+
+export type FamilyAccountStatus = 'active' | 'closed';
+
+export type FamilyMemberRole = 'guardian' | 'child';
+
+export type FamilyMemberStatus = 'active' | 'removed';
+
+/**
+ * Household whose shared wallet of hours is held by `walletProfileId`
+ */
+export interface FamilyAccount {
+  id: string;
+  name: string;
+  walletProfileId: string;
+  status: FamilyAccountStatus;
+  monthlyTransferCap?: number; // Maximum hours moved between members per calendar month
+  currency: string;
+  
+  // Wallet balance (populated on read)
+  walletBalance?: number;
+  
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FamilyMember {
+  id: string;
+  familyAccountId: string;
+  profileId: string;
+  profileName?: string;
+  profileEmail?: string;
+  role: FamilyMemberRole;
+  relationship?: string;
+  status: FamilyMemberStatus;
+  hoursBalance?: number; // Hours currently held by the member
+  joinedAt: string;
+  removedAt?: string;
+}
+
+/**
+ * Guardian-initiated move between the wallet and members of one family
+ */
+// Made by the signed-in guardian
+export interface FamilyTransferRequest {
+  familyAccountId: string;
+  fromProfileId: string;
+  toProfileId: string;
+  hours: number;
+  reason: string;
+  notes?: string;
+}
+
+export interface FamilyMemberStatement {
+  profileId: string;
+  profileName?: string;
+  role: FamilyMemberRole | 'wallet';
+  hoursReceived: number;
+  hoursSent: number;
+  hoursUsed: number;
+  closingBalance: number;
+}
+
+export interface FamilyMonthlyStatement {
+  familyAccountId: string;
+  familyName: string;
+  month: string; // YYYY-MM
+  periodStart: string;
+  periodEnd: string;
+  
+  // Wallet purchases
+  purchaseCount: number;
+  hoursPurchased: number;
+  amountSpent: number;
+  currency: string;
+  
+  // Movements
+  hoursTransferred: number;
+  monthlyTransferCap?: number;
+  hoursUsed: number;
+  walletBalance: number;
+  
+  members: FamilyMemberStatement[];
+  transfers: HourTransferLog[];
+  generatedAt: string;
+}
+
+// =====================================================================================
+// HOUR LEDGER TYPES
+// =====================================================================================
+
+export type HourLedgerAccount =
+  | 'student_balance'
+  | 'hours_issued'
+  | 'hours_consumed'
+  | 'hours_expired'
+  | 'hours_refunded'
+  | 'hours_adjusted'
+  | 'hours_bonus'
+  | 'transfer_clearing';
+
+export interface HourLedgerEntry {
+  id: string;
+  journalId: string;
+  account: HourLedgerAccount;
+  studentId: string;
+  counterpartyStudentId?: string;
+  purchaseId?: string;
+  amount: number; // Positive increases the account
+  createdAt: string;
+}
+
+/**
+ * Balanced posting for one hour transaction
+ */
+export interface HourLedgerJournal {
+  id: string;
+  transactionId?: string;
+  journalType: HourTransactionType;
+  description?: string;
+  postedAt: string;
+  entries: HourLedgerEntry[];
+}
+
+export interface HourBalanceSnapshot {
+  studentId: string;
+  ledgerBalance: number;
+  purchaseBalance: number; // calculate_student_hours over purchase lots
+  cachedBalance?: number; // balance_after of the latest transaction
+  lastTransactionId?: string;
+}
+
+export type LedgerDiscrepancyType =
+  | 'ledger_purchase_mismatch'
+  | 'cached_balance_mismatch'
+  | 'unbalanced_journal'
+  | 'missing_journal'
+  | 'open_transfer';
+
+export type LedgerRepairAction =
+  | 'post_adjustment'
+  | 'refresh_cached_balance'
+  | 'backfill_journal'
+  | 'complete_transfer'
+  | 'investigate_journal';
+
+export interface SuggestedLedgerRepair {
+  action: LedgerRepairAction;
+  hours?: number;
+  description: string;
+}
+
+export type LedgerDiscrepancyStatus = 'open' | 'resolved' | 'ignored';
+
+export interface LedgerDiscrepancy {
+  id?: string;
+  runId?: string;
+  studentId?: string;
+  studentName?: string;
+  discrepancyType: LedgerDiscrepancyType;
+  ledgerBalance?: number;
+  purchaseBalance?: number;
+  cachedBalance?: number;
+  difference: number;
+  referenceId?: string;
+  suggestedRepair: SuggestedLedgerRepair;
+  status: LedgerDiscrepancyStatus;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  resolutionNotes?: string;
+  createdAt?: string;
+}
+
+export interface HourReconciliationRun {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  studentsChecked: number;
+  discrepanciesFound: number;
+  errorMessage?: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
+// =====================================================================================
+// HOUR LOT TYPES
+// =====================================================================================
+
+export interface HourLot {
+  purchaseId: string;
+  studentId: string;
+  packageName?: string;
+  hoursPurchased: number;
+  hoursUsed: number;
+  hoursRemaining: number;
+  hoursExpired: number;
+  validFrom: string;
+  validUntil: string;
+  isExpired: boolean;
+  createdAt: string;
+}
+
+export interface HourLotConsumption {
+  id: string;
+  transactionId: string;
+  purchaseId: string;
+  hours: number;
+  lotValidUntil: string;
+  createdAt: string;
+}
+
+export interface HourLotExpiry {
+  purchaseId: string;
+  studentId: string;
+  hoursExpired: number;
+  transactionId: string;
+}
+
+// =====================================================================================
+// HOUR PRICING TYPES
+// =====================================================================================
+
+export type DiscountValueType = 'percentage' | 'fixed';
+
+export type AppliedDiscountType = 'volume_tier' | 'promo_code' | 'referral_credit';
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description?: string;
+  discountType: DiscountValueType;
+  discountValue: number;
+  currency: string;
+  
+  // Limits
+  maxRedemptions?: number;
+  maxRedemptionsPerStudent?: number;
+  redemptionsCount: number;
+  minHours?: number;
+  packageIds?: string[];
+  
+  // Date window
+  validFrom?: string;
+  validUntil?: string;
+  
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface PromoCodeRequest {
+  code: string;
+  description?: string;
+  discountType: DiscountValueType;
+  discountValue: number;
+  currency?: string;
+  maxRedemptions?: number;
+  maxRedemptionsPerStudent?: number;
+  minHours?: number;
+  packageIds?: string[];
+  validFrom?: string;
+  validUntil?: string;
+}
+
+export interface VolumePricingTier {
+  id: string;
+  minHours: number;
+  discountPercentage: number;
+  isActive: boolean;
+}
+
+export type ReferralCreditStatus = 'available' | 'redeemed' | 'expired';
+
+export interface ReferralCredit {
+  id: string;
+  studentId: string;
+  referredStudentId?: string;
+  amount: number;
+  remainingAmount: number;
+  currency: string;
+  status: ReferralCreditStatus;
+  expiresAt?: string;
+  createdAt: string;
+}
+
+export interface AppliedDiscount {
+  type: AppliedDiscountType;
+  sourceId: string;
+  code?: string;
+  description: string;
+  amount: number;
+  percentage?: number;
+}
+
+export interface HourPriceQuoteRequest {
+  studentId: string;
+  hours: number;
+  listPrice: number;
+  currency?: string;
+  packageId?: string;
+  promoCode?: string;
+  applyReferralCredits?: boolean;
+}
+
+export interface HourPriceQuote {
+  hours: number;
+  listPrice: number;
+  discounts: AppliedDiscount[];
+  totalDiscount: number;
+  finalPrice: number;
+  currency: string;
+}
+
+// =====================================================================================
+// HOUR SUBSCRIPTION TYPES
+// =====================================================================================
+
+export type SubscriptionBillingInterval = 'monthly' | 'quarterly';
+
+export type HourSubscriptionStatus = 'active' | 'past_due' | 'cancelled';
+
+export interface SubscriptionPlan {
+  id: string;
+  name: string;
+  description?: string;
+  packageId: string;
+  hoursPerPeriod: number;
+  billingInterval: SubscriptionBillingInterval;
+  price: number;
+  currency: string;
+  
+  // Unused subscription hours kept at renewal; the rest expire
+  rolloverCap: number;
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface HourSubscription {
+  id: string;
+  studentId: string;
+  planId: string;
+  plan?: SubscriptionPlan;
+  status: HourSubscriptionStatus;
+  
+  // Billing schedule
+  currentPeriodStart: string;
+  currentPeriodEnd: string;
+  cancelAtPeriodEnd: boolean;
+  pendingPlanId?: string;
+  
+  // Saved payment method
+  paymentMethod: PaymentMethod;
+  paymentDetails?: Record<string, any>;
+  
+  // Dunning
+  failedAttempts: number;
+  nextRetryAt?: string;
+  lastFailureMessage?: string;
+  
+  cancelledAt?: string;
+  cancellationReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface HourSubscriptionRequest {
+  studentId: string;
+  planId: string;
+  paymentMethod: PaymentMethod;
+  paymentDetails?: Record<string, any>;
+}
+
+export interface SubscriptionProration {
+  effective: 'immediate' | 'next_period';
+  
+  // Share of the current period left when the change is made
+  remainingFraction: number;
+  credit: number;
+  charge: number;
+  amountDue: number;
+  hoursAdjustment: number;
+}
+
+export type HourBillingChargeType =
+  | 'subscription_initial'
+  | 'subscription_renewal'
+  | 'subscription_proration'
+  | 'auto_top_up';
+
+export type HourBillingChargeStatus = 'succeeded' | 'processing' | 'failed';
+
+export interface HourBillingCharge {
+  id: string;
+  studentId: string;
+  subscriptionId?: string;
+  purchaseId?: string;
+  chargeType: HourBillingChargeType;
+  amount: number;
+  currency: string;
+  hours: number;
+  status: HourBillingChargeStatus;
+  attempt: number;
+  failureCode?: string;
+  failureMessage?: string;
+  periodStart?: string;
+  periodEnd?: string;
+  createdAt: string;
+}
+
+export interface AutoTopUpSettings {
+  id?: string;
+  studentId: string;
+  isEnabled: boolean;
+  thresholdHours: number;
+  packageId: string;
+  paymentMethod: PaymentMethod;
+  paymentDetails?: Record<string, any>;
+  
+  // Safety limit on automatic purchases per calendar month
+  maxTopUpsPerMonth: number;
+  lastTriggeredAt?: string;
+}
+
+export type HourBillingEventType =
+  | 'subscription_renewed'
+  | 'payment_failed'
+  | 'subscription_cancelled'
+  | 'auto_top_up';
+
+/**
+ * Outcome of a scheduled billing step, used to notify the student
+ */
+export interface HourBillingEvent {
+  type: HourBillingEventType;
+  studentId: string;
+  subscriptionId?: string;
+  amount: number;
+  currency: string;
+  hours: number;
+  nextRetryAt?: string;
+  failureMessage?: string;
+}
+
+export interface HourBillingRunResult {
+  processed: number;
+  succeeded: number;
+  failed: number;
+  events: HourBillingEvent[];
+}
+
+// =====================================================================================
+// HOUR FREEZE TYPES
+// =====================================================================================
+
+export type HourFreezeStatus = 'active' | 'cancelled';
+
+/**
+ * Expiry freeze granted for an approved long leave. Every lot still valid
+ * when the leave began had its validity pushed back by `freezeDays`.
+ */
+export interface HourFreeze {
+  id: string;
+  studentId: string;
+  leaveRequestId?: string;
+  startDate: string;
+  endDate: string;
+  requestedDays: number;
+  freezeDays: number;
+  lotsExtended: number;
+  status: HourFreezeStatus;
+  approvedBy?: string;
+  createdAt: string;
+}
+
+export interface HourFreezeAllowance {
+  year: number;
+  maxDaysPerYear: number;
+  usedDays: number;
+  remainingDays: number;
+}
+
+// =====================================================================================
+// HOUR REFUND TYPES
+// =====================================================================================
+
+export type HourRefundStatus =
+  | 'pending'
+  | 'rejected'
+  | 'cancelled'
+  | 'processing'
+  | 'completed'
+  | 'payment_failed';
+
+/**
+ * Rules for refunding unused hours. Only one policy is active at a time.
+ */
+export interface HourRefundPolicy {
+  id: string;
+  name: string;
+  // Days after payment during which refunds may be requested (null = no cutoff)
+  cutoffDays?: number;
+  adminFeeFixed: number;
+  adminFeePercentage: number;
+  // Whether unused bonus hours are refunded at the paid hourly rate
+  refundBonusHours: boolean;
+  isActive: boolean;
+  updatedAt?: string;
+}
+
+/**
+ * Refundable amount for the unused hours of one purchase lot
+ */
+export interface HourRefundQuote {
+  purchaseId: string;
+  packageName?: string;
+  eligible: boolean;
+  ineligibleReason?: string;
+  hoursRemaining: number;
+  bonusHoursExcluded: number;
+  refundableHours: number;
+  hours: number;
+  pricePerHour: number;
+  grossAmount: number;
+  adminFee: number;
+  refundAmount: number;
+  currency: string;
+  refundDeadline?: string;
+}
+
+export interface HourRefundSubmission {
+  studentId: string;
+  purchaseId: string;
+  // Defaults to every refundable hour in the lot
+  hours?: number;
+  reason: string;
+}
+
+export interface HourRefundRequest {
+  id: string;
+  studentId: string;
+  studentName?: string;
+  purchaseId: string;
+  packageName?: string;
+  hours: number;
+  pricePerHour: number;
+  grossAmount: number;
+  adminFee: number;
+  refundAmount: number;
+  currency: string;
+  reason: string;
+  status: HourRefundStatus;
+  policyId?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNotes?: string;
+  transactionId?: string;
+  providerRefundReference?: string;
+  failureMessage?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
 // =====================================================================================
 // API RESPONSE TYPES
 // =====================================================================================
@@ -844,7 +1572,8 @@ export const LEAVE_RULE_TYPE_LABELS: Record<LeaveRuleType, string> = {
   'consecutive_days': 'Consecutive Days Limit',
   'minimum_hours': 'Minimum Hours Requirement',
   'approval_required': 'Approval Required',
-  'cancellation_policy': 'Cancellation Policy'
+  'cancellation_policy': 'Cancellation Policy',
+  'freeze_cap': 'Hour Freeze Cap'
 };
 
 export const LEAVE_RULE_FREQUENCY_LABELS: Record<LeaveRuleFrequency, string> = {
@@ -872,6 +1601,28 @@ export const LEAVE_REQUEST_STATUS_COLORS: Record<LeaveRequestStatus, string> = {
   'cancelled': 'bg-gray-100 text-gray-800'
 };
 
+export const SUBSCRIPTION_STATUS_LABELS: Record<HourSubscriptionStatus, string> = {
+  'active': 'Active',
+  'past_due': 'Payment Overdue',
+  'cancelled': 'Cancelled'
+};
+
+export const BILLING_CHARGE_TYPE_LABELS: Record<HourBillingChargeType, string> = {
+  'subscription_initial': 'Subscription',
+  'subscription_renewal': 'Renewal',
+  'subscription_proration': 'Plan Upgrade',
+  'auto_top_up': 'Auto Top-Up'
+};
+
+export const HOUR_REFUND_STATUS_LABELS: Record<HourRefundStatus, string> = {
+  'pending': 'Pending Review',
+  'rejected': 'Rejected',
+  'cancelled': 'Cancelled',
+  'processing': 'Processing',
+  'completed': 'Refunded',
+  'payment_failed': 'Payment Refund Failed'
+};
+
 export const DEFAULT_LOW_BALANCE_THRESHOLD = 5;
 export const DEFAULT_EXPIRY_WARNING_DAYS = 30;
 
@@ -889,6 +1640,10 @@ export const LEAVE_REQUEST_REFUND_PERCENTAGES = {
   NONE: 0
 } as const;
 
+// Hour freeze constants
+export const HOUR_FREEZE_MIN_LEAVE_DAYS = 7; // days of leave before expiry is frozen
+export const DEFAULT_HOUR_FREEZE_DAYS_PER_YEAR = 60; // used when no freeze_cap rule is active
+
 // =====================================================================================
 // EXTENDED ANALYTICS TYPES
 // =====================================================================================
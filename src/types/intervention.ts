@@ -0,0 +1,107 @@
+/**
+ * Attendance Intervention Types
+ *
+ * Cases opened when a student's attendance crosses a risk threshold, the
+ * outreach steps taken with them, and whether attendance improved afterwards.
+ */
+
+import type { AttendanceStatus } from './attendance';
+
+export type InterventionTriggerType =
+  | 'consecutive_absences'
+  | 'low_attendance_rate'
+  | 'falling_attendance_rate'
+  | 'predicted_dropout';
+
+export type InterventionRiskLevel = 'medium' | 'high';
+
+export type InterventionCaseStatus = 'open' | 'monitoring' | 'closed';
+
+export type InterventionOutcome = 'improved' | 'no_change' | 'worsened' | 'withdrawn';
+
+export type InterventionStepType = 'email' | 'call' | 'makeup_offer';
+
+export type InterventionStepStatus = 'pending' | 'done' | 'skipped';
+
+export type CallOutcome = 'reached' | 'voicemail' | 'no_answer';
+
+export interface InterventionTrigger {
+  type: InterventionTriggerType;
+  /** Absence count or rate (0-1), depending on the type */
+  value: number;
+  detail: string;
+}
+
+/**
+ * A student's attendance, oldest first
+ */
+export interface StudentAttendanceHistory {
+  studentId: string;
+  studentName?: string;
+  sessions: Array<{
+    status: AttendanceStatus;
+    startTime: string;
+    classId: string;
+    teacherId?: string;
+  }>;
+}
+
+export interface AttendanceRiskAssessment {
+  triggers: InterventionTrigger[];
+  riskLevel?: InterventionRiskLevel;
+  /** Attended share of the recent window's sessions, 0-1 */
+  recentRate?: number;
+}
+
+export interface InterventionStep {
+  id: string;
+  caseId: string;
+  type: InterventionStepType;
+  sequence: number;
+  status: InterventionStepStatus;
+  dueAt: string;
+  completedAt?: string;
+  completedBy?: string;
+  notes?: string;
+  callOutcome?: CallOutcome;
+  makeUpClassId?: string;
+}
+
+export interface InterventionCase {
+  id: string;
+  studentId: string;
+  studentName?: string;
+  classId?: string;
+  className?: string;
+  status: InterventionCaseStatus;
+  riskLevel: InterventionRiskLevel;
+  triggers: InterventionTrigger[];
+  /** Attendance rate when the case opened, 0-1 */
+  baselineRate?: number;
+  /** Attendance rate since the case opened, refreshed by the sweep */
+  currentRate?: number;
+  assignedTeacherId?: string;
+  assignedAdminId?: string;
+  assigneeName?: string;
+  openedAt: string;
+  followUpAt?: string;
+  closedAt?: string;
+  outcome?: InterventionOutcome;
+  outcomeNotes?: string;
+  steps: InterventionStep[];
+}
+
+export interface CompleteInterventionStepRequest {
+  notes?: string;
+  callOutcome?: CallOutcome;
+  /** Class session offered as a make-up */
+  makeUpClassId?: string;
+  completedBy?: string;
+}
+
+export interface InterventionSweepResult {
+  studentsAssessed: number;
+  casesOpened: number;
+  casesClosed: number;
+  errors: string[];
+}
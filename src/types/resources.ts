@@ -0,0 +1,104 @@
+/**
+ * Schedule Resource Types
+ *
+ * Rooms and virtual meeting accounts that classes are allocated to, so two
+ * classes cannot hold the same room or meeting licence at the same time.
+ */
+
+export type ResourceKind = 'room' | 'virtual';
+
+export type DeliveryMode = 'in_person' | 'virtual';
+
+export type MeetingProviderName = 'local' | 'zoom' | 'google_meet' | 'teams';
+
+export interface ScheduleResource {
+  id: string;
+  name: string;
+  kind: ResourceKind;
+  /** Seats in a room or participants allowed on a meeting account */
+  capacity: number;
+  /** Equipment available in a room, e.g. "projector", "whiteboard" */
+  equipment: string[];
+  /** Campus or site a room belongs to; matches closure locations */
+  location?: string;
+  /** Meeting provider for virtual accounts */
+  provider?: MeetingProviderName;
+  /** Licence login for virtual accounts */
+  accountEmail?: string;
+  isActive: boolean;
+  notes?: string;
+}
+
+export interface CreateResourceRequest {
+  name: string;
+  kind: ResourceKind;
+  capacity: number;
+  equipment?: string[];
+  location?: string;
+  provider?: MeetingProviderName;
+  accountEmail?: string;
+  notes?: string;
+}
+
+/**
+ * What a class needs from a resource
+ */
+export interface ResourceRequirements {
+  deliveryMode: DeliveryMode;
+  /** Seats needed; defaults to the number of students */
+  minCapacity?: number;
+  equipment?: string[];
+  /** Restrict rooms to one campus */
+  location?: string;
+}
+
+/**
+ * A resource held for a time range
+ */
+export interface ResourceAllocation {
+  id: string;
+  resourceId: string;
+  classId?: string;
+  bookingId?: string;
+  startTime: string;
+  endTime: string;
+  status: 'active' | 'released';
+  joinUrl?: string;
+  hostUrl?: string;
+  meetingId?: string;
+}
+
+export interface AllocateResourceRequest {
+  startTime: string;
+  endTime: string;
+  requirements: ResourceRequirements;
+  classId?: string;
+  bookingId?: string;
+  /** Use this resource instead of picking one */
+  resourceId?: string;
+  /** Meeting title passed to the provider for virtual sessions */
+  title?: string;
+}
+
+export interface ResourceUtilization {
+  resourceId: string;
+  name: string;
+  kind: ResourceKind;
+  sessions: number;
+  bookedMinutes: number;
+  /** Share of the opening hours in the range the resource was held, 0-100 */
+  utilizationRate: number;
+}
+
+export interface MeetingRequest {
+  resource: ScheduleResource;
+  title: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface MeetingDetails {
+  meetingId: string;
+  joinUrl: string;
+  hostUrl?: string;
+}
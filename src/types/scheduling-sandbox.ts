@@ -0,0 +1,95 @@
+/**
+ * Scheduling Sandbox Types
+ *
+ * What-if previews of a scheduling request or manual overrides, computed
+ * against a snapshot of the live timetable and published or discarded as a
+ * whole.
+ */
+
+import type { SchedulingOverride, SchedulingRequest } from './scheduling';
+
+export type SchedulingSandboxStatus = 'draft' | 'published' | 'discarded';
+
+/**
+ * One class session: the bookings of a class that share a start time
+ */
+export interface SandboxSession {
+  /** `${classId}@${startTime}` for live sessions, `new-N` for proposed ones */
+  key: string;
+  classId?: string;
+  courseId: string;
+  teacherId?: string;
+  /** Local date of the session, stored as the booking date */
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  durationMinutes: number;
+  location?: string;
+  studentIds: string[];
+  /** Live booking ID per student, absent for proposed sessions */
+  bookingIds: Record<string, string>;
+}
+
+export type SandboxSessionChange = 'time' | 'teacher' | 'location' | 'students';
+
+export interface SandboxMovedSession {
+  before: SandboxSession;
+  after: SandboxSession;
+  changes: SandboxSessionChange[];
+  addedStudentIds: string[];
+  removedStudentIds: string[];
+}
+
+export interface SandboxHourImpact {
+  /** Change in booked hours per student */
+  students: Record<string, number>;
+  /** Change in teaching hours per teacher */
+  teachers: Record<string, number>;
+  totalStudentHours: number;
+  totalTeacherHours: number;
+}
+
+export interface SandboxDiff {
+  moved: SandboxMovedSession[];
+  cancelled: SandboxSession[];
+  created: SandboxSession[];
+  affectedStudentIds: string[];
+  affectedTeacherIds: string[];
+  hourImpact: SandboxHourImpact;
+}
+
+export interface SchedulingSandbox {
+  id: string;
+  name: string;
+  status: SchedulingSandboxStatus;
+  /** Window of the live timetable the snapshot covers */
+  windowStart: string;
+  windowEnd: string;
+  request?: SchedulingRequest;
+  overrides: SchedulingOverride[];
+  snapshot: SandboxSession[];
+  proposal: SandboxSession[];
+  diff: SandboxDiff;
+  snapshotTakenAt: string;
+  createdBy?: string;
+  createdAt: string;
+  publishedAt?: string;
+  discardedAt?: string;
+}
+
+export interface CreateSandboxRequest {
+  name: string;
+  windowStart: string;
+  windowEnd: string;
+  /** Request run through the scheduler; its classes are proposed as new sessions */
+  request?: SchedulingRequest;
+  overrides?: SchedulingOverride[];
+}
+
+export interface PublishSandboxResult {
+  sandboxId: string;
+  movedSessions: number;
+  cancelledSessions: number;
+  createdSessions: number;
+  notificationsSent: number;
+}
@@ -13,6 +13,7 @@
  */
 
 import type { Tables } from './database';
+import type { ResourceRequirements } from './resources';
 
 // =============================================================================
 // CORE SCHEDULING TYPES
@@ -86,6 +87,10 @@ export interface TimeSlot {
   capacity: ClassCapacityConstraint;
   /** Location or meeting link */
   location?: string;
+  /** Room or meeting account allocated to the slot */
+  resourceId?: string;
+  /** IANA time zone the slot's wall-clock times are in (e.g. "Asia/Manila") */
+  timeZone?: string;
   /** Additional metadata */
   metadata?: Record<string, any>;
 }
@@ -271,6 +276,10 @@ export interface SchedulingConstraints {
   availableDays: number[]; // 0-6, Sunday=0
   /** Holiday and blocked dates */
   blockedDates: string[]; // ISO date strings
+  /** IANA time zone working hours and days are expressed in */
+  timeZone?: string;
+  /** Recurring windows to draw slots from; defaults to working hours on available days */
+  availabilityRules?: RecurringAvailabilityPattern[];
 }
 
 /**
@@ -295,6 +304,8 @@ export interface SchedulingRequest {
   constraints?: Partial<SchedulingConstraints>;
   /** Manual override flags */
   manualOverrides?: SchedulingOverride[];
+  /** Room or virtual meeting the classes need; defaults to any room */
+  resourceRequirements?: ResourceRequirements;
   /** Additional context */
   context?: Record<string, any>;
   /** Request timestamp */
@@ -363,6 +374,8 @@ export interface ScheduledClass {
   studentIds: string[];
   /** Time slot */
   timeSlot: TimeSlot;
+  /** IANA time zone of the class location */
+  timeZone?: string;
   /** Content to be covered */
   content: LearningContent[];
   /** Class type */
@@ -908,6 +921,8 @@ export interface OneOnOneLearningGoals {
 export interface TeacherAvailability {
   /** Teacher ID */
   teacherId: string;
+  /** Teacher's IANA time zone */
+  timeZone: string;
   /** Available time slots */
   availableSlots: TimeSlot[];
   /** Recurring availability patterns */
@@ -937,18 +952,48 @@ export interface RecurringAvailabilityPattern {
   startTime: string; // HH:MM format
   /** End time */
   endTime: string; // HH:MM format
-  /** Pattern type */
-  patternType: 'weekly' | 'biweekly' | 'monthly';
+  /** IANA time zone the start and end times are in */
+  timeZone: string;
+  /** Pattern type; 'custom' patterns repeat according to `rrule` */
+  patternType: 'weekly' | 'biweekly' | 'monthly' | 'custom';
+  /** RFC 5545 RRULE value (e.g. "FREQ=WEEKLY;BYDAY=MO,WE"); takes precedence over patternType and daysOfWeek */
+  rrule?: string;
+  /** EXDATE: local dates (YYYY-MM-DD) the pattern is skipped on */
+  exceptionDates?: string[];
+  /** RDATE: one-off local dates (YYYY-MM-DD) added to the pattern */
+  additionalDates?: string[];
   /** Pattern duration */
   duration: number; // minutes
   /** Pattern status */
   isActive: boolean;
-  /** Effective date range */
+  /** Effective date range; also the DTSTART that intervals are counted from */
   effectiveFrom: string; // ISO date
   /** Effective until date */
   effectiveUntil?: string; // ISO date
 }
 
+/**
+ * Parsed RFC 5545 recurrence rule. Only the parts needed for availability are
+ * supported: DAILY, WEEKLY and MONTHLY frequencies with INTERVAL, BYDAY,
+ * BYMONTHDAY, COUNT, UNTIL and WKST.
+ */
+export interface RecurrenceRule {
+  /** FREQ */
+  frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  /** INTERVAL */
+  interval: number;
+  /** BYDAY; ordinal selects the nth weekday of the month (negative counts from the end) */
+  byDay?: Array<{ dayOfWeek: number; ordinal?: number }>;
+  /** BYMONTHDAY (1-31, negative counts from the end of the month) */
+  byMonthDay?: number[];
+  /** COUNT */
+  count?: number;
+  /** UNTIL, as the last local date (YYYY-MM-DD) an occurrence may fall on */
+  until?: string;
+  /** WKST (0-6, Sunday=0) */
+  weekStart: number;
+}
+
 /**
  * Auto-matching criteria for 1v1 booking
  */
@@ -1026,6 +1071,8 @@ export interface OneOnOneBookingRequest {
   courseId: string;
   /** Preferred duration */
   duration: OneOnOneBookingDuration;
+  /** Student's IANA time zone, used to present and match times */
+  timeZone?: string;
   /** Auto-matching criteria */
   matchingCriteria: OneOnOneAutoMatchingCriteria;
   /** Request type */
@@ -1230,6 +1277,165 @@ export interface AlternativeBookingOptions {
   }[];
 }
 
+// =============================================================================
+// TIMETABLE CONSTRAINT OPTIMIZATION TYPES
+// =============================================================================
+
+/**
+ * Hard constraints a timetable must satisfy
+ */
+export type TimetableHardConstraint =
+  | 'student_availability'
+  | 'teacher_availability'
+  | 'teacher_qualification'
+  | 'teacher_workload_limit'
+  | 'room_capacity'
+  | 'course_type_capacity';
+
+/**
+ * Weighted soft constraints the optimizer tries to satisfy
+ */
+export type TimetableSoftConstraint = 'student_preference' | 'teacher_workload_balance' | 'content_progression';
+
+/**
+ * Student to place into a group class
+ */
+export interface TimetableStudent {
+  /** Student ID */
+  studentId: string;
+  /** Course ID */
+  courseId: string;
+  /** Course type, which sets the class size limit */
+  courseType: CourseType;
+  /** Current unit */
+  currentUnit: number;
+  /** Current lesson */
+  currentLesson: number;
+  /** Slots the student can attend; omitted means any slot */
+  availableSlotIds?: string[];
+  /** Slots the student prefers */
+  preferredSlotIds?: string[];
+}
+
+/**
+ * Teacher who can take classes in the timetable
+ */
+export interface TimetableTeacher {
+  /** Teacher ID */
+  teacherId: string;
+  /** Slots the teacher is available for */
+  availableSlotIds: string[];
+  /** Course types the teacher can teach; omitted means all */
+  courseTypes?: CourseType[];
+  /** Maximum classes in this timetable */
+  maxClasses?: number;
+}
+
+/**
+ * Physical room or virtual meeting link classes are held in
+ */
+export interface TimetableRoom {
+  /** Room or meeting link ID */
+  roomId: string;
+  /** Maximum students */
+  capacity: number;
+  /** Whether this is a virtual meeting link */
+  isVirtual?: boolean;
+  /** Slots the room is free; omitted means any slot */
+  availableSlotIds?: string[];
+}
+
+/**
+ * Input to the timetable optimizer
+ */
+export interface TimetableProblem {
+  /** Candidate time slots */
+  slots: TimeSlot[];
+  /** Students to place */
+  students: TimetableStudent[];
+  /** Available teachers */
+  teachers: TimetableTeacher[];
+  /** Available rooms and meeting links */
+  rooms: TimetableRoom[];
+  /** Maximum students per course type; defaults to the academy limits */
+  courseTypeLimits?: Partial<Record<CourseType, number>>;
+}
+
+/**
+ * Optimizer settings
+ */
+export interface TimetableOptimizerOptions {
+  /** Time budget in milliseconds */
+  timeBudgetMs: number;
+  /** Maximum local search iterations */
+  maxIterations: number;
+  /** Seed for the random search, so the same input gives the same timetable */
+  seed: number;
+  /** Soft constraint weights */
+  weights: Record<TimetableSoftConstraint, number>;
+}
+
+/**
+ * Why a hard constraint kept a student out of the timetable
+ */
+export interface TimetableConstraintReason {
+  /** Constraint that blocked the placement */
+  constraint: TimetableHardConstraint;
+  /** Human-readable explanation */
+  message: string;
+}
+
+/**
+ * Explanation for a student the optimizer could not place
+ */
+export interface UnplacedStudentExplanation {
+  /** Student ID */
+  studentId: string;
+  /** Course type */
+  courseType: CourseType;
+  /** Summary */
+  message: string;
+  /** Constraints that blocked each option */
+  reasons: TimetableConstraintReason[];
+}
+
+/**
+ * A soft constraint the timetable does not fully satisfy
+ */
+export interface SoftConstraintViolation {
+  /** Soft constraint */
+  constraint: TimetableSoftConstraint;
+  /** Weighted penalty contributed to the score */
+  penalty: number;
+  /** Students, teachers or classes involved */
+  affectedEntities: string[];
+  /** Human-readable explanation */
+  message: string;
+}
+
+/**
+ * Optimized timetable with explanations
+ */
+export interface TimetableSolution {
+  /** Classes with their students, teacher and room */
+  scheduledClasses: ScheduledClass[];
+  /** Students left unplaced, with the reasons */
+  unplacedStudents: UnplacedStudentExplanation[];
+  /** Soft constraints left unsatisfied */
+  softConstraintViolations: SoftConstraintViolation[];
+  /** Total weighted soft penalty (lower is better) */
+  penalty: number;
+  /** Search statistics */
+  stats: {
+    /** Local search iterations run */
+    iterations: number;
+    /** Elapsed time in milliseconds */
+    elapsedMs: number;
+    /** Whether the time budget stopped the search */
+    timedOut: boolean;
+  };
+}
+
 // =============================================================================
 // EXPORT TYPES FOR EXTERNAL USE
 // =============================================================================
@@ -0,0 +1,87 @@
+/**
+ * Teacher Substitution Types
+ *
+ * Absences reported by teachers, the class sessions they affect, and the
+ * offers made to substitutes one at a time until one accepts.
+ */
+
+export type AbsenceStatus = 'reported' | 'cancelled';
+
+export type SubstitutionRequestStatus = 'searching' | 'offered' | 'filled' | 'unfilled' | 'cancelled';
+
+export type SubstitutionOfferStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+
+export type SubstitutionOfferAction = 'accept' | 'decline';
+
+export interface TeacherAbsence {
+  id: string;
+  teacherId: string;
+  startTime: string;
+  endTime: string;
+  reason?: string;
+  status: AbsenceStatus;
+}
+
+export interface ReportAbsenceRequest {
+  teacherId: string;
+  startTime: string;
+  endTime: string;
+  reason?: string;
+  reportedBy?: string;
+}
+
+/**
+ * A qualified, free teacher in offer order
+ */
+export interface SubstituteCandidate {
+  teacherId: string;
+  name?: string;
+  /** TeacherMatchingScore.overallScore, 0-1 */
+  score: number;
+  rationale?: string;
+}
+
+export interface SubstitutionRequest {
+  id: string;
+  absenceId: string;
+  classId: string;
+  originalTeacherId: string;
+  substituteTeacherId?: string;
+  startTime: string;
+  endTime: string;
+  status: SubstitutionRequestStatus;
+  candidates: SubstituteCandidate[];
+  filledAt?: string;
+  className?: string;
+}
+
+export interface SubstitutionOffer {
+  id: string;
+  requestId: string;
+  teacherId: string;
+  rank: number;
+  score?: number;
+  status: SubstitutionOfferStatus;
+  token: string;
+  offeredAt: string;
+  expiresAt: string;
+  respondedAt?: string;
+  /** Session details for the substitute */
+  classId?: string;
+  className?: string;
+  startTime?: string;
+  endTime?: string;
+}
+
+export interface ReportAbsenceResult {
+  absence: TeacherAbsence;
+  /** One per affected session */
+  requests: SubstitutionRequest[];
+}
+
+export interface SubstitutionSweepResult {
+  expired: number;
+  reoffered: number;
+  unfilled: number;
+  errors: string[];
+}
@@ -0,0 +1,69 @@
+/**
+ * Waitlist Offer Types
+ *
+ * Seats offered to waitlisted students, who accept or decline within an
+ * acceptance window before the seat passes to the next student.
+ */
+
+export type WaitlistOfferStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+
+export type WaitlistOfferAction = 'accept' | 'decline';
+
+export interface WaitlistOffer {
+  id: string;
+  classId: string;
+  enrollmentId: string;
+  studentId: string;
+  status: WaitlistOfferStatus;
+  /** Hours held from the student's balance while the offer is pending */
+  reservedHours: number;
+  token: string;
+  /** When the seat first became free, carried across passed-on offers */
+  seatOpenedAt: string;
+  offeredAt: string;
+  expiresAt: string;
+  respondedAt?: string;
+  className?: string;
+}
+
+/**
+ * A waitlisted student with their open offer, if any
+ */
+export interface WaitlistEntry {
+  enrollmentId: string;
+  classId: string;
+  studentId: string;
+  position: number;
+  waitlistedAt: string;
+  studentName: string;
+  studentEmail?: string;
+  /** Pending offer holding a seat for the student */
+  offer?: WaitlistOffer;
+}
+
+export interface OfferSeatOptions {
+  /** Acceptance window; defaults to the class setting, then WAITLIST_OFFER */
+  windowHours?: number;
+  /** Original opening time when passing a seat on from an earlier offer */
+  seatOpenedAt?: string;
+}
+
+export interface WaitlistOfferSweepResult {
+  expired: number;
+  reoffered: number;
+  errors: string[];
+}
+
+export interface WaitlistMetrics {
+  offersMade: number;
+  accepted: number;
+  declined: number;
+  expired: number;
+  pending: number;
+  /** Share of answered or lapsed offers that were declined, 0-100 */
+  declineRate: number;
+  /** Share of answered or lapsed offers that lapsed unanswered, 0-100 */
+  expiryRate: number;
+  /** Mean hours from a seat opening to an offer for it being accepted */
+  averageTimeToFillHours: number | null;
+}
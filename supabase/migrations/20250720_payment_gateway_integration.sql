@@ -0,0 +1,205 @@
+-- =====================================================================================
+-- Payment Gateway Integration for Hour Purchases
+-- =====================================================================================
+-- This migration adds:
+-- 1. Provider tracking on hour purchases
+-- 2. Payment webhook event log used to process provider callbacks idempotently
+-- 3. Sandbox provider payment state
+-- =====================================================================================
+
+ALTER TABLE hour_purchases ADD COLUMN IF NOT EXISTS payment_provider VARCHAR(50) DEFAULT 'sandbox';
+
+-- =====================================================================================
+-- PAYMENT WEBHOOK EVENTS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id VARCHAR(255) NOT NULL UNIQUE,
+  event_type VARCHAR(50) NOT NULL CHECK (event_type IN ('payment.processing', 'payment.captured', 'payment.failed', 'payment.refunded')),
+  provider VARCHAR(50) NOT NULL,
+  purchase_id UUID REFERENCES hour_purchases(id) ON DELETE SET NULL,
+  
+  -- Raw provider payload
+  payload JSONB NOT NULL,
+  
+  -- Processing outcome
+  applied BOOLEAN DEFAULT false,
+  result_reason TEXT,
+  payment_status payment_status,
+  transaction_id UUID REFERENCES hour_transactions(id) ON DELETE SET NULL,
+  processed_at TIMESTAMPTZ,
+  
+  -- Billing documents and emails sent once the event applied
+  follow_up_completed_at TIMESTAMPTZ,
+  
+  received_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_payment_webhook_events_purchase ON payment_webhook_events(purchase_id);
+CREATE INDEX idx_payment_webhook_events_received ON payment_webhook_events(received_at);
+
+-- =====================================================================================
+-- SANDBOX PAYMENTS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS sandbox_payments (
+  reference VARCHAR(255) PRIMARY KEY,
+  purchase_id UUID NOT NULL,
+  student_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  amount DECIMAL(10, 2) NOT NULL,
+  amount_refunded DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  status payment_status NOT NULL,
+  is_async BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TRIGGER update_sandbox_payments_timestamp
+  BEFORE UPDATE ON sandbox_payments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================================================
+-- FUNCTIONS
+-- =====================================================================================
+
+-- Apply a verified provider event to its purchase. The status change, the
+-- hour transaction and the event record commit together, so a redelivered
+-- event is either applied in full or recognised as a duplicate.
+CREATE OR REPLACE FUNCTION apply_payment_webhook_event(p_event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_event payment_webhook_events;
+  v_purchase hour_purchases;
+  v_target payment_status;
+  v_reason TEXT;
+  v_applied BOOLEAN := false;
+  v_transaction_id UUID;
+  v_hours INTEGER;
+  v_balance INTEGER;
+BEGIN
+  -- Concurrent deliveries of events for one purchase queue here
+  SELECT * INTO v_purchase
+  FROM hour_purchases
+  WHERE id = (p_event->'data'->>'purchaseId')::UUID
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PURCHASE_NOT_FOUND: purchase % not found', p_event->'data'->>'purchaseId';
+  END IF;
+
+  SELECT * INTO v_event FROM payment_webhook_events WHERE event_id = p_event->>'id';
+
+  IF FOUND THEN
+    RETURN to_jsonb(v_event) || jsonb_build_object('duplicate', true);
+  END IF;
+
+  v_target := CASE p_event->>'type'
+    WHEN 'payment.processing' THEN 'processing'
+    WHEN 'payment.captured' THEN 'completed'
+    WHEN 'payment.failed' THEN 'failed'
+    WHEN 'payment.refunded' THEN 'refunded'
+  END::payment_status;
+
+  IF v_target IS NULL THEN
+    v_reason := format('Unsupported event type %s', p_event->>'type');
+  ELSIF v_purchase.payment_reference IS NOT NULL
+    AND v_purchase.payment_reference <> p_event->'data'->>'reference' THEN
+    v_reason := 'Payment reference mismatch';
+  ELSIF NOT (
+    (v_purchase.payment_status = 'pending' AND v_target IN ('processing', 'completed', 'failed', 'cancelled')) OR
+    (v_purchase.payment_status = 'processing' AND v_target IN ('completed', 'failed', 'cancelled')) OR
+    (v_purchase.payment_status = 'completed' AND v_target = 'refunded')
+  ) THEN
+    v_reason := format('Ignored transition %s -> %s', v_purchase.payment_status, v_target);
+  ELSE
+    UPDATE hour_purchases
+    SET payment_status = v_target,
+        payment_reference = p_event->'data'->>'reference',
+        payment_gateway_response = COALESCE(payment_gateway_response, '{}'::jsonb) || jsonb_strip_nulls(jsonb_build_object(
+          'lastEventId', p_event->>'id',
+          'failureCode', p_event->'data'->>'failureCode',
+          'failureMessage', p_event->'data'->>'failureMessage'
+        )),
+        paid_at = CASE WHEN v_target = 'completed' THEN NOW() ELSE paid_at END,
+        is_active = CASE WHEN v_target = 'refunded' THEN false ELSE is_active END
+    WHERE id = v_purchase.id;
+
+    v_hours := CASE
+      WHEN v_target = 'completed' THEN v_purchase.hours_purchased
+      WHEN v_target = 'refunded' THEN -v_purchase.hours_remaining
+      ELSE 0
+    END;
+
+    IF v_hours <> 0 THEN
+      v_balance := calculate_student_hours(v_purchase.student_id);
+
+      INSERT INTO hour_transactions (
+        student_id, purchase_id, transaction_type, hours_amount,
+        balance_before, balance_after, description
+      ) VALUES (
+        v_purchase.student_id,
+        v_purchase.id,
+        CASE WHEN v_target = 'completed' THEN 'purchase' ELSE 'refund' END::hour_transaction_type,
+        v_hours,
+        v_balance - v_hours,
+        v_balance,
+        CASE WHEN v_target = 'completed'
+          THEN 'Purchased ' || COALESCE((SELECT name FROM hour_packages WHERE id = v_purchase.package_id), 'hour package')
+          ELSE 'Payment refunded by provider'
+        END
+      )
+      RETURNING id INTO v_transaction_id;
+    END IF;
+
+    v_applied := true;
+  END IF;
+
+  INSERT INTO payment_webhook_events (
+    event_id, event_type, provider, purchase_id, payload,
+    applied, result_reason, payment_status, transaction_id, processed_at,
+    follow_up_completed_at
+  ) VALUES (
+    p_event->>'id',
+    p_event->>'type',
+    p_event->>'provider',
+    v_purchase.id,
+    p_event,
+    v_applied,
+    v_reason,
+    CASE WHEN v_applied THEN v_target ELSE v_purchase.payment_status END,
+    v_transaction_id,
+    NOW(),
+    -- Nothing is left to send for an event that did not apply
+    CASE WHEN v_applied THEN NULL ELSE NOW() END
+  )
+  RETURNING * INTO v_event;
+
+  RETURN to_jsonb(v_event) || jsonb_build_object('duplicate', false);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Webhooks are applied with the service role only
+REVOKE EXECUTE ON FUNCTION apply_payment_webhook_event(JSONB) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Webhooks are written with the service role; admins can inspect them
+CREATE POLICY payment_webhook_events_select ON payment_webhook_events
+  FOR SELECT USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+ALTER TABLE sandbox_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY sandbox_payments_own ON sandbox_payments
+  FOR SELECT USING (auth.uid() = student_id);
+
+CREATE POLICY sandbox_payments_admin ON sandbox_payments
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE payment_webhook_events IS 'Signed payment provider callbacks, keyed by provider event ID for idempotent processing';
+COMMENT ON COLUMN payment_webhook_events.follow_up_completed_at IS 'When billing documents for an applied event were issued; redeliveries retry until set';
+COMMENT ON TABLE sandbox_payments IS 'Payments taken by the sandbox provider, kept so refunds and status lookups survive restarts';
+COMMENT ON FUNCTION apply_payment_webhook_event IS 'Apply a provider event to its purchase, record its hour transaction and log the event in one transaction';
@@ -0,0 +1,195 @@
+-- =====================================================================================
+-- Billing Documents for Hour Purchases
+-- =====================================================================================
+-- This migration adds:
+-- 1. Per-type yearly document number sequences
+-- 2. Invoices, receipts and credit notes issued for hour purchases
+-- 3. issue_billing_document(), which numbers and inserts a document together
+-- 4. Seller details and tax rules used when issuing documents
+-- =====================================================================================
+
+-- =====================================================================================
+-- DOCUMENT NUMBER SEQUENCES
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS billing_document_sequences (
+  document_type VARCHAR(20) NOT NULL,
+  year INTEGER NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (document_type, year)
+);
+
+-- Returns numbers such as INV-2025-000001. The upsert locks the sequence row
+-- until the calling transaction ends, so concurrent callers queue behind it.
+CREATE OR REPLACE FUNCTION next_billing_document_number(p_document_type TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_year INTEGER := EXTRACT(YEAR FROM NOW())::INTEGER;
+  v_number INTEGER;
+  v_prefix TEXT;
+BEGIN
+  v_prefix := CASE p_document_type
+    WHEN 'invoice' THEN 'INV'
+    WHEN 'receipt' THEN 'RCT'
+    WHEN 'credit_note' THEN 'CN'
+  END;
+
+  IF v_prefix IS NULL THEN
+    RAISE EXCEPTION 'Unknown billing document type: %', p_document_type;
+  END IF;
+
+  INSERT INTO billing_document_sequences (document_type, year, last_number)
+  VALUES (p_document_type, v_year, 1)
+  ON CONFLICT (document_type, year)
+  DO UPDATE SET last_number = billing_document_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  RETURN v_prefix || '-' || v_year || '-' || LPAD(v_number::TEXT, 6, '0');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION next_billing_document_number(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================================================
+-- BILLING DOCUMENTS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS billing_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_number VARCHAR(50) NOT NULL UNIQUE,
+  document_type VARCHAR(20) NOT NULL CHECK (document_type IN ('invoice', 'receipt', 'credit_note')),
+  status VARCHAR(20) NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'paid', 'void')),
+  
+  -- Source records
+  purchase_id UUID NOT NULL REFERENCES hour_purchases(id) ON DELETE RESTRICT,
+  transaction_id UUID REFERENCES hour_transactions(id) ON DELETE SET NULL,
+  related_document_id UUID REFERENCES billing_documents(id) ON DELETE SET NULL,
+  student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  corporate_account_id UUID REFERENCES profiles(id),
+  
+  -- Dates
+  issue_date TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  due_date TIMESTAMPTZ,
+  
+  -- Snapshot of parties at issue time
+  seller_details JSONB NOT NULL,
+  buyer_details JSONB NOT NULL,
+  
+  -- Amounts
+  currency VARCHAR(3) DEFAULT 'USD',
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  tax_lines JSONB NOT NULL DEFAULT '[]'::jsonb,
+  subtotal DECIMAL(10,2) NOT NULL,
+  tax_total DECIMAL(10,2) NOT NULL DEFAULT 0,
+  total DECIMAL(10,2) NOT NULL,
+  
+  payment_method VARCHAR(50),
+  payment_reference VARCHAR(255),
+  notes TEXT,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_billing_documents_purchase ON billing_documents(purchase_id);
+CREATE INDEX idx_billing_documents_student ON billing_documents(student_id, issue_date DESC);
+CREATE UNIQUE INDEX idx_billing_documents_credit_note_transaction
+  ON billing_documents(transaction_id) WHERE document_type = 'credit_note';
+
+-- =====================================================================================
+-- DOCUMENT ISSUING
+-- =====================================================================================
+-- Allocates the number and inserts the document in one transaction. A failed
+-- insert rolls the sequence back with it, so numbers stay gapless. Documents
+-- are issued by the server (service role) or an admin session only, and the
+-- student and corporate account always come from the purchase.
+CREATE OR REPLACE FUNCTION issue_billing_document(p_document JSONB)
+RETURNS billing_documents AS $$
+DECLARE
+  v_document billing_documents;
+  v_purchase hour_purchases;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'FORBIDDEN: only admins can issue billing documents';
+  END IF;
+
+  v_document := jsonb_populate_record(NULL::billing_documents, p_document);
+
+  SELECT * INTO v_purchase FROM hour_purchases WHERE id = v_document.purchase_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PURCHASE_NOT_FOUND: purchase % not found', v_document.purchase_id;
+  END IF;
+
+  v_document.id := gen_random_uuid();
+  v_document.document_number := next_billing_document_number(v_document.document_type);
+  v_document.student_id := v_purchase.student_id;
+  v_document.corporate_account_id := v_purchase.corporate_account_id;
+  v_document.status := COALESCE(v_document.status, 'issued');
+  v_document.issue_date := COALESCE(v_document.issue_date, NOW());
+  v_document.currency := COALESCE(v_document.currency, 'USD');
+  v_document.line_items := COALESCE(v_document.line_items, '[]'::jsonb);
+  v_document.tax_lines := COALESCE(v_document.tax_lines, '[]'::jsonb);
+  v_document.tax_total := COALESCE(v_document.tax_total, 0);
+  v_document.metadata := COALESCE(v_document.metadata, '{}'::jsonb);
+  v_document.created_at := NOW();
+  v_document.updated_at := NOW();
+
+  INSERT INTO billing_documents VALUES (v_document.*)
+  RETURNING * INTO v_document;
+
+  RETURN v_document;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION issue_billing_document(JSONB) FROM PUBLIC, anon;
+
+-- =====================================================================================
+-- BILLING SETTINGS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS billing_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_details JSONB NOT NULL,
+  tax_rules JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{name, rate, inclusive}]
+  payment_terms_days INTEGER NOT NULL DEFAULT 14,
+  footer_note TEXT,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_billing_settings_active ON billing_settings(is_active) WHERE is_active = true;
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE billing_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE billing_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE billing_document_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY billing_documents_select ON billing_documents
+  FOR SELECT USING (
+    auth.uid() = student_id OR
+    auth.uid() = corporate_account_id OR
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+-- Documents are issued with the service role; admins may void them
+CREATE POLICY billing_documents_admin ON billing_documents
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY billing_settings_select ON billing_settings
+  FOR SELECT USING (true);
+
+CREATE POLICY billing_settings_admin ON billing_settings
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE billing_documents IS 'Invoices, receipts and credit notes issued for hour purchases';
+COMMENT ON TABLE billing_settings IS 'Seller details and tax rules applied to new billing documents';
+COMMENT ON FUNCTION next_billing_document_number IS 'Allocates the next yearly number for a billing document type; call it through issue_billing_document';
+COMMENT ON FUNCTION issue_billing_document IS 'Numbers and inserts a billing document in one transaction so numbering stays gapless';
@@ -0,0 +1,227 @@
+-- =====================================================================================
+-- Corporate Accounts with Pooled Hours
+-- =====================================================================================
+-- This migration adds:
+-- 1. Corporate accounts whose purchases go into a shared hour pool
+-- 2. Enrolled employees with per-employee allocation caps
+-- 3. Corporate attribution on hour transfer logs
+-- 4. transfer_purchase_hours(), which moves hours between purchase lots so
+--    transfers change the balances calculated by calculate_student_hours()
+-- 5. Monthly spending cap enforced when a pool purchase is inserted
+-- =====================================================================================
+
+-- =====================================================================================
+-- CORPORATE ACCOUNTS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS corporate_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  
+  -- Profile that owns the pooled purchases (hour_purchases.corporate_account_id)
+  pool_profile_id UUID NOT NULL UNIQUE REFERENCES profiles(id),
+  billing_email VARCHAR(255),
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'suspended', 'closed')),
+  
+  -- Limits
+  monthly_spend_cap DECIMAL(10, 2) CHECK (monthly_spend_cap IS NULL OR monthly_spend_cap >= 0),
+  default_employee_cap INTEGER CHECK (default_employee_cap IS NULL OR default_employee_cap >= 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+-- =====================================================================================
+-- CORPORATE ACCOUNT MEMBERS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS corporate_account_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  corporate_account_id UUID NOT NULL REFERENCES corporate_accounts(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'removed')),
+  
+  -- Overrides corporate_accounts.default_employee_cap when set
+  allocation_cap INTEGER CHECK (allocation_cap IS NULL OR allocation_cap >= 0),
+  
+  enrolled_at TIMESTAMPTZ DEFAULT NOW(),
+  removed_at TIMESTAMPTZ,
+  UNIQUE (corporate_account_id, student_id)
+);
+
+CREATE INDEX idx_corporate_account_members_student ON corporate_account_members(student_id) WHERE status = 'active';
+
+-- =====================================================================================
+-- TRANSFER LOG ATTRIBUTION
+-- =====================================================================================
+ALTER TABLE hour_transfer_logs ADD COLUMN IF NOT EXISTS corporate_account_id UUID REFERENCES corporate_accounts(id);
+
+CREATE INDEX idx_hour_transfer_logs_corporate ON hour_transfer_logs(corporate_account_id, created_at)
+  WHERE corporate_account_id IS NOT NULL;
+
+-- =====================================================================================
+-- PURCHASE LOT TRANSFERS
+-- =====================================================================================
+
+-- Moves hours from the source student's purchases (earliest expiry first) into
+-- new lots for the destination student. Each new lot keeps the source expiry,
+-- package and corporate pool. When p_corporate_account_id is set only lots
+-- bought for that pool are moved. Returns the first source purchase ID.
+CREATE OR REPLACE FUNCTION transfer_purchase_hours(
+  p_from_student_id UUID,
+  p_to_student_id UUID,
+  p_hours INTEGER,
+  p_corporate_account_id UUID DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_lot RECORD;
+  v_remaining INTEGER := p_hours;
+  v_moved INTEGER;
+  v_first_purchase_id UUID;
+BEGIN
+  IF p_hours <= 0 THEN
+    RAISE EXCEPTION 'Hours to transfer must be positive';
+  END IF;
+
+  FOR v_lot IN
+    SELECT *
+    FROM hour_purchases
+    WHERE student_id = p_from_student_id
+      AND is_active = true
+      AND is_expired = false
+      AND valid_until > NOW()
+      AND payment_status = 'completed'
+      AND hours_remaining > 0
+      AND (p_corporate_account_id IS NULL OR corporate_account_id = p_corporate_account_id)
+    ORDER BY valid_until ASC, created_at ASC
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_moved := LEAST(v_lot.hours_remaining, v_remaining);
+    v_first_purchase_id := COALESCE(v_first_purchase_id, v_lot.id);
+
+    UPDATE hour_purchases
+    SET hours_used = hours_used + v_moved,
+        transfers_made = transfers_made + 1,
+        updated_at = NOW()
+    WHERE id = v_lot.id;
+
+    INSERT INTO hour_purchases (
+      student_id,
+      package_id,
+      hours_purchased,
+      price_paid,
+      currency,
+      payment_status,
+      payment_method,
+      paid_at,
+      valid_from,
+      valid_until,
+      is_corporate_purchase,
+      corporate_account_id,
+      metadata
+    ) VALUES (
+      p_to_student_id,
+      v_lot.package_id,
+      v_moved,
+      0,
+      v_lot.currency,
+      'completed',
+      v_lot.payment_method,
+      NOW(),
+      NOW(),
+      v_lot.valid_until,
+      v_lot.is_corporate_purchase,
+      v_lot.corporate_account_id,
+      jsonb_build_object('transferred_from_purchase_id', v_lot.id)
+    );
+
+    v_remaining := v_remaining - v_moved;
+  END LOOP;
+
+  IF v_remaining > 0 THEN
+    RAISE EXCEPTION 'Insufficient transferable hours. Required: %, Available: %', p_hours, p_hours - v_remaining;
+  END IF;
+
+  RETURN v_first_purchase_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================================
+-- MONTHLY SPENDING CAP
+-- =====================================================================================
+
+-- Rejects a pool purchase whose priced amount would take this month's spend
+-- over the account cap. The account row stays locked until the purchase
+-- commits, so parallel purchases are checked one after another.
+CREATE OR REPLACE FUNCTION enforce_corporate_spend_cap()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_account corporate_accounts;
+  v_spent DECIMAL(10, 2);
+BEGIN
+  SELECT * INTO v_account
+  FROM corporate_accounts
+  WHERE pool_profile_id = NEW.corporate_account_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_account.monthly_spend_cap IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(price_paid), 0) INTO v_spent
+  FROM hour_purchases
+  WHERE student_id = NEW.corporate_account_id
+    AND corporate_account_id = NEW.corporate_account_id
+    AND payment_status IN ('pending', 'processing', 'completed')
+    AND created_at >= date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+
+  IF v_spent + NEW.price_paid > v_account.monthly_spend_cap THEN
+    RAISE EXCEPTION 'SPEND_CAP_EXCEEDED: purchase of % would take spend this month to % of the % cap',
+      NEW.price_paid, v_spent + NEW.price_paid, v_account.monthly_spend_cap;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only paid purchases into a pool count; lots moved by transfers are free
+CREATE TRIGGER enforce_corporate_spend_cap_before_insert
+  BEFORE INSERT ON hour_purchases
+  FOR EACH ROW
+  WHEN (NEW.corporate_account_id IS NOT NULL AND NEW.student_id = NEW.corporate_account_id AND NEW.price_paid > 0)
+  EXECUTE FUNCTION enforce_corporate_spend_cap();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE corporate_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE corporate_account_members ENABLE ROW LEVEL SECURITY;
+
+-- The pool owner manages their own account; admins manage all accounts
+CREATE POLICY corporate_accounts_owner ON corporate_accounts
+  FOR SELECT USING (auth.uid() = pool_profile_id);
+
+CREATE POLICY corporate_accounts_admin ON corporate_accounts
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY corporate_account_members_select ON corporate_account_members
+  FOR SELECT USING (
+    auth.uid() = student_id OR
+    auth.uid() IN (SELECT pool_profile_id FROM corporate_accounts WHERE id = corporate_account_id)
+  );
+
+CREATE POLICY corporate_account_members_manage ON corporate_account_members
+  FOR ALL USING (
+    auth.uid() IN (SELECT pool_profile_id FROM corporate_accounts WHERE id = corporate_account_id) OR
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE corporate_accounts IS 'Employer accounts that buy hours into a shared pool';
+COMMENT ON TABLE corporate_account_members IS 'Employees enrolled in a corporate account with optional monthly allocation caps';
+COMMENT ON FUNCTION enforce_corporate_spend_cap IS 'Rejects pool purchases that would exceed the corporate monthly spending cap';
+COMMENT ON FUNCTION transfer_purchase_hours IS 'Moves hours between students by splitting purchase lots, earliest expiry first';
@@ -0,0 +1,301 @@
+-- =====================================================================================
+-- Double-Entry Hour Ledger and Reconciliation
+-- =====================================================================================
+-- This migration adds:
+-- 1. An immutable double-entry ledger posted from every hour transaction
+-- 2. A balance snapshot used by the nightly reconciliation job
+-- 3. Reconciliation runs and the discrepancies they find
+--
+-- Every hour_transactions row posts one journal with two entries that sum to
+-- zero: the student's balance account and a counter account for the
+-- transaction type. Transfers post against a clearing account, so a transfer
+-- whose other half is missing leaves a non-zero clearing balance.
+-- =====================================================================================
+
+-- =====================================================================================
+-- LEDGER TABLES
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS hour_ledger_journals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID UNIQUE REFERENCES hour_transactions(id),
+  journal_type VARCHAR(30) NOT NULL,
+  description TEXT,
+  posted_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS hour_ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  journal_id UUID NOT NULL REFERENCES hour_ledger_journals(id),
+  account VARCHAR(30) NOT NULL CHECK (account IN (
+    'student_balance',
+    'hours_issued',
+    'hours_consumed',
+    'hours_expired',
+    'hours_refunded',
+    'hours_adjusted',
+    'hours_bonus',
+    'transfer_clearing'
+  )),
+  student_id UUID NOT NULL REFERENCES profiles(id),
+  counterparty_student_id UUID REFERENCES profiles(id),
+  purchase_id UUID REFERENCES hour_purchases(id),
+
+  -- Positive increases the account, negative decreases it
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_hour_ledger_entries_student ON hour_ledger_entries(student_id, account);
+CREATE INDEX idx_hour_ledger_entries_journal ON hour_ledger_entries(journal_id);
+
+-- Ledger rows are never changed; corrections are posted as new journals
+CREATE OR REPLACE FUNCTION prevent_hour_ledger_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Hour ledger rows are immutable; post a correcting journal instead';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER hour_ledger_journals_immutable
+  BEFORE UPDATE OR DELETE ON hour_ledger_journals
+  FOR EACH ROW EXECUTE FUNCTION prevent_hour_ledger_changes();
+
+CREATE TRIGGER hour_ledger_entries_immutable
+  BEFORE UPDATE OR DELETE ON hour_ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION prevent_hour_ledger_changes();
+
+-- Entries of a journal must sum to zero by the end of the transaction
+CREATE OR REPLACE FUNCTION check_hour_journal_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_total INTEGER;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) INTO v_total
+  FROM hour_ledger_entries
+  WHERE journal_id = NEW.journal_id;
+
+  IF v_total <> 0 THEN
+    RAISE EXCEPTION 'Hour journal % is unbalanced by % hours', NEW.journal_id, v_total;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE CONSTRAINT TRIGGER hour_ledger_entries_balanced
+  AFTER INSERT ON hour_ledger_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION check_hour_journal_balanced();
+
+-- =====================================================================================
+-- POSTING
+-- =====================================================================================
+-- The ledger tables only have SELECT policies, so posting runs as the
+-- function owner. Admin adjustments, teacher deductions and guardian
+-- transfers insert hour_transactions with a user session.
+CREATE OR REPLACE FUNCTION post_hour_ledger_journal(p_transaction hour_transactions)
+RETURNS UUID AS $$
+DECLARE
+  v_journal_id UUID;
+  v_counter_account VARCHAR(30);
+  v_counterparty UUID;
+BEGIN
+  IF p_transaction.hours_amount = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_counter_account := CASE p_transaction.transaction_type
+    WHEN 'purchase' THEN 'hours_issued'
+    WHEN 'deduction' THEN 'hours_consumed'
+    WHEN 'expiry' THEN 'hours_expired'
+    WHEN 'refund' THEN 'hours_refunded'
+    WHEN 'adjustment' THEN 'hours_adjusted'
+    WHEN 'bonus' THEN 'hours_bonus'
+    WHEN 'transfer' THEN 'transfer_clearing'
+  END;
+
+  v_counterparty := COALESCE(p_transaction.transfer_to_student_id, p_transaction.transfer_from_student_id);
+
+  INSERT INTO hour_ledger_journals (transaction_id, journal_type, description, posted_at)
+  VALUES (p_transaction.id, p_transaction.transaction_type::TEXT, p_transaction.description, p_transaction.created_at)
+  RETURNING id INTO v_journal_id;
+
+  INSERT INTO hour_ledger_entries (journal_id, account, student_id, counterparty_student_id, purchase_id, amount)
+  VALUES
+    (v_journal_id, 'student_balance', p_transaction.student_id, v_counterparty, p_transaction.purchase_id, p_transaction.hours_amount),
+    (v_journal_id, v_counter_account, p_transaction.student_id, v_counterparty, p_transaction.purchase_id, -p_transaction.hours_amount);
+
+  RETURN v_journal_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Journals are only posted by the hour_transactions trigger
+REVOKE EXECUTE ON FUNCTION post_hour_ledger_journal(hour_transactions) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION post_hour_transaction_to_ledger()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM post_hour_ledger_journal(NEW);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER hour_transactions_post_to_ledger
+  AFTER INSERT ON hour_transactions
+  FOR EACH ROW EXECUTE FUNCTION post_hour_transaction_to_ledger();
+
+-- Post journals for transactions recorded before the ledger existed
+SELECT post_hour_ledger_journal(t)
+FROM hour_transactions t
+ORDER BY t.created_at;
+
+-- =====================================================================================
+-- RECONCILIATION
+-- =====================================================================================
+
+-- Ledger, purchase-lot and cached (latest balance_after) balance per student
+CREATE OR REPLACE FUNCTION get_hour_balance_snapshot()
+RETURNS TABLE (
+  student_id UUID,
+  ledger_balance INTEGER,
+  purchase_balance INTEGER,
+  cached_balance INTEGER,
+  last_transaction_id UUID
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH students AS (
+    SELECT DISTINCT t.student_id FROM hour_transactions t
+    UNION
+    SELECT DISTINCT p.student_id FROM hour_purchases p
+  ),
+  ledger AS (
+    SELECT e.student_id, SUM(e.amount)::INTEGER AS balance
+    FROM hour_ledger_entries e
+    WHERE e.account = 'student_balance'
+    GROUP BY e.student_id
+  ),
+  latest AS (
+    SELECT DISTINCT ON (t.student_id) t.student_id, t.id, t.balance_after
+    FROM hour_transactions t
+    ORDER BY t.student_id, t.created_at DESC, t.id DESC
+  )
+  SELECT
+    s.student_id,
+    COALESCE(l.balance, 0),
+    calculate_student_hours(s.student_id),
+    latest.balance_after,
+    latest.id
+  FROM students s
+  LEFT JOIN ledger l ON l.student_id = s.student_id
+  LEFT JOIN latest ON latest.student_id = s.student_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Journals whose entries do not sum to zero and transfers missing their other half
+CREATE OR REPLACE FUNCTION get_hour_ledger_integrity_issues()
+RETURNS TABLE (
+  issue_type TEXT,
+  student_id UUID,
+  counterparty_student_id UUID,
+  reference_id UUID,
+  amount INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 'unbalanced_journal'::TEXT, (ARRAY_AGG(e.student_id))[1], NULL::UUID, e.journal_id, SUM(e.amount)::INTEGER
+  FROM hour_ledger_entries e
+  GROUP BY e.journal_id
+  HAVING SUM(e.amount) <> 0;
+
+  RETURN QUERY
+  SELECT 'missing_journal'::TEXT, t.student_id, NULL::UUID, t.id, t.hours_amount
+  FROM hour_transactions t
+  LEFT JOIN hour_ledger_journals j ON j.transaction_id = t.id
+  WHERE j.id IS NULL AND t.hours_amount <> 0;
+
+  RETURN QUERY
+  SELECT 'open_transfer'::TEXT,
+    LEAST(e.student_id, e.counterparty_student_id),
+    GREATEST(e.student_id, e.counterparty_student_id),
+    NULL::UUID,
+    SUM(e.amount)::INTEGER
+  FROM hour_ledger_entries e
+  WHERE e.account = 'transfer_clearing'
+  GROUP BY LEAST(e.student_id, e.counterparty_student_id), GREATEST(e.student_id, e.counterparty_student_id)
+  HAVING SUM(e.amount) <> 0;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE TABLE IF NOT EXISTS hour_reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  students_checked INTEGER DEFAULT 0,
+  discrepancies_found INTEGER DEFAULT 0,
+  error_message TEXT,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS hour_ledger_discrepancies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES hour_reconciliation_runs(id) ON DELETE CASCADE,
+  student_id UUID REFERENCES profiles(id),
+  discrepancy_type VARCHAR(40) NOT NULL,
+
+  -- Balances at detection time
+  ledger_balance INTEGER,
+  purchase_balance INTEGER,
+  cached_balance INTEGER,
+  difference INTEGER NOT NULL DEFAULT 0,
+  reference_id UUID,
+
+  suggested_repair JSONB NOT NULL,
+
+  -- Review
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'ignored')),
+  resolved_by UUID REFERENCES auth.users(id),
+  resolved_at TIMESTAMPTZ,
+  resolution_notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_hour_ledger_discrepancies_status ON hour_ledger_discrepancies(status, created_at DESC);
+CREATE INDEX idx_hour_ledger_discrepancies_student ON hour_ledger_discrepancies(student_id);
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE hour_ledger_journals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hour_ledger_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hour_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hour_ledger_discrepancies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY hour_ledger_entries_select ON hour_ledger_entries
+  FOR SELECT USING (
+    auth.uid() = student_id OR
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY hour_ledger_journals_select ON hour_ledger_journals
+  FOR SELECT USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin') OR
+    id IN (SELECT journal_id FROM hour_ledger_entries WHERE student_id = auth.uid())
+  );
+
+CREATE POLICY hour_reconciliation_runs_admin ON hour_reconciliation_runs
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY hour_ledger_discrepancies_admin ON hour_ledger_discrepancies
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE hour_ledger_journals IS 'One immutable journal per hour transaction';
+COMMENT ON TABLE hour_ledger_entries IS 'Double-entry hour postings; entries of a journal always sum to zero';
+COMMENT ON TABLE hour_ledger_discrepancies IS 'Balance disagreements found by the nightly reconciliation job, with suggested repairs';
+COMMENT ON FUNCTION post_hour_ledger_journal IS 'Posts the balanced journal for one hour transaction';
+COMMENT ON FUNCTION get_hour_balance_snapshot IS 'Ledger, purchase-lot and cached hour balances for every student';
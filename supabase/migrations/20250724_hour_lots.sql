@@ -0,0 +1,350 @@
+-- =====================================================================================
+-- Hour Lot Consumption and Per-Lot Expiry
+-- =====================================================================================
+-- This migration adds:
+-- 1. hour_transaction_lots, recording which purchase lots each transaction drew from
+-- 2. consume_hour_lots(), which draws hours earliest-expiry-first and may split
+--    a deduction across several partially used lots
+-- 3. Lot-aware deduct_class_hours() and transfer_purchase_hours()
+-- 4. expire_hour_lots(), which expires exactly the unused remainder of each lot
+--
+-- Every hour_purchases row is a lot. Deductions made before this migration were
+-- not attributed to lots and are not backfilled; expiries already carry their
+-- purchase_id and are.
+-- =====================================================================================
+
+-- =====================================================================================
+-- LOT TRACKING
+-- =====================================================================================
+ALTER TABLE hour_purchases ADD COLUMN IF NOT EXISTS hours_expired INTEGER NOT NULL DEFAULT 0
+  CHECK (hours_expired >= 0);
+
+CREATE TABLE IF NOT EXISTS hour_transaction_lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES hour_transactions(id) ON DELETE CASCADE,
+  purchase_id UUID NOT NULL REFERENCES hour_purchases(id),
+  hours INTEGER NOT NULL CHECK (hours > 0),
+
+  -- Expiry of the lot at the time it was drawn
+  lot_valid_until TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_hour_transaction_lots_transaction ON hour_transaction_lots(transaction_id);
+CREATE INDEX idx_hour_transaction_lots_purchase ON hour_transaction_lots(purchase_id);
+
+-- =====================================================================================
+-- LOT CONSUMPTION
+-- =====================================================================================
+
+-- Draws p_hours from the student's usable lots, earliest expiry first and then
+-- oldest purchase first. Each draw is recorded against p_transaction_id when it
+-- is given. When p_corporate_account_id is set only lots bought for that pool
+-- are used. Raises when the lots cannot cover the request.
+CREATE OR REPLACE FUNCTION consume_hour_lots(
+  p_student_id UUID,
+  p_hours INTEGER,
+  p_transaction_id UUID DEFAULT NULL,
+  p_corporate_account_id UUID DEFAULT NULL
+) RETURNS SETOF hour_transaction_lots AS $$
+DECLARE
+  v_lot RECORD;
+  v_remaining INTEGER := p_hours;
+  v_draw hour_transaction_lots;
+BEGIN
+  IF p_hours <= 0 THEN
+    RAISE EXCEPTION 'Hours to consume must be positive';
+  END IF;
+
+  FOR v_lot IN
+    SELECT id, hours_remaining, valid_until
+    FROM hour_purchases
+    WHERE student_id = p_student_id
+      AND is_active = true
+      AND is_expired = false
+      AND valid_until > NOW()
+      AND payment_status = 'completed'
+      AND hours_remaining > 0
+      AND (p_corporate_account_id IS NULL OR corporate_account_id = p_corporate_account_id)
+    ORDER BY valid_until ASC, created_at ASC
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_draw.id := gen_random_uuid();
+    v_draw.transaction_id := p_transaction_id;
+    v_draw.purchase_id := v_lot.id;
+    v_draw.hours := LEAST(v_lot.hours_remaining, v_remaining);
+    v_draw.lot_valid_until := v_lot.valid_until;
+    v_draw.created_at := NOW();
+
+    UPDATE hour_purchases
+    SET hours_used = hours_used + v_draw.hours,
+        updated_at = NOW()
+    WHERE id = v_lot.id;
+
+    IF p_transaction_id IS NOT NULL THEN
+      INSERT INTO hour_transaction_lots SELECT v_draw.*;
+    END IF;
+
+    v_remaining := v_remaining - v_draw.hours;
+    RETURN NEXT v_draw;
+  END LOOP;
+
+  IF v_remaining > 0 THEN
+    RAISE EXCEPTION 'Insufficient hours in active lots. Required: %, Available: %', p_hours, p_hours - v_remaining;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Deducts class hours, splitting the deduction across lots as needed
+CREATE OR REPLACE FUNCTION deduct_class_hours(
+  p_student_id UUID,
+  p_class_id UUID,
+  p_booking_id UUID,
+  p_hours_to_deduct INTEGER,
+  p_class_type VARCHAR,
+  p_deduction_rate DECIMAL DEFAULT 1.0
+) RETURNS UUID AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_actual_deduction INTEGER;
+  v_balance_before INTEGER;
+  v_draw RECORD;
+  v_first_purchase_id UUID;
+BEGIN
+  -- Calculate actual deduction based on rate
+  v_actual_deduction := CEIL(p_hours_to_deduct * p_deduction_rate);
+
+  -- Get current balance
+  v_balance_before := calculate_student_hours(p_student_id);
+
+  -- Check if student has enough hours
+  IF v_balance_before < v_actual_deduction THEN
+    RAISE EXCEPTION 'Insufficient hours. Required: %, Available: %', v_actual_deduction, v_balance_before;
+  END IF;
+
+  -- Create the transaction first so the lot draws can reference it
+  INSERT INTO hour_transactions (
+    student_id,
+    transaction_type,
+    hours_amount,
+    balance_before,
+    balance_after,
+    class_id,
+    booking_id,
+    class_type,
+    deduction_rate,
+    description
+  ) VALUES (
+    p_student_id,
+    'deduction',
+    -v_actual_deduction,
+    v_balance_before,
+    v_balance_before - v_actual_deduction,
+    p_class_id,
+    p_booking_id,
+    p_class_type,
+    p_deduction_rate,
+    'Class attendance deduction'
+  ) RETURNING id INTO v_transaction_id;
+
+  FOR v_draw IN
+    SELECT * FROM consume_hour_lots(p_student_id, v_actual_deduction, v_transaction_id)
+  LOOP
+    v_first_purchase_id := COALESCE(v_first_purchase_id, v_draw.purchase_id);
+  END LOOP;
+
+  -- Keep purchase_id pointing at the earliest-expiring lot drawn
+  UPDATE hour_transactions
+  SET purchase_id = v_first_purchase_id
+  WHERE id = v_transaction_id;
+
+  -- Check if low balance alert needed
+  PERFORM check_hour_balance_alerts(p_student_id);
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Moves hours into new lots for the destination student. Each new lot keeps
+-- the source expiry, package and corporate pool. When p_transaction_id is set
+-- the source lots drawn are recorded against that transaction. Returns the
+-- first source purchase ID.
+DROP FUNCTION IF EXISTS transfer_purchase_hours(UUID, UUID, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION transfer_purchase_hours(
+  p_from_student_id UUID,
+  p_to_student_id UUID,
+  p_hours INTEGER,
+  p_corporate_account_id UUID DEFAULT NULL,
+  p_transaction_id UUID DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_draw RECORD;
+  v_lot RECORD;
+  v_first_purchase_id UUID;
+BEGIN
+  FOR v_draw IN
+    SELECT * FROM consume_hour_lots(p_from_student_id, p_hours, p_transaction_id, p_corporate_account_id)
+  LOOP
+    v_first_purchase_id := COALESCE(v_first_purchase_id, v_draw.purchase_id);
+
+    UPDATE hour_purchases
+    SET transfers_made = transfers_made + 1
+    WHERE id = v_draw.purchase_id
+    RETURNING * INTO v_lot;
+
+    INSERT INTO hour_purchases (
+      student_id,
+      package_id,
+      hours_purchased,
+      price_paid,
+      currency,
+      payment_status,
+      payment_method,
+      paid_at,
+      valid_from,
+      valid_until,
+      is_corporate_purchase,
+      corporate_account_id,
+      metadata
+    ) VALUES (
+      p_to_student_id,
+      v_lot.package_id,
+      v_draw.hours,
+      0,
+      v_lot.currency,
+      'completed',
+      v_lot.payment_method,
+      NOW(),
+      NOW(),
+      v_lot.valid_until,
+      v_lot.is_corporate_purchase,
+      v_lot.corporate_account_id,
+      jsonb_build_object('transferred_from_purchase_id', v_lot.id)
+    );
+  END LOOP;
+
+  RETURN v_first_purchase_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================================
+-- PER-LOT EXPIRY
+-- =====================================================================================
+
+-- Expires the unused remainder of every lot past valid_until. Each lot gets its
+-- own expiry transaction and lot draw for exactly the hours it had left.
+CREATE OR REPLACE FUNCTION expire_hour_lots()
+RETURNS TABLE (
+  lot_id UUID,
+  lot_student_id UUID,
+  expired_hours INTEGER,
+  expiry_transaction_id UUID
+) AS $$
+DECLARE
+  v_lot RECORD;
+  v_balance_after INTEGER;
+  v_transaction_id UUID;
+BEGIN
+  FOR v_lot IN
+    SELECT id, student_id, hours_remaining, valid_until
+    FROM hour_purchases
+    WHERE is_active = true
+      AND is_expired = false
+      AND valid_until < NOW()
+      AND hours_remaining > 0
+    ORDER BY valid_until ASC
+    FOR UPDATE
+  LOOP
+    UPDATE hour_purchases
+    SET is_expired = true,
+        hours_expired = v_lot.hours_remaining,
+        updated_at = NOW()
+    WHERE id = v_lot.id;
+
+    -- Lots past valid_until no longer count towards the balance
+    v_balance_after := calculate_student_hours(v_lot.student_id);
+
+    INSERT INTO hour_transactions (
+      student_id,
+      purchase_id,
+      transaction_type,
+      hours_amount,
+      balance_before,
+      balance_after,
+      description
+    ) VALUES (
+      v_lot.student_id,
+      v_lot.id,
+      'expiry',
+      -v_lot.hours_remaining,
+      v_balance_after + v_lot.hours_remaining,
+      v_balance_after,
+      'Hours expired'
+    ) RETURNING id INTO v_transaction_id;
+
+    INSERT INTO hour_transaction_lots (transaction_id, purchase_id, hours, lot_valid_until)
+    VALUES (v_transaction_id, v_lot.id, v_lot.hours_remaining, v_lot.valid_until);
+
+    INSERT INTO hour_alerts (
+      student_id,
+      alert_type,
+      hours_remaining,
+      expiry_date
+    ) VALUES (
+      v_lot.student_id,
+      'expired',
+      v_lot.hours_remaining,
+      NOW()
+    );
+
+    lot_id := v_lot.id;
+    lot_student_id := v_lot.student_id;
+    expired_hours := v_lot.hours_remaining;
+    expiry_transaction_id := v_transaction_id;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Kept for existing callers; returns the number of lots expired
+CREATE OR REPLACE FUNCTION expire_hour_purchases()
+RETURNS INTEGER AS $$
+BEGIN
+  RETURN (SELECT COUNT(*)::INTEGER FROM expire_hour_lots());
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================================
+-- BACKFILL
+-- =====================================================================================
+UPDATE hour_purchases
+SET hours_expired = hours_remaining
+WHERE is_expired = true AND hours_expired = 0 AND hours_remaining > 0;
+
+INSERT INTO hour_transaction_lots (transaction_id, purchase_id, hours, lot_valid_until, created_at)
+SELECT t.id, t.purchase_id, -t.hours_amount, p.valid_until, t.created_at
+FROM hour_transactions t
+JOIN hour_purchases p ON p.id = t.purchase_id
+WHERE t.transaction_type = 'expiry'
+  AND t.hours_amount < 0
+  AND NOT EXISTS (SELECT 1 FROM hour_transaction_lots l WHERE l.transaction_id = t.id);
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE hour_transaction_lots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY hour_transaction_lots_select ON hour_transaction_lots
+  FOR SELECT USING (
+    transaction_id IN (SELECT id FROM hour_transactions WHERE student_id = auth.uid()) OR
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE hour_transaction_lots IS 'Purchase lots drawn down by each hour transaction';
+COMMENT ON COLUMN hour_purchases.hours_expired IS 'Unused hours written off when the lot expired';
+COMMENT ON FUNCTION consume_hour_lots IS 'Draws hours from purchase lots, earliest expiry first, splitting across lots';
+COMMENT ON FUNCTION expire_hour_lots IS 'Expires the unused remainder of each lot past its validity';
+COMMENT ON FUNCTION transfer_purchase_hours IS 'Moves hours between students by splitting purchase lots, earliest expiry first';
@@ -0,0 +1,412 @@
+-- =====================================================================================
+-- Hour Pricing: Promo Codes, Referral Credits and Volume Tiers
+-- =====================================================================================
+-- This migration adds:
+-- 1. Promo codes with usage limits, date windows and per-student caps
+-- 2. Referral credits that can be spent on later purchases
+-- 3. Volume pricing tiers keyed on the number of hours bought
+-- 4. hour_purchase_discounts, one row per discount applied to a purchase
+--
+-- Discounts are reserved when the purchase is created. Promo redemptions and
+-- referral credit balances are released again if the payment fails or is
+-- cancelled.
+-- =====================================================================================
+
+-- =====================================================================================
+-- PROMO CODES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(50) NOT NULL,
+  description TEXT,
+  discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value DECIMAL(10, 2) NOT NULL CHECK (discount_value > 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+
+  -- Limits
+  max_redemptions INTEGER CHECK (max_redemptions IS NULL OR max_redemptions > 0),
+  max_redemptions_per_student INTEGER CHECK (max_redemptions_per_student IS NULL OR max_redemptions_per_student > 0),
+  redemptions_count INTEGER NOT NULL DEFAULT 0 CHECK (redemptions_count >= 0),
+  min_hours INTEGER CHECK (min_hours IS NULL OR min_hours > 0),
+  package_ids UUID[],
+
+  -- Date window
+  valid_from TIMESTAMPTZ,
+  valid_until TIMESTAMPTZ,
+
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from)
+);
+
+CREATE UNIQUE INDEX idx_promo_codes_code ON promo_codes(UPPER(code));
+
+-- =====================================================================================
+-- VOLUME PRICING TIERS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS volume_pricing_tiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  min_hours INTEGER NOT NULL UNIQUE CHECK (min_hours > 0),
+  discount_percentage DECIMAL(5, 2) NOT NULL CHECK (discount_percentage > 0 AND discount_percentage <= 100),
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =====================================================================================
+-- REFERRAL CREDITS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS referral_credits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Student who earned the credit and the student they referred
+  student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  referred_student_id UUID REFERENCES profiles(id),
+
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  remaining_amount DECIMAL(10, 2) NOT NULL CHECK (remaining_amount >= 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  status VARCHAR(20) NOT NULL DEFAULT 'available' CHECK (status IN ('available', 'redeemed', 'expired')),
+  expires_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  CHECK (remaining_amount <= amount)
+);
+
+CREATE INDEX idx_referral_credits_student ON referral_credits(student_id) WHERE status = 'available';
+CREATE UNIQUE INDEX idx_referral_credits_referral ON referral_credits(student_id, referred_student_id)
+  WHERE referred_student_id IS NOT NULL;
+
+-- =====================================================================================
+-- PURCHASE DISCOUNTS
+-- =====================================================================================
+ALTER TABLE hour_purchases ADD COLUMN IF NOT EXISTS list_price DECIMAL(10, 2);
+ALTER TABLE hour_purchases ADD COLUMN IF NOT EXISTS discount_total DECIMAL(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE hour_purchases ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES promo_codes(id);
+
+CREATE TABLE IF NOT EXISTS hour_purchase_discounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_id UUID NOT NULL REFERENCES hour_purchases(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('volume_tier', 'promo_code', 'referral_credit')),
+
+  -- promo_codes, referral_credits or volume_pricing_tiers row that granted it
+  source_id UUID NOT NULL,
+  code VARCHAR(50),
+  description TEXT NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  percentage DECIMAL(5, 2),
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_hour_purchase_discounts_purchase ON hour_purchase_discounts(purchase_id);
+CREATE INDEX idx_hour_purchase_discounts_source ON hour_purchase_discounts(source_id, student_id);
+CREATE INDEX idx_hour_purchase_discounts_created ON hour_purchase_discounts(created_at);
+
+-- =====================================================================================
+-- FUNCTIONS
+-- =====================================================================================
+
+-- Records the discounts quoted for a purchase. Each discount is priced again
+-- here from the stored list price, in the same order as the quote (volume
+-- tier, promo code, referral credit), and a quote that does not match, or a
+-- purchase price that does not match the discounts, raises. Promo
+-- redemptions and referral credit balances are claimed under row locks, so a
+-- code that expired or hit its limit after the quote was made raises instead
+-- of being over-redeemed.
+CREATE OR REPLACE FUNCTION apply_hour_purchase_discounts(
+  p_purchase_id UUID,
+  p_student_id UUID,
+  p_discounts JSONB
+) RETURNS INTEGER AS $$
+DECLARE
+  v_purchase hour_purchases;
+  v_package_price DECIMAL(10, 2);
+  v_discount JSONB;
+  v_source_id UUID;
+  v_amount DECIMAL(10, 2);
+  v_percentage DECIMAL(5, 2);
+  v_price DECIMAL(10, 2);
+  v_rank INTEGER;
+  v_last_rank INTEGER := 0;
+  v_tier volume_pricing_tiers;
+  v_best_tier_id UUID;
+  v_promo promo_codes;
+  v_credit referral_credits;
+  v_student_redemptions INTEGER;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_purchase
+  FROM hour_purchases
+  WHERE id = p_purchase_id AND student_id = p_student_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase % does not belong to student %', p_purchase_id, p_student_id;
+  END IF;
+
+  -- Students apply discounts to their own purchases; admins and the service
+  -- role to any
+  IF auth.uid() IS NOT NULL AND auth.uid() <> v_purchase.student_id AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'FORBIDDEN: purchase % belongs to another student', p_purchase_id;
+  END IF;
+
+  IF v_purchase.payment_status <> 'pending' THEN
+    RAISE EXCEPTION 'Discounts can only be applied to a pending purchase';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM hour_purchase_discounts WHERE purchase_id = p_purchase_id) THEN
+    RAISE EXCEPTION 'Discounts were already applied to purchase %', p_purchase_id;
+  END IF;
+
+  SELECT price INTO v_package_price FROM hour_packages WHERE id = v_purchase.package_id;
+
+  IF v_purchase.list_price IS NULL OR v_purchase.list_price <> v_package_price THEN
+    RAISE EXCEPTION 'DISCOUNT_MISMATCH: purchase list price does not match the package price';
+  END IF;
+
+  v_price := v_purchase.list_price;
+
+  SELECT id INTO v_best_tier_id
+  FROM volume_pricing_tiers
+  WHERE is_active = true AND min_hours <= v_purchase.hours_purchased
+  ORDER BY min_hours DESC
+  LIMIT 1;
+
+  FOR v_discount IN SELECT * FROM jsonb_array_elements(COALESCE(p_discounts, '[]'::jsonb))
+  LOOP
+    v_source_id := (v_discount->>'sourceId')::UUID;
+    v_percentage := NULL;
+
+    v_rank := CASE v_discount->>'type'
+      WHEN 'volume_tier' THEN 1
+      WHEN 'promo_code' THEN 2
+      WHEN 'referral_credit' THEN 3
+    END;
+
+    -- One tier, then one promo code, then referral credits
+    IF v_rank IS NULL OR v_rank < v_last_rank OR (v_rank < 3 AND v_rank = v_last_rank) THEN
+      RAISE EXCEPTION 'DISCOUNT_MISMATCH: discounts are not in quote order';
+    END IF;
+
+    v_last_rank := v_rank;
+
+    IF v_price <= 0 THEN
+      RAISE EXCEPTION 'DISCOUNT_MISMATCH: purchase is already fully discounted';
+    END IF;
+
+    IF v_rank = 1 THEN
+      SELECT * INTO v_tier FROM volume_pricing_tiers WHERE id = v_source_id;
+
+      IF NOT FOUND OR v_source_id IS DISTINCT FROM v_best_tier_id THEN
+        RAISE EXCEPTION 'DISCOUNT_MISMATCH: volume tier does not apply to % hours', v_purchase.hours_purchased;
+      END IF;
+
+      v_percentage := v_tier.discount_percentage;
+      v_amount := ROUND(v_price * v_tier.discount_percentage / 100, 2);
+    ELSIF v_rank = 2 THEN
+      SELECT * INTO v_promo FROM promo_codes WHERE id = v_source_id FOR UPDATE;
+
+      IF NOT FOUND OR NOT v_promo.is_active THEN
+        RAISE EXCEPTION 'Promo code is not active';
+      END IF;
+
+      IF (v_promo.valid_from IS NOT NULL AND v_promo.valid_from > NOW())
+        OR (v_promo.valid_until IS NOT NULL AND v_promo.valid_until <= NOW()) THEN
+        RAISE EXCEPTION 'Promo code % is outside its valid dates', v_promo.code;
+      END IF;
+
+      IF v_promo.max_redemptions IS NOT NULL AND v_promo.redemptions_count >= v_promo.max_redemptions THEN
+        RAISE EXCEPTION 'Promo code % has reached its usage limit', v_promo.code;
+      END IF;
+
+      SELECT COUNT(*) INTO v_student_redemptions
+      FROM hour_purchase_discounts
+      WHERE source_id = v_source_id AND student_id = p_student_id;
+
+      IF v_promo.max_redemptions_per_student IS NOT NULL
+        AND v_student_redemptions >= v_promo.max_redemptions_per_student THEN
+        RAISE EXCEPTION 'Promo code % has already been used the maximum number of times', v_promo.code;
+      END IF;
+
+      IF (v_promo.min_hours IS NOT NULL AND v_purchase.hours_purchased < v_promo.min_hours)
+        OR (COALESCE(array_length(v_promo.package_ids, 1), 0) > 0 AND NOT v_purchase.package_id = ANY(v_promo.package_ids))
+        OR (v_promo.discount_type = 'fixed' AND v_promo.currency <> v_purchase.currency) THEN
+        RAISE EXCEPTION 'Promo code % does not apply to this purchase', v_promo.code;
+      END IF;
+
+      IF v_promo.discount_type = 'percentage' THEN
+        v_percentage := v_promo.discount_value;
+        v_amount := ROUND(v_price * v_promo.discount_value / 100, 2);
+      ELSE
+        v_amount := LEAST(ROUND(v_promo.discount_value, 2), v_price);
+      END IF;
+
+      UPDATE promo_codes
+      SET redemptions_count = redemptions_count + 1,
+          updated_at = NOW()
+      WHERE id = v_source_id;
+
+      UPDATE hour_purchases SET promo_code_id = v_source_id WHERE id = p_purchase_id;
+    ELSE
+      SELECT * INTO v_credit
+      FROM referral_credits
+      WHERE id = v_source_id
+        AND student_id = p_student_id
+        AND status = 'available'
+        AND currency = v_purchase.currency
+        AND (expires_at IS NULL OR expires_at > NOW())
+      FOR UPDATE;
+
+      IF NOT FOUND OR v_credit.remaining_amount <= 0 THEN
+        RAISE EXCEPTION 'Referral credit is no longer available';
+      END IF;
+
+      v_amount := LEAST(v_credit.remaining_amount, v_price);
+
+      UPDATE referral_credits
+      SET remaining_amount = remaining_amount - v_amount,
+          status = CASE WHEN remaining_amount - v_amount = 0 THEN 'redeemed' ELSE status END
+      WHERE id = v_source_id;
+    END IF;
+
+    -- The quote is priced in floating point, so allow a cent of rounding
+    IF v_amount <= 0 OR ABS(v_amount - (v_discount->>'amount')::DECIMAL) > 0.01 THEN
+      RAISE EXCEPTION 'DISCOUNT_MISMATCH: quoted % discount of % does not match %',
+        v_discount->>'type', v_discount->>'amount', v_amount;
+    END IF;
+
+    INSERT INTO hour_purchase_discounts (
+      purchase_id,
+      student_id,
+      discount_type,
+      source_id,
+      code,
+      description,
+      amount,
+      percentage,
+      currency
+    ) VALUES (
+      p_purchase_id,
+      p_student_id,
+      v_discount->>'type',
+      v_source_id,
+      CASE WHEN v_rank = 2 THEN v_promo.code END,
+      v_discount->>'description',
+      v_amount,
+      v_percentage,
+      v_purchase.currency
+    );
+
+    v_price := v_price - v_amount;
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF ABS(v_purchase.price_paid - GREATEST(v_price, 0)) > 0.01
+    OR ABS(v_purchase.discount_total - (v_purchase.list_price - v_price)) > 0.01 THEN
+    RAISE EXCEPTION 'DISCOUNT_MISMATCH: purchase price % does not match the discounted price %',
+      v_purchase.price_paid, GREATEST(v_price, 0);
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_hour_purchase_discounts(UUID, UUID, JSONB) FROM PUBLIC, anon;
+
+-- Gives back promo redemptions and referral credit when a purchase's payment
+-- fails or is cancelled
+CREATE OR REPLACE FUNCTION release_hour_purchase_discounts()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE promo_codes p
+  SET redemptions_count = GREATEST(p.redemptions_count - d.uses, 0),
+      updated_at = NOW()
+  FROM (
+    SELECT source_id, COUNT(*) AS uses
+    FROM hour_purchase_discounts
+    WHERE purchase_id = NEW.id AND discount_type = 'promo_code'
+    GROUP BY source_id
+  ) d
+  WHERE p.id = d.source_id;
+
+  UPDATE referral_credits c
+  SET remaining_amount = LEAST(c.remaining_amount + d.amount, c.amount),
+      status = 'available'
+  FROM (
+    SELECT source_id, SUM(amount) AS amount
+    FROM hour_purchase_discounts
+    WHERE purchase_id = NEW.id AND discount_type = 'referral_credit'
+    GROUP BY source_id
+  ) d
+  WHERE c.id = d.source_id;
+
+  DELETE FROM hour_purchase_discounts WHERE purchase_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER release_hour_purchase_discounts_on_failure
+  AFTER UPDATE OF payment_status ON hour_purchases
+  FOR EACH ROW
+  WHEN (NEW.payment_status IN ('failed', 'cancelled') AND OLD.payment_status NOT IN ('failed', 'cancelled'))
+  EXECUTE FUNCTION release_hour_purchase_discounts();
+
+CREATE TRIGGER update_promo_codes_timestamp
+  BEFORE UPDATE ON promo_codes
+  FOR EACH ROW EXECUTE FUNCTION update_hour_management_timestamp();
+
+CREATE TRIGGER update_volume_pricing_tiers_timestamp
+  BEFORE UPDATE ON volume_pricing_tiers
+  FOR EACH ROW EXECUTE FUNCTION update_hour_management_timestamp();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE volume_pricing_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE referral_credits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hour_purchase_discounts ENABLE ROW LEVEL SECURITY;
+
+-- Students look codes up at checkout; only admins see the full list
+CREATE POLICY promo_codes_select ON promo_codes
+  FOR SELECT USING (is_active = true OR auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin'));
+
+CREATE POLICY promo_codes_admin ON promo_codes
+  FOR ALL USING (auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin'));
+
+CREATE POLICY volume_pricing_tiers_select ON volume_pricing_tiers
+  FOR SELECT USING (true);
+
+CREATE POLICY volume_pricing_tiers_admin ON volume_pricing_tiers
+  FOR ALL USING (auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin'));
+
+CREATE POLICY referral_credits_select ON referral_credits
+  FOR SELECT USING (
+    auth.uid() = student_id OR
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY referral_credits_admin ON referral_credits
+  FOR ALL USING (auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin'));
+
+CREATE POLICY hour_purchase_discounts_select ON hour_purchase_discounts
+  FOR SELECT USING (
+    auth.uid() = student_id OR
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE promo_codes IS 'Percentage or fixed discount codes with usage limits and date windows';
+COMMENT ON TABLE volume_pricing_tiers IS 'Percentage discount applied automatically from a minimum number of hours';
+COMMENT ON TABLE referral_credits IS 'Money credit earned by referring a student, spent on later purchases';
+COMMENT ON TABLE hour_purchase_discounts IS 'Every discount applied to an hour purchase';
+COMMENT ON FUNCTION apply_hour_purchase_discounts IS 'Claims promo redemptions and referral credit and records the discounts for a purchase';
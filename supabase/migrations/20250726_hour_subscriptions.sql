@@ -0,0 +1,296 @@
+-- =====================================================================================
+-- Hour Subscriptions and Auto Top-Up
+-- =====================================================================================
+-- This migration adds:
+-- 1. Subscription plans that grant a fixed number of hours every billing period
+-- 2. Student subscriptions with their billing schedule and dunning state
+-- 3. Auto top-up settings that buy a package when the balance falls below a threshold
+-- 4. hour_billing_charges, one row per recurring or automatic charge attempt
+-- 5. apply_subscription_rollover(), which expires unused subscription hours
+--    above the plan's rollover cap at renewal
+--
+-- Every successful charge creates an hour_purchases lot linked to its
+-- subscription, so subscription hours are drawn and expired like any other lot.
+-- =====================================================================================
+
+-- =====================================================================================
+-- SUBSCRIPTION PLANS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS subscription_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+
+  -- Package the hour lots are bought under (validity, class restrictions)
+  package_id UUID NOT NULL REFERENCES hour_packages(id),
+
+  hours_per_period INTEGER NOT NULL CHECK (hours_per_period > 0),
+  billing_interval VARCHAR(20) NOT NULL DEFAULT 'monthly'
+    CHECK (billing_interval IN ('monthly', 'quarterly')),
+  price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+
+  -- Unused subscription hours carried into the next period
+  rollover_cap INTEGER NOT NULL DEFAULT 0 CHECK (rollover_cap >= 0),
+
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+-- =====================================================================================
+-- HOUR SUBSCRIPTIONS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS hour_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  plan_id UUID NOT NULL REFERENCES subscription_plans(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'past_due', 'cancelled')),
+
+  -- Billing schedule
+  current_period_start TIMESTAMPTZ NOT NULL,
+  current_period_end TIMESTAMPTZ NOT NULL,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+
+  -- Downgrades take effect at the next renewal
+  pending_plan_id UUID REFERENCES subscription_plans(id),
+
+  -- Saved payment method (provider token only, never raw card data)
+  payment_method payment_method NOT NULL,
+  payment_details JSONB DEFAULT '{}'::jsonb,
+
+  -- Dunning
+  failed_attempts INTEGER NOT NULL DEFAULT 0 CHECK (failed_attempts >= 0),
+  next_retry_at TIMESTAMPTZ,
+  last_failure_message TEXT,
+
+  cancelled_at TIMESTAMPTZ,
+  cancellation_reason VARCHAR(50),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_subscription_period CHECK (current_period_end > current_period_start)
+);
+
+-- A student has at most one live subscription
+CREATE UNIQUE INDEX idx_hour_subscriptions_live_student
+  ON hour_subscriptions(student_id) WHERE status <> 'cancelled';
+CREATE INDEX idx_hour_subscriptions_renewal
+  ON hour_subscriptions(current_period_end) WHERE status = 'active';
+CREATE INDEX idx_hour_subscriptions_retry
+  ON hour_subscriptions(next_retry_at) WHERE status = 'past_due';
+
+ALTER TABLE hour_purchases ADD COLUMN IF NOT EXISTS subscription_id UUID REFERENCES hour_subscriptions(id);
+
+CREATE INDEX idx_hour_purchases_subscription ON hour_purchases(subscription_id)
+  WHERE subscription_id IS NOT NULL;
+
+-- =====================================================================================
+-- AUTO TOP-UP SETTINGS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS auto_top_up_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL UNIQUE REFERENCES profiles(id) ON DELETE CASCADE,
+  is_enabled BOOLEAN NOT NULL DEFAULT false,
+  threshold_hours INTEGER NOT NULL DEFAULT 2 CHECK (threshold_hours >= 0),
+  package_id UUID NOT NULL REFERENCES hour_packages(id),
+  payment_method payment_method NOT NULL,
+  payment_details JSONB DEFAULT '{}'::jsonb,
+  max_top_ups_per_month INTEGER NOT NULL DEFAULT 2 CHECK (max_top_ups_per_month > 0),
+  last_triggered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =====================================================================================
+-- HOUR BILLING CHARGES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS hour_billing_charges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  subscription_id UUID REFERENCES hour_subscriptions(id) ON DELETE SET NULL,
+  purchase_id UUID REFERENCES hour_purchases(id),
+  charge_type VARCHAR(30) NOT NULL CHECK (charge_type IN (
+    'subscription_initial',
+    'subscription_renewal',
+    'subscription_proration',
+    'auto_top_up'
+  )),
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount >= 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  hours INTEGER NOT NULL CHECK (hours >= 0),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('succeeded', 'processing', 'failed')),
+  attempt INTEGER NOT NULL DEFAULT 1 CHECK (attempt > 0),
+  failure_code VARCHAR(100),
+  failure_message TEXT,
+
+  -- Billing period covered by subscription charges
+  period_start TIMESTAMPTZ,
+  period_end TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_hour_billing_charges_student ON hour_billing_charges(student_id, created_at DESC);
+CREATE INDEX idx_hour_billing_charges_subscription ON hour_billing_charges(subscription_id);
+
+-- =====================================================================================
+-- ROLLOVER
+-- =====================================================================================
+
+-- Expires the subscription's unused hours above p_rollover_cap, drawing from
+-- its earliest-expiring lots. The trimmed hours are booked to hours_used so
+-- hours_remaining stays the usable amount, and counted in hours_expired.
+-- Returns the number of hours expired.
+CREATE OR REPLACE FUNCTION apply_subscription_rollover(
+  p_subscription_id UUID,
+  p_rollover_cap INTEGER
+) RETURNS INTEGER AS $$
+DECLARE
+  v_student_id UUID;
+  v_unused INTEGER;
+  v_excess INTEGER;
+  v_remaining INTEGER;
+  v_draw INTEGER;
+  v_lot RECORD;
+  v_balance_before INTEGER;
+  v_transaction_id UUID;
+BEGIN
+  SELECT student_id INTO v_student_id
+  FROM hour_subscriptions
+  WHERE id = p_subscription_id;
+
+  IF v_student_id IS NULL THEN
+    RAISE EXCEPTION 'Subscription % not found', p_subscription_id;
+  END IF;
+
+  SELECT COALESCE(SUM(hours_remaining), 0) INTO v_unused
+  FROM hour_purchases
+  WHERE subscription_id = p_subscription_id
+    AND is_active = true
+    AND is_expired = false
+    AND valid_until > NOW()
+    AND payment_status = 'completed'
+    AND hours_remaining > 0;
+
+  v_excess := v_unused - GREATEST(p_rollover_cap, 0);
+  IF v_excess <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_balance_before := calculate_student_hours(v_student_id);
+
+  INSERT INTO hour_transactions (
+    student_id,
+    transaction_type,
+    hours_amount,
+    balance_before,
+    balance_after,
+    description
+  ) VALUES (
+    v_student_id,
+    'expiry',
+    -v_excess,
+    v_balance_before,
+    v_balance_before - v_excess,
+    'Unused subscription hours above the rollover cap expired'
+  ) RETURNING id INTO v_transaction_id;
+
+  v_remaining := v_excess;
+
+  FOR v_lot IN
+    SELECT id, hours_remaining, valid_until
+    FROM hour_purchases
+    WHERE subscription_id = p_subscription_id
+      AND is_active = true
+      AND is_expired = false
+      AND valid_until > NOW()
+      AND payment_status = 'completed'
+      AND hours_remaining > 0
+    ORDER BY valid_until ASC, created_at ASC
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_draw := LEAST(v_lot.hours_remaining, v_remaining);
+
+    UPDATE hour_purchases
+    SET hours_used = hours_used + v_draw,
+        hours_expired = hours_expired + v_draw,
+        updated_at = NOW()
+    WHERE id = v_lot.id;
+
+    INSERT INTO hour_transaction_lots (transaction_id, purchase_id, hours, lot_valid_until)
+    VALUES (v_transaction_id, v_lot.id, v_draw, v_lot.valid_until);
+
+    v_remaining := v_remaining - v_draw;
+  END LOOP;
+
+  UPDATE hour_transactions
+  SET purchase_id = (
+    SELECT purchase_id FROM hour_transaction_lots
+    WHERE transaction_id = v_transaction_id
+    ORDER BY created_at ASC
+    LIMIT 1
+  )
+  WHERE id = v_transaction_id;
+
+  RETURN v_excess;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================================
+-- TRIGGERS
+-- =====================================================================================
+CREATE TRIGGER update_subscription_plans_timestamp
+  BEFORE UPDATE ON subscription_plans
+  FOR EACH ROW EXECUTE FUNCTION update_hour_management_timestamp();
+
+CREATE TRIGGER update_hour_subscriptions_timestamp
+  BEFORE UPDATE ON hour_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION update_hour_management_timestamp();
+
+CREATE TRIGGER update_auto_top_up_settings_timestamp
+  BEFORE UPDATE ON auto_top_up_settings
+  FOR EACH ROW EXECUTE FUNCTION update_hour_management_timestamp();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE subscription_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hour_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE auto_top_up_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hour_billing_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY subscription_plans_select ON subscription_plans
+  FOR SELECT USING (is_active = true OR auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin'));
+
+CREATE POLICY subscription_plans_admin ON subscription_plans
+  FOR ALL USING (auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin'));
+
+-- Students manage their own subscription and top-up settings from the dashboard
+CREATE POLICY hour_subscriptions_student ON hour_subscriptions
+  FOR ALL USING (
+    auth.uid() = student_id OR
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY auto_top_up_settings_student ON auto_top_up_settings
+  FOR ALL USING (
+    auth.uid() = student_id OR
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+-- Charges are written by the billing jobs with the service role only
+CREATE POLICY hour_billing_charges_select ON hour_billing_charges
+  FOR SELECT USING (
+    auth.uid() = student_id OR
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE subscription_plans IS 'Recurring plans granting a fixed number of hours per billing period';
+COMMENT ON TABLE hour_subscriptions IS 'Student subscriptions with billing schedule and dunning state';
+COMMENT ON TABLE auto_top_up_settings IS 'Opt-in automatic package purchase when the balance falls below a threshold';
+COMMENT ON TABLE hour_billing_charges IS 'Every subscription and auto top-up charge attempt';
+COMMENT ON FUNCTION apply_subscription_rollover IS 'Expires unused subscription hours above the rollover cap';
@@ -0,0 +1,256 @@
+-- =====================================================================================
+-- Hour Freezes for Approved Long Leave
+-- =====================================================================================
+-- This migration adds:
+-- 1. hour_freezes, one row per approved leave that paused a student's expiry clock
+-- 2. A 'freeze_cap' leave rule type capping frozen days per calendar year
+-- 3. apply_hour_freeze(), which pushes back valid_until on every lot still valid
+--    at the start of an approved leave, within the yearly cap, and audits each
+--    extension in hour_adjustments
+--
+-- Validity extensions do not move any hours, so hour_adjustments rows written
+-- for them have no transaction.
+-- =====================================================================================
+
+-- =====================================================================================
+-- HOUR FREEZES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS hour_freezes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  leave_request_id UUID REFERENCES leave_requests(id) ON DELETE SET NULL,
+
+  -- Approved leave range and the days actually frozen after the yearly cap
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  requested_days INTEGER NOT NULL CHECK (requested_days > 0),
+  freeze_days INTEGER NOT NULL CHECK (freeze_days > 0),
+
+  lots_extended INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+
+  approved_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_freeze_range CHECK (end_date >= start_date),
+  CONSTRAINT freeze_within_range CHECK (freeze_days <= requested_days)
+);
+
+CREATE INDEX idx_hour_freezes_student ON hour_freezes(student_id, start_date);
+CREATE UNIQUE INDEX idx_hour_freezes_leave_request
+  ON hour_freezes(leave_request_id) WHERE status = 'active';
+
+-- Validity extensions are audited without a transaction
+ALTER TABLE hour_adjustments ALTER COLUMN transaction_id DROP NOT NULL;
+
+-- =====================================================================================
+-- FREEZE CAP LEAVE RULE
+-- =====================================================================================
+ALTER TABLE leave_rules DROP CONSTRAINT IF EXISTS leave_rules_rule_type_check;
+ALTER TABLE leave_rules ADD CONSTRAINT leave_rules_rule_type_check CHECK (rule_type IN (
+  'monthly_limit', 'blackout_dates', 'advance_notice', 'consecutive_days',
+  'minimum_hours', 'approval_required', 'cancellation_policy', 'freeze_cap'
+));
+
+INSERT INTO leave_rules (name, description, rule_type, value, frequency, is_active, priority) VALUES
+  ('Hour Freeze Cap', 'Maximum 60 days of hour validity frozen per year', 'freeze_cap', '60', 'annually', true, 50)
+ON CONFLICT DO NOTHING;
+
+-- =====================================================================================
+-- APPLY FREEZE
+-- =====================================================================================
+-- Extends every completed lot still valid on the first day of an approved leave
+-- by the frozen days. Lots that expired before the leave began are left alone.
+-- The days frozen are what is left of the yearly freeze_cap for the year the
+-- leave starts in; freezes for one student queue on their profile row, so two
+-- approvals cannot both spend the same remaining days.
+CREATE OR REPLACE FUNCTION apply_hour_freeze(p_leave_request_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_leave RECORD;
+  v_student_id UUID;
+  v_start_date DATE;
+  v_end_date DATE;
+  v_approved_by UUID;
+  v_max_days INTEGER;
+  v_used_days INTEGER;
+  v_freeze_days INTEGER;
+  v_freeze_id UUID;
+  v_lot RECORD;
+  v_new_valid_until TIMESTAMPTZ;
+  v_lots_extended INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'FORBIDDEN: only admins can freeze hours';
+  END IF;
+
+  SELECT student_id, start_date, end_date, approval_status, approved_by INTO v_leave
+  FROM leave_requests
+  WHERE id = p_leave_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'LEAVE_NOT_FOUND: leave request % not found', p_leave_request_id;
+  END IF;
+
+  IF v_leave.approval_status <> 'approved' THEN
+    RAISE EXCEPTION 'LEAVE_NOT_APPROVED: leave request % is %', p_leave_request_id, v_leave.approval_status;
+  END IF;
+
+  v_student_id := v_leave.student_id;
+  v_start_date := v_leave.start_date;
+  v_end_date := v_leave.end_date;
+  v_approved_by := COALESCE(auth.uid(), v_leave.approved_by);
+
+  PERFORM 1 FROM profiles WHERE id = v_student_id FOR UPDATE;
+
+  SELECT (value #>> '{}')::INTEGER INTO v_max_days
+  FROM leave_rules
+  WHERE rule_type = 'freeze_cap' AND is_active = true
+  ORDER BY priority DESC
+  LIMIT 1;
+
+  SELECT COALESCE(SUM(freeze_days), 0) INTO v_used_days
+  FROM hour_freezes
+  WHERE student_id = v_student_id
+    AND status = 'active'
+    AND date_trunc('year', start_date) = date_trunc('year', v_start_date);
+
+  v_freeze_days := LEAST(
+    v_end_date - v_start_date + 1,
+    GREATEST(COALESCE(v_max_days, 60) - v_used_days, 0)
+  );
+
+  IF v_freeze_days <= 0 THEN
+    RAISE EXCEPTION 'FREEZE_CAP_REACHED: all % freeze days for % are used',
+      COALESCE(v_max_days, 60), EXTRACT(YEAR FROM v_start_date);
+  END IF;
+
+  INSERT INTO hour_freezes (
+    student_id,
+    leave_request_id,
+    start_date,
+    end_date,
+    requested_days,
+    freeze_days,
+    approved_by
+  ) VALUES (
+    v_student_id,
+    p_leave_request_id,
+    v_start_date,
+    v_end_date,
+    v_end_date - v_start_date + 1,
+    v_freeze_days,
+    v_approved_by
+  ) RETURNING id INTO v_freeze_id;
+
+  INSERT INTO hour_adjustments (
+    student_id,
+    adjustment_type,
+    hours_adjusted,
+    reason,
+    requested_by,
+    approved_by,
+    approved_at,
+    approval_status,
+    metadata
+  ) VALUES (
+    v_student_id,
+    'hour_freeze',
+    0,
+    format('Hour expiry frozen for %s days during approved leave', v_freeze_days),
+    v_approved_by,
+    v_approved_by,
+    NOW(),
+    'approved',
+    jsonb_build_object(
+      'freeze_id', v_freeze_id,
+      'leave_request_id', p_leave_request_id,
+      'start_date', v_start_date,
+      'end_date', v_end_date,
+      'freeze_days', v_freeze_days
+    )
+  );
+
+  FOR v_lot IN
+    SELECT id, valid_until
+    FROM hour_purchases
+    WHERE student_id = v_student_id
+      AND is_active = true
+      AND is_expired = false
+      AND payment_status = 'completed'
+      AND hours_remaining > 0
+      AND valid_until >= v_start_date
+    FOR UPDATE
+  LOOP
+    v_new_valid_until := v_lot.valid_until + make_interval(days => v_freeze_days);
+
+    UPDATE hour_purchases
+    SET valid_until = v_new_valid_until,
+        updated_at = NOW()
+    WHERE id = v_lot.id;
+
+    INSERT INTO hour_adjustments (
+      student_id,
+      adjustment_type,
+      hours_adjusted,
+      reason,
+      requested_by,
+      approved_by,
+      approved_at,
+      approval_status,
+      metadata
+    ) VALUES (
+      v_student_id,
+      'validity_extension',
+      0,
+      format('Validity extended by %s days for hour freeze', v_freeze_days),
+      v_approved_by,
+      v_approved_by,
+      NOW(),
+      'approved',
+      jsonb_build_object(
+        'freeze_id', v_freeze_id,
+        'purchase_id', v_lot.id,
+        'previous_valid_until', v_lot.valid_until,
+        'new_valid_until', v_new_valid_until
+      )
+    );
+
+    v_lots_extended := v_lots_extended + 1;
+  END LOOP;
+
+  UPDATE hour_freezes SET lots_extended = v_lots_extended WHERE id = v_freeze_id;
+
+  RETURN v_freeze_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_hour_freeze(UUID) FROM PUBLIC, anon;
+
+-- =====================================================================================
+-- TRIGGERS
+-- =====================================================================================
+CREATE TRIGGER update_hour_freezes_timestamp
+  BEFORE UPDATE ON hour_freezes
+  FOR EACH ROW EXECUTE FUNCTION update_hour_management_timestamp();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE hour_freezes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY hour_freezes_select ON hour_freezes
+  FOR SELECT USING (
+    auth.uid() = student_id OR
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY hour_freezes_admin ON hour_freezes
+  FOR ALL USING (auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin'));
+
+COMMENT ON TABLE hour_freezes IS 'Expiry freezes granted to students on approved long leave';
+COMMENT ON FUNCTION apply_hour_freeze IS 'Extends the validity of a student''s active lots for an approved leave and audits each extension';
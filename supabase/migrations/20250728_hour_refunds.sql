@@ -0,0 +1,235 @@
+-- =====================================================================================
+-- Hour Refund Requests
+-- =====================================================================================
+-- This migration adds:
+-- 1. hour_refund_policies, the configurable rules for refunding unused hours
+-- 2. bonus_hours and hours_refunded on hour_purchases
+-- 3. hour_refund_requests, submitted by students and reviewed by admins
+-- 4. reverse_refunded_hours(), which removes approved hours from their lot and
+--    records the refund transaction before the payment provider is refunded
+-- =====================================================================================
+
+-- =====================================================================================
+-- REFUND POLICIES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS hour_refund_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+
+  -- Refunds may only be requested this many days after payment (NULL = always)
+  cutoff_days INTEGER CHECK (cutoff_days IS NULL OR cutoff_days > 0),
+
+  -- Fee kept from every refund: fixed amount plus a percentage of the gross
+  admin_fee_fixed DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (admin_fee_fixed >= 0),
+  admin_fee_percentage DECIMAL(5, 2) NOT NULL DEFAULT 0
+    CHECK (admin_fee_percentage >= 0 AND admin_fee_percentage <= 100),
+
+  -- Unused bonus hours are kept unless the policy refunds them
+  refund_bonus_hours BOOLEAN NOT NULL DEFAULT false,
+
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_by UUID REFERENCES auth.users(id)
+);
+
+CREATE UNIQUE INDEX idx_hour_refund_policies_active
+  ON hour_refund_policies(is_active) WHERE is_active = true;
+
+INSERT INTO hour_refund_policies (name, cutoff_days, admin_fee_fixed, admin_fee_percentage, refund_bonus_hours)
+VALUES ('Standard Refund Policy', 30, 0, 5, false);
+
+-- =====================================================================================
+-- LOT REFUND TRACKING
+-- =====================================================================================
+-- Hours granted free with a lot; they are used last and never refunded by default
+ALTER TABLE hour_purchases ADD COLUMN IF NOT EXISTS bonus_hours INTEGER NOT NULL DEFAULT 0
+  CHECK (bonus_hours >= 0);
+
+ALTER TABLE hour_purchases ADD COLUMN IF NOT EXISTS hours_refunded INTEGER NOT NULL DEFAULT 0
+  CHECK (hours_refunded >= 0);
+
+-- =====================================================================================
+-- REFUND REQUESTS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS hour_refund_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  purchase_id UUID NOT NULL REFERENCES hour_purchases(id),
+  policy_id UUID REFERENCES hour_refund_policies(id),
+
+  -- Quote at submission, replaced by the final figures on approval
+  hours INTEGER NOT NULL CHECK (hours > 0),
+  price_per_hour DECIMAL(10, 4) NOT NULL CHECK (price_per_hour >= 0),
+  gross_amount DECIMAL(10, 2) NOT NULL CHECK (gross_amount >= 0),
+  admin_fee DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (admin_fee >= 0),
+  refund_amount DECIMAL(10, 2) NOT NULL CHECK (refund_amount >= 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  reason TEXT NOT NULL,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN (
+    'pending', 'rejected', 'cancelled', 'processing', 'completed', 'payment_failed'
+  )),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT,
+
+  -- Outcome
+  transaction_id UUID REFERENCES hour_transactions(id),
+  provider_refund_reference VARCHAR(255),
+  failure_message TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_hour_refund_requests_student ON hour_refund_requests(student_id, created_at DESC);
+CREATE INDEX idx_hour_refund_requests_status ON hour_refund_requests(status, created_at);
+
+-- One open request per lot
+CREATE UNIQUE INDEX idx_hour_refund_requests_open_purchase
+  ON hour_refund_requests(purchase_id) WHERE status IN ('pending', 'processing', 'payment_failed');
+
+-- =====================================================================================
+-- LOT REVERSAL
+-- =====================================================================================
+-- Removes the approved hours from the request's lot and records a refund
+-- transaction with its lot draw and the net refund amount. The request moves to processing until the
+-- payment provider confirms the money refund. Only admins approve refunds, and
+-- the calling admin is recorded as the reviewer.
+CREATE OR REPLACE FUNCTION reverse_refunded_hours(
+  p_refund_request_id UUID,
+  p_hours INTEGER
+) RETURNS UUID AS $$
+DECLARE
+  v_reviewed_by UUID := auth.uid();
+  v_request RECORD;
+  v_lot RECORD;
+  v_balance_before INTEGER;
+  v_transaction_id UUID;
+BEGIN
+  IF v_reviewed_by IS NULL OR NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = v_reviewed_by AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'FORBIDDEN: only admins can approve refunds';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM hour_refund_requests
+  WHERE id = p_refund_request_id
+  FOR UPDATE;
+
+  IF v_request.id IS NULL THEN
+    RAISE EXCEPTION 'Refund request % not found', p_refund_request_id;
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Refund request % is already %', p_refund_request_id, v_request.status;
+  END IF;
+
+  SELECT id, hours_remaining, valid_until INTO v_lot
+  FROM hour_purchases
+  WHERE id = v_request.purchase_id
+    AND is_active = true
+    AND is_expired = false
+    AND payment_status = 'completed'
+  FOR UPDATE;
+
+  IF v_lot.id IS NULL OR v_lot.hours_remaining < p_hours THEN
+    RAISE EXCEPTION 'Purchase % no longer has % unused hours', v_request.purchase_id, p_hours;
+  END IF;
+
+  v_balance_before := calculate_student_hours(v_request.student_id);
+
+  UPDATE hour_purchases
+  SET hours_used = hours_used + p_hours,
+      hours_refunded = hours_refunded + p_hours,
+      updated_at = NOW()
+  WHERE id = v_lot.id;
+
+  INSERT INTO hour_transactions (
+    student_id,
+    purchase_id,
+    transaction_type,
+    hours_amount,
+    balance_before,
+    balance_after,
+    description,
+    approved_by,
+    approved_at,
+    metadata
+  ) VALUES (
+    v_request.student_id,
+    v_lot.id,
+    'refund',
+    -p_hours,
+    v_balance_before,
+    v_balance_before - p_hours,
+    format('Refunded %s unused hours', p_hours),
+    v_reviewed_by,
+    NOW(),
+    -- The credit note is issued for the refund net of the admin fee
+    jsonb_build_object('refundRequestId', v_request.id, 'refundAmount', v_request.refund_amount)
+  ) RETURNING id INTO v_transaction_id;
+
+  INSERT INTO hour_transaction_lots (transaction_id, purchase_id, hours, lot_valid_until)
+  VALUES (v_transaction_id, v_lot.id, p_hours, v_lot.valid_until);
+
+  UPDATE hour_refund_requests
+  SET status = 'processing',
+      hours = p_hours,
+      transaction_id = v_transaction_id,
+      reviewed_by = v_reviewed_by,
+      reviewed_at = NOW()
+  WHERE id = p_refund_request_id;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION reverse_refunded_hours(UUID, INTEGER) FROM PUBLIC, anon;
+
+-- =====================================================================================
+-- TRIGGERS
+-- =====================================================================================
+CREATE TRIGGER update_hour_refund_policies_timestamp
+  BEFORE UPDATE ON hour_refund_policies
+  FOR EACH ROW EXECUTE FUNCTION update_hour_management_timestamp();
+
+CREATE TRIGGER update_hour_refund_requests_timestamp
+  BEFORE UPDATE ON hour_refund_requests
+  FOR EACH ROW EXECUTE FUNCTION update_hour_management_timestamp();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE hour_refund_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hour_refund_requests ENABLE ROW LEVEL SECURITY;
+
+-- Students see the active policy so they can be quoted before requesting
+CREATE POLICY hour_refund_policies_select ON hour_refund_policies
+  FOR SELECT USING (is_active = true OR auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin'));
+
+CREATE POLICY hour_refund_policies_admin ON hour_refund_policies
+  FOR ALL USING (auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin'));
+
+CREATE POLICY hour_refund_requests_select ON hour_refund_requests
+  FOR SELECT USING (
+    auth.uid() = student_id OR
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY hour_refund_requests_insert ON hour_refund_requests
+  FOR INSERT WITH CHECK (auth.uid() = student_id AND status = 'pending');
+
+-- Students may only withdraw their own pending requests
+CREATE POLICY hour_refund_requests_student_cancel ON hour_refund_requests
+  FOR UPDATE USING (auth.uid() = student_id AND status = 'pending')
+  WITH CHECK (status IN ('pending', 'cancelled'));
+
+CREATE POLICY hour_refund_requests_admin ON hour_refund_requests
+  FOR ALL USING (auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin'));
+
+COMMENT ON TABLE hour_refund_policies IS 'Pro-rating, fee and cutoff rules for refunding unused hours';
+COMMENT ON TABLE hour_refund_requests IS 'Student requests to refund unused hours, reviewed by admins';
+COMMENT ON FUNCTION reverse_refunded_hours IS 'Removes approved refund hours from their lot and records the refund transaction';
@@ -0,0 +1,255 @@
+-- =====================================================================================
+-- Family Accounts with Guardian-Managed Hour Sharing
+-- =====================================================================================
+-- This migration adds:
+-- 1. Family accounts whose shared wallet is held by a wallet profile
+-- 2. Family members (guardians and children) with one active family per child
+-- 3. Family attribution on hour transfer logs
+-- 4. is_family_guardian() and RLS so guardians can see their family's hours
+-- 5. transfer_family_hours(), which lets a guardian move hours within their
+--    family without admin help
+-- =====================================================================================
+
+-- =====================================================================================
+-- FAMILY ACCOUNTS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS family_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+
+  -- Profile whose purchases make up the shared wallet (usually the paying guardian)
+  wallet_profile_id UUID NOT NULL UNIQUE REFERENCES profiles(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'closed')),
+
+  -- Maximum hours guardians may move between members per calendar month (NULL = no cap)
+  monthly_transfer_cap INTEGER CHECK (monthly_transfer_cap IS NULL OR monthly_transfer_cap >= 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+-- =====================================================================================
+-- FAMILY MEMBERS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS family_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  family_account_id UUID NOT NULL REFERENCES family_accounts(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('guardian', 'child')),
+  relationship VARCHAR(50), -- e.g. 'parent', 'son', 'daughter'
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'removed')),
+
+  joined_at TIMESTAMPTZ DEFAULT NOW(),
+  removed_at TIMESTAMPTZ,
+  UNIQUE (family_account_id, profile_id)
+);
+
+CREATE INDEX idx_family_members_profile ON family_members(profile_id) WHERE status = 'active';
+
+-- A child shares hours with one household at a time
+CREATE UNIQUE INDEX idx_family_members_one_active_child
+  ON family_members(profile_id) WHERE role = 'child' AND status = 'active';
+
+-- =====================================================================================
+-- TRANSFER LOG ATTRIBUTION
+-- =====================================================================================
+ALTER TABLE hour_transfer_logs ADD COLUMN IF NOT EXISTS family_account_id UUID REFERENCES family_accounts(id);
+
+CREATE INDEX idx_hour_transfer_logs_family ON hour_transfer_logs(family_account_id, created_at)
+  WHERE family_account_id IS NOT NULL;
+
+-- =====================================================================================
+-- GUARDIAN ACCESS
+-- =====================================================================================
+
+-- True when p_guardian_id is an active guardian of a family that p_profile_id
+-- belongs to, either as an active member or as the wallet
+CREATE OR REPLACE FUNCTION is_family_guardian(
+  p_guardian_id UUID,
+  p_profile_id UUID
+) RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM family_members g
+    JOIN family_accounts fa ON fa.id = g.family_account_id AND fa.status = 'active'
+    WHERE g.profile_id = p_guardian_id
+      AND g.role = 'guardian'
+      AND g.status = 'active'
+      AND (
+        fa.wallet_profile_id = p_profile_id OR
+        EXISTS (
+          SELECT 1 FROM family_members m
+          WHERE m.family_account_id = fa.id
+            AND m.profile_id = p_profile_id
+            AND m.status = 'active'
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =====================================================================================
+-- GUARDIAN TRANSFERS
+-- =====================================================================================
+
+-- Moves hours between the wallet and members of a family on behalf of the
+-- calling guardian. The family row stays locked while the month's transfers
+-- are counted, so parallel transfers cannot go over the monthly cap together.
+-- The transfer itself is written by record_hour_transfer().
+CREATE OR REPLACE FUNCTION transfer_family_hours(
+  p_family_account_id UUID,
+  p_from_profile_id UUID,
+  p_to_profile_id UUID,
+  p_hours INTEGER,
+  p_reason TEXT,
+  p_notes TEXT DEFAULT NULL
+) RETURNS hour_transfer_logs AS $$
+DECLARE
+  v_guardian_id UUID := auth.uid();
+  v_family family_accounts;
+  v_transferred INTEGER;
+  v_available INTEGER;
+  v_relationship VARCHAR(50);
+BEGIN
+  SELECT * INTO v_family
+  FROM family_accounts
+  WHERE id = p_family_account_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'FAMILY_NOT_FOUND: Family account not found';
+  END IF;
+
+  IF v_family.status <> 'active' THEN
+    RAISE EXCEPTION 'FAMILY_ACCOUNT_INACTIVE: Family account is %', v_family.status;
+  END IF;
+
+  IF p_hours IS NULL OR p_hours <= 0 THEN
+    RAISE EXCEPTION 'INVALID_TRANSFER_HOURS: Hours to transfer must be a positive whole number';
+  END IF;
+
+  IF v_guardian_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM family_members
+    WHERE family_account_id = v_family.id
+      AND profile_id = v_guardian_id
+      AND role = 'guardian'
+      AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'NOT_FAMILY_GUARDIAN: Only a guardian of this family can move its hours';
+  END IF;
+
+  IF p_from_profile_id = p_to_profile_id THEN
+    RAISE EXCEPTION 'INVALID_TRANSFER: Choose two different family members';
+  END IF;
+
+  IF (
+    SELECT COUNT(DISTINCT profile_id)
+    FROM (
+      SELECT v_family.wallet_profile_id AS profile_id
+      UNION ALL
+      SELECT profile_id FROM family_members
+      WHERE family_account_id = v_family.id AND status = 'active'
+    ) family
+    WHERE profile_id IN (p_from_profile_id, p_to_profile_id)
+  ) < 2 THEN
+    RAISE EXCEPTION 'NOT_SAME_FAMILY: Hours can only be moved within the same family';
+  END IF;
+
+  SELECT COALESCE(SUM(hours_transferred), 0) INTO v_transferred
+  FROM hour_transfer_logs
+  WHERE family_account_id = v_family.id
+    AND created_at >= date_trunc('month', NOW());
+
+  IF v_family.monthly_transfer_cap IS NOT NULL
+    AND v_transferred + p_hours > v_family.monthly_transfer_cap THEN
+    RAISE EXCEPTION 'FAMILY_TRANSFER_CAP_EXCEEDED: Only % more hours can be moved this month',
+      GREATEST(v_family.monthly_transfer_cap - v_transferred, 0);
+  END IF;
+
+  v_available := calculate_available_student_hours(p_from_profile_id);
+
+  IF v_available < p_hours THEN
+    RAISE EXCEPTION 'INSUFFICIENT_FAMILY_HOURS: Not enough unused hours to move (% available)', v_available;
+  END IF;
+
+  SELECT relationship INTO v_relationship
+  FROM family_members
+  WHERE family_account_id = v_family.id
+    AND profile_id = p_to_profile_id
+    AND status = 'active';
+
+  RETURN record_hour_transfer(
+    p_from_profile_id,
+    p_to_profile_id,
+    p_hours,
+    p_reason,
+    NULL,
+    true,
+    COALESCE(v_relationship, CASE WHEN p_to_profile_id = v_family.wallet_profile_id THEN 'wallet' END),
+    p_notes,
+    NULL,
+    v_family.id,
+    v_guardian_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION transfer_family_hours(UUID, UUID, UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon;
+
+-- =====================================================================================
+-- TRIGGERS
+-- =====================================================================================
+CREATE TRIGGER update_family_accounts_timestamp
+  BEFORE UPDATE ON family_accounts
+  FOR EACH ROW EXECUTE FUNCTION update_hour_management_timestamp();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE family_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE family_members ENABLE ROW LEVEL SECURITY;
+
+-- Members see their own family; admins manage all families
+CREATE POLICY family_accounts_select ON family_accounts
+  FOR SELECT USING (
+    auth.uid() = wallet_profile_id OR
+    auth.uid() IN (SELECT profile_id FROM family_members WHERE family_account_id = id AND status = 'active')
+  );
+
+CREATE POLICY family_accounts_admin ON family_accounts
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY family_members_select ON family_members
+  FOR SELECT USING (
+    auth.uid() = profile_id OR
+    is_family_guardian(auth.uid(), profile_id)
+  );
+
+CREATE POLICY family_members_admin ON family_members
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+-- Guardians see the balances and history of everyone in their family
+CREATE POLICY hour_purchases_family_select ON hour_purchases
+  FOR SELECT USING (is_family_guardian(auth.uid(), student_id));
+
+CREATE POLICY hour_transactions_family_select ON hour_transactions
+  FOR SELECT USING (is_family_guardian(auth.uid(), student_id));
+
+CREATE POLICY hour_transfer_logs_family_select ON hour_transfer_logs
+  FOR SELECT USING (
+    family_account_id IS NOT NULL AND
+    is_family_guardian(auth.uid(), from_student_id)
+  );
+
+-- Guardians write transfers only through transfer_family_hours()
+
+COMMENT ON TABLE family_accounts IS 'Households whose guardians share a wallet of hours between siblings';
+COMMENT ON TABLE family_members IS 'Guardians and children belonging to a family account';
+COMMENT ON FUNCTION is_family_guardian IS 'Whether a profile is an active guardian of a family the other profile belongs to';
+COMMENT ON FUNCTION transfer_family_hours IS 'Guardian transfer within a family, checking membership and the monthly cap';
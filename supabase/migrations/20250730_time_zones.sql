@@ -0,0 +1,85 @@
+-- =====================================================================================
+-- Time Zones for Users, Classes and Availability
+-- =====================================================================================
+-- This migration adds:
+-- 1. is_valid_time_zone() to validate IANA zone names
+-- 2. A timezone column on users, teachers, students, classes and schedules
+-- 3. local_time_to_utc() to turn a wall-clock time in a zone into an instant
+--
+-- Schedule and availability times stay as wall-clock TIME values in the zone
+-- of their row, so a 09:00 slot remains 09:00 locally across DST changes.
+-- Booked class instants (TIMESTAMPTZ) are unaffected.
+-- =====================================================================================
+
+-- =====================================================================================
+-- ZONE VALIDATION
+-- =====================================================================================
+CREATE OR REPLACE FUNCTION is_valid_time_zone(p_timezone TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone);
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================================================
+-- TIMEZONE COLUMNS
+-- =====================================================================================
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE teachers
+  ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE students
+  ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+-- Zone of the class location; online classes use the teacher's zone
+ALTER TABLE classes
+  ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+-- Zone the schedule's start_time and end_time are expressed in
+ALTER TABLE schedules
+  ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE users
+  ADD CONSTRAINT users_timezone_valid CHECK (is_valid_time_zone(timezone));
+ALTER TABLE teachers
+  ADD CONSTRAINT teachers_timezone_valid CHECK (is_valid_time_zone(timezone));
+ALTER TABLE students
+  ADD CONSTRAINT students_timezone_valid CHECK (is_valid_time_zone(timezone));
+ALTER TABLE classes
+  ADD CONSTRAINT classes_timezone_valid CHECK (is_valid_time_zone(timezone));
+ALTER TABLE schedules
+  ADD CONSTRAINT schedules_timezone_valid CHECK (is_valid_time_zone(timezone));
+
+-- Teachers and students default to their user's zone
+UPDATE teachers t SET timezone = u.timezone
+FROM users u
+WHERE t.user_id = u.id AND t.timezone = 'UTC' AND u.timezone <> 'UTC';
+
+UPDATE students s SET timezone = u.timezone
+FROM users u
+WHERE s.user_id = u.id AND s.timezone = 'UTC' AND u.timezone <> 'UTC';
+
+-- Classes default to their teacher's zone
+UPDATE classes c SET timezone = t.timezone
+FROM teachers t
+WHERE c.teacher_id = t.id AND c.timezone = 'UTC' AND t.timezone <> 'UTC';
+
+-- =====================================================================================
+-- CONVERSION HELPER
+-- =====================================================================================
+-- The instant at which the wall clock in p_timezone shows p_date p_time
+CREATE OR REPLACE FUNCTION local_time_to_utc(
+  p_date DATE,
+  p_time TIME,
+  p_timezone TEXT
+)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT (p_date + p_time) AT TIME ZONE p_timezone;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON COLUMN users.timezone IS 'IANA time zone used to display times to the user';
+COMMENT ON COLUMN teachers.timezone IS 'IANA time zone of the teacher''s weekly availability';
+COMMENT ON COLUMN students.timezone IS 'IANA time zone used to display class times to the student';
+COMMENT ON COLUMN classes.timezone IS 'IANA time zone of the class location';
+COMMENT ON COLUMN schedules.timezone IS 'IANA time zone of start_time and end_time';
+COMMENT ON FUNCTION local_time_to_utc IS 'Converts a wall-clock date and time in an IANA zone to an instant';
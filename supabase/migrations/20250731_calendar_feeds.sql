@@ -0,0 +1,46 @@
+-- =====================================================================================
+-- Calendar Subscription Feeds
+-- =====================================================================================
+-- This migration adds:
+-- 1. Per-user calendar feed tokens for ICS subscription URLs
+-- 2. RLS so users can see and rotate their own token
+--
+-- Calendar clients cannot sign in, so the feed URL carries an unguessable
+-- token instead. Rotating a token revokes the old URL.
+-- =====================================================================================
+
+-- =====================================================================================
+-- CALENDAR FEED TOKENS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- 64 hex characters from two random UUIDs
+  token VARCHAR(64) NOT NULL UNIQUE
+    DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_accessed_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+-- One live token per user
+CREATE UNIQUE INDEX idx_calendar_feed_tokens_active_user
+  ON calendar_feed_tokens(user_id) WHERE revoked_at IS NULL;
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY calendar_feed_tokens_own ON calendar_feed_tokens
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY calendar_feed_tokens_admin ON calendar_feed_tokens
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE calendar_feed_tokens IS 'Secret tokens for per-user ICS calendar subscription URLs';
+COMMENT ON COLUMN calendar_feed_tokens.revoked_at IS 'Set when the user rotates the token; revoked feeds return 404';
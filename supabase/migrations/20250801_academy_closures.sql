@@ -0,0 +1,307 @@
+-- =====================================================================================
+-- Academy Holiday and Closure Calendar
+-- =====================================================================================
+-- This migration adds:
+-- 1. holiday_sets, regional sets of public holidays observed by some locations
+-- 2. academy_closures, single days or date ranges when classes cannot run
+-- 3. An 'academy_closure' postponement reason linking flagged classes to the closure
+-- 4. Closure extensions for hour expiry: apply_closure_extensions() pushes back
+--    valid_until on every lot by the days an academy-wide closure overlaps its
+--    validity, and expire_hour_lots() applies them before expiring anything
+--
+-- Closure dates are local calendar dates in the closure's time zone and both
+-- ends are inclusive. A closure with a location only affects that location;
+-- holidays in a set affect the set's locations, or every location when the
+-- set lists none; other closures affect the whole academy.
+-- =====================================================================================
+
+-- =====================================================================================
+-- HOLIDAY SETS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS holiday_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  region VARCHAR(20) NOT NULL, -- e.g. 'TH', 'SG', 'PH'
+  description TEXT,
+  -- Locations observing these holidays; empty means every location
+  locations TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =====================================================================================
+-- ACADEMY CLOSURES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS academy_closures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  holiday_set_id UUID REFERENCES holiday_sets(id) ON DELETE CASCADE,
+
+  title VARCHAR(255) NOT NULL,
+  closure_type VARCHAR(30) NOT NULL CHECK (closure_type IN ('public_holiday', 'academy_closure', 'location_closure')),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  location VARCHAR(255),
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC' CHECK (is_valid_time_zone(timezone)),
+
+  source VARCHAR(10) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'ics', 'csv')),
+  external_uid VARCHAR(255), -- UID of an imported ICS event
+  notes TEXT,
+
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_closure_range CHECK (end_date >= start_date),
+  CONSTRAINT location_closure_has_location CHECK (closure_type != 'location_closure' OR location IS NOT NULL)
+);
+
+CREATE INDEX idx_academy_closures_dates ON academy_closures(start_date, end_date);
+CREATE INDEX idx_academy_closures_holiday_set ON academy_closures(holiday_set_id);
+
+-- Re-importing the same calendar updates rather than duplicates
+CREATE UNIQUE INDEX idx_academy_closures_import
+  ON academy_closures(COALESCE(holiday_set_id, '00000000-0000-0000-0000-000000000000'::uuid), external_uid)
+  WHERE external_uid IS NOT NULL;
+
+-- =====================================================================================
+-- POSTPONEMENTS FOR CLOSURES
+-- =====================================================================================
+ALTER TABLE class_postponements
+  ADD COLUMN IF NOT EXISTS closure_id UUID REFERENCES academy_closures(id) ON DELETE SET NULL;
+
+ALTER TABLE class_postponements DROP CONSTRAINT IF EXISTS class_postponements_postponement_reason_check;
+ALTER TABLE class_postponements ADD CONSTRAINT class_postponements_postponement_reason_check CHECK (
+  postponement_reason IN ('student_leave', 'teacher_unavailable', 'emergency', 'system_maintenance', 'academy_closure', 'other')
+);
+
+CREATE INDEX idx_class_postponements_closure ON class_postponements(closure_id) WHERE closure_id IS NOT NULL;
+
+-- =====================================================================================
+-- CLOSURE EXTENSIONS
+-- =====================================================================================
+-- One row per lot extended for a closure, so a closure extends each lot once
+CREATE TABLE IF NOT EXISTS closure_hour_extensions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  closure_id UUID NOT NULL REFERENCES academy_closures(id) ON DELETE CASCADE,
+  purchase_id UUID NOT NULL REFERENCES hour_purchases(id) ON DELETE CASCADE,
+  extension_days INTEGER NOT NULL CHECK (extension_days > 0),
+  previous_valid_until TIMESTAMPTZ NOT NULL,
+  new_valid_until TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(closure_id, purchase_id)
+);
+
+CREATE INDEX idx_closure_hour_extensions_purchase ON closure_hour_extensions(purchase_id);
+
+-- Extends every usable lot by the days an academy-wide closure overlaps its
+-- validity, as apply_hour_freeze() does for leave. With no closure given, every
+-- academy-wide closure that has not long ended is applied, which picks up lots
+-- bought after a closure was added. Returns the number of lots extended.
+CREATE OR REPLACE FUNCTION apply_closure_extensions(p_closure_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_closure RECORD;
+  v_lot RECORD;
+  v_days INTEGER;
+  v_new_valid_until TIMESTAMPTZ;
+  v_lots_extended INTEGER := 0;
+BEGIN
+  FOR v_closure IN
+    SELECT id, start_date, end_date, timezone
+    FROM academy_closures
+    WHERE location IS NULL
+      AND holiday_set_id IS NULL
+      AND (p_closure_id IS NULL OR id = p_closure_id)
+      AND (p_closure_id IS NOT NULL OR end_date >= CURRENT_DATE - 7)
+    ORDER BY start_date
+  LOOP
+    FOR v_lot IN
+      SELECT id, valid_from, valid_until
+      FROM hour_purchases p
+      WHERE is_active = true
+        AND is_expired = false
+        AND payment_status = 'completed'
+        AND hours_remaining > 0
+        AND (valid_until AT TIME ZONE v_closure.timezone)::date >= v_closure.start_date
+        AND (valid_from AT TIME ZONE v_closure.timezone)::date <= v_closure.end_date
+        AND NOT EXISTS (
+          SELECT 1 FROM closure_hour_extensions e
+          WHERE e.closure_id = v_closure.id AND e.purchase_id = p.id
+        )
+      FOR UPDATE
+    LOOP
+      v_days := LEAST(v_closure.end_date, (v_lot.valid_until AT TIME ZONE v_closure.timezone)::date)
+        - GREATEST(v_closure.start_date, (v_lot.valid_from AT TIME ZONE v_closure.timezone)::date)
+        + 1;
+      CONTINUE WHEN v_days <= 0;
+
+      v_new_valid_until := v_lot.valid_until + make_interval(days => v_days);
+
+      UPDATE hour_purchases
+      SET valid_until = v_new_valid_until,
+          updated_at = NOW()
+      WHERE id = v_lot.id;
+
+      INSERT INTO closure_hour_extensions (closure_id, purchase_id, extension_days, previous_valid_until, new_valid_until)
+      VALUES (v_closure.id, v_lot.id, v_days, v_lot.valid_until, v_new_valid_until);
+
+      v_lots_extended := v_lots_extended + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_lots_extended;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Removing a closure takes back the days it added to lots that are still live
+CREATE OR REPLACE FUNCTION revert_closure_extensions()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE hour_purchases p
+  SET valid_until = p.valid_until - make_interval(days => e.extension_days),
+      updated_at = NOW()
+  FROM closure_hour_extensions e
+  WHERE e.closure_id = OLD.id
+    AND p.id = e.purchase_id
+    AND p.is_expired = false;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================================
+-- HOUR EXPIRY
+-- =====================================================================================
+CREATE OR REPLACE FUNCTION expire_hour_lots()
+RETURNS TABLE (
+  lot_id UUID,
+  lot_student_id UUID,
+  expired_hours INTEGER,
+  expiry_transaction_id UUID
+) AS $$
+DECLARE
+  v_lot RECORD;
+  v_balance_after INTEGER;
+  v_transaction_id UUID;
+BEGIN
+  -- Lots bought since a closure was added get its extension before expiring
+  PERFORM apply_closure_extensions();
+
+  FOR v_lot IN
+    SELECT id, student_id, hours_remaining, valid_until
+    FROM hour_purchases
+    WHERE is_active = true
+      AND is_expired = false
+      AND valid_until < NOW()
+      AND hours_remaining > 0
+    ORDER BY valid_until ASC
+    FOR UPDATE
+  LOOP
+    UPDATE hour_purchases
+    SET is_expired = true,
+        hours_expired = v_lot.hours_remaining,
+        updated_at = NOW()
+    WHERE id = v_lot.id;
+
+    -- Lots past valid_until no longer count towards the balance
+    v_balance_after := calculate_student_hours(v_lot.student_id);
+
+    INSERT INTO hour_transactions (
+      student_id,
+      purchase_id,
+      transaction_type,
+      hours_amount,
+      balance_before,
+      balance_after,
+      description
+    ) VALUES (
+      v_lot.student_id,
+      v_lot.id,
+      'expiry',
+      -v_lot.hours_remaining,
+      v_balance_after + v_lot.hours_remaining,
+      v_balance_after,
+      'Hours expired'
+    ) RETURNING id INTO v_transaction_id;
+
+    INSERT INTO hour_transaction_lots (transaction_id, purchase_id, hours, lot_valid_until)
+    VALUES (v_transaction_id, v_lot.id, v_lot.hours_remaining, v_lot.valid_until);
+
+    INSERT INTO hour_alerts (
+      student_id,
+      alert_type,
+      hours_remaining,
+      expiry_date
+    ) VALUES (
+      v_lot.student_id,
+      'expired',
+      v_lot.hours_remaining,
+      NOW()
+    );
+
+    lot_id := v_lot.id;
+    lot_student_id := v_lot.student_id;
+    expired_hours := v_lot.hours_remaining;
+    expiry_transaction_id := v_transaction_id;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================================
+-- TRIGGERS
+-- =====================================================================================
+CREATE TRIGGER update_holiday_sets_timestamp
+  BEFORE UPDATE ON holiday_sets
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_academy_closures_timestamp
+  BEFORE UPDATE ON academy_closures
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER revert_academy_closure_extensions
+  BEFORE DELETE ON academy_closures
+  FOR EACH ROW EXECUTE FUNCTION revert_closure_extensions();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE holiday_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE academy_closures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE closure_hour_extensions ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in can see when the academy is closed; admins manage the calendar
+CREATE POLICY holiday_sets_select ON holiday_sets
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY holiday_sets_admin ON holiday_sets
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY academy_closures_select ON academy_closures
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY academy_closures_admin ON academy_closures
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+-- Extensions are written by apply_closure_extensions()
+CREATE POLICY closure_hour_extensions_select ON closure_hour_extensions
+  FOR SELECT USING (
+    auth.uid() IN (SELECT student_id FROM hour_purchases WHERE id = purchase_id) OR
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE holiday_sets IS 'Regional public holiday calendars and the locations that observe them';
+COMMENT ON TABLE academy_closures IS 'Holidays and closures during which no classes are scheduled';
+COMMENT ON COLUMN academy_closures.location IS 'Closed location; NULL closes every location the closure applies to';
+COMMENT ON COLUMN class_postponements.closure_id IS 'Closure that caused the class to be flagged for postponement';
+COMMENT ON TABLE closure_hour_extensions IS 'Days added to a lot''s validity for an academy-wide closure';
+COMMENT ON FUNCTION apply_closure_extensions IS 'Extends lots by the days academy-wide closures overlap their validity, once per closure and lot';
+COMMENT ON FUNCTION expire_hour_lots IS 'Applies closure extensions, then expires the unused remainder of each lot past its validity';
@@ -0,0 +1,489 @@
+-- =====================================================================================
+-- Recurring Class Series
+-- =====================================================================================
+-- This migration adds:
+-- 1. class_series, a weekly (or other RRULE) group class such as Everyday A
+-- 2. class_series_occurrences, one row per session of a series
+-- 3. class_series_enrollments, students enrolled in every session of a series
+-- 4. Links from classes and bookings back to their series and session
+-- 5. Functions that write series changes (schedule plans, skips and teacher
+--    moves) together with their bookings in one transaction
+--
+-- A series can span several classes rows: moving the teacher mid-series
+-- starts a new class for the following sessions, so reports and payroll that
+-- read classes.teacher_id stay correct for past sessions. Each enrolled
+-- student has one booking per session, linked by series_occurrence_id.
+-- =====================================================================================
+
+-- =====================================================================================
+-- CLASS SERIES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS class_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  teacher_id UUID REFERENCES teachers(id) ON DELETE SET NULL,
+  name VARCHAR(255) NOT NULL,
+
+  -- Pattern without COUNT or UNTIL, e.g. 'FREQ=WEEKLY;BYDAY=MO,WE'
+  rrule TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  start_time TIME NOT NULL, -- Local wall-clock time in the series time zone
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0),
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC' CHECK (is_valid_time_zone(timezone)),
+
+  location VARCHAR(255),
+  meeting_link VARCHAR(500),
+  capacity INTEGER NOT NULL CHECK (capacity > 0 AND capacity <= 9),
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT class_series_valid_range CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_class_series_course ON class_series(course_id);
+CREATE INDEX idx_class_series_teacher ON class_series(teacher_id);
+
+ALTER TABLE classes
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES class_series(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_classes_series ON classes(series_id) WHERE series_id IS NOT NULL;
+
+-- =====================================================================================
+-- SERIES OCCURRENCES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS class_series_occurrences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id UUID NOT NULL REFERENCES class_series(id) ON DELETE CASCADE,
+  class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  teacher_id UUID REFERENCES teachers(id) ON DELETE SET NULL,
+
+  occurrence_date DATE NOT NULL, -- Local date in the series time zone
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  location VARCHAR(255),
+
+  status VARCHAR(20) NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'skipped', 'cancelled', 'completed')),
+  skip_reason TEXT,
+  -- Set on the session added to make up for a skipped one
+  makeup_for_id UUID REFERENCES class_series_occurrences(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT class_series_occurrences_valid_time CHECK (start_time < end_time)
+);
+
+CREATE INDEX idx_class_series_occurrences_series ON class_series_occurrences(series_id, occurrence_date);
+CREATE INDEX idx_class_series_occurrences_class ON class_series_occurrences(class_id);
+-- A series holds at most one live session per day
+CREATE UNIQUE INDEX idx_class_series_occurrences_live_date
+  ON class_series_occurrences(series_id, occurrence_date)
+  WHERE status IN ('scheduled', 'completed');
+
+-- =====================================================================================
+-- SERIES ENROLLMENTS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS class_series_enrollments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id UUID NOT NULL REFERENCES class_series(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'withdrawn')),
+  enrolled_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  withdrawn_from DATE,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (series_id, student_id)
+);
+
+CREATE INDEX idx_class_series_enrollments_student ON class_series_enrollments(student_id);
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS series_occurrence_id UUID REFERENCES class_series_occurrences(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_bookings_series_occurrence ON bookings(series_occurrence_id) WHERE series_occurrence_id IS NOT NULL;
+
+-- =====================================================================================
+-- TRIGGERS
+-- =====================================================================================
+CREATE TRIGGER update_class_series_timestamp
+  BEFORE UPDATE ON class_series
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_class_series_occurrences_timestamp
+  BEFORE UPDATE ON class_series_occurrences
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_class_series_enrollments_timestamp
+  BEFORE UPDATE ON class_series_enrollments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================================================
+-- SERIES CHANGES
+-- =====================================================================================
+-- Session dates are planned by the application, which expands the RRULE and
+-- skips closures; these functions write a planned change and the bookings it
+-- touches together, so a failure never leaves sessions and bookings apart.
+
+-- Class that new sessions of a series belong to: the latest teacher assignment
+CREATE OR REPLACE FUNCTION current_class_series_class(p_series_id UUID)
+RETURNS UUID AS $$
+  SELECT id FROM classes
+  WHERE series_id = p_series_id
+  ORDER BY start_date DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Books active enrollments into sessions on or after their enrollment date;
+-- returns the number of bookings created
+CREATE OR REPLACE FUNCTION book_class_series_enrollments(p_series_id UUID, p_occurrence_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO bookings (
+    student_id,
+    class_id,
+    booking_date,
+    start_time,
+    end_time,
+    duration_minutes,
+    status,
+    series_occurrence_id
+  )
+  SELECT
+    e.student_id,
+    o.class_id,
+    o.occurrence_date,
+    o.start_time,
+    o.end_time,
+    ROUND(EXTRACT(EPOCH FROM (o.end_time - o.start_time)) / 60)::INTEGER,
+    'confirmed',
+    o.id
+  FROM class_series_occurrences o
+  JOIN class_series_enrollments e ON e.series_id = o.series_id
+  WHERE o.series_id = p_series_id
+    AND o.id = ANY(p_occurrence_ids)
+    AND e.status = 'active'
+    AND o.occurrence_date >= e.enrolled_from;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Marks sessions skipped or cancelled and cancels their open bookings;
+-- returns the number of bookings cancelled
+CREATE OR REPLACE FUNCTION cancel_class_series_occurrences(
+  p_occurrence_ids UUID[],
+  p_status VARCHAR,
+  p_reason TEXT DEFAULT NULL
+) RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE class_series_occurrences
+  SET status = p_status, skip_reason = p_reason
+  WHERE id = ANY(p_occurrence_ids);
+
+  UPDATE bookings
+  SET status = 'cancelled'
+  WHERE series_occurrence_id = ANY(p_occurrence_ids)
+    AND status IN ('pending', 'confirmed');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Applies a planned schedule change. p_series holds the changed series
+-- columns, p_moves the sessions to re-time ({id, occurrence_date, start_time,
+-- end_time}) and p_added the sessions to create. Sessions listed in
+-- p_cancelled_ids or falling after the series end date are cancelled.
+CREATE OR REPLACE FUNCTION apply_class_series_plan(
+  p_series_id UUID,
+  p_series JSONB DEFAULT '{}'::jsonb,
+  p_moves JSONB DEFAULT '[]'::jsonb,
+  p_cancelled_ids UUID[] DEFAULT '{}',
+  p_added JSONB DEFAULT '[]'::jsonb,
+  p_class_id UUID DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_series class_series;
+  v_move JSONB;
+  v_count INTEGER;
+  v_cancelled_ids UUID[];
+  v_added_ids UUID[] := '{}';
+  v_updated INTEGER := 0;
+  v_bookings INTEGER := 0;
+BEGIN
+  UPDATE class_series
+  SET
+    rrule = COALESCE(p_series->>'rrule', rrule),
+    start_time = COALESCE((p_series->>'start_time')::TIME, start_time),
+    duration_minutes = COALESCE((p_series->>'duration_minutes')::INTEGER, duration_minutes),
+    location = COALESCE(p_series->>'location', location),
+    end_date = COALESCE((p_series->>'end_date')::DATE, end_date)
+  WHERE id = p_series_id
+  RETURNING * INTO v_series;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class series % not found', p_series_id;
+  END IF;
+
+  -- Cancel first so moved sessions can take the dates they free up
+  SELECT COALESCE(array_agg(id), '{}') INTO v_cancelled_ids
+  FROM class_series_occurrences
+  WHERE series_id = p_series_id
+    AND status = 'scheduled'
+    AND (id = ANY(COALESCE(p_cancelled_ids, '{}')) OR occurrence_date > v_series.end_date);
+
+  v_bookings := cancel_class_series_occurrences(v_cancelled_ids, 'cancelled');
+
+  FOR v_move IN SELECT * FROM jsonb_array_elements(COALESCE(p_moves, '[]'::jsonb)) LOOP
+    UPDATE class_series_occurrences
+    SET
+      occurrence_date = (v_move->>'occurrence_date')::DATE,
+      start_time = (v_move->>'start_time')::TIMESTAMPTZ,
+      end_time = (v_move->>'end_time')::TIMESTAMPTZ,
+      location = v_series.location
+    WHERE id = (v_move->>'id')::UUID
+      AND series_id = p_series_id
+      AND status = 'scheduled';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Series session % is no longer scheduled', v_move->>'id';
+    END IF;
+
+    UPDATE bookings
+    SET
+      booking_date = (v_move->>'occurrence_date')::DATE,
+      start_time = (v_move->>'start_time')::TIMESTAMPTZ,
+      end_time = (v_move->>'end_time')::TIMESTAMPTZ,
+      duration_minutes = v_series.duration_minutes
+    WHERE series_occurrence_id = (v_move->>'id')::UUID
+      AND status IN ('pending', 'confirmed');
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_updated := v_updated + 1;
+    v_bookings := v_bookings + v_count;
+  END LOOP;
+
+  IF jsonb_array_length(COALESCE(p_added, '[]'::jsonb)) > 0 THEN
+    WITH inserted AS (
+      INSERT INTO class_series_occurrences (
+        series_id,
+        class_id,
+        teacher_id,
+        occurrence_date,
+        start_time,
+        end_time,
+        location
+      )
+      SELECT
+        p_series_id,
+        COALESCE(p_class_id, current_class_series_class(p_series_id)),
+        v_series.teacher_id,
+        added.occurrence_date,
+        added.start_time,
+        added.end_time,
+        v_series.location
+      FROM jsonb_to_recordset(p_added) AS added(occurrence_date DATE, start_time TIMESTAMPTZ, end_time TIMESTAMPTZ)
+      RETURNING id
+    )
+    SELECT array_agg(id) INTO v_added_ids FROM inserted;
+
+    v_bookings := v_bookings + book_class_series_enrollments(p_series_id, v_added_ids);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'updated_occurrences', v_updated,
+    'added_occurrences', COALESCE(array_length(v_added_ids, 1), 0),
+    'cancelled_occurrences', COALESCE(array_length(v_cancelled_ids, 1), 0),
+    'affected_bookings', v_bookings
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Skips a scheduled session and cancels its bookings. When p_make_up
+-- ({occurrence_date, start_time, end_time}) is given, adds the make-up
+-- session, books enrolled students into it and extends the series to it.
+CREATE OR REPLACE FUNCTION skip_class_series_occurrence(
+  p_occurrence_id UUID,
+  p_reason TEXT DEFAULT NULL,
+  p_make_up JSONB DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_occurrence class_series_occurrences;
+  v_make_up class_series_occurrences;
+  v_cancelled INTEGER;
+BEGIN
+  SELECT * INTO v_occurrence
+  FROM class_series_occurrences
+  WHERE id = p_occurrence_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Series session % not found', p_occurrence_id;
+  END IF;
+
+  IF v_occurrence.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'Cannot skip a % session', v_occurrence.status;
+  END IF;
+
+  v_cancelled := cancel_class_series_occurrences(ARRAY[p_occurrence_id], 'skipped', p_reason);
+
+  IF p_make_up IS NOT NULL THEN
+    INSERT INTO class_series_occurrences (
+      series_id,
+      class_id,
+      teacher_id,
+      occurrence_date,
+      start_time,
+      end_time,
+      location,
+      makeup_for_id
+    )
+    SELECT
+      s.id,
+      current_class_series_class(s.id),
+      s.teacher_id,
+      (p_make_up->>'occurrence_date')::DATE,
+      (p_make_up->>'start_time')::TIMESTAMPTZ,
+      (p_make_up->>'end_time')::TIMESTAMPTZ,
+      s.location,
+      p_occurrence_id
+    FROM class_series s
+    WHERE s.id = v_occurrence.series_id
+    RETURNING * INTO v_make_up;
+
+    PERFORM book_class_series_enrollments(v_occurrence.series_id, ARRAY[v_make_up.id]);
+
+    UPDATE class_series
+    SET end_date = v_make_up.occurrence_date
+    WHERE id = v_occurrence.series_id
+      AND end_date < v_make_up.occurrence_date;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'cancelled_bookings', v_cancelled,
+    'make_up', CASE WHEN v_make_up.id IS NULL THEN NULL ELSE to_jsonb(v_make_up) END
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Hands a session and every following session to another teacher. When
+-- sessions have already run on the class, the following sessions and their
+-- bookings move to a copy of the class so past sessions keep their teacher.
+CREATE OR REPLACE FUNCTION change_class_series_teacher(
+  p_occurrence_id UUID,
+  p_teacher_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_occurrence class_series_occurrences;
+  v_class classes;
+  v_following UUID[];
+  v_bookings INTEGER := 0;
+BEGIN
+  SELECT * INTO v_occurrence
+  FROM class_series_occurrences
+  WHERE id = p_occurrence_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Series session % not found', p_occurrence_id;
+  END IF;
+
+  SELECT COALESCE(array_agg(id), '{}') INTO v_following
+  FROM class_series_occurrences
+  WHERE series_id = v_occurrence.series_id
+    AND status = 'scheduled'
+    AND occurrence_date >= v_occurrence.occurrence_date;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM class_series_occurrences
+    WHERE class_id = v_occurrence.class_id
+      AND occurrence_date < v_occurrence.occurrence_date
+      AND status <> 'cancelled'
+  ) THEN
+    -- Nothing has run on the class yet, so it can change hands as a whole
+    UPDATE classes SET teacher_id = p_teacher_id WHERE id = v_occurrence.class_id;
+  ELSE
+    SELECT * INTO v_class FROM classes WHERE id = v_occurrence.class_id FOR UPDATE;
+
+    v_class.id := gen_random_uuid();
+    v_class.teacher_id := p_teacher_id;
+    v_class.start_date := v_occurrence.occurrence_date;
+    v_class.created_at := NOW();
+    v_class.updated_at := NOW();
+    INSERT INTO classes SELECT v_class.*;
+
+    UPDATE classes
+    SET end_date = v_occurrence.occurrence_date - 1
+    WHERE id = v_occurrence.class_id;
+
+    UPDATE class_series_occurrences SET class_id = v_class.id WHERE id = ANY(v_following);
+
+    UPDATE bookings SET class_id = v_class.id WHERE series_occurrence_id = ANY(v_following);
+    GET DIAGNOSTICS v_bookings = ROW_COUNT;
+  END IF;
+
+  UPDATE class_series_occurrences SET teacher_id = p_teacher_id WHERE id = ANY(v_following);
+  UPDATE class_series SET teacher_id = p_teacher_id WHERE id = v_occurrence.series_id;
+
+  RETURN jsonb_build_object(
+    'updated_occurrences', COALESCE(array_length(v_following, 1), 0),
+    'added_occurrences', 0,
+    'cancelled_occurrences', 0,
+    'affected_bookings', v_bookings
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE class_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE class_series_occurrences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE class_series_enrollments ENABLE ROW LEVEL SECURITY;
+
+-- Timetables are visible to everyone signed in; admins manage series
+CREATE POLICY class_series_select ON class_series
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY class_series_admin ON class_series
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY class_series_occurrences_select ON class_series_occurrences
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY class_series_occurrences_admin ON class_series_occurrences
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+-- Students see their own enrollments
+CREATE POLICY class_series_enrollments_own ON class_series_enrollments
+  FOR SELECT USING (
+    student_id IN (SELECT id FROM students WHERE user_id = auth.uid())
+  );
+CREATE POLICY class_series_enrollments_admin ON class_series_enrollments
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE class_series IS 'Recurring group classes scheduled from an RRULE between a start and end date';
+COMMENT ON TABLE class_series_occurrences IS 'Individual sessions of a class series';
+COMMENT ON TABLE class_series_enrollments IS 'Students booked into every session of a class series';
+COMMENT ON COLUMN class_series.rrule IS 'Recurrence pattern; the series end is set by end_date';
+COMMENT ON COLUMN class_series_occurrences.makeup_for_id IS 'Skipped session this session makes up for';
+COMMENT ON COLUMN classes.series_id IS 'Series the class belongs to; a series spans a new class per teacher change';
+COMMENT ON COLUMN bookings.series_occurrence_id IS 'Series session the booking is for';
+COMMENT ON FUNCTION apply_class_series_plan IS 'Applies a planned series schedule change and moves, cancels or creates the bookings it affects in one transaction';
+COMMENT ON FUNCTION skip_class_series_occurrence IS 'Skips a series session, cancels its bookings and adds an optional make-up session';
+COMMENT ON FUNCTION change_class_series_teacher IS 'Moves a series session and every following session to another teacher';
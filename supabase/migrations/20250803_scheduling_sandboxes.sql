@@ -0,0 +1,198 @@
+-- =====================================================================================
+-- What-if Scheduling Sandboxes
+-- =====================================================================================
+-- This migration adds:
+-- 1. scheduling_sandboxes, a proposed timetable computed against a snapshot of
+--    live classes and bookings, with its diff against that snapshot
+-- 2. publish_scheduling_sandbox(), which applies a sandbox's diff to classes and
+--    bookings in one transaction
+--
+-- Nothing in a sandbox touches live bookings until it is published. Publishing
+-- is refused when any booking in the sandbox window changed after the snapshot
+-- was taken, so a stale preview can never overwrite newer changes.
+-- =====================================================================================
+
+-- =====================================================================================
+-- SCHEDULING SANDBOXES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS scheduling_sandboxes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'discarded')),
+
+  window_start TIMESTAMPTZ NOT NULL,
+  window_end TIMESTAMPTZ NOT NULL,
+
+  request JSONB,                           -- SchedulingRequest run through the scheduler
+  overrides JSONB NOT NULL DEFAULT '[]',   -- SchedulingOverride[] applied on top
+  snapshot JSONB NOT NULL DEFAULT '[]',    -- Live sessions when the sandbox was created
+  proposal JSONB NOT NULL DEFAULT '[]',    -- Sessions after the request and overrides
+  diff JSONB NOT NULL DEFAULT '{}',
+  snapshot_taken_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  created_by UUID REFERENCES auth.users(id),
+  published_by UUID REFERENCES auth.users(id),
+  published_at TIMESTAMPTZ,
+  discarded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT scheduling_sandboxes_valid_window CHECK (window_end > window_start)
+);
+
+CREATE INDEX idx_scheduling_sandboxes_status ON scheduling_sandboxes(status, created_at DESC);
+
+-- =====================================================================================
+-- PUBLISH FUNCTION
+-- =====================================================================================
+-- Applies the moved, cancelled and created sessions of a draft sandbox and
+-- returns the bookings it created so callers can notify those students.
+CREATE OR REPLACE FUNCTION publish_scheduling_sandbox(
+  p_sandbox_id UUID,
+  p_published_by UUID DEFAULT NULL
+) RETURNS TABLE (session_key TEXT, student_id UUID, booking_id UUID) AS $$
+DECLARE
+  v_sandbox scheduling_sandboxes%ROWTYPE;
+  v_item JSONB;
+  v_after JSONB;
+  v_class_id UUID;
+  v_student TEXT;
+  v_booking_id UUID;
+BEGIN
+  SELECT * INTO v_sandbox FROM scheduling_sandboxes WHERE id = p_sandbox_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Scheduling sandbox % not found', p_sandbox_id;
+  END IF;
+
+  IF v_sandbox.status <> 'draft' THEN
+    RAISE EXCEPTION 'SANDBOX_NOT_DRAFT: sandbox % is already %', p_sandbox_id, v_sandbox.status;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE b.start_time >= v_sandbox.window_start
+      AND b.start_time < v_sandbox.window_end
+      AND GREATEST(b.created_at, b.updated_at) > v_sandbox.snapshot_taken_at
+  ) THEN
+    RAISE EXCEPTION 'SANDBOX_STALE: bookings changed after the sandbox snapshot was taken';
+  END IF;
+
+  -- Cancelled sessions
+  UPDATE bookings SET status = 'cancelled'
+  WHERE id IN (
+    SELECT ids.value::UUID
+    FROM jsonb_array_elements(v_sandbox.diff->'cancelled') s,
+         jsonb_each_text(s->'bookingIds') ids
+  )
+  AND status IN ('pending', 'confirmed');
+
+  -- Moved sessions
+  FOR v_item IN SELECT * FROM jsonb_array_elements(v_sandbox.diff->'moved') LOOP
+    v_after := v_item->'after';
+    v_class_id := (v_item->'before'->>'classId')::UUID;
+
+    UPDATE bookings SET
+      booking_date = (v_after->>'bookingDate')::DATE,
+      start_time = (v_after->>'startTime')::TIMESTAMPTZ,
+      end_time = (v_after->>'endTime')::TIMESTAMPTZ,
+      duration_minutes = (v_after->>'durationMinutes')::INTEGER
+    WHERE id IN (SELECT value::UUID FROM jsonb_each_text(v_item->'before'->'bookingIds'))
+      AND status IN ('pending', 'confirmed');
+
+    UPDATE bookings SET status = 'cancelled'
+    WHERE id IN (
+      SELECT (v_item->'before'->'bookingIds'->>removed.value)::UUID
+      FROM jsonb_array_elements_text(v_item->'removedStudentIds') removed
+    );
+
+    UPDATE classes SET
+      teacher_id = (v_after->>'teacherId')::UUID,
+      location = v_after->>'location'
+    WHERE id = v_class_id;
+
+    FOR v_student IN SELECT value FROM jsonb_array_elements_text(v_item->'addedStudentIds') LOOP
+      INSERT INTO bookings (student_id, class_id, booking_date, start_time, end_time, duration_minutes, status)
+      VALUES (
+        v_student::UUID,
+        v_class_id,
+        (v_after->>'bookingDate')::DATE,
+        (v_after->>'startTime')::TIMESTAMPTZ,
+        (v_after->>'endTime')::TIMESTAMPTZ,
+        (v_after->>'durationMinutes')::INTEGER,
+        'confirmed'
+      )
+      RETURNING id INTO v_booking_id;
+
+      session_key := v_after->>'key';
+      student_id := v_student::UUID;
+      booking_id := v_booking_id;
+      RETURN NEXT;
+    END LOOP;
+
+    UPDATE classes SET current_enrollment = jsonb_array_length(v_after->'studentIds')
+    WHERE id = v_class_id;
+  END LOOP;
+
+  -- Created sessions
+  FOR v_after IN SELECT * FROM jsonb_array_elements(v_sandbox.diff->'created') LOOP
+    INSERT INTO classes (course_id, teacher_id, capacity, current_enrollment, start_date, end_date, location)
+    VALUES (
+      (v_after->>'courseId')::UUID,
+      (v_after->>'teacherId')::UUID,
+      LEAST(GREATEST(jsonb_array_length(v_after->'studentIds'), 1), 9),
+      jsonb_array_length(v_after->'studentIds'),
+      (v_after->>'bookingDate')::DATE,
+      (v_after->>'bookingDate')::DATE,
+      v_after->>'location'
+    )
+    RETURNING id INTO v_class_id;
+
+    FOR v_student IN SELECT value FROM jsonb_array_elements_text(v_after->'studentIds') LOOP
+      INSERT INTO bookings (student_id, class_id, booking_date, start_time, end_time, duration_minutes, status)
+      VALUES (
+        v_student::UUID,
+        v_class_id,
+        (v_after->>'bookingDate')::DATE,
+        (v_after->>'startTime')::TIMESTAMPTZ,
+        (v_after->>'endTime')::TIMESTAMPTZ,
+        (v_after->>'durationMinutes')::INTEGER,
+        'confirmed'
+      )
+      RETURNING id INTO v_booking_id;
+
+      session_key := v_after->>'key';
+      student_id := v_student::UUID;
+      booking_id := v_booking_id;
+      RETURN NEXT;
+    END LOOP;
+  END LOOP;
+
+  UPDATE scheduling_sandboxes SET
+    status = 'published',
+    published_by = p_published_by,
+    published_at = NOW()
+  WHERE id = p_sandbox_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================================
+-- TRIGGERS
+-- =====================================================================================
+CREATE TRIGGER update_scheduling_sandboxes_timestamp
+  BEFORE UPDATE ON scheduling_sandboxes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE scheduling_sandboxes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY scheduling_sandboxes_admin ON scheduling_sandboxes
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE scheduling_sandboxes IS 'What-if timetables previewed against a snapshot before publishing';
+COMMENT ON COLUMN scheduling_sandboxes.diff IS 'Moved, cancelled and created sessions with affected people and hour impact';
+COMMENT ON FUNCTION publish_scheduling_sandbox IS 'Atomically apply a draft sandbox to classes and bookings';
@@ -0,0 +1,198 @@
+-- =====================================================================================
+-- Waitlist Seat Offers
+-- =====================================================================================
+-- This migration adds:
+-- 1. waitlist_offers, a seat offered to the next waitlisted student for a
+--    limited acceptance window
+-- 2. classes.waitlist_offer_hours, the per-class acceptance window
+-- 3. calculate_available_student_hours(), the hour balance less hours held by
+--    open and accepted offers
+-- 4. accept_waitlist_offer(), which checks the held hours are still covered
+--    and enrols the student in one transaction
+-- 5. Triggers releasing an accepted offer's hours once its class is charged
+--    or the student leaves the class
+--
+-- While an offer is pending the seat is held for the student and
+-- reserved_hours are held from their balance. Accepting keeps the hours held
+-- until the first session of the class is deducted. Declined and expired
+-- offers release both and the seat is offered to the next student;
+-- seat_opened_at is carried along so time-to-fill covers the whole chain.
+-- Transfers and class deductions check the available balance, so held hours
+-- cannot be spent elsewhere.
+-- =====================================================================================
+
+ALTER TABLE classes
+  ADD COLUMN IF NOT EXISTS waitlist_offer_hours INTEGER CHECK (waitlist_offer_hours BETWEEN 1 AND 72);
+
+-- =====================================================================================
+-- WAITLIST OFFERS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS waitlist_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  enrollment_id UUID NOT NULL, -- class_enrollments row of the waitlisted student
+  student_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'cancelled')),
+  reserved_hours INTEGER NOT NULL DEFAULT 1 CHECK (reserved_hours >= 0),
+
+  -- 64 hex characters from two random UUIDs; the credential in email links
+  token VARCHAR(64) NOT NULL UNIQUE
+    DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+
+  seat_opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  offered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  responded_at TIMESTAMPTZ,
+  -- When an accepted offer's held hours were used or let go
+  hours_released_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT waitlist_offers_valid_window CHECK (expires_at > offered_at)
+);
+
+-- One open offer per waitlist entry
+CREATE UNIQUE INDEX idx_waitlist_offers_pending_enrollment
+  ON waitlist_offers(enrollment_id) WHERE status = 'pending';
+
+CREATE INDEX idx_waitlist_offers_class ON waitlist_offers(class_id, status);
+CREATE INDEX idx_waitlist_offers_student ON waitlist_offers(student_id, status);
+CREATE INDEX idx_waitlist_offers_expiry ON waitlist_offers(expires_at) WHERE status = 'pending';
+
+-- =====================================================================================
+-- FUNCTIONS
+-- =====================================================================================
+-- Hour balance less held hours. Holds for p_class_id are not subtracted, so
+-- charging that class can draw on the hours held for it.
+CREATE OR REPLACE FUNCTION calculate_available_student_hours(
+  p_student_id UUID,
+  p_class_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+  SELECT calculate_student_hours(p_student_id) - COALESCE((
+    SELECT SUM(reserved_hours)::INTEGER
+    FROM waitlist_offers
+    WHERE student_id = p_student_id
+      AND class_id IS DISTINCT FROM p_class_id
+      AND (
+        (status = 'pending' AND expires_at > NOW())
+        OR (status = 'accepted' AND hours_released_at IS NULL)
+      )
+  ), 0);
+$$ LANGUAGE sql STABLE;
+
+-- Accepts a pending offer and enrols the student. The offer's own hold is
+-- part of the available balance, so a negative balance means the held hours
+-- are no longer covered (e.g. a lot expired) and the seat is not taken.
+CREATE OR REPLACE FUNCTION accept_waitlist_offer(p_offer_id UUID)
+RETURNS waitlist_offers AS $$
+DECLARE
+  v_offer waitlist_offers;
+  v_available INTEGER;
+BEGIN
+  SELECT * INTO v_offer FROM waitlist_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'OFFER_NOT_FOUND: waitlist offer % not found', p_offer_id;
+  END IF;
+
+  IF v_offer.status <> 'pending' THEN
+    RAISE EXCEPTION 'OFFER_NOT_PENDING: waitlist offer % is already %', p_offer_id, v_offer.status;
+  END IF;
+
+  IF v_offer.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'OFFER_EXPIRED: waitlist offer % has expired', p_offer_id;
+  END IF;
+
+  v_available := calculate_available_student_hours(v_offer.student_id);
+
+  IF v_available < 0 THEN
+    RAISE EXCEPTION 'INSUFFICIENT_HOURS: % hour(s) held but only % available', v_offer.reserved_hours, v_offer.reserved_hours + v_available;
+  END IF;
+
+  UPDATE waitlist_offers
+  SET status = 'accepted', responded_at = NOW()
+  WHERE id = p_offer_id
+  RETURNING * INTO v_offer;
+
+  UPDATE class_enrollments
+  SET status = 'enrolled', enrolled_at = NOW(), position_in_waitlist = NULL
+  WHERE id = v_offer.enrollment_id;
+
+  RETURN v_offer;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The hours held for an accepted seat are used by the first deduction for
+-- the class
+CREATE OR REPLACE FUNCTION release_waitlist_hours_on_deduction()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE waitlist_offers
+  SET hours_released_at = NOW()
+  WHERE student_id = NEW.student_id
+    AND class_id = NEW.class_id
+    AND status = 'accepted'
+    AND hours_released_at IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A student leaving the class no longer needs the hours held for the seat
+CREATE OR REPLACE FUNCTION release_waitlist_hours_on_drop()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE waitlist_offers
+  SET hours_released_at = NOW()
+  WHERE enrollment_id = NEW.id
+    AND status = 'accepted'
+    AND hours_released_at IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================================
+-- TRIGGERS
+-- =====================================================================================
+CREATE TRIGGER update_waitlist_offers_timestamp
+  BEFORE UPDATE ON waitlist_offers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER release_waitlist_hours_after_deduction
+  AFTER INSERT ON hour_transactions
+  FOR EACH ROW
+  WHEN (NEW.transaction_type = 'deduction' AND NEW.class_id IS NOT NULL)
+  EXECUTE FUNCTION release_waitlist_hours_on_deduction();
+
+CREATE TRIGGER release_waitlist_hours_after_drop
+  AFTER UPDATE OF status ON class_enrollments
+  FOR EACH ROW
+  WHEN (NEW.status <> 'enrolled' AND OLD.status = 'enrolled')
+  EXECUTE FUNCTION release_waitlist_hours_on_drop();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+-- Students see their own offers; responses go through the token endpoint
+CREATE POLICY waitlist_offers_own ON waitlist_offers
+  FOR SELECT USING (auth.uid() = student_id);
+
+CREATE POLICY waitlist_offers_admin ON waitlist_offers
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role IN ('admin', 'teacher'))
+  );
+
+COMMENT ON TABLE waitlist_offers IS 'Seats offered to waitlisted students with an acceptance window';
+COMMENT ON COLUMN waitlist_offers.reserved_hours IS 'Hours held from the student balance while the offer is pending and, once accepted, until the class is first charged';
+COMMENT ON COLUMN waitlist_offers.hours_released_at IS 'When an accepted offer stopped holding hours';
+COMMENT ON COLUMN waitlist_offers.seat_opened_at IS 'When the seat first became free, carried across passed-on offers';
+COMMENT ON COLUMN classes.waitlist_offer_hours IS 'Hours a waitlisted student has to accept an offered seat';
+COMMENT ON FUNCTION calculate_available_student_hours IS 'Hour balance less hours held by pending and accepted waitlist offers';
+COMMENT ON FUNCTION accept_waitlist_offer IS 'Accept a waitlist offer once its held hours are confirmed and enrol the student';
@@ -0,0 +1,115 @@
+-- =====================================================================================
+-- Room and Virtual Meeting Resources
+-- =====================================================================================
+-- This migration adds:
+-- 1. schedule_resources, a registry of rooms (capacity, equipment) and virtual
+--    meeting accounts (provider, licence login)
+-- 2. resource_allocations, a resource held by a class or booking for a time
+--    range, with the generated join link for virtual sessions
+-- 3. classes.resource_id, the resource a class normally uses
+--
+-- An exclusion constraint stops two active allocations of the same resource
+-- from overlapping, so a room or meeting licence cannot be double-booked even
+-- when two schedulers race.
+-- =====================================================================================
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- =====================================================================================
+-- SCHEDULE RESOURCES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS schedule_resources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL UNIQUE,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('room', 'virtual')),
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  equipment TEXT[] NOT NULL DEFAULT '{}',
+  location VARCHAR(255), -- campus of a room; matches academy_closures.location
+
+  provider VARCHAR(20) CHECK (provider IN ('local', 'zoom', 'google_meet', 'teams')),
+  account_email VARCHAR(255),
+
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT virtual_resource_has_provider CHECK (kind != 'virtual' OR provider IS NOT NULL)
+);
+
+CREATE INDEX idx_schedule_resources_kind ON schedule_resources(kind) WHERE is_active;
+
+-- =====================================================================================
+-- RESOURCE ALLOCATIONS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS resource_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  resource_id UUID NOT NULL REFERENCES schedule_resources(id) ON DELETE CASCADE,
+  class_id UUID REFERENCES classes(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES bookings(id) ON DELETE CASCADE,
+
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'released')),
+
+  -- Generated by the meeting provider for virtual resources
+  meeting_id VARCHAR(255),
+  join_url VARCHAR(500),
+  host_url VARCHAR(500),
+
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_allocation_range CHECK (end_time > start_time),
+  CONSTRAINT resource_allocations_no_overlap EXCLUDE USING gist (
+    resource_id WITH =,
+    tstzrange(start_time, end_time) WITH &&
+  ) WHERE (status = 'active')
+);
+
+CREATE INDEX idx_resource_allocations_window ON resource_allocations(start_time, end_time) WHERE status = 'active';
+CREATE INDEX idx_resource_allocations_class ON resource_allocations(class_id);
+
+ALTER TABLE classes
+  ADD COLUMN IF NOT EXISTS resource_id UUID REFERENCES schedule_resources(id) ON DELETE SET NULL;
+
+-- =====================================================================================
+-- TRIGGERS
+-- =====================================================================================
+CREATE TRIGGER update_schedule_resources_timestamp
+  BEFORE UPDATE ON schedule_resources
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_resource_allocations_timestamp
+  BEFORE UPDATE ON resource_allocations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE schedule_resources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE resource_allocations ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in can see rooms and when they are taken
+CREATE POLICY schedule_resources_read ON schedule_resources
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY resource_allocations_read ON resource_allocations
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY schedule_resources_admin ON schedule_resources
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY resource_allocations_admin ON resource_allocations
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE schedule_resources IS 'Rooms and virtual meeting accounts classes are allocated to';
+COMMENT ON TABLE resource_allocations IS 'A resource held by a class or booking for a time range';
+COMMENT ON CONSTRAINT resource_allocations_no_overlap ON resource_allocations IS 'A resource cannot be held twice at the same time';
+COMMENT ON COLUMN classes.resource_id IS 'Room or meeting account the class normally uses';
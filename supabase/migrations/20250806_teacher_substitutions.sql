@@ -0,0 +1,283 @@
+-- =====================================================================================
+-- Teacher Substitutions
+-- =====================================================================================
+-- This migration adds:
+-- 1. teacher_absences, a period a teacher cannot teach (e.g. called in sick)
+-- 2. substitution_requests, one per class session affected by an absence, with
+--    the ranked substitutes and the teacher who took the session
+-- 3. substitution_offers, the session offered to one substitute at a time for a
+--    short acceptance window
+-- 4. bookings.substitute_teacher_id, the teacher covering a single session
+-- 5. accept_substitution_offer(), which closes the offer and hands the session
+--    to the substitute in one transaction
+--
+-- The automatic hour deduction trigger is replaced so teacher_hours for a
+-- covered session are credited to the substitute at the substitute rate.
+-- =====================================================================================
+
+-- =====================================================================================
+-- TEACHER ABSENCES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS teacher_absences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id UUID NOT NULL REFERENCES teachers(id) ON DELETE CASCADE,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  reason TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'reported' CHECK (status IN ('reported', 'cancelled')),
+
+  reported_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT teacher_absences_valid_range CHECK (end_time > start_time)
+);
+
+CREATE INDEX idx_teacher_absences_teacher ON teacher_absences(teacher_id, start_time);
+
+-- =====================================================================================
+-- SUBSTITUTION REQUESTS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS substitution_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  absence_id UUID NOT NULL REFERENCES teacher_absences(id) ON DELETE CASCADE,
+  class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  original_teacher_id UUID NOT NULL REFERENCES teachers(id) ON DELETE CASCADE,
+  substitute_teacher_id UUID REFERENCES teachers(id) ON DELETE SET NULL,
+
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'searching'
+    CHECK (status IN ('searching', 'offered', 'filled', 'unfilled', 'cancelled')),
+
+  -- Qualified, free teachers in offer order: [{teacherId, name, score, rationale}]
+  candidates JSONB NOT NULL DEFAULT '[]',
+  filled_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT substitution_requests_valid_range CHECK (end_time > start_time)
+);
+
+CREATE INDEX idx_substitution_requests_status ON substitution_requests(status, start_time);
+CREATE INDEX idx_substitution_requests_absence ON substitution_requests(absence_id);
+-- A session is searched for once per absence
+CREATE UNIQUE INDEX idx_substitution_requests_session
+  ON substitution_requests(class_id, start_time)
+  WHERE status != 'cancelled';
+
+-- =====================================================================================
+-- SUBSTITUTION OFFERS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS substitution_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL REFERENCES substitution_requests(id) ON DELETE CASCADE,
+  teacher_id UUID NOT NULL REFERENCES teachers(id) ON DELETE CASCADE,
+  rank INTEGER NOT NULL CHECK (rank > 0),
+  score DECIMAL(5,4),
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'cancelled')),
+  -- Credential for responding to the offer
+  token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  offered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  responded_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (request_id, teacher_id)
+);
+
+CREATE INDEX idx_substitution_offers_teacher ON substitution_offers(teacher_id) WHERE status = 'pending';
+CREATE INDEX idx_substitution_offers_expiry ON substitution_offers(expires_at) WHERE status = 'pending';
+-- Offers go out one at a time
+CREATE UNIQUE INDEX idx_substitution_offers_one_pending
+  ON substitution_offers(request_id)
+  WHERE status = 'pending';
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS substitute_teacher_id UUID REFERENCES teachers(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_bookings_substitute_teacher ON bookings(substitute_teacher_id) WHERE substitute_teacher_id IS NOT NULL;
+
+-- =====================================================================================
+-- HOUR CREDIT FOR COVERED SESSIONS
+-- =====================================================================================
+CREATE OR REPLACE FUNCTION trigger_automatic_hour_deduction()
+RETURNS TRIGGER AS $$
+DECLARE
+    course_type_val VARCHAR(50);
+    deduction_rate DECIMAL(4,2);
+    hours_to_deduct DECIMAL(4,2);
+    teacher_uuid UUID;
+    compensation_type_val VARCHAR(50);
+BEGIN
+    -- Only process when booking status changes to 'completed'
+    IF NEW.status = 'completed' AND OLD.status != 'completed' THEN
+        -- A substitute, when one covered the session, teaches instead of the class teacher
+        SELECT c.course_type, COALESCE(NEW.substitute_teacher_id, cl.teacher_id)
+        INTO course_type_val, teacher_uuid
+        FROM classes cl
+        JOIN courses c ON cl.course_id = c.id
+        WHERE cl.id = NEW.class_id;
+
+        compensation_type_val := CASE WHEN NEW.substitute_teacher_id IS NOT NULL THEN 'substitute' ELSE 'standard' END;
+
+        -- Get deduction rate for this course type
+        deduction_rate := get_hour_deduction_rate(course_type_val);
+
+        -- Calculate hours to deduct based on duration
+        hours_to_deduct := (NEW.duration_minutes / 60.0) * deduction_rate;
+
+        -- Deduct hours from student balance
+        PERFORM deduct_student_hours(
+            NEW.student_id,
+            hours_to_deduct,
+            NEW.id,
+            NEW.class_id,
+            teacher_uuid,
+            'Automatic deduction for completed class',
+            NULL
+        );
+
+        -- Record teacher hours
+        INSERT INTO teacher_hours (
+            teacher_id, booking_id, class_id, teaching_date,
+            start_time, end_time, duration_minutes, hours_taught,
+            hourly_rate, base_compensation, total_compensation, compensation_type
+        ) VALUES (
+            teacher_uuid, NEW.id, NEW.class_id, NEW.start_time::DATE,
+            NEW.start_time::TIME, NEW.end_time::TIME,
+            NEW.duration_minutes, hours_to_deduct,
+            COALESCE((SELECT hourly_rate FROM teachers WHERE id = teacher_uuid), 0),
+            calculate_teacher_compensation(teacher_uuid, course_type_val, hours_to_deduct, NEW.start_time::DATE, compensation_type_val),
+            calculate_teacher_compensation(teacher_uuid, course_type_val, hours_to_deduct, NEW.start_time::DATE, compensation_type_val),
+            compensation_type_val
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================================
+-- ACCEPTING AN OFFER
+-- =====================================================================================
+-- Closes a pending offer as accepted and records the substitute on the
+-- request, the session's open bookings and its series session. Raises when
+-- the offer was already closed or has lapsed, leaving everything unchanged.
+CREATE OR REPLACE FUNCTION accept_substitution_offer(p_offer_id UUID)
+RETURNS substitution_offers AS $$
+DECLARE
+  v_offer substitution_offers;
+  v_request substitution_requests;
+BEGIN
+  SELECT * INTO v_offer FROM substitution_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'OFFER_NOT_FOUND: substitution offer % not found', p_offer_id;
+  END IF;
+
+  IF v_offer.status <> 'pending' THEN
+    RAISE EXCEPTION 'OFFER_NOT_PENDING: substitution offer % is already %', p_offer_id, v_offer.status;
+  END IF;
+
+  IF v_offer.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'OFFER_EXPIRED: substitution offer % has expired', p_offer_id;
+  END IF;
+
+  UPDATE substitution_offers
+  SET status = 'accepted', responded_at = NOW()
+  WHERE id = p_offer_id
+  RETURNING * INTO v_offer;
+
+  UPDATE substitution_requests
+  SET status = 'filled',
+      substitute_teacher_id = v_offer.teacher_id,
+      filled_at = v_offer.responded_at
+  WHERE id = v_offer.request_id
+  RETURNING * INTO v_request;
+
+  UPDATE bookings
+  SET substitute_teacher_id = v_offer.teacher_id
+  WHERE class_id = v_request.class_id
+    AND start_time = v_request.start_time
+    AND status IN ('pending', 'confirmed');
+
+  -- Keep a series session's teacher in step with its bookings
+  UPDATE class_series_occurrences
+  SET teacher_id = v_offer.teacher_id
+  WHERE class_id = v_request.class_id
+    AND start_time = v_request.start_time;
+
+  RETURN v_offer;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================================
+-- TRIGGERS
+-- =====================================================================================
+CREATE TRIGGER update_teacher_absences_timestamp
+  BEFORE UPDATE ON teacher_absences
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_substitution_requests_timestamp
+  BEFORE UPDATE ON substitution_requests
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_substitution_offers_timestamp
+  BEFORE UPDATE ON substitution_offers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE teacher_absences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE substitution_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE substitution_offers ENABLE ROW LEVEL SECURITY;
+
+-- Teachers see their own absences, the sessions being covered for them and
+-- the sessions offered to them
+CREATE POLICY teacher_absences_own ON teacher_absences
+  FOR SELECT USING (
+    teacher_id IN (SELECT id FROM teachers WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY substitution_requests_own ON substitution_requests
+  FOR SELECT USING (
+    original_teacher_id IN (SELECT id FROM teachers WHERE user_id = auth.uid())
+    OR substitute_teacher_id IN (SELECT id FROM teachers WHERE user_id = auth.uid())
+    OR id IN (
+      SELECT request_id FROM substitution_offers
+      WHERE teacher_id IN (SELECT id FROM teachers WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY substitution_offers_own ON substitution_offers
+  FOR SELECT USING (
+    teacher_id IN (SELECT id FROM teachers WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY teacher_absences_admin ON teacher_absences
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY substitution_requests_admin ON substitution_requests
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY substitution_offers_admin ON substitution_offers
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE teacher_absences IS 'Periods a teacher cannot teach; sessions inside them are offered to substitutes';
+COMMENT ON TABLE substitution_requests IS 'A class session needing cover, with ranked substitutes and the teacher who took it';
+COMMENT ON TABLE substitution_offers IS 'A session offered to one substitute for an acceptance window';
+COMMENT ON FUNCTION accept_substitution_offer IS 'Accept a cover offer and record the substitute on the request, bookings and series session atomically';
+COMMENT ON COLUMN bookings.substitute_teacher_id IS 'Teacher covering this session instead of the class teacher; credited in teacher_hours';
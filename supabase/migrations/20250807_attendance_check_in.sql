@@ -0,0 +1,177 @@
+-- =====================================================================================
+-- Live Attendance Check-in
+-- =====================================================================================
+-- This migration adds:
+-- 1. attendance_sessions, a class session with check-in running. Its secret
+--    derives the rotating code students enter or scan in class.
+-- 2. Check-in details on attendance (method, time, session) and the hour
+--    transaction the attendance deduction produced
+-- 3. classes.late_grace_minutes / absent_after_minutes overriding the default
+--    grace periods
+-- 4. reverse_class_deduction(), which returns a deduction's hours to the lots
+--    it drew from when a teacher corrects attendance
+-- =====================================================================================
+
+ALTER TABLE classes
+  ADD COLUMN IF NOT EXISTS late_grace_minutes INTEGER CHECK (late_grace_minutes >= 0),
+  ADD COLUMN IF NOT EXISTS absent_after_minutes INTEGER CHECK (absent_after_minutes > 0);
+
+-- =====================================================================================
+-- ATTENDANCE SESSIONS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS attendance_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  delivery_mode VARCHAR(20) NOT NULL DEFAULT 'in_person' CHECK (delivery_mode IN ('in_person', 'online')),
+
+  -- Never shown to students; check-in codes are derived from it
+  code_secret UUID NOT NULL DEFAULT gen_random_uuid(),
+  late_grace_minutes INTEGER NOT NULL CHECK (late_grace_minutes >= 0),
+  absent_after_minutes INTEGER NOT NULL CHECK (absent_after_minutes > 0),
+
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'finalized')),
+  opened_by UUID REFERENCES teachers(id) ON DELETE SET NULL,
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finalized_at TIMESTAMPTZ,
+  correction_deadline TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (class_id, start_time),
+  CONSTRAINT attendance_sessions_valid_range CHECK (end_time > start_time),
+  CONSTRAINT attendance_sessions_grace_order CHECK (absent_after_minutes > late_grace_minutes)
+);
+
+CREATE INDEX idx_attendance_sessions_open ON attendance_sessions(end_time) WHERE status = 'open';
+
+-- =====================================================================================
+-- ATTENDANCE CHECK-IN COLUMNS
+-- =====================================================================================
+ALTER TABLE attendance
+  ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES attendance_sessions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS check_in_method VARCHAR(20)
+    CHECK (check_in_method IN ('qr', 'code', 'online_join', 'teacher', 'auto')),
+  ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS hour_transaction_id UUID REFERENCES hour_transactions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS corrected_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS corrected_by UUID REFERENCES teachers(id) ON DELETE SET NULL;
+
+-- One attendance record per booking
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_booking_unique ON attendance(booking_id);
+CREATE INDEX IF NOT EXISTS idx_attendance_session ON attendance(session_id);
+
+-- =====================================================================================
+-- DEDUCTION REVERSAL
+-- =====================================================================================
+
+-- Returns the hours of a class deduction to the lots it drew from and records
+-- a refund transaction. Used when corrected attendance changes the deduction.
+CREATE OR REPLACE FUNCTION reverse_class_deduction(
+  p_transaction_id UUID,
+  p_reason TEXT DEFAULT 'Attendance corrected'
+) RETURNS UUID AS $$
+DECLARE
+  v_deduction RECORD;
+  v_draw RECORD;
+  v_balance_before INTEGER;
+  v_refund_id UUID;
+BEGIN
+  SELECT * INTO v_deduction
+  FROM hour_transactions
+  WHERE id = p_transaction_id AND transaction_type = 'deduction'
+  FOR UPDATE;
+
+  IF v_deduction.id IS NULL THEN
+    RAISE EXCEPTION 'Deduction % not found', p_transaction_id;
+  END IF;
+
+  IF v_deduction.is_reversed THEN
+    RAISE EXCEPTION 'Deduction % was already reversed', p_transaction_id;
+  END IF;
+
+  FOR v_draw IN
+    SELECT purchase_id, hours FROM hour_transaction_lots WHERE transaction_id = p_transaction_id
+  LOOP
+    UPDATE hour_purchases
+    SET hours_used = hours_used - v_draw.hours,
+        updated_at = NOW()
+    WHERE id = v_draw.purchase_id;
+  END LOOP;
+
+  v_balance_before := calculate_student_hours(v_deduction.student_id);
+
+  INSERT INTO hour_transactions (
+    student_id,
+    purchase_id,
+    transaction_type,
+    hours_amount,
+    balance_before,
+    balance_after,
+    class_id,
+    booking_id,
+    description,
+    reason,
+    original_transaction_id
+  ) VALUES (
+    v_deduction.student_id,
+    v_deduction.purchase_id,
+    'refund',
+    -v_deduction.hours_amount,
+    v_balance_before,
+    v_balance_before - v_deduction.hours_amount,
+    v_deduction.class_id,
+    v_deduction.booking_id,
+    'Class deduction reversed',
+    p_reason,
+    p_transaction_id
+  ) RETURNING id INTO v_refund_id;
+
+  UPDATE hour_transactions
+  SET is_reversed = true,
+      reversed_at = NOW(),
+      reversal_reason = p_reason
+  WHERE id = p_transaction_id;
+
+  RETURN v_refund_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================================
+-- TRIGGERS
+-- =====================================================================================
+CREATE TRIGGER update_attendance_sessions_timestamp
+  BEFORE UPDATE ON attendance_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE attendance_sessions ENABLE ROW LEVEL SECURITY;
+
+-- The class teacher, or the substitute covering the session, runs check-in
+CREATE POLICY attendance_sessions_teacher ON attendance_sessions
+  FOR ALL USING (
+    class_id IN (
+      SELECT id FROM classes
+      WHERE teacher_id IN (SELECT id FROM teachers WHERE user_id = auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.class_id = attendance_sessions.class_id
+        AND b.start_time = attendance_sessions.start_time
+        AND b.substitute_teacher_id IN (SELECT id FROM teachers WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY attendance_sessions_admin ON attendance_sessions
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE attendance_sessions IS 'Class sessions with live check-in; finalized sessions can be corrected until correction_deadline';
+COMMENT ON COLUMN attendance.check_in_method IS 'How the status was recorded: student check-in, online join, teacher, or the no-show sweep';
+COMMENT ON COLUMN attendance.hour_transaction_id IS 'Deduction applied for this attendance, reversed if the status is corrected';
+COMMENT ON FUNCTION reverse_class_deduction IS 'Returns a class deduction''s hours to the lots it drew from';
@@ -0,0 +1,109 @@
+-- =====================================================================================
+-- Attendance Policies
+-- =====================================================================================
+-- This migration adds:
+-- 1. attendance_policies, declarative deduction rules per course type and
+--    package tier. A policy is never edited; publishing a change adds a new
+--    version and supersedes the previous one from its effective date.
+-- 2. The policy version behind each attendance deduction, and why it applied
+-- 3. Version 1 policies carried over from hour_policies
+-- =====================================================================================
+
+-- =====================================================================================
+-- ATTENDANCE POLICIES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS attendance_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Scope; NULL applies to every course type or package tier
+  course_type VARCHAR(50) CHECK (course_type IN ('Basic', 'Everyday A', 'Everyday B', 'Speak Up', 'Business English', '1-on-1')),
+  package_tier VARCHAR(20) CHECK (package_tier IN ('standard', 'premium', 'corporate', 'trial', 'custom')),
+  version INTEGER NOT NULL CHECK (version > 0),
+
+  -- Share of the class's hours deducted for each status (0 = none, 1 = full)
+  present_rate DECIMAL(4,2) NOT NULL DEFAULT 1.0 CHECK (present_rate >= 0),
+  late_rate DECIMAL(4,2) NOT NULL DEFAULT 1.0 CHECK (late_rate >= 0),
+  absent_rate DECIMAL(4,2) NOT NULL DEFAULT 1.0 CHECK (absent_rate >= 0),
+  excused_rate DECIMAL(4,2) NOT NULL DEFAULT 0 CHECK (excused_rate >= 0),
+
+  -- An absence notified at least this many hours ahead counts as excused
+  excuse_notice_hours INTEGER CHECK (excuse_notice_hours >= 0),
+  -- Excused absences beyond this per calendar month are charged as absent
+  max_excused_per_month INTEGER CHECK (max_excused_per_month >= 0),
+
+  effective_from TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  superseded_at TIMESTAMPTZ,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT attendance_policies_valid_period CHECK (superseded_at IS NULL OR superseded_at >= effective_from)
+);
+
+CREATE UNIQUE INDEX idx_attendance_policies_version ON attendance_policies(
+  COALESCE(course_type, ''),
+  COALESCE(package_tier, ''),
+  version
+);
+CREATE INDEX idx_attendance_policies_current ON attendance_policies(course_type, package_tier) WHERE superseded_at IS NULL;
+
+-- Deductions must stay explainable by the version that produced them, so only
+-- superseded_at may change once a policy is published
+CREATE OR REPLACE FUNCTION prevent_attendance_policy_edits()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'superseded_at') <> (to_jsonb(OLD) - 'superseded_at') THEN
+    RAISE EXCEPTION 'Attendance policy versions cannot be edited; publish a new version instead';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER attendance_policies_immutable
+  BEFORE UPDATE ON attendance_policies
+  FOR EACH ROW EXECUTE FUNCTION prevent_attendance_policy_edits();
+
+-- =====================================================================================
+-- ATTENDANCE DEDUCTION PROVENANCE
+-- =====================================================================================
+ALTER TABLE attendance
+  ADD COLUMN IF NOT EXISTS policy_id UUID REFERENCES attendance_policies(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS policy_version INTEGER,
+  ADD COLUMN IF NOT EXISTS deduction_rate DECIMAL(4,2),
+  ADD COLUMN IF NOT EXISTS deduction_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_attendance_policy ON attendance(policy_id);
+
+-- =====================================================================================
+-- VERSION 1 POLICIES
+-- =====================================================================================
+
+-- A default for every course and tier, and per-course versions matching the
+-- rates attendance was charged at before this migration
+INSERT INTO attendance_policies (course_type, package_tier, version, notes)
+VALUES (NULL, NULL, 1, 'Default policy');
+
+INSERT INTO attendance_policies (
+  course_type, package_tier, version, present_rate, late_rate, absent_rate, excused_rate, notes
+)
+SELECT course_type, NULL, 1, deduction_rate, deduction_rate, no_show_penalty, 0, 'Carried over from hour_policies'
+FROM hour_policies;
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE attendance_policies ENABLE ROW LEVEL SECURITY;
+
+-- Policies are public to signed-in users so students can see the rules they are charged by
+CREATE POLICY attendance_policies_read ON attendance_policies
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY attendance_policies_admin ON attendance_policies
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE attendance_policies IS 'Versioned attendance deduction rules per course type and package tier';
+COMMENT ON COLUMN attendance_policies.excuse_notice_hours IS 'Absences notified by leave request at least this many hours ahead are excused; NULL disables';
+COMMENT ON COLUMN attendance_policies.max_excused_per_month IS 'Excused absences past this count in a month are charged at absent_rate; NULL is unlimited';
+COMMENT ON COLUMN attendance.policy_version IS 'Version of the attendance policy that produced hours_deducted';
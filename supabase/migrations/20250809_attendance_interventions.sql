@@ -0,0 +1,117 @@
+-- =====================================================================================
+-- Attendance Interventions
+-- =====================================================================================
+-- This migration adds:
+-- 1. intervention_cases, opened when a student's attendance crosses a risk
+--    threshold and assigned to a teacher or admin. A case records the rate
+--    at opening so its outcome can be measured against it.
+-- 2. intervention_steps, the outreach sequence for a case (email, call,
+--    make-up offer) with call logs and outcomes
+-- =====================================================================================
+
+-- =====================================================================================
+-- INTERVENTION CASES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS intervention_cases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  -- The class the student was most recently absent from
+  class_id UUID REFERENCES classes(id) ON DELETE SET NULL,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'monitoring', 'closed')),
+  risk_level VARCHAR(10) NOT NULL CHECK (risk_level IN ('medium', 'high')),
+  -- [{ type, value, detail }]
+  triggers JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  baseline_rate DECIMAL(5,4),
+  current_rate DECIMAL(5,4),
+
+  assigned_teacher_id UUID REFERENCES teachers(id) ON DELETE SET NULL,
+  assigned_admin_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  follow_up_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+  closed_by UUID REFERENCES auth.users(id),
+  outcome VARCHAR(20) CHECK (outcome IN ('improved', 'no_change', 'worsened', 'withdrawn')),
+  outcome_notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT intervention_cases_single_assignee CHECK (assigned_teacher_id IS NULL OR assigned_admin_id IS NULL),
+  CONSTRAINT intervention_cases_closed_outcome CHECK (status <> 'closed' OR outcome IS NOT NULL)
+);
+
+-- One active case per student
+CREATE UNIQUE INDEX idx_intervention_cases_active_student ON intervention_cases(student_id) WHERE status <> 'closed';
+CREATE INDEX idx_intervention_cases_status ON intervention_cases(status, opened_at);
+CREATE INDEX idx_intervention_cases_teacher ON intervention_cases(assigned_teacher_id) WHERE status <> 'closed';
+
+-- =====================================================================================
+-- INTERVENTION STEPS TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS intervention_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES intervention_cases(id) ON DELETE CASCADE,
+  step_type VARCHAR(20) NOT NULL CHECK (step_type IN ('email', 'call', 'makeup_offer')),
+  sequence INTEGER NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done', 'skipped')),
+  due_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ,
+  completed_by UUID REFERENCES auth.users(id),
+  notes TEXT,
+  call_outcome VARCHAR(20) CHECK (call_outcome IN ('reached', 'voicemail', 'no_answer')),
+  makeup_class_id UUID REFERENCES classes(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (case_id, sequence)
+);
+
+CREATE INDEX idx_intervention_steps_pending ON intervention_steps(due_at) WHERE status = 'pending';
+
+-- =====================================================================================
+-- TRIGGERS
+-- =====================================================================================
+CREATE TRIGGER update_intervention_cases_timestamp
+  BEFORE UPDATE ON intervention_cases
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_intervention_steps_timestamp
+  BEFORE UPDATE ON intervention_steps
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+ALTER TABLE intervention_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE intervention_steps ENABLE ROW LEVEL SECURITY;
+
+-- Teachers work the cases assigned to them
+CREATE POLICY intervention_cases_teacher ON intervention_cases
+  FOR ALL USING (
+    assigned_teacher_id IN (SELECT id FROM teachers WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY intervention_steps_teacher ON intervention_steps
+  FOR ALL USING (
+    case_id IN (
+      SELECT id FROM intervention_cases
+      WHERE assigned_teacher_id IN (SELECT id FROM teachers WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY intervention_cases_admin ON intervention_cases
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY intervention_steps_admin ON intervention_steps
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE intervention_cases IS 'Chronic absence cases with the attendance rate at opening and the outcome after outreach';
+COMMENT ON COLUMN intervention_cases.current_rate IS 'Attendance rate since the case opened, refreshed by the intervention sweep';
+COMMENT ON TABLE intervention_steps IS 'Outreach sequence for an intervention case';
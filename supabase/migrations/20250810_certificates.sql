@@ -0,0 +1,156 @@
+-- =====================================================================================
+-- Certificates
+-- =====================================================================================
+-- This migration adds:
+-- 1. Completion data on student_courses: when the course was completed and the
+--    final assessment result
+-- 2. certificate_templates, the wording and eligibility rules for attendance
+--    letters and completion certificates, per course type
+-- 3. certificates, each issued certificate with a snapshot of the figures it
+--    states and a unique verification code checked at /verify/[code]
+-- =====================================================================================
+
+-- =====================================================================================
+-- COURSE COMPLETION
+-- =====================================================================================
+ALTER TABLE student_courses ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+ALTER TABLE student_courses ADD COLUMN IF NOT EXISTS final_assessment_score DECIMAL(5,2);
+ALTER TABLE student_courses ADD COLUMN IF NOT EXISTS final_assessment_passed BOOLEAN;
+
+-- =====================================================================================
+-- CERTIFICATE TEMPLATES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS certificate_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  certificate_type VARCHAR(20) NOT NULL CHECK (certificate_type IN ('attendance', 'completion')),
+  -- NULL applies to every course type without its own template
+  course_type VARCHAR(50) CHECK (course_type IN ('Basic', 'Everyday A', 'Everyday B', 'Speak Up', 'Business English', '1-on-1')),
+  title VARCHAR(255) NOT NULL,
+  -- Placeholders such as {{student_name}} are filled in when a certificate is issued
+  body_text TEXT NOT NULL,
+  signatory_name VARCHAR(255),
+  signatory_title VARCHAR(255),
+
+  -- Eligibility
+  min_attendance_rate DECIMAL(5,4) CHECK (min_attendance_rate BETWEEN 0 AND 1),
+  requires_completion BOOLEAN NOT NULL DEFAULT FALSE,
+  requires_final_assessment BOOLEAN NOT NULL DEFAULT FALSE,
+
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One active template per type and course type
+CREATE UNIQUE INDEX idx_certificate_templates_active
+  ON certificate_templates(certificate_type, COALESCE(course_type, ''))
+  WHERE is_active;
+
+-- =====================================================================================
+-- CERTIFICATES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS certificates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  verification_code VARCHAR(20) NOT NULL UNIQUE,
+  certificate_type VARCHAR(20) NOT NULL CHECK (certificate_type IN ('attendance', 'completion')),
+  template_id UUID REFERENCES certificate_templates(id) ON DELETE SET NULL,
+
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  course_id UUID REFERENCES courses(id) ON DELETE SET NULL,
+  class_id UUID REFERENCES classes(id) ON DELETE SET NULL,
+
+  -- Snapshot of what the certificate states
+  title VARCHAR(255) NOT NULL,
+  body_text TEXT NOT NULL,
+  student_name VARCHAR(255) NOT NULL,
+  course_title VARCHAR(255),
+  course_type VARCHAR(50),
+  period_start DATE,
+  period_end DATE,
+  sessions_attended INTEGER NOT NULL DEFAULT 0,
+  sessions_total INTEGER NOT NULL DEFAULT 0,
+  attendance_rate DECIMAL(5,4),
+  hours_attended DECIMAL(6,2) NOT NULL DEFAULT 0,
+  completed_at TIMESTAMPTZ,
+  final_assessment_score DECIMAL(5,2),
+  signatory_name VARCHAR(255),
+  signatory_title VARCHAR(255),
+
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  issued_by UUID REFERENCES auth.users(id),
+  revoked_at TIMESTAMPTZ,
+  revoked_reason TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A course is certified complete once
+CREATE UNIQUE INDEX idx_certificates_completion
+  ON certificates(student_id, course_id)
+  WHERE certificate_type = 'completion' AND revoked_at IS NULL;
+CREATE INDEX idx_certificates_student ON certificates(student_id, issued_at DESC);
+CREATE INDEX idx_certificates_class ON certificates(class_id);
+
+-- =====================================================================================
+-- TRIGGERS
+-- =====================================================================================
+CREATE TRIGGER update_certificate_templates_timestamp
+  BEFORE UPDATE ON certificate_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_certificates_timestamp
+  BEFORE UPDATE ON certificates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+-- Public verification goes through the verify API route, never these tables
+ALTER TABLE certificate_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE certificates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY certificates_student_select ON certificates
+  FOR SELECT USING (
+    student_id IN (SELECT id FROM students WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY certificate_templates_admin ON certificate_templates
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY certificates_admin ON certificates
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+-- =====================================================================================
+-- DEFAULT TEMPLATES
+-- =====================================================================================
+INSERT INTO certificate_templates (
+  certificate_type, course_type, title, body_text, signatory_name, signatory_title,
+  min_attendance_rate, requires_completion, requires_final_assessment
+) VALUES
+  (
+    'attendance', NULL, 'Certificate of Attendance',
+    'This is to certify that {{student_name}} attended {{sessions_attended}} of {{sessions_total}} scheduled English classes ({{hours_attended}} hours, {{attendance_rate}} attendance) between {{period_start}} and {{period_end}}.',
+    NULL, 'Academic Director',
+    NULL, FALSE, FALSE
+  ),
+  (
+    'completion', 'Business English', 'Certificate of Completion',
+    'This is to certify that {{student_name}} has successfully completed the {{course_title}} course on {{completion_date}} with {{attendance_rate}} attendance and a final assessment score of {{assessment_score}}.',
+    NULL, 'Academic Director',
+    0.8, TRUE, TRUE
+  ),
+  (
+    'completion', 'Speak Up', 'Certificate of Completion',
+    'This is to certify that {{student_name}} has successfully completed the {{course_title}} course on {{completion_date}} with {{attendance_rate}} attendance and a final assessment score of {{assessment_score}}.',
+    NULL, 'Academic Director',
+    0.8, TRUE, TRUE
+  );
+
+COMMENT ON TABLE certificate_templates IS 'Wording and eligibility rules for attendance letters and completion certificates';
+COMMENT ON TABLE certificates IS 'Issued certificates with a snapshot of the figures stated and a public verification code';
+COMMENT ON COLUMN certificates.attendance_rate IS 'Attended share of non-excused sessions in the certificate period, 0-1';
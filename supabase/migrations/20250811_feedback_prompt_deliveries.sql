@@ -0,0 +1,92 @@
+-- =====================================================================================
+-- Feedback Prompt Deliveries
+-- =====================================================================================
+-- This migration adds:
+-- 1. Throttling settings on feedback_prompts: a weekly cap per student and the
+--    share of group classes sampled
+-- 2. feedback_prompt_deliveries, one row per attendance record a prompt was
+--    considered for, tracking scheduling, sending, reminders and the response
+-- =====================================================================================
+
+-- =====================================================================================
+-- PROMPT THROTTLING
+-- =====================================================================================
+ALTER TABLE feedback_prompts
+  ADD COLUMN IF NOT EXISTS max_prompts_per_week INTEGER CHECK (max_prompts_per_week > 0),
+  ADD COLUMN IF NOT EXISTS group_class_sample_rate DECIMAL(3,2) NOT NULL DEFAULT 1
+    CHECK (group_class_sample_rate BETWEEN 0 AND 1);
+
+UPDATE feedback_prompts
+SET max_prompts_per_week = 1, group_class_sample_rate = 0.30
+WHERE prompt_name = 'Post-Class Feedback';
+
+-- =====================================================================================
+-- PROMPT DELIVERIES TABLE
+-- =====================================================================================
+CREATE TABLE IF NOT EXISTS feedback_prompt_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prompt_id UUID NOT NULL REFERENCES feedback_prompts(id) ON DELETE CASCADE,
+  attendance_id UUID NOT NULL REFERENCES attendance(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  class_id UUID REFERENCES classes(id) ON DELETE SET NULL,
+  teacher_id UUID REFERENCES teachers(id) ON DELETE SET NULL,
+  course_id UUID REFERENCES courses(id) ON DELETE SET NULL,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'sent', 'responded', 'expired', 'skipped')),
+  skip_reason VARCHAR(20) CHECK (skip_reason IN ('throttled', 'not_sampled')),
+
+  -- 64 hex characters from two random UUIDs; the credential in rating links
+  token VARCHAR(64) NOT NULL UNIQUE
+    DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  sent_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  reminder_count INTEGER NOT NULL DEFAULT 0,
+  next_reminder_at TIMESTAMPTZ,
+  responded_at TIMESTAMPTZ,
+  feedback_id UUID REFERENCES student_feedback(id) ON DELETE SET NULL,
+  rating INTEGER CHECK (rating >= 1 AND rating <= 5),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- A prompt is considered once per attendance record
+  UNIQUE (prompt_id, attendance_id)
+);
+
+CREATE INDEX idx_feedback_prompt_deliveries_due ON feedback_prompt_deliveries(status, scheduled_for);
+CREATE INDEX idx_feedback_prompt_deliveries_reminders ON feedback_prompt_deliveries(status, next_reminder_at);
+CREATE INDEX idx_feedback_prompt_deliveries_student ON feedback_prompt_deliveries(student_id, scheduled_for DESC);
+CREATE INDEX idx_feedback_prompt_deliveries_teacher ON feedback_prompt_deliveries(teacher_id, sent_at);
+CREATE INDEX idx_feedback_prompt_deliveries_course ON feedback_prompt_deliveries(course_id, sent_at);
+
+-- =====================================================================================
+-- TRIGGERS
+-- =====================================================================================
+CREATE TRIGGER update_feedback_prompt_deliveries_timestamp
+  BEFORE UPDATE ON feedback_prompt_deliveries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================================================
+-- ROW LEVEL SECURITY
+-- =====================================================================================
+-- Students see their own prompts; responses go through the token endpoint
+ALTER TABLE feedback_prompt_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY feedback_prompt_deliveries_student_select ON feedback_prompt_deliveries
+  FOR SELECT USING (
+    student_id IN (SELECT id FROM students WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY feedback_prompt_deliveries_admin ON feedback_prompt_deliveries
+  FOR ALL USING (
+    auth.uid() IN (SELECT id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE feedback_prompt_deliveries IS 'Post-class feedback prompts scheduled from attendance, with reminders and the response';
+COMMENT ON COLUMN feedback_prompt_deliveries.skip_reason IS 'Why no prompt was sent: over the weekly cap or group class not sampled';
+COMMENT ON COLUMN feedback_prompts.max_prompts_per_week IS 'Most prompts a student receives in any 7 days; NULL for no cap';
+COMMENT ON COLUMN feedback_prompts.group_class_sample_rate IS 'Share of group class attendances prompted, 0-1; 1-on-1 classes are always prompted';
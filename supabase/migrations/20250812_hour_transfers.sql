@@ -0,0 +1,193 @@
+-- =====================================================================================
+-- Atomic Hour Transfers
+-- =====================================================================================
+-- This migration adds:
+-- 1. record_hour_transfer(), which records both transfer transactions, moves
+--    the lots and writes the transfer log in one transaction
+-- 2. transfer_hours(), the admin entry point to it
+--
+-- Transfers used to be written from the client as separate statements, so a
+-- failure part way through could leave a deduction without its lot move or log.
+--
+-- hour_purchases can only be written by admins, so both functions run as
+-- their owner. transfer_hours() checks that the caller is an admin (or the
+-- service role); guardians move family hours through transfer_family_hours().
+-- =====================================================================================
+
+-- Moves p_hours from one student to another and returns the transfer log. The
+-- source lots drawn are recorded against the source transaction. Raises when
+-- the source student cannot cover the transfer from hours not held for a
+-- waitlist seat. Callers check who may make the transfer, so it cannot be
+-- called directly.
+CREATE OR REPLACE FUNCTION record_hour_transfer(
+  p_from_student_id UUID,
+  p_to_student_id UUID,
+  p_hours INTEGER,
+  p_reason TEXT,
+  p_pool_account_id UUID,
+  p_is_family_transfer BOOLEAN,
+  p_family_relationship VARCHAR,
+  p_notes TEXT,
+  p_corporate_account_id UUID,
+  p_family_account_id UUID,
+  p_created_by UUID
+) RETURNS hour_transfer_logs AS $$
+DECLARE
+  v_from_balance INTEGER;
+  v_from_available INTEGER;
+  v_to_balance INTEGER;
+  v_from_transaction_id UUID;
+  v_to_transaction_id UUID;
+  v_from_purchase_id UUID;
+  v_log hour_transfer_logs;
+BEGIN
+  IF p_hours <= 0 THEN
+    RAISE EXCEPTION 'Hours to transfer must be positive';
+  END IF;
+
+  IF p_from_student_id = p_to_student_id THEN
+    RAISE EXCEPTION 'Cannot transfer hours to the same student';
+  END IF;
+
+  v_from_balance := calculate_student_hours(p_from_student_id);
+  v_from_available := calculate_available_student_hours(p_from_student_id);
+  v_to_balance := calculate_student_hours(p_to_student_id);
+
+  IF v_from_available < p_hours THEN
+    RAISE EXCEPTION 'Insufficient hours for transfer. Required: %, Available: %', p_hours, v_from_available;
+  END IF;
+
+  INSERT INTO hour_transactions (
+    student_id,
+    transaction_type,
+    hours_amount,
+    balance_before,
+    balance_after,
+    transfer_to_student_id,
+    description,
+    reason,
+    created_by
+  ) VALUES (
+    p_from_student_id,
+    'transfer',
+    -p_hours,
+    v_from_balance,
+    v_from_balance - p_hours,
+    p_to_student_id,
+    'Transfer to student ' || p_to_student_id,
+    p_reason,
+    p_created_by
+  ) RETURNING id INTO v_from_transaction_id;
+
+  v_from_purchase_id := transfer_purchase_hours(
+    p_from_student_id,
+    p_to_student_id,
+    p_hours,
+    p_pool_account_id,
+    v_from_transaction_id
+  );
+
+  UPDATE hour_transactions
+  SET purchase_id = v_from_purchase_id
+  WHERE id = v_from_transaction_id;
+
+  INSERT INTO hour_transactions (
+    student_id,
+    transaction_type,
+    hours_amount,
+    balance_before,
+    balance_after,
+    transfer_from_student_id,
+    description,
+    reason,
+    created_by
+  ) VALUES (
+    p_to_student_id,
+    'transfer',
+    p_hours,
+    v_to_balance,
+    v_to_balance + p_hours,
+    p_from_student_id,
+    'Transfer from student ' || p_from_student_id,
+    p_reason,
+    p_created_by
+  ) RETURNING id INTO v_to_transaction_id;
+
+  INSERT INTO hour_transfer_logs (
+    from_student_id,
+    to_student_id,
+    from_purchase_id,
+    hours_transferred,
+    transfer_reason,
+    is_family_transfer,
+    family_relationship,
+    from_transaction_id,
+    to_transaction_id,
+    notes,
+    corporate_account_id,
+    family_account_id,
+    created_by
+  ) VALUES (
+    p_from_student_id,
+    p_to_student_id,
+    v_from_purchase_id,
+    p_hours,
+    p_reason,
+    COALESCE(p_is_family_transfer, false),
+    p_family_relationship,
+    v_from_transaction_id,
+    v_to_transaction_id,
+    p_notes,
+    p_corporate_account_id,
+    p_family_account_id,
+    p_created_by
+  ) RETURNING * INTO v_log;
+
+  PERFORM check_hour_balance_alerts(p_from_student_id);
+
+  RETURN v_log;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_hour_transfer(UUID, UUID, INTEGER, TEXT, UUID, BOOLEAN, VARCHAR, TEXT, UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Admin transfers between any two students, recorded as made by the caller
+CREATE OR REPLACE FUNCTION transfer_hours(
+  p_from_student_id UUID,
+  p_to_student_id UUID,
+  p_hours INTEGER,
+  p_reason TEXT,
+  p_pool_account_id UUID DEFAULT NULL,
+  p_is_family_transfer BOOLEAN DEFAULT false,
+  p_family_relationship VARCHAR DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_corporate_account_id UUID DEFAULT NULL,
+  p_family_account_id UUID DEFAULT NULL
+) RETURNS hour_transfer_logs AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'FORBIDDEN: only admins can transfer hours between students';
+  END IF;
+
+  RETURN record_hour_transfer(
+    p_from_student_id,
+    p_to_student_id,
+    p_hours,
+    p_reason,
+    p_pool_account_id,
+    p_is_family_transfer,
+    p_family_relationship,
+    p_notes,
+    p_corporate_account_id,
+    p_family_account_id,
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION transfer_hours(UUID, UUID, INTEGER, TEXT, UUID, BOOLEAN, VARCHAR, TEXT, UUID, UUID) FROM PUBLIC, anon;
+
+COMMENT ON FUNCTION record_hour_transfer IS 'Transfers hours between students, recording both transactions, the lot moves and the transfer log atomically';
+COMMENT ON FUNCTION transfer_hours IS 'Admin transfer of hours between students';
@@ -0,0 +1,185 @@
+-- =====================================================================================
+-- Per-session Overrides for Scheduling Sandboxes
+-- =====================================================================================
+-- This migration adds:
+-- 1. bookings.session_location, the location of a single session when it
+--    differs from its class
+-- 2. A publish_scheduling_sandbox() that records a moved session's teacher and
+--    location on that session's bookings (and series session) instead of on
+--    the class, so the other sessions of the class keep theirs
+--
+-- A moved session's teacher is stored in bookings.substitute_teacher_id, the
+-- same per-session teacher used for substitutions, so teacher_hours follow it.
+-- Publishing is also refused when a booking from the snapshot changed after
+-- the snapshot, even if it has since moved out of the sandbox window.
+-- =====================================================================================
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS session_location VARCHAR(255);
+
+COMMENT ON COLUMN bookings.session_location IS 'Location of this session when it differs from the class location';
+
+CREATE OR REPLACE FUNCTION publish_scheduling_sandbox(
+  p_sandbox_id UUID,
+  p_published_by UUID DEFAULT NULL
+) RETURNS TABLE (session_key TEXT, student_id UUID, booking_id UUID) AS $$
+DECLARE
+  v_sandbox scheduling_sandboxes%ROWTYPE;
+  v_item JSONB;
+  v_after JSONB;
+  v_class classes%ROWTYPE;
+  v_class_id UUID;
+  v_teacher_id UUID;
+  v_location TEXT;
+  v_snapshot_ids UUID[];
+  v_student TEXT;
+  v_booking_id UUID;
+BEGIN
+  SELECT * INTO v_sandbox FROM scheduling_sandboxes WHERE id = p_sandbox_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Scheduling sandbox % not found', p_sandbox_id;
+  END IF;
+
+  IF v_sandbox.status <> 'draft' THEN
+    RAISE EXCEPTION 'SANDBOX_NOT_DRAFT: sandbox % is already %', p_sandbox_id, v_sandbox.status;
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT ids.value::UUID), '{}') INTO v_snapshot_ids
+  FROM jsonb_array_elements(v_sandbox.snapshot) s,
+       jsonb_each_text(s->'bookingIds') ids;
+
+  -- Stale when a booking in the window or from the snapshot changed, or a
+  -- snapshot booking no longer exists
+  IF EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE (
+        (b.start_time >= v_sandbox.window_start AND b.start_time < v_sandbox.window_end)
+        OR b.id = ANY(v_snapshot_ids)
+      )
+      AND GREATEST(b.created_at, b.updated_at) > v_sandbox.snapshot_taken_at
+  ) OR (
+    SELECT COUNT(*) FROM bookings b WHERE b.id = ANY(v_snapshot_ids)
+  ) < COALESCE(array_length(v_snapshot_ids, 1), 0) THEN
+    RAISE EXCEPTION 'SANDBOX_STALE: bookings changed after the sandbox snapshot was taken';
+  END IF;
+
+  -- Cancelled sessions
+  UPDATE bookings SET status = 'cancelled'
+  WHERE id IN (
+    SELECT ids.value::UUID
+    FROM jsonb_array_elements(v_sandbox.diff->'cancelled') s,
+         jsonb_each_text(s->'bookingIds') ids
+  )
+  AND status IN ('pending', 'confirmed');
+
+  -- Moved sessions: the time, teacher and location change for this session only
+  FOR v_item IN SELECT * FROM jsonb_array_elements(v_sandbox.diff->'moved') LOOP
+    v_after := v_item->'after';
+    v_class_id := (v_item->'before'->>'classId')::UUID;
+
+    SELECT * INTO v_class FROM classes WHERE id = v_class_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'SANDBOX_STALE: class % no longer exists', v_class_id;
+    END IF;
+
+    v_teacher_id := NULLIF((v_after->>'teacherId')::UUID, v_class.teacher_id);
+    v_location := NULLIF(v_after->>'location', v_class.location);
+
+    UPDATE bookings SET
+      booking_date = (v_after->>'bookingDate')::DATE,
+      start_time = (v_after->>'startTime')::TIMESTAMPTZ,
+      end_time = (v_after->>'endTime')::TIMESTAMPTZ,
+      duration_minutes = (v_after->>'durationMinutes')::INTEGER,
+      substitute_teacher_id = v_teacher_id,
+      session_location = v_location
+    WHERE id IN (SELECT value::UUID FROM jsonb_each_text(v_item->'before'->'bookingIds'))
+      AND status IN ('pending', 'confirmed');
+
+    UPDATE class_series_occurrences SET
+      occurrence_date = (v_after->>'bookingDate')::DATE,
+      start_time = (v_after->>'startTime')::TIMESTAMPTZ,
+      end_time = (v_after->>'endTime')::TIMESTAMPTZ,
+      teacher_id = COALESCE(v_teacher_id, v_class.teacher_id),
+      location = COALESCE(v_location, v_class.location)
+    WHERE id IN (
+      SELECT b.series_occurrence_id FROM bookings b
+      WHERE b.id IN (SELECT value::UUID FROM jsonb_each_text(v_item->'before'->'bookingIds'))
+        AND b.series_occurrence_id IS NOT NULL
+    );
+
+    UPDATE bookings SET status = 'cancelled'
+    WHERE id IN (
+      SELECT (v_item->'before'->'bookingIds'->>removed.value)::UUID
+      FROM jsonb_array_elements_text(v_item->'removedStudentIds') removed
+    );
+
+    FOR v_student IN SELECT value FROM jsonb_array_elements_text(v_item->'addedStudentIds') LOOP
+      INSERT INTO bookings (
+        student_id, class_id, booking_date, start_time, end_time, duration_minutes, status,
+        substitute_teacher_id, session_location
+      )
+      VALUES (
+        v_student::UUID,
+        v_class_id,
+        (v_after->>'bookingDate')::DATE,
+        (v_after->>'startTime')::TIMESTAMPTZ,
+        (v_after->>'endTime')::TIMESTAMPTZ,
+        (v_after->>'durationMinutes')::INTEGER,
+        'confirmed',
+        v_teacher_id,
+        v_location
+      )
+      RETURNING id INTO v_booking_id;
+
+      session_key := v_after->>'key';
+      student_id := v_student::UUID;
+      booking_id := v_booking_id;
+      RETURN NEXT;
+    END LOOP;
+  END LOOP;
+
+  -- Created sessions
+  FOR v_after IN SELECT * FROM jsonb_array_elements(v_sandbox.diff->'created') LOOP
+    INSERT INTO classes (course_id, teacher_id, capacity, current_enrollment, start_date, end_date, location)
+    VALUES (
+      (v_after->>'courseId')::UUID,
+      (v_after->>'teacherId')::UUID,
+      LEAST(GREATEST(jsonb_array_length(v_after->'studentIds'), 1), 9),
+      jsonb_array_length(v_after->'studentIds'),
+      (v_after->>'bookingDate')::DATE,
+      (v_after->>'bookingDate')::DATE,
+      v_after->>'location'
+    )
+    RETURNING id INTO v_class_id;
+
+    FOR v_student IN SELECT value FROM jsonb_array_elements_text(v_after->'studentIds') LOOP
+      INSERT INTO bookings (student_id, class_id, booking_date, start_time, end_time, duration_minutes, status)
+      VALUES (
+        v_student::UUID,
+        v_class_id,
+        (v_after->>'bookingDate')::DATE,
+        (v_after->>'startTime')::TIMESTAMPTZ,
+        (v_after->>'endTime')::TIMESTAMPTZ,
+        (v_after->>'durationMinutes')::INTEGER,
+        'confirmed'
+      )
+      RETURNING id INTO v_booking_id;
+
+      session_key := v_after->>'key';
+      student_id := v_student::UUID;
+      booking_id := v_booking_id;
+      RETURN NEXT;
+    END LOOP;
+  END LOOP;
+
+  UPDATE scheduling_sandboxes SET
+    status = 'published',
+    published_by = p_published_by,
+    published_at = NOW()
+  WHERE id = p_sandbox_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION publish_scheduling_sandbox IS 'Atomically apply a draft sandbox to bookings, recording moved session changes per session';
@@ -0,0 +1,61 @@
+-- Hour ledger posting with a user session
+-- Run with `supabase test db`
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(3);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-8000-000000000a01', 'ledger-teacher@example.com'),
+  ('00000000-0000-4000-8000-000000000a02', 'ledger-student@example.com');
+
+INSERT INTO profiles (id, email, full_name, role) VALUES
+  ('00000000-0000-4000-8000-000000000a01', 'ledger-teacher@example.com', 'Ledger Teacher', 'teacher'),
+  ('00000000-0000-4000-8000-000000000a02', 'ledger-student@example.com', 'Ledger Student', 'student')
+ON CONFLICT (id) DO UPDATE SET role = EXCLUDED.role;
+
+-- Record a deduction as the teacher, the way the class hour tracker does
+SET LOCAL ROLE authenticated;
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-4000-8000-000000000a01", "role": "authenticated"}',
+  true
+);
+
+SELECT lives_ok(
+  $$
+    INSERT INTO hour_transactions (
+      id, student_id, transaction_type, hours_amount, balance_before, balance_after, description
+    ) VALUES (
+      '00000000-0000-4000-8000-000000000b01',
+      '00000000-0000-4000-8000-000000000a02',
+      'deduction', -1, 5, 4, 'Ledger posting check'
+    )
+  $$,
+  'a teacher session can record a deduction'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM hour_ledger_journals WHERE transaction_id = '00000000-0000-4000-8000-000000000b01'),
+  1,
+  'the deduction posts one journal'
+);
+
+SELECT results_eq(
+  $$
+    SELECT e.account::TEXT, e.amount
+    FROM hour_ledger_entries e
+    JOIN hour_ledger_journals j ON j.id = e.journal_id
+    WHERE j.transaction_id = '00000000-0000-4000-8000-000000000b01'
+    ORDER BY e.account
+  $$,
+  $$ VALUES ('hours_consumed', 1), ('student_balance', -1) $$,
+  'the journal moves the hour from the student balance to hours consumed'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;